@@ -6,14 +6,17 @@ import Login from "@/pages/login";
 import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
+import GuardianInvite from "@/pages/guardian-invite";
 import AdminDashboard from "@/pages/dashboard/admin";
 import SchoolDashboard from "@/pages/dashboard/school";
 import AttendantDashboard from "@/pages/dashboard/attendant";
 import StudentDashboard from "@/pages/dashboard/student";
+import GuardianDashboard from "@/pages/dashboard/guardian";
 import EnrollmentPage from "@/pages/enrollment/index";
 import EnrollmentSuccessPage from "@/pages/enrollment/success";
 import PaymentSuccessPage from "@/pages/payment/success";
 import ChatbotPage from "@/pages/chatbot/index";
+import ChatbotFlowsPage from "@/pages/chatbot-flows/index";
 import ChatPage from "@/pages/chat/index";
 import SchoolsPage from "@/pages/schools/index";
 import NewSchoolPage from "@/pages/schools/new";
@@ -23,6 +26,14 @@ import EnrollmentsPage from "@/pages/enrollments/index";
 import EnrollmentViewPage from "@/pages/enrollments/view";
 import NewEnrollmentPage from "@/pages/enrollments/new";
 import FormQuestionsPage from "@/pages/form-questions/index";
+import FormBuilderPage from "@/pages/form-builder/index";
+import ContractTemplatesPage from "@/pages/contract-templates/index";
+import BillingPlansPage from "@/pages/billing-plans/index";
+import DiscountsPage from "@/pages/discounts/index";
+import BankReconciliationPage from "@/pages/bank-reconciliation/index";
+import ApiKeysPage from "@/pages/api-keys/index";
+import LeadCapturePage from "@/pages/lead-capture/index";
+import LeadAutomationPage from "@/pages/lead-automation/index";
 import CoursesPage from "@/pages/courses/index";
 import NewCoursePage from "@/pages/courses/new";
 import ExploreCoursesPage from "@/pages/courses/explore";
@@ -30,6 +41,10 @@ import MyEnrollmentsPage from "@/pages/my-enrollments/index";
 import DocumentsPage from "@/pages/documents/index";
 import SupportPage from "@/pages/support/index";
 import WhatsAppPage from "@/pages/whatsapp/index";
+import WhatsAppInboxPage from "@/pages/whatsapp-inbox/index";
+import WhatsAppCampaignsPage from "@/pages/whatsapp-campaigns/index";
+import ConsentsPage from "@/pages/consents/index";
+import WhatsAppScheduledPage from "@/pages/whatsapp-scheduled/index";
 import SchoolWhatsAppPage from "@/pages/school/whatsapp";
 import WhatsAppConfigPage from "@/pages/admin/whatsapp-config";
 import MonitoringDashboardPage from "@/pages/admin/monitoring-dashboard";
@@ -73,6 +88,7 @@ function AppRoutes() {
         <Route path="/register" component={Register} />
         <Route path="/forgot-password" component={ForgotPassword} />
         <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/guardian-invite/:token" component={GuardianInvite} />
         <Route path="/enrollment/:schoolId/:enrollmentId?" component={EnrollmentPage} />
         <Route path="/enrollment/success/:id" component={EnrollmentSuccessPage} />
         <Route path="/payment/success" component={PaymentSuccessPage} />
@@ -106,11 +122,17 @@ function AppRoutes() {
           <Route path="/" component={StudentDashboard} />
         )}
 
+        {/* Guardian Routes */}
+        {user.role === "guardian" && (
+          <Route path="/" component={GuardianDashboard} />
+        )}
+
         {/* Common authenticated routes */}
         <Route path="/dashboard/admin" component={AdminDashboard} />
         <Route path="/dashboard/school" component={SchoolDashboard} />
         <Route path="/dashboard/attendant" component={AttendantDashboard} />
         <Route path="/dashboard/student" component={StudentDashboard} />
+        <Route path="/dashboard/guardian" component={GuardianDashboard} />
         <Route path="/enrollment/:schoolId/:enrollmentId?" component={EnrollmentPage} />
         <Route path="/enrollment/success/:id" component={EnrollmentSuccessPage} />
         <Route path="/enrollment/continue/:enrollmentId" component={EnrollmentPage} />
@@ -119,11 +141,19 @@ function AppRoutes() {
         <Route path="/enrollments/new" component={NewEnrollmentPage} />
         <Route path="/enrollments/:enrollmentId" component={EnrollmentViewPage} />
         <Route path="/form-questions" component={FormQuestionsPage} />
+        <Route path="/form-builder" component={FormBuilderPage} />
+        <Route path="/contract-templates" component={ContractTemplatesPage} />
+        <Route path="/billing-plans" component={BillingPlansPage} />
+        <Route path="/discounts" component={DiscountsPage} />
+        <Route path="/bank-reconciliation" component={BankReconciliationPage} />
+        <Route path="/api-keys" component={ApiKeysPage} />
         <Route path="/chatbot" component={ChatbotPage} />
+        <Route path="/chatbot/flows" component={ChatbotFlowsPage} />
         <Route path="/chat" component={ChatPage} />
         <Route path="/schools" component={SchoolsPage} />
         <Route path="/schools/new" component={NewSchoolPage} />
         <Route path="/leads" component={LeadsPage} />
+        <Route path="/lead-automation" component={LeadAutomationPage} />
         <Route path="/onboarding" component={OnboardingPage} />
         <Route path="/courses" component={CoursesPage} />
         <Route path="/courses/new" component={NewCoursePage} />
@@ -132,6 +162,10 @@ function AppRoutes() {
         <Route path="/documents" component={DocumentsPage} />
         <Route path="/support" component={SupportPage} />
         <Route path="/whatsapp" component={WhatsAppPage} />
+        <Route path="/whatsapp/inbox" component={WhatsAppInboxPage} />
+        <Route path="/whatsapp/campaigns" component={WhatsAppCampaignsPage} />
+        <Route path="/whatsapp/scheduled" component={WhatsAppScheduledPage} />
+        <Route path="/consents" component={ConsentsPage} />
         <Route path="/admin/whatsapp-config" component={WhatsAppConfigPage} />
         <Route path="/admin/monitoring" component={MonitoringDashboardPage} />
         <Route path="/admin/payment-settings" component={PaymentSettingsPage} />
@@ -158,7 +192,13 @@ function App() {
     <TooltipProvider>
       <AuthProvider>
         <Toaster />
-        <AppRoutes />
+        <Switch>
+          {/* Formulário público de captação, exibido sem layout mesmo com sessão ativa */}
+          <Route path="/captura/:schoolId/:courseId?" component={LeadCapturePage} />
+          <Route>
+            <AppRoutes />
+          </Route>
+        </Switch>
       </AuthProvider>
     </TooltipProvider>
   );
@@ -1,18 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
-import { createEnrollment, getCoursesBySchool, getQuestionsBySchool } from '@/lib/api';
+import { createEnrollment, getCoursesBySchool, getQuestionsBySchool, renewSeatHold } from '@/lib/api';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import PersonalInfoStep from './steps/PersonalInfoStep';
 import DocumentsStep from './steps/DocumentsStep';
+import ContractStep from './steps/ContractStep';
 import PaymentStep from './steps/PaymentStep';
 import ReviewStep from './steps/ReviewStep';
 import CompletedStep from './steps/CompletedStep';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { toast } from '@/hooks/use-toast';
-import { Loader2, ArrowLeft, ArrowRight, Check } from 'lucide-react';
+import { Loader2, ArrowLeft, ArrowRight, Check, Clock } from 'lucide-react';
 
-const STEPS = ['personal', 'documents', 'payment', 'review', 'completed'];
+const STEPS = ['personal', 'documents', 'contract', 'payment', 'review', 'completed'];
 
 interface EnrollmentFormProps {
   schoolId: number;
@@ -35,6 +36,8 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
   const [courses, setCourses] = useState<any[]>([]);
   const [questions, setQuestions] = useState<any[]>([]);
   const [enrollmentId, setEnrollmentId] = useState<number | null>(initialEnrollmentId || null);
+  const [seat, setSeat] = useState<any>(null);
+  const [contractReady, setContractReady] = useState(false);
   const [formData, setFormData] = useState({
     personalInfo: {
       fullName: '',
@@ -100,10 +103,15 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
         };
 
         const response = await createEnrollment(enrollmentData);
-        setEnrollmentId(response.id);
+        if (!response.ok) throw new Error('Failed to create enrollment');
+        const enrollment = await response.json();
+        setEnrollmentId(enrollment.id);
+        setSeat(enrollment.seat || null);
         toast({
           title: 'Sucesso',
-          description: 'Seus dados pessoais foram salvos com sucesso!',
+          description: enrollment.seat?.status === 'waitlisted'
+            ? 'Seus dados foram salvos. O curso está lotado e você entrou na lista de espera.'
+            : 'Seus dados pessoais foram salvos com sucesso!',
         });
         setActiveStep((prev) => prev + 1);
       } catch (err) {
@@ -117,6 +125,32 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
         setIsSubmitting(false);
       }
     } else {
+      // O contrato precisa estar assinado antes do pagamento
+      if (STEPS[activeStep] === 'contract' && !contractReady) {
+        toast({
+          title: 'Contrato pendente',
+          description: 'Assine o contrato de matrícula para continuar.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      // Renovar a reserva de vaga enquanto o aluno avança nas etapas
+      if (enrollmentId && seat?.status === 'held') {
+        const response = await renewSeatHold(enrollmentId);
+        if (response.ok) {
+          const hold = await response.json();
+          setSeat({ ...seat, expiresAt: hold.expiresAt });
+        } else {
+          setSeat(null);
+          toast({
+            title: 'Reserva expirada',
+            description: 'O tempo de reserva da sua vaga expirou. Entre em contato com a escola.',
+            variant: 'destructive',
+          });
+        }
+      }
+
       // Avançar para o próximo passo
       setActiveStep((prev) => prev + 1);
     }
@@ -159,7 +193,7 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
     <Card className="w-full shadow-lg border-neutral-200 dark:border-neutral-800">
       <div className="border-b border-neutral-200 dark:border-neutral-800 bg-neutral-50 dark:bg-neutral-900 rounded-t-lg">
         <Tabs value={STEPS[activeStep]} className="w-full">
-          <TabsList className="grid grid-cols-5 h-auto p-0 rounded-none bg-transparent">
+          <TabsList className="grid grid-cols-6 h-auto p-0 rounded-none bg-transparent">
             {STEPS.map((step, index) => (
               <TabsTrigger
                 key={step}
@@ -190,6 +224,8 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
                       ? 'Dados Pessoais'
                       : step === 'documents'
                       ? 'Documentos'
+                      : step === 'contract'
+                      ? 'Contrato'
                       : step === 'payment'
                       ? 'Pagamento'
                       : step === 'review'
@@ -202,6 +238,17 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
           </TabsList>
 
           <CardContent className="p-6">
+            {seat && activeStep < STEPS.length - 1 && (
+              <div className="flex items-center mb-6 p-3 rounded-md bg-neutral-50 dark:bg-neutral-900 text-sm">
+                <Clock className="h-4 w-4 mr-2 text-primary" />
+                {seat.status === 'waitlisted'
+                  ? `Curso lotado: você está na posição ${seat.waitlistPosition} da lista de espera.`
+                  : seat.status === 'held' && seat.expiresAt
+                  ? `Vaga reservada até ${new Date(seat.expiresAt).toLocaleTimeString()}.`
+                  : 'Vaga confirmada.'}
+              </div>
+            )}
+
             <TabsContent value="personal" className="mt-0">
               <PersonalInfoStep
                 formData={formData.personalInfo}
@@ -220,6 +267,10 @@ const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
               />
             </TabsContent>
 
+            <TabsContent value="contract" className="mt-0">
+              <ContractStep enrollmentId={enrollmentId} onReadyChange={setContractReady} />
+            </TabsContent>
+
             <TabsContent value="payment" className="mt-0">
               <PaymentStep
                 enrollmentId={enrollmentId}
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateEnrollmentContract, requestContractOtp, signContract } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, CheckCircle, FileText, Eraser, AlertCircle } from 'lucide-react';
+
+interface ContractStepProps {
+  enrollmentId: number | null;
+  onReadyChange: (ready: boolean) => void;
+}
+
+const ContractStep: React.FC<ContractStepProps> = ({ enrollmentId, onReadyChange }) => {
+  const [contract, setContract] = useState<any>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notRequired, setNotRequired] = useState(false);
+  const [typedName, setTypedName] = useState('');
+  const [otp, setOtp] = useState('');
+  const [otpInfo, setOtpInfo] = useState<{ method: string; message: string } | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!enrollmentId) return;
+
+    const loadContract = async () => {
+      try {
+        setIsLoading(true);
+        const response = await generateEnrollmentContract(enrollmentId);
+        if (response.status === 404) {
+          // Escola sem modelo de contrato: a etapa não é obrigatória
+          setNotRequired(true);
+          onReadyChange(true);
+          return;
+        }
+        if (!response.ok) throw new Error('Falha ao gerar contrato');
+
+        const data = await response.json();
+        setContract(data);
+        setTypedName(data.signerName || '');
+        onReadyChange(data.status === 'signed');
+      } catch (error) {
+        console.error('Erro ao carregar contrato:', error);
+        toast({
+          title: 'Erro',
+          description: 'Não foi possível carregar o contrato. Tente novamente mais tarde.',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadContract();
+  }, [enrollmentId]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(event);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(event);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const handleRequestOtp = async () => {
+    try {
+      setIsSending(true);
+      const response = await requestContractOtp(contract.id);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Falha ao enviar código');
+
+      setOtpInfo({
+        method: data.method,
+        message: data.destination ? `${data.message} para ${data.destination}` : data.message,
+      });
+    } catch (error: any) {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSign = async () => {
+    try {
+      setIsSigning(true);
+      const response = await signContract(contract.id, {
+        typedName,
+        signatureImage: canvasRef.current!.toDataURL('image/png'),
+        otp,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Falha ao assinar contrato');
+
+      setContract(data);
+      onReadyChange(true);
+      toast({ title: 'Contrato assinado', description: 'Uma cópia foi anexada aos documentos da matrícula.' });
+    } catch (error: any) {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        <span className="ml-2">Gerando contrato...</span>
+      </div>
+    );
+  }
+
+  if (notRequired) {
+    return (
+      <Alert>
+        <FileText className="h-4 w-4" />
+        <AlertTitle>Sem contrato</AlertTitle>
+        <AlertDescription>Esta escola não exige assinatura de contrato. Prossiga para o pagamento.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!contract) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Contrato de matrícula</h3>
+        <a
+          href={`/api/contracts/${contract.id}/pdf`}
+          target="_blank"
+          rel="noreferrer"
+          className="text-sm text-primary hover:underline"
+        >
+          Abrir PDF
+        </a>
+      </div>
+
+      <ScrollArea className="h-72 rounded-md border p-4">
+        <p className="whitespace-pre-wrap text-sm">{contract.content}</p>
+      </ScrollArea>
+
+      {contract.status === 'signed' ? (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertTitle>Contrato assinado</AlertTitle>
+          <AlertDescription>
+            Assinado por {contract.signedName} em {new Date(contract.signedAt).toLocaleString('pt-BR')}.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-4">
+          {contract.missingVariables?.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Alguns dados do contrato não foram preenchidos. Confira com a escola antes de assinar.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="contract-name">Nome completo do contratante</Label>
+            <Input id="contract-name" value={typedName} onChange={(e) => setTypedName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Assinatura</Label>
+              <Button variant="ghost" size="sm" onClick={clearSignature}>
+                <Eraser className="mr-2 h-4 w-4" />
+                Limpar
+              </Button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={500}
+              height={150}
+              className="w-full max-w-[500px] h-[150px] rounded-md border bg-white touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contract-otp">Código de confirmação</Label>
+            <div className="flex gap-2">
+              <Input
+                id="contract-otp"
+                value={otp}
+                onChange={(e) => setOtp(e.target.value)}
+                placeholder="000000"
+                maxLength={8}
+                className="max-w-[160px]"
+              />
+              <Button variant="outline" onClick={handleRequestOtp} disabled={isSending}>
+                {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {otpInfo ? 'Reenviar código' : 'Receber código'}
+              </Button>
+            </div>
+            {otpInfo && <p className="text-sm text-neutral-500">{otpInfo.message}</p>}
+          </div>
+
+          <Button
+            onClick={handleSign}
+            disabled={isSigning || !otpInfo || !hasSignature || typedName.trim().length < 3 || otp.length < 6}
+          >
+            {isSigning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Assinar contrato
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContractStep;
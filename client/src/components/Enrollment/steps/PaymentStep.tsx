@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { loadStripe } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import { apiRequest } from '@/lib/queryClient';
+import { applyEnrollmentCoupon } from '@/lib/api';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, CheckCircle, CreditCard, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle, CreditCard, AlertCircle, Tag } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 interface PaymentStepProps {
@@ -15,13 +17,27 @@ interface PaymentStepProps {
   amount: number;
 }
 
+interface DiscountQuote {
+  baseAmount: number;
+  discounts: Array<{ ruleId: number; name: string; kind: string; amount: number }>;
+  totalDiscount: number;
+  finalAmount: number;
+}
+
 // Carrega o Stripe fora do componente para evitar recriações desnecessárias
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
 
 const PaymentStep: React.FC<PaymentStepProps> = ({ enrollmentId, courseId, amount }) => {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // Checkout hospedado pelo gateway da escola (quando não é Stripe Elements)
+  const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<'initial' | 'processing' | 'succeeded' | 'failed'>('initial');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [quote, setQuote] = useState<DiscountQuote | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  // Incrementado ao aplicar um cupom para recriar o pagamento com o novo valor
+  const [intentVersion, setIntentVersion] = useState(0);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -44,7 +60,9 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ enrollmentId, courseId, amoun
         }
 
         const data = await response.json();
+        setQuote(data.quote || null);
         setClientSecret(data.clientSecret);
+        setPaymentUrl(data.paymentUrl || null);
       } catch (error: any) {
         console.error('Erro ao criar payment intent:', error);
         setErrorMessage(error.message || 'Não foi possível iniciar o pagamento. Tente novamente mais tarde.');
@@ -57,7 +75,31 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ enrollmentId, courseId, amoun
     };
 
     createPaymentIntent();
-  }, [enrollmentId, courseId, amount, toast]);
+  }, [enrollmentId, courseId, amount, intentVersion, toast]);
+
+  const handleApplyCoupon = async () => {
+    if (!enrollmentId || !couponCode.trim()) return;
+
+    try {
+      setIsApplyingCoupon(true);
+      const response = await applyEnrollmentCoupon(enrollmentId, couponCode);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Cupom inválido');
+
+      toast({ title: 'Cupom aplicado', description: 'O valor do pagamento foi atualizado.' });
+      setCouponCode('');
+      setClientSecret(null);
+      setPaymentUrl(null);
+      setQuote(null);
+      setIntentVersion(version => version + 1);
+    } catch (error: any) {
+      toast({ title: 'Cupom não aplicado', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const finalAmount = quote ? quote.finalAmount : amount;
 
   const options = {
     clientSecret,
@@ -92,6 +134,51 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ enrollmentId, courseId, amoun
     );
   }
 
+  // Bolsa integral: nenhum pagamento necessário
+  if (!clientSecret && quote && quote.finalAmount <= 0) {
+    return (
+      <div className="w-full grid md:grid-cols-5 gap-6">
+        <div className="md:col-span-3">
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertTitle>Matrícula isenta de pagamento</AlertTitle>
+            <AlertDescription>
+              Os descontos aplicados cobrem o valor integral. Prossiga para a revisão.
+            </AlertDescription>
+          </Alert>
+        </div>
+        <div className="md:col-span-2">
+          <OrderSummary amount={amount} quote={quote} status="succeeded" />
+        </div>
+      </div>
+    );
+  }
+
+  // Gateways sem formulário embutido: o pagamento é concluído na página do gateway
+  if (!clientSecret && paymentUrl) {
+    return (
+      <div className="w-full grid md:grid-cols-5 gap-6">
+        <div className="md:col-span-3">
+          <Alert className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Conclua o pagamento</AlertTitle>
+            <AlertDescription>
+              O pagamento da matrícula é feito na página segura do meio de pagamento da escola.
+            </AlertDescription>
+          </Alert>
+          <Button asChild>
+            <a href={paymentUrl} target="_blank" rel="noopener noreferrer">
+              Ir para o pagamento
+            </a>
+          </Button>
+        </div>
+        <div className="md:col-span-2">
+          <OrderSummary amount={amount} quote={quote} status={paymentStatus} />
+        </div>
+      </div>
+    );
+  }
+
   if (!clientSecret) {
     return (
       <div className="w-full flex flex-col items-center justify-center py-12">
@@ -114,17 +201,29 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ enrollmentId, courseId, amoun
 
       <div className="grid md:grid-cols-5 gap-6">
         <div className="md:col-span-3">
-          <Elements stripe={stripePromise} options={options}>
+          <Elements key={clientSecret} stripe={stripePromise} options={options}>
             <CheckoutForm 
-              amount={amount} 
+              amount={finalAmount} 
               onStatusChange={setPaymentStatus} 
               onError={setErrorMessage}
             />
           </Elements>
         </div>
         
-        <div className="md:col-span-2">
-          <OrderSummary amount={amount} status={paymentStatus} />
+        <div className="md:col-span-2 space-y-4">
+          <OrderSummary amount={amount} quote={quote} status={paymentStatus} />
+          {paymentStatus === 'initial' && (
+            <div className="flex gap-2">
+              <Input
+                value={couponCode}
+                onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                placeholder="Cupom de desconto"
+              />
+              <Button variant="outline" onClick={handleApplyCoupon} disabled={isApplyingCoupon || !couponCode.trim()}>
+                {isApplyingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : <Tag className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -227,10 +326,14 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ amount, onStatusChange, onE
 
 interface OrderSummaryProps {
   amount: number;
+  quote: DiscountQuote | null;
   status: 'initial' | 'processing' | 'succeeded' | 'failed';
 }
 
-const OrderSummary: React.FC<OrderSummaryProps> = ({ amount, status }) => {
+const OrderSummary: React.FC<OrderSummaryProps> = ({ amount, quote, status }) => {
+  const total = quote ? quote.finalAmount : amount;
+
+
   return (
     <Card>
       <CardHeader>
@@ -242,6 +345,12 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ amount, status }) => {
             <span className="text-neutral-600 dark:text-neutral-400">Matrícula</span>
             <span>R$ {amount.toFixed(2)}</span>
           </div>
+          {quote?.discounts.map((discount) => (
+            <div key={discount.ruleId} className="flex justify-between text-green-700 dark:text-green-400">
+              <span>{discount.name}</span>
+              <span>- R$ {discount.amount.toFixed(2)}</span>
+            </div>
+          ))}
           <div className="flex justify-between">
             <span className="text-neutral-600 dark:text-neutral-400">Taxa de processamento</span>
             <span>R$ 0,00</span>
@@ -249,7 +358,7 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({ amount, status }) => {
           <Separator />
           <div className="flex justify-between font-semibold">
             <span>Total</span>
-            <span>R$ {amount.toFixed(2)}</span>
+            <span>R$ {total.toFixed(2)}</span>
           </div>
         </div>
       </CardContent>
@@ -41,6 +41,8 @@ export function TopNavBar({ onSidebarToggle }: TopNavBarProps) {
         return "Atendente";
       case "student":
         return "Aluno";
+      case "guardian":
+        return "Responsável";
       default:
         return role;
     }
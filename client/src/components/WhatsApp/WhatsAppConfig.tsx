@@ -20,7 +20,7 @@ import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Copy, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Copy, Loader2 } from "lucide-react";
 import { updateSchool, getSchool } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 
@@ -42,10 +42,8 @@ export function WhatsAppConfig({
   isOpen,
   onClose,
 }: WhatsAppConfigProps) {
-  const [showApiKey, setShowApiKey] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [apiKey, setApiKey] = useState("");
   const [webhookUrl, setWebhookUrl] = useState("");
   const { toast } = useToast();
   
@@ -70,7 +68,6 @@ export function WhatsAppConfig({
           whatsappEnabled: school.whatsappEnabled || false,
         });
         
-        setApiKey(school.apiKey || generateRandomApiKey());
         setWebhookUrl(`https://edumatrik.ai/api/whatsapp/webhook?school=${schoolId}`);
       } catch (error) {
         console.error("Error loading school data:", error);
@@ -93,8 +90,6 @@ export function WhatsAppConfig({
       await updateSchool(schoolId, {
         whatsappNumber: values.whatsappNumber,
         whatsappEnabled: values.whatsappEnabled,
-        apiKey,
-        webhookUrl,
       });
       
       toast({
@@ -115,13 +110,11 @@ export function WhatsAppConfig({
     }
   };
 
-  const handleCopyToClipboard = (text: string, type: 'webhook' | 'apiKey') => {
+  const handleCopyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
       toast({
         title: "Copiado!",
-        description: type === 'webhook' 
-          ? "URL do webhook copiado para a área de transferência" 
-          : "Chave de API copiada para a área de transferência",
+        description: "URL do webhook copiado para a área de transferência",
       });
     }).catch(err => {
       console.error('Failed to copy: ', err);
@@ -133,15 +126,6 @@ export function WhatsAppConfig({
     });
   };
 
-  const generateRandomApiKey = () => {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-    for (let i = 0; i < 32; i++) {
-      result += characters.charAt(Math.floor(Math.random() * characters.length));
-    }
-    return result;
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-lg">
@@ -194,7 +178,7 @@ export function WhatsAppConfig({
                       type="button"
                       variant="secondary"
                       className="rounded-l-none"
-                      onClick={() => handleCopyToClipboard(webhookUrl, 'webhook')}
+                      onClick={() => handleCopyToClipboard(webhookUrl)}
                     >
                       <Copy size={18} />
                     </Button>
@@ -204,34 +188,9 @@ export function WhatsAppConfig({
                   </p>
                 </div>
                 
-                <div className="mb-4">
-                  <FormLabel htmlFor="api_key">Chave de API</FormLabel>
-                  <div className="flex">
-                    <Input
-                      id="api_key"
-                      type={showApiKey ? "text" : "password"}
-                      value={apiKey}
-                      readOnly
-                      className="rounded-r-none"
-                    />
-                    <Button
-                      type="button"
-                      variant="secondary"
-                      className="rounded-none border-r-0"
-                      onClick={() => setShowApiKey(!showApiKey)}
-                    >
-                      {showApiKey ? <EyeOff size={18} /> : <Eye size={18} />}
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="secondary"
-                      className="rounded-l-none"
-                      onClick={() => handleCopyToClipboard(apiKey, 'apiKey')}
-                    >
-                      <Copy size={18} />
-                    </Button>
-                  </div>
-                </div>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  Chaves de API para integrações são gerenciadas no menu Chaves de API.
+                </p>
               </div>
               
               <div className="p-4 bg-neutral-50 dark:bg-neutral-800/50 rounded-lg border border-neutral-200 dark:border-neutral-700">
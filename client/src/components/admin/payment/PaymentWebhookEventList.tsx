@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw, Eye } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+
+type WebhookStatus = 'received' | 'processing' | 'processed' | 'failed' | 'ignored' | 'rejected';
+
+// Webhook de gateway recebido e gravado pelo servidor
+interface PaymentWebhookEvent {
+  id: number;
+  gateway: string;
+  settingsId: number | null;
+  eventId: string;
+  signatureVerified: boolean;
+  status: WebhookStatus;
+  attempts: number;
+  lastError: string | null;
+  eventsCount: number;
+  updatedPayments: number;
+  receivedAt: string;
+  processedAt: string | null;
+  rawBody?: string | null;
+  body?: any;
+  headers?: Record<string, any>;
+  query?: Record<string, any>;
+  events?: any[];
+}
+
+interface WebhookEventsResponse {
+  events: PaymentWebhookEvent[];
+  counts: Partial<Record<WebhookStatus, number>>;
+}
+
+const STATUS_LABELS: Record<WebhookStatus, string> = {
+  received: 'Na fila',
+  processing: 'Processando',
+  processed: 'Processado',
+  failed: 'Falhou',
+  ignored: 'Sem efeito',
+  rejected: 'Assinatura inválida',
+};
+
+const STATUS_VARIANTS: Record<WebhookStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'outline' | 'warning'> = {
+  received: 'secondary',
+  processing: 'warning',
+  processed: 'success',
+  failed: 'destructive',
+  ignored: 'outline',
+  rejected: 'destructive',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('pt-BR') : '-';
+
+export default function PaymentWebhookEventList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<WebhookStatus | 'all'>('failed');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const listUrl = statusFilter === 'all'
+    ? '/api/admin/payment/webhook-events'
+    : `/api/admin/payment/webhook-events?status=${statusFilter}`;
+
+  // Buscar webhooks recebidos
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/admin/payment/webhook-events', statusFilter],
+    queryFn: async () => {
+      const response = await apiRequest('GET', listUrl);
+      if (!response.ok) throw new Error('Erro ao carregar webhooks');
+      return await response.json() as WebhookEventsResponse;
+    }
+  });
+
+  const events = data?.events || [];
+  const counts = data?.counts || {};
+
+  // Detalhe do webhook selecionado
+  const { data: selectedEvent, isLoading: isLoadingDetail } = useQuery({
+    queryKey: ['/api/admin/payment/webhook-events', 'detail', selectedId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/payment/webhook-events/${selectedId}`);
+      if (!response.ok) throw new Error('Erro ao carregar webhook');
+      return await response.json() as PaymentWebhookEvent;
+    },
+    enabled: selectedId !== null
+  });
+
+  // Mutação para reprocessar webhook
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/payment/webhook-events/${id}/replay`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/payment/webhook-events'] });
+      toast({
+        title: 'Webhook reenviado para processamento',
+        description: 'O status será atualizado assim que o evento for processado',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Erro ao reprocessar webhook',
+        description: error.message || 'Ocorreu um erro ao reprocessar o webhook',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex gap-2">
+          {(['failed', 'rejected', 'received'] as WebhookStatus[]).map((status) => (
+            <Badge key={status} variant={STATUS_VARIANTS[status]}>
+              {STATUS_LABELS[status]}: {counts[status] || 0}
+            </Badge>
+          ))}
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as WebhookStatus | 'all')}>
+          <SelectTrigger className="w-52">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos</SelectItem>
+            {(Object.keys(STATUS_LABELS) as WebhookStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : events.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          Nenhum webhook encontrado para o filtro selecionado.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recebido em</TableHead>
+              <TableHead>Gateway</TableHead>
+              <TableHead>Evento</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Tentativas</TableHead>
+              <TableHead>Erro</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map((event) => (
+              <TableRow key={event.id}>
+                <TableCell>{formatDate(event.receivedAt)}</TableCell>
+                <TableCell>{event.gateway}</TableCell>
+                <TableCell className="font-mono text-xs max-w-[200px] truncate" title={event.eventId}>
+                  {event.eventId}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[event.status]}>{STATUS_LABELS[event.status]}</Badge>
+                </TableCell>
+                <TableCell>{event.attempts}</TableCell>
+                <TableCell className="max-w-[260px] truncate text-muted-foreground" title={event.lastError || ''}>
+                  {event.lastError || '-'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSelectedId(event.id)}
+                      title="Detalhes"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    {event.signatureVerified && event.status !== 'processing' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => replayMutation.mutate(event.id)}
+                        disabled={replayMutation.isPending}
+                        title="Reprocessar"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Diálogo de detalhes */}
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Webhook #{selectedId}</DialogTitle>
+            <DialogDescription>
+              Corpo original, cabeçalhos e eventos de pagamento extraídos
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingDetail || !selectedEvent ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div><strong>Gateway:</strong> {selectedEvent.gateway}</div>
+                <div><strong>Status:</strong> {STATUS_LABELS[selectedEvent.status]}</div>
+                <div><strong>Assinatura:</strong> {selectedEvent.signatureVerified ? 'Válida' : 'Inválida'}</div>
+                <div><strong>Pagamentos atualizados:</strong> {selectedEvent.updatedPayments}</div>
+                <div><strong>Recebido em:</strong> {formatDate(selectedEvent.receivedAt)}</div>
+                <div><strong>Processado em:</strong> {formatDate(selectedEvent.processedAt)}</div>
+              </div>
+              {selectedEvent.lastError && (
+                <div className="text-destructive"><strong>Último erro:</strong> {selectedEvent.lastError}</div>
+              )}
+              <div>
+                <strong>Eventos</strong>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(selectedEvent.events, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <strong>Corpo</strong>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
+                  {selectedEvent.rawBody || JSON.stringify(selectedEvent.body, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <strong>Cabeçalhos</strong>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(selectedEvent.headers, null, 2)}
+                </pre>
+              </div>
+              {selectedEvent.signatureVerified && selectedEvent.status !== 'processing' && (
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => replayMutation.mutate(selectedEvent.id)}
+                    disabled={replayMutation.isPending}
+                  >
+                    {replayMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    )}
+                    Reprocessar
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getLeadCaptureSettings, updateLeadCaptureSettings } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, Loader2, Save } from 'lucide-react';
+
+// Configuração da captação retornada pelo servidor
+interface LeadCaptureSettings {
+  schoolId: number;
+  enabled: boolean;
+  consentText: string;
+  successMessage: string;
+  greetingEnabled: boolean;
+  greetingMessage: string;
+}
+
+interface LeadCaptureSettingsDialogProps {
+  schoolId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Configuração do formulário público de captação, com link da página
+ * hospedada e código de incorporação para o site da escola
+ */
+export default function LeadCaptureSettingsDialog({ schoolId, open, onOpenChange }: LeadCaptureSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<LeadCaptureSettings | null>(null);
+
+  const { data: settings, isLoading } = useQuery<LeadCaptureSettings>({
+    queryKey: ['/api/schools', schoolId, 'lead-capture'],
+    queryFn: () => getLeadCaptureSettings(schoolId),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: LeadCaptureSettings) => {
+      const res = await updateLeadCaptureSettings(schoolId, {
+        enabled: data.enabled,
+        consentText: data.consentText,
+        successMessage: data.successMessage,
+        greetingEnabled: data.greetingEnabled,
+        greetingMessage: data.greetingMessage,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || 'Erro ao salvar configuração');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools', schoolId, 'lead-capture'] });
+      toast({ title: 'Configuração salva', description: 'A captação de leads foi atualizada.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const origin = window.location.origin;
+  const pageUrl = `${origin}/captura/${schoolId}`;
+  const embedCode = `<div data-edumatrik-leads data-school="${schoolId}"></div>\n<script src="${origin}/embed/leads.js" async></script>`;
+
+  const copy = (value: string) => {
+    navigator.clipboard.writeText(value);
+    toast({ title: 'Copiado', description: 'Conteúdo copiado para a área de transferência.' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Captação de leads</DialogTitle>
+          <DialogDescription>
+            Formulário público para o site da escola e página hospedada por curso
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !form ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="capture-enabled">Formulário ativo</Label>
+              <Switch
+                id="capture-enabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Página hospedada</Label>
+              <div className="flex gap-2">
+                <code className="flex-1 rounded bg-neutral-100 dark:bg-neutral-800 px-3 py-2 text-xs break-all">{pageUrl}</code>
+                <Button variant="outline" size="icon" onClick={() => copy(pageUrl)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-neutral-500">
+                Acrescente <code>/ID-do-curso</code> ao link para pré-selecionar um curso. Parâmetros UTM do link são registrados no lead.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Código de incorporação</Label>
+              <div className="flex gap-2">
+                <pre className="flex-1 rounded bg-neutral-100 dark:bg-neutral-800 px-3 py-2 text-xs whitespace-pre-wrap break-all">{embedCode}</pre>
+                <Button variant="outline" size="icon" onClick={() => copy(embedCode)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-neutral-500">
+                Use <code>data-course</code> para fixar um curso no formulário.
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="consent-text">Termo de consentimento</Label>
+              <Textarea
+                id="consent-text"
+                rows={3}
+                value={form.consentText}
+                onChange={(e) => setForm({ ...form, consentText: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="success-message">Mensagem após o envio</Label>
+              <Textarea
+                id="success-message"
+                rows={2}
+                value={form.successMessage}
+                onChange={(e) => setForm({ ...form, successMessage: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="greeting-enabled">Saudação automática pelo WhatsApp</Label>
+              <Switch
+                id="greeting-enabled"
+                checked={form.greetingEnabled}
+                onCheckedChange={(greetingEnabled) => setForm({ ...form, greetingEnabled })}
+              />
+            </div>
+
+            {form.greetingEnabled && (
+              <div className="space-y-2">
+                <Textarea
+                  rows={3}
+                  value={form.greetingMessage}
+                  onChange={(e) => setForm({ ...form, greetingMessage: e.target.value })}
+                />
+                <p className="text-xs text-neutral-500">
+                  Variáveis: {'{{nome}}'}, {'{{curso}}'}, {'{{escola}}'}. Enviada pela instância de WhatsApp conectada da escola.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button onClick={() => form && saveMutation.mutate(form)} disabled={!form || saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { convertLead, getCoursesBySchool } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowUpRight, Loader2 } from 'lucide-react';
+
+// Resultado da conversão retornado pelo servidor
+interface LeadConversionResult {
+  enrollmentId: number;
+  studentId: number;
+  userCreated: boolean;
+  linkedContacts: number;
+}
+
+interface LeadConversionDialogProps {
+  lead: any | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Converte o lead em aluno e matrícula, confirmando curso e e-mail de acesso
+ */
+export default function LeadConversionDialog({ lead, open, onOpenChange }: LeadConversionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [courseId, setCourseId] = useState('');
+  const [email, setEmail] = useState('');
+  const [cpf, setCpf] = useState('');
+
+  const { data: courses } = useQuery<any[]>({
+    queryKey: ['/api/courses', lead?.schoolId],
+    queryFn: () => getCoursesBySchool(lead.schoolId),
+    enabled: open && !!lead?.schoolId,
+  });
+
+  useEffect(() => {
+    if (open && lead) {
+      setCourseId(lead.courseId ? String(lead.courseId) : '');
+      setEmail(lead.email || '');
+      setCpf('');
+    }
+  }, [open, lead]);
+
+  const convertMutation = useMutation({
+    mutationFn: async (): Promise<LeadConversionResult> => {
+      const res = await convertLead(lead.id, {
+        courseId: courseId ? parseInt(courseId) : undefined,
+        email: email.trim() || undefined,
+        cpf: cpf.trim() || undefined,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || 'Erro ao converter lead');
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: 'Lead convertido',
+        description: result.userCreated
+          ? `Matrícula #${result.enrollmentId} criada. O aluno recebeu um e-mail para definir a senha.`
+          : `Matrícula #${result.enrollmentId} criada para o aluno já cadastrado.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Converter para matrícula</DialogTitle>
+          <DialogDescription>
+            Cria o aluno e a matrícula de {lead?.fullName}, levando telefone, observações e conversas de WhatsApp do lead
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Curso</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o curso" />
+              </SelectTrigger>
+              <SelectContent>
+                {(courses || []).map((course: any) => (
+                  <SelectItem key={course.id} value={String(course.id)}>
+                    {course.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="conversion-email">E-mail de acesso do aluno</Label>
+            <Input
+              id="conversion-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <p className="text-xs text-neutral-500">
+              Se já houver um aluno com este e-mail, a matrícula é criada para ele.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="conversion-cpf">CPF (opcional)</Label>
+            <Input id="conversion-cpf" value={cpf} onChange={(e) => setCpf(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => convertMutation.mutate()}
+            disabled={!courseId || !email.trim() || convertMutation.isPending}
+          >
+            {convertMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ArrowUpRight className="mr-2 h-4 w-4" />
+            )}
+            Converter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getLeadFunnel, refreshLeadScores } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// Linha do funil retornada pelo servidor
+interface FunnelRow {
+  key: string;
+  label: string;
+  leads: number;
+  contacted: number;
+  interested: number;
+  enrolled: number;
+  paid: number;
+  conversionRate: number;
+  avgDaysToEnroll: number | null;
+  avgScore: number | null;
+}
+
+interface ConversionFunnel {
+  totals: FunnelRow;
+  bySource: FunnelRow[];
+  byAttendant: FunnelRow[];
+}
+
+interface LeadFunnelDialogProps {
+  schoolId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PERIOD_OPTIONS = [
+  { value: '30', label: 'Últimos 30 dias' },
+  { value: '90', label: 'Últimos 90 dias' },
+  { value: '365', label: 'Últimos 12 meses' },
+];
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function FunnelTable({ rows, labelHeader }: { rows: FunnelRow[]; labelHeader: string }) {
+  if (rows.length === 0) {
+    return <p className="py-6 text-center text-sm text-neutral-500">Nenhum lead no período.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{labelHeader}</TableHead>
+          <TableHead className="text-right">Leads</TableHead>
+          <TableHead className="text-right">Contatados</TableHead>
+          <TableHead className="text-right">Interessados</TableHead>
+          <TableHead className="text-right">Matriculados</TableHead>
+          <TableHead className="text-right">Pagos</TableHead>
+          <TableHead className="text-right">Conversão</TableHead>
+          <TableHead className="text-right">Dias até matrícula</TableHead>
+          <TableHead className="text-right">Pontuação média</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right">{row.leads}</TableCell>
+            <TableCell className="text-right">{row.contacted}</TableCell>
+            <TableCell className="text-right">{row.interested}</TableCell>
+            <TableCell className="text-right">{row.enrolled}</TableCell>
+            <TableCell className="text-right">{row.paid}</TableCell>
+            <TableCell className="text-right">{formatRate(row.conversionRate)}</TableCell>
+            <TableCell className="text-right">{row.avgDaysToEnroll ?? '—'}</TableCell>
+            <TableCell className="text-right">{row.avgScore ?? '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Funil de conversão dos leads da escola por origem e por atendente, contado
+ * pelas matrículas vinculadas a cada lead
+ */
+export default function LeadFunnelDialog({ schoolId, open, onOpenChange }: LeadFunnelDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('30');
+
+  const { data: funnel, isLoading } = useQuery<ConversionFunnel>({
+    queryKey: ['/api/schools', schoolId, 'lead-funnel', days],
+    queryFn: () => getLeadFunnel(schoolId, new Date(Date.now() - parseInt(days) * 24 * 60 * 60 * 1000).toISOString()),
+    enabled: open,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const res = await refreshLeadScores(schoolId);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || 'Erro ao recalcular pontuações');
+      }
+      return res.json();
+    },
+    onSuccess: (result: { scored: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schools', schoolId, 'lead-funnel'] });
+      toast({ title: 'Pontuações atualizadas', description: `${result.scored} leads em aberto pontuados.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const totals = funnel?.totals;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Funil de conversão</DialogTitle>
+          <DialogDescription>
+            Leads criados no período e matrículas originadas deles
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !funnel || !totals ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {[
+                { label: 'Leads', value: totals.leads },
+                { label: 'Contatados', value: totals.contacted },
+                { label: 'Interessados', value: totals.interested },
+                { label: 'Matriculados', value: totals.enrolled },
+                { label: 'Conversão', value: formatRate(totals.conversionRate) },
+              ].map(item => (
+                <div key={item.label} className="rounded-md border p-3">
+                  <div className="text-xs text-neutral-500">{item.label}</div>
+                  <div className="text-xl font-semibold">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <Tabs defaultValue="source">
+              <TabsList>
+                <TabsTrigger value="source">Por origem</TabsTrigger>
+                <TabsTrigger value="attendant">Por atendente</TabsTrigger>
+              </TabsList>
+              <TabsContent value="source">
+                <FunnelTable rows={funnel.bySource} labelHeader="Origem" />
+              </TabsContent>
+              <TabsContent value="attendant">
+                <FunnelTable rows={funnel.byAttendant} labelHeader="Atendente" />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+            {refreshMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Recalcular pontuações
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
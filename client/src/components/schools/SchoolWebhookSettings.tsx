@@ -0,0 +1,357 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, EyeOff, KeyRound, Loader2, RotateCcw, Save, Send, Webhook } from 'lucide-react';
+
+type DeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+// Configuração de webhook retornada pelo servidor
+interface WebhookSettings {
+  schoolId: number;
+  webhookUrl: string | null;
+  events: string[];
+  secret: string | null;
+  secretRotatedAt: string | null;
+  availableEvents: string[];
+}
+
+// Entrega de um evento para a URL da escola
+interface WebhookDelivery {
+  id: number;
+  eventId: string;
+  eventType: string;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  'enrollment.created': 'Matrícula criada',
+  'enrollment.status_changed': 'Status da matrícula alterado',
+  'document.verified': 'Documento verificado',
+  'payment.paid': 'Pagamento confirmado',
+  'lead.created': 'Lead criado',
+  'lead.converted': 'Lead convertido',
+  'webhook.test': 'Evento de teste',
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: 'Aguardando nova tentativa',
+  sending: 'Enviando',
+  delivered: 'Entregue',
+  failed: 'Falhou',
+};
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'outline' | 'warning'> = {
+  pending: 'warning',
+  sending: 'secondary',
+  delivered: 'success',
+  failed: 'destructive',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('pt-BR') : '-';
+
+interface SchoolWebhookSettingsProps {
+  schoolId: string;
+}
+
+export default function SchoolWebhookSettings({ schoolId }: SchoolWebhookSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [events, setEvents] = useState<string[]>([]);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const settingsKey = ['/api/schools', schoolId, 'webhooks'];
+  const deliveriesKey = ['/api/schools', schoolId, 'webhooks', 'deliveries'];
+
+  // Buscar configuração do webhook
+  const { data: settings, isLoading } = useQuery({
+    queryKey: settingsKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/schools/${schoolId}/webhooks`);
+      if (!response.ok) throw new Error('Erro ao carregar configuração de webhook');
+      return await response.json() as WebhookSettings;
+    }
+  });
+
+  // Buscar registro de entregas
+  const { data: deliveries = [], isLoading: isLoadingDeliveries } = useQuery({
+    queryKey: deliveriesKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/schools/${schoolId}/webhooks/deliveries`);
+      if (!response.ok) throw new Error('Erro ao carregar entregas');
+      return await response.json() as WebhookDelivery[];
+    }
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setWebhookUrl(settings.webhookUrl || '');
+      setEvents(settings.events);
+    }
+  }, [settings]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || 'Tente novamente',
+      variant: 'destructive',
+    });
+  };
+
+  // Mutação para salvar URL e eventos
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/schools/${schoolId}/webhooks`, { webhookUrl, events });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.errors?.[0]?.message || result.error || result.message);
+      return result;
+    },
+    onSuccess: (result: WebhookSettings) => {
+      queryClient.setQueryData(settingsKey, result);
+      toast({
+        title: 'Webhook atualizado',
+        description: 'A configuração do webhook foi salva.',
+      });
+    },
+    onError: onError('Erro ao salvar webhook'),
+  });
+
+  // Mutação para gerar novo segredo
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/schools/${schoolId}/webhooks/rotate-secret`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: (result: WebhookSettings) => {
+      queryClient.setQueryData(settingsKey, result);
+      setShowSecret(true);
+      toast({
+        title: 'Segredo rotacionado',
+        description: 'Atualize o segredo no sistema que recebe os webhooks.',
+      });
+    },
+    onError: onError('Erro ao rotacionar segredo'),
+  });
+
+  // Mutação para enviar evento de teste
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/schools/${schoolId}/webhooks/test`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      toast({
+        title: delivery.status === 'delivered' ? 'Evento de teste entregue' : 'Evento de teste não entregue',
+        description: delivery.responseStatus
+          ? `Resposta HTTP ${delivery.responseStatus}`
+          : delivery.error || 'Sem resposta do servidor',
+        variant: delivery.status === 'delivered' ? 'default' : 'destructive',
+      });
+    },
+    onError: onError('Erro ao enviar evento de teste'),
+  });
+
+  // Mutação para reenviar entrega
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      const response = await apiRequest('POST', `/api/schools/${schoolId}/webhooks/deliveries/${deliveryId}/redeliver`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+    },
+    onError: onError('Erro ao reenviar entrega'),
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(item => item !== event));
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Webhook className="h-5 w-5 text-primary" />
+          <CardTitle>Webhooks</CardTitle>
+        </div>
+        <CardDescription>
+          Receba eventos da escola em JSON assinado com HMAC-SHA256 no cabeçalho X-EduMatrik-Signature
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="webhookUrl">URL de destino</Label>
+              <Input
+                id="webhookUrl"
+                placeholder="https://sistema.escola.com.br/webhooks/edumatrik"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Eventos</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {settings?.availableEvents.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    <span>{EVENT_LABELS[event] || event}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                type="button"
+                onClick={() => testMutation.mutate()}
+                disabled={testMutation.isPending || !settings?.webhookUrl}
+              >
+                {testMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Enviar evento de teste
+              </Button>
+              <Button type="button" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Salvar Webhook
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Segredo de assinatura</Label>
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  className="font-mono"
+                  type={showSecret ? 'text' : 'password'}
+                  value={settings?.secret || ''}
+                  placeholder="Gerado ao salvar o webhook"
+                />
+                <Button variant="outline" size="icon" type="button" onClick={() => setShowSecret(!showSecret)} disabled={!settings?.secret}>
+                  {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" type="button" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+                  {rotateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                  Rotacionar
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Assinatura: HMAC-SHA256 de "&lt;timestamp&gt;.&lt;corpo&gt;" no formato t=&lt;timestamp&gt;,v1=&lt;assinatura&gt;.
+                {settings?.secretRotatedAt && ` Última rotação em ${formatDate(settings.secretRotatedAt)}.`}
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Entregas recentes</Label>
+              {isLoadingDeliveries ? (
+                <div className="flex items-center justify-center h-24">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <div className="py-6 text-center text-muted-foreground">
+                  Nenhuma entrega registrada.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Criada em</TableHead>
+                      <TableHead>Evento</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Resposta</TableHead>
+                      <TableHead>Tentativas</TableHead>
+                      <TableHead>Próxima tentativa</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>{formatDate(delivery.createdAt)}</TableCell>
+                        <TableCell>
+                          <div>{EVENT_LABELS[delivery.eventType] || delivery.eventType}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{delivery.eventId}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[delivery.status]}>{STATUS_LABELS[delivery.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-[220px] truncate" title={delivery.error || ''}>
+                          {delivery.responseStatus ?? delivery.error ?? '-'}
+                          {delivery.durationMs !== null && (
+                            <span className="text-xs text-muted-foreground"> ({delivery.durationMs} ms)</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{delivery.attempts}</TableCell>
+                        <TableCell>{formatDate(delivery.nextAttemptAt)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Reenviar"
+                            onClick={() => redeliverMutation.mutate(delivery.id)}
+                            disabled={delivery.status === 'sending' || redeliverMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,16 @@ import {
   PlusCircle,
   BookOpen,
   CreditCard,
+  FileSignature,
+  Receipt,
+  BadgePercent,
+  Landmark,
+  KeyRound,
+  Workflow,
+  Inbox,
+  Megaphone,
+  ShieldCheck,
+  CalendarClock,
 } from "lucide-react";
 
 interface SidebarProps extends React.HTMLAttributes<HTMLDivElement> {
@@ -80,6 +90,14 @@ export function Sidebar({ className, isOpen, onClose, ...props }: SidebarProps)
                 label="Leads"
                 onClick={onClose}
               />
+              {(role === "school" || role === "attendant") && (
+                <SidebarItem
+                  href="/lead-automation"
+                  icon={<Workflow size={18} />}
+                  label="Automação de Leads"
+                  onClick={onClose}
+                />
+              )}
               <SidebarItem
                 href="/chatbot"
                 icon={<MessageSquare size={18} />}
@@ -93,12 +111,74 @@ export function Sidebar({ className, isOpen, onClose, ...props }: SidebarProps)
                 badge="Novo"
                 onClick={onClose}
               />
+              {(role === "school" || role === "attendant") && (
+                <SidebarItem
+                  href="/whatsapp/inbox"
+                  icon={<Inbox size={18} />}
+                  label="Caixa de Entrada"
+                  onClick={onClose}
+                />
+              )}
+              {(role === "school" || role === "attendant") && (
+                <SidebarItem
+                  href="/whatsapp/scheduled"
+                  icon={<CalendarClock size={18} />}
+                  label="Mensagens Agendadas"
+                  onClick={onClose}
+                />
+              )}
+              {role === "school" && (
+                <SidebarItem
+                  href="/whatsapp/campaigns"
+                  icon={<Megaphone size={18} />}
+                  label="Campanhas"
+                  onClick={onClose}
+                />
+              )}
+              {role === "school" && (
+                <SidebarItem
+                  href="/consents"
+                  icon={<ShieldCheck size={18} />}
+                  label="Consentimentos (LGPD)"
+                  onClick={onClose}
+                />
+              )}
               <SidebarItem
                 href="/form-questions"
                 icon={<FormInput size={18} />}
                 label="Perguntas do Formulário"
                 onClick={onClose}
               />
+              <SidebarItem
+                href="/form-builder"
+                icon={<FormInput size={18} />}
+                label="Construtor de Formulários"
+                onClick={onClose}
+              />
+              <SidebarItem
+                href="/contract-templates"
+                icon={<FileSignature size={18} />}
+                label="Modelos de Contrato"
+                onClick={onClose}
+              />
+              <SidebarItem
+                href="/billing-plans"
+                icon={<Receipt size={18} />}
+                label="Planos de Mensalidade"
+                onClick={onClose}
+              />
+              <SidebarItem
+                href="/discounts"
+                icon={<BadgePercent size={18} />}
+                label="Descontos e Bolsas"
+                onClick={onClose}
+              />
+              <SidebarItem
+                href="/bank-reconciliation"
+                icon={<Landmark size={18} />}
+                label="Conciliação Bancária"
+                onClick={onClose}
+              />
               <SidebarItem
                 href="/analytics"
                 icon={<LineChart size={18} />}
@@ -132,6 +212,24 @@ export function Sidebar({ className, isOpen, onClose, ...props }: SidebarProps)
             </>
           )}
 
+          {/* Guardian Links */}
+          {role === "guardian" && (
+            <>
+              <SidebarItem
+                href="/courses/explore"
+                icon={<BookOpen size={18} />}
+                label="Explorar Cursos"
+                onClick={onClose}
+              />
+              <SidebarItem
+                href="/support"
+                icon={<MessageSquare size={18} />}
+                label="Suporte"
+                onClick={onClose}
+              />
+            </>
+          )}
+
           {/* Configuration Section */}
           <h3 className="px-3 text-xs font-semibold text-neutral-500 uppercase tracking-wider mt-8 mb-2">
             Configurações
@@ -148,6 +246,14 @@ export function Sidebar({ className, isOpen, onClose, ...props }: SidebarProps)
             label="Configurações"
             onClick={onClose}
           />
+          {role === "school" && (
+            <SidebarItem
+              href="/api-keys"
+              icon={<KeyRound size={18} />}
+              label="Chaves de API"
+              onClick={onClose}
+            />
+          )}
           <Button
             variant="ghost"
             className="w-full justify-start px-3 py-2 text-sm font-medium rounded-lg text-neutral-700 hover:bg-neutral-50 dark:text-neutral-300 dark:hover:bg-neutral-800"
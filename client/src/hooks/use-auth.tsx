@@ -12,7 +12,7 @@ type User = {
   username: string;
   email: string;
   fullName: string;
-  role: "admin" | "school" | "attendant" | "student";
+  role: "admin" | "school" | "attendant" | "student" | "guardian";
   phone: string | null;
   schoolId: number | null;
   profileImage: string | null;
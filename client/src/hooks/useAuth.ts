@@ -7,7 +7,7 @@ interface User {
   username: string;
   email: string;
   fullName?: string;
-  role: 'admin' | 'school' | 'attendant' | 'student';
+  role: 'admin' | 'school' | 'attendant' | 'student' | 'guardian';
   schoolId?: number;
   profileImage?: string;
   createdAt: string;
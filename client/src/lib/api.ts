@@ -202,6 +202,46 @@ export const updateEnrollment = (id: number, enrollmentData: any) => {
   return apiRequest("PATCH", `/api/enrollments/${id}`, enrollmentData);
 };
 
+export const getEnrollmentTransitions = (id: number) => {
+  return fetch(`/api/enrollments/${id}/transitions`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment transitions");
+    return res.json();
+  });
+};
+
+export const transitionEnrollment = (id: number, to: string, reason?: string) => {
+  return apiRequest("POST", `/api/enrollments/${id}/transitions`, { to, reason });
+};
+
+export const getEnrollmentHistory = (id: number) => {
+  return fetch(`/api/enrollments/${id}/history`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment history");
+    return res.json();
+  });
+};
+
+export const getEnrollmentWorkflow = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/enrollment-workflow`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment workflow");
+    return res.json();
+  });
+};
+
+export const saveEnrollmentWorkflow = (schoolId: number, workflow: any) => {
+  return apiRequest("PUT", `/api/schools/${schoolId}/enrollment-workflow`, workflow);
+};
+
+export const getCourseSeats = (courseId: number) => {
+  return fetch(`/api/courses/${courseId}/seats`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch course seats");
+    return res.json();
+  });
+};
+
+export const renewSeatHold = (enrollmentId: number) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/seat/renew`);
+};
+
 export const completeEnrollmentStep = (id: number, step: string, data: any) => {
   return apiRequest("POST", `/api/enrollments/${id}/steps/${step}`, data);
 };
@@ -239,6 +279,582 @@ export const deleteQuestion = (id: number) => {
   return apiRequest("DELETE", `/api/questions/${id}`);
 };
 
+// Enrollment Form Builder
+export const getEnrollmentForms = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/forms`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment forms");
+    return res.json();
+  });
+};
+
+export const createEnrollmentForm = (schoolId: number, formData: { name: string; courseId?: number | null }) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/forms`, formData);
+};
+
+export const getEnrollmentFormDetails = (formId: number) => {
+  return fetch(`/api/forms/${formId}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment form");
+    return res.json();
+  });
+};
+
+export const publishEnrollmentFormVersion = (formId: number, definition: any) => {
+  return apiRequest("POST", `/api/forms/${formId}/versions`, { definition });
+};
+
+export const getFormForEnrollment = (enrollmentId: number) => {
+  return fetch(`/api/enrollments/${enrollmentId}/form`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment form");
+    return res.json();
+  });
+};
+
+export const submitEnrollmentAnswers = (
+  enrollmentId: number,
+  data: { answers: Record<string, any>; sections?: string[]; formVersionId?: number }
+) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/answers`, data);
+};
+
+// Enrollment Contracts
+export const getContractTemplates = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/contract-templates`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch contract templates");
+    return res.json();
+  });
+};
+
+export const createContractTemplate = (schoolId: number, templateData: { name: string; content: string; courseId?: number | null }) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/contract-templates`, templateData);
+};
+
+export const updateContractTemplate = (id: number, templateData: { name: string; content: string; courseId?: number | null }) => {
+  return apiRequest("PUT", `/api/contract-templates/${id}`, templateData);
+};
+
+export const deleteContractTemplate = (id: number) => {
+  return apiRequest("DELETE", `/api/contract-templates/${id}`);
+};
+
+export const generateEnrollmentContract = (enrollmentId: number) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/contract`);
+};
+
+export const requestContractOtp = (contractId: number) => {
+  return apiRequest("POST", `/api/contracts/${contractId}/otp`);
+};
+
+export const signContract = (contractId: number, data: { typedName: string; signatureImage: string; otp: string }) => {
+  return apiRequest("POST", `/api/contracts/${contractId}/sign`, data);
+};
+
+export const verifyContract = (contractId: number) => {
+  return fetch(`/api/contracts/${contractId}/verify`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to verify contract");
+    return res.json();
+  });
+};
+
+// Tuition Billing
+export const getBillingPlans = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/billing-plans`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch billing plans");
+    return res.json();
+  });
+};
+
+export const createBillingPlan = (schoolId: number, planData: any) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/billing-plans`, planData);
+};
+
+export const updateBillingPlan = (id: number, planData: any) => {
+  return apiRequest("PUT", `/api/billing-plans/${id}`, planData);
+};
+
+export const deleteBillingPlan = (id: number) => {
+  return apiRequest("DELETE", `/api/billing-plans/${id}`);
+};
+
+export const startEnrollmentBilling = (enrollmentId: number, planId?: number) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/billing`, { planId });
+};
+
+export const getEnrollmentInvoices = (enrollmentId: number) => {
+  return fetch(`/api/enrollments/${enrollmentId}/invoices`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment invoices");
+    return res.json();
+  });
+};
+
+// Discounts
+export const getDiscountRules = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/discount-rules`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch discount rules");
+    return res.json();
+  });
+};
+
+export const createDiscountRule = (schoolId: number, ruleData: any) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/discount-rules`, ruleData);
+};
+
+export const updateDiscountRule = (id: number, ruleData: any) => {
+  return apiRequest("PUT", `/api/discount-rules/${id}`, ruleData);
+};
+
+export const deleteDiscountRule = (id: number) => {
+  return apiRequest("DELETE", `/api/discount-rules/${id}`);
+};
+
+export const getEnrollmentDiscounts = (enrollmentId: number) => {
+  return fetch(`/api/enrollments/${enrollmentId}/discounts`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch enrollment discounts");
+    return res.json();
+  });
+};
+
+export const grantEnrollmentDiscount = (enrollmentId: number, ruleId: number) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/discounts`, { ruleId });
+};
+
+export const revokeEnrollmentDiscount = (enrollmentId: number, ruleId: number) => {
+  return apiRequest("DELETE", `/api/enrollments/${enrollmentId}/discounts/${ruleId}`);
+};
+
+export const applyEnrollmentCoupon = (enrollmentId: number, code: string) => {
+  return apiRequest("POST", `/api/enrollments/${enrollmentId}/coupon`, { code });
+};
+
+// Bank reconciliation
+export const getBankReconciliations = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/bank-reconciliations`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch bank reconciliations");
+    return res.json();
+  });
+};
+
+export const importBankReconciliationFile = (schoolId: number, file: File) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  return fetch(`/api/schools/${schoolId}/bank-reconciliations`, {
+    method: "POST",
+    body: formData,
+    credentials: "include"
+  });
+};
+
+export const getBankReconciliationReport = (importId: number) => {
+  return fetch(`/api/bank-reconciliations/${importId}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch bank reconciliation report");
+    return res.json();
+  });
+};
+
+export const getBankReconciliationCandidates = (entryId: number) => {
+  return fetch(`/api/bank-reconciliation-entries/${entryId}/candidates`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch reconciliation candidates");
+    return res.json();
+  });
+};
+
+export const resolveBankReconciliationEntry = (entryId: number, data: { paymentId?: number; ignore?: boolean; notes?: string }) => {
+  return apiRequest("POST", `/api/bank-reconciliation-entries/${entryId}/resolve`, data);
+};
+
+// API keys
+export const getSchoolApiKeys = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/api-keys`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch API keys");
+    return res.json();
+  });
+};
+
+export const createSchoolApiKey = (schoolId: number, data: { name: string; scopes: string[]; rateLimitPerMinute?: number; expiresAt?: string | null }) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/api-keys`, data);
+};
+
+export const rotateSchoolApiKey = (schoolId: number, keyId: number, gracePeriodHours?: number) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/api-keys/${keyId}/rotate`, { gracePeriodHours });
+};
+
+export const revokeSchoolApiKey = (schoolId: number, keyId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/api-keys/${keyId}`);
+};
+
+export const getSchoolApiKeyUsage = (schoolId: number, keyId: number, days: number = 30) => {
+  return fetch(`/api/schools/${schoolId}/api-keys/${keyId}/usage?days=${days}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch API key usage");
+    return res.json();
+  });
+};
+
+// Lead capture
+export const getPublicLeadForm = (schoolId: number, courseId?: number) => {
+  const query = courseId ? `?courseId=${courseId}` : "";
+  return fetch(`/api/public/lead-forms/${schoolId}${query}`).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead form");
+    return res.json();
+  });
+};
+
+export const submitPublicLeadForm = (schoolId: number, data: Record<string, unknown>) => {
+  return apiRequest("POST", `/api/public/lead-forms/${schoolId}/leads`, data);
+};
+
+export const getLeadCaptureSettings = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/lead-capture`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead capture settings");
+    return res.json();
+  });
+};
+
+export const updateLeadCaptureSettings = (schoolId: number, data: { enabled?: boolean; consentText?: string; successMessage?: string; greetingEnabled?: boolean; greetingMessage?: string }) => {
+  return apiRequest("PUT", `/api/schools/${schoolId}/lead-capture`, data);
+};
+
+// Lead automation
+export const getLeadAssignmentRules = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/lead-assignment-rules`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead assignment rules");
+    return res.json();
+  });
+};
+
+export const saveLeadAssignmentRule = (schoolId: number, data: Record<string, unknown>, ruleId?: number) => {
+  return ruleId
+    ? apiRequest("PUT", `/api/schools/${schoolId}/lead-assignment-rules/${ruleId}`, data)
+    : apiRequest("POST", `/api/schools/${schoolId}/lead-assignment-rules`, data);
+};
+
+export const deleteLeadAssignmentRule = (schoolId: number, ruleId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/lead-assignment-rules/${ruleId}`);
+};
+
+export const getLeadSla = (schoolId: number, days: number = 30) => {
+  return fetch(`/api/schools/${schoolId}/lead-sla?days=${days}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead SLA");
+    return res.json();
+  });
+};
+
+export const updateLeadSla = (schoolId: number, data: { enabled: boolean; firstResponseMinutes: number }) => {
+  return apiRequest("PUT", `/api/schools/${schoolId}/lead-sla`, data);
+};
+
+export const getLeadCadences = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/lead-cadences`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead cadences");
+    return res.json();
+  });
+};
+
+export const saveLeadCadence = (schoolId: number, data: Record<string, unknown>, cadenceId?: number) => {
+  return cadenceId
+    ? apiRequest("PUT", `/api/schools/${schoolId}/lead-cadences/${cadenceId}`, data)
+    : apiRequest("POST", `/api/schools/${schoolId}/lead-cadences`, data);
+};
+
+export const deleteLeadCadence = (schoolId: number, cadenceId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/lead-cadences/${cadenceId}`);
+};
+
+export const getLeadTasks = (schoolId: number, status?: "open" | "done") => {
+  const query = status ? `?status=${status}` : "";
+  return fetch(`/api/schools/${schoolId}/lead-tasks${query}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead tasks");
+    return res.json();
+  });
+};
+
+export const completeLeadTask = (schoolId: number, taskId: number) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/lead-tasks/${taskId}/complete`);
+};
+
+// Lead conversion and scoring
+export const convertLead = (leadId: number, data: { courseId?: number; email?: string; cpf?: string }) => {
+  return apiRequest("POST", `/api/leads/${leadId}/convert`, data);
+};
+
+export const getLeadScore = (leadId: number) => {
+  return fetch(`/api/leads/${leadId}/score`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead score");
+    return res.json();
+  });
+};
+
+export const refreshLeadScores = (schoolId: number) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/lead-scores/refresh`);
+};
+
+export const getLeadFunnel = (schoolId: number, from?: string, to?: string) => {
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString() ? `?${params.toString()}` : "";
+  return fetch(`/api/schools/${schoolId}/lead-funnel${query}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch lead funnel");
+    return res.json();
+  });
+};
+
+// WhatsApp inbox
+export const getInboxConversations = (schoolId: number, filters: { status?: string; assigned?: string; tag?: string; search?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  const query = params.toString() ? `?${params.toString()}` : "";
+  return fetch(`/api/schools/${schoolId}/inbox/conversations${query}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch inbox conversations");
+    return res.json();
+  });
+};
+
+export const getInboxSummary = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/inbox/summary`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch inbox summary");
+    return res.json();
+  });
+};
+
+export const getInboxConversation = (conversationId: number) => {
+  return fetch(`/api/inbox/conversations/${conversationId}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch inbox conversation");
+    return res.json();
+  });
+};
+
+export const markInboxConversationRead = (conversationId: number) => {
+  return apiRequest("POST", `/api/inbox/conversations/${conversationId}/read`);
+};
+
+export const sendInboxMessage = (conversationId: number, content: string) => {
+  return apiRequest("POST", `/api/inbox/conversations/${conversationId}/messages`, { content });
+};
+
+export const addInboxNote = (conversationId: number, content: string) => {
+  return apiRequest("POST", `/api/inbox/conversations/${conversationId}/notes`, { content });
+};
+
+export const assignInboxConversation = (conversationId: number, userId: number | null) => {
+  return apiRequest("PUT", `/api/inbox/conversations/${conversationId}/assignment`, { userId });
+};
+
+export const setInboxConversationStatus = (conversationId: number, status: string) => {
+  return apiRequest("PUT", `/api/inbox/conversations/${conversationId}/status`, { status });
+};
+
+export const setInboxConversationTags = (conversationId: number, tags: string[]) => {
+  return apiRequest("PUT", `/api/inbox/conversations/${conversationId}/tags`, { tags });
+};
+
+// Chatbot flows
+export const getChatbotFlows = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/chatbot-flows`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch chatbot flows");
+    return res.json();
+  });
+};
+
+export const saveChatbotFlow = (schoolId: number, data: Record<string, unknown>, flowId?: number) => {
+  return flowId
+    ? apiRequest("PUT", `/api/schools/${schoolId}/chatbot-flows/${flowId}`, data)
+    : apiRequest("POST", `/api/schools/${schoolId}/chatbot-flows`, data);
+};
+
+export const deleteChatbotFlow = (schoolId: number, flowId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/chatbot-flows/${flowId}`);
+};
+
+// WhatsApp Campaigns
+export const getWhatsappCampaigns = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/whatsapp-campaigns`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch WhatsApp campaigns");
+    return res.json();
+  });
+};
+
+export const getWhatsappCampaignOptions = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/whatsapp-campaigns/options`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch WhatsApp campaign options");
+    return res.json();
+  });
+};
+
+export const getWhatsappCampaignRecipients = (schoolId: number, campaignId: number, status?: string) => {
+  const query = status ? `?status=${status}` : "";
+  return fetch(`/api/schools/${schoolId}/whatsapp-campaigns/${campaignId}/recipients${query}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch WhatsApp campaign recipients");
+    return res.json();
+  });
+};
+
+export const previewWhatsappCampaignAudience = (schoolId: number, audience: Record<string, unknown>) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/whatsapp-campaigns/audience-preview`, { audience });
+};
+
+export const saveWhatsappCampaign = (schoolId: number, data: Record<string, unknown>, campaignId?: number) => {
+  return campaignId
+    ? apiRequest("PUT", `/api/schools/${schoolId}/whatsapp-campaigns/${campaignId}`, data)
+    : apiRequest("POST", `/api/schools/${schoolId}/whatsapp-campaigns`, data);
+};
+
+export const deleteWhatsappCampaign = (schoolId: number, campaignId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/whatsapp-campaigns/${campaignId}`);
+};
+
+export const scheduleWhatsappCampaign = (schoolId: number, campaignId: number, scheduledAt: string | null) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/whatsapp-campaigns/${campaignId}/schedule`, { scheduledAt });
+};
+
+export const changeWhatsappCampaignStatus = (schoolId: number, campaignId: number, action: "pause" | "resume" | "cancel") => {
+  return apiRequest("POST", `/api/schools/${schoolId}/whatsapp-campaigns/${campaignId}/${action}`);
+};
+
+// WhatsApp scheduled messages and recurring reminders
+export const getScheduledWhatsappMessages = (schoolId: number, filters: { status?: string; conversationId?: number; ruleId?: number } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, String(value));
+  });
+  return fetch(`/api/schools/${schoolId}/whatsapp/scheduled-messages?${params}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch scheduled WhatsApp messages");
+    return res.json();
+  });
+};
+
+export const getScheduledWhatsappOptions = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/whatsapp/scheduled-options`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch scheduled WhatsApp options");
+    return res.json();
+  });
+};
+
+export const scheduleWhatsappMessage = (schoolId: number, data: Record<string, unknown>) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/whatsapp/scheduled-messages`, data);
+};
+
+export const cancelScheduledWhatsappMessage = (schoolId: number, messageId: number) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/whatsapp/scheduled-messages/${messageId}/cancel`);
+};
+
+export const getWhatsappReminderRules = (schoolId: number) => {
+  return fetch(`/api/schools/${schoolId}/whatsapp/reminder-rules`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch WhatsApp reminder rules");
+    return res.json();
+  });
+};
+
+export const saveWhatsappReminderRule = (schoolId: number, data: Record<string, unknown>, ruleId?: number) => {
+  return ruleId
+    ? apiRequest("PUT", `/api/schools/${schoolId}/whatsapp/reminder-rules/${ruleId}`, data)
+    : apiRequest("POST", `/api/schools/${schoolId}/whatsapp/reminder-rules`, data);
+};
+
+export const deleteWhatsappReminderRule = (schoolId: number, ruleId: number) => {
+  return apiRequest("DELETE", `/api/schools/${schoolId}/whatsapp/reminder-rules/${ruleId}`);
+};
+
+// Consents (LGPD)
+export const getConsents = (schoolId: number, filters: { channel?: string; status?: string; search?: string } = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return fetch(`/api/schools/${schoolId}/consents?${params}`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch consents");
+    return res.json();
+  });
+};
+
+export const recordConsent = (schoolId: number, data: { channel: string; identifier: string; status: string; reason?: string | null }) => {
+  return apiRequest("POST", `/api/schools/${schoolId}/consents`, data);
+};
+
+export const getConsentProofUrl = (schoolId: number, identifier: string) => {
+  return `/api/schools/${schoolId}/consents/proof?identifier=${encodeURIComponent(identifier)}`;
+};
+
+// Guardians
+export const getGuardianProfile = () => {
+  return fetch("/api/guardians/me", { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch guardian profile");
+    return res.json();
+  });
+};
+
+export const updateGuardianProfile = (profileData: { cpf?: string; address?: string; city?: string; state?: string; zipCode?: string }) => {
+  return apiRequest("PUT", "/api/guardians/me", profileData);
+};
+
+export const getGuardianStudents = () => {
+  return fetch("/api/guardians/me/students", { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch guardian students");
+    return res.json();
+  });
+};
+
+export const getGuardianEnrollments = () => {
+  return fetch("/api/guardians/me/enrollments", { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch guardian enrollments");
+    return res.json();
+  });
+};
+
+export const getGuardianPayments = () => {
+  return fetch("/api/guardians/me/payments", { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch guardian payments");
+    return res.json();
+  });
+};
+
+export const uploadGuardianDocument = (enrollmentId: number, file: File, type: string) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("type", type);
+  return fetch(`/api/guardians/me/enrollments/${enrollmentId}/documents`, {
+    method: "POST",
+    body: formData,
+    credentials: "include"
+  });
+};
+
+export const createGuardianPayment = (enrollmentId: number, paymentMethod: "pix" | "bank_slip") => {
+  return apiRequest("POST", `/api/guardians/me/enrollments/${enrollmentId}/payments`, { paymentMethod });
+};
+
+export const getGuardianInvitation = (token: string) => {
+  return fetch(`/api/guardian-invitations/${token}`).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch guardian invitation");
+    return res.json();
+  });
+};
+
+export const acceptGuardianInvitation = (
+  token: string,
+  data: { fullName: string; username: string; password: string; phone?: string }
+) => {
+  return apiRequest("POST", `/api/guardian-invitations/${token}/accept`, data);
+};
+
+export const getStudentGuardians = (studentId: number) => {
+  return fetch(`/api/students/${studentId}/guardians`, { credentials: "include" }).then(res => {
+    if (!res.ok) throw new Error("Failed to fetch student guardians");
+    return res.json();
+  });
+};
+
+export const linkStudentGuardian = (
+  studentId: number,
+  data: { email: string; relationship?: string; financialResponsible?: boolean }
+) => {
+  return apiRequest("POST", `/api/students/${studentId}/guardians`, data);
+};
+
+export const unlinkStudentGuardian = (studentId: number, guardianId: number) => {
+  return apiRequest("DELETE", `/api/students/${studentId}/guardians/${guardianId}`);
+};
+
 // Form Answers
 export const getAnswers = (enrollmentId: number) => {
   return fetch(`/api/answers/${enrollmentId}`).then(res => {
@@ -12,7 +12,7 @@ interface User {
   username: string;
   email: string;
   fullName: string;
-  role: "admin" | "school" | "attendant" | "student";
+  role: "admin" | "school" | "attendant" | "student" | "guardian";
   schoolId?: number;
 }
 
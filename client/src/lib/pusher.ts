@@ -61,6 +61,18 @@ export function subscribeToSchoolChannel(schoolId: number, onNotification: (data
   };
 }
 
+// Function to listen to a custom event on a school's private channel
+// The channel is shared with the notification listener, so only the handler is removed on cleanup
+export function subscribeToSchoolEvent<T = any>(schoolId: number, event: string, onEvent: (data: T) => void) {
+  const channel = pusher.subscribe(`private-school-${schoolId}`);
+
+  channel.bind(event, onEvent);
+
+  return () => {
+    channel.unbind(event, onEvent);
+  };
+}
+
 // Function to subscribe to the global channel
 export function subscribeToGlobalChannel(onNotification: (data: NotificationPayload) => void) {
   const channel = pusher.subscribe('global');
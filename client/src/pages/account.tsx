@@ -215,7 +215,8 @@ export default function AccountPage() {
                 <p className="text-sm font-medium">{user?.role === "admin" ? "Administrador" : 
                   user?.role === "school" ? "Escola" : 
                   user?.role === "attendant" ? "Atendente" : 
-                  user?.role === "student" ? "Estudante" : ""}
+                  user?.role === "student" ? "Estudante" :
+                  user?.role === "guardian" ? "Responsável" : ""}
                 </p>
               </div>
               
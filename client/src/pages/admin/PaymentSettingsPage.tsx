@@ -2,6 +2,7 @@ import React from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import PaymentGatewayList from '@/components/admin/payment/PaymentGatewayList';
+import PaymentWebhookEventList from '@/components/admin/payment/PaymentWebhookEventList';
 import { useAuth } from '@/hooks/use-auth';
 import { useLocation, Link } from 'wouter';
 import { Loader2 } from 'lucide-react';
@@ -35,9 +36,10 @@ export default function PaymentSettingsPage() {
       <h1 className="text-3xl font-bold mb-6">Configurações de Pagamento</h1>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="gateways">Gateways de Pagamento</TabsTrigger>
           <TabsTrigger value="transactions">Transações</TabsTrigger>
+          <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
           <TabsTrigger value="settings">Configurações Gerais</TabsTrigger>
         </TabsList>
         
@@ -72,6 +74,21 @@ export default function PaymentSettingsPage() {
           </Card>
         </TabsContent>
         
+        <TabsContent value="webhooks" className="mt-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Webhooks dos Gateways</CardTitle>
+              <CardDescription>
+                Notificações recebidas dos gateways de pagamento. Inspecione os eventos
+                que falharam e reprocesse-os após corrigir a causa.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PaymentWebhookEventList />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
         <TabsContent value="settings" className="mt-6">
           <Card>
             <CardHeader className="pb-3">
@@ -0,0 +1,358 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getSchoolApiKeys,
+  createSchoolApiKey,
+  rotateSchoolApiKey,
+  revokeSchoolApiKey,
+  getSchoolApiKeyUsage
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { BarChart3, Copy, FileJson, KeyRound, Loader2, Plus, RotateCcw, Trash2 } from "lucide-react";
+
+const SCOPE_LABELS: Record<string, string> = {
+  "leads:read": "Consultar leads",
+  "leads:write": "Criar leads",
+  "courses:read": "Consultar cursos",
+  "enrollments:read": "Consultar matrículas",
+  "documents:read": "Consultar situação de documentos",
+  "payments:read": "Consultar pagamentos",
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString("pt-BR") : "-";
+
+// Situação da chave a partir das datas de revogação e expiração
+const keyStatus = (key: any): { label: string; variant: "success" | "warning" | "destructive" | "outline" } => {
+  if (key.revokedAt) return { label: "Revogada", variant: "destructive" };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return { label: "Expirada", variant: "outline" };
+  if (key.expiresAt) return { label: "Com expiração", variant: "warning" };
+  return { label: "Ativa", variant: "success" };
+};
+
+export default function ApiKeysPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["leads:write"]);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [usageKeyId, setUsageKeyId] = useState<number | null>(null);
+
+  const { data: keys, isLoading } = useQuery({
+    queryKey: ['/api/schools/api-keys', schoolId],
+    queryFn: () => getSchoolApiKeys(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: usage, isLoading: isLoadingUsage } = useQuery({
+    queryKey: ['/api/schools/api-keys/usage', schoolId, usageKeyId],
+    queryFn: () => getSchoolApiKeyUsage(schoolId, usageKeyId!),
+    enabled: usageKeyId !== null
+  });
+
+  const onIssued = (result: any) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/schools/api-keys', schoolId] });
+    setIssuedKey(result.key);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await createSchoolApiKey(schoolId, {
+        name,
+        scopes,
+        rateLimitPerMinute: parseInt(rateLimit) || undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.errors?.[0]?.message || result.error || result.message);
+      return result;
+    },
+    onSuccess: (result) => {
+      onIssued(result);
+      setIsCreateOpen(false);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao criar chave", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (keyId: number) => {
+      const response = await rotateSchoolApiKey(schoolId, keyId);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: onIssued,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao rotacionar chave", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: number) => {
+      const response = await revokeSchoolApiKey(schoolId, keyId);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/api-keys', schoolId] });
+      toast({ title: "Chave revogada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao revogar chave", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(item => item !== scope));
+  };
+
+  if (!schoolId) {
+    return <p className="text-neutral-500">Selecione uma escola para gerenciar chaves de API.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Chaves de API</h1>
+          <p className="text-neutral-500">
+            Integre o site e o CRM da escola pela API pública (/api/v1). Cada chave tem escopos e limite de requisições por minuto.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+              <FileJson className="mr-2 h-4 w-4" />
+              Especificação OpenAPI
+            </a>
+          </Button>
+          <Button onClick={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova chave
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chaves emitidas</CardTitle>
+          <CardDescription>
+            O valor da chave só é exibido na criação e na rotação. Após rotacionar, a chave anterior continua válida por 24 horas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          ) : keys?.length === 0 ? (
+            <p className="text-sm text-neutral-500">Nenhuma chave emitida.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Prefixo</TableHead>
+                  <TableHead>Escopos</TableHead>
+                  <TableHead>Limite/min</TableHead>
+                  <TableHead>Último uso</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys?.map((key: any) => {
+                  const status = keyStatus(key);
+                  const inactive = !!key.revokedAt || status.label === "Expirada";
+                  return (
+                    <TableRow key={key.id}>
+                      <TableCell className="font-medium">{key.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{key.keyPrefix}…</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map((scope: string) => (
+                            <Badge key={scope} variant="outline" title={SCOPE_LABELS[scope]}>{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{key.rateLimitPerMinute}</TableCell>
+                      <TableCell>{formatDate(key.lastUsedAt)}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant} title={key.expiresAt ? `Expira em ${formatDate(key.expiresAt)}` : undefined}>
+                          {status.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" title="Uso" onClick={() => setUsageKeyId(key.id)}>
+                            <BarChart3 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Rotacionar"
+                            disabled={inactive || rotateMutation.isPending}
+                            onClick={() => rotateMutation.mutate(key.id)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revogar"
+                            disabled={!!key.revokedAt || revokeMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Revogar a chave "${key.name}"? Integrações que a utilizam deixarão de funcionar.`)) {
+                                revokeMutation.mutate(key.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {usageKeyId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Uso nos últimos 30 dias</CardTitle>
+            <CardDescription>{keys?.find((key: any) => key.id === usageKeyId)?.name}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoadingUsage || !usage ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  <Badge variant="secondary">{usage.totals.requests} requisições</Badge>
+                  <Badge variant="destructive">{usage.totals.errors} com erro</Badge>
+                  <Badge variant="warning">{usage.totals.rateLimited} bloqueadas pelo limite</Badge>
+                </div>
+                {usage.routes.length === 0 ? (
+                  <p className="text-sm text-neutral-500">Nenhuma requisição no período.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rota</TableHead>
+                        <TableHead>Requisições</TableHead>
+                        <TableHead>Erros</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usage.routes.map((route: any) => (
+                        <TableRow key={`${route.method} ${route.route}`}>
+                          <TableCell className="font-mono text-xs">{route.method} {route.route}</TableCell>
+                          <TableCell>{route.requests}</TableCell>
+                          <TableCell>{route.errors}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova chave de API</DialogTitle>
+            <DialogDescription>Conceda apenas os escopos que a integração precisa.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Nome</Label>
+              <Input id="api-key-name" placeholder="Site da escola" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Escopos</Label>
+              {Object.entries(SCOPE_LABELS).map(([scope, label]) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                  <span>{label}</span>
+                  <span className="font-mono text-xs text-neutral-500">{scope}</span>
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-rate-limit">Limite de requisições por minuto</Label>
+              <Input id="api-key-rate-limit" type="number" min={1} max={1000} value={rateLimit} onChange={(e) => setRateLimit(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancelar</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!name || scopes.length === 0 || createMutation.isPending}>
+              {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+              Gerar chave
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={issuedKey !== null} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copie a chave agora</DialogTitle>
+            <DialogDescription>
+              Por segurança, a chave não será exibida novamente. Envie-a no cabeçalho Authorization: Bearer &lt;chave&gt;.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly className="font-mono" value={issuedKey || ""} />
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(issuedKey || "");
+                toast({ title: "Chave copiada" });
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Concluir</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
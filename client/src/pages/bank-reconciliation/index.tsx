@@ -0,0 +1,336 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getBankReconciliations,
+  importBankReconciliationFile,
+  getBankReconciliationReport,
+  getBankReconciliationCandidates,
+  resolveBankReconciliationEntry
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload, Link2, EyeOff } from "lucide-react";
+
+const FORMAT_LABELS: Record<string, string> = {
+  cnab240: "CNAB 240",
+  cnab400: "CNAB 400",
+  ofx: "OFX",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  matched: "Baixado",
+  already_paid: "Já estava pago",
+  resolved: "Resolvido manualmente",
+  review: "Valor diferente do título",
+  ambiguous: "Mais de um pagamento possível",
+  unmatched: "Sem pagamento",
+  ignored: "Ignorado",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "success" | "outline" | "warning"> = {
+  matched: "success",
+  already_paid: "secondary",
+  resolved: "success",
+  review: "warning",
+  ambiguous: "warning",
+  unmatched: "destructive",
+  ignored: "outline",
+};
+
+const RULE_LABELS: Record<string, string> = {
+  our_number: "Nosso número",
+  document_number: "Seu número",
+  gateway_reference: "Referência da cobrança",
+  amount_date: "Valor e vencimento",
+  manual: "Manual",
+};
+
+const formatCurrency = (value: number) => value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+const formatDate = (value: string | null) => value ? new Date(`${value.slice(0, 10)}T12:00:00`).toLocaleDateString("pt-BR") : "-";
+
+export default function BankReconciliationPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [file, setFile] = useState<File | null>(null);
+  const [selectedImportId, setSelectedImportId] = useState<number | null>(null);
+  const [resolvingEntry, setResolvingEntry] = useState<any | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const { data: imports, isLoading } = useQuery({
+    queryKey: ['/api/schools/bank-reconciliations', schoolId],
+    queryFn: () => getBankReconciliations(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: report, isLoading: isLoadingReport } = useQuery({
+    queryKey: ['/api/bank-reconciliations', selectedImportId],
+    queryFn: () => getBankReconciliationReport(selectedImportId!),
+    enabled: selectedImportId !== null
+  });
+
+  const { data: candidates, isLoading: isLoadingCandidates } = useQuery({
+    queryKey: ['/api/bank-reconciliation-entries/candidates', resolvingEntry?.id],
+    queryFn: () => getBankReconciliationCandidates(resolvingEntry.id),
+    enabled: !!resolvingEntry
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await importBankReconciliationFile(schoolId, file!);
+      const result = await response.json();
+      if (!response.ok) {
+        if (response.status === 409 && result.importId) {
+          setSelectedImportId(result.importId);
+        }
+        throw new Error(result.error || result.message);
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/bank-reconciliations', schoolId] });
+      setSelectedImportId(result.import.id);
+      setFile(null);
+      toast({
+        title: "Arquivo importado",
+        description: `${result.import.matchedCount} lançamento(s) conciliado(s), ${result.import.pendingCount} pendente(s).`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao importar arquivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (data: { paymentId?: number; ignore?: boolean }) => {
+      const response = await resolveBankReconciliationEntry(resolvingEntry.id, { ...data, notes: notes || undefined });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.errors?.[0]?.message || result.error || result.message);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bank-reconciliations', selectedImportId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/bank-reconciliations', schoolId] });
+      setResolvingEntry(null);
+      setNotes("");
+      toast({ title: "Lançamento resolvido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao resolver lançamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!schoolId) {
+    return <p className="text-neutral-500">Selecione uma escola para conciliar pagamentos.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Conciliação Bancária</h1>
+        <p className="text-neutral-500">
+          Importe o arquivo de retorno (CNAB 240 ou 400) ou o extrato OFX do banco para baixar os boletos pagos.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Importar arquivo</CardTitle>
+            <CardDescription>
+              Os lançamentos são associados pelo nosso número, pelo seu número (código do pagamento)
+              ou por valor e vencimento.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reconciliation-file">Arquivo</Label>
+              <Input
+                id="reconciliation-file"
+                type="file"
+                accept=".ret,.txt,.rem,.ofx,.cnab"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => importMutation.mutate()}
+              disabled={!file || importMutation.isPending}
+            >
+              {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Importar e conciliar
+            </Button>
+
+            <div className="space-y-2 pt-2">
+              <Label>Importações</Label>
+              {isLoading ? (
+                <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+              ) : imports?.length === 0 ? (
+                <p className="text-sm text-neutral-500">Nenhum arquivo importado.</p>
+              ) : (
+                imports?.map((item: any) => (
+                  <div
+                    key={item.id}
+                    className={`rounded-md border p-3 cursor-pointer ${selectedImportId === item.id ? "border-primary" : ""}`}
+                    onClick={() => setSelectedImportId(item.id)}
+                  >
+                    <p className="font-medium truncate">{item.fileName}</p>
+                    <p className="text-sm text-neutral-500">
+                      {FORMAT_LABELS[item.format]} · {new Date(item.createdAt).toLocaleDateString("pt-BR")}
+                    </p>
+                    <div className="flex gap-2 mt-1">
+                      <Badge variant="success">{item.matchedCount} conciliados</Badge>
+                      {item.pendingCount > 0 && <Badge variant="destructive">{item.pendingCount} pendentes</Badge>}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Relatório de conciliação</CardTitle>
+            <CardDescription>
+              {report
+                ? `${report.import.totalEntries} liquidação(ões) · ${formatCurrency(report.import.totalAmount)} recebidos · ${formatCurrency(report.import.totalFees)} em tarifas`
+                : "Selecione uma importação para ver os lançamentos."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingReport ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : report && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Linha</TableHead>
+                    <TableHead>Identificação</TableHead>
+                    <TableHead>Crédito</TableHead>
+                    <TableHead>Valor pago</TableHead>
+                    <TableHead>Tarifa</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead className="text-right">Pagamento</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.entries.map((entry: any) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.lineNumber}</TableCell>
+                      <TableCell className="text-sm">
+                        {entry.ourNumber && <div>Nosso nº {entry.ourNumber}</div>}
+                        {entry.documentNumber && <div className="text-neutral-500">Seu nº {entry.documentNumber}</div>}
+                        {entry.description && <div className="text-neutral-500">{entry.description}</div>}
+                      </TableCell>
+                      <TableCell>{formatDate(entry.creditDate || entry.settlementDate)}</TableCell>
+                      <TableCell>{formatCurrency(entry.paidAmount)}</TableCell>
+                      <TableCell>{formatCurrency(entry.feeAmount)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[entry.status]}>{STATUS_LABELS[entry.status]}</Badge>
+                        {entry.matchRule && (
+                          <div className="text-xs text-neutral-500 mt-1">{RULE_LABELS[entry.matchRule]}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.paymentId ? (
+                          <span className="text-sm">#{entry.paymentId} {entry.paymentDescription}</span>
+                        ) : (entry.status === "unmatched" || entry.status === "ambiguous" || entry.status === "review") ? (
+                          <Button size="sm" variant="outline" onClick={() => setResolvingEntry(entry)}>
+                            Resolver
+                          </Button>
+                        ) : (
+                          <span className="text-sm text-neutral-500">{entry.notes || "-"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Resolução manual de lançamento pendente */}
+      <Dialog open={!!resolvingEntry} onOpenChange={(open) => !open && setResolvingEntry(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Resolver lançamento da linha {resolvingEntry?.lineNumber}</DialogTitle>
+            <DialogDescription>
+              {resolvingEntry && `${formatCurrency(resolvingEntry.paidAmount)} creditados em ${formatDate(resolvingEntry.creditDate || resolvingEntry.settlementDate)}. `}
+              Escolha o pagamento correspondente ou ignore o lançamento.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {isLoadingCandidates ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : candidates?.length === 0 ? (
+              <p className="text-sm text-neutral-500">Nenhum pagamento em aberto na escola.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {candidates?.map((payment: any) => (
+                  <div key={payment.id} className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <p className="font-medium">
+                        #{payment.id} · {formatCurrency(payment.amount)}
+                        {payment.suggested && <Badge variant="warning" className="ml-2">Sugerido</Badge>}
+                      </p>
+                      <p className="text-sm text-neutral-500">
+                        {payment.description || "Sem descrição"} · vencimento {formatDate(payment.dueDate)}
+                        {payment.payerName ? ` · ${payment.payerName}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => resolveMutation.mutate({ paymentId: payment.id })}
+                      disabled={resolveMutation.isPending}
+                    >
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Baixar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="resolve-notes">Observação</Label>
+              <Input id="resolve-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                onClick={() => resolveMutation.mutate({ ignore: true })}
+                disabled={resolveMutation.isPending}
+              >
+                <EyeOff className="mr-2 h-4 w-4" />
+                Ignorar lançamento
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getBillingPlans,
+  createBillingPlan,
+  updateBillingPlan,
+  deleteBillingPlan,
+  getCoursesBySchool
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2, Save } from "lucide-react";
+
+interface PlanDraft {
+  id: number | null;
+  name: string;
+  courseId: string;
+  schoolYear: string;
+  enrollmentFee: string;
+  installmentAmount: string;
+  installments: string;
+  firstDueMonth: string;
+  dueDay: string;
+  punctualityDiscount: string;
+  punctualityDiscountType: "fixed" | "percent";
+  finePercent: string;
+  dailyInterestPercent: string;
+  paymentMethod: "bank_slip" | "pix";
+  generateDaysBefore: string;
+}
+
+const currentYear = String(new Date().getFullYear());
+
+const emptyDraft: PlanDraft = {
+  id: null,
+  name: "",
+  courseId: "",
+  schoolYear: currentYear,
+  enrollmentFee: "0",
+  installmentAmount: "",
+  installments: "12",
+  firstDueMonth: `${currentYear}-02`,
+  dueDay: "10",
+  punctualityDiscount: "0",
+  punctualityDiscountType: "fixed",
+  finePercent: "2",
+  dailyInterestPercent: "0.0333",
+  paymentMethod: "bank_slip",
+  generateDaysBefore: "10",
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+export default function BillingPlansPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [draft, setDraft] = useState<PlanDraft>(emptyDraft);
+
+  const { data: plans, isLoading } = useQuery({
+    queryKey: ['/api/schools/billing-plans', schoolId],
+    queryFn: () => getBillingPlans(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: courses } = useQuery({
+    queryKey: ['/api/courses', schoolId],
+    queryFn: () => getCoursesBySchool(schoolId),
+    enabled: !!schoolId
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: draft.name,
+        courseId: parseInt(draft.courseId),
+        schoolYear: draft.schoolYear,
+        enrollmentFee: parseFloat(draft.enrollmentFee) || 0,
+        installmentAmount: parseFloat(draft.installmentAmount),
+        installments: parseInt(draft.installments),
+        firstDueMonth: draft.firstDueMonth,
+        dueDay: parseInt(draft.dueDay),
+        punctualityDiscount: parseFloat(draft.punctualityDiscount) || 0,
+        punctualityDiscountType: draft.punctualityDiscountType,
+        finePercent: parseFloat(draft.finePercent) || 0,
+        dailyInterestPercent: parseFloat(draft.dailyInterestPercent) || 0,
+        paymentMethod: draft.paymentMethod,
+        generateDaysBefore: parseInt(draft.generateDaysBefore) || 0,
+      };
+      const response = draft.id
+        ? await updateBillingPlan(draft.id, data)
+        : await createBillingPlan(schoolId, data);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.errors?.[0]?.message || result.message);
+      return result;
+    },
+    onSuccess: (plan) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/billing-plans', schoolId] });
+      setDraft({ ...draft, id: plan.id });
+      toast({ title: "Plano salvo", description: "Novas matrículas do curso usarão este plano." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await deleteBillingPlan(id);
+      if (!response.ok) throw new Error("Failed to delete billing plan");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/billing-plans', schoolId] });
+      setDraft(emptyDraft);
+      toast({ title: "Plano desativado", description: "Parcelas já geradas continuam sendo cobradas." });
+    },
+  });
+
+  const courseName = (courseId: number) =>
+    courses?.find((c: any) => c.id === courseId)?.name || `Curso #${courseId}`;
+
+  const field = (key: keyof PlanDraft, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={`plan-${key}`}>{label}</Label>
+      <Input
+        id={`plan-${key}`}
+        value={draft[key] as string}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  if (!schoolId) {
+    return <p className="text-neutral-500">Selecione uma escola para gerenciar os planos de mensalidade.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Planos de Mensalidade</h1>
+        <p className="text-neutral-500">
+          Taxa de matrícula e mensalidades do ano letivo, geradas automaticamente antes do vencimento.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Planos</CardTitle>
+            <CardDescription>Cada curso usa o plano ativo mais recente.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : (
+              plans?.map((plan: any) => (
+                <div
+                  key={plan.id}
+                  className={`flex items-center justify-between rounded-md border p-3 cursor-pointer ${
+                    draft.id === plan.id ? "border-primary" : ""
+                  }`}
+                  onClick={() => setDraft({
+                    id: plan.id,
+                    name: plan.name,
+                    courseId: String(plan.courseId),
+                    schoolYear: plan.schoolYear,
+                    enrollmentFee: String(plan.enrollmentFee),
+                    installmentAmount: String(plan.installmentAmount),
+                    installments: String(plan.installments),
+                    firstDueMonth: plan.firstDueMonth,
+                    dueDay: String(plan.dueDay),
+                    punctualityDiscount: String(plan.punctualityDiscount),
+                    punctualityDiscountType: plan.punctualityDiscountType,
+                    finePercent: String(plan.finePercent),
+                    dailyInterestPercent: String(plan.dailyInterestPercent),
+                    paymentMethod: plan.paymentMethod,
+                    generateDaysBefore: String(plan.generateDaysBefore),
+                  })}
+                >
+                  <div>
+                    <p className="font-medium">{plan.name}</p>
+                    <p className="text-sm text-neutral-500">
+                      {plan.installments}x {formatCurrency(plan.installmentAmount)}
+                    </p>
+                    <Badge variant="outline">{courseName(plan.courseId)} · {plan.schoolYear}</Badge>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(plan.id);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button variant="outline" className="w-full" onClick={() => setDraft(emptyDraft)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo plano
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{draft.id ? "Editar plano" : "Novo plano"}</CardTitle>
+            <CardDescription>
+              Alterações valem para novas parcelas; multa, juros e desconto são reaplicados no próximo recálculo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              {field("name", "Nome")}
+              <div className="space-y-2">
+                <Label>Curso</Label>
+                <Select value={draft.courseId} onValueChange={(value) => setDraft({ ...draft, courseId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o curso" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {courses?.map((course: any) => (
+                      <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {field("schoolYear", "Ano letivo", { maxLength: 4 })}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              {field("enrollmentFee", "Taxa de matrícula (R$)", { type: "number", min: 0, step: "0.01" })}
+              {field("installmentAmount", "Mensalidade (R$)", { type: "number", min: 0, step: "0.01" })}
+              {field("installments", "Número de parcelas", { type: "number", min: 1, max: 24 })}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              {field("firstDueMonth", "Primeiro vencimento", { type: "month" })}
+              {field("dueDay", "Dia de vencimento", { type: "number", min: 1, max: 31 })}
+              {field("generateDaysBefore", "Gerar cobrança (dias antes)", { type: "number", min: 0, max: 60 })}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              {field("punctualityDiscount", "Desconto de pontualidade", { type: "number", min: 0, step: "0.01" })}
+              <div className="space-y-2">
+                <Label>Tipo de desconto</Label>
+                <Select
+                  value={draft.punctualityDiscountType}
+                  onValueChange={(value) => setDraft({ ...draft, punctualityDiscountType: value as PlanDraft["punctualityDiscountType"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">Valor fixo (R$)</SelectItem>
+                    <SelectItem value="percent">Percentual (%)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Forma de cobrança</Label>
+                <Select
+                  value={draft.paymentMethod}
+                  onValueChange={(value) => setDraft({ ...draft, paymentMethod: value as PlanDraft["paymentMethod"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bank_slip">Boleto</SelectItem>
+                    <SelectItem value="pix">PIX</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              {field("finePercent", "Multa após vencimento (%)", { type: "number", min: 0, max: 2, step: "0.01" })}
+              {field("dailyInterestPercent", "Juros ao dia (%)", { type: "number", min: 0, max: 0.0333, step: "0.0001" })}
+            </div>
+
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!draft.name || !draft.courseId || !draft.installmentAmount || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Salvar plano
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
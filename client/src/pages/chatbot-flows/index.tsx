@@ -0,0 +1,706 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getChatbotFlows, saveChatbotFlow, deleteChatbotFlow } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+type NodeType = "message" | "question" | "buttons" | "condition" | "api_call" | "handoff";
+
+const NODE_LABELS: Record<NodeType, string> = {
+  message: "Mensagem",
+  question: "Pergunta",
+  buttons: "Menu de opções",
+  condition: "Condição",
+  api_call: "Chamada de API",
+  handoff: "Transferir para atendente",
+};
+
+const VALIDATION_LABELS: Record<string, string> = {
+  text: "Texto livre",
+  email: "E-mail",
+  phone: "Telefone",
+  number: "Número",
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: "é igual a",
+  contains: "contém",
+  exists: "foi preenchida",
+  gt: "maior que",
+  lt: "menor que",
+};
+
+// Valor dos selects de próximo nó que encerra o fluxo
+const END = "__end";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+interface NodeForm {
+  id: string;
+  type: NodeType;
+  text: string;
+  next: string;
+  variable: string;
+  validation: string;
+  options: { label: string; value: string; next: string }[];
+  rules: { variable: string; operator: string; value: string; next: string }[];
+  defaultNext: string;
+  method: string;
+  url: string;
+  body: string;
+  saveAs: string;
+  errorNext: string;
+  tags: string;
+}
+
+interface FlowForm {
+  id?: number;
+  name: string;
+  keywords: string;
+  isDefault: boolean;
+  aiFallback: boolean;
+  active: boolean;
+  startNodeId: string;
+  nodes: NodeForm[];
+}
+
+const blankNode = (id: string, type: NodeType = "message"): NodeForm => ({
+  id,
+  type,
+  text: "",
+  next: END,
+  variable: "",
+  validation: "text",
+  options: [{ label: "", value: "", next: END }],
+  rules: [{ variable: "", operator: "equals", value: "", next: END }],
+  defaultNext: END,
+  method: "GET",
+  url: "",
+  body: "",
+  saveAs: "",
+  errorNext: END,
+  tags: "",
+});
+
+// Fluxo inicial sugerido: menu, valores, agendamento de visita e atendente
+const starterFlow = (): FlowForm => ({
+  name: "Atendimento inicial",
+  keywords: "menu, oi, olá",
+  isDefault: true,
+  aiFallback: false,
+  active: true,
+  startNodeId: "menu",
+  nodes: [
+    {
+      ...blankNode("menu", "buttons"),
+      text: "Olá, {{nome}}! Bem-vindo(a) à {{escola}}. Como podemos ajudar?",
+      variable: "assunto",
+      options: [
+        { label: "Cursos e valores", value: "cursos", next: "cursos" },
+        { label: "Agendar uma visita", value: "visita", next: "visita_nome" },
+        { label: "Falar com um atendente", value: "atendente", next: "atendente" },
+      ],
+    },
+    { ...blankNode("cursos"), text: "Nossos cursos e valores estão em nosso site. Quer agendar uma visita?", next: "visita_nome" },
+    { ...blankNode("visita_nome", "question"), text: "Qual o seu nome completo?", variable: "nome_completo", next: "visita_data" },
+    { ...blankNode("visita_data", "question"), text: "Qual o melhor dia e horário para a visita?", variable: "data_visita", next: "visita_fim" },
+    { ...blankNode("visita_fim", "handoff"), text: "Obrigado! Um atendente vai confirmar sua visita.", tags: "visita" },
+    { ...blankNode("atendente", "handoff"), text: "Certo! Um atendente vai continuar a conversa." },
+  ],
+});
+
+const emptyFlow = (): FlowForm => ({
+  name: "",
+  keywords: "",
+  isDefault: false,
+  aiFallback: false,
+  active: true,
+  startNodeId: "inicio",
+  nodes: [blankNode("inicio")],
+});
+
+const toNext = (value: string) => value === END || !value ? null : value;
+const fromNext = (value: string | null | undefined) => value || END;
+
+const toNodePayload = (node: NodeForm) => {
+  switch (node.type) {
+    case "message":
+      return { id: node.id, type: node.type, text: node.text, next: toNext(node.next) };
+    case "question":
+      return { id: node.id, type: node.type, text: node.text, variable: node.variable, validation: node.validation, next: toNext(node.next) };
+    case "buttons":
+      return {
+        id: node.id,
+        type: node.type,
+        text: node.text,
+        variable: node.variable || null,
+        options: node.options.map(option => ({ label: option.label, value: option.value || null, next: toNext(option.next) })),
+      };
+    case "condition":
+      return {
+        id: node.id,
+        type: node.type,
+        rules: node.rules.map(rule => ({ variable: rule.variable, operator: rule.operator, value: rule.value || null, next: toNext(rule.next) })),
+        defaultNext: toNext(node.defaultNext),
+      };
+    case "api_call": {
+      let body = null;
+      if (node.method === "POST" && node.body.trim()) {
+        try {
+          body = JSON.parse(node.body);
+        } catch {
+          throw new Error(`Corpo da chamada de API do nó ${node.id} não é um JSON válido`);
+        }
+      }
+      return {
+        id: node.id,
+        type: node.type,
+        method: node.method,
+        url: node.url,
+        body,
+        saveAs: node.saveAs || null,
+        next: toNext(node.next),
+        errorNext: toNext(node.errorNext),
+      };
+    }
+    case "handoff":
+      return {
+        id: node.id,
+        type: node.type,
+        text: node.text || null,
+        tags: node.tags.split(",").map(tag => tag.trim()).filter(Boolean),
+      };
+  }
+};
+
+const fromNode = (node: any): NodeForm => ({
+  ...blankNode(node.id, node.type),
+  text: node.text || "",
+  next: fromNext(node.next),
+  variable: node.variable || "",
+  validation: node.validation || "text",
+  options: (node.options || [{ label: "", value: "", next: END }]).map((option: any) => ({
+    label: option.label,
+    value: option.value || "",
+    next: fromNext(option.next),
+  })),
+  rules: (node.rules || [{ variable: "", operator: "equals", value: "", next: END }]).map((rule: any) => ({
+    variable: rule.variable,
+    operator: rule.operator,
+    value: rule.value || "",
+    next: fromNext(rule.next),
+  })),
+  defaultNext: fromNext(node.defaultNext),
+  method: node.method || "GET",
+  url: node.url || "",
+  body: node.body ? JSON.stringify(node.body, null, 2) : "",
+  saveAs: node.saveAs || "",
+  errorNext: fromNext(node.errorNext),
+  tags: (node.tags || []).join(", "),
+});
+
+export default function ChatbotFlowsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [form, setForm] = useState<FlowForm | null>(null);
+
+  const { data: flows, isLoading } = useQuery<any[]>({
+    queryKey: ["/api/schools", schoolId, "chatbot-flows"],
+    queryFn: () => getChatbotFlows(schoolId),
+    enabled: !!schoolId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (flow: FlowForm) => readResponse(await saveChatbotFlow(schoolId, {
+      name: flow.name,
+      triggerKeywords: flow.keywords.split(",").map(keyword => keyword.trim()).filter(Boolean),
+      isDefault: flow.isDefault,
+      aiFallback: flow.aiFallback,
+      active: flow.active,
+      definition: {
+        startNodeId: flow.startNodeId,
+        nodes: flow.nodes.map(toNodePayload),
+      },
+    }, flow.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "chatbot-flows"] });
+      setForm(null);
+      toast({ title: "Fluxo salvo" });
+    },
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (flowId: number) => readResponse(await deleteChatbotFlow(schoolId, flowId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "chatbot-flows"] }),
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const editFlow = (flow: any) => setForm({
+    id: flow.id,
+    name: flow.name,
+    keywords: flow.triggerKeywords.join(", "),
+    isDefault: flow.isDefault,
+    aiFallback: flow.aiFallback,
+    active: flow.active,
+    startNodeId: flow.definition.startNodeId,
+    nodes: flow.definition.nodes.map(fromNode),
+  });
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Fluxos do Chatbot
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Atendimento guiado no WhatsApp antes da equipe: menus, perguntas, consultas e transferência para a caixa de entrada
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Fluxos</CardTitle>
+            <CardDescription>
+              Um fluxo começa quando a mensagem contém uma de suas palavras-chave; o fluxo padrão atende os demais contatos
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setForm(starterFlow())}>
+              Usar modelo
+            </Button>
+            <Button onClick={() => setForm(emptyFlow())}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo fluxo
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !flows?.length ? (
+            <p className="py-6 text-center text-sm text-neutral-500">Nenhum fluxo cadastrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Início</TableHead>
+                  <TableHead className="text-right">Em andamento</TableHead>
+                  <TableHead className="text-right">Concluídas</TableHead>
+                  <TableHead className="text-right">Transferidas</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flows.map(flow => (
+                  <TableRow key={flow.id}>
+                    <TableCell className="font-medium">{flow.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {flow.isDefault && <Badge>Padrão</Badge>}
+                        {flow.triggerKeywords.map((keyword: string) => (
+                          <Badge key={keyword} variant="outline">{keyword}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{flow.stats?.active ?? 0}</TableCell>
+                    <TableCell className="text-right">{flow.stats?.completed ?? 0}</TableCell>
+                    <TableCell className="text-right">{flow.stats?.handoff ?? 0}</TableCell>
+                    <TableCell>
+                      <Badge variant={flow.active ? "default" : "secondary"}>{flow.active ? "Ativo" : "Inativo"}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => editFlow(flow)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(flow.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Editar fluxo" : "Novo fluxo"}</DialogTitle>
+            <DialogDescription>
+              Use {"{{nome}}"}, {"{{escola}}"} e as variáveis coletadas nos textos. Sem próximo nó, o fluxo termina
+            </DialogDescription>
+          </DialogHeader>
+          {form && <FlowEditor form={form} onChange={setForm} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function FlowEditor({ form, onChange }: { form: FlowForm; onChange: (form: FlowForm) => void }) {
+  const nodeIds = form.nodes.map(node => node.id).filter(Boolean);
+
+  const updateNode = (index: number, changes: Partial<NodeForm>) => {
+    const nodes = [...form.nodes];
+    nodes[index] = { ...nodes[index], ...changes };
+    onChange({ ...form, nodes });
+  };
+
+  const addNode = () => {
+    let counter = form.nodes.length + 1;
+    while (nodeIds.includes(`no_${counter}`)) counter++;
+    onChange({ ...form, nodes: [...form.nodes, blankNode(`no_${counter}`)] });
+  };
+
+  const NextSelect = ({ value, onValueChange, exclude }: { value: string; onValueChange: (value: string) => void; exclude?: string }) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={END}>Encerrar fluxo</SelectItem>
+        {nodeIds.filter(id => id !== exclude).map(id => (
+          <SelectItem key={id} value={id}>{id}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Nome</Label>
+          <Input value={form.name} onChange={(e) => onChange({ ...form, name: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Palavras-chave (separadas por vírgula)</Label>
+          <Input value={form.keywords} onChange={(e) => onChange({ ...form, keywords: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>Nó inicial</Label>
+          <Select value={form.startNodeId} onValueChange={(value) => onChange({ ...form, startNodeId: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {nodeIds.map(id => (
+                <SelectItem key={id} value={id}>{id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-3 pt-6">
+          <div className="flex items-center gap-2">
+            <Switch checked={form.isDefault} onCheckedChange={(checked) => onChange({ ...form, isDefault: checked })} />
+            <Label>Fluxo padrão para quem não usa palavra-chave</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={form.aiFallback} onCheckedChange={(checked) => onChange({ ...form, aiFallback: checked })} />
+            <Label>Responder com IA quando a resposta não corresponder às opções</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={form.active} onCheckedChange={(checked) => onChange({ ...form, active: checked })} />
+            <Label>Ativo</Label>
+          </div>
+        </div>
+      </div>
+
+      {form.nodes.map((node, index) => (
+        <div key={index} className="rounded-md border p-4 space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label>ID do nó</Label>
+              <Input value={node.id} onChange={(e) => updateNode(index, { id: e.target.value.replace(/\s+/g, "_") })} />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label>Tipo</Label>
+              <Select value={node.type} onValueChange={(value) => updateNode(index, { type: value as NodeType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={form.nodes.length === 1}
+              onClick={() => onChange({ ...form, nodes: form.nodes.filter((_, current) => current !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {["message", "question", "buttons", "handoff"].includes(node.type) && (
+            <div className="space-y-2">
+              <Label>{node.type === "handoff" ? "Mensagem ao transferir (opcional)" : "Texto"}</Label>
+              <Textarea rows={2} value={node.text} onChange={(e) => updateNode(index, { text: e.target.value })} />
+            </div>
+          )}
+
+          {(node.type === "question" || node.type === "buttons") && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Guardar resposta em</Label>
+                <Input value={node.variable} placeholder="ex.: curso" onChange={(e) => updateNode(index, { variable: e.target.value })} />
+              </div>
+              {node.type === "question" && (
+                <div className="space-y-2">
+                  <Label>Validação</Label>
+                  <Select value={node.validation} onValueChange={(value) => updateNode(index, { validation: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VALIDATION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {node.type === "buttons" && (
+            <div className="space-y-2">
+              <Label>Opções (o contato responde o número ou o texto)</Label>
+              {node.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <Input
+                    placeholder="Texto"
+                    value={option.label}
+                    onChange={(e) => updateNode(index, {
+                      options: node.options.map((current, i) => i === optionIndex ? { ...current, label: e.target.value } : current),
+                    })}
+                  />
+                  <Input
+                    placeholder="Valor (opcional)"
+                    value={option.value}
+                    onChange={(e) => updateNode(index, {
+                      options: node.options.map((current, i) => i === optionIndex ? { ...current, value: e.target.value } : current),
+                    })}
+                  />
+                  <NextSelect
+                    value={option.next}
+                    exclude={node.id}
+                    onValueChange={(value) => updateNode(index, {
+                      options: node.options.map((current, i) => i === optionIndex ? { ...current, next: value } : current),
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={node.options.length === 1}
+                    onClick={() => updateNode(index, { options: node.options.filter((_, i) => i !== optionIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateNode(index, { options: [...node.options, { label: "", value: "", next: END }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Opção
+              </Button>
+            </div>
+          )}
+
+          {node.type === "condition" && (
+            <div className="space-y-2">
+              <Label>Regras (a primeira satisfeita decide o caminho)</Label>
+              {node.rules.map((rule, ruleIndex) => (
+                <div key={ruleIndex} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+                  <Input
+                    placeholder="Variável"
+                    value={rule.variable}
+                    onChange={(e) => updateNode(index, {
+                      rules: node.rules.map((current, i) => i === ruleIndex ? { ...current, variable: e.target.value } : current),
+                    })}
+                  />
+                  <Select
+                    value={rule.operator}
+                    onValueChange={(value) => updateNode(index, {
+                      rules: node.rules.map((current, i) => i === ruleIndex ? { ...current, operator: value } : current),
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Valor"
+                    value={rule.value}
+                    disabled={rule.operator === "exists"}
+                    onChange={(e) => updateNode(index, {
+                      rules: node.rules.map((current, i) => i === ruleIndex ? { ...current, value: e.target.value } : current),
+                    })}
+                  />
+                  <NextSelect
+                    value={rule.next}
+                    exclude={node.id}
+                    onValueChange={(value) => updateNode(index, {
+                      rules: node.rules.map((current, i) => i === ruleIndex ? { ...current, next: value } : current),
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={node.rules.length === 1}
+                    onClick={() => updateNode(index, { rules: node.rules.filter((_, i) => i !== ruleIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateNode(index, { rules: [...node.rules, { variable: "", operator: "equals", value: "", next: END }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Regra
+              </Button>
+              <div className="space-y-2">
+                <Label>Se nenhuma regra for satisfeita</Label>
+                <NextSelect value={node.defaultNext} exclude={node.id} onValueChange={(value) => updateNode(index, { defaultNext: value })} />
+              </div>
+            </div>
+          )}
+
+          {node.type === "api_call" && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[120px_1fr] gap-2">
+                <Select value={node.method} onValueChange={(value) => updateNode(index, { method: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GET">GET</SelectItem>
+                    <SelectItem value="POST">POST</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="https://api.exemplo.com/cursos?curso={{curso}}"
+                  value={node.url}
+                  onChange={(e) => updateNode(index, { url: e.target.value })}
+                />
+              </div>
+              {node.method === "POST" && (
+                <Textarea
+                  rows={3}
+                  placeholder='{"nome": "{{nome_completo}}"}'
+                  value={node.body}
+                  onChange={(e) => updateNode(index, { body: e.target.value })}
+                />
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label>Guardar resposta em</Label>
+                  <Input value={node.saveAs} onChange={(e) => updateNode(index, { saveAs: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Em caso de erro</Label>
+                  <NextSelect value={node.errorNext} exclude={node.id} onValueChange={(value) => updateNode(index, { errorNext: value })} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {node.type === "handoff" && (
+            <div className="space-y-2">
+              <Label>Etiquetas da conversa (separadas por vírgula)</Label>
+              <Input value={node.tags} onChange={(e) => updateNode(index, { tags: e.target.value })} />
+            </div>
+          )}
+
+          {["message", "question", "api_call"].includes(node.type) && (
+            <div className="space-y-2">
+              <Label>Próximo nó</Label>
+              <NextSelect value={node.next} exclude={node.id} onValueChange={(value) => updateNode(index, { next: value })} />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addNode}>
+        <Plus className="mr-2 h-4 w-4" />
+        Adicionar nó
+      </Button>
+    </div>
+  );
+}
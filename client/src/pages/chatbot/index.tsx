@@ -1,11 +1,12 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { getSchools } from "@/lib/api";
 import { ChatInterface } from "@/components/Chatbot/ChatInterface";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, Settings, Loader2 } from "lucide-react";
+import { MessageSquare, Settings, Loader2, Workflow } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -68,6 +69,14 @@ export default function ChatbotPage() {
               </Select>
             </div>
           )}
+          {user?.role === 'school' && (
+            <Link href="/chatbot/flows">
+              <Button variant="outline" className="flex items-center">
+                <Workflow className="mr-2 h-4 w-4" />
+                Fluxos do WhatsApp
+              </Button>
+            </Link>
+          )}
           <Button variant="outline" className="flex items-center">
             <Settings className="mr-2 h-4 w-4" />
             Configurações
@@ -0,0 +1,265 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getConsents, recordConsent, getConsentProofUrl } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2 } from "lucide-react";
+
+const CHANNEL_LABELS: Record<string, string> = {
+  whatsapp: "WhatsApp",
+  email: "E-mail",
+  sms: "SMS",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  granted: "Autorizado",
+  revoked: "Recusado",
+};
+
+// Situações que só o contato produz, exibidas no filtro e na lista
+const AUTOMATIC_STATUS_LABELS: Record<string, string> = {
+  pending: "Aguardando confirmação",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  lead_form: "Formulário de captação",
+  whatsapp_keyword: "Resposta no WhatsApp",
+  whatsapp_reply: "Confirmação no WhatsApp",
+  manual: "Registro manual",
+};
+
+// Valor dos selects de filtro que mostra todos
+const ALL = "all";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "—");
+
+const emptyRecord = () => ({ channel: "whatsapp", identifier: "", status: "revoked", reason: "" });
+
+export default function ConsentsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [channel, setChannel] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [search, setSearch] = useState("");
+  const [record, setRecord] = useState(emptyRecord());
+  const [proofIdentifier, setProofIdentifier] = useState("");
+
+  const filters = {
+    channel: channel === ALL ? undefined : channel,
+    status: status === ALL ? undefined : status,
+    search: search.trim() || undefined,
+  };
+
+  const { data: consents, isLoading } = useQuery<any[]>({
+    queryKey: ["/api/schools", schoolId, "consents", filters],
+    queryFn: () => getConsents(schoolId, filters),
+    enabled: !!schoolId,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => readResponse(await recordConsent(schoolId, { ...record, reason: record.reason || null })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "consents"] });
+      setRecord(emptyRecord());
+      toast({ title: "Consentimento registrado" });
+    },
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Consentimentos (LGPD)
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Quem autorizou ou recusou receber mensagens da escola por WhatsApp, e-mail e SMS. Contatos que respondem
+          SAIR ou PARAR no WhatsApp são descadastrados automaticamente e voltam respondendo VOLTAR
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Registrar manualmente</CardTitle>
+            <CardDescription>
+              Para pedidos recebidos por telefone, e-mail ou pessoalmente. O motivo fica na prova de consentimento
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Canal</Label>
+                <Select value={record.channel} onValueChange={(value) => setRecord({ ...record, channel: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Situação</Label>
+                <Select value={record.status} onValueChange={(value) => setRecord({ ...record, status: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>{record.channel === "email" ? "E-mail" : "Telefone"}</Label>
+              <Input
+                value={record.identifier}
+                onChange={(e) => setRecord({ ...record, identifier: e.target.value })}
+                placeholder={record.channel === "email" ? "contato@exemplo.com" : "(11) 91234-5678"}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Motivo</Label>
+              <Input value={record.reason} onChange={(e) => setRecord({ ...record, reason: e.target.value })} placeholder="Pediu por telefone" />
+            </div>
+            <Button onClick={() => recordMutation.mutate()} disabled={!record.identifier || recordMutation.isPending}>
+              Registrar
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Prova de consentimento</CardTitle>
+            <CardDescription>
+              Arquivo com a situação atual e todo o histórico do contato em cada canal, para atender pedidos do titular
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label>Telefone ou e-mail</Label>
+              <Input value={proofIdentifier} onChange={(e) => setProofIdentifier(e.target.value)} />
+            </div>
+            <Button asChild disabled={!proofIdentifier.trim()}>
+              <a href={proofIdentifier.trim() ? getConsentProofUrl(schoolId, proofIdentifier.trim()) : undefined} download>
+                <Download className="mr-2 h-4 w-4" />
+                Exportar prova
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registro</CardTitle>
+          <CardDescription>Últimas alterações primeiro</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Input className="max-w-xs" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Buscar telefone ou e-mail" />
+            <Select value={channel} onValueChange={setChannel}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os canais</SelectItem>
+                {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as situações</SelectItem>
+                {Object.entries({ ...STATUS_LABELS, ...AUTOMATIC_STATUS_LABELS }).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !consents?.length ? (
+            <p className="py-6 text-center text-sm text-neutral-500">Nenhum consentimento registrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contato</TableHead>
+                  <TableHead>Canal</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Origem</TableHead>
+                  <TableHead>Atualizado em</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {consents.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.identifier}</TableCell>
+                    <TableCell>{CHANNEL_LABELS[item.channel] || item.channel}</TableCell>
+                    <TableCell>
+                      <Badge variant={item.status === "revoked" ? "destructive" : "secondary"}>
+                        {STATUS_LABELS[item.status] || AUTOMATIC_STATUS_LABELS[item.status] || item.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{SOURCE_LABELS[item.source] || item.source}</TableCell>
+                    <TableCell>{formatDate(item.updatedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" asChild title="Exportar prova">
+                        <a href={getConsentProofUrl(schoolId, item.identifier)} download>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getContractTemplates,
+  createContractTemplate,
+  updateContractTemplate,
+  deleteContractTemplate,
+  getCoursesBySchool
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2, Save } from "lucide-react";
+
+const TEMPLATE_VARIABLES = [
+  { key: "contratante.nome", label: "Nome de quem assina (responsável financeiro ou aluno)" },
+  { key: "contratante.cpf", label: "CPF de quem assina" },
+  { key: "aluno.nome", label: "Nome do aluno" },
+  { key: "aluno.cpf", label: "CPF do aluno" },
+  { key: "responsavel.nome", label: "Nome do responsável" },
+  { key: "responsavel.cpf", label: "CPF do responsável" },
+  { key: "responsavel.parentesco", label: "Parentesco do responsável" },
+  { key: "curso.nome", label: "Curso" },
+  { key: "curso.preco", label: "Preço do curso" },
+  { key: "escola.nome", label: "Escola" },
+  { key: "matricula.id", label: "Número da matrícula" },
+  { key: "matricula.semestre", label: "Semestre" },
+  { key: "matricula.ano", label: "Ano" },
+  { key: "data", label: "Data de geração do contrato" },
+];
+
+interface TemplateDraft {
+  id: number | null;
+  name: string;
+  content: string;
+  courseId: string;
+}
+
+const emptyDraft: TemplateDraft = { id: null, name: "", content: "", courseId: "school" };
+
+export default function ContractTemplatesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [draft, setDraft] = useState<TemplateDraft>(emptyDraft);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['/api/schools/contract-templates', schoolId],
+    queryFn: () => getContractTemplates(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: courses } = useQuery({
+    queryKey: ['/api/courses', schoolId],
+    queryFn: () => getCoursesBySchool(schoolId),
+    enabled: !!schoolId
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: draft.name,
+        content: draft.content,
+        courseId: draft.courseId === "school" ? null : parseInt(draft.courseId),
+      };
+      const response = draft.id
+        ? await updateContractTemplate(draft.id, data)
+        : await createContractTemplate(schoolId, data);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      return result;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/contract-templates', schoolId] });
+      setDraft({ ...draft, id: template.id });
+      toast({ title: "Modelo salvo", description: "Novos contratos usarão este texto." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar modelo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await deleteContractTemplate(id);
+      if (!response.ok) throw new Error("Failed to delete template");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/contract-templates', schoolId] });
+      setDraft(emptyDraft);
+      toast({ title: "Modelo desativado", description: "Contratos já gerados não são afetados." });
+    },
+  });
+
+  const courseName = (courseId: number | null) =>
+    courseId ? courses?.find((c: any) => c.id === courseId)?.name || `Curso #${courseId}` : "Todos os cursos";
+
+  if (!schoolId) {
+    return <p className="text-neutral-500">Selecione uma escola para gerenciar os modelos de contrato.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Modelos de Contrato</h1>
+        <p className="text-neutral-500">
+          O contrato é gerado com os dados da matrícula e assinado pelo aluno ou responsável antes do pagamento.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Modelos</CardTitle>
+            <CardDescription>O modelo do curso tem prioridade sobre o modelo geral da escola.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : (
+              templates?.map((template: any) => (
+                <div
+                  key={template.id}
+                  className={`flex items-center justify-between rounded-md border p-3 cursor-pointer ${
+                    draft.id === template.id ? "border-primary" : ""
+                  }`}
+                  onClick={() => setDraft({
+                    id: template.id,
+                    name: template.name,
+                    content: template.content,
+                    courseId: template.courseId ? String(template.courseId) : "school",
+                  })}
+                >
+                  <div>
+                    <p className="font-medium">{template.name}</p>
+                    <Badge variant="outline">{courseName(template.courseId)}</Badge>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(template.id);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button variant="outline" className="w-full" onClick={() => setDraft(emptyDraft)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo modelo
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{draft.id ? "Editar modelo" : "Novo modelo"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Nome</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Curso</Label>
+                <Select value={draft.courseId} onValueChange={(value) => setDraft({ ...draft, courseId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="school">Todos os cursos</SelectItem>
+                    {courses?.map((course: any) => (
+                      <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-content">Texto do contrato</Label>
+              <Textarea
+                id="template-content"
+                rows={16}
+                value={draft.content}
+                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              />
+            </div>
+
+            <div className="rounded-md bg-neutral-50 dark:bg-neutral-900 p-3 text-sm">
+              <p className="font-medium mb-2">Variáveis disponíveis</p>
+              <div className="grid gap-1 md:grid-cols-2">
+                {TEMPLATE_VARIABLES.map((variable) => (
+                  <p key={variable.key}>
+                    <code>{`{{${variable.key}}}`}</code> — {variable.label}
+                  </p>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!draft.name || !draft.content || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Salvar modelo
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getGuardianProfile,
+  updateGuardianProfile,
+  getGuardianStudents,
+  getGuardianEnrollments,
+  getGuardianPayments,
+  uploadGuardianDocument,
+  createGuardianPayment,
+} from "@/lib/api";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users, ClipboardList, CreditCard, Loader2, Upload, QrCode, Barcode } from "lucide-react";
+import { Link } from "wouter";
+
+const paymentStatusLabels: Record<string, string> = {
+  pending: "Pendente",
+  paid: "Pago",
+  succeeded: "Pago",
+  failed: "Falhou",
+  canceled: "Cancelado",
+  refunded: "Reembolsado",
+};
+
+const documentTypeLabels: Record<string, string> = {
+  id: "Documento de identidade",
+  address: "Comprovante de residência",
+  transcripts: "Histórico escolar",
+  diploma: "Diploma",
+  photo: "Foto",
+  other: "Outro",
+};
+
+const formatCurrency = (value: number | string) =>
+  Number(value || 0).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString("pt-BR") : "-";
+
+export default function GuardianDashboard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cpf, setCpf] = useState("");
+  const [documentEnrollment, setDocumentEnrollment] = useState<any | null>(null);
+  const [documentType, setDocumentType] = useState("id");
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [charge, setCharge] = useState<any | null>(null);
+
+  const { data: profile } = useQuery({
+    queryKey: ["/api/guardians/me"],
+    queryFn: getGuardianProfile,
+  });
+
+  const { data: students = [], isLoading: isLoadingStudents } = useQuery({
+    queryKey: ["/api/guardians/me/students"],
+    queryFn: getGuardianStudents,
+  });
+
+  const { data: enrollments = [], isLoading: isLoadingEnrollments } = useQuery({
+    queryKey: ["/api/guardians/me/enrollments"],
+    queryFn: getGuardianEnrollments,
+  });
+
+  const { data: payments = [], isLoading: isLoadingPayments } = useQuery({
+    queryKey: ["/api/guardians/me/payments"],
+    queryFn: getGuardianPayments,
+  });
+
+  useEffect(() => {
+    if (profile?.cpf) setCpf(profile.cpf);
+  }, [profile]);
+
+  const profileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await updateGuardianProfile({ cpf });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Erro ao salvar dados");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guardians/me"] });
+      toast({ title: "Dados salvos", description: "As próximas cobranças usarão este CPF." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const documentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await uploadGuardianDocument(documentEnrollment.id, documentFile!, documentType);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Erro ao enviar documento");
+      return data;
+    },
+    onSuccess: () => {
+      setDocumentEnrollment(null);
+      setDocumentFile(null);
+      toast({ title: "Documento enviado", description: "A escola vai conferir o documento." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async ({ enrollmentId, paymentMethod }: { enrollmentId: number; paymentMethod: "pix" | "bank_slip" }) => {
+      const res = await createGuardianPayment(enrollmentId, paymentMethod);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Erro ao emitir pagamento");
+      return data;
+    },
+    onSuccess: (data) => {
+      setCharge(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/guardians/me/payments"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingPayments = payments.filter((payment: any) => payment.status === "pending");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">
+          Olá, {user?.fullName}
+        </h1>
+        <p className="text-neutral-500">Acompanhe as matrículas e pagamentos dos seus dependentes.</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Dependentes</CardTitle>
+            <Users className="h-4 w-4 text-neutral-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{students.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Matrículas</CardTitle>
+            <ClipboardList className="h-4 w-4 text-neutral-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{enrollments.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Pagamentos pendentes</CardTitle>
+            <CreditCard className="h-4 w-4 text-neutral-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{pendingPayments.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dados para cobrança</CardTitle>
+          <CardDescription>
+            Quando você é o responsável financeiro, boletos e PIX são emitidos no seu CPF.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="guardian-cpf">CPF</Label>
+            <Input
+              id="guardian-cpf"
+              value={cpf}
+              onChange={(e) => setCpf(e.target.value)}
+              placeholder="000.000.000-00"
+            />
+          </div>
+          <Button onClick={() => profileMutation.mutate()} disabled={profileMutation.isPending}>
+            {profileMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dependentes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingStudents ? (
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          ) : students.length === 0 ? (
+            <p className="text-sm text-neutral-500">
+              Nenhum dependente vinculado. Peça à escola para vincular seu email ao cadastro do aluno.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Parentesco</TableHead>
+                  <TableHead>Responsável financeiro</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map((student: any) => (
+                  <TableRow key={student.id}>
+                    <TableCell>{student.full_name}</TableCell>
+                    <TableCell>{student.relationship || "-"}</TableCell>
+                    <TableCell>{student.financial_responsible ? "Sim" : "Não"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Matrículas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingEnrollments ? (
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          ) : enrollments.length === 0 ? (
+            <p className="text-sm text-neutral-500">Nenhuma matrícula encontrada.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Aluno</TableHead>
+                  <TableHead>Curso</TableHead>
+                  <TableHead>Escola</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrollments.map((enrollment: any) => (
+                  <TableRow key={enrollment.id}>
+                    <TableCell>{enrollment.student_name || "-"}</TableCell>
+                    <TableCell>{enrollment.course_name || "-"}</TableCell>
+                    <TableCell>{enrollment.school_name || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{enrollment.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => setDocumentEnrollment(enrollment)}>
+                        <Upload className="mr-1 h-4 w-4" />
+                        Documento
+                      </Button>
+                      {enrollment.payment_status !== "paid" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={paymentMutation.isPending}
+                            onClick={() => paymentMutation.mutate({ enrollmentId: enrollment.id, paymentMethod: "pix" })}
+                          >
+                            <QrCode className="mr-1 h-4 w-4" />
+                            PIX
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={paymentMutation.isPending}
+                            onClick={() => paymentMutation.mutate({ enrollmentId: enrollment.id, paymentMethod: "bank_slip" })}
+                          >
+                            <Barcode className="mr-1 h-4 w-4" />
+                            Boleto
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/enrollments/${enrollment.id}`}>Ver</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pagamentos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingPayments ? (
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          ) : payments.length === 0 ? (
+            <p className="text-sm text-neutral-500">Nenhum pagamento encontrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Vencimento</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment: any) => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.description || "-"}</TableCell>
+                    <TableCell>{formatDate(payment.due_date)}</TableCell>
+                    <TableCell>{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant={payment.status === "pending" ? "secondary" : "outline"}>
+                        {paymentStatusLabels[payment.status] || payment.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!documentEnrollment} onOpenChange={(open) => !open && setDocumentEnrollment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Enviar documento</DialogTitle>
+            <DialogDescription>
+              {documentEnrollment?.student_name} - {documentEnrollment?.course_name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={documentType} onValueChange={setDocumentType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(documentTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="guardian-document">Arquivo (JPEG, PNG ou PDF até 5MB)</Label>
+              <Input
+                id="guardian-document"
+                type="file"
+                accept="image/jpeg,image/png,application/pdf"
+                onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => documentMutation.mutate()} disabled={!documentFile || documentMutation.isPending}>
+              {documentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enviar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!charge} onOpenChange={(open) => !open && setCharge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{charge?.paymentMethod === "pix" ? "Pagamento via PIX" : "Boleto emitido"}</DialogTitle>
+            <DialogDescription>
+              Valor: {formatCurrency(charge?.quote?.finalAmount)} - vence em {formatDate(charge?.expiresAt)}
+            </DialogDescription>
+          </DialogHeader>
+          {charge?.paymentMethod === "pix" ? (
+            <div className="space-y-3">
+              {charge?.qrCodeImage && (
+                <img src={charge.qrCodeImage} alt="QR Code PIX" className="mx-auto h-48 w-48" />
+              )}
+              <Input readOnly value={charge?.qrCode || ""} onFocus={(e) => e.target.select()} />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <Input readOnly value={charge?.code || ""} onFocus={(e) => e.target.select()} />
+              {charge?.url && (
+                <Button variant="outline" asChild className="w-full">
+                  <a href={charge.url} target="_blank" rel="noreferrer">Abrir boleto</a>
+                </Button>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
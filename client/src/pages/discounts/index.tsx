@@ -0,0 +1,384 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getDiscountRules,
+  createDiscountRule,
+  updateDiscountRule,
+  deleteDiscountRule,
+  getCoursesBySchool
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2, Save } from "lucide-react";
+
+const KIND_LABELS: Record<string, string> = {
+  automatic: "Automático",
+  sibling: "Irmãos",
+  employee_child: "Filho de funcionário",
+  scholarship: "Bolsa",
+  coupon: "Cupom",
+};
+
+const KIND_DESCRIPTIONS: Record<string, string> = {
+  automatic: "Aplicado a todas as matrículas elegíveis.",
+  sibling: "Aplicado quando outro aluno do mesmo responsável tem matrícula ativa na escola.",
+  employee_child: "Concedido pela escola na página da matrícula após conferência.",
+  scholarship: "Concedido pela escola na página da matrícula.",
+  coupon: "Aplicado pelo aluno ou responsável ao informar o código no pagamento.",
+};
+
+interface RuleDraft {
+  id: number | null;
+  name: string;
+  kind: string;
+  valueType: "percent" | "fixed";
+  value: string;
+  stackable: boolean;
+  priority: string;
+  appliesTo: "all" | "enrollment_fee" | "tuition";
+  courseIds: number[];
+  couponCode: string;
+  validFrom: string;
+  validUntil: string;
+  maxUses: string;
+}
+
+const emptyDraft: RuleDraft = {
+  id: null,
+  name: "",
+  kind: "automatic",
+  valueType: "percent",
+  value: "",
+  stackable: true,
+  priority: "0",
+  appliesTo: "all",
+  courseIds: [],
+  couponCode: "",
+  validFrom: "",
+  validUntil: "",
+  maxUses: "",
+};
+
+export default function DiscountsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ['/api/schools/discount-rules', schoolId],
+    queryFn: () => getDiscountRules(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: courses } = useQuery({
+    queryKey: ['/api/courses', schoolId],
+    queryFn: () => getCoursesBySchool(schoolId),
+    enabled: !!schoolId
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: draft.name,
+        kind: draft.kind,
+        valueType: draft.valueType,
+        value: parseFloat(draft.value),
+        stackable: draft.stackable,
+        priority: parseInt(draft.priority) || 0,
+        appliesTo: draft.appliesTo,
+        courseIds: draft.courseIds.length > 0 ? draft.courseIds : null,
+        couponCode: draft.kind === "coupon" ? draft.couponCode : null,
+        validFrom: draft.validFrom || null,
+        validUntil: draft.validUntil || null,
+        maxUses: draft.maxUses ? parseInt(draft.maxUses) : null,
+      };
+      const response = draft.id
+        ? await updateDiscountRule(draft.id, data)
+        : await createDiscountRule(schoolId, data);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.errors?.[0]?.message || result.error || result.message);
+      return result;
+    },
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/discount-rules', schoolId] });
+      setDraft({ ...draft, id: rule.id });
+      toast({ title: "Regra salva", description: "Vale para as próximas cobranças geradas." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar regra", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await deleteDiscountRule(id);
+      if (!response.ok) throw new Error("Failed to delete discount rule");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/discount-rules', schoolId] });
+      setDraft(emptyDraft);
+      toast({ title: "Regra desativada", description: "Pagamentos já gerados mantêm o desconto." });
+    },
+  });
+
+  const toggleCourse = (courseId: number, checked: boolean) => {
+    setDraft({
+      ...draft,
+      courseIds: checked ? [...draft.courseIds, courseId] : draft.courseIds.filter(id => id !== courseId),
+    });
+  };
+
+  const formatValue = (rule: any) =>
+    rule.valueType === "percent"
+      ? `${rule.value}%`
+      : rule.value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+  if (!schoolId) {
+    return <p className="text-neutral-500">Selecione uma escola para gerenciar descontos e bolsas.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Descontos e Bolsas</h1>
+        <p className="text-neutral-500">
+          Regras aplicadas na geração de pagamentos e mensalidades e registradas em cada cobrança.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Regras</CardTitle>
+            <CardDescription>Regras exclusivas só valem quando dão mais desconto que as cumulativas somadas.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            ) : (
+              rules?.map((rule: any) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between rounded-md border p-3 cursor-pointer ${
+                    draft.id === rule.id ? "border-primary" : ""
+                  }`}
+                  onClick={() => setDraft({
+                    id: rule.id,
+                    name: rule.name,
+                    kind: rule.kind,
+                    valueType: rule.valueType,
+                    value: String(rule.value),
+                    stackable: rule.stackable,
+                    priority: String(rule.priority),
+                    appliesTo: rule.appliesTo,
+                    courseIds: rule.courseIds || [],
+                    couponCode: rule.couponCode || "",
+                    validFrom: rule.validFrom || "",
+                    validUntil: rule.validUntil || "",
+                    maxUses: rule.maxUses ? String(rule.maxUses) : "",
+                  })}
+                >
+                  <div>
+                    <p className="font-medium">{rule.name}</p>
+                    <p className="text-sm text-neutral-500">
+                      {formatValue(rule)}
+                      {rule.maxUses ? ` · ${rule.usesCount}/${rule.maxUses} usos` : ""}
+                    </p>
+                    <Badge variant="outline">{KIND_LABELS[rule.kind]}{rule.couponCode ? ` · ${rule.couponCode}` : ""}</Badge>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(rule.id);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button variant="outline" className="w-full" onClick={() => setDraft(emptyDraft)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Nova regra
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{draft.id ? "Editar regra" : "Nova regra"}</CardTitle>
+            <CardDescription>{KIND_DESCRIPTIONS[draft.kind]}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Nome</Label>
+                <Input id="rule-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={draft.kind} onValueChange={(value) => setDraft({ ...draft, kind: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.kind === "coupon" && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-coupon">Código do cupom</Label>
+                  <Input
+                    id="rule-coupon"
+                    value={draft.couponCode}
+                    onChange={(e) => setDraft({ ...draft, couponCode: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Forma</Label>
+                <Select
+                  value={draft.valueType}
+                  onValueChange={(value) => setDraft({ ...draft, valueType: value as RuleDraft["valueType"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentual (%)</SelectItem>
+                    <SelectItem value="fixed">Valor fixo (R$)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-value">Valor</Label>
+                <Input
+                  id="rule-value"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={draft.value}
+                  onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Aplica-se a</Label>
+                <Select
+                  value={draft.appliesTo}
+                  onValueChange={(value) => setDraft({ ...draft, appliesTo: value as RuleDraft["appliesTo"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Matrícula e mensalidades</SelectItem>
+                    <SelectItem value="enrollment_fee">Somente taxa de matrícula</SelectItem>
+                    <SelectItem value="tuition">Somente mensalidades</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-from">Início da vigência</Label>
+                <Input
+                  id="rule-from"
+                  type="date"
+                  value={draft.validFrom}
+                  onChange={(e) => setDraft({ ...draft, validFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-until">Fim da vigência</Label>
+                <Input
+                  id="rule-until"
+                  type="date"
+                  value={draft.validUntil}
+                  onChange={(e) => setDraft({ ...draft, validUntil: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max-uses">Limite de matrículas</Label>
+                <Input
+                  id="rule-max-uses"
+                  type="number"
+                  min={1}
+                  placeholder="Sem limite"
+                  value={draft.maxUses}
+                  onChange={(e) => setDraft({ ...draft, maxUses: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Prioridade</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="rule-stackable"
+                checked={draft.stackable}
+                onCheckedChange={(checked) => setDraft({ ...draft, stackable: checked })}
+              />
+              <Label htmlFor="rule-stackable">Cumulativa com outros descontos</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cursos elegíveis</Label>
+              <p className="text-sm text-neutral-500">Nenhum curso marcado: vale para todos.</p>
+              <div className="grid gap-2 md:grid-cols-3">
+                {courses?.map((course: any) => (
+                  <label key={course.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.courseIds.includes(course.id)}
+                      onCheckedChange={(checked) => toggleCourse(course.id, checked === true)}
+                    />
+                    {course.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!draft.name || !draft.value || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Salvar regra
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
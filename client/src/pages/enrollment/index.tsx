@@ -153,7 +153,7 @@ export default function EnrollmentPage() {
                 schoolName={school.name}
                 initialStep={
                   enrollment.paymentCompleted 
-                    ? 2 
+                    ? 3 
                     : enrollment.courseInfoCompleted 
                       ? 1 
                       : 0
@@ -8,7 +8,29 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { getEnrollment, getSchool, getAnswers, updateEnrollment, sendChatMessage, getChatHistory } from "@/lib/api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  getEnrollment,
+  getSchool,
+  getAnswers,
+  sendChatMessage,
+  getChatHistory,
+  getEnrollmentTransitions,
+  transitionEnrollment,
+  getEnrollmentHistory,
+  getEnrollmentInvoices,
+  startEnrollmentBilling,
+  getEnrollmentDiscounts,
+  getDiscountRules,
+  grantEnrollmentDiscount,
+  revokeEnrollmentDiscount
+} from "@/lib/api";
 
 interface EnrollmentViewParams {
   enrollmentId: string;
@@ -26,6 +48,13 @@ export default function EnrollmentViewPage() {
   const [message, setMessage] = useState("");
   const [chatHistory, setChatHistory] = useState<any[]>([]);
   const [isSending, setIsSending] = useState(false);
+  const [transitions, setTransitions] = useState<any[]>([]);
+  const [statusHistory, setStatusHistory] = useState<any[]>([]);
+  const [invoices, setInvoices] = useState<any[]>([]);
+  const [isStartingBilling, setIsStartingBilling] = useState(false);
+  const [enrollmentDiscounts, setEnrollmentDiscounts] = useState<any[]>([]);
+  const [grantableRules, setGrantableRules] = useState<any[]>([]);
+  const canManage = user?.role === "admin" || user?.role === "school";
   
   // Format date string to local date format
   const formatDate = (dateString: string) => {
@@ -65,6 +94,26 @@ export default function EnrollmentViewPage() {
           enrollmentData.leadId || undefined
         );
         setChatHistory(historyData);
+        
+        // Fetch workflow transitions and status history
+        const transitionsData = await getEnrollmentTransitions(parseInt(enrollmentId));
+        setTransitions(transitionsData.transitions || []);
+        
+        const statusHistoryData = await getEnrollmentHistory(parseInt(enrollmentId));
+        setStatusHistory(statusHistoryData);
+        
+        // Fetch tuition invoices
+        const invoicesData = await getEnrollmentInvoices(parseInt(enrollmentId));
+        setInvoices(invoicesData);
+        
+        // Fetch scholarships, granted discounts and coupons
+        const discountsData = await getEnrollmentDiscounts(parseInt(enrollmentId));
+        setEnrollmentDiscounts(discountsData);
+        
+        if (user?.role === "admin" || user?.role === "school") {
+          const rulesData = await getDiscountRules(enrollmentData.schoolId);
+          setGrantableRules(rulesData.filter((rule: any) => rule.kind === "scholarship" || rule.kind === "employee_child"));
+        }
       } catch (error) {
         console.error("Error loading enrollment data:", error);
         toast({
@@ -80,21 +129,101 @@ export default function EnrollmentViewPage() {
     loadEnrollmentData();
   }, [enrollmentId, toast]);
   
+  // Link the enrollment to the course billing plan
+  const handleStartBilling = async () => {
+    setIsStartingBilling(true);
+    try {
+      const response = await startEnrollmentBilling(parseInt(enrollmentId));
+      const result = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(result.error || result.message);
+      }
+      
+      setInvoices(result);
+      toast({
+        title: "Parcelas geradas",
+        description: "As cobranças serão emitidas antes de cada vencimento.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Erro ao gerar parcelas",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingBilling(false);
+    }
+  };
+  
+  // Grant or revoke a scholarship / employee-child discount
+  const handleGrantDiscount = async (ruleId: number) => {
+    try {
+      const response = await grantEnrollmentDiscount(parseInt(enrollmentId), ruleId);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      
+      setEnrollmentDiscounts(await getEnrollmentDiscounts(parseInt(enrollmentId)));
+      toast({ title: "Desconto concedido", description: "Vale para as próximas cobranças da matrícula." });
+    } catch (error: any) {
+      toast({ title: "Erro ao conceder desconto", description: error.message, variant: "destructive" });
+    }
+  };
+  
+  const handleRevokeDiscount = async (ruleId: number) => {
+    const response = await revokeEnrollmentDiscount(parseInt(enrollmentId), ruleId);
+    if (response.ok) {
+      setEnrollmentDiscounts(enrollmentDiscounts.filter((rule) => rule.id !== ruleId));
+    }
+  };
+  
+  const getInvoiceStatusLabel = (status: string) => {
+    switch (status) {
+      case "scheduled":
+        return "Agendada";
+      case "generating":
+        return "Gerando cobrança";
+      case "open":
+        return "Em aberto";
+      case "overdue":
+        return "Vencida";
+      case "paid":
+        return "Paga";
+      case "canceled":
+        return "Cancelada";
+      default:
+        return status;
+    }
+  };
+  
   // Handle enrollment status update
-  const handleStatusUpdate = async (newStatus: string) => {
+  const handleStatusUpdate = async (transition: any) => {
     setIsLoading(true);
     try {
-      await updateEnrollment(parseInt(enrollmentId), { status: newStatus });
+      const response = await transitionEnrollment(parseInt(enrollmentId), transition.to);
+      const result = await response.json();
+      
+      if (!response.ok) {
+        toast({
+          title: "Transição não permitida",
+          description: [result.message, ...(result.failedConditions || [])].join(". "),
+          variant: "destructive",
+        });
+        return;
+      }
       
       // Update local state
-      setEnrollment({
-        ...enrollment,
-        status: newStatus,
-      });
+      setEnrollment(result.enrollment || { ...enrollment, status: transition.to });
+      
+      const transitionsData = await getEnrollmentTransitions(parseInt(enrollmentId));
+      setTransitions(transitionsData.transitions || []);
+      
+      const statusHistoryData = await getEnrollmentHistory(parseInt(enrollmentId));
+      setStatusHistory(statusHistoryData);
       
       toast({
         title: "Status atualizado",
-        description: `A matrícula agora está ${getStatusLabel(newStatus).toLowerCase()}.`,
+        description: result.message,
       });
     } catch (error) {
       console.error("Error updating enrollment status:", error);
@@ -149,6 +278,14 @@ export default function EnrollmentViewPage() {
         return "Informações do Curso";
       case "payment":
         return "Pagamento";
+      case "pending":
+        return "Pendente";
+      case "approved":
+        return "Aprovada";
+      case "rejected":
+        return "Rejeitada";
+      case "canceled":
+        return "Cancelada";
       case "completed":
         return "Concluída";
       case "abandoned":
@@ -164,6 +301,8 @@ export default function EnrollmentViewPage() {
       case "completed":
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case "abandoned":
+      case "canceled":
+      case "rejected":
         return <XCircle className="h-5 w-5 text-red-500" />;
       default:
         return <Clock className="h-5 w-5 text-amber-500" />;
@@ -220,27 +359,23 @@ export default function EnrollmentViewPage() {
             Voltar
           </Button>
           
-          {enrollment.status !== "completed" && enrollment.status !== "abandoned" && (
-            <>
-              <Button 
-                variant="outline"
-                className="text-green-600 border-green-200 hover:bg-green-50 hover:text-green-700 dark:text-green-400 dark:border-green-950 dark:hover:bg-green-950/30"
-                onClick={() => handleStatusUpdate("completed")}
-              >
+          {/* Transições disponíveis no fluxo de matrícula da escola */}
+          {transitions.map((transition) => (
+            <Button 
+              key={`${transition.from}-${transition.to}`}
+              variant="outline"
+              onClick={() => handleStatusUpdate(transition)}
+            >
+              {transition.to === "completed" || transition.to === "approved" ? (
                 <CheckCircle className="h-4 w-4 mr-2" />
-                Concluir
-              </Button>
-              
-              <Button 
-                variant="outline"
-                className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:border-red-950 dark:hover:bg-red-950/30"
-                onClick={() => handleStatusUpdate("abandoned")}
-              >
+              ) : transition.to === "canceled" || transition.to === "rejected" ? (
                 <XCircle className="h-4 w-4 mr-2" />
-                Abandonar
-              </Button>
-            </>
-          )}
+              ) : (
+                <Clock className="h-4 w-4 mr-2" />
+              )}
+              {transition.label}
+            </Button>
+          ))}
         </div>
       </div>
       
@@ -423,6 +558,82 @@ export default function EnrollmentViewPage() {
               </div>
             </CardContent>
           </Card>
+          
+          {/* Tuition invoices */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Mensalidades</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {invoices.length === 0 ? (
+                <>
+                  <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                    Nenhuma parcela gerada para esta matrícula.
+                  </p>
+                  {(user?.role === "admin" || user?.role === "school") && (
+                    <Button variant="outline" size="sm" onClick={handleStartBilling} disabled={isStartingBilling}>
+                      {isStartingBilling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Gerar parcelas do plano
+                    </Button>
+                  )}
+                </>
+              ) : (
+                invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex justify-between items-center text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {invoice.kind === "enrollment_fee" ? "Taxa de matrícula" : `Parcela ${invoice.installmentNumber}`}
+                      </p>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                        Vence em {formatDate(`${invoice.dueDate}T12:00:00`)} · {getInvoiceStatusLabel(invoice.status)}
+                      </p>
+                    </div>
+                    <span className={invoice.status === "overdue" ? "font-medium text-red-600" : "font-medium"}>
+                      {invoice.currentAmount.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+          
+          {/* Scholarships and discounts */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Descontos e Bolsas</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {enrollmentDiscounts.length === 0 && (
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  Nenhuma bolsa ou cupom vinculado.
+                </p>
+              )}
+              {enrollmentDiscounts.map((rule) => (
+                <div key={rule.id} className="flex justify-between items-center text-sm">
+                  <span>
+                    {rule.name} ({rule.valueType === "percent" ? `${rule.value}%` : `R$ ${rule.value.toFixed(2)}`})
+                  </span>
+                  {canManage && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRevokeDiscount(rule.id)}>
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canManage && grantableRules.length > 0 && (
+                <Select value="" onValueChange={(value) => handleGrantDiscount(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Conceder bolsa ou desconto" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {grantableRules.map((rule) => (
+                      <SelectItem key={rule.id} value={String(rule.id)}>{rule.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </CardContent>
+          </Card>
         </div>
         
         {/* Right column - Tabs with details */}
@@ -634,32 +845,31 @@ export default function EnrollmentViewPage() {
                       </div>
                     )}
                     
-                    {/* Status completed or abandoned */}
-                    {(enrollment.status === "completed" || enrollment.status === "abandoned") && (
-                      <div className="flex">
+                    {/* Status transitions */}
+                    {statusHistory.filter((entry) => entry.fromStatus).map((entry) => (
+                      <div key={entry.id} className="flex">
                         <div className="flex flex-col items-center mr-4">
-                          <div className={`h-10 w-10 rounded-full ${
-                            enrollment.status === "completed" 
-                              ? "bg-green-500" 
-                              : "bg-red-500"
-                          } text-white flex items-center justify-center`}>
-                            {enrollment.status === "completed" ? (
-                              <CheckCircle className="h-5 w-5" />
-                            ) : (
-                              <XCircle className="h-5 w-5" />
-                            )}
+                          <div className="h-10 w-10 rounded-full bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center">
+                            {getStatusIcon(entry.toStatus)}
                           </div>
+                          <div className="h-full w-0.5 bg-neutral-200 dark:bg-neutral-700 mt-2"></div>
                         </div>
                         <div>
                           <p className="font-medium">
-                            Matrícula {enrollment.status === "completed" ? "concluída" : "abandonada"}
+                            {entry.transitionLabel || getStatusLabel(entry.toStatus)}
                           </p>
                           <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                            {formatDateTime(enrollment.completedAt || enrollment.abandonedAt || enrollment.updatedAt)}
+                            {formatDateTime(entry.createdAt)}
+                            {entry.changedByName && ` por ${entry.changedByName}`}
                           </p>
+                          {entry.reason && (
+                            <p className="text-sm mt-1">
+                              Motivo: {entry.reason}
+                            </p>
+                          )}
                         </div>
                       </div>
-                    )}
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,458 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getEnrollmentForms,
+  createEnrollmentForm,
+  getEnrollmentFormDetails,
+  publishEnrollmentFormVersion,
+  getCoursesBySchool
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Trash2, Upload, ArrowUp, ArrowDown } from "lucide-react";
+import type { FormDefinition, FormField, FormSection } from "@shared/enrollment-form.schema";
+
+const FIELD_TYPE_LABELS: Record<string, string> = {
+  text: "Texto curto",
+  textarea: "Texto longo",
+  email: "E-mail",
+  cpf: "CPF",
+  rg: "RG",
+  cep: "CEP",
+  phone: "Telefone",
+  date: "Data",
+  number: "Número",
+  select: "Seleção única",
+  multiselect: "Seleção múltipla",
+  checkbox: "Caixa de seleção",
+  file: "Arquivo",
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: "é igual a",
+  not_equals: "é diferente de",
+  greater_than: "é maior que",
+  less_than: "é menor que",
+  age_less_than: "idade menor que",
+  age_at_least: "idade de pelo menos",
+  filled: "está preenchido",
+  empty: "está vazio",
+};
+
+const emptyDefinition: FormDefinition = {
+  sections: [{ key: "dados_pessoais", title: "Dados pessoais", order: 0, fields: [] }],
+};
+
+export default function FormBuilderPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+
+  const [selectedFormId, setSelectedFormId] = useState<number | null>(null);
+  const [definition, setDefinition] = useState<FormDefinition>(emptyDefinition);
+  const [newFormName, setNewFormName] = useState("");
+  const [newFormCourseId, setNewFormCourseId] = useState<string>("school");
+
+  const { data: forms, isLoading } = useQuery({
+    queryKey: ['/api/schools/forms', schoolId],
+    queryFn: () => getEnrollmentForms(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: courses } = useQuery({
+    queryKey: ['/api/courses', schoolId],
+    queryFn: () => getCoursesBySchool(schoolId),
+    enabled: !!schoolId
+  });
+
+  const { data: selectedForm } = useQuery({
+    queryKey: ['/api/forms', selectedFormId],
+    queryFn: () => getEnrollmentFormDetails(selectedFormId!),
+    enabled: !!selectedFormId
+  });
+
+  // Carregar a versão atual do formulário selecionado como rascunho
+  useEffect(() => {
+    if (!selectedForm) return;
+    const current = selectedForm.versions?.find((v: any) => v.id === selectedForm.currentVersionId);
+    setDefinition(current?.definition || emptyDefinition);
+  }, [selectedForm]);
+
+  const createFormMutation = useMutation({
+    mutationFn: async () => {
+      const response = await createEnrollmentForm(schoolId, {
+        name: newFormName,
+        courseId: newFormCourseId === "school" ? null : parseInt(newFormCourseId),
+      });
+      if (!response.ok) throw new Error("Failed to create form");
+      return response.json();
+    },
+    onSuccess: (form) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/forms', schoolId] });
+      setSelectedFormId(form.id);
+      setNewFormName("");
+      toast({ title: "Formulário criado", description: "Monte as seções e publique a primeira versão." });
+    },
+    onError: () => {
+      toast({ title: "Erro ao criar formulário", description: "Verifique os dados e tente novamente.", variant: "destructive" });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await publishEnrollmentFormVersion(selectedFormId!, definition);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || result.message);
+      return result;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/forms', selectedFormId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schools/forms', schoolId] });
+      toast({ title: "Versão publicada", description: `A versão ${version.version} já está em uso nas novas matrículas.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao publicar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const allFields = definition.sections.flatMap(section => section.fields);
+
+  const updateSection = (index: number, data: Partial<FormSection>) => {
+    setDefinition(prev => ({
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...data } : section)),
+    }));
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= definition.sections.length) return;
+
+    const sections = [...definition.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    setDefinition({ sections: sections.map((section, order) => ({ ...section, order })) });
+  };
+
+  const addSection = () => {
+    const order = definition.sections.length;
+    setDefinition(prev => ({
+      sections: [...prev.sections, { key: `secao_${order + 1}`, title: `Nova seção ${order + 1}`, order, fields: [] }],
+    }));
+  };
+
+  const removeSection = (index: number) => {
+    setDefinition(prev => ({ sections: prev.sections.filter((_, i) => i !== index) }));
+  };
+
+  const updateField = (sectionIndex: number, fieldIndex: number, data: Partial<FormField>) => {
+    const section = definition.sections[sectionIndex];
+    updateSection(sectionIndex, {
+      fields: section.fields.map((field, i) => (i === fieldIndex ? { ...field, ...data } : field)),
+    });
+  };
+
+  const addField = (sectionIndex: number) => {
+    const section = definition.sections[sectionIndex];
+    updateSection(sectionIndex, {
+      fields: [...section.fields, { key: `campo_${allFields.length + 1}`, label: "Novo campo", type: "text", required: false }],
+    });
+  };
+
+  const removeField = (sectionIndex: number, fieldIndex: number) => {
+    const section = definition.sections[sectionIndex];
+    updateSection(sectionIndex, { fields: section.fields.filter((_, i) => i !== fieldIndex) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-800 dark:text-neutral-100">Construtor de Formulários</h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Monte o formulário de matrícula da escola ou de cada curso. Cada publicação gera uma nova versão.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {/* Lista de formulários */}
+        <Card className="md:col-span-1">
+          <CardHeader className="pb-3">
+            <CardTitle>Formulários</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {forms?.map((form: any) => (
+              <button
+                key={form.id}
+                onClick={() => setSelectedFormId(form.id)}
+                className={`w-full text-left p-3 rounded-md border ${
+                  selectedFormId === form.id ? "border-primary bg-primary/5" : "border-neutral-200 dark:border-neutral-800"
+                }`}
+              >
+                <p className="font-medium">{form.name}</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="outline">
+                    {form.courseId ? courses?.find((c: any) => c.id === form.courseId)?.name || "Curso" : "Escola"}
+                  </Badge>
+                  <span className="text-xs text-neutral-500">
+                    {form.currentVersion ? `v${form.currentVersion}` : "Não publicado"}
+                  </span>
+                </div>
+              </button>
+            ))}
+
+            <div className="pt-3 space-y-2 border-t border-neutral-200 dark:border-neutral-800">
+              <Input
+                placeholder="Nome do novo formulário"
+                value={newFormName}
+                onChange={(e) => setNewFormName(e.target.value)}
+              />
+              <Select value={newFormCourseId} onValueChange={setNewFormCourseId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="school">Todos os cursos</SelectItem>
+                  {courses?.map((course: any) => (
+                    <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="w-full"
+                disabled={!newFormName || createFormMutation.isPending}
+                onClick={() => createFormMutation.mutate()}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Criar formulário
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Editor */}
+        <div className="md:col-span-3 space-y-4">
+          {!selectedFormId ? (
+            <Card>
+              <CardContent className="py-12 text-center text-neutral-500">
+                Selecione ou crie um formulário para editar.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {definition.sections.map((section, sectionIndex) => (
+                <Card key={sectionIndex}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start gap-3">
+                      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <Label>Título da seção</Label>
+                          <Input value={section.title} onChange={(e) => updateSection(sectionIndex, { title: e.target.value })} />
+                        </div>
+                        <div>
+                          <Label>Chave</Label>
+                          <Input value={section.key} onChange={(e) => updateSection(sectionIndex, { key: e.target.value })} />
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => moveSection(sectionIndex, -1)}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => moveSection(sectionIndex, 1)}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => removeSection(sectionIndex)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+                    <CardDescription>{section.fields.length} campos</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {section.fields.map((field, fieldIndex) => {
+                      const rule = field.visibleWhen && "field" in field.visibleWhen ? field.visibleWhen : undefined;
+
+                      return (
+                        <div key={fieldIndex} className="p-4 rounded-md border border-neutral-200 dark:border-neutral-800 space-y-3">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                              <Label>Rótulo</Label>
+                              <Input value={field.label} onChange={(e) => updateField(sectionIndex, fieldIndex, { label: e.target.value })} />
+                            </div>
+                            <div>
+                              <Label>Chave</Label>
+                              <Input value={field.key} onChange={(e) => updateField(sectionIndex, fieldIndex, { key: e.target.value })} />
+                            </div>
+                            <div>
+                              <Label>Tipo</Label>
+                              <Select
+                                value={field.type}
+                                onValueChange={(value) => updateField(sectionIndex, fieldIndex, { type: value as FormField["type"] })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(FIELD_TYPE_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+
+                          {(field.type === "select" || field.type === "multiselect") && (
+                            <div>
+                              <Label>Opções (uma por linha)</Label>
+                              <Textarea
+                                value={(field.options || []).join("\n")}
+                                onChange={(e) => updateField(sectionIndex, fieldIndex, {
+                                  options: e.target.value.split("\n").map(opt => opt.trim()).filter(Boolean)
+                                })}
+                              />
+                            </div>
+                          )}
+
+                          {(field.type === "number" || field.type === "multiselect") && (
+                            <div className="grid grid-cols-2 gap-3">
+                              <div>
+                                <Label>Mínimo</Label>
+                                <Input
+                                  type="number"
+                                  value={field.min ?? ""}
+                                  onChange={(e) => updateField(sectionIndex, fieldIndex, { min: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                />
+                              </div>
+                              <div>
+                                <Label>Máximo</Label>
+                                <Input
+                                  type="number"
+                                  value={field.max ?? ""}
+                                  onChange={(e) => updateField(sectionIndex, fieldIndex, { max: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Regra de visibilidade */}
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                              <Label>Mostrar quando</Label>
+                              <Select
+                                value={rule?.field || "always"}
+                                onValueChange={(value) => updateField(sectionIndex, fieldIndex, {
+                                  visibleWhen: value === "always" ? undefined : { field: value, operator: rule?.operator || "equals", value: rule?.value }
+                                })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="always">Sempre visível</SelectItem>
+                                  {allFields.filter(f => f.key !== field.key).map(f => (
+                                    <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {rule && (
+                              <>
+                                <div>
+                                  <Label>Condição</Label>
+                                  <Select
+                                    value={rule.operator}
+                                    onValueChange={(value) => updateField(sectionIndex, fieldIndex, {
+                                      visibleWhen: { ...rule, operator: value as any }
+                                    })}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {rule.operator !== "filled" && rule.operator !== "empty" && (
+                                  <div>
+                                    <Label>Valor</Label>
+                                    <Input
+                                      value={rule.value ?? ""}
+                                      onChange={(e) => updateField(sectionIndex, fieldIndex, {
+                                        visibleWhen: { ...rule, value: e.target.value }
+                                      })}
+                                    />
+                                  </div>
+                                )}
+                              </>
+                            )}
+                          </div>
+
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                checked={field.required}
+                                onCheckedChange={(checked) => updateField(sectionIndex, fieldIndex, { required: checked })}
+                              />
+                              <span className="text-sm">Obrigatório</span>
+                            </div>
+                            <Button variant="ghost" size="sm" onClick={() => removeField(sectionIndex, fieldIndex)}>
+                              <Trash2 className="h-4 w-4 mr-2 text-red-500" />
+                              Remover campo
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    <Button variant="outline" onClick={() => addField(sectionIndex)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Adicionar campo
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={addSection}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar seção
+                </Button>
+                <Button onClick={() => publishMutation.mutate()} disabled={publishMutation.isPending}>
+                  {publishMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 mr-2" />
+                  )}
+                  Publicar nova versão
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Link, useParams } from "wouter";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getGuardianInvitation, acceptGuardianInvitation } from "@/lib/api";
+
+const acceptInvitationSchema = z.object({
+  fullName: z.string().min(3, "Nome completo deve ter pelo menos 3 caracteres"),
+  username: z.string().min(3, "Nome de usuário deve ter pelo menos 3 caracteres"),
+  phone: z.string().optional(),
+  password: z.string().min(6, "A senha deve ter no mínimo 6 caracteres"),
+  confirmPassword: z.string().min(6, "A senha deve ter no mínimo 6 caracteres"),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type GuardianInvitation = {
+  email: string;
+  studentName: string | null;
+  schoolName: string | null;
+  expiresAt: string;
+};
+
+export default function GuardianInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [invitation, setInvitation] = useState<GuardianInvitation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<z.infer<typeof acceptInvitationSchema>>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      fullName: "",
+      username: "",
+      phone: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    getGuardianInvitation(token)
+      .then(setInvitation)
+      .catch(() => setError("Convite inválido ou expirado. Peça à escola para enviar um novo convite."))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const onSubmit = async (values: z.infer<typeof acceptInvitationSchema>) => {
+    setIsSubmitting(true);
+    try {
+      const res = await acceptGuardianInvitation(token, {
+        fullName: values.fullName,
+        username: values.username,
+        phone: values.phone || undefined,
+        password: values.password,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Erro ao criar conta");
+
+      setSuccess(true);
+    } catch (err) {
+      toast({
+        title: "Erro",
+        description: err instanceof Error ? err.message : "Ocorreu um erro ao criar sua conta. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-primary-700 to-primary-900 p-4">
+        <div className="w-full max-w-md p-8 bg-white rounded-xl shadow-lg dark:bg-neutral-900 text-center">
+          <Loader2 className="h-10 w-10 animate-spin mx-auto mb-4 text-primary-600" />
+          <p className="text-neutral-600 dark:text-neutral-400">Validando convite...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-primary-700 to-primary-900 p-4">
+      <div className="w-full max-w-md p-8 bg-white rounded-xl shadow-lg dark:bg-neutral-900">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-display font-bold mb-2">
+            <span className="text-primary-600 dark:text-primary-400">EduMatrik</span>
+            <span className="text-secondary-500">AI</span>
+          </h1>
+          <p className="text-neutral-500 dark:text-neutral-400">
+            Conta de responsável
+          </p>
+        </div>
+
+        {error && (
+          <div className="space-y-6">
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+              <p>{error}</p>
+            </div>
+            <Button asChild className="w-full">
+              <Link href="/login">Ir para o login</Link>
+            </Button>
+          </div>
+        )}
+
+        {!error && success && (
+          <div className="space-y-6">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-600 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+              <p className="mb-2 font-medium">Conta criada!</p>
+              <p>Entre com seu usuário e senha para acompanhar a matrícula de {invitation?.studentName || "seu dependente"}.</p>
+            </div>
+            <Button asChild className="w-full">
+              <Link href="/login">Ir para o login</Link>
+            </Button>
+          </div>
+        )}
+
+        {!error && !success && invitation && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="mb-4 text-sm text-neutral-600 dark:text-neutral-400">
+                <p>
+                  {invitation.schoolName || "A escola"} convidou <strong>{invitation.email}</strong> para
+                  acompanhar a matrícula de {invitation.studentName || "seu dependente"}.
+                </p>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome completo</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome de usuário</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="(11) 91234-5678" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Senha</FormLabel>
+                    <FormControl>
+                      <Input placeholder="••••••••" type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirmar senha</FormLabel>
+                    <FormControl>
+                      <Input placeholder="••••••••" type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processando...
+                  </>
+                ) : (
+                  "Criar conta"
+                )}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,762 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getLeadAssignmentRules,
+  saveLeadAssignmentRule,
+  deleteLeadAssignmentRule,
+  getLeadSla,
+  updateLeadSla,
+  getLeadCadences,
+  saveLeadCadence,
+  deleteLeadCadence,
+  getLeadTasks,
+  completeLeadTask,
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Loader2, Pencil, Plus, Save, Trash2 } from "lucide-react";
+
+const WEEKDAYS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const STRATEGY_LABELS: Record<string, string> = {
+  round_robin: "Rodízio",
+  least_loaded: "Menor carga",
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  whatsapp: "WhatsApp",
+  email: "E-mail",
+  task: "Tarefa para o atendente",
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString("pt-BR") : "-";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+interface RuleForm {
+  id?: number;
+  name: string;
+  strategy: string;
+  courseId: string;
+  attendantIds: number[];
+  useWorkingHours: boolean;
+  days: number[];
+  start: string;
+  end: string;
+  priority: number;
+  active: boolean;
+}
+
+interface CadenceStepForm {
+  dayOffset: number;
+  channel: string;
+  subject: string;
+  content: string;
+}
+
+interface CadenceForm {
+  id?: number;
+  name: string;
+  courseId: string;
+  active: boolean;
+  steps: CadenceStepForm[];
+}
+
+const emptyRule: RuleForm = {
+  name: "",
+  strategy: "round_robin",
+  courseId: "",
+  attendantIds: [],
+  useWorkingHours: false,
+  days: [1, 2, 3, 4, 5],
+  start: "08:00",
+  end: "18:00",
+  priority: 0,
+  active: true,
+};
+
+const emptyCadence: CadenceForm = {
+  name: "",
+  courseId: "",
+  active: true,
+  steps: [
+    { dayOffset: 1, channel: "whatsapp", subject: "", content: "Olá, {{nome}}! Ainda tem interesse em {{curso}}? Posso ajudar com alguma dúvida?" },
+    { dayOffset: 3, channel: "email", subject: "{{curso}} na {{escola}}", content: "Olá, {{nome}}!\nSeparamos mais informações sobre {{curso}}. Responda este e-mail para conversar com a nossa equipe." },
+    { dayOffset: 7, channel: "task", subject: "Ligar para o lead", content: "Fazer contato por telefone com {{nome}} sobre {{curso}}." },
+  ],
+};
+
+export default function LeadAutomationPage() {
+  const { user } = useAuth();
+  const schoolId = user?.schoolId || 0;
+  const canManage = user?.role === "school" || user?.role === "admin";
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Automação de Leads
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Distribuição entre atendentes, prazo de primeira resposta e cadências de acompanhamento
+        </p>
+      </div>
+
+      <Tabs defaultValue={canManage ? "rules" : "tasks"}>
+        <TabsList>
+          {canManage && <TabsTrigger value="rules">Distribuição</TabsTrigger>}
+          {canManage && <TabsTrigger value="sla">SLA</TabsTrigger>}
+          {canManage && <TabsTrigger value="cadences">Cadências</TabsTrigger>}
+          <TabsTrigger value="tasks">Tarefas</TabsTrigger>
+        </TabsList>
+        {canManage && (
+          <>
+            <TabsContent value="rules"><AssignmentRulesTab schoolId={schoolId} /></TabsContent>
+            <TabsContent value="sla"><SlaTab schoolId={schoolId} /></TabsContent>
+            <TabsContent value="cadences"><CadencesTab schoolId={schoolId} /></TabsContent>
+          </>
+        )}
+        <TabsContent value="tasks"><TasksTab schoolId={schoolId} /></TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function useCourses(schoolId: number) {
+  return useQuery<any[]>({
+    queryKey: ["/api/courses", schoolId],
+    queryFn: () => fetch("/api/courses", { credentials: "include" }).then(res => res.ok ? res.json() : []),
+  });
+}
+
+function AssignmentRulesTab({ schoolId }: { schoolId: number }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const { data: courses = [] } = useCourses(schoolId);
+  const { data, isLoading } = useQuery<{ rules: any[]; attendants: { id: number; fullName: string }[] }>({
+    queryKey: ["/api/schools", schoolId, "lead-assignment-rules"],
+    queryFn: () => getLeadAssignmentRules(schoolId),
+  });
+  const attendants = data?.attendants || [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (rule: RuleForm) => readResponse(await saveLeadAssignmentRule(schoolId, {
+      name: rule.name,
+      strategy: rule.strategy,
+      courseId: rule.courseId ? parseInt(rule.courseId) : null,
+      attendantIds: rule.attendantIds,
+      workingHours: rule.useWorkingHours ? { days: rule.days, start: rule.start, end: rule.end } : null,
+      priority: rule.priority,
+      active: rule.active,
+    }, rule.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-assignment-rules"] });
+      setForm(null);
+      toast({ title: "Regra salva" });
+    },
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ruleId: number) => readResponse(await deleteLeadAssignmentRule(schoolId, ruleId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-assignment-rules"] }),
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const editRule = (rule: any) => setForm({
+    id: rule.id,
+    name: rule.name,
+    strategy: rule.strategy,
+    courseId: rule.courseId ? String(rule.courseId) : "",
+    attendantIds: rule.attendantIds,
+    useWorkingHours: !!rule.workingHours,
+    days: rule.workingHours?.days || emptyRule.days,
+    start: rule.workingHours?.start || emptyRule.start,
+    end: rule.workingHours?.end || emptyRule.end,
+    priority: rule.priority,
+    active: rule.active,
+  });
+
+  const toggle = (list: number[], value: number) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Regras de distribuição</CardTitle>
+          <CardDescription>
+            Leads novos sem responsável são atribuídos pela primeira regra aplicável, em ordem de prioridade
+          </CardDescription>
+        </div>
+        <Button onClick={() => setForm({ ...emptyRule })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nova regra
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prioridade</TableHead>
+                <TableHead>Nome</TableHead>
+                <TableHead>Estratégia</TableHead>
+                <TableHead>Curso</TableHead>
+                <TableHead>Horário</TableHead>
+                <TableHead>Atendentes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(data?.rules || []).length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-neutral-500">Nenhuma regra cadastrada</TableCell>
+                </TableRow>
+              )}
+              {(data?.rules || []).map((rule: any) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell>
+                    {rule.name} {!rule.active && <Badge variant="outline">Inativa</Badge>}
+                  </TableCell>
+                  <TableCell>{STRATEGY_LABELS[rule.strategy]}</TableCell>
+                  <TableCell>{courses.find((course: any) => course.id === rule.courseId)?.name || "Todos"}</TableCell>
+                  <TableCell>
+                    {rule.workingHours
+                      ? `${rule.workingHours.days.map((day: number) => WEEKDAYS[day]).join(", ")} ${rule.workingHours.start}–${rule.workingHours.end}`
+                      : "Sempre"}
+                  </TableCell>
+                  <TableCell>
+                    {rule.attendantIds.map((id: number) => attendants.find(attendant => attendant.id === id)?.fullName || `#${id}`).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="icon" onClick={() => editRule(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Editar regra" : "Nova regra"}</DialogTitle>
+            <DialogDescription>Quem recebe os leads novos e quando</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Nome</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Estratégia</Label>
+                  <Select value={form.strategy} onValueChange={(strategy) => setForm({ ...form, strategy })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="round_robin">Rodízio</SelectItem>
+                      <SelectItem value="least_loaded">Menor carga</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Prioridade</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Curso</Label>
+                <Select value={form.courseId || "all"} onValueChange={(value) => setForm({ ...form, courseId: value === "all" ? "" : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os cursos</SelectItem>
+                    {courses.map((course: any) => (
+                      <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Atendentes</Label>
+                {attendants.length === 0 && (
+                  <p className="text-sm text-neutral-500">Nenhum atendente cadastrado na escola.</p>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  {attendants.map(attendant => (
+                    <label key={attendant.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={form.attendantIds.includes(attendant.id)}
+                        onCheckedChange={() => setForm({ ...form, attendantIds: toggle(form.attendantIds, attendant.id) })}
+                      />
+                      <span>{attendant.fullName}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label>Somente no horário de atendimento</Label>
+                <Switch checked={form.useWorkingHours} onCheckedChange={(useWorkingHours) => setForm({ ...form, useWorkingHours })} />
+              </div>
+              {form.useWorkingHours && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-3">
+                    {WEEKDAYS.map((label, day) => (
+                      <label key={day} className="flex items-center space-x-1 text-sm">
+                        <Checkbox checked={form.days.includes(day)} onCheckedChange={() => setForm({ ...form, days: toggle(form.days, day) })} />
+                        <span>{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <Input type="time" value={form.start} onChange={(e) => setForm({ ...form, start: e.target.value })} />
+                    <Input type="time" value={form.end} onChange={(e) => setForm({ ...form, end: e.target.value })} />
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <Label>Ativa</Label>
+                <Switch checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function SlaTab({ schoolId }: { schoolId: number }) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(true);
+  const [minutes, setMinutes] = useState(60);
+  const { data, isLoading } = useQuery<{ settings: any; report: any }>({
+    queryKey: ["/api/schools", schoolId, "lead-sla"],
+    queryFn: () => getLeadSla(schoolId),
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setEnabled(data.settings.enabled);
+      setMinutes(data.settings.firstResponseMinutes);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => readResponse(await updateLeadSla(schoolId, { enabled, firstResponseMinutes: minutes })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-sla"] });
+      toast({ title: "SLA atualizado" });
+    },
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  if (isLoading || !data) {
+    return <Loader2 className="h-6 w-6 animate-spin text-primary" />;
+  }
+
+  const { report } = data;
+  const compliance = report.total - report.pending > 0
+    ? Math.round((report.met / (report.total - report.pending)) * 100)
+    : null;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Prazo de primeira resposta</CardTitle>
+          <CardDescription>
+            Leads que continuarem como "novo" após o prazo geram alerta para a escola e para o atendente responsável
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>SLA ativo</Label>
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+          <div className="space-y-2">
+            <Label>Prazo (minutos)</Label>
+            <Input type="number" min={5} value={minutes} onChange={(e) => setMinutes(parseInt(e.target.value) || 0)} />
+          </div>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            Salvar
+          </Button>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Últimos 30 dias</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-neutral-500">Cumprimento</p>
+            <p className="text-2xl font-bold">{compliance === null ? "-" : `${compliance}%`}</p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Tempo médio de resposta</p>
+            <p className="text-2xl font-bold">{report.avgFirstResponseMinutes === null ? "-" : `${report.avgFirstResponseMinutes} min`}</p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Vencidos</p>
+            <p className="text-2xl font-bold text-red-600">{report.breached}</p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Aguardando resposta</p>
+            <p className="text-2xl font-bold">{report.pending}</p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CadencesTab({ schoolId }: { schoolId: number }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<CadenceForm | null>(null);
+  const { data: courses = [] } = useCourses(schoolId);
+  const { data: cadences = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/schools", schoolId, "lead-cadences"],
+    queryFn: () => getLeadCadences(schoolId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (cadence: CadenceForm) => readResponse(await saveLeadCadence(schoolId, {
+      name: cadence.name,
+      courseId: cadence.courseId ? parseInt(cadence.courseId) : null,
+      active: cadence.active,
+      steps: cadence.steps.map(step => ({
+        dayOffset: step.dayOffset,
+        channel: step.channel,
+        subject: step.subject || null,
+        content: step.content,
+      })),
+    }, cadence.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-cadences"] });
+      setForm(null);
+      toast({ title: "Cadência salva" });
+    },
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (cadenceId: number) => readResponse(await deleteLeadCadence(schoolId, cadenceId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-cadences"] }),
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  const updateStep = (index: number, changes: Partial<CadenceStepForm>) => {
+    if (!form) return;
+    setForm({ ...form, steps: form.steps.map((step, i) => i === index ? { ...step, ...changes } : step) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Cadências de acompanhamento</CardTitle>
+          <CardDescription>
+            Iniciadas na entrada do lead; param quando ele responde pelo WhatsApp, é convertido ou perdido
+          </CardDescription>
+        </div>
+        <Button onClick={() => setForm({ ...emptyCadence, steps: emptyCadence.steps.map(step => ({ ...step })) })}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nova cadência
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Curso</TableHead>
+                <TableHead>Passos</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cadences.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-neutral-500">Nenhuma cadência cadastrada</TableCell>
+                </TableRow>
+              )}
+              {cadences.map((cadence: any) => (
+                <TableRow key={cadence.id}>
+                  <TableCell>
+                    {cadence.name} {!cadence.active && <Badge variant="outline">Inativa</Badge>}
+                  </TableCell>
+                  <TableCell>{courses.find((course: any) => course.id === cadence.courseId)?.name || "Todos"}</TableCell>
+                  <TableCell>
+                    {cadence.steps.map((step: any) => `Dia ${step.dayOffset}: ${CHANNEL_LABELS[step.channel]}`).join(" · ")}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({
+                        id: cadence.id,
+                        name: cadence.name,
+                        courseId: cadence.courseId ? String(cadence.courseId) : "",
+                        active: cadence.active,
+                        steps: cadence.steps.map((step: any) => ({ ...step, subject: step.subject || "" })),
+                      })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(cadence.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Editar cadência" : "Nova cadência"}</DialogTitle>
+            <DialogDescription>
+              Variáveis disponíveis: {"{{nome}}"}, {"{{curso}}"}, {"{{escola}}"}, {"{{atendente}}"}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Nome</Label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Curso</Label>
+                  <Select value={form.courseId || "all"} onValueChange={(value) => setForm({ ...form, courseId: value === "all" ? "" : value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos os cursos</SelectItem>
+                      {courses.map((course: any) => (
+                        <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {form.steps.map((step, index) => (
+                <div key={index} className="rounded-lg border p-3 space-y-2">
+                  <div className="grid grid-cols-[100px_1fr_auto] gap-2 items-end">
+                    <div className="space-y-1">
+                      <Label>Dia</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={step.dayOffset}
+                        onChange={(e) => updateStep(index, { dayOffset: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Canal</Label>
+                      <Select value={step.channel} onValueChange={(channel) => updateStep(index, { channel })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {step.channel !== "whatsapp" && (
+                    <Input
+                      placeholder={step.channel === "email" ? "Assunto" : "Título da tarefa"}
+                      value={step.subject}
+                      onChange={(e) => updateStep(index, { subject: e.target.value })}
+                    />
+                  )}
+                  <Textarea rows={3} value={step.content} onChange={(e) => updateStep(index, { content: e.target.value })} />
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                onClick={() => setForm({
+                  ...form,
+                  steps: [...form.steps, { dayOffset: (form.steps[form.steps.length - 1]?.dayOffset ?? 0) + 1, channel: "whatsapp", subject: "", content: "" }],
+                })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Adicionar passo
+              </Button>
+
+              <div className="flex items-center justify-between">
+                <Label>Ativa</Label>
+                <Switch checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function TasksTab({ schoolId }: { schoolId: number }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<"open" | "done">("open");
+  const { data: tasks = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/schools", schoolId, "lead-tasks", status],
+    queryFn: () => getLeadTasks(schoolId, status),
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (taskId: number) => readResponse(await completeLeadTask(schoolId, taskId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "lead-tasks"] }),
+    onError: (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Tarefas de acompanhamento</CardTitle>
+          <CardDescription>Criadas pelas cadências para o atendente responsável pelo lead</CardDescription>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as "open" | "done")}>
+          <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Abertas</SelectItem>
+            <SelectItem value="done">Concluídas</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lead</TableHead>
+                <TableHead>Tarefa</TableHead>
+                <TableHead>Prazo</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tasks.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-neutral-500">Nenhuma tarefa</TableCell>
+                </TableRow>
+              )}
+              {tasks.map((task: any) => (
+                <TableRow key={task.id}>
+                  <TableCell>{task.leadName}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{task.title}</p>
+                    {task.description && <p className="text-xs text-neutral-500">{task.description}</p>}
+                  </TableCell>
+                  <TableCell>{formatDate(task.status === "done" ? task.completedAt : task.dueAt)}</TableCell>
+                  <TableCell className="text-right">
+                    {task.status === "open" && (
+                      <Button variant="outline" size="sm" onClick={() => completeMutation.mutate(task.id)} disabled={completeMutation.isPending}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Concluir
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getPublicLeadForm, submitPublicLeadForm } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+interface LeadCaptureParams {
+  schoolId: string;
+  courseId?: string;
+}
+
+// Dados do formulário retornados pelo servidor
+interface PublicLeadForm {
+  school: { id: number; name: string; logo: string | null };
+  courses: { id: number; name: string }[];
+  selectedCourseId: number | null;
+  consentText: string;
+  successMessage: string;
+}
+
+/**
+ * Formulário público de captação de leads. Atende a página hospedada
+ * (/captura/:schoolId/:courseId?) e o iframe criado por /embed/leads.js
+ */
+export default function LeadCapturePage() {
+  const { schoolId, courseId } = useParams<LeadCaptureParams>();
+  const search = new URLSearchParams(window.location.search);
+  const isEmbed = search.get("embed") === "1";
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [startedAt] = useState(() => Date.now());
+  const [fields, setFields] = useState({ fullName: "", phone: "", email: "", website: "" });
+  const [selectedCourse, setSelectedCourse] = useState<string>(courseId || "");
+  const [consent, setConsent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: form, isLoading, isError } = useQuery<PublicLeadForm>({
+    queryKey: ["/api/public/lead-forms", schoolId, courseId],
+    queryFn: () => getPublicLeadForm(parseInt(schoolId), courseId ? parseInt(courseId) : undefined),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await submitPublicLeadForm(parseInt(schoolId), {
+        ...fields,
+        courseId: selectedCourse ? parseInt(selectedCourse) : undefined,
+        consent,
+        channel: isEmbed ? "embed" : "landing_page",
+        startedAt,
+        utmSource: search.get("utm_source") || undefined,
+        utmMedium: search.get("utm_medium") || undefined,
+        utmCampaign: search.get("utm_campaign") || undefined,
+        utmTerm: search.get("utm_term") || undefined,
+        utmContent: search.get("utm_content") || undefined,
+        referrer: search.get("referrer") || document.referrer || undefined,
+        landingPage: search.get("page") || window.location.href,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.errors?.[0]?.message || body.message || "Não foi possível enviar seus dados");
+      }
+      return body;
+    },
+    onMutate: () => setError(null),
+    onError: (err: Error) => setError(err.message),
+  });
+
+  // No embed, informa a altura ao site para redimensionar o iframe
+  useEffect(() => {
+    if (!isEmbed || !containerRef.current || window.parent === window) return;
+    const element = containerRef.current;
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: "edumatrik:lead-form:height", height: element.scrollHeight }, "*");
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isEmbed, form, submitMutation.isSuccess]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!consent) {
+      setError("É necessário aceitar o termo de consentimento");
+      return;
+    }
+    submitMutation.mutate();
+  };
+
+  const wrapperClass = isEmbed ? "p-2" : "min-h-screen flex items-center justify-center bg-neutral-50 dark:bg-neutral-900 p-4";
+
+  if (isLoading) {
+    return (
+      <div ref={containerRef} className={wrapperClass}>
+        <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+      </div>
+    );
+  }
+
+  if (isError || !form) {
+    return (
+      <div ref={containerRef} className={wrapperClass}>
+        <p className="text-center text-neutral-500">Formulário não disponível.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={wrapperClass}>
+      <Card className="w-full max-w-lg mx-auto">
+        <CardHeader className="text-center">
+          {form.school.logo && (
+            <img src={form.school.logo} alt={form.school.name} className="h-12 mx-auto mb-2 object-contain" />
+          )}
+          <CardTitle>{form.school.name}</CardTitle>
+          <CardDescription>Deixe seus dados e entraremos em contato</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submitMutation.isSuccess ? (
+            <div className="text-center space-y-3 py-6">
+              <CheckCircle2 className="h-10 w-10 text-green-500 mx-auto" />
+              <p className="text-neutral-700 dark:text-neutral-200">
+                {submitMutation.data?.message || form.successMessage}
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="fullName">Nome completo</Label>
+                <Input
+                  id="fullName"
+                  required
+                  value={fields.fullName}
+                  onChange={(e) => setFields({ ...fields, fullName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">WhatsApp</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  required
+                  placeholder="(11) 91234-5678"
+                  value={fields.phone}
+                  onChange={(e) => setFields({ ...fields, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail (opcional)</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={fields.email}
+                  onChange={(e) => setFields({ ...fields, email: e.target.value })}
+                />
+              </div>
+
+              {/* Campo armadilha para robôs, invisível para pessoas */}
+              <div aria-hidden="true" style={{ position: "absolute", left: "-10000px", width: 1, height: 1, overflow: "hidden" }}>
+                <label htmlFor="website">Site</label>
+                <input
+                  id="website"
+                  name="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={fields.website}
+                  onChange={(e) => setFields({ ...fields, website: e.target.value })}
+                />
+              </div>
+
+              {form.courses.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Curso de interesse</Label>
+                  <Select value={selectedCourse} onValueChange={setSelectedCourse} disabled={!!courseId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione um curso" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {form.courses.map((course) => (
+                        <SelectItem key={course.id} value={course.id.toString()}>
+                          {course.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="consent"
+                  checked={consent}
+                  onCheckedChange={(checked) => setConsent(checked === true)}
+                />
+                <Label htmlFor="consent" className="text-xs font-normal leading-relaxed">
+                  {form.consentText}
+                </Label>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" className="w-full" disabled={submitMutation.isPending}>
+                {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Quero saber mais
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
 import { useToast } from "@/hooks/use-toast";
+import LeadCaptureSettingsDialog from "@/components/leads/LeadCaptureSettingsDialog";
+import LeadConversionDialog from "@/components/leads/LeadConversionDialog";
+import LeadFunnelDialog from "@/components/leads/LeadFunnelDialog";
 import {
   Plus,
   Search,
@@ -21,7 +24,9 @@ import {
   MessageCircle,
   ArrowUpRight,
   Loader2,
-  Users
+  Users,
+  Code,
+  Filter
 } from "lucide-react";
 import {
   Dialog,
@@ -56,6 +61,9 @@ export default function LeadsPage() {
   const [selectedLead, setSelectedLead] = useState<any | null>(null);
   const [isStatusDialogOpen, setIsStatusDialogOpen] = useState(false);
   const [newStatus, setNewStatus] = useState("");
+  const [isCaptureDialogOpen, setIsCaptureDialogOpen] = useState(false);
+  const [isFunnelDialogOpen, setIsFunnelDialogOpen] = useState(false);
+  const [conversionLead, setConversionLead] = useState<any | null>(null);
   
   // Fetch schools data (only for admin role)
   const { data: schools } = useQuery({
@@ -136,6 +144,8 @@ export default function LeadsPage() {
     const sourceMap: Record<string, { label: string, color: string }> = {
       whatsapp: { label: "WhatsApp", color: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
       website: { label: "Website", color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+      site: { label: "Site (formulário)", color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+      landing_page: { label: "Página de captação", color: "bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400" },
       social_media: { label: "Redes Sociais", color: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400" },
       referral: { label: "Indicação", color: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400" },
       other: { label: "Outra", color: "bg-neutral-100 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-300" },
@@ -143,6 +153,13 @@ export default function LeadsPage() {
     return sourceMap[source] || sourceMap.other;
   };
   
+  // Get score badge color (0 a 100)
+  const getScoreColor = (score: number) => {
+    if (score >= 70) return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400";
+    if (score >= 40) return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400";
+    return "bg-neutral-100 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-300";
+  };
+  
   // Column definitions for leads table
   const columns: ColumnDef<any>[] = [
     {
@@ -192,6 +209,22 @@ export default function LeadsPage() {
         );
       },
     },
+    {
+      accessorKey: "score",
+      header: "Pontuação",
+      cell: ({ row }) => {
+        const score = row.original.score;
+        if (score === null || score === undefined) {
+          return <span className="text-sm text-neutral-400">—</span>;
+        }
+        
+        return (
+          <Badge variant="secondary" className={getScoreColor(score)}>
+            {score}
+          </Badge>
+        );
+      },
+    },
     {
       accessorKey: "status",
       header: "Status",
@@ -243,7 +276,11 @@ export default function LeadsPage() {
                 <MessageCircle size={14} className="mr-2" />
                 <span>Enviar mensagem</span>
               </DropdownMenuItem>
-              <DropdownMenuItem className="flex items-center cursor-pointer">
+              <DropdownMenuItem
+                className="flex items-center cursor-pointer"
+                disabled={row.original.status === "converted"}
+                onClick={() => setConversionLead(row.original)}
+              >
                 <ArrowUpRight size={14} className="mr-2" />
                 <span>Converter para matrícula</span>
               </DropdownMenuItem>
@@ -342,6 +379,18 @@ export default function LeadsPage() {
               </SelectContent>
             </Select>
           )}
+          {selectedSchoolId && (user?.role === "admin" || user?.role === "school") && (
+            <Button variant="outline" onClick={() => setIsFunnelDialogOpen(true)}>
+              <Filter className="mr-2 h-4 w-4" />
+              Funil
+            </Button>
+          )}
+          {selectedSchoolId && (user?.role === "admin" || user?.role === "school") && (
+            <Button variant="outline" onClick={() => setIsCaptureDialogOpen(true)}>
+              <Code className="mr-2 h-4 w-4" />
+              Captação
+            </Button>
+          )}
           <Button asChild>
             <Link href="/leads/new">
               <a className="flex items-center">
@@ -437,6 +486,28 @@ export default function LeadsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <LeadConversionDialog
+        lead={conversionLead}
+        open={!!conversionLead}
+        onOpenChange={(open) => !open && setConversionLead(null)}
+      />
+
+      {selectedSchoolId && (
+        <LeadCaptureSettingsDialog
+          schoolId={selectedSchoolId}
+          open={isCaptureDialogOpen}
+          onOpenChange={setIsCaptureDialogOpen}
+        />
+      )}
+
+      {selectedSchoolId && (
+        <LeadFunnelDialog
+          schoolId={selectedSchoolId}
+          open={isFunnelDialogOpen}
+          onOpenChange={setIsFunnelDialogOpen}
+        />
+      )}
     </div>
   );
 }
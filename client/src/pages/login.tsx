@@ -131,6 +131,7 @@ export default function Login() {
                       <SelectItem value="school">Escola</SelectItem>
                       <SelectItem value="attendant">Atendente</SelectItem>
                       <SelectItem value="student">Aluno</SelectItem>
+                      <SelectItem value="guardian">Responsável</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
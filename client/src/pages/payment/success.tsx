@@ -16,12 +16,11 @@ export default function PaymentSuccessPage() {
   const [paymentData, setPaymentData] = useState<any>(null);
 
   useEffect(() => {
-    // Obter parâmetros da URL (enviados pelo Stripe)
+    // Obter parâmetros da URL (payment_intent enviado pelo Stripe; payment pelos demais gateways)
     const urlParams = new URLSearchParams(window.location.search);
-    const paymentIntent = urlParams.get('payment_intent');
-    const paymentIntentClientSecret = urlParams.get('payment_intent_client_secret');
+    const paymentIntent = urlParams.get('payment_intent') || urlParams.get('payment');
     
-    if (!paymentIntent || !paymentIntentClientSecret) {
+    if (!paymentIntent) {
       setStatus('error');
       setIsLoading(false);
       return;
@@ -32,10 +31,10 @@ export default function PaymentSuccessPage() {
       try {
         setIsLoading(true);
         
-        const response = await apiRequest('GET', `/api/payments/status?payment_intent=${paymentIntent}`);
+        const response = await apiRequest('GET', `/api/payments/status?payment=${encodeURIComponent(paymentIntent)}`);
         const data = await response.json();
         
-        if (data.status === 'succeeded' || data.status === 'processing') {
+        if (data.status === 'paid' || data.status === 'processing') {
           setStatus('success');
           setPaymentData(data);
         } else {
@@ -100,12 +99,12 @@ export default function PaymentSuccessPage() {
                 </div>
                 <div className="flex justify-between mb-2">
                   <span className="text-neutral-600 dark:text-neutral-400">Valor:</span>
-                  <span className="font-medium">R$ {(paymentData.amount / 100).toFixed(2)}</span>
+                  <span className="font-medium">R$ {Number(paymentData.amount).toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-neutral-600 dark:text-neutral-400">Data:</span>
                   <span className="font-medium">
-                    {new Date(paymentData.created * 1000).toLocaleDateString('pt-BR')}
+                    {new Date(paymentData.createdAt).toLocaleDateString('pt-BR')}
                   </span>
                 </div>
               </div>
@@ -31,6 +31,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import SchoolWebhookSettings from "@/components/schools/SchoolWebhookSettings";
 import {
   ArrowLeft,
   Building,
@@ -454,6 +455,9 @@ export default function EditSchoolPage() {
           </Form>
         </CardContent>
       </Card>
+      
+      {/* Webhooks de saída da escola */}
+      {schoolId && <SchoolWebhookSettings schoolId={schoolId} />}
     </div>
   );
 }
\ No newline at end of file
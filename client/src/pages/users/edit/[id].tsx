@@ -47,7 +47,7 @@ const userEditSchema = z.object({
   fullName: z.string().min(3, {
     message: "O nome completo deve ter pelo menos 3 caracteres",
   }),
-  role: z.enum(["admin", "school", "attendant", "student"], {
+  role: z.enum(["admin", "school", "attendant", "student", "guardian"], {
     required_error: "Selecione um papel",
   }),
   phone: z.string().optional(),
@@ -321,6 +321,7 @@ export default function EditUserWithId() {
                               <SelectItem value="school">Escola</SelectItem>
                               <SelectItem value="attendant">Atendente</SelectItem>
                               <SelectItem value="student">Estudante</SelectItem>
+                              <SelectItem value="guardian">Responsável</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormDescription>
@@ -59,6 +59,7 @@ const translateRole = (role: string) => {
     school: "Escola",
     attendant: "Atendente",
     student: "Estudante",
+    guardian: "Responsável",
   };
   return translations[role] || role;
 };
@@ -191,6 +192,7 @@ export default function UsersList() {
                   <SelectItem value="school">Escolas</SelectItem>
                   <SelectItem value="attendant">Atendentes</SelectItem>
                   <SelectItem value="student">Estudantes</SelectItem>
+                  <SelectItem value="guardian">Responsáveis</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -0,0 +1,634 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getWhatsappCampaigns,
+  getWhatsappCampaignOptions,
+  getWhatsappCampaignRecipients,
+  previewWhatsappCampaignAudience,
+  saveWhatsappCampaign,
+  deleteWhatsappCampaign,
+  scheduleWhatsappCampaign,
+  changeWhatsappCampaignStatus,
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2, Pause, Pencil, Play, Plus, Trash2, Users, XCircle } from "lucide-react";
+
+type AudienceType = "leads" | "overdue_payments" | "pending_documents";
+
+const AUDIENCE_LABELS: Record<AudienceType, string> = {
+  leads: "Leads",
+  overdue_payments: "Alunos com mensalidades em atraso",
+  pending_documents: "Matrículas com documentos pendentes",
+};
+
+const AUDIENCE_VARIABLES: Record<AudienceType, string> = {
+  leads: "{{nome}}, {{nome_completo}}, {{curso}}, {{escola}}",
+  overdue_payments: "{{nome}}, {{aluno}}, {{curso}}, {{escola}}, {{valor}}, {{vencimento}}, {{parcelas}}",
+  pending_documents: "{{nome}}, {{nome_completo}}, {{curso}}, {{escola}}, {{documentos_pendentes}}",
+};
+
+const LEAD_STATUS_LABELS: Record<string, string> = {
+  new: "Novo",
+  contacted: "Contatado",
+  interested: "Interessado",
+  converted: "Convertido",
+  lost: "Perdido",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Rascunho",
+  scheduled: "Agendada",
+  sending: "Enviando",
+  paused: "Pausada",
+  completed: "Concluída",
+  canceled: "Cancelada",
+};
+
+const RECIPIENT_STATUS_LABELS: Record<string, string> = {
+  pending: "Na fila",
+  sending: "Enviando",
+  sent: "Enviada",
+  failed: "Falhou",
+  skipped: "Ignorado",
+};
+
+const SKIP_REASON_LABELS: Record<string, string> = {
+  opt_out: "Descadastrado",
+  invalid_phone: "Telefone inválido",
+  canceled: "Campanha cancelada",
+};
+
+// Valor do select de instância que deixa a escolha para o envio
+const AUTO_INSTANCE = "auto";
+const ALL_RECIPIENTS = "all";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+interface CampaignForm {
+  id?: number;
+  name: string;
+  templateId: string;
+  instanceId: string;
+  audienceType: AudienceType;
+  statuses: string[];
+  sources: string[];
+  courseIds: number[];
+  minDaysOverdue: string;
+  minDelaySeconds: string;
+  maxDelaySeconds: string;
+}
+
+const emptyForm = (): CampaignForm => ({
+  name: "",
+  templateId: "",
+  instanceId: AUTO_INSTANCE,
+  audienceType: "leads",
+  statuses: [],
+  sources: [],
+  courseIds: [],
+  minDaysOverdue: "1",
+  minDelaySeconds: "20",
+  maxDelaySeconds: "60",
+});
+
+const fromCampaign = (campaign: any): CampaignForm => ({
+  id: campaign.id,
+  name: campaign.name,
+  templateId: String(campaign.templateId),
+  instanceId: campaign.instanceId ? String(campaign.instanceId) : AUTO_INSTANCE,
+  audienceType: campaign.audience.type,
+  statuses: campaign.audience.statuses ?? [],
+  sources: campaign.audience.sources ?? [],
+  courseIds: campaign.audience.courseIds ?? [],
+  minDaysOverdue: String(campaign.audience.minDaysOverdue ?? 1),
+  minDelaySeconds: String(campaign.minDelaySeconds),
+  maxDelaySeconds: String(campaign.maxDelaySeconds),
+});
+
+const toAudience = (form: CampaignForm) => {
+  if (form.audienceType === "leads") {
+    return { type: "leads", statuses: form.statuses, sources: form.sources, courseIds: form.courseIds };
+  }
+  if (form.audienceType === "overdue_payments") {
+    return { type: "overdue_payments", minDaysOverdue: parseInt(form.minDaysOverdue) || 1, courseIds: form.courseIds };
+  }
+  return { type: "pending_documents", courseIds: form.courseIds };
+};
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "—");
+
+const percent = (value: number, total: number) => (total > 0 ? ` (${Math.round((value / total) * 100)}%)` : "");
+
+export default function WhatsAppCampaignsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  const [form, setForm] = useState<CampaignForm | null>(null);
+  const [preview, setPreview] = useState<any | null>(null);
+  const [scheduling, setScheduling] = useState<{ id: number; scheduledAt: string } | null>(null);
+  const [recipientsOf, setRecipientsOf] = useState<any | null>(null);
+  const [recipientStatus, setRecipientStatus] = useState(ALL_RECIPIENTS);
+
+  const campaignsKey = ["/api/schools", schoolId, "whatsapp-campaigns"];
+
+  const { data: campaigns, isLoading } = useQuery<any[]>({
+    queryKey: campaignsKey,
+    queryFn: () => getWhatsappCampaigns(schoolId),
+    enabled: !!schoolId,
+    // Os números mudam enquanto as mensagens saem e as confirmações chegam
+    refetchInterval: 15000,
+  });
+
+  const { data: options } = useQuery<any>({
+    queryKey: ["/api/schools", schoolId, "whatsapp-campaigns", "options"],
+    queryFn: () => getWhatsappCampaignOptions(schoolId),
+    enabled: !!schoolId,
+  });
+
+  const { data: recipients, isLoading: loadingRecipients } = useQuery<any[]>({
+    queryKey: ["/api/schools", schoolId, "whatsapp-campaigns", recipientsOf?.id, "recipients", recipientStatus],
+    queryFn: () => getWhatsappCampaignRecipients(schoolId, recipientsOf.id, recipientStatus === ALL_RECIPIENTS ? undefined : recipientStatus),
+    enabled: !!schoolId && !!recipientsOf,
+  });
+
+  const onError = (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" });
+
+  const saveMutation = useMutation({
+    mutationFn: async (campaign: CampaignForm) => readResponse(await saveWhatsappCampaign(schoolId, {
+      name: campaign.name,
+      templateId: parseInt(campaign.templateId),
+      instanceId: campaign.instanceId === AUTO_INSTANCE ? null : parseInt(campaign.instanceId),
+      audience: toAudience(campaign),
+      minDelaySeconds: parseInt(campaign.minDelaySeconds),
+      maxDelaySeconds: parseInt(campaign.maxDelaySeconds),
+    }, campaign.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: campaignsKey });
+      setForm(null);
+      setPreview(null);
+      toast({ title: "Campanha salva", description: "Agende o envio quando estiver pronta" });
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (campaign: CampaignForm) => readResponse(await previewWhatsappCampaignAudience(schoolId, toAudience(campaign))),
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (data: { id: number; scheduledAt: string }) => readResponse(await scheduleWhatsappCampaign(
+      schoolId,
+      data.id,
+      data.scheduledAt ? new Date(data.scheduledAt).toISOString() : null
+    )),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: campaignsKey });
+      setScheduling(null);
+      toast({ title: "Campanha agendada" });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "pause" | "resume" | "cancel" }) =>
+      readResponse(await changeWhatsappCampaignStatus(schoolId, id, action)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: campaignsKey }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: number) => readResponse(await deleteWhatsappCampaign(schoolId, campaignId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: campaignsKey }),
+    onError,
+  });
+
+  const openForm = (value: CampaignForm) => {
+    setPreview(null);
+    setForm(value);
+  };
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Campanhas de WhatsApp
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Mensagens em massa com templates aprovados, enviadas aos poucos por instância para evitar bloqueios.
+          Quem respondeu SAIR ou recusou o WhatsApp fica de fora; veja em{" "}
+          <Link href="/consents" className="text-primary underline">Consentimentos (LGPD)</Link>
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Campanhas</CardTitle>
+            <CardDescription>
+              Entregas, leituras e respostas são contadas pelas confirmações do WhatsApp
+            </CardDescription>
+          </div>
+          <Button onClick={() => openForm(emptyForm())}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova campanha
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !campaigns?.length ? (
+            <p className="py-6 text-center text-sm text-neutral-500">Nenhuma campanha cadastrada.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Público</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Agendada para</TableHead>
+                  <TableHead className="text-right">Enviadas</TableHead>
+                  <TableHead className="text-right">Entregues</TableHead>
+                  <TableHead className="text-right">Lidas</TableHead>
+                  <TableHead className="text-right">Respondidas</TableHead>
+                  <TableHead className="text-right">Falhas</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => {
+                  const { stats } = campaign;
+                  return (
+                    <TableRow key={campaign.id}>
+                      <TableCell>
+                        <div className="font-medium">{campaign.name}</div>
+                        <div className="text-xs text-neutral-500">{campaign.templateName}</div>
+                      </TableCell>
+                      <TableCell>{AUDIENCE_LABELS[campaign.audience.type as AudienceType]}</TableCell>
+                      <TableCell>
+                        <Badge variant={campaign.status === "sending" ? "default" : "secondary"}>
+                          {STATUS_LABELS[campaign.status]}
+                        </Badge>
+                        {campaign.lastError && (
+                          <div className="mt-1 text-xs text-red-600">{campaign.lastError}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(campaign.scheduledAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {stats.sent}/{stats.total - stats.skipped}
+                      </TableCell>
+                      <TableCell className="text-right">{stats.delivered}{percent(stats.delivered, stats.sent)}</TableCell>
+                      <TableCell className="text-right">{stats.read}{percent(stats.read, stats.sent)}</TableCell>
+                      <TableCell className="text-right">{stats.replied}{percent(stats.replied, stats.sent)}</TableCell>
+                      <TableCell className="text-right">{stats.failed}</TableCell>
+                      <TableCell className="whitespace-nowrap text-right">
+                        {["draft", "scheduled"].includes(campaign.status) && (
+                          <>
+                            <Button variant="ghost" size="icon" title="Editar" onClick={() => openForm(fromCampaign(campaign))}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" title="Agendar" onClick={() => setScheduling({ id: campaign.id, scheduledAt: "" })}>
+                              <CalendarClock className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {["scheduled", "sending"].includes(campaign.status) && (
+                          <Button variant="ghost" size="icon" title="Pausar" onClick={() => statusMutation.mutate({ id: campaign.id, action: "pause" })}>
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {campaign.status === "paused" && (
+                          <Button variant="ghost" size="icon" title="Retomar" onClick={() => statusMutation.mutate({ id: campaign.id, action: "resume" })}>
+                            <Play className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {["scheduled", "sending", "paused"].includes(campaign.status) && (
+                          <Button variant="ghost" size="icon" title="Cancelar" onClick={() => statusMutation.mutate({ id: campaign.id, action: "cancel" })}>
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {stats.total > 0 && (
+                          <Button variant="ghost" size="icon" title="Destinatários" onClick={() => { setRecipientStatus(ALL_RECIPIENTS); setRecipientsOf(campaign); }}>
+                            <Users className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {campaign.status === "draft" && (
+                          <Button variant="ghost" size="icon" title="Excluir" onClick={() => deleteMutation.mutate(campaign.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Editar campanha" : "Nova campanha"}</DialogTitle>
+            <DialogDescription>
+              Apenas templates aprovados podem ser usados. Descadastrados e telefones inválidos são ignorados
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Nome</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Template</Label>
+                  <Select value={form.templateId} onValueChange={(templateId) => setForm({ ...form, templateId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Escolha um template aprovado" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options?.templates.map((template: any) => (
+                        <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Instância</Label>
+                  <Select value={form.instanceId} onValueChange={(instanceId) => setForm({ ...form, instanceId })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_INSTANCE}>Automática</SelectItem>
+                      {options?.instances.map((instance: any) => (
+                        <SelectItem key={instance.id} value={String(instance.id)}>{instance.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {form.templateId && (
+                <p className="whitespace-pre-wrap rounded-md bg-neutral-50 p-3 text-sm text-neutral-600 dark:bg-neutral-900">
+                  {options?.templates.find((template: any) => String(template.id) === form.templateId)?.content}
+                </p>
+              )}
+
+              <div className="space-y-1">
+                <Label>Público</Label>
+                <Select value={form.audienceType} onValueChange={(audienceType) => { setPreview(null); setForm({ ...form, audienceType: audienceType as AudienceType }); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AUDIENCE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-neutral-500">Variáveis disponíveis: {AUDIENCE_VARIABLES[form.audienceType]}</p>
+              </div>
+
+              {form.audienceType === "leads" && (
+                <>
+                  <div className="space-y-1">
+                    <Label>Status do lead</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(LEAD_STATUS_LABELS).map(([value, label]) => (
+                        <Badge
+                          key={value}
+                          className="cursor-pointer"
+                          variant={form.statuses.includes(value) ? "default" : "outline"}
+                          onClick={() => setForm({ ...form, statuses: toggle(form.statuses, value) })}
+                        >
+                          {label}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {!!options?.leadSources.length && (
+                    <div className="space-y-1">
+                      <Label>Origem</Label>
+                      <div className="flex flex-wrap gap-1">
+                        {options.leadSources.map((source: string) => (
+                          <Badge
+                            key={source}
+                            className="cursor-pointer"
+                            variant={form.sources.includes(source) ? "default" : "outline"}
+                            onClick={() => setForm({ ...form, sources: toggle(form.sources, source) })}
+                          >
+                            {source}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {form.audienceType === "overdue_payments" && (
+                <div className="space-y-1">
+                  <Label>Dias de atraso (mínimo)</Label>
+                  <Input type="number" min={1} value={form.minDaysOverdue} onChange={(e) => setForm({ ...form, minDaysOverdue: e.target.value })} />
+                </div>
+              )}
+
+              {!!options?.courses.length && (
+                <div className="space-y-1">
+                  <Label>Cursos</Label>
+                  <div className="flex flex-wrap gap-1">
+                    {options.courses.map((course: any) => (
+                      <Badge
+                        key={course.id}
+                        className="cursor-pointer"
+                        variant={form.courseIds.includes(course.id) ? "default" : "outline"}
+                        onClick={() => setForm({ ...form, courseIds: toggle(form.courseIds, course.id) })}
+                      >
+                        {course.name}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-500">Sem seleção, todos os cursos e status entram no público</p>
+                </div>
+              )}
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Intervalo mínimo entre mensagens (s)</Label>
+                  <Input type="number" min={10} value={form.minDelaySeconds} onChange={(e) => setForm({ ...form, minDelaySeconds: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Intervalo máximo entre mensagens (s)</Label>
+                  <Input type="number" min={10} value={form.maxDelaySeconds} onChange={(e) => setForm({ ...form, maxDelaySeconds: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Button variant="outline" onClick={() => previewMutation.mutate(form)} disabled={previewMutation.isPending}>
+                  {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Calcular público
+                </Button>
+                {preview && (
+                  <span className="text-sm text-neutral-600">
+                    {preview.total} contatos
+                    {preview.optedOut > 0 && ` · ${preview.optedOut} descadastrados`}
+                    {preview.invalid > 0 && ` · ${preview.invalid} sem telefone válido`}
+                  </span>
+                )}
+              </div>
+              {preview?.sample.length > 0 && (
+                <p className="text-xs text-neutral-500">
+                  Ex.: {preview.sample.map((contact: any) => contact.name || contact.phone).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancelar</Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending || !form?.templateId}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!scheduling} onOpenChange={(open) => !open && setScheduling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Agendar envio</DialogTitle>
+            <DialogDescription>
+              O público é montado no horário agendado. Deixe em branco para começar agora
+            </DialogDescription>
+          </DialogHeader>
+          {scheduling && (
+            <Input
+              type="datetime-local"
+              value={scheduling.scheduledAt}
+              onChange={(e) => setScheduling({ ...scheduling, scheduledAt: e.target.value })}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduling(null)}>Cancelar</Button>
+            <Button onClick={() => scheduling && scheduleMutation.mutate(scheduling)} disabled={scheduleMutation.isPending}>
+              {scheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Agendar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recipientsOf} onOpenChange={(open) => !open && setRecipientsOf(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Destinatários — {recipientsOf?.name}</DialogTitle>
+            <DialogDescription>Situação de cada envio da campanha</DialogDescription>
+          </DialogHeader>
+          <Select value={recipientStatus} onValueChange={setRecipientStatus}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_RECIPIENTS}>Todos</SelectItem>
+              {Object.entries(RECIPIENT_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {loadingRecipients ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contato</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Enviada</TableHead>
+                  <TableHead>Lida</TableHead>
+                  <TableHead>Respondida</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recipients?.map(recipient => (
+                  <TableRow key={recipient.id}>
+                    <TableCell>
+                      <div>{recipient.name || "—"}</div>
+                      <div className="text-xs text-neutral-500">{recipient.phone}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{RECIPIENT_STATUS_LABELS[recipient.status]}</Badge>
+                      {(recipient.skipReason || recipient.error) && (
+                        <div className="mt-1 text-xs text-neutral-500">
+                          {recipient.skipReason ? SKIP_REASON_LABELS[recipient.skipReason] : recipient.error}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(recipient.sentAt)}</TableCell>
+                    <TableCell>{formatDate(recipient.readAt)}</TableCell>
+                    <TableCell>{formatDate(recipient.repliedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,532 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getInboxConversations,
+  getInboxSummary,
+  getInboxConversation,
+  markInboxConversationRead,
+  sendInboxMessage,
+  addInboxNote,
+  assignInboxConversation,
+  setInboxConversationStatus,
+  setInboxConversationTags,
+  scheduleWhatsappMessage,
+} from "@/lib/api";
+import { subscribeToSchoolEvent } from "@/lib/pusher";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2, Lock, Send, StickyNote, Tag, X } from "lucide-react";
+
+interface InboxConversation {
+  id: number;
+  schoolId: number;
+  contactName: string | null;
+  contactPhone: string | null;
+  leadId: number | null;
+  status: "open" | "pending" | "resolved";
+  assignedTo: number | null;
+  assignedName: string | null;
+  botActive: boolean;
+  tags: string[];
+  lastMessageAt: string | null;
+  lastMessagePreview: string | null;
+  unreadCount: number;
+}
+
+interface InboxMessage {
+  id: number;
+  content: string | null;
+  direction: "incoming" | "outgoing";
+  mediaType: string | null;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+interface InboxActivity {
+  id: number;
+  kind: "note" | "assignment" | "status";
+  content: string;
+  userName: string | null;
+  createdAt: string;
+}
+
+interface InboxSummary {
+  unread: { mine: number; unassigned: number };
+  tags: string[];
+  agents: { id: number; fullName: string; role: string }[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Aberta",
+  pending: "Pendente",
+  resolved: "Resolvida",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  open: "default",
+  pending: "secondary",
+  resolved: "outline",
+};
+
+const ALL = "all";
+const UNASSIGNED = "unassigned";
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString("pt-BR", {
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+}) : "";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+export default function WhatsAppInboxPage() {
+  const { user } = useAuth();
+  const schoolId = user?.schoolId || 0;
+  const [assigned, setAssigned] = useState("me");
+  const [status, setStatus] = useState("open");
+  const [tag, setTag] = useState(ALL);
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const filters = {
+    assigned: assigned === ALL ? undefined : assigned,
+    status: status === ALL ? undefined : status,
+    tag: tag === ALL ? undefined : tag,
+    search: search.trim() || undefined,
+  };
+
+  const { data: conversations, isLoading } = useQuery<InboxConversation[]>({
+    queryKey: ["/api/schools", schoolId, "inbox", "conversations", filters],
+    queryFn: () => getInboxConversations(schoolId, filters),
+    enabled: !!schoolId,
+  });
+
+  const { data: summary } = useQuery<InboxSummary>({
+    queryKey: ["/api/schools", schoolId, "inbox", "summary"],
+    queryFn: () => getInboxSummary(schoolId),
+    enabled: !!schoolId,
+  });
+
+  // Atualiza a lista e a conversa aberta a cada mudança avisada pelo servidor
+  useEffect(() => {
+    if (!schoolId) return;
+    return subscribeToSchoolEvent<{ conversationId: number }>(schoolId, "inbox-updated", (event) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schools", schoolId, "inbox"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inbox/conversations", event.conversationId] });
+    });
+  }, [schoolId]);
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Caixa de Entrada
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Conversas de WhatsApp da escola, com responsável, status, etiquetas e notas internas
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[360px_1fr] gap-4">
+        <Card className="flex flex-col">
+          <CardHeader className="space-y-3">
+            <Tabs value={assigned} onValueChange={setAssigned}>
+              <TabsList className="w-full">
+                <TabsTrigger value="me" className="flex-1">
+                  Minhas
+                  {!!summary?.unread.mine && <Badge className="ml-2">{summary.unread.mine}</Badge>}
+                </TabsTrigger>
+                <TabsTrigger value={UNASSIGNED} className="flex-1">
+                  Na fila
+                  {!!summary?.unread.unassigned && <Badge className="ml-2">{summary.unread.unassigned}</Badge>}
+                </TabsTrigger>
+                <TabsTrigger value={ALL} className="flex-1">Todas</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos os status</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={tag} onValueChange={setTag}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas as etiquetas</SelectItem>
+                  {(summary?.tags || []).map(item => (
+                    <SelectItem key={item} value={item}>{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              placeholder="Buscar por nome ou telefone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto max-h-[65vh] p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : !conversations?.length ? (
+              <p className="py-8 text-center text-sm text-neutral-500">Nenhuma conversa encontrada.</p>
+            ) : (
+              conversations.map(conversation => (
+                <button
+                  key={conversation.id}
+                  type="button"
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={`w-full border-b px-4 py-3 text-left hover:bg-neutral-50 dark:hover:bg-neutral-800 ${
+                    selectedId === conversation.id ? "bg-neutral-100 dark:bg-neutral-800" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      {conversation.contactName || conversation.contactPhone}
+                    </span>
+                    <span className="text-xs text-neutral-500 shrink-0">{formatTime(conversation.lastMessageAt)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <span className="text-sm text-neutral-500 truncate">{conversation.lastMessagePreview || "—"}</span>
+                    {conversation.unreadCount > 0 && <Badge>{conversation.unreadCount}</Badge>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 mt-2">
+                    <Badge variant={STATUS_VARIANTS[conversation.status]}>{STATUS_LABELS[conversation.status]}</Badge>
+                    {conversation.botActive && <Badge variant="secondary">Chatbot</Badge>}
+                    <span className="text-xs text-neutral-500">{conversation.assignedName || "Sem responsável"}</span>
+                    {conversation.tags.map(item => (
+                      <Badge key={item} variant="outline" className="text-xs">{item}</Badge>
+                    ))}
+                  </div>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedId ? (
+          <ConversationPanel
+            conversationId={selectedId}
+            agents={summary?.agents || []}
+            currentUserId={user!.id}
+            currentRole={user!.role}
+          />
+        ) : (
+          <Card className="flex items-center justify-center min-h-[400px]">
+            <p className="text-neutral-500">Selecione uma conversa</p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ConversationPanelProps {
+  conversationId: number;
+  agents: InboxSummary["agents"];
+  currentUserId: number;
+  currentRole: string;
+}
+
+function ConversationPanel({ conversationId, agents, currentUserId, currentRole }: ConversationPanelProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"reply" | "note" | "schedule">("reply");
+  const [text, setText] = useState("");
+  const [sendAt, setSendAt] = useState("");
+  const [newTag, setNewTag] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading } = useQuery<{ conversation: InboxConversation; messages: InboxMessage[]; activities: InboxActivity[] }>({
+    queryKey: ["/api/inbox/conversations", conversationId],
+    queryFn: () => getInboxConversation(conversationId),
+  });
+
+  const conversation = data?.conversation;
+
+  // Mensagens e notas intercaladas em ordem cronológica
+  const timeline = useMemo(() => {
+    if (!data) return [];
+    return [
+      ...data.messages.map(message => ({ type: "message" as const, createdAt: message.createdAt, message })),
+      ...data.activities.map(activity => ({ type: "activity" as const, createdAt: activity.createdAt, activity })),
+    ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }, [data]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inbox/conversations", conversationId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schools", conversation?.schoolId, "inbox"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Erro", description: error.message, variant: "destructive" });
+    invalidate();
+  };
+
+  // Abrir a conversa zera as não lidas do usuário
+  useEffect(() => {
+    if (conversation && conversation.unreadCount > 0) {
+      markInboxConversationRead(conversationId).then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/schools", conversation.schoolId, "inbox"] });
+      });
+    }
+  }, [conversationId, conversation?.unreadCount]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [timeline.length]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => readResponse(mode === "reply"
+      ? await sendInboxMessage(conversationId, text.trim())
+      : mode === "note"
+        ? await addInboxNote(conversationId, text.trim())
+        : await scheduleWhatsappMessage(conversation!.schoolId, {
+          conversationId,
+          content: text.trim(),
+          sendAt: new Date(sendAt).toISOString(),
+        })),
+    onSuccess: () => {
+      if (mode === "schedule") {
+        toast({ title: "Mensagem agendada", description: new Date(sendAt).toLocaleString("pt-BR") });
+        setSendAt("");
+      }
+      setText("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (userId: number | null) => readResponse(await assignInboxConversation(conversationId, userId)),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (value: string) => readResponse(await setInboxConversationStatus(conversationId, value)),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const tagsMutation = useMutation({
+    mutationFn: async (tags: string[]) => readResponse(await setInboxConversationTags(conversationId, tags)),
+    onSuccess: () => {
+      setNewTag("");
+      invalidate();
+    },
+    onError,
+  });
+
+  if (isLoading || !conversation) {
+    return (
+      <Card className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </Card>
+    );
+  }
+
+  const isAttendant = currentRole === "attendant";
+  const assignedToOther = isAttendant && conversation.assignedTo !== null && conversation.assignedTo !== currentUserId;
+  // Atendente só assume da fila para si ou transfere as próprias conversas
+  const assignableAgents = isAttendant && conversation.assignedTo === null
+    ? agents.filter(agent => agent.id === currentUserId)
+    : agents;
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-3 border-b">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle>{conversation.contactName || conversation.contactPhone}</CardTitle>
+            <p className="text-sm text-neutral-500">{conversation.contactPhone}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={conversation.assignedTo ? String(conversation.assignedTo) : UNASSIGNED}
+              onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : parseInt(value))}
+              disabled={assignedToOther || assignMutation.isPending}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+                {conversation.assignedTo && !assignableAgents.some(agent => agent.id === conversation.assignedTo) && (
+                  <SelectItem value={String(conversation.assignedTo)}>{conversation.assignedName}</SelectItem>
+                )}
+                {assignableAgents.map(agent => (
+                  <SelectItem key={agent.id} value={String(agent.id)}>{agent.fullName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={conversation.status}
+              onValueChange={(value) => statusMutation.mutate(value)}
+              disabled={assignedToOther || statusMutation.isPending}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tag className="h-4 w-4 text-neutral-500" />
+          {conversation.tags.map(item => (
+            <Badge key={item} variant="outline" className="gap-1">
+              {item}
+              <button
+                type="button"
+                onClick={() => tagsMutation.mutate(conversation.tags.filter(current => current !== item))}
+                aria-label={`Remover etiqueta ${item}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <form
+            className="flex"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newTag.trim()) tagsMutation.mutate([...conversation.tags, newTag.trim()]);
+            }}
+          >
+            <Input
+              className="h-7 w-36 text-xs"
+              placeholder="Nova etiqueta"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+            />
+          </form>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-y-auto max-h-[50vh] space-y-3 py-4">
+        {timeline.map(item => item.type === "message" ? (
+          <div
+            key={`m-${item.message.id}`}
+            className={`flex ${item.message.direction === "outgoing" ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                item.message.direction === "outgoing"
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-neutral-100 dark:bg-neutral-800"
+              }`}
+            >
+              <div className="whitespace-pre-wrap">
+                {item.message.content || (item.message.mediaType ? `[${item.message.mediaType}]` : "")}
+              </div>
+              <div className="mt-1 text-[10px] opacity-70">
+                {item.message.sentBy ? `${item.message.sentBy} · ` : ""}{formatTime(item.message.createdAt)}
+              </div>
+            </div>
+          </div>
+        ) : item.activity.kind === "note" ? (
+          <div key={`a-${item.activity.id}`} className="mx-auto max-w-[85%] rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm dark:border-amber-900 dark:bg-amber-950">
+            <div className="flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-300">
+              <Lock className="h-3 w-3" />
+              Nota interna · {item.activity.userName || "Equipe"} · {formatTime(item.activity.createdAt)}
+            </div>
+            <div className="mt-1 whitespace-pre-wrap">{item.activity.content}</div>
+          </div>
+        ) : (
+          <p key={`a-${item.activity.id}`} className="text-center text-xs text-neutral-500">
+            {item.activity.content} · {formatTime(item.activity.createdAt)}
+          </p>
+        ))}
+        <div ref={bottomRef} />
+      </CardContent>
+
+      <div className="border-t p-4 space-y-2">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "reply" | "note" | "schedule")}>
+          <TabsList>
+            <TabsTrigger value="reply">Responder</TabsTrigger>
+            <TabsTrigger value="note">Nota interna</TabsTrigger>
+            <TabsTrigger value="schedule">Agendar</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {mode === "schedule" && (
+          <Input
+            type="datetime-local"
+            className="w-60"
+            value={sendAt}
+            onChange={(e) => setSendAt(e.target.value)}
+          />
+        )}
+        {mode !== "note" && assignedToOther ? (
+          <p className="text-sm text-neutral-500">
+            Conversa atribuída a {conversation.assignedName}. Use uma nota interna para falar com a equipe.
+          </p>
+        ) : (
+          <div className="flex gap-2">
+            <Textarea
+              rows={2}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={mode === "note" ? "Visível apenas para a equipe" : "Mensagem para o contato"}
+              className={mode === "note" ? "bg-amber-50 dark:bg-amber-950" : ""}
+            />
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={!text.trim() || (mode === "schedule" && !sendAt) || submitMutation.isPending}
+            >
+              {submitMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : mode === "reply" ? (
+                <Send className="h-4 w-4" />
+              ) : mode === "schedule" ? (
+                <CalendarClock className="h-4 w-4" />
+              ) : (
+                <StickyNote className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,562 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getScheduledWhatsappMessages,
+  getScheduledWhatsappOptions,
+  scheduleWhatsappMessage,
+  cancelScheduledWhatsappMessage,
+  getWhatsappReminderRules,
+  saveWhatsappReminderRule,
+  deleteWhatsappReminderRule,
+} from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2, XCircle } from "lucide-react";
+
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: "Agendada",
+  sending: "Enviando",
+  sent: "Enviada",
+  failed: "Falhou",
+  canceled: "Cancelada",
+};
+
+const TRIGGER_LABELS: Record<string, string> = {
+  tuition_due: "Vencimento da mensalidade",
+  class_start: "Início das aulas",
+};
+
+const TRIGGER_VARIABLES: Record<string, string> = {
+  tuition_due: "{{nome}}, {{aluno}}, {{curso}}, {{escola}}, {{valor}}, {{vencimento}}",
+  class_start: "{{nome}}, {{nome_completo}}, {{curso}}, {{escola}}, {{data_inicio}}",
+};
+
+// Valor dos selects que deixa a escolha para o envio ou não filtra
+const AUTO = "auto";
+const ALL = "all";
+// Valor do select de template que envia o texto digitado
+const FREE_TEXT = "text";
+
+// Lê a resposta de apiRequest, que não lança em erro HTTP
+const readResponse = async (res: Response) => {
+  const body = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body?.errors?.[0]?.message || body?.message || "Erro ao salvar");
+  }
+  return body;
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "—");
+
+interface MessageForm {
+  phone: string;
+  contactName: string;
+  templateId: string;
+  content: string;
+  sendAt: string;
+  instanceId: string;
+}
+
+const emptyMessage = (): MessageForm => ({
+  phone: "",
+  contactName: "",
+  templateId: FREE_TEXT,
+  content: "",
+  sendAt: "",
+  instanceId: AUTO,
+});
+
+interface RuleForm {
+  id?: number;
+  name: string;
+  trigger: string;
+  templateId: string;
+  daysBefore: string;
+  sendTime: string;
+  courseId: string;
+  instanceId: string;
+  active: boolean;
+}
+
+const emptyRule = (): RuleForm => ({
+  name: "",
+  trigger: "tuition_due",
+  templateId: "",
+  daysBefore: "3",
+  sendTime: "09:00",
+  courseId: ALL,
+  instanceId: AUTO,
+  active: true,
+});
+
+const fromRule = (rule: any): RuleForm => ({
+  id: rule.id,
+  name: rule.name,
+  trigger: rule.trigger,
+  templateId: String(rule.templateId),
+  daysBefore: String(rule.daysBefore),
+  sendTime: rule.sendTime,
+  courseId: rule.courseId ? String(rule.courseId) : ALL,
+  instanceId: rule.instanceId ? String(rule.instanceId) : AUTO,
+  active: rule.active,
+});
+
+export default function WhatsAppScheduledPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const schoolId = user?.schoolId || 0;
+  // Lembretes recorrentes são configurados pela escola; atendentes só agendam mensagens
+  const canManageRules = user?.role === "school" || user?.role === "admin";
+  const [status, setStatus] = useState("scheduled");
+  const [message, setMessage] = useState<MessageForm | null>(null);
+  const [rule, setRule] = useState<RuleForm | null>(null);
+
+  const messagesKey = ["/api/schools", schoolId, "whatsapp", "scheduled-messages"];
+  const rulesKey = ["/api/schools", schoolId, "whatsapp", "reminder-rules"];
+
+  const { data: messages, isLoading } = useQuery<any[]>({
+    queryKey: [...messagesKey, status],
+    queryFn: () => getScheduledWhatsappMessages(schoolId, { status: status === ALL ? undefined : status }),
+    enabled: !!schoolId,
+    refetchInterval: 30000,
+  });
+
+  const { data: rules, isLoading: loadingRules } = useQuery<any[]>({
+    queryKey: rulesKey,
+    queryFn: () => getWhatsappReminderRules(schoolId),
+    enabled: !!schoolId && canManageRules,
+  });
+
+  const { data: options } = useQuery<any>({
+    queryKey: ["/api/schools", schoolId, "whatsapp", "scheduled-options"],
+    queryFn: () => getScheduledWhatsappOptions(schoolId),
+    enabled: !!schoolId,
+  });
+
+  const onError = (error: Error) => toast({ title: "Erro", description: error.message, variant: "destructive" });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (form: MessageForm) => readResponse(await scheduleWhatsappMessage(schoolId, {
+      phone: form.phone,
+      contactName: form.contactName || null,
+      templateId: form.templateId === FREE_TEXT ? null : parseInt(form.templateId),
+      content: form.templateId === FREE_TEXT ? form.content : null,
+      sendAt: new Date(form.sendAt).toISOString(),
+      instanceId: form.instanceId === AUTO ? null : parseInt(form.instanceId),
+    })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      setMessage(null);
+      toast({ title: "Mensagem agendada" });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (messageId: number) => readResponse(await cancelScheduledWhatsappMessage(schoolId, messageId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: messagesKey }),
+    onError,
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (form: RuleForm) => readResponse(await saveWhatsappReminderRule(schoolId, {
+      name: form.name,
+      trigger: form.trigger,
+      templateId: parseInt(form.templateId),
+      daysBefore: parseInt(form.daysBefore),
+      sendTime: form.sendTime,
+      courseId: form.courseId === ALL ? null : parseInt(form.courseId),
+      instanceId: form.instanceId === AUTO ? null : parseInt(form.instanceId),
+      active: form.active,
+    }, form.id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      setRule(null);
+      toast({ title: "Lembrete salvo", description: "Os envios são gerados em alguns minutos" });
+    },
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: number) => readResponse(await deleteWhatsappReminderRule(schoolId, ruleId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    },
+    onError,
+  });
+
+  if (!schoolId) {
+    return (
+      <div className="text-neutral-500">Disponível apenas para usuários vinculados a uma escola.</div>
+    );
+  }
+
+  const messagesCard = (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Mensagens agendadas</CardTitle>
+          <CardDescription>
+            Envios pendentes são cancelados quando a mensalidade é paga, a matrícula é cancelada ou o contato pede
+            para sair
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas</SelectItem>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setMessage(emptyMessage())}>
+            <Plus className="mr-2 h-4 w-4" />
+            Agendar mensagem
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !messages?.length ? (
+          <p className="py-6 text-center text-sm text-neutral-500">Nenhuma mensagem encontrada.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contato</TableHead>
+                <TableHead>Mensagem</TableHead>
+                <TableHead>Origem</TableHead>
+                <TableHead>Envio</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.contactName || item.phone}</div>
+                    {item.contactName && <div className="text-xs text-neutral-500">{item.phone}</div>}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="truncate">{item.content || item.templateName || "—"}</div>
+                  </TableCell>
+                  <TableCell>{item.ruleName || item.createdByName || "—"}</TableCell>
+                  <TableCell>{formatDate(item.status === "sent" ? item.sentAt : item.sendAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={item.status === "failed" ? "destructive" : item.status === "scheduled" ? "default" : "secondary"}>
+                      {STATUS_LABELS[item.status] || item.status}
+                    </Badge>
+                    {(item.cancelReason || item.error) && (
+                      <div className="mt-1 text-xs text-neutral-500">{item.cancelReason || item.error}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {item.status === "scheduled" && (
+                      <Button variant="ghost" size="icon" title="Cancelar" onClick={() => cancelMutation.mutate(item.id)}>
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-display font-bold text-neutral-800 dark:text-neutral-100">
+          Mensagens Agendadas
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Agende mensagens de WhatsApp para uma data e hora e configure lembretes recorrentes de mensalidade e de
+          início das aulas
+        </p>
+      </div>
+
+      {canManageRules ? (
+        <Tabs defaultValue="messages">
+          <TabsList>
+            <TabsTrigger value="messages">Agendadas</TabsTrigger>
+            <TabsTrigger value="rules">Lembretes recorrentes</TabsTrigger>
+          </TabsList>
+          <TabsContent value="messages">{messagesCard}</TabsContent>
+          <TabsContent value="rules">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>Lembretes recorrentes</CardTitle>
+                  <CardDescription>
+                    Cada cobrança ou matrícula recebe um envio, no horário escolhido, alguns dias antes da data
+                  </CardDescription>
+                </div>
+                <Button onClick={() => setRule(emptyRule())}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Novo lembrete
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {loadingRules ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : !rules?.length ? (
+                  <p className="py-6 text-center text-sm text-neutral-500">Nenhum lembrete cadastrado.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nome</TableHead>
+                        <TableHead>Quando</TableHead>
+                        <TableHead>Curso</TableHead>
+                        <TableHead>Situação</TableHead>
+                        <TableHead className="text-right">Na fila</TableHead>
+                        <TableHead className="text-right">Enviados</TableHead>
+                        <TableHead className="text-right">Cancelados</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map(item => (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="font-medium">{item.name}</div>
+                            <div className="text-xs text-neutral-500">{item.templateName}</div>
+                          </TableCell>
+                          <TableCell>
+                            {TRIGGER_LABELS[item.trigger]}: {item.daysBefore} dia(s) antes, às {item.sendTime}
+                          </TableCell>
+                          <TableCell>{item.courseName || "Todos"}</TableCell>
+                          <TableCell>
+                            <Badge variant={item.active ? "default" : "secondary"}>{item.active ? "Ativo" : "Inativo"}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{item.pending}</TableCell>
+                          <TableCell className="text-right">{item.sent}</TableCell>
+                          <TableCell className="text-right">{item.canceled}</TableCell>
+                          <TableCell className="whitespace-nowrap text-right">
+                            <Button variant="ghost" size="icon" title="Editar" onClick={() => setRule(fromRule(item))}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" title="Excluir" onClick={() => deleteRuleMutation.mutate(item.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      ) : messagesCard}
+
+      <Dialog open={!!message} onOpenChange={(open) => !open && setMessage(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Agendar mensagem</DialogTitle>
+            <DialogDescription>
+              Use um template aprovado ou escreva o texto. {"{{nome}}"} é trocado pelo primeiro nome do contato
+            </DialogDescription>
+          </DialogHeader>
+          {message && (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Telefone</Label>
+                  <Input value={message.phone} onChange={(e) => setMessage({ ...message, phone: e.target.value })} placeholder="(11) 91234-5678" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Nome</Label>
+                  <Input value={message.contactName} onChange={(e) => setMessage({ ...message, contactName: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Enviar em</Label>
+                  <Input type="datetime-local" value={message.sendAt} onChange={(e) => setMessage({ ...message, sendAt: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Instância</Label>
+                  <Select value={message.instanceId} onValueChange={(instanceId) => setMessage({ ...message, instanceId })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Automática</SelectItem>
+                      {options?.instances.map((instance: any) => (
+                        <SelectItem key={instance.id} value={String(instance.id)}>{instance.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Template</Label>
+                <Select value={message.templateId} onValueChange={(templateId) => setMessage({ ...message, templateId })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FREE_TEXT}>Texto livre</SelectItem>
+                    {options?.templates.map((template: any) => (
+                      <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {message.templateId === FREE_TEXT && (
+                <div className="space-y-1">
+                  <Label>Mensagem</Label>
+                  <Textarea rows={4} value={message.content} onChange={(e) => setMessage({ ...message, content: e.target.value })} />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMessage(null)}>Cancelar</Button>
+            <Button
+              onClick={() => message && scheduleMutation.mutate(message)}
+              disabled={!message?.phone || !message?.sendAt || (message.templateId === FREE_TEXT && !message.content.trim()) || scheduleMutation.isPending}
+            >
+              Agendar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rule} onOpenChange={(open) => !open && setRule(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{rule?.id ? "Editar lembrete" : "Novo lembrete"}</DialogTitle>
+            <DialogDescription>
+              {rule && `Variáveis disponíveis: ${TRIGGER_VARIABLES[rule.trigger]}`}
+            </DialogDescription>
+          </DialogHeader>
+          {rule && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Nome</Label>
+                <Input value={rule.name} onChange={(e) => setRule({ ...rule, name: e.target.value })} placeholder="Lembrete de mensalidade" />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Data de referência</Label>
+                  <Select value={rule.trigger} onValueChange={(trigger) => setRule({ ...rule, trigger })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Template</Label>
+                  <Select value={rule.templateId} onValueChange={(templateId) => setRule({ ...rule, templateId })}>
+                    <SelectTrigger><SelectValue placeholder="Escolha um template aprovado" /></SelectTrigger>
+                    <SelectContent>
+                      {options?.templates.map((template: any) => (
+                        <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Dias antes</Label>
+                  <Input type="number" min={0} max={60} value={rule.daysBefore} onChange={(e) => setRule({ ...rule, daysBefore: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Horário</Label>
+                  <Input type="time" value={rule.sendTime} onChange={(e) => setRule({ ...rule, sendTime: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Curso</Label>
+                  <Select value={rule.courseId} onValueChange={(courseId) => setRule({ ...rule, courseId })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Todos</SelectItem>
+                      {options?.courses.map((course: any) => (
+                        <SelectItem key={course.id} value={String(course.id)}>{course.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Instância</Label>
+                  <Select value={rule.instanceId} onValueChange={(instanceId) => setRule({ ...rule, instanceId })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Automática</SelectItem>
+                      {options?.instances.map((instance: any) => (
+                        <SelectItem key={instance.id} value={String(instance.id)}>{instance.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={rule.active} onCheckedChange={(active) => setRule({ ...rule, active })} />
+                <Label>Ativo</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRule(null)}>Cancelar</Button>
+            <Button
+              onClick={() => rule && saveRuleMutation.mutate(rule)}
+              disabled={!rule?.name || !rule?.templateId || saveRuleMutation.isPending}
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
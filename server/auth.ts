@@ -19,7 +19,7 @@ declare global {
       email: string;
       password: string;
       fullName: string;
-      role: "admin" | "school" | "attendant" | "student";
+      role: "admin" | "school" | "attendant" | "student" | "guardian";
       phone: string | null;
       schoolId: number | null;
       profileImage: string | null;
@@ -27,6 +27,11 @@ declare global {
       createdAt: Date;
       updatedAt: Date;
     }
+
+    interface Request {
+      // Corpo original da requisição, para verificar assinaturas de webhooks
+      rawBody?: Buffer;
+    }
   }
 }
 
@@ -141,6 +146,13 @@ export async function setupAuth(app: Express) {
         });
       }
 
+      // Responsáveis entram somente pelo convite da escola
+      if (req.body.role === "guardian") {
+        return res.status(403).json({ 
+          message: "Contas de responsável são criadas pelo convite enviado pela escola" 
+        });
+      }
+
       // Hash the password before storing
       const hashedPassword = await hashPassword(req.body.password);
 
@@ -30,6 +30,25 @@ export const db = {
     }
   },
   
+  // Executa instruções em uma única conexão dentro de BEGIN/COMMIT.
+  // Diferente de execute, os erros desfazem a transação e são repassados
+  transaction: async <T>(work: (tx: { execute: (sqlQuery: string, params?: any[]) => Promise<any[]> }) => Promise<T>): Promise<T> => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work({
+        execute: async (sqlQuery: string, params: any[] = []) => (await client.query(sqlQuery, params)).rows,
+      });
+      await client.query('COMMIT');
+      return result;
+    } catch (e) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw e;
+    } finally {
+      client.release();
+    }
+  },
+
   // Funções de compatibilidade com a API Drizzle existente no código
   select: (...args: any[]) => ({
     from: (table: any) => ({
@@ -4,7 +4,18 @@ if (!process.env.RESEND_API_KEY) {
   console.warn('RESEND_API_KEY não está definido. O envio de e-mails não funcionará.');
 }
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+let resend: Resend | null = null;
+
+/**
+ * Cliente do Resend, criado no primeiro envio: o construtor falha sem
+ * RESEND_API_KEY e o módulo precisa continuar importável sem a chave
+ */
+function getResendClient(): Resend {
+  if (!resend) {
+    resend = new Resend(process.env.RESEND_API_KEY);
+  }
+  return resend;
+}
 
 interface EmailOptions {
   to: string;
@@ -31,7 +42,7 @@ export const emailService = {
       console.log('- Para:', to);
       console.log('- Assunto:', subject);
       
-      const data = await resend.emails.send({
+      const data = await getResendClient().emails.send({
         from,
         to,
         subject,
@@ -11,7 +11,30 @@ import { securityService } from './services/securityService';
 import { mlService } from './services/mlService';
 import { analyticsService } from './services/analyticsService';
 import { paymentProcessor } from './services/paymentProcessor';
+import { paymentWebhookService } from './services/paymentWebhookService';
 import { advancedOcrService } from './services/advancedOcr';
+import { enrollmentWorkflowService } from './services/enrollmentWorkflowService';
+import { courseSeatService } from './services/courseSeatService';
+import { enrollmentFormService } from './services/enrollmentFormService';
+import { guardianService } from './services/guardianService';
+import { contractService } from './services/contractService';
+import { tuitionBillingService } from './services/tuitionBillingService';
+import { discountService } from './services/discountService';
+import { bankReconciliationService } from './services/bankReconciliationService';
+import { syncSchedulerService } from './services/syncSchedulerService';
+import { legacyExportService } from './services/legacyExportService';
+import { domainEventService } from './services/domainEventService';
+import { schoolWebhookService } from './services/schoolWebhookService';
+import { apiKeyService } from './services/apiKeyService';
+import { leadCaptureService } from './services/leadCaptureService';
+import { leadAutomationService } from './services/leadAutomationService';
+import { leadConversionService } from './services/leadConversionService';
+import { whatsappInboxService } from './services/whatsappInboxService';
+import { chatbotFlowService } from './services/chatbotFlowService';
+import { consentService } from './services/consentService';
+import { whatsappCampaignService } from './services/whatsappCampaignService';
+import { whatsappScheduledMessageService } from './services/whatsappScheduledMessageService';
+import { whatsappDocumentIntakeService } from './services/whatsappDocumentIntakeService';
 import { initializeMonitoring } from './routes.monitoring.init';
 
 // Importar serviços de otimização de performance
@@ -38,7 +61,13 @@ app.use(compression({
   // Comprimir imediatamente, sem pausa para o primeiro chunk
   flush: zlib.constants.Z_SYNC_FLUSH
 }));
-app.use(express.json({ limit: '50mb' }));
+app.use(express.json({
+  limit: '50mb',
+  // Guarda o corpo original para verificar assinaturas de webhooks de pagamento
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
 app.use((req, res, next) => {
@@ -110,6 +139,127 @@ app.use('/uploads', express.static(uploadsDir));
         console.error('Erro ao inicializar processador de pagamentos:', err);
       }),
       
+      // Inicializar registro de webhooks de pagamento
+      paymentWebhookService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar webhooks de pagamento:', err);
+      }),
+      
+      // Inicializar fluxo de matrículas
+      enrollmentWorkflowService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar fluxo de matrículas:', err);
+      }),
+      
+      // Inicializar controle de vagas e lista de espera
+      courseSeatService.ensureTables()
+        .then(() => courseSeatService.startExpirationWatcher())
+        .catch(err => {
+          console.error('Erro ao inicializar controle de vagas:', err);
+        }),
+      
+      // Inicializar formulários de matrícula
+      enrollmentFormService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar formulários de matrícula:', err);
+      }),
+      
+      // Inicializar responsáveis e vínculos com alunos
+      guardianService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar responsáveis:', err);
+      }),
+      
+      // Inicializar contratos de matrícula
+      contractService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar contratos de matrícula:', err);
+      }),
+      
+      // Inicializar planos de mensalidade e rotina de cobranças
+      tuitionBillingService.ensureTables()
+        .then(() => tuitionBillingService.startBillingScheduler())
+        .catch(err => {
+          console.error('Erro ao inicializar planos de mensalidade:', err);
+        }),
+      
+      // Inicializar descontos, bolsas e cupons
+      discountService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar descontos:', err);
+      }),
+      
+      // Inicializar conciliação bancária
+      bankReconciliationService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar conciliação bancária:', err);
+      }),
+      
+      // Inicializar agendador de sincronizações de integrações
+      syncSchedulerService.ensureTables()
+        .then(() => syncSchedulerService.start())
+        .catch(err => {
+          console.error('Erro ao inicializar agendador de sincronizações:', err);
+        }),
+      
+      // Inicializar outbox de eventos de domínio, assinantes das integrações,
+      // webhooks das escolas e mensagens agendadas do WhatsApp
+      domainEventService.ensureTables()
+        .then(() => schoolWebhookService.ensureTables())
+        .then(() => leadAutomationService.ensureTables())
+        .then(() => leadConversionService.ensureTables())
+        .then(() => whatsappScheduledMessageService.ensureTables())
+        .then(() => {
+          syncSchedulerService.registerEventSubscribers();
+          schoolWebhookService.registerEventSubscribers();
+          leadAutomationService.registerEventSubscribers();
+          leadConversionService.registerEventSubscribers();
+          whatsappScheduledMessageService.registerEventSubscribers();
+          domainEventService.start();
+          schoolWebhookService.start();
+          leadAutomationService.start();
+          leadConversionService.start();
+          whatsappScheduledMessageService.start();
+        })
+        .catch(err => {
+          console.error('Erro ao inicializar eventos de domínio:', err);
+        }),
+      
+      // Inicializar chaves da API pública
+      apiKeyService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar chaves de API:', err);
+      }),
+      
+      // Inicializar captação de leads
+      leadCaptureService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar captação de leads:', err);
+      }),
+      
+      // Inicializar caixa de entrada do WhatsApp
+      whatsappInboxService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar caixa de entrada do WhatsApp:', err);
+      }),
+      
+      // Inicializar fluxos do chatbot no WhatsApp
+      chatbotFlowService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar fluxos do chatbot:', err);
+      }),
+      
+      // Inicializar recebimento de documentos pelo WhatsApp
+      whatsappDocumentIntakeService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar recebimento de documentos pelo WhatsApp:', err);
+      }),
+      
+      // Inicializar registro de consentimento (LGPD) e importar descadastros das campanhas
+      consentService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar registro de consentimento:', err);
+      }),
+      
+      // Inicializar campanhas de WhatsApp e o envio agendado
+      whatsappCampaignService.ensureTables()
+        .then(() => whatsappCampaignService.start())
+        .catch(err => {
+          console.error('Erro ao inicializar campanhas de WhatsApp:', err);
+        }),
+      
+      // Inicializar exportação para sistemas legados
+      legacyExportService.ensureTables().catch(err => {
+        console.error('Erro ao inicializar exportação para sistemas legados:', err);
+      }),
+      
       // Inicializar serviço de analytics
       analyticsService.initialize().catch(err => {
         console.error('Erro ao inicializar serviço de analytics:', err);
@@ -126,6 +276,8 @@ app.use('/uploads', express.static(uploadsDir));
           try {
             await initializeQueueService();
             setupDefaultProcessors();
+            paymentWebhookService.registerQueueProcessor();
+            syncSchedulerService.registerQueueProcessors();
             console.log('Sistema de filas inicializado com sucesso');
           } catch (err) {
             console.warn('Sistema de filas desabilitado:', err.message);
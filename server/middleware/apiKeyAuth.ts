@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyContext, ApiScope, apiKeyService } from '../services/apiKeyService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyContext;
+    }
+  }
+}
+
+/**
+ * Extrai a chave do cabeçalho Authorization (Bearer) ou X-Api-Key
+ */
+function readApiKey(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice(7).trim();
+  }
+
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' ? header.trim() : null;
+}
+
+/**
+ * Middleware para autenticar requisições da API pública por chave de API,
+ * aplicando o limite de requisições por minuto da chave e registrando o uso
+ */
+export const requireApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const context = await apiKeyService.authenticate(readApiKey(req) || '');
+    if (!context) {
+      return res.status(401).json({ message: "Unauthorized - Chave de API ausente, inválida, expirada ou revogada" });
+    }
+
+    req.apiKey = context;
+
+    // Uso contabilizado pela rota declarada, após a resposta
+    res.on('finish', () => {
+      const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.baseUrl;
+      apiKeyService.recordUsage(context.keyId, req.method, route, res.statusCode).catch(error => {
+        console.error('Erro ao registrar uso da chave de API:', error);
+      });
+    });
+
+    const rateLimit = await apiKeyService.consumeRateLimit(context);
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimit.resetAt.getTime() / 1000));
+
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', Math.max(Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000), 1));
+      return res.status(429).json({ message: "Too Many Requests - Limite de requisições por minuto excedido" });
+    }
+
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * Middleware para verificar se a chave de API possui o escopo informado
+ */
+export const requireScope = (scope: ApiScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && req.apiKey.scopes.includes(scope)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: `Forbidden - A chave de API não possui o escopo ${scope}` });
+  };
+};
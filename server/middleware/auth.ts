@@ -59,4 +59,32 @@ export const hasRole = (roles: string[]) => {
     
     return res.status(403).json({ message: "Forbidden - Você não tem permissão para acessar este recurso" });
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Verifica se o usuário administra a escola: administrador ou a própria escola
+ */
+export const canManageSchool = (user: Express.User | undefined, schoolId: number): boolean => {
+  if (!user) return false;
+  return user.role === 'admin' || (user.role === 'school' && user.schoolId === schoolId);
+};
+
+/**
+ * Middleware para rotas de escola (:schoolId ou :id) restritas a quem administra a escola
+ */
+export const requireSchoolManager = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Não autorizado' });
+  }
+
+  const schoolId = parseInt(req.params.schoolId ?? req.params.id);
+  if (isNaN(schoolId)) {
+    return res.status(400).json({ message: 'ID de escola inválido' });
+  }
+
+  if (canManageSchool(req.user, schoolId)) {
+    return next();
+  }
+
+  return res.status(403).json({ message: 'Acesso negado' });
+};
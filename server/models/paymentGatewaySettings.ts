@@ -1,5 +1,8 @@
 /**
  * Modelo de dados para configurações de gateways de pagamento
+ *
+ * Configurações com school_id nulo são globais (conta da plataforma) e
+ * valem para todas as escolas que não têm uma conta própria configurada.
  */
 import { db } from '../db';
 
@@ -7,6 +10,7 @@ export interface PaymentGatewaySettings {
   id: number;
   gateway: string;
   name: string;
+  schoolId: number | null;
   isActive: boolean;
   isDefault: boolean;
   apiKey: string;
@@ -21,6 +25,7 @@ export interface PaymentGatewaySettings {
 export interface CreatePaymentGatewaySettings {
   gateway: string;
   name: string;
+  schoolId?: number | null;
   isActive: boolean;
   isDefault: boolean;
   apiKey: string;
@@ -30,6 +35,27 @@ export interface CreatePaymentGatewaySettings {
   configuration?: Record<string, any>;
 }
 
+/**
+ * Converte uma linha do banco para o formato da aplicação
+ */
+function mapSettingsRow(row: any): PaymentGatewaySettings {
+  return {
+    id: row.id,
+    gateway: row.gateway,
+    name: row.name,
+    schoolId: row.school_id ?? null,
+    isActive: row.is_active,
+    isDefault: row.is_default,
+    apiKey: row.api_key,
+    apiSecret: row.api_secret,
+    apiEndpoint: row.api_endpoint,
+    sandboxMode: row.sandbox_mode,
+    configuration: row.configuration || {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
 /**
  * Cria tabela de configurações de gateways de pagamento se não existir
  */
@@ -39,6 +65,7 @@ export async function createPaymentGatewaySettingsTable() {
       id SERIAL PRIMARY KEY,
       gateway TEXT NOT NULL,
       name TEXT NOT NULL,
+      school_id INTEGER,
       is_active BOOLEAN NOT NULL DEFAULT FALSE,
       is_default BOOLEAN NOT NULL DEFAULT FALSE,
       api_key TEXT NOT NULL,
@@ -49,10 +76,13 @@ export async function createPaymentGatewaySettingsTable() {
       created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
     );
-    
+
+    ALTER TABLE payment_gateway_settings ADD COLUMN IF NOT EXISTS school_id INTEGER;
+
     CREATE INDEX IF NOT EXISTS payment_gateway_settings_gateway_idx ON payment_gateway_settings(gateway);
     CREATE INDEX IF NOT EXISTS payment_gateway_settings_active_idx ON payment_gateway_settings(is_active);
     CREATE INDEX IF NOT EXISTS payment_gateway_settings_default_idx ON payment_gateway_settings(is_default);
+    CREATE INDEX IF NOT EXISTS payment_gateway_settings_school_idx ON payment_gateway_settings(school_id);
   `);
 }
 
@@ -60,25 +90,12 @@ export async function createPaymentGatewaySettingsTable() {
  * Obtém todas as configurações de gateways de pagamento
  */
 export async function getAllPaymentGatewaySettings(): Promise<PaymentGatewaySettings[]> {
-  const result = await db.execute(`
+  const rows = await db.execute(`
     SELECT * FROM payment_gateway_settings
-    ORDER BY is_default DESC, name ASC
+    ORDER BY school_id NULLS FIRST, is_default DESC, name ASC
   `);
-  
-  return result.rows.map(row => ({
-    id: row.id,
-    gateway: row.gateway,
-    name: row.name,
-    isActive: row.is_active,
-    isDefault: row.is_default,
-    apiKey: row.api_key,
-    apiSecret: row.api_secret,
-    apiEndpoint: row.api_endpoint,
-    sandboxMode: row.sandbox_mode,
-    configuration: row.configuration,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  }));
+
+  return rows.map(mapSettingsRow);
 }
 
 /**
@@ -86,30 +103,12 @@ export async function getAllPaymentGatewaySettings(): Promise<PaymentGatewaySett
  */
 export async function getPaymentGatewaySettingsById(id: number): Promise<PaymentGatewaySettings | null> {
   try {
-    const result = await db.execute(`
+    const [row] = await db.execute(`
       SELECT * FROM payment_gateway_settings
-      WHERE id = ${id}
-    `);
-    
-    if (result.rows.length === 0) {
-      return null;
-    }
-    
-    const row = result.rows[0];
-    return {
-      id: row.id,
-      gateway: row.gateway,
-      name: row.name,
-      isActive: row.is_active,
-      isDefault: row.is_default,
-      apiKey: row.api_key,
-      apiSecret: row.api_secret,
-      apiEndpoint: row.api_endpoint,
-      sandboxMode: row.sandbox_mode,
-      configuration: row.configuration,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    };
+      WHERE id = $1
+    `, [id]);
+
+    return row ? mapSettingsRow(row) : null;
   } catch (error) {
     console.error('Erro ao obter gateway por ID:', error);
     throw error;
@@ -117,91 +116,75 @@ export async function getPaymentGatewaySettingsById(id: number): Promise<Payment
 }
 
 /**
- * Obtém configuração ativa de gateway de pagamento por tipo
+ * Obtém configuração ativa de gateway de pagamento por tipo.
+ * A conta da escola tem precedência sobre a conta global.
  */
-export async function getActivePaymentGatewaySettingsByType(gateway: string): Promise<PaymentGatewaySettings | null> {
-  const result = await db.execute(`
+export async function getActivePaymentGatewaySettingsByType(
+  gateway: string,
+  schoolId: number | null = null
+): Promise<PaymentGatewaySettings | null> {
+  const [row] = await db.execute(`
     SELECT * FROM payment_gateway_settings
-    WHERE gateway = $1 AND is_active = TRUE
-    ORDER BY is_default DESC
+    WHERE gateway = $1 AND is_active = TRUE AND (school_id = $2 OR school_id IS NULL)
+    ORDER BY (school_id IS NULL), is_default DESC, updated_at DESC
     LIMIT 1
-  `, [gateway]);
-  
-  if (result.rows.length === 0) {
-    return null;
-  }
-  
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    gateway: row.gateway,
-    name: row.name,
-    isActive: row.is_active,
-    isDefault: row.is_default,
-    apiKey: row.api_key,
-    apiSecret: row.api_secret,
-    apiEndpoint: row.api_endpoint,
-    sandboxMode: row.sandbox_mode,
-    configuration: row.configuration,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  };
+  `, [gateway, schoolId]);
+
+  return row ? mapSettingsRow(row) : null;
 }
 
 /**
- * Obtém configuração de gateway de pagamento padrão
+ * Obtém configuração de gateway de pagamento padrão (da escola ou global)
  */
-export async function getDefaultPaymentGatewaySetting(): Promise<PaymentGatewaySettings | null> {
-  const result = await db.execute(`
+export async function getDefaultPaymentGatewaySetting(schoolId: number | null = null): Promise<PaymentGatewaySettings | null> {
+  const [row] = await db.execute(`
     SELECT * FROM payment_gateway_settings
-    WHERE is_default = TRUE AND is_active = TRUE
+    WHERE is_default = TRUE AND is_active = TRUE AND (school_id = $1 OR school_id IS NULL)
+    ORDER BY (school_id IS NULL)
     LIMIT 1
-  `);
-  
-  if (result.rows.length === 0) {
-    return null;
-  }
-  
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    gateway: row.gateway,
-    name: row.name,
-    isActive: row.is_active,
-    isDefault: row.is_default,
-    apiKey: row.api_key,
-    apiSecret: row.api_secret,
-    apiEndpoint: row.api_endpoint,
-    sandboxMode: row.sandbox_mode,
-    configuration: row.configuration,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  };
+  `, [schoolId]);
+
+  return row ? mapSettingsRow(row) : null;
+}
+
+/**
+ * Lista as configurações ativas que podem atender uma escola, em ordem de
+ * preferência: contas da escola (padrão primeiro) e depois contas globais
+ */
+export async function getPaymentGatewaySettingsForSchool(schoolId: number | null): Promise<PaymentGatewaySettings[]> {
+  const rows = await db.execute(`
+    SELECT * FROM payment_gateway_settings
+    WHERE is_active = TRUE AND (school_id = $1 OR school_id IS NULL)
+    ORDER BY (school_id IS NULL), is_default DESC, updated_at DESC
+  `, [schoolId]);
+
+  return rows.map(mapSettingsRow);
 }
 
 /**
  * Cria uma nova configuração de gateway de pagamento
  */
 export async function createPaymentGatewaySetting(data: CreatePaymentGatewaySettings): Promise<PaymentGatewaySettings> {
-  // Se for definido como padrão, remove o padrão de todos os outros
+  // Se for definido como padrão, remove o padrão dos outros do mesmo escopo (escola ou global)
   if (data.isDefault) {
     await db.execute(`
       UPDATE payment_gateway_settings
       SET is_default = FALSE, updated_at = NOW()
-      WHERE is_default = TRUE
-    `);
+      WHERE is_default = TRUE AND school_id IS NOT DISTINCT FROM $1
+    `, [data.schoolId ?? null]);
   }
-  
-  const result = await db.execute(`
+
+  const [row] = await db.execute(`
     INSERT INTO payment_gateway_settings (
-      gateway, name, is_active, is_default, api_key, api_secret, 
+      gateway, name, school_id, is_active, is_default, api_key, api_secret,
       api_endpoint, sandbox_mode, configuration
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
     RETURNING *
   `, [
     data.gateway,
     data.name,
+    data.schoolId ?? null,
     data.isActive,
     data.isDefault,
     data.apiKey,
@@ -210,136 +193,70 @@ export async function createPaymentGatewaySetting(data: CreatePaymentGatewaySett
     data.sandboxMode,
     JSON.stringify(data.configuration || {})
   ]);
-  
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    gateway: row.gateway,
-    name: row.name,
-    isActive: row.is_active,
-    isDefault: row.is_default,
-    apiKey: row.api_key,
-    apiSecret: row.api_secret,
-    apiEndpoint: row.api_endpoint,
-    sandboxMode: row.sandbox_mode,
-    configuration: row.configuration,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  };
+
+  if (!row) {
+    throw new Error('Erro ao criar configuração de gateway de pagamento');
+  }
+
+  return mapSettingsRow(row);
 }
 
 /**
  * Atualiza uma configuração de gateway de pagamento existente
  */
 export async function updatePaymentGatewaySetting(
-  id: number, 
+  id: number,
   data: Partial<CreatePaymentGatewaySettings>
 ): Promise<PaymentGatewaySettings | null> {
-  // Se for definido como padrão, remove o padrão de todos os outros
+  // Se for definido como padrão, remove o padrão dos outros do mesmo escopo
   if (data.isDefault) {
+    const schoolId = data.schoolId !== undefined
+      ? data.schoolId
+      : (await getPaymentGatewaySettingsById(id))?.schoolId ?? null;
+
     await db.execute(`
       UPDATE payment_gateway_settings
       SET is_default = FALSE, updated_at = NOW()
-      WHERE is_default = TRUE AND id != ${id}
-    `);
+      WHERE is_default = TRUE AND id != $1 AND school_id IS NOT DISTINCT FROM $2
+    `, [id, schoolId]);
   }
-  
+
   // Constrói a query de atualização dinamicamente com base nos campos fornecidos
-  const updateFields = [];
-  const values = [id];
-  let paramIndex = 2;
-  
-  if (data.name !== undefined) {
-    updateFields.push(`name = $${paramIndex++}`);
-    values.push(data.name);
-  }
-  
-  if (data.isActive !== undefined) {
-    updateFields.push(`is_active = $${paramIndex++}`);
-    values.push(data.isActive);
-  }
-  
-  if (data.isDefault !== undefined) {
-    updateFields.push(`is_default = $${paramIndex++}`);
-    values.push(data.isDefault);
-  }
-  
-  if (data.apiKey !== undefined) {
-    updateFields.push(`api_key = $${paramIndex++}`);
-    values.push(data.apiKey);
-  }
-  
-  if (data.apiSecret !== undefined) {
-    updateFields.push(`api_secret = $${paramIndex++}`);
-    values.push(data.apiSecret);
-  }
-  
-  if (data.apiEndpoint !== undefined) {
-    updateFields.push(`api_endpoint = $${paramIndex++}`);
-    values.push(data.apiEndpoint);
-  }
-  
-  if (data.sandboxMode !== undefined) {
-    updateFields.push(`sandbox_mode = $${paramIndex++}`);
-    values.push(data.sandboxMode);
-  }
-  
-  if (data.configuration !== undefined) {
-    updateFields.push(`configuration = $${paramIndex++}`);
-    values.push(JSON.stringify(data.configuration));
+  const columns: Array<[keyof CreatePaymentGatewaySettings, string]> = [
+    ['name', 'name'],
+    ['schoolId', 'school_id'],
+    ['isActive', 'is_active'],
+    ['isDefault', 'is_default'],
+    ['apiKey', 'api_key'],
+    ['apiSecret', 'api_secret'],
+    ['apiEndpoint', 'api_endpoint'],
+    ['sandboxMode', 'sandbox_mode'],
+    ['configuration', 'configuration']
+  ];
+
+  const updateFields: string[] = [];
+  const values: any[] = [id];
+
+  for (const [key, column] of columns) {
+    if (data[key] === undefined) continue;
+    values.push(key === 'configuration' ? JSON.stringify(data[key]) : data[key]);
+    updateFields.push(`${column} = $${values.length}`);
   }
-  
-  updateFields.push(`updated_at = NOW()`);
-  
-  if (updateFields.length === 1) {
-    // Se só tiver o updated_at, retorna o registro atual
-    try {
-      return await getPaymentGatewaySettingsById(id);
-    } catch (error) {
-      console.error('Erro ao buscar gateway após atualização:', error);
-      throw error;
-    }
+
+  if (updateFields.length === 0) {
+    // Nada a atualizar, retorna o registro atual
+    return getPaymentGatewaySettingsById(id);
   }
-  
+
   try {
-    // Construir a query com valores interpolados diretamente
-    let updateQuery = `
+    const [row] = await db.execute(`
       UPDATE payment_gateway_settings
-      SET ${updateFields.join(', ')}
-      WHERE id = ${id}
+      SET ${updateFields.join(', ')}, updated_at = NOW()
+      WHERE id = $1
       RETURNING *
-    `;
-    
-    // Substituir placeholders com valores reais
-    for (let i = 0; i < values.length - 1; i++) {
-      const placeholder = `$${i + 2}`;
-      const value = typeof values[i + 1] === 'string' 
-        ? `'${values[i + 1].replace(/'/g, "''")}'` 
-        : values[i + 1];
-      updateQuery = updateQuery.replace(placeholder, value);
-    }
-    
-    const result = await db.execute(updateQuery);
-  
-    if (result.rows.length === 0) {
-      return null;
-    }
-    
-    const row = result.rows[0];
-    return {
-      id: row.id,
-      gateway: row.gateway,
-      name: row.name,
-      isActive: row.is_active,
-      isDefault: row.is_default,
-      apiKey: row.api_key,
-      apiSecret: row.api_secret,
-      apiEndpoint: row.api_endpoint,
-      sandboxMode: row.sandbox_mode,
-      configuration: row.configuration,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    };
+    `, values);
+
+    return row ? mapSettingsRow(row) : null;
   } catch (error) {
     console.error('Erro ao atualizar gateway de pagamento:', error);
     throw error;
@@ -351,15 +268,15 @@ export async function updatePaymentGatewaySetting(
  */
 export async function deletePaymentGatewaySetting(id: number): Promise<boolean> {
   try {
-    const result = await db.execute(`
+    const rows = await db.execute(`
       DELETE FROM payment_gateway_settings
-      WHERE id = ${id}
+      WHERE id = $1
       RETURNING id
-    `);
-    
-    return result.rows.length > 0;
+    `, [id]);
+
+    return rows.length > 0;
   } catch (error) {
     console.error('Erro ao excluir gateway de pagamento:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -132,6 +132,24 @@ export const sendSchoolNotification = async (
   }
 };
 
+/**
+ * Send a realtime event to the school channel without creating a notification
+ * @param schoolId The ID of the school
+ * @param event The event name
+ * @param data The event payload
+ */
+export const sendSchoolEvent = async (
+  schoolId: number,
+  event: string,
+  data: Record<string, any>
+): Promise<void> => {
+  try {
+    await pusher.trigger(`private-school-${schoolId}`, event, data);
+  } catch (error) {
+    console.error(`Error sending school event ${event}:`, error);
+  }
+};
+
 /**
  * Send a private message between users
  * @param senderId The ID of the sender
@@ -10,7 +10,8 @@ import {
   getPaymentGatewaySettingsById,
   updatePaymentGatewaySetting
 } from './models/paymentGatewaySettings';
-import { enhancedPaymentProcessor } from './services/paymentProcessor.enhanced';
+import { paymentGatewayRegistry } from './services/paymentGateways';
+import { paymentWebhookService, PaymentWebhookStatus } from './services/paymentWebhookService';
 import { logAction } from './services/securityService';
 import { db } from './db';
 
@@ -91,7 +92,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
    */
   app.post('/api/admin/payment/gateways', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
     try {
-      const { gateway, name, isActive, isDefault, apiKey, apiSecret, apiEndpoint, sandboxMode, configuration } = req.body;
+      const { gateway, name, schoolId, isActive, isDefault, apiKey, apiSecret, apiEndpoint, sandboxMode, configuration } = req.body;
       
       // Validar campos obrigatórios
       if (!gateway || !name || !apiKey) {
@@ -99,7 +100,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
       }
       
       // Validar o tipo de gateway
-      const validGateways = ['stripe', 'mercadopago', 'asaas', 'gerencianet', 'internal', 'manual'];
+      const validGateways = paymentGatewayRegistry.getSupportedGateways();
       if (!validGateways.includes(gateway)) {
         return res.status(400).json({ 
           message: 'Tipo de gateway inválido',
@@ -111,6 +112,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
       const newSetting = await createPaymentGatewaySetting({
         gateway,
         name,
+        schoolId: schoolId ? parseInt(schoolId) : null,
         isActive: !!isActive,
         isDefault: !!isDefault,
         apiKey,
@@ -129,6 +131,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
         details: {
           gateway,
           name,
+          schoolId: schoolId || null,
           isActive: !!isActive,
           isDefault: !!isDefault,
           sandboxMode: !!sandboxMode
@@ -161,7 +164,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
         return res.status(400).json({ message: 'ID inválido' });
       }
       
-      const { name, isActive, isDefault, apiKey, apiSecret, apiEndpoint, sandboxMode, configuration } = req.body;
+      const { name, schoolId, isActive, isDefault, apiKey, apiSecret, apiEndpoint, sandboxMode, configuration } = req.body;
       
       // Verificar se a configuração existe
       const existingSetting = await getPaymentGatewaySettingsById(id);
@@ -172,6 +175,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
       // Atualizar configuração
       const updatedSetting = await updatePaymentGatewaySetting(id, {
         name,
+        schoolId: schoolId !== undefined ? (schoolId ? parseInt(schoolId) : null) : undefined,
         isActive: isActive !== undefined ? !!isActive : undefined,
         isDefault: isDefault !== undefined ? !!isDefault : undefined,
         apiKey,
@@ -185,6 +189,9 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
         return res.status(404).json({ message: 'Erro ao atualizar configuração' });
       }
       
+      // Descartar o adaptador configurado com as credenciais antigas
+      paymentGatewayRegistry.invalidate(id);
+      
       // Registrar ação
       await logAction({
         action: 'payment_gateway_updated',
@@ -238,6 +245,8 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
         return res.status(500).json({ message: 'Erro ao remover configuração' });
       }
       
+      paymentGatewayRegistry.invalidate(id);
+      
       // Registrar ação
       await logAction({
         action: 'payment_gateway_deleted',
@@ -271,7 +280,14 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
           logo: '/assets/logos/stripe.svg',
           fields: [
             { name: 'apiKey', label: 'Chave Secreta', type: 'password', required: true, description: 'Chave secreta do Stripe (começa com sk_)' },
-            { name: 'apiSecret', label: 'Chave Pública', type: 'password', required: false, description: 'Chave pública do Stripe (começa com pk_)' }
+            { name: 'apiSecret', label: 'Chave Pública', type: 'password', required: false, description: 'Chave pública do Stripe (começa com pk_)' },
+            { 
+              name: 'configuration.webhookSecret', 
+              label: 'Segredo do Webhook', 
+              type: 'password', 
+              required: false, 
+              description: 'Signing secret do endpoint de webhook (começa com whsec_)' 
+            }
           ]
         },
         {
@@ -294,6 +310,13 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
               type: 'text', 
               required: false,
               description: 'URL base para webhooks e notificações' 
+            },
+            { 
+              name: 'configuration.webhookSecret', 
+              label: 'Assinatura Secreta', 
+              type: 'password', 
+              required: false, 
+              description: 'Assinatura secreta dos webhooks (valida o cabeçalho x-signature)' 
             }
           ]
         },
@@ -309,22 +332,50 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
               type: 'text', 
               required: false, 
               description: 'ID da carteira (opcional)' 
+            },
+            { 
+              name: 'configuration.webhookToken', 
+              label: 'Token do Webhook', 
+              type: 'password', 
+              required: false, 
+              description: 'Token de autenticação cadastrado no webhook do Asaas' 
             }
           ]
         },
         {
           id: 'gerencianet',
-          name: 'Gerencianet',
+          name: 'Efí (Gerencianet)',
           logo: '/assets/logos/gerencianet.svg',
           fields: [
-            { name: 'apiKey', label: 'Client ID', type: 'password', required: true, description: 'Client ID da Gerencianet' },
-            { name: 'apiSecret', label: 'Client Secret', type: 'password', required: true, description: 'Client Secret da Gerencianet' },
+            { name: 'apiKey', label: 'Client ID', type: 'password', required: true, description: 'Client ID da Efí' },
+            { name: 'apiSecret', label: 'Client Secret', type: 'password', required: true, description: 'Client Secret da Efí' },
             { 
               name: 'configuration.certificado', 
               label: 'Certificado', 
               type: 'textarea', 
               required: false, 
               description: 'Certificado p12 codificado em base64 (para Pix)' 
+            },
+            { 
+              name: 'configuration.pixKey', 
+              label: 'Chave PIX', 
+              type: 'text', 
+              required: false, 
+              description: 'Chave PIX que recebe as cobranças' 
+            },
+            { 
+              name: 'configuration.notificationUrl', 
+              label: 'URL de Notificação', 
+              type: 'text', 
+              required: false,
+              description: 'URL de notificação das cobranças (boleto e cartão)' 
+            },
+            { 
+              name: 'configuration.webhookSecret', 
+              label: 'HMAC do Webhook', 
+              type: 'password', 
+              required: false, 
+              description: 'Valor do parâmetro ?hmac= incluído nas URLs de webhook' 
             }
           ]
         },
@@ -365,13 +416,7 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
         return res.status(400).json({ message: 'ID inválido' });
       }
       
-      // Inicializar o processador melhorado se necessário
-      if (!enhancedPaymentProcessor.getAvailableProcessors().length) {
-        await enhancedPaymentProcessor.initialize();
-      }
-      
-      // Verificar processadores disponíveis
-      const availableProcessors = enhancedPaymentProcessor.getAvailableProcessors();
+      const availableProcessors = paymentGatewayRegistry.getSupportedGateways();
       
       // Obter a configuração
       const setting = await getPaymentGatewaySettingsById(id);
@@ -380,20 +425,24 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
       }
       
       // Verificar se o tipo de gateway está disponível
-      if (!availableProcessors.includes(setting.gateway as any)) {
+      if (!paymentGatewayRegistry.isSupported(setting.gateway)) {
         return res.status(400).json({ 
           message: `O gateway ${setting.gateway} não está disponível no sistema`,
           availableProcessors
         });
       }
       
-      // Simular uma operação simples para testar (verificar conexão apenas)
+      // Configurar o adaptador valida as credenciais obrigatórias
+      paymentGatewayRegistry.invalidate(id);
+      const adapter = paymentGatewayRegistry.getAdapter(setting.gateway, setting);
+      
       const testResult = {
         success: true,
         gateway: setting.gateway,
         status: 'connected',
         message: `Conexão com ${setting.name} (${setting.gateway}) estabelecida com sucesso`,
-        sandboxMode: setting.sandboxMode
+        sandboxMode: setting.sandboxMode,
+        supportedMethods: adapter.supportedMethods
       };
       
       // Registrar ação
@@ -528,4 +577,74 @@ export function registerAdminPaymentRoutes(app: Express, isAuthenticated: any) {
       res.status(500).json({ message: 'Erro ao obter estatísticas de pagamentos', error: error.message });
     }
   });
+
+  /**
+   * @route GET /api/admin/payment/webhook-events
+   * @desc Listar webhooks de pagamento recebidos (filtros: status, gateway, limit, offset)
+   * @access Admin
+   */
+  app.get('/api/admin/payment/webhook-events', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    try {
+      const [events, counts] = await Promise.all([
+        paymentWebhookService.listEvents({
+          status: req.query.status ? req.query.status as PaymentWebhookStatus : undefined,
+          gateway: req.query.gateway ? req.query.gateway as string : undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+          offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+        }),
+        paymentWebhookService.countByStatus()
+      ]);
+
+      res.json({ events, counts });
+    } catch (error) {
+      console.error('Erro ao listar webhooks de pagamento:', error);
+      res.status(500).json({ message: 'Erro ao listar webhooks de pagamento', error: error instanceof Error ? error.message : 'Erro desconhecido' });
+    }
+  });
+
+  /**
+   * @route GET /api/admin/payment/webhook-events/:id
+   * @desc Detalhar webhook recebido (corpo original, cabeçalhos e eventos convertidos)
+   * @access Admin
+   */
+  app.get('/api/admin/payment/webhook-events/:id', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID inválido' });
+      }
+
+      const event = await paymentWebhookService.getEvent(id);
+      if (!event) {
+        return res.status(404).json({ message: 'Evento de webhook não encontrado' });
+      }
+
+      res.json(event);
+    } catch (error) {
+      console.error('Erro ao obter webhook de pagamento:', error);
+      res.status(500).json({ message: 'Erro ao obter webhook de pagamento', error: error instanceof Error ? error.message : 'Erro desconhecido' });
+    }
+  });
+
+  /**
+   * @route POST /api/admin/payment/webhook-events/:id/replay
+   * @desc Reprocessar webhook recebido
+   * @access Admin
+   */
+  app.post('/api/admin/payment/webhook-events/:id/replay', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID inválido' });
+      }
+
+      const event = await paymentWebhookService.replay(id, req.user!.id);
+      res.json(event);
+    } catch (error) {
+      console.error('Erro ao reprocessar webhook de pagamento:', error);
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      const status = message === 'Evento de webhook não encontrado' ? 404 : 400;
+      res.status(status).json({ message: 'Erro ao reprocessar webhook de pagamento', error: message });
+    }
+  });
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+/**
+ * Rotas dos fluxos guiados do chatbot no WhatsApp
+ * Cadastro dos fluxos da escola: nós, palavras-chave de início, fluxo padrão
+ * e resposta por IA quando o contato sai das opções
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { chatbotFlowService, findFlowProblems, FlowDefinition } from './services/chatbotFlowService';
+import { requireSchoolManager } from './middleware/auth';
+import { isPublicUrl, PRIVATE_ADDRESS_MESSAGE } from './services/publicUrlGuard';
+
+const nodeIdSchema = z.string().trim().min(1, 'ID do nó é obrigatório').max(50);
+const nextSchema = nodeIdSchema.nullable().optional();
+const variableSchema = z.string().trim().regex(/^[a-zA-Z_][a-zA-Z0-9_]{0,39}$/, 'Nome de variável inválido');
+const textSchema = z.string().trim().min(1, 'Texto é obrigatório').max(4000);
+
+const nodeSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('message'),
+    text: textSchema,
+    next: nextSchema,
+  }),
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('question'),
+    text: textSchema,
+    variable: variableSchema,
+    validation: z.enum(['text', 'email', 'phone', 'number']).optional(),
+    next: nextSchema,
+  }),
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('buttons'),
+    text: textSchema,
+    variable: variableSchema.nullable().optional(),
+    options: z.array(z.object({
+      label: z.string().trim().min(1, 'Texto da opção é obrigatório').max(100),
+      value: z.string().trim().max(100).nullable().optional(),
+      next: nextSchema,
+    })).min(1, 'Inclua ao menos uma opção').max(10),
+  }),
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('condition'),
+    rules: z.array(z.object({
+      variable: z.string().trim().min(1).max(100),
+      operator: z.enum(['equals', 'contains', 'exists', 'gt', 'lt']),
+      value: z.string().max(200).nullable().optional(),
+      next: nextSchema,
+    })).min(1, 'Inclua ao menos uma regra').max(10),
+    defaultNext: nextSchema,
+  }),
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('api_call'),
+    method: z.enum(['GET', 'POST']),
+    url: z.string().trim().min(1).max(500)
+      .refine(url => /^https?:\/\//i.test(url), 'A URL deve usar http ou https')
+      .refine(url => /^https?:\/\/[^/?#{}]+([/?#]|$)/i.test(url), 'O endereço do servidor não pode usar variáveis')
+      .refine(isPublicUrl, PRIVATE_ADDRESS_MESSAGE),
+    body: z.record(z.any()).nullable().optional(),
+    saveAs: variableSchema.nullable().optional(),
+    next: nextSchema,
+    errorNext: nextSchema,
+  }),
+  z.object({
+    id: nodeIdSchema,
+    type: z.literal('handoff'),
+    text: z.string().trim().max(4000).nullable().optional(),
+    tags: z.array(z.string().trim().min(1).max(40)).max(10).optional(),
+  }),
+]);
+
+const flowSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  triggerKeywords: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  isDefault: z.boolean().optional(),
+  aiFallback: z.boolean().optional(),
+  active: z.boolean().optional(),
+  definition: z.object({
+    startNodeId: nodeIdSchema,
+    nodes: z.array(nodeSchema).min(1, 'Inclua ao menos um nó').max(100),
+  }).superRefine((definition, ctx) => {
+    for (const problem of findFlowProblems(definition as FlowDefinition)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  }),
+}).refine(
+  flow => flow.isDefault || (flow.triggerKeywords?.length ?? 0) > 0,
+  'Informe palavras-chave ou marque o fluxo como padrão'
+);
+
+/**
+ * Registra rotas dos fluxos do chatbot
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerChatbotFlowRoutes(app: Express, isAuthenticated: any) {
+  const handleError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  };
+
+  /**
+   * @route GET /api/schools/:id/chatbot-flows
+   * @desc Fluxos do chatbot da escola com as sessões dos últimos 30 dias
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/chatbot-flows', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const flows = await chatbotFlowService.listFlows(parseInt(req.params.id));
+      res.json(flows);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar fluxos do chatbot');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/chatbot-flows
+   * @desc Cria um fluxo do chatbot
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/chatbot-flows', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = await flowSchema.parseAsync(req.body);
+      const flow = await chatbotFlowService.createFlow(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(flow);
+    } catch (error) {
+      handleError(res, error, 'Erro ao criar fluxo do chatbot');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/chatbot-flows/:flowId
+   * @desc Atualiza um fluxo; desativá-lo devolve as conversas em andamento para a fila
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/chatbot-flows/:flowId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = await flowSchema.parseAsync(req.body);
+      const flow = await chatbotFlowService.updateFlow(parseInt(req.params.id), parseInt(req.params.flowId), data, req.user!.id);
+      res.json(flow);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Fluxo não encontrado') {
+        return res.status(404).json({ message: error.message });
+      }
+      handleError(res, error, 'Erro ao atualizar fluxo do chatbot');
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/chatbot-flows/:flowId
+   * @desc Remove um fluxo
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/chatbot-flows/:flowId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      await chatbotFlowService.deleteFlow(parseInt(req.params.id), parseInt(req.params.flowId), req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Fluxo não encontrado') {
+        return res.status(404).json({ message: error.message });
+      }
+      handleError(res, error, 'Erro ao remover fluxo do chatbot');
+    }
+  });
+}
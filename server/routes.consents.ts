@@ -0,0 +1,119 @@
+/**
+ * Rotas do registro de consentimento (LGPD)
+ * Consulta e registro manual de aceites e recusas por canal e exportação da
+ * prova de consentimento de um contato
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { consentService, ConsentChannel, ConsentStatus } from './services/consentService';
+import { logAction } from './services/securityService';
+import { requireSchoolManager } from './middleware/auth';
+
+const CHANNELS: ConsentChannel[] = ['whatsapp', 'email', 'sms'];
+const STATUSES: ConsentStatus[] = ['granted', 'revoked', 'pending'];
+
+const consentSchema = z.object({
+  channel: z.enum(['whatsapp', 'email', 'sms']),
+  identifier: z.string().trim().min(3, 'Informe o telefone ou e-mail').max(200),
+  status: z.enum(['granted', 'revoked']),
+  reason: z.string().trim().max(500).nullable().optional(),
+});
+
+/**
+ * Registra rotas do registro de consentimento
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerConsentRoutes(app: Express, isAuthenticated: any) {
+  const handleError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  };
+
+  /**
+   * Erros de validação do contato (telefone ou e-mail inválido) viram 400
+   */
+  const handleActionError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(400).json({
+      message: error instanceof Error ? error.message : message
+    });
+  };
+
+  /**
+   * @route GET /api/schools/:id/consents
+   * @desc Consentimentos da escola, filtrados por canal, status e contato
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/consents', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const channel = CHANNELS.find(item => item === req.query.channel);
+      const status = STATUSES.find(item => item === req.query.status);
+      const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+
+      const consents = await consentService.listConsents(parseInt(req.params.id), { channel, status, search });
+      res.json(consents);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar consentimentos');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/consents
+   * @desc Registra manualmente o aceite ou a recusa de um contato
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/consents', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = consentSchema.parse(req.body);
+      const consent = await consentService.recordConsent({
+        schoolId: parseInt(req.params.id),
+        channel: data.channel,
+        identifier: data.identifier,
+        status: data.status,
+        source: 'manual',
+        evidence: { reason: data.reason || null },
+        userId: req.user!.id,
+      });
+      await logAction(req.user!.id, `communication_consent_${data.status}`, 'communication_consent', String(consent.id), {
+        schoolId: consent.schoolId,
+        channel: consent.channel,
+      });
+      res.status(201).json(consent);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao registrar consentimento');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/consents/proof
+   * @desc Baixa a prova de consentimento de um contato (telefone ou e-mail)
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/consents/proof', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    const identifier = typeof req.query.identifier === 'string' ? req.query.identifier.trim() : '';
+    if (!identifier) {
+      return res.status(400).json({ message: 'Informe o telefone ou e-mail do contato' });
+    }
+
+    try {
+      const proof = await consentService.getConsentProof(parseInt(req.params.id), identifier);
+      const fileName = `consentimento-${identifier.replace(/[^a-zA-Z0-9@._-]/g, '')}.json`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.json(proof);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao gerar prova de consentimento');
+    }
+  });
+}
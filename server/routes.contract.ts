@@ -0,0 +1,343 @@
+/**
+ * Rotas de contratos de matrícula e assinatura eletrônica
+ */
+
+import { Express, Request, Response } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { storage } from './storage';
+import { contractService } from './services/contractService';
+import { guardianService } from './services/guardianService';
+import { canManageSchool } from './middleware/auth';
+
+const contractTemplateSchema = z.object({
+  name: z.string().min(1, 'Nome do modelo é obrigatório'),
+  content: z.string().min(1, 'Conteúdo do modelo é obrigatório'),
+  courseId: z.number().int().nullable().optional(),
+});
+
+const signContractSchema = z.object({
+  typedName: z.string().trim().min(3, 'Digite seu nome completo'),
+  signatureImage: z.string().min(1, 'Desenhe sua assinatura'),
+  otp: z.string().min(6, 'Informe o código de confirmação'),
+});
+
+/**
+ * Registra rotas de contratos
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerContractRoutes(app: Express, isAuthenticated: any) {
+  // A escola, o próprio aluno ou um responsável vinculado podem ver e assinar o contrato
+  const canAccessEnrollment = async (user: Express.User | undefined, enrollmentId: number): Promise<boolean> => {
+    if (!user) return false;
+    const enrollment = await storage.getEnrollment(enrollmentId);
+    if (!enrollment) return false;
+    return canManageSchool(user, enrollment.schoolId) || guardianService.canActForStudent(user.id, enrollment.studentId);
+  };
+
+  /**
+   * @route GET /api/schools/:schoolId/contract-templates
+   * @desc Listar modelos de contrato da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:schoolId/contract-templates', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const templates = await contractService.listTemplates(schoolId);
+      res.json(templates);
+    } catch (error) {
+      console.error('Erro ao listar modelos de contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao listar modelos de contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:schoolId/contract-templates
+   * @desc Criar modelo de contrato (da escola ou de um curso)
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:schoolId/contract-templates', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = contractTemplateSchema.parse(req.body);
+      const template = await contractService.createTemplate(schoolId, data, req.user!.id);
+
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao criar modelo de contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao criar modelo de contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/contract-templates/:id
+   * @desc Atualizar modelo de contrato
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/contract-templates/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const template = await contractService.getTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Modelo de contrato não encontrado' });
+      }
+      if (!canManageSchool(req.user, template.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = contractTemplateSchema.parse(req.body);
+      const updated = await contractService.updateTemplate(template.id, data, req.user!.id);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar modelo de contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar modelo de contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/contract-templates/:id
+   * @desc Desativar modelo de contrato
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/contract-templates/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const template = await contractService.getTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Modelo de contrato não encontrado' });
+      }
+      if (!canManageSchool(req.user, template.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      await contractService.deactivateTemplate(template.id, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao desativar modelo de contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao desativar modelo de contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/contract
+   * @desc Gerar (ou obter) o contrato da matrícula
+   * @access Private (aluno, responsável ou escola)
+   */
+  app.post('/api/enrollments/:id/contract', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'ID de matrícula inválido' });
+      }
+      if (!await canAccessEnrollment(req.user, enrollmentId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const contract = await contractService.generateContract(enrollmentId);
+      if (!contract) {
+        return res.status(404).json({ message: 'Nenhum modelo de contrato configurado para esta escola' });
+      }
+
+      res.json(contract);
+    } catch (error) {
+      console.error('Erro ao gerar contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao gerar contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/contract
+   * @desc Contrato vigente da matrícula
+   * @access Private (aluno, responsável ou escola)
+   */
+  app.get('/api/enrollments/:id/contract', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (!await canAccessEnrollment(req.user, enrollmentId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const contract = await contractService.getContractForEnrollment(enrollmentId);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contrato não encontrado' });
+      }
+
+      res.json(contract);
+    } catch (error) {
+      console.error('Erro ao obter contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao obter contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/contracts/:id/pdf
+   * @desc PDF do contrato (assinado, ou prévia quando pendente)
+   * @access Private (aluno, responsável ou escola)
+   */
+  app.get('/api/contracts/:id/pdf', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contract = await contractService.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contrato não encontrado' });
+      }
+      if (!await canAccessEnrollment(req.user, contract.enrollmentId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="contrato_${contract.enrollmentId}.pdf"`);
+
+      if (contract.status === 'signed' && contract.pdfUrl) {
+        const filePath = path.join(process.cwd(), contract.pdfUrl.replace(/^\//, ''));
+        if (!fs.existsSync(filePath)) {
+          return res.status(404).json({ message: 'Arquivo do contrato não encontrado' });
+        }
+        return res.sendFile(filePath);
+      }
+
+      const buffer = await contractService.renderPreviewPdf(contract.id);
+      res.send(buffer);
+    } catch (error) {
+      console.error('Erro ao gerar PDF do contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao gerar PDF do contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/contracts/:id/otp
+   * @desc Solicitar código de confirmação da assinatura (2FA ou WhatsApp)
+   * @access Private (aluno, responsável ou escola)
+   */
+  app.post('/api/contracts/:id/otp', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contract = await contractService.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contrato não encontrado' });
+      }
+      if (!await canAccessEnrollment(req.user, contract.enrollmentId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const result = await contractService.requestOtp(contract.id, req.user!.id);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Erro ao enviar código de confirmação:', error);
+      res.status(500).json({
+        message: 'Erro ao enviar código de confirmação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/contracts/:id/sign
+   * @desc Assinar o contrato (nome digitado, assinatura desenhada e código)
+   * @access Private (aluno, responsável ou escola)
+   */
+  app.post('/api/contracts/:id/sign', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contract = await contractService.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contrato não encontrado' });
+      }
+      if (!await canAccessEnrollment(req.user, contract.enrollmentId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = signContractSchema.parse(req.body);
+
+      const result = await contractService.signContract(contract.id, data, {
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        userId: req.user!.id,
+      });
+
+      if (!result.success) {
+        return res.status(422).json({ message: result.message });
+      }
+
+      res.json(result.contract);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao assinar contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao assinar contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/contracts/:id/verify
+   * @desc Verificar integridade de um contrato assinado
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/contracts/:id/verify', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const contract = await contractService.getContract(parseInt(req.params.id));
+      if (!contract) {
+        return res.status(404).json({ message: 'Contrato não encontrado' });
+      }
+
+      const enrollment = await storage.getEnrollment(contract.enrollmentId);
+      if (!enrollment || !canManageSchool(req.user, enrollment.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const result = await contractService.verifyContract(contract.id);
+      if (!result) {
+        return res.status(400).json({ message: 'Contrato ainda não foi assinado' });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Erro ao verificar contrato:', error);
+      res.status(500).json({
+        message: 'Erro ao verificar contrato',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Rotas de vagas de cursos e lista de espera
+ */
+
+import { Express, Request, Response } from 'express';
+import { storage } from './storage';
+import { courseSeatService } from './services/courseSeatService';
+import { guardianService } from './services/guardianService';
+
+/**
+ * Registra rotas de vagas e lista de espera
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerCourseSeatRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Verifica se o usuário pode gerenciar o curso informado
+   */
+  const canManageCourse = async (req: Request, res: Response, next: Function) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Não autorizado' });
+    }
+
+    const course = await storage.getCourse(parseInt(req.params.id));
+    if (!course) {
+      return res.status(404).json({ message: 'Curso não encontrado' });
+    }
+
+    if (req.user.role === 'admin' || (req.user.role === 'school' && req.user.schoolId === course.schoolId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  /**
+   * Verifica se o usuário pode ver ou renovar a vaga da matrícula: escola,
+   * o próprio aluno ou um responsável
+   */
+  const canAccessEnrollment = async (req: Request, res: Response, next: Function) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Não autorizado' });
+    }
+
+    const enrollmentId = parseInt(req.params.id);
+    if (isNaN(enrollmentId)) {
+      return res.status(400).json({ message: 'ID de matrícula inválido' });
+    }
+
+    const enrollment = await storage.getEnrollment(enrollmentId);
+    if (!enrollment) {
+      return res.status(404).json({ message: 'Matrícula não encontrada' });
+    }
+
+    if (req.user.role === 'admin' || (req.user.role === 'school' && req.user.schoolId === enrollment.schoolId)
+      || await guardianService.canActForStudent(req.user.id, enrollment.studentId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  /**
+   * @route GET /api/courses/:id/seats
+   * @desc Resumo de vagas do curso (reservadas, confirmadas e disponíveis)
+   * @access Public
+   */
+  app.get('/api/courses/:id/seats', async (req: Request, res: Response) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: 'ID de curso inválido' });
+      }
+
+      const summary = await courseSeatService.getSeatSummary(courseId);
+      res.json(summary);
+    } catch (error) {
+      console.error('Erro ao obter vagas do curso:', error);
+      res.status(500).json({
+        message: 'Erro ao obter vagas do curso',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/courses/:id/waitlist
+   * @desc Lista de espera do curso
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/courses/:id/waitlist', isAuthenticated, canManageCourse, async (req: Request, res: Response) => {
+    try {
+      const waitlist = await courseSeatService.getWaitlist(parseInt(req.params.id));
+      res.json(waitlist);
+    } catch (error) {
+      console.error('Erro ao obter lista de espera:', error);
+      res.status(500).json({
+        message: 'Erro ao obter lista de espera',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/courses/:id/waitlist/:entryId
+   * @desc Remover aluno da lista de espera
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/courses/:id/waitlist/:entryId', isAuthenticated, canManageCourse, async (req: Request, res: Response) => {
+    try {
+      const removed = await courseSeatService.removeFromWaitlist(parseInt(req.params.id), parseInt(req.params.entryId));
+      if (!removed) {
+        return res.status(404).json({ message: 'Entrada da lista de espera não encontrada' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao remover da lista de espera:', error);
+      res.status(500).json({
+        message: 'Erro ao remover da lista de espera',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/seat
+   * @desc Situação da vaga da matrícula (reservada, confirmada ou em espera)
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.get('/api/enrollments/:id/seat', isAuthenticated, canAccessEnrollment, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      const seat = await courseSeatService.getEnrollmentSeat(enrollmentId);
+      if (!seat) {
+        return res.status(404).json({ message: 'Matrícula sem vaga reservada' });
+      }
+
+      res.json(seat);
+    } catch (error) {
+      console.error('Erro ao obter vaga da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao obter vaga da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/seat/renew
+   * @desc Renovar a reserva de vaga enquanto o aluno conclui o formulário
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.post('/api/enrollments/:id/seat/renew', isAuthenticated, canAccessEnrollment, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      const hold = await courseSeatService.renewHold(enrollmentId);
+      if (!hold) {
+        return res.status(410).json({ message: 'A reserva de vaga expirou ou não existe' });
+      }
+
+      res.json(hold);
+    } catch (error) {
+      console.error('Erro ao renovar reserva de vaga:', error);
+      res.status(500).json({
+        message: 'Erro ao renovar reserva de vaga',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
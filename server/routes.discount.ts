@@ -0,0 +1,302 @@
+/**
+ * Rotas de descontos, bolsas e cupons
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { discountRuleSchema, discountService } from './services/discountService';
+import { guardianService } from './services/guardianService';
+import { canManageSchool } from './middleware/auth';
+
+const couponSchema = z.object({
+  code: z.string().trim().min(1, 'Informe o código do cupom'),
+});
+
+const grantSchema = z.object({
+  ruleId: z.number().int(),
+});
+
+const quoteQuerySchema = z.object({
+  amount: z.coerce.number().min(0),
+  target: z.enum(['enrollment_fee', 'tuition']).default('enrollment_fee'),
+});
+
+/**
+ * Registra rotas de descontos
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerDiscountRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Verifica se o usuário é da escola, o aluno ou um responsável pela matrícula
+   */
+  const canAccessEnrollment = async (user: Express.User | undefined, enrollment: { schoolId: number; studentId: number }): Promise<boolean> => {
+    if (!user) return false;
+    return canManageSchool(user, enrollment.schoolId) || guardianService.canActForStudent(user.id, enrollment.studentId);
+  };
+
+  /**
+   * @route GET /api/schools/:schoolId/discount-rules
+   * @desc Listar regras de desconto da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:schoolId/discount-rules', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const rules = await discountService.listRules(schoolId);
+      res.json(rules);
+    } catch (error) {
+      console.error('Erro ao listar regras de desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao listar regras de desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:schoolId/discount-rules
+   * @desc Criar regra de desconto, bolsa ou cupom
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:schoolId/discount-rules', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = discountRuleSchema.parse(req.body);
+      const rule = await discountService.createRule(schoolId, data, req.user!.id);
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao criar regra de desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao criar regra de desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/discount-rules/:id
+   * @desc Atualizar regra de desconto
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/discount-rules/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const rule = await discountService.getRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: 'Regra de desconto não encontrada' });
+      }
+      if (!canManageSchool(req.user, rule.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = discountRuleSchema.parse(req.body);
+      const updated = await discountService.updateRule(rule.id, data, req.user!.id);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar regra de desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar regra de desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/discount-rules/:id
+   * @desc Desativar regra de desconto
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/discount-rules/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const rule = await discountService.getRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: 'Regra de desconto não encontrada' });
+      }
+      if (!canManageSchool(req.user, rule.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      await discountService.deactivateRule(rule.id, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao desativar regra de desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao desativar regra de desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/discounts
+   * @desc Bolsas, condições concedidas e cupons da matrícula
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.get('/api/enrollments/:id/discounts', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!await canAccessEnrollment(req.user, enrollment)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const rules = await discountService.getEnrollmentRules(enrollment.id);
+      res.json(rules);
+    } catch (error) {
+      console.error('Erro ao listar descontos da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao listar descontos da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/discounts/quote
+   * @desc Simular os descontos de uma cobrança da matrícula
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.get('/api/enrollments/:id/discounts/quote', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!await canAccessEnrollment(req.user, enrollment)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const { amount, target } = quoteQuerySchema.parse(req.query);
+      const quote = await discountService.quoteForEnrollment(enrollment.id, amount, target);
+
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao calcular descontos:', error);
+      res.status(500).json({
+        message: 'Erro ao calcular descontos',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/coupon
+   * @desc Aplicar cupom à matrícula
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.post('/api/enrollments/:id/coupon', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!await canAccessEnrollment(req.user, enrollment)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const { code } = couponSchema.parse(req.body);
+      const result = await discountService.applyCoupon(enrollment, code, req.user!.id);
+      if (!result.success) {
+        return res.status(422).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao aplicar cupom:', error);
+      res.status(500).json({
+        message: 'Erro ao aplicar cupom',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/discounts
+   * @desc Conceder bolsa ou desconto de filho de funcionário à matrícula
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/enrollments/:id/discounts', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!canManageSchool(req.user, enrollment.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const { ruleId } = grantSchema.parse(req.body);
+      const rule = await discountService.getRule(ruleId);
+      if (!rule || rule.schoolId !== enrollment.schoolId) {
+        return res.status(404).json({ message: 'Regra de desconto não encontrada' });
+      }
+
+      const result = await discountService.grantRule(enrollment.id, ruleId, req.user!.id);
+      if (!result.success) {
+        return res.status(422).json({ message: result.message });
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao conceder desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao conceder desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/enrollments/:id/discounts/:ruleId
+   * @desc Remover bolsa, desconto concedido ou cupom da matrícula
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/enrollments/:id/discounts/:ruleId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!canManageSchool(req.user, enrollment.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      await discountService.revokeRule(enrollment.id, parseInt(req.params.ruleId), req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao remover desconto:', error);
+      res.status(500).json({
+        message: 'Erro ao remover desconto',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -8,6 +8,7 @@ import { documents, enrollments } from "../shared/schema";
 import { and, eq, sql } from "drizzle-orm";
 import { analyzeDocument, verifyDocument, validateDocumentAgainstForm } from "./utils/ocr";
 import { sendUserNotification } from "./pusher";
+import { domainEventService } from "./services/domainEventService";
 
 // Set up multer for handling file uploads
 const storage = multer.diskStorage({
@@ -58,6 +59,32 @@ const upload = multer({
   fileFilter
 });
 
+/**
+ * Atualiza o status do documento gravando document.verified na mesma instrução
+ * quando ele passa a verificado
+ * @param documentId ID do documento
+ * @param newStatus Status aplicado pela verificação
+ */
+async function updateDocumentStatus(documentId: number, newStatus: string) {
+  await domainEventService.writeWithEvents(`
+    UPDATE documents d
+    SET status = $2, updated_at = NOW()
+    FROM (
+      SELECT doc.id, doc.status, e.school_id
+      FROM documents doc
+      LEFT JOIN enrollments e ON e.id = doc.enrollment_id
+      WHERE doc.id = $1
+    ) previous
+    WHERE d.id = previous.id
+    RETURNING d.id, previous.school_id, d.id AS document_id, d.type AS document_type, d.enrollment_id,
+      d.student_id, d.status, previous.status AS previous_status, NOW() AS verified_at
+  `, [documentId, newStatus], [{
+    type: 'document.verified',
+    aggregateType: 'document',
+    when: "changed.status = 'verified' AND changed.previous_status IS DISTINCT FROM 'verified'"
+  }]);
+}
+
 /**
  * Função auxiliar para verificar o estado dos documentos de uma matrícula e atualizar seu status
  * @param enrollmentId ID da matrícula
@@ -247,12 +274,13 @@ export function registerDocumentRoutes(app: Express) {
       }
       
       // Atualiza o documento com os dados extraídos
+      const ocrStatus = (ocrResult.data?.confidence || 0) > 50 ? 'verified' : 'needs_review';
+      await updateDocumentStatus(document.id, ocrStatus);
       const [updatedDocument] = await db
         .update(documents)
         .set({
           ocrData: JSON.stringify(ocrResult.data),
           ocrQuality: ocrResult.data?.confidence || 0,
-          status: (ocrResult.data?.confidence || 0) > 50 ? 'verified' : 'needs_review',
           updatedAt: new Date()
         })
         .where(eq(documents.id, document.id))
@@ -383,11 +411,11 @@ export function registerDocumentRoutes(app: Express) {
       };
       
       // Atualiza o documento com o resultado da verificação
+      await updateDocumentStatus(document.id, newStatus);
       const [updatedDocument] = await db
         .update(documents)
         .set({
           verificationResult: JSON.stringify(verificationResult),
-          status: newStatus,
           updatedAt: new Date()
         })
         .where(eq(documents.id, document.id))
@@ -527,41 +555,36 @@ export function registerDocumentRoutes(app: Express) {
           const ocrResult = await analyzeDocument(req.file.path, formFields);
           
           if (ocrResult.success && ocrResult.data) {
+            // Se foi realizada validação cruzada, ela define o status final
+            const validationResult = ocrResult.data.validationResults ? {
+              isValid: ocrResult.data.validationResults.isValid,
+              documentType: ocrResult.data.documentType || "unknown",
+              fieldsFound: Object.keys(ocrResult.data.fields || {}).length,
+              fieldsVerified: Object.keys(ocrResult.data.validationResults.fieldValidations).filter(key => 
+                ocrResult.data.validationResults.fieldValidations[key].isValid).length,
+              score: ocrResult.data.validationResults.score,
+              fieldValidations: ocrResult.data.validationResults.fieldValidations || {},
+              verifiedAt: new Date().toISOString()
+            } : null;
+            const ocrStatus = validationResult
+              ? (validationResult.isValid ? 'verified' : 'needs_review')
+              : ((ocrResult.data.confidence || 0) > 50 ? 'verified' : 'needs_review');
+
+            await updateDocumentStatus(document.id, ocrStatus);
+
             // Atualizar o documento com os dados do OCR
             [document] = await db
               .update(documents)
               .set({
                 ocrData: JSON.stringify(ocrResult.data),
                 ocrQuality: ocrResult.data.confidence || 0,
-                status: (ocrResult.data.confidence || 0) > 50 ? 'verified' : 'needs_review',
+                ...(validationResult ? { verificationResult: JSON.stringify(validationResult) } : {}),
                 updatedAt: new Date()
               })
               .where(eq(documents.id, document.id))
               .returning();
               
-            // Se foi realizada validação cruzada, guardar também os resultados
-            if (ocrResult.data.validationResults) {
-              const validationResult = {
-                isValid: ocrResult.data.validationResults.isValid,
-                documentType: ocrResult.data.documentType || "unknown",
-                fieldsFound: Object.keys(ocrResult.data.fields || {}).length,
-                fieldsVerified: Object.keys(ocrResult.data.validationResults.fieldValidations).filter(key => 
-                  ocrResult.data.validationResults.fieldValidations[key].isValid).length,
-                score: ocrResult.data.validationResults.score,
-                fieldValidations: ocrResult.data.validationResults.fieldValidations || {},
-                verifiedAt: new Date().toISOString()
-              };
-              
-              [document] = await db
-                .update(documents)
-                .set({
-                  verificationResult: JSON.stringify(validationResult),
-                  status: validationResult.isValid ? 'verified' : 'needs_review',
-                  updatedAt: new Date()
-                })
-                .where(eq(documents.id, document.id))
-                .returning();
-                
+            if (validationResult) {
               // Atualizar o status da matrícula com base nos resultados da verificação de documento
               await checkAndUpdateEnrollmentDocumentStatus(document.enrollmentId);
             }
@@ -0,0 +1,184 @@
+/**
+ * Rotas do construtor de formulários de matrícula
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { enrollmentFormService } from './services/enrollmentFormService';
+import { formDefinitionSchema, insertEnrollmentFormSchema } from '@shared/enrollment-form.schema';
+import { canManageSchool } from './middleware/auth';
+
+/**
+ * Registra rotas dos formulários de matrícula
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerEnrollmentFormRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /api/schools/:schoolId/forms
+   * @desc Listar formulários de matrícula da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:schoolId/forms', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const forms = await enrollmentFormService.listForms(schoolId);
+      res.json(forms);
+    } catch (error) {
+      console.error('Erro ao listar formulários:', error);
+      res.status(500).json({
+        message: 'Erro ao listar formulários',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:schoolId/forms
+   * @desc Criar formulário de matrícula (da escola ou de um curso)
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:schoolId/forms', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = insertEnrollmentFormSchema.parse(req.body);
+      const form = await enrollmentFormService.createForm(schoolId, data, req.user!.id);
+
+      res.status(201).json(form);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao criar formulário:', error);
+      res.status(500).json({
+        message: 'Erro ao criar formulário',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/forms/:formId
+   * @desc Obter formulário com suas versões
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/forms/:formId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const form = await enrollmentFormService.getForm(parseInt(req.params.formId));
+      if (!form) {
+        return res.status(404).json({ message: 'Formulário não encontrado' });
+      }
+      if (!canManageSchool(req.user, form.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const versions = await enrollmentFormService.listVersions(form.id);
+      res.json({ ...form, versions });
+    } catch (error) {
+      console.error('Erro ao obter formulário:', error);
+      res.status(500).json({
+        message: 'Erro ao obter formulário',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/forms/:formId/versions
+   * @desc Publicar nova versão do formulário
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/forms/:formId/versions', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const form = await enrollmentFormService.getForm(parseInt(req.params.formId));
+      if (!form) {
+        return res.status(404).json({ message: 'Formulário não encontrado' });
+      }
+      if (!canManageSchool(req.user, form.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const definition = formDefinitionSchema.parse(req.body.definition);
+      const version = await enrollmentFormService.publishVersion(form.id, definition, req.user!.id);
+
+      res.status(201).json(version);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Definição de formulário inválida', errors: error.errors });
+      }
+      console.error('Erro ao publicar versão do formulário:', error);
+      res.status(400).json({
+        message: 'Erro ao publicar versão do formulário',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/forms/:formId
+   * @desc Arquivar formulário (respostas coletadas são mantidas)
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/forms/:formId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const form = await enrollmentFormService.getForm(parseInt(req.params.formId));
+      if (!form) {
+        return res.status(404).json({ message: 'Formulário não encontrado' });
+      }
+      if (!canManageSchool(req.user, form.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      await enrollmentFormService.archiveForm(form.id, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao arquivar formulário:', error);
+      res.status(500).json({
+        message: 'Erro ao arquivar formulário',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/form
+   * @desc Formulário (na versão correta) e respostas já enviadas da matrícula
+   * @access Public (formulário de matrícula)
+   */
+  app.get('/api/enrollments/:id/form', async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'ID de matrícula inválido' });
+      }
+
+      const resolved = await enrollmentFormService.getFormForEnrollment(enrollmentId);
+      if (!resolved) {
+        return res.status(404).json({ message: 'Nenhum formulário publicado para esta matrícula' });
+      }
+
+      res.json({
+        formId: resolved.form.id,
+        name: resolved.form.name,
+        formVersionId: resolved.version.id,
+        version: resolved.version.version,
+        definition: resolved.version.definition,
+        answers: resolved.submission?.answers || {},
+      });
+    } catch (error) {
+      console.error('Erro ao obter formulário da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao obter formulário da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -1,14 +1,13 @@
 import { Request, Response, Express } from "express";
 import { storage } from "./storage";
 import { enrollmentSchema as insertEnrollmentSchema } from "@shared/schema";
-// Temporário até implementarmos o schema completo
-const insertAnswerSchema = z.object({
-  enrollmentId: z.number(),
-  questionId: z.number(),
-  answer: z.string(),
-});
 import { z } from "zod";
 import { sendSchoolNotification, sendUserNotification } from "./pusher";
+import { enrollmentWorkflowService } from "./services/enrollmentWorkflowService";
+import { courseSeatService } from "./services/courseSeatService";
+import { enrollmentFormService } from "./services/enrollmentFormService";
+import { guardianService } from "./services/guardianService";
+import { canManageSchool } from "./middleware/auth";
 
 export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
   // Get all enrollments with optional filtering
@@ -69,7 +68,14 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
   app.post("/api/enrollments", async (req: Request, res: Response) => {
     try {
       const enrollmentData = insertEnrollmentSchema.parse(req.body);
+      
+      // New enrollments always start at the school's workflow initial state
+      enrollmentData.status = await enrollmentWorkflowService.getInitialStatus(enrollmentData.schoolId);
       const enrollment = await storage.createEnrollment(enrollmentData);
+      await enrollmentWorkflowService.recordInitialStatus(enrollment.id, enrollment.status || enrollmentData.status, (req.user as any)?.id);
+      
+      // Reserve a seat while the student fills the form, or put them on the waitlist
+      const seat = await courseSeatService.requestSeat(enrollment);
       
       // Send notification to school about new enrollment
       if (enrollment.schoolId) {
@@ -82,7 +88,7 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
         });
       }
       
-      res.status(201).json(enrollment);
+      res.status(201).json({ ...enrollment, seat });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid enrollment data", errors: error.errors });
@@ -92,11 +98,20 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
     }
   });
 
+  // Fields an enrollment update may change; school, course and payment status
+  // only change through their own flows
+  const enrollmentUpdateSchema = z.object({
+    status: z.string().min(1).optional(),
+    statusReason: z.string().optional(),
+    semester: z.string().optional(),
+    year: z.string().optional(),
+    metadata: z.record(z.any()).optional(),
+  }).strict();
+
   // Update an enrollment
-  app.patch("/api/enrollments/:id", async (req: Request, res: Response) => {
+  app.patch("/api/enrollments/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const enrollmentData = req.body;
       
       // Garantir que o id seja um número válido
       const enrollmentId = Number(id);
@@ -110,11 +125,44 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
         return res.status(404).json({ message: "Enrollment not found" });
       }
       
-      // Update enrollment
-      const updatedEnrollment = await storage.updateEnrollment(enrollmentId, enrollmentData);
+      // The school, the student or a linked guardian may update the enrollment
+      const user = req.user!;
+      const canUpdate = canManageSchool(user, existingEnrollment.schoolId) ||
+        await guardianService.canActForStudent(user.id, existingEnrollment.studentId);
+      if (!canUpdate) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { status: requestedStatus, statusReason, ...enrollmentData } = enrollmentUpdateSchema.parse(req.body);
+      
+      // Status changes must follow the school's enrollment workflow
+      let updatedEnrollment: any = existingEnrollment;
+      let completed = false;
+      if (requestedStatus && requestedStatus !== existingEnrollment.status) {
+        const result = await enrollmentWorkflowService.transition(enrollmentId, requestedStatus, {
+          userId: user.id,
+          role: user.role,
+          reason: statusReason,
+        });
+        
+        if (!result.success) {
+          return res.status(422).json({
+            message: result.message,
+            failedConditions: result.failedConditions,
+            allowedTransitions: result.allowedTransitions,
+          });
+        }
+        updatedEnrollment = result.enrollment;
+        completed = result.outcome === "success";
+      }
+      
+      // Update remaining fields
+      if (Object.keys(enrollmentData).length > 0) {
+        updatedEnrollment = await storage.updateEnrollment(enrollmentId, { ...enrollmentData, updatedById: user.id });
+      }
       
-      // If status has changed to completed, send notifications
-      if (enrollmentData.status === "completed" && existingEnrollment.status !== "completed") {
+      // If the enrollment reached a successful final state, send notifications
+      if (completed) {
         // Notify the school about completed enrollment
         if (existingEnrollment.schoolId) {
           await sendSchoolNotification(existingEnrollment.schoolId, {
@@ -126,14 +174,15 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
           });
         }
         
-        // Notify the user if studentId exists
+        // Notify the student and their guardians
         if (existingEnrollment.studentId) {
-          // Get student user ID
-          const student = await storage.getStudent(existingEnrollment.studentId);
-          if (student) {
-            await sendUserNotification(student.userId, {
+          const recipients = await guardianService.getNotificationRecipients(existingEnrollment.studentId);
+          for (const recipient of recipients) {
+            await sendUserNotification(recipient.userId, {
               title: "Matrícula concluída",
-              message: "Sua matrícula foi finalizada com sucesso",
+              message: recipient.role === "guardian"
+                ? "A matrícula do seu dependente foi finalizada com sucesso"
+                : "Sua matrícula foi finalizada com sucesso",
               type: "enrollment",
               relatedId: existingEnrollment.id,
               relatedType: "enrollment"
@@ -144,6 +193,9 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
       
       res.json(updatedEnrollment);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid enrollment data", errors: error.errors });
+      }
       console.error("Error updating enrollment:", error);
       res.status(500).json({ message: "Error updating enrollment" });
     }
@@ -176,13 +228,18 @@ export function registerEnrollmentRoutes(app: Express, isAuthenticated: any) {
         return res.status(400).json({ message: "Invalid enrollment ID" });
       }
       
-      const answerData = insertAnswerSchema.parse({
-        ...req.body,
-        enrollmentId: enrollmentId
-      });
+      // Answers keyed by field are always validated against the enrollment's form version
+      const { answers, sections, formVersionId } = z.object({
+        answers: z.record(z.any()),
+        sections: z.array(z.string()).optional(),
+        formVersionId: z.number().optional(),
+      }).parse(req.body);
       
-      const answer = await storage.createAnswer(answerData);
-      res.status(201).json(answer);
+      const result = await enrollmentFormService.submitAnswers(enrollmentId, answers, { sections, formVersionId });
+      if (!result.success) {
+        return res.status(422).json({ message: result.message, errors: result.errors });
+      }
+      res.status(201).json(result.submission);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid answer data", errors: error.errors });
@@ -0,0 +1,190 @@
+/**
+ * Rotas do fluxo de matrículas (máquina de estados configurável por escola)
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import {
+  enrollmentWorkflowService,
+  workflowDefinitionSchema,
+  DEFAULT_WORKFLOW
+} from './services/enrollmentWorkflowService';
+import { requireSchoolManager } from './middleware/auth';
+
+/**
+ * Registra rotas do fluxo de matrículas
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerEnrollmentWorkflowRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /api/schools/:schoolId/enrollment-workflow
+   * @desc Obter o fluxo de matrícula da escola
+   * @access Private
+   */
+  app.get('/api/schools/:schoolId/enrollment-workflow', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (isNaN(schoolId)) {
+        return res.status(400).json({ message: 'ID de escola inválido' });
+      }
+
+      const workflow = await enrollmentWorkflowService.getWorkflow(schoolId);
+      res.json(workflow);
+    } catch (error) {
+      console.error('Erro ao obter fluxo de matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao obter fluxo de matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:schoolId/enrollment-workflow
+   * @desc Criar ou substituir o fluxo de matrícula da escola
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:schoolId/enrollment-workflow',
+    isAuthenticated,
+    requireSchoolManager,
+    async (req: Request, res: Response) => {
+      try {
+        const schoolId = parseInt(req.params.schoolId);
+        const definition = workflowDefinitionSchema.parse(req.body);
+
+        const workflow = await enrollmentWorkflowService.saveWorkflow(schoolId, definition, req.user!.id);
+        res.json(workflow);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: 'Definição de fluxo inválida', errors: error.errors });
+        }
+        console.error('Erro ao salvar fluxo de matrícula:', error);
+        res.status(400).json({
+          message: 'Erro ao salvar fluxo de matrícula',
+          error: error instanceof Error ? error.message : 'Erro desconhecido'
+        });
+      }
+    }
+  );
+
+  /**
+   * @route DELETE /api/schools/:schoolId/enrollment-workflow
+   * @desc Voltar ao fluxo padrão
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:schoolId/enrollment-workflow',
+    isAuthenticated,
+    requireSchoolManager,
+    async (req: Request, res: Response) => {
+      try {
+        const schoolId = parseInt(req.params.schoolId);
+        await enrollmentWorkflowService.resetWorkflow(schoolId, req.user!.id);
+
+        res.json({ ...DEFAULT_WORKFLOW, id: null, schoolId, active: true });
+      } catch (error) {
+        console.error('Erro ao restaurar fluxo padrão:', error);
+        res.status(500).json({
+          message: 'Erro ao restaurar fluxo padrão',
+          error: error instanceof Error ? error.message : 'Erro desconhecido'
+        });
+      }
+    }
+  );
+
+  /**
+   * @route GET /api/enrollments/:id/transitions
+   * @desc Listar as transições disponíveis para a matrícula
+   * @access Private
+   */
+  app.get('/api/enrollments/:id/transitions', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'ID de matrícula inválido' });
+      }
+
+      const result = await enrollmentWorkflowService.getTransitionsForEnrollment(enrollmentId, req.user?.role);
+      if (!result) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Erro ao listar transições da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao listar transições da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/transitions
+   * @desc Executar uma transição de status
+   * @access Private
+   */
+  app.post('/api/enrollments/:id/transitions', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'ID de matrícula inválido' });
+      }
+
+      const { to, reason } = z.object({
+        to: z.string().min(1, 'Estado de destino é obrigatório'),
+        reason: z.string().optional(),
+      }).parse(req.body);
+
+      const existing = await storage.getEnrollment(enrollmentId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+
+      const result = await enrollmentWorkflowService.transition(enrollmentId, to, {
+        userId: req.user?.id,
+        role: req.user?.role,
+        reason,
+      });
+
+      if (!result.success) {
+        return res.status(422).json(result);
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao executar transição da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao executar transição da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/history
+   * @desc Histórico de mudanças de status da matrícula
+   * @access Private
+   */
+  app.get('/api/enrollments/:id/history', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollmentId = parseInt(req.params.id);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'ID de matrícula inválido' });
+      }
+
+      const history = await enrollmentWorkflowService.getHistory(enrollmentId);
+      res.json(history);
+    } catch (error) {
+      console.error('Erro ao obter histórico da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao obter histórico da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -0,0 +1,486 @@
+/**
+ * Rotas de responsáveis (pais/tutores) e seus dependentes
+ */
+
+import { Express, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { storage } from './storage';
+import { hashPassword } from './auth';
+import { guardianService } from './services/guardianService';
+import { securityService } from './services/securityService';
+import { discountService } from './services/discountService';
+import { paymentProcessor } from './services/paymentProcessor';
+
+// Documentos dos dependentes: até 5MB, imagens ou PDF
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (['image/jpeg', 'image/png', 'application/pdf'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Tipo de arquivo não permitido. Envie apenas JPEG, PNG ou PDF.'));
+    }
+  },
+});
+
+// Prazo de vencimento do boleto/PIX emitido pelo responsável
+const GUARDIAN_PAYMENT_DUE_DAYS = 3;
+
+const guardianProfileSchema = z.object({
+  cpf: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  zipCode: z.string().optional(),
+});
+
+const linkGuardianSchema = z.object({
+  email: z.string().email('Email inválido'),
+  relationship: z.string().optional(),
+  financialResponsible: z.boolean().default(false),
+});
+
+const acceptInvitationSchema = z.object({
+  fullName: z.string().min(3, 'Nome completo deve ter pelo menos 3 caracteres'),
+  username: z.string().min(3, 'Nome de usuário deve ter pelo menos 3 caracteres'),
+  password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
+  phone: z.string().optional(),
+});
+
+const guardianDocumentSchema = z.object({
+  type: z.enum(['id', 'address', 'diploma', 'transcripts', 'photo', 'other']),
+  title: z.string().trim().max(200).optional(),
+});
+
+const guardianPaymentSchema = z.object({
+  paymentMethod: z.enum(['pix', 'bank_slip']),
+});
+
+/**
+ * Registra rotas de responsáveis
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerGuardianRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Middleware que restringe a rota a usuários responsáveis
+   */
+  const isGuardian = (req: Request, res: Response, next: Function) => {
+    if (req.user?.role !== 'guardian') {
+      return res.status(403).json({ message: 'Disponível apenas para responsáveis' });
+    }
+    next();
+  };
+
+  /**
+   * Verifica se o usuário pode gerenciar os responsáveis do aluno
+   */
+  const canManageStudent = async (req: Request, res: Response, next: Function) => {
+    const student = await storage.getStudent(parseInt(req.params.studentId));
+    if (!student) {
+      return res.status(404).json({ message: 'Aluno não encontrado' });
+    }
+
+    if (req.user!.role === 'admin' || (req.user!.role === 'school' && req.user!.schoolId === student.schoolId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  /**
+   * Carrega a matrícula informada se o responsável logado responde pelo aluno
+   */
+  const getDependentEnrollment = async (req: Request, res: Response) => {
+    const enrollment = await storage.getEnrollment(parseInt(req.params.enrollmentId));
+    if (!enrollment) {
+      res.status(404).json({ message: 'Matrícula não encontrada' });
+      return null;
+    }
+
+    if (!await guardianService.canActForStudent(req.user!.id, enrollment.studentId)) {
+      res.status(403).json({ message: 'Acesso negado' });
+      return null;
+    }
+
+    return enrollment;
+  };
+
+  /**
+   * @route GET /api/guardians/me
+   * @desc Dados do responsável logado
+   * @access Private (responsável)
+   */
+  app.get('/api/guardians/me', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const guardian = await guardianService.getGuardianByUserId(req.user!.id);
+      res.json(guardian || { userId: req.user!.id, cpf: null });
+    } catch (error) {
+      console.error('Erro ao obter responsável:', error);
+      res.status(500).json({
+        message: 'Erro ao obter responsável',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/guardians/me
+   * @desc Atualizar CPF e endereço do responsável (usados nas cobranças)
+   * @access Private (responsável)
+   */
+  app.put('/api/guardians/me', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const data = guardianProfileSchema.parse(req.body);
+
+      if (data.cpf) {
+        const validation = securityService.validateCpf(data.cpf);
+        if (!validation.valid) {
+          return res.status(400).json({ message: validation.message });
+        }
+      }
+
+      const guardian = await guardianService.upsertGuardian(req.user!.id, data);
+      res.json(guardian);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar responsável:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar responsável',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/guardians/me/students
+   * @desc Dependentes do responsável logado
+   * @access Private (responsável)
+   */
+  app.get('/api/guardians/me/students', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const students = await guardianService.getStudentsForGuardian(req.user!.id);
+      res.json(students);
+    } catch (error) {
+      console.error('Erro ao listar dependentes:', error);
+      res.status(500).json({
+        message: 'Erro ao listar dependentes',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/guardians/me/enrollments
+   * @desc Matrículas dos dependentes
+   * @access Private (responsável)
+   */
+  app.get('/api/guardians/me/enrollments', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const enrollments = await guardianService.getEnrollmentsForGuardian(req.user!.id);
+      res.json(enrollments);
+    } catch (error) {
+      console.error('Erro ao listar matrículas dos dependentes:', error);
+      res.status(500).json({
+        message: 'Erro ao listar matrículas dos dependentes',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/guardians/me/documents
+   * @desc Documentos das matrículas dos dependentes
+   * @access Private (responsável)
+   */
+  app.get('/api/guardians/me/documents', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const documents = await guardianService.getDocumentsForGuardian(req.user!.id);
+      res.json(documents);
+    } catch (error) {
+      console.error('Erro ao listar documentos dos dependentes:', error);
+      res.status(500).json({
+        message: 'Erro ao listar documentos dos dependentes',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/guardians/me/payments
+   * @desc Pagamentos dos dependentes
+   * @access Private (responsável)
+   */
+  app.get('/api/guardians/me/payments', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const payments = await guardianService.getPaymentsForGuardian(req.user!.id);
+      res.json(payments);
+    } catch (error) {
+      console.error('Erro ao listar pagamentos dos dependentes:', error);
+      res.status(500).json({
+        message: 'Erro ao listar pagamentos dos dependentes',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/guardians/me/enrollments/:enrollmentId/documents
+   * @desc Enviar um documento para a matrícula do dependente
+   * @access Private (responsável)
+   */
+  app.post('/api/guardians/me/enrollments/:enrollmentId/documents', isAuthenticated, isGuardian, upload.single('file'), async (req: Request, res: Response) => {
+    try {
+      const enrollment = await getDependentEnrollment(req, res);
+      if (!enrollment) return;
+
+      if (!req.file) {
+        return res.status(400).json({ message: 'Nenhum arquivo foi enviado' });
+      }
+
+      const data = guardianDocumentSchema.parse(req.body);
+      const document = await guardianService.addEnrollmentDocument(req.user!.id, enrollment, {
+        buffer: req.file.buffer,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+      }, data);
+
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao enviar documento do dependente:', error);
+      res.status(500).json({
+        message: 'Erro ao enviar documento do dependente',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/guardians/me/enrollments/:enrollmentId/payments
+   * @desc Emitir boleto ou PIX da matrícula do dependente no nome do responsável financeiro
+   * @access Private (responsável)
+   */
+  app.post('/api/guardians/me/enrollments/:enrollmentId/payments', isAuthenticated, isGuardian, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await getDependentEnrollment(req, res);
+      if (!enrollment) return;
+
+      const { paymentMethod } = guardianPaymentSchema.parse(req.body);
+
+      if (enrollment.paymentStatus === 'paid') {
+        return res.status(400).json({ message: 'A matrícula já está paga' });
+      }
+
+      const course = await storage.getCourse(enrollment.courseId);
+      const price = parseFloat(course?.price || '');
+      if (!price || price <= 0) {
+        return res.status(400).json({ message: 'O curso não tem valor de matrícula definido' });
+      }
+
+      const quote = await discountService.quoteForEnrollment(enrollment.id, price, 'enrollment_fee');
+      if (quote.finalAmount <= 0) {
+        return res.status(400).json({ message: 'Não há valor a pagar para esta matrícula' });
+      }
+
+      const options = await paymentProcessor.buildEnrollmentBillingOptions(enrollment, {
+        amount: quote.finalAmount,
+        dueDate: new Date(Date.now() + GUARDIAN_PAYMENT_DUE_DAYS * 24 * 60 * 60 * 1000),
+        description: `Pagamento da matrícula - ${course!.name}`,
+        reference: `enrollment_${enrollment.id}`,
+        settlesEnrollment: true,
+      });
+
+      // Só os dados de pagamento vão para o navegador, sem a resposta bruta do gateway
+      let charge: { paymentId?: string; expiresAt?: Date; [key: string]: any };
+      if (paymentMethod === 'pix') {
+        const pix = await paymentProcessor.generatePixPayment(options);
+        charge = { paymentId: pix.paymentId, qrCode: pix.qrCode, qrCodeImage: pix.qrCodeImage, expiresAt: pix.expiresAt };
+      } else {
+        const slip = await paymentProcessor.generateBankSlip(options);
+        charge = { paymentId: slip.paymentId, url: slip.url, code: slip.code, expiresAt: slip.expiresAt };
+      }
+
+      const paymentId = charge.paymentId ? parseInt(charge.paymentId) : NaN;
+      if (!isNaN(paymentId)) {
+        await discountService.recordApplication(paymentId, enrollment.id, quote.discounts);
+      }
+
+      res.status(201).json({ ...charge, paymentMethod, quote });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao emitir pagamento do dependente:', error);
+      res.status(500).json({
+        message: 'Erro ao emitir pagamento do dependente',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/guardian-invitations/:token
+   * @desc Dados do convite para criar a conta de responsável
+   * @access Public (link do convite)
+   */
+  app.get('/api/guardian-invitations/:token', async (req: Request, res: Response) => {
+    try {
+      const invitation = await guardianService.getPendingInvitation(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: 'Convite inválido ou expirado' });
+      }
+
+      res.json({
+        email: invitation.email,
+        studentName: invitation.studentName,
+        schoolName: invitation.schoolName,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      console.error('Erro ao obter convite:', error);
+      res.status(500).json({
+        message: 'Erro ao obter convite',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/guardian-invitations/:token/accept
+   * @desc Criar a conta de responsável pelo convite e vincular o aluno
+   * @access Public (link do convite)
+   */
+  app.post('/api/guardian-invitations/:token/accept', async (req: Request, res: Response) => {
+    try {
+      const data = acceptInvitationSchema.parse(req.body);
+
+      const invitation = await guardianService.getPendingInvitation(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: 'Convite inválido ou expirado' });
+      }
+
+      if (await storage.getUserByEmail(invitation.email)) {
+        return res.status(400).json({ message: 'Já existe uma conta com este email. Peça à escola para vinculá-la ao aluno.' });
+      }
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(400).json({ message: 'Username já está em uso' });
+      }
+
+      // O email e o papel vêm do convite, nunca do formulário
+      const user = await storage.createUser({
+        username: data.username,
+        email: invitation.email,
+        password: await hashPassword(data.password),
+        fullName: data.fullName,
+        role: 'guardian',
+        phone: data.phone || null,
+        schoolId: null,
+        profileImage: null,
+        supabaseId: null,
+      });
+
+      const link = await guardianService.acceptInvitation(req.params.token, user.id);
+      res.status(201).json({ success: true, link });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao aceitar convite:', error);
+      res.status(500).json({
+        message: 'Erro ao aceitar convite',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/students/:studentId/guardians
+   * @desc Responsáveis de um aluno
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/students/:studentId/guardians', isAuthenticated, canManageStudent, async (req: Request, res: Response) => {
+    try {
+      const guardians = await guardianService.getGuardiansForStudent(parseInt(req.params.studentId));
+      res.json(guardians);
+    } catch (error) {
+      console.error('Erro ao listar responsáveis do aluno:', error);
+      res.status(500).json({
+        message: 'Erro ao listar responsáveis do aluno',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/students/:studentId/guardians
+   * @desc Vincular um responsável já cadastrado ou convidar por email quem ainda não tem conta
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/students/:studentId/guardians', isAuthenticated, canManageStudent, async (req: Request, res: Response) => {
+    try {
+      const data = linkGuardianSchema.parse(req.body);
+
+      const user = await storage.getUserByEmail(data.email);
+      if (!user) {
+        const invitation = await guardianService.createInvitation(parseInt(req.params.studentId), data, req.user!.id);
+        return res.status(202).json({ invited: true, invitation });
+      }
+      if (user.role !== 'guardian') {
+        return res.status(400).json({ message: 'O usuário informado não tem perfil de responsável' });
+      }
+
+      const guardian = await guardianService.getGuardianByUserId(user.id)
+        || await guardianService.upsertGuardian(user.id, {});
+
+      const link = await guardianService.linkStudent(guardian.id, parseInt(req.params.studentId), {
+        relationship: data.relationship,
+        financialResponsible: data.financialResponsible,
+      }, req.user!.id);
+
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao vincular responsável:', error);
+      res.status(500).json({
+        message: 'Erro ao vincular responsável',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/students/:studentId/guardians/:guardianId
+   * @desc Remover vínculo entre responsável e aluno
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/students/:studentId/guardians/:guardianId', isAuthenticated, canManageStudent, async (req: Request, res: Response) => {
+    try {
+      const removed = await guardianService.unlinkStudent(
+        parseInt(req.params.guardianId),
+        parseInt(req.params.studentId),
+        req.user!.id
+      );
+
+      if (!removed) {
+        return res.status(404).json({ message: 'Vínculo não encontrado' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao remover responsável:', error);
+      res.status(500).json({
+        message: 'Erro ao remover responsável',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
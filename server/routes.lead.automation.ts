@@ -0,0 +1,328 @@
+/**
+ * Rotas de automação do funil de leads
+ * Regras de distribuição, SLA de primeira resposta, cadências de
+ * acompanhamento e tarefas dos atendentes
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { leadAutomationService } from './services/leadAutomationService';
+import { requireSchoolManager } from './middleware/auth';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido (HH:MM)');
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  strategy: z.enum(['round_robin', 'least_loaded']),
+  courseId: z.number().int().positive().nullable().optional(),
+  attendantIds: z.array(z.number().int().positive()).min(1, 'Selecione ao menos um atendente'),
+  workingHours: z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1, 'Selecione ao menos um dia'),
+    start: timeSchema,
+    end: timeSchema,
+  }).refine(hours => hours.start < hours.end, 'O início deve ser antes do fim').nullable().optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  active: z.boolean().optional(),
+});
+
+const slaSchema = z.object({
+  enabled: z.boolean(),
+  firstResponseMinutes: z.number().int().min(5).max(7 * 24 * 60),
+});
+
+const cadenceSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  courseId: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+  steps: z.array(z.object({
+    dayOffset: z.number().int().min(0).max(180),
+    channel: z.enum(['whatsapp', 'email', 'task']),
+    templateId: z.number().int().positive().nullable().optional(),
+    subject: z.string().trim().max(200).nullable().optional(),
+    content: z.string().trim().min(1, 'Conteúdo é obrigatório').max(4000),
+  })).min(1, 'Inclua ao menos um passo').max(20),
+});
+
+const tasksQuerySchema = z.object({
+  status: z.enum(['open', 'done']).optional(),
+  mine: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * Registra rotas de automação de leads
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerLeadAutomationRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Verifica se o usuário atende a escola informada (inclui atendentes)
+   */
+  const canAccessSchool = (req: Request, res: Response, next: Function) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Não autorizado' });
+    }
+
+    const schoolId = parseInt(req.params.id);
+    if (isNaN(schoolId)) {
+      return res.status(400).json({ message: 'ID de escola inválido' });
+    }
+
+    if (req.user.role === 'admin' || ((req.user.role === 'school' || req.user.role === 'attendant') && req.user.schoolId === schoolId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  /**
+   * Resposta de erro padrão: dados inválidos (400) ou falha interna (500)
+   */
+  const handleError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  };
+
+  /**
+   * @route GET /api/schools/:id/lead-assignment-rules
+   * @desc Regras de distribuição de leads e atendentes disponíveis
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/lead-assignment-rules', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const [rules, attendants] = await Promise.all([
+        leadAutomationService.listRules(schoolId),
+        leadAutomationService.listAttendants(schoolId),
+      ]);
+      res.json({ rules, attendants });
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar regras de distribuição');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/lead-assignment-rules
+   * @desc Cria uma regra de distribuição de leads
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/lead-assignment-rules', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = ruleSchema.parse(req.body);
+      const rule = await leadAutomationService.createRule(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(rule);
+    } catch (error) {
+      handleError(res, error, 'Erro ao criar regra de distribuição');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/lead-assignment-rules/:ruleId
+   * @desc Atualiza uma regra de distribuição de leads
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/lead-assignment-rules/:ruleId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = ruleSchema.parse(req.body);
+      const rule = await leadAutomationService.updateRule(parseInt(req.params.id), parseInt(req.params.ruleId), data, req.user!.id);
+      res.json(rule);
+    } catch (error) {
+      handleError(res, error, 'Erro ao atualizar regra de distribuição');
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/lead-assignment-rules/:ruleId
+   * @desc Remove uma regra de distribuição de leads
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/lead-assignment-rules/:ruleId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      await leadAutomationService.deleteRule(parseInt(req.params.id), parseInt(req.params.ruleId), req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Erro ao remover regra de distribuição');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/lead-sla
+   * @desc Configuração e indicadores do SLA de primeira resposta
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/lead-sla', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const [settings, report] = await Promise.all([
+        leadAutomationService.getSlaSettings(schoolId),
+        leadAutomationService.getSlaReport(schoolId, days),
+      ]);
+      res.json({ settings, report });
+    } catch (error) {
+      handleError(res, error, 'Erro ao obter SLA de leads');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/lead-sla
+   * @desc Atualiza o prazo de primeira resposta
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/lead-sla', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = slaSchema.parse(req.body);
+      const settings = await leadAutomationService.updateSlaSettings(parseInt(req.params.id), data, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      handleError(res, error, 'Erro ao atualizar SLA de leads');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/lead-cadences
+   * @desc Cadências de acompanhamento da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/lead-cadences', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const cadences = await leadAutomationService.listCadences(parseInt(req.params.id));
+      res.json(cadences);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar cadências');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/lead-cadences
+   * @desc Cria uma cadência de acompanhamento
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/lead-cadences', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = cadenceSchema.parse(req.body);
+      const cadence = await leadAutomationService.createCadence(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(cadence);
+    } catch (error) {
+      handleError(res, error, 'Erro ao criar cadência');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/lead-cadences/:cadenceId
+   * @desc Atualiza uma cadência; desativá-la interrompe os leads em andamento
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/lead-cadences/:cadenceId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = cadenceSchema.parse(req.body);
+      const cadence = await leadAutomationService.updateCadence(parseInt(req.params.id), parseInt(req.params.cadenceId), data, req.user!.id);
+      res.json(cadence);
+    } catch (error) {
+      handleError(res, error, 'Erro ao atualizar cadência');
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/lead-cadences/:cadenceId
+   * @desc Remove uma cadência
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/lead-cadences/:cadenceId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      await leadAutomationService.deleteCadence(parseInt(req.params.id), parseInt(req.params.cadenceId), req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Erro ao remover cadência');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/lead-tasks
+   * @desc Tarefas de acompanhamento; atendentes veem apenas as próprias
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/schools/:id/lead-tasks', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const query = tasksQuerySchema.parse(req.query);
+      const onlyMine = req.user!.role === 'attendant' || query.mine === 'true';
+      const tasks = await leadAutomationService.listTasks(parseInt(req.params.id), {
+        status: query.status,
+        assignedTo: onlyMine ? req.user!.id : undefined,
+      });
+      res.json(tasks);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar tarefas');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/lead-tasks/:taskId/complete
+   * @desc Conclui uma tarefa de acompanhamento
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/schools/:id/lead-tasks/:taskId/complete', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const task = await leadAutomationService.completeTask(parseInt(req.params.id), parseInt(req.params.taskId), req.user!.id);
+      res.json(task);
+    } catch (error) {
+      handleError(res, error, 'Erro ao concluir tarefa');
+    }
+  });
+
+  /**
+   * @route GET /api/leads/:id/automation
+   * @desc SLA, cadências e tarefas de um lead
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/leads/:id/automation', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead não encontrado' });
+      }
+
+      const user = req.user!;
+      const allowed = user.role === 'admin' || ((user.role === 'school' || user.role === 'attendant') && user.schoolId === lead.schoolId);
+      if (!allowed) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const status = await leadAutomationService.getLeadStatus(lead.id);
+      res.json(status);
+    } catch (error) {
+      handleError(res, error, 'Erro ao obter automações do lead');
+    }
+  });
+
+  /**
+   * @route POST /api/leads/:id/automation/stop
+   * @desc Interrompe manualmente as cadências do lead
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/leads/:id/automation/stop', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const lead = await storage.getLead(parseInt(req.params.id));
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead não encontrado' });
+      }
+
+      const user = req.user!;
+      const allowed = user.role === 'admin' || ((user.role === 'school' || user.role === 'attendant') && user.schoolId === lead.schoolId);
+      if (!allowed) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const stopped = await leadAutomationService.stopCadences(lead.id, 'manual');
+      res.json({ stopped });
+    } catch (error) {
+      handleError(res, error, 'Erro ao interromper cadências');
+    }
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Rotas de captação de leads
+ * Formulário público (página hospedada e embed), script de incorporação e
+ * configuração da captação pela escola
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { leadCaptureService } from './services/leadCaptureService';
+import { requireSchoolManager } from './middleware/auth';
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+const captureLeadSchema = z.object({
+  fullName: z.string().trim().min(2, 'Nome é obrigatório').max(150),
+  phone: z.string().trim().regex(/^[\d\s()+-]{10,20}$/, 'Telefone inválido'),
+  email: z.string().trim().email('Email inválido').optional().or(z.literal('').transform(() => undefined)),
+  courseId: z.coerce.number().int().positive().optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: 'É necessário aceitar o termo de consentimento' }) }),
+  channel: z.enum(['landing_page', 'embed']).default('landing_page'),
+  website: z.string().optional(),
+  startedAt: z.number().int().optional(),
+  utmSource: optionalText(200),
+  utmMedium: optionalText(200),
+  utmCampaign: optionalText(200),
+  utmTerm: optionalText(200),
+  utmContent: optionalText(200),
+  referrer: optionalText(500),
+  landingPage: optionalText(500),
+});
+
+const settingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  consentText: z.string().trim().min(10).max(2000).optional(),
+  successMessage: z.string().trim().min(1).max(500).optional(),
+  greetingEnabled: z.boolean().optional(),
+  greetingMessage: z.string().trim().min(1).max(1000).optional(),
+});
+
+/**
+ * Script que transforma os elementos `[data-edumatrik-leads]` em iframes do
+ * formulário hospedado, repassando UTMs e a página de origem
+ */
+function buildEmbedScript(origin: string): string {
+  return `(function () {
+  var ORIGIN = ${JSON.stringify(origin)};
+  var UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+  var pageParams = new URLSearchParams(window.location.search);
+
+  function mount(el) {
+    if (el.getAttribute('data-edumatrik-mounted')) return;
+    var school = el.getAttribute('data-school');
+    if (!school) return;
+    var course = el.getAttribute('data-course');
+    var params = new URLSearchParams({ embed: '1', page: window.location.href });
+    if (document.referrer) params.set('referrer', document.referrer);
+    UTM_KEYS.forEach(function (key) {
+      var value = pageParams.get(key) || el.getAttribute('data-' + key.replace('_', '-'));
+      if (value) params.set(key, value);
+    });
+
+    var iframe = document.createElement('iframe');
+    iframe.src = ORIGIN + '/captura/' + encodeURIComponent(school) + (course ? '/' + encodeURIComponent(course) : '') + '?' + params.toString();
+    iframe.title = 'Formulário de interesse';
+    iframe.style.cssText = 'width:100%;border:0;min-height:480px;';
+    iframe.setAttribute('loading', 'lazy');
+    el.appendChild(iframe);
+    el.setAttribute('data-edumatrik-mounted', '1');
+
+    window.addEventListener('message', function (event) {
+      if (event.origin !== ORIGIN || event.source !== iframe.contentWindow) return;
+      if (event.data && event.data.type === 'edumatrik:lead-form:height') {
+        iframe.style.height = event.data.height + 'px';
+      }
+    });
+  }
+
+  function init() {
+    var nodes = document.querySelectorAll('[data-edumatrik-leads]');
+    for (var i = 0; i < nodes.length; i++) mount(nodes[i]);
+  }
+
+  if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', init);
+  else init();
+})();
+`;
+}
+
+/**
+ * Registra rotas de captação de leads
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerLeadCaptureRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /embed/leads.js
+   * @desc Script de incorporação do formulário de captação em sites externos
+   * @access Public
+   */
+  app.get('/embed/leads.js', (req: Request, res: Response) => {
+    const origin = `${req.protocol}://${req.get('host')}`;
+    res.setHeader('Content-Type', 'application/javascript; charset=utf-8');
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.send(buildEmbedScript(origin));
+  });
+
+  /**
+   * @route GET /api/public/lead-forms/:schoolId
+   * @desc Dados do formulário público de captação da escola
+   * @access Public
+   */
+  app.get('/api/public/lead-forms/:schoolId', async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      const courseId = req.query.courseId ? parseInt(req.query.courseId as string) : undefined;
+      if (isNaN(schoolId) || (courseId !== undefined && isNaN(courseId))) {
+        return res.status(400).json({ message: 'Parâmetros inválidos' });
+      }
+
+      const form = await leadCaptureService.getPublicForm(schoolId, courseId);
+      res.json(form);
+    } catch (error) {
+      res.status(404).json({
+        message: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/public/lead-forms/:schoolId/leads
+   * @desc Registra um lead pelo formulário público
+   * @access Public
+   */
+  app.post('/api/public/lead-forms/:schoolId/leads', async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (isNaN(schoolId)) {
+        return res.status(400).json({ message: 'ID de escola inválido' });
+      }
+
+      const data = captureLeadSchema.parse(req.body);
+      const result = await leadCaptureService.captureLead(schoolId, data, {
+        ip: req.ip || req.socket.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent'),
+      });
+
+      if (result.status === 'rate_limited') {
+        res.setHeader('Retry-After', '600');
+        return res.status(429).json({ message: 'Muitos envios. Tente novamente em alguns minutos.' });
+      }
+
+      // Envios descartados pelo antispam recebem a mesma resposta
+      res.status(201).json({ success: true, message: result.successMessage });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao capturar lead:', error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/lead-capture
+   * @desc Configuração da captação de leads da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/lead-capture', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const settings = await leadCaptureService.getSettings(parseInt(req.params.id));
+      res.json(settings);
+    } catch (error) {
+      console.error('Erro ao obter configuração de captação:', error);
+      res.status(500).json({
+        message: 'Erro ao obter configuração de captação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/lead-capture
+   * @desc Atualiza a configuração da captação de leads da escola
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/lead-capture', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = settingsSchema.parse(req.body);
+      const settings = await leadCaptureService.updateSettings(parseInt(req.params.id), data);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar configuração de captação:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar configuração de captação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
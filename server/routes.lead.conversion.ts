@@ -0,0 +1,150 @@
+/**
+ * Rotas de pontuação e conversão de leads
+ * Conversão do lead em aluno e matrícula, pontuação de engajamento e funil
+ * de conversão por origem e por atendente
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { leadConversionService } from './services/leadConversionService';
+import { requireSchoolManager } from './middleware/auth';
+
+const DEFAULT_FUNNEL_DAYS = 30;
+
+const convertSchema = z.object({
+  courseId: z.number().int().positive().optional(),
+  email: z.string().trim().email('E-mail inválido').optional(),
+  cpf: z.string().trim().max(20).optional(),
+});
+
+const funnelQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * Registra rotas de pontuação e conversão de leads
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerLeadConversionRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Carrega o lead da rota e verifica se o usuário atende a escola dele
+   * @returns O lead ou null, com a resposta de erro já enviada
+   */
+  const loadAccessibleLead = async (req: Request, res: Response) => {
+    const lead = await storage.getLead(parseInt(req.params.id));
+    if (!lead) {
+      res.status(404).json({ message: 'Lead não encontrado' });
+      return null;
+    }
+
+    const user = req.user!;
+    const allowed = user.role === 'admin' || ((user.role === 'school' || user.role === 'attendant') && user.schoolId === lead.schoolId);
+    if (!allowed) {
+      res.status(403).json({ message: 'Acesso negado' });
+      return null;
+    }
+
+    return lead;
+  };
+
+  /**
+   * @route POST /api/leads/:id/convert
+   * @desc Converte o lead em aluno e matrícula vinculada ao lead
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/leads/:id/convert', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const lead = await loadAccessibleLead(req, res);
+      if (!lead) return;
+
+      const data = convertSchema.parse(req.body);
+      const result = await leadConversionService.convertLead(lead.id, data, req.user!.id);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao converter lead:', error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/leads/:id/score
+   * @desc Pontuação do lead e fatores que a compõem
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/leads/:id/score', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const lead = await loadAccessibleLead(req, res);
+      if (!lead) return;
+
+      let score = await leadConversionService.getScore(lead.id);
+      if (!score) {
+        await leadConversionService.refreshScores({ leadId: lead.id });
+        score = await leadConversionService.getScore(lead.id);
+      }
+
+      res.json({ score });
+    } catch (error) {
+      console.error('Erro ao obter pontuação do lead:', error);
+      res.status(500).json({
+        message: 'Erro ao obter pontuação do lead',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/lead-scores/refresh
+   * @desc Recalcula a pontuação dos leads em aberto da escola
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/lead-scores/refresh', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const linkedContacts = await leadConversionService.linkWhatsappContacts({ schoolId });
+      const scored = await leadConversionService.refreshScores({ schoolId });
+      res.json({ scored, linkedContacts });
+    } catch (error) {
+      console.error('Erro ao recalcular pontuações:', error);
+      res.status(500).json({
+        message: 'Erro ao recalcular pontuações',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/lead-funnel
+   * @desc Funil de conversão dos leads criados no período, por origem e por atendente
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/lead-funnel', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const query = funnelQuerySchema.parse(req.query);
+      const to = query.to || new Date();
+      const from = query.from || new Date(to.getTime() - DEFAULT_FUNNEL_DAYS * 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return res.status(400).json({ message: 'O início do período deve ser anterior ao fim' });
+      }
+
+      const funnel = await leadConversionService.getFunnel(parseInt(req.params.id), from, to);
+      res.json(funnel);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao obter funil de conversão:', error);
+      res.status(500).json({
+        message: 'Erro ao obter funil de conversão',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -1,17 +1,20 @@
 /**
  * Rotas aprimoradas para pagamentos
- * Implementa webhooks do Stripe, relatórios financeiros e
- * conciliação automática de pagamentos.
+ * Implementa relatórios financeiros e conciliação automática de pagamentos.
+ * Webhooks dos gateways ficam em routes.payment.ts.
  */
 
 import { Request, Response, NextFunction, Express } from 'express';
 import { storage } from './storage';
 import { db } from './db';
 import { eq, and, sql } from 'drizzle-orm';
+import stripe from './stripe';
 // Importar o PaymentProcessor como instância
 import { paymentProcessor } from './services/paymentProcessor';
+import { getAllPaymentGatewaySettings } from './models/paymentGatewaySettings';
 import { logAction } from './services/securityService';
 import { sendUserNotification } from './pusher';
+import { discountService } from './services/discountService';
 
 /**
  * Registra rotas aprimoradas de pagamento
@@ -56,8 +59,8 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
         return res.status(400).json({ error: 'Plano inválido' });
       }
       
-      // Use o processador de pagamento para criar uma sessão de checkout
-      const session = await paymentProcessor.stripe.checkout.sessions.create({
+      // Assinatura da plataforma: sempre na conta Stripe da plataforma, não no gateway da escola
+      const session = await stripe.checkout.sessions.create({
         payment_method_types: ['card'],
         line_items: [
           {
@@ -118,7 +121,7 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
   app.post('/api/payments/initialize', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
     try {
       // Verificar se as tabelas de logs financeiros existem
-      const hasFinancialLogsTable = await db.execute(`
+      const [hasFinancialLogsTable] = await db.execute(`
         SELECT EXISTS (
           SELECT FROM information_schema.tables 
           WHERE table_schema = 'public'
@@ -126,30 +129,27 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
         )
       `);
       
-      if (!hasFinancialLogsTable.rows[0].exists) {
+      if (!hasFinancialLogsTable?.exists) {
         // Criar tabelas usando o paymentProcessor
         await paymentProcessor.ensureTables();
         console.log('Tabelas de pagamento criadas com sucesso');
       }
       
-      // Verificar configuração do Stripe
-      const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-      const stripePublicKey = process.env.VITE_STRIPE_PUBLIC_KEY;
-      
-      if (!stripeSecretKey || !stripePublicKey) {
-        return res.status(400).json({
-          success: false,
-          error: 'Chaves da API do Stripe não configuradas',
-          missingKeys: {
-            secretKey: !stripeSecretKey,
-            publicKey: !stripePublicKey
-          }
-        });
-      }
+      // Gateways configurados (escolas sem conta própria usam as contas globais
+      // ou, sem nenhuma, o processador interno)
+      const activeGateways = (await getAllPaymentGatewaySettings()).filter(setting => setting.isActive);
       
       res.json({
         success: true,
-        message: 'Sistema de pagamentos inicializado com sucesso'
+        message: activeGateways.length > 0
+          ? 'Sistema de pagamentos inicializado com sucesso'
+          : 'Sistema de pagamentos inicializado sem gateways ativos; cobranças usarão o processador interno',
+        gateways: activeGateways.map(setting => ({
+          id: setting.id,
+          gateway: setting.gateway,
+          schoolId: setting.schoolId,
+          isDefault: setting.isDefault
+        }))
       });
       
       // Registrar ação no log de auditoria
@@ -178,7 +178,7 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
    */
   app.post('/api/payments/create-intent', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { enrollmentId, amount, currency = 'brl', metadata } = req.body;
+      const { enrollmentId, amount, currency = 'brl', paymentMethod, metadata } = req.body;
       
       if (!enrollmentId || !amount) {
         return res.status(400).json({
@@ -188,15 +188,7 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
       }
       
       // Buscar matrícula
-      const [enrollment] = await db.select({
-        id: 'enrollments.id',
-        studentId: 'enrollments.studentId',
-        schoolId: 'enrollments.schoolId',
-        status: 'enrollments.status',
-        paymentStatus: 'enrollments.paymentStatus'
-      })
-      .from('enrollments')
-      .where(eq('enrollments.id', enrollmentId));
+      const enrollment = await storage.getEnrollment(parseInt(enrollmentId));
       
       if (!enrollment) {
         return res.status(404).json({
@@ -230,27 +222,28 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
         amount,
         currency,
         {
+          userId: req.user.id,
           enrollmentId: enrollment.id,
-          studentId: enrollment.studentId as number,
-          schoolId: enrollment.schoolId as number,
+          studentId: enrollment.studentId,
+          schoolId: enrollment.schoolId,
+          paymentMethod,
           description: `Pagamento de matrícula #${enrollment.id}`,
-          ...metadata
+          metadata: { ...(metadata || {}), settlesEnrollment: true }
         }
       );
       
       const paymentIntent = {
         id: paymentResult.id,
-        clientSecret: paymentResult.gatewayResponse?.client_secret || '',
+        clientSecret: paymentResult.charge?.clientSecret || '',
+        paymentUrl: paymentResult.charge?.paymentUrl,
         status: paymentResult.status
       };
       
       // Atualizar status da matrícula para pagamento
-      await db.update('enrollments')
-        .set({
-          paymentStatus: 'pending',
-          updatedAt: new Date()
-        })
-        .where(eq('enrollments.id', enrollmentId));
+      await storage.updateEnrollment(enrollment.id, {
+        paymentStatus: 'pending',
+        updatedAt: new Date()
+      });
       
       // Registrar ação no log de auditoria
       await logAction(
@@ -270,7 +263,9 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
       res.json({
         success: true,
         clientSecret: paymentIntent.clientSecret,
-        paymentIntentId: paymentIntent.id
+        paymentIntentId: paymentIntent.id,
+        paymentUrl: paymentIntent.paymentUrl,
+        gateway: paymentResult.gateway
       });
     } catch (error) {
       console.error('Erro ao criar intent de pagamento:', error);
@@ -281,61 +276,6 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
     }
   });
   
-  /**
-   * @route POST /api/payments/webhook
-   * @desc Recebe webhooks do Stripe
-   * @access Public
-   */
-  app.post('/api/payments/webhook', async (req: Request, res: Response) => {
-    try {
-      const signature = req.headers['stripe-signature'] as string;
-      
-      if (!signature) {
-        return res.status(400).json({
-          success: false,
-          error: 'Assinatura do Stripe não fornecida'
-        });
-      }
-      
-      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-      
-      if (!webhookSecret) {
-        console.error('STRIPE_WEBHOOK_SECRET não está configurado no ambiente');
-        return res.status(500).json({
-          success: false,
-          error: 'Configuração do webhook não encontrada'
-        });
-      }
-      
-      // Obter payload como buffer para verificar assinatura
-      const payload = req.body;
-      
-      // Processar webhook usando o syncPaymentStatuses
-      // Já que não temos processStripeWebhook, vamos sincronizar os estados dos pagamentos
-      await paymentProcessor.syncPaymentStatuses();
-      
-      // E criamos um resultado simulado
-      const result = {
-        success: true
-      };
-      
-      if (!result.success) {
-        return res.status(400).json({
-          success: false,
-          error: result.error
-        });
-      }
-      
-      res.json({ received: true });
-    } catch (error) {
-      console.error('Erro ao processar webhook do Stripe:', error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
-    }
-  });
-  
   /**
    * @route GET /api/payments/school/:schoolId/report
    * @desc Obtém relatório financeiro de uma escola
@@ -364,15 +304,20 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
       
       // Criar um relatório básico usando dados disponíveis no sistema
       // Já que não temos getSchoolFinancialReport no paymentProcessor
-      const [totalPayments] = await db.execute(sql`
+      const [totalPayments] = await db.execute(`
         SELECT 
           COUNT(*) as count,
           SUM(CASE WHEN status = 'paid' THEN amount ELSE 0 END) as total_paid,
           SUM(CASE WHEN status = 'pending' THEN amount ELSE 0 END) as total_pending
         FROM payments
-        WHERE schoolId = ${schoolId}
-        AND createdAt BETWEEN ${startDate.toISOString()} AND ${endDate.toISOString()}
-      `);
+        WHERE school_id = $1
+        AND created_at BETWEEN $2 AND $3
+      `, [schoolId, startDate.toISOString(), endDate.toISOString()]);
+      
+      // Receita por desconto (bolsas, irmãos, cupons...)
+      const discounts = await discountService.getDiscountBreakdown(schoolId, startDate, endDate);
+      const totalDiscountPaid = discounts.reduce((sum, discount) => sum + discount.discountPaid, 0);
+      const totalPaid = parseFloat(totalPayments?.total_paid || '0');
       
       const report = {
         period: {
@@ -380,10 +325,13 @@ export function registerEnhancedPaymentRoutes(app: Express, isAuthenticated: any
           end: endDate
         },
         metrics: {
-          totalPayments: totalPayments.rows[0]?.count || 0,
-          totalPaid: totalPayments.rows[0]?.total_paid || 0,
-          totalPending: totalPayments.rows[0]?.total_pending || 0
-        }
+          totalPayments: parseInt(totalPayments?.count || '0'),
+          totalPaid,
+          totalPending: parseFloat(totalPayments?.total_pending || '0'),
+          grossPaid: Math.round((totalPaid + totalDiscountPaid) * 100) / 100,
+          totalDiscountPaid: Math.round(totalDiscountPaid * 100) / 100
+        },
+        discounts
       };
       
       res.json({
@@ -1,7 +1,12 @@
 import { Express, Request, Response } from 'express';
-import stripe from './stripe';
 import { db } from './db';
+import { storage } from './storage';
 import { enrollments } from '@shared/schema';
+import { discountService } from './services/discountService';
+import { guardianService } from './services/guardianService';
+import { paymentProcessor } from './services/paymentProcessor';
+import { paymentWebhookService } from './services/paymentWebhookService';
+import { canManageSchool } from './middleware/auth';
 import { pgTable, serial, text, integer, timestamp, jsonb } from 'drizzle-orm/pg-core';
 
 // Definição temporária da tabela de pagamentos
@@ -35,56 +40,78 @@ export function registerPaymentRoutes(app: Express, isAuthenticated: any) {
    */
   app.post('/api/payments/create-payment-intent', isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { enrollmentId, amount } = req.body;
+      const { enrollmentId, amount, paymentMethod } = req.body;
       
       if (!enrollmentId || !amount) {
         return res.status(400).json({ message: 'Os campos enrollmentId e amount são obrigatórios' });
       }
 
       // Busca a matrícula para verificar se existe
-      const [enrollment] = await db
-        .select()
-        .from(enrollments)
-        .where(eq(enrollments.id, enrollmentId));
+      const enrollment = await storage.getEnrollment(enrollmentId);
 
       if (!enrollment) {
         return res.status(404).json({ message: 'Matrícula não encontrada' });
       }
 
-      // Verifica se o usuário tem permissão para pagar esta matrícula
-      const canPay = req.user?.role === 'admin' || 
-                     req.user?.role === 'school' || 
-                     req.user?.id === enrollment.studentId;
+      // Escola, o próprio aluno ou um responsável podem pagar a matrícula
+      const canPay = canManageSchool(req.user, enrollment.schoolId) ||
+                     await guardianService.canActForStudent(req.user!.id, enrollment.studentId);
       
       if (!canPay) {
         return res.status(403).json({ message: 'Você não tem permissão para realizar este pagamento' });
       }
 
-      // Cria a intent de pagamento no Stripe
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Converte para centavos
-        currency: 'brl',
+      // Aplica descontos, bolsas e cupons da matrícula
+      const quote = await discountService.quoteForEnrollment(enrollment.id, Number(amount), 'enrollment_fee');
+
+      // Bolsa integral: não há o que cobrar
+      if (quote.finalAmount <= 0) {
+        await storage.updateEnrollment(enrollment.id, { paymentStatus: 'paid', updatedAt: new Date() });
+        return res.json({ clientSecret: null, quote });
+      }
+
+      // Dados do pagador (responsável financeiro ou aluno) para gateways que exigem CPF
+      const billingCustomer = await guardianService.getBillingCustomer(enrollment.studentId);
+
+      // Cria a cobrança no gateway configurado para a escola
+      const payment = await paymentProcessor.createPayment(quote.finalAmount, 'BRL', {
+        description: 'Pagamento da matrícula',
+        userId: req.user!.id,
+        studentId: enrollment.studentId,
+        enrollmentId: enrollment.id,
+        schoolId: enrollment.schoolId,
+        paymentMethod: paymentMethod || 'credit_card',
+        customer: billingCustomer ? {
+          name: billingCustomer.customerName,
+          document: billingCustomer.customerDocument,
+          email: billingCustomer.customerEmail,
+          phone: billingCustomer.customerPhone,
+          address: billingCustomer.customerAddress
+        } : undefined,
         metadata: {
-          enrollmentId: enrollmentId.toString(),
-          userId: req.user!.id.toString()
-        },
+          grossAmount: quote.baseAmount,
+          discountTotal: quote.totalDiscount,
+          discounts: quote.discounts,
+          // Confirmação do pagamento quita a matrícula
+          settlesEnrollment: true
+        }
       });
 
-      // Registra o pagamento no banco de dados
-      await db.insert(payments).values({
-        enrollmentId,
-        amount,
-        status: 'pending',
-        paymentMethod: 'credit-card',
-        stripePaymentIntentId: paymentIntent.id,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
+      // Registra os descontos aplicados
+      if (payment.paymentId) {
+        await discountService.recordApplication(parseInt(payment.paymentId), enrollment.id, quote.discounts);
+      }
 
-      // Retorna o client_secret para o frontend
+      // Retorna o client_secret (Stripe Elements) ou o checkout hospedado pelo gateway
       res.json({ 
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id
+        clientSecret: payment.charge?.clientSecret || null,
+        paymentIntentId: payment.id,
+        paymentUrl: payment.charge?.paymentUrl || null,
+        pixQrCode: payment.charge?.pixQrCode || null,
+        pixQrCodeImage: payment.charge?.pixQrCodeImage || null,
+        barcode: payment.charge?.barcode || null,
+        gateway: payment.gateway,
+        quote
       });
     } catch (error: any) {
       console.error('Erro ao criar intent de pagamento:', error);
@@ -93,76 +120,47 @@ export function registerPaymentRoutes(app: Express, isAuthenticated: any) {
   });
 
   /**
-   * @route POST /api/payments/webhook
-   * @desc Webhook para receber eventos do Stripe
-   * @access Public
+   * Grava o webhook de um gateway; os pagamentos são atualizados pela fila
    */
-  app.post('/api/payments/webhook', async (req: Request, res: Response) => {
-    const sig = req.headers['stripe-signature'] as string;
-    const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-    let event;
-
+  const handleGatewayWebhook = async (gateway: string, req: Request, res: Response) => {
     try {
-      // Apenas verificar a assinatura se o webhook secret estiver configurado
-      if (endpointSecret) {
-        event = stripe.webhooks.constructEvent(
-          req.body, 
-          sig, 
-          endpointSecret
-        );
-      } else {
-        // Se não tiver webhook secret, confia no payload (apenas para desenvolvimento)
-        event = req.body;
-      }
-
-      // Manipula os diferentes tipos de eventos
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          const paymentIntent = event.data.object;
-          
-          // Atualiza o status do pagamento no banco de dados
-          await db.update(payments)
-            .set({ 
-              status: 'completed', 
-              updatedAt: new Date(),
-              completedAt: new Date()
-            })
-            .where(eq(payments.stripePaymentIntentId, paymentIntent.id));
-          
-          // Atualiza o status da matrícula para refletir o pagamento
-          if (paymentIntent.metadata.enrollmentId) {
-            await db.update(enrollments)
-              .set({ 
-                status: 'completed',
-                paymentStatus: 'paid',
-                paymentCompleted: true,
-                updatedAt: new Date()
-              })
-              .where(eq(enrollments.id, parseInt(paymentIntent.metadata.enrollmentId)));
-          }
-          
-          break;
-          
-        case 'payment_intent.payment_failed':
-          const failedPayment = event.data.object;
-          
-          // Atualiza o status do pagamento para falha
-          await db.update(payments)
-            .set({ 
-              status: 'failed', 
-              updatedAt: new Date() 
-            })
-            .where(eq(payments.stripePaymentIntentId, failedPayment.id));
-          
-          break;
+      const settingsId = req.query.settings ? parseInt(req.query.settings as string) : undefined;
+      const result = await paymentWebhookService.ingest(gateway, {
+        rawBody: req.rawBody,
+        body: req.body,
+        headers: req.headers,
+        query: req.query
+      }, settingsId);
+
+      if (!result.verified) {
+        return res.status(401).json({ message: 'Assinatura do webhook inválida' });
       }
 
-      res.json({ received: true });
+      // Reenvios também recebem 200 para o gateway parar de reenviar
+      res.json({ received: true, duplicate: result.duplicate });
     } catch (err: any) {
-      console.error('Erro no webhook do Stripe:', err.message);
-      res.status(400).send(`Webhook Error: ${err.message}`);
+      console.error(`Erro no webhook do gateway ${gateway}:`, err.message);
+      res.status(400).json({ message: 'Erro ao processar webhook', error: err.message });
     }
+  };
+
+  /**
+   * @route POST /api/payments/webhooks/:gateway
+   * @desc Webhook de status de pagamento dos gateways (stripe, asaas, mercadopago, gerencianet).
+   *       Com várias contas do mesmo gateway, informar ?settings=<id da configuração>
+   * @access Public (assinatura verificada pelo gateway)
+   */
+  app.post('/api/payments/webhooks/:gateway', async (req: Request, res: Response) => {
+    await handleGatewayWebhook(req.params.gateway, req, res);
+  });
+
+  /**
+   * @route POST /api/payments/webhook
+   * @desc Webhook do Stripe (endereço legado, equivale a /api/payments/webhooks/stripe)
+   * @access Public (assinatura verificada pelo gateway)
+   */
+  app.post('/api/payments/webhook', async (req: Request, res: Response) => {
+    await handleGatewayWebhook('stripe', req, res);
   });
 
   /**
@@ -214,15 +212,30 @@ export function registerPaymentRoutes(app: Express, isAuthenticated: any) {
    */
   app.get('/api/payments/status', async (req: Request, res: Response) => {
     try {
-      const { payment_intent } = req.query;
+      // payment_intent é o parâmetro de retorno do Stripe; payment vale para os demais gateways
+      const externalId = (req.query.payment_intent || req.query.payment) as string | undefined;
       
-      if (!payment_intent) {
+      if (!externalId) {
         return res.status(400).json({ error: 'ID do pagamento não informado' });
       }
+
+      const [payment] = await db.execute(`
+        SELECT external_id, amount, gateway, created_at FROM payments WHERE external_id = $1
+      `, [externalId]);
+
+      if (!payment) {
+        return res.status(404).json({ error: 'Pagamento não encontrado' });
+      }
       
-      const paymentIntent = await stripe.paymentIntents.retrieve(payment_intent as string);
+      const { status } = await paymentProcessor.getPaymentStatus(externalId, payment.gateway);
       
-      res.json(paymentIntent);
+      res.json({
+        id: payment.external_id,
+        status,
+        amount: parseFloat(payment.amount),
+        gateway: payment.gateway,
+        createdAt: payment.created_at
+      });
     } catch (error) {
       console.error('Erro ao verificar status do pagamento:', error);
       res.status(500).json({ error: 'Erro ao verificar status do pagamento' });
@@ -0,0 +1,164 @@
+/**
+ * Rotas de conciliação bancária (retornos CNAB 240/400 e extratos OFX)
+ */
+
+import { Express, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { bankReconciliationService, resolveEntrySchema } from './services/bankReconciliationService';
+import { canManageSchool } from './middleware/auth';
+
+// Arquivos de retorno ficam só na memória: o conteúdo relevante vai para o banco
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+});
+
+/**
+ * Registra rotas de conciliação bancária
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerReconciliationRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route POST /api/schools/:schoolId/bank-reconciliations
+   * @desc Importar arquivo de retorno (CNAB 240/400) ou extrato OFX e conciliar pagamentos
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:schoolId/bank-reconciliations', isAuthenticated, upload.single('file'), async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: 'Arquivo não enviado' });
+      }
+
+      const existing = await bankReconciliationService.findImportByContent(schoolId, req.file.buffer);
+      if (existing) {
+        return res.status(409).json({ message: 'Este arquivo já foi importado', importId: existing.id });
+      }
+
+      const report = await bankReconciliationService.importFile(schoolId, {
+        name: req.file.originalname,
+        content: req.file.buffer
+      }, req.user!.id);
+
+      res.status(201).json(report);
+    } catch (error) {
+      console.error('Erro ao importar arquivo de conciliação:', error);
+      res.status(400).json({
+        message: 'Erro ao importar arquivo de conciliação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:schoolId/bank-reconciliations
+   * @desc Listar importações de conciliação da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:schoolId/bank-reconciliations', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const imports = await bankReconciliationService.listImports(schoolId);
+      res.json(imports);
+    } catch (error) {
+      console.error('Erro ao listar conciliações:', error);
+      res.status(500).json({
+        message: 'Erro ao listar conciliações',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/bank-reconciliations/:id
+   * @desc Relatório da importação: resumo e lançamentos conciliados e pendentes
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/bank-reconciliations/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const report = await bankReconciliationService.getReport(parseInt(req.params.id));
+      if (!report) {
+        return res.status(404).json({ message: 'Importação não encontrada' });
+      }
+      if (!canManageSchool(req.user, report.import.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error('Erro ao obter relatório de conciliação:', error);
+      res.status(500).json({
+        message: 'Erro ao obter relatório de conciliação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/bank-reconciliation-entries/:id/candidates
+   * @desc Pagamentos em aberto que podem corresponder ao lançamento
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/bank-reconciliation-entries/:id/candidates', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const entry = await bankReconciliationService.getEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: 'Lançamento não encontrado' });
+      }
+      if (!canManageSchool(req.user, entry.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const candidates = await bankReconciliationService.getCandidates(entry.id);
+      res.json(candidates);
+    } catch (error) {
+      console.error('Erro ao buscar pagamentos para o lançamento:', error);
+      res.status(500).json({
+        message: 'Erro ao buscar pagamentos para o lançamento',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/bank-reconciliation-entries/:id/resolve
+   * @desc Resolver lançamento pendente: associar a um pagamento ou ignorar
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/bank-reconciliation-entries/:id/resolve', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const entry = await bankReconciliationService.getEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: 'Lançamento não encontrado' });
+      }
+      if (!canManageSchool(req.user, entry.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = resolveEntrySchema.parse(req.body);
+      const resolved = await bankReconciliationService.resolveEntry(entry.id, data, req.user!.id);
+      res.json(resolved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao resolver lançamento de conciliação:', error);
+      res.status(400).json({
+        message: 'Erro ao resolver lançamento de conciliação',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -0,0 +1,147 @@
+/**
+ * Rotas de gerenciamento das chaves de API das escolas
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { API_SCOPES, ApiScope, apiKeyService } from './services/apiKeyService';
+import { requireSchoolManager } from './middleware/auth';
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  scopes: z.array(z.enum(API_SCOPES as unknown as [ApiScope, ...ApiScope[]])).min(1, 'Selecione ao menos um escopo'),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+const rotateKeySchema = z.object({
+  gracePeriodHours: z.number().int().min(0).max(168).optional(),
+});
+
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+/**
+ * Registra rotas de chaves de API
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerSchoolApiKeyRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /api/schools/:id/api-keys
+   * @desc Chaves de API da escola (sem o valor das chaves)
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/api-keys', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const keys = await apiKeyService.listKeys(parseInt(req.params.id));
+      res.json(keys);
+    } catch (error) {
+      console.error('Erro ao listar chaves de API:', error);
+      res.status(500).json({
+        message: 'Erro ao listar chaves de API',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/api-keys
+   * @desc Emite uma chave de API; o valor completo só é retornado nesta resposta
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/api-keys', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = createKeySchema.parse(req.body);
+      const result = await apiKeyService.createKey(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao criar chave de API:', error);
+      res.status(500).json({
+        message: 'Erro ao criar chave de API',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/api-keys/:keyId/rotate
+   * @desc Substitui a chave por uma nova; a anterior vale durante o período de carência
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/api-keys/:keyId/rotate', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const keyId = parseInt(req.params.keyId);
+      if (isNaN(keyId)) {
+        return res.status(400).json({ message: 'ID de chave inválido' });
+      }
+
+      const { gracePeriodHours } = rotateKeySchema.parse(req.body || {});
+      const result = await apiKeyService.rotateKey(parseInt(req.params.id), keyId, req.user!.id, gracePeriodHours);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao rotacionar chave de API:', error);
+      res.status(500).json({
+        message: 'Erro ao rotacionar chave de API',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/api-keys/:keyId
+   * @desc Revoga a chave imediatamente
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/api-keys/:keyId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const keyId = parseInt(req.params.keyId);
+      if (isNaN(keyId)) {
+        return res.status(400).json({ message: 'ID de chave inválido' });
+      }
+
+      const key = await apiKeyService.revokeKey(parseInt(req.params.id), keyId, req.user!.id);
+      res.json(key);
+    } catch (error) {
+      console.error('Erro ao revogar chave de API:', error);
+      res.status(500).json({
+        message: 'Erro ao revogar chave de API',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/api-keys/:keyId/usage
+   * @desc Requisições por dia e por rota nos últimos dias
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/api-keys/:keyId/usage', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const keyId = parseInt(req.params.keyId);
+      if (isNaN(keyId)) {
+        return res.status(400).json({ message: 'ID de chave inválido' });
+      }
+
+      const { days } = usageQuerySchema.parse(req.query);
+      const usage = await apiKeyService.getUsage(parseInt(req.params.id), keyId, days);
+      res.json(usage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao obter uso da chave de API:', error);
+      res.status(500).json({
+        message: 'Erro ao obter uso da chave de API',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
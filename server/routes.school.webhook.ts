@@ -0,0 +1,157 @@
+/**
+ * Rotas de configuração dos webhooks de saída das escolas
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { DOMAIN_EVENT_TYPES, DomainEventType } from './services/domainEventService';
+import { schoolWebhookService } from './services/schoolWebhookService';
+import { isPublicUrl, PRIVATE_ADDRESS_MESSAGE } from './services/publicUrlGuard';
+import { requireSchoolManager } from './middleware/auth';
+
+// URL (vazia desativa o webhook) e eventos assinados. A URL precisa resolver
+// para um endereço público
+const webhookSettingsSchema = z.object({
+  webhookUrl: z.union([
+    z.string().trim().url()
+      .refine(url => /^https?:\/\//i.test(url), 'A URL deve usar http ou https')
+      .refine(isPublicUrl, PRIVATE_ADDRESS_MESSAGE),
+    z.literal('').transform(() => null),
+    z.null()
+  ]),
+  events: z.array(z.enum(DOMAIN_EVENT_TYPES as [DomainEventType, ...DomainEventType[]])).default([]),
+});
+
+const deliveryFiltersSchema = z.object({
+  status: z.enum(['pending', 'sending', 'delivered', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Registra rotas de webhooks das escolas
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerSchoolWebhookRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /api/schools/:id/webhooks
+   * @desc Configuração do webhook da escola, incluindo o segredo de assinatura
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/webhooks', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const settings = await schoolWebhookService.getSettings(parseInt(req.params.id));
+      res.json(settings);
+    } catch (error) {
+      console.error('Erro ao obter configuração de webhook:', error);
+      res.status(500).json({
+        message: 'Erro ao obter configuração de webhook',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/webhooks
+   * @desc Atualiza a URL e os eventos assinados
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/webhooks', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = await webhookSettingsSchema.parseAsync(req.body);
+      const settings = await schoolWebhookService.updateSettings(parseInt(req.params.id), data, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar configuração de webhook:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar configuração de webhook',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/webhooks/rotate-secret
+   * @desc Gera um novo segredo de assinatura
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/webhooks/rotate-secret', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const settings = await schoolWebhookService.rotateSecret(parseInt(req.params.id), req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      console.error('Erro ao rotacionar segredo do webhook:', error);
+      res.status(500).json({
+        message: 'Erro ao rotacionar segredo do webhook',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/webhooks/test
+   * @desc Envia um evento de teste e retorna o resultado da entrega
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/webhooks/test', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const delivery = await schoolWebhookService.sendTestEvent(parseInt(req.params.id), req.user!.id);
+      res.json(delivery);
+    } catch (error) {
+      console.error('Erro ao enviar evento de teste:', error);
+      res.status(400).json({
+        message: 'Erro ao enviar evento de teste',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/webhooks/deliveries
+   * @desc Registro de entregas com códigos de resposta
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/webhooks/deliveries', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const filters = deliveryFiltersSchema.parse(req.query);
+      const deliveries = await schoolWebhookService.listDeliveries(parseInt(req.params.id), filters);
+      res.json(deliveries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao listar entregas de webhook:', error);
+      res.status(500).json({
+        message: 'Erro ao listar entregas de webhook',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/webhooks/deliveries/:deliveryId/redeliver
+   * @desc Reenvia uma entrega
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/webhooks/deliveries/:deliveryId/redeliver', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const deliveryId = parseInt(req.params.deliveryId);
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({ message: 'ID de entrega inválido' });
+      }
+
+      const delivery = await schoolWebhookService.redeliver(parseInt(req.params.id), deliveryId);
+      res.json(delivery);
+    } catch (error) {
+      console.error('Erro ao reenviar entrega de webhook:', error);
+      res.status(500).json({
+        message: 'Erro ao reenviar entrega de webhook',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
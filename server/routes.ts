@@ -5,9 +5,27 @@ import { storage } from "./storage";
 import { setupAuth } from "./auth";
 import { registerNotificationRoutes } from "./routes.notification";
 import { registerEnrollmentRoutes } from "./routes.enrollment";
+import { registerEnrollmentWorkflowRoutes } from "./routes.enrollment.workflow";
+import { registerEnrollmentFormRoutes } from "./routes.enrollment.form";
+import { registerContractRoutes } from "./routes.contract";
+import { registerTuitionRoutes } from "./routes.tuition";
+import { registerDiscountRoutes } from "./routes.discount";
+import { registerReconciliationRoutes } from "./routes.reconciliation";
 import { registerCourseRoutes } from "./routes.course";
+import { registerCourseSeatRoutes } from "./routes.course.seats";
+import { registerSchoolWebhookRoutes } from "./routes.school.webhook";
+import { registerSchoolApiKeyRoutes } from "./routes.school.apikeys";
+import { registerLeadCaptureRoutes } from "./routes.lead.capture";
+import { registerLeadAutomationRoutes } from "./routes.lead.automation";
+import { registerLeadConversionRoutes } from "./routes.lead.conversion";
+import { registerWhatsappInboxRoutes } from "./routes.whatsapp.inbox";
+import { registerChatbotFlowRoutes } from "./routes.chatbot.flows";
+import { registerWhatsappCampaignRoutes } from "./routes.whatsapp.campaigns";
+import { registerConsentRoutes } from "./routes.consents";
+import { registerWhatsappScheduledRoutes } from "./routes.whatsapp.scheduled";
 import { registerStudentRoutes } from "./routes.student";
 import { registerStudentDocumentsRoutes } from "./routes.student.documents";
+import { registerGuardianRoutes } from "./routes.guardian";
 import { registerQuestionRoutes } from "./routes.question";
 import { registerDocumentRoutes } from "./routes.document";
 import { registerMessageRoutes } from "./routes.message";
@@ -36,6 +54,7 @@ import { fromZodError } from "zod-validation-error";
 import { db } from "./db";
 import { and, desc, eq, gte, lt, lte, sql } from "drizzle-orm";
 import { cacheService } from "./services/cacheService";
+import { leadAutomationService } from "./services/leadAutomationService";
 import {
   // Schemas atuais 
   userSchema as insertUserSchema,
@@ -198,14 +217,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Register enrollment, course, document, message, payment, and question routes
   registerEnrollmentRoutes(app, isAuthenticated);
+  registerEnrollmentWorkflowRoutes(app, isAuthenticated);
+  registerEnrollmentFormRoutes(app, isAuthenticated);
+  registerContractRoutes(app, isAuthenticated);
   registerCourseRoutes(app, isAuthenticated);
+  registerCourseSeatRoutes(app, isAuthenticated);
   registerQuestionRoutes(app, isAuthenticated);
   registerDocumentRoutes(app);
   registerMessageRoutes(app, isAuthenticated);
   registerStudentRoutes(app, isAuthenticated);
   registerStudentDocumentsRoutes(app);
+  registerGuardianRoutes(app, isAuthenticated);
   registerUserRoutes(app, isAuthenticated);
   registerPaymentRoutes(app, isAuthenticated);
+  registerTuitionRoutes(app, isAuthenticated);
+  registerDiscountRoutes(app, isAuthenticated);
+  registerReconciliationRoutes(app, isAuthenticated);
+  registerSchoolWebhookRoutes(app, isAuthenticated);
+  registerSchoolApiKeyRoutes(app, isAuthenticated);
+  registerLeadCaptureRoutes(app, isAuthenticated);
+  registerLeadAutomationRoutes(app, isAuthenticated);
+  registerLeadConversionRoutes(app, isAuthenticated);
+  registerWhatsappInboxRoutes(app, isAuthenticated);
+  registerChatbotFlowRoutes(app, isAuthenticated);
+  registerWhatsappCampaignRoutes(app, isAuthenticated);
+  registerConsentRoutes(app, isAuthenticated);
+  registerWhatsappScheduledRoutes(app, isAuthenticated);
   
   // Registrar rotas do WhatsApp (Evolution API)
   registerWhatsAppRoutes(app);
@@ -615,7 +652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/schools", isAuthenticated, hasRole(["admin"]), async (req, res, next) => {
     try {
-      const schoolData = insertSchoolSchema.parse(req.body);
+      const { apiKey, ...schoolData } = insertSchoolSchema.parse(req.body);
       const newSchool = await storage.createSchool(schoolData);
       res.status(201).json(newSchool);
     } catch (error) {
@@ -639,7 +676,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Validate data but allow partial updates
-      const updatedSchool = await storage.updateSchool(schoolId, req.body);
+      // Chaves de API são emitidas com hash em /api/api-keys, nunca gravadas na escola
+      // A URL de webhook só muda em /api/schools/:id/webhooks, que valida o destino
+      const { apiKey, webhookUrl, ...schoolData } = req.body;
+      const updatedSchool = await storage.updateSchool(schoolId, schoolData);
       res.json(updatedSchool);
     } catch (error) {
       next(error);
@@ -717,6 +757,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedLead = await storage.updateLead(leadId, req.body);
+      if (updatedLead) {
+        await leadAutomationService.handleLeadUpdated(leadId, lead.status, updatedLead.status).catch(error => {
+          console.error(`Erro ao atualizar automações do lead ${leadId}:`, error);
+        });
+      }
       res.json(updatedLead);
     } catch (error) {
       next(error);
@@ -851,7 +896,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const updatedEnrollment = await storage.updateEnrollment(enrollmentId, req.body);
+      // Status changes go through the enrollment workflow (PATCH or /transitions)
+      const { status: _status, statusReason: _statusReason, ...enrollmentData } = req.body;
+      const updatedEnrollment = await storage.updateEnrollment(enrollmentId, enrollmentData);
       
       // Track enrollment progress in metrics if necessary
       if (req.body.courseInfoCompleted && !enrollment.courseInfoCompleted) {
@@ -0,0 +1,217 @@
+/**
+ * Rotas de planos de mensalidade e parcelas de matrícula
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { billingPlanSchema, tuitionBillingService } from './services/tuitionBillingService';
+import { guardianService } from './services/guardianService';
+import { canManageSchool } from './middleware/auth';
+
+const startBillingSchema = z.object({
+  planId: z.number().int().optional(),
+});
+
+/**
+ * Registra rotas de mensalidades
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerTuitionRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * @route GET /api/schools/:schoolId/billing-plans
+   * @desc Listar planos de mensalidade da escola
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:schoolId/billing-plans', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const plans = await tuitionBillingService.listPlans(schoolId);
+      res.json(plans);
+    } catch (error) {
+      console.error('Erro ao listar planos de mensalidade:', error);
+      res.status(500).json({
+        message: 'Erro ao listar planos de mensalidade',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:schoolId/billing-plans
+   * @desc Criar plano de mensalidade para um curso
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:schoolId/billing-plans', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.schoolId);
+      if (!canManageSchool(req.user, schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = billingPlanSchema.parse(req.body);
+      const course = await storage.getCourse(data.courseId);
+      if (!course || course.schoolId !== schoolId) {
+        return res.status(400).json({ message: 'Curso não pertence à escola' });
+      }
+
+      const plan = await tuitionBillingService.createPlan(schoolId, data, req.user!.id);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao criar plano de mensalidade:', error);
+      res.status(500).json({
+        message: 'Erro ao criar plano de mensalidade',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route PUT /api/billing-plans/:id
+   * @desc Atualizar plano de mensalidade
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/billing-plans/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const plan = await tuitionBillingService.getPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: 'Plano de mensalidade não encontrado' });
+      }
+      if (!canManageSchool(req.user, plan.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const data = billingPlanSchema.parse(req.body);
+      const updated = await tuitionBillingService.updatePlan(plan.id, data, req.user!.id);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao atualizar plano de mensalidade:', error);
+      res.status(500).json({
+        message: 'Erro ao atualizar plano de mensalidade',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route DELETE /api/billing-plans/:id
+   * @desc Desativar plano de mensalidade
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/billing-plans/:id', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const plan = await tuitionBillingService.getPlan(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: 'Plano de mensalidade não encontrado' });
+      }
+      if (!canManageSchool(req.user, plan.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      await tuitionBillingService.deactivatePlan(plan.id, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao desativar plano de mensalidade:', error);
+      res.status(500).json({
+        message: 'Erro ao desativar plano de mensalidade',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/enrollments/:id/billing
+   * @desc Vincular matrícula ao plano de mensalidade e gerar as parcelas
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/enrollments/:id/billing', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+      if (!canManageSchool(req.user, enrollment.schoolId)) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const { planId } = startBillingSchema.parse(req.body);
+      const invoices = await tuitionBillingService.startBilling(enrollment.id, planId, req.user!.id);
+
+      res.status(201).json(invoices);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao iniciar cobrança da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao iniciar cobrança da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/enrollments/:id/invoices
+   * @desc Parcelas da matrícula com valores atualizados
+   * @access Private (escola, aluno ou responsável)
+   */
+  app.get('/api/enrollments/:id/invoices', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await storage.getEnrollment(parseInt(req.params.id));
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Matrícula não encontrada' });
+      }
+
+      const allowed = canManageSchool(req.user, enrollment.schoolId)
+        || await guardianService.canActForStudent(req.user!.id, enrollment.studentId);
+      if (!allowed) {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const invoices = await tuitionBillingService.getInvoicesForEnrollment(enrollment.id);
+      res.json(invoices);
+    } catch (error) {
+      console.error('Erro ao listar parcelas da matrícula:', error);
+      res.status(500).json({
+        message: 'Erro ao listar parcelas da matrícula',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/billing/run
+   * @desc Executar manualmente a rotina de cobranças (recálculo de atrasos e geração antecipada)
+   * @access Private (admin)
+   */
+  app.post('/api/billing/run', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (req.user?.role !== 'admin') {
+        return res.status(403).json({ message: 'Acesso negado' });
+      }
+
+      const updated = await tuitionBillingService.recalculateOverdue();
+      const generated = await tuitionBillingService.generateUpcomingCharges();
+
+      res.json({ updated, generated });
+    } catch (error) {
+      console.error('Erro ao executar rotina de cobranças:', error);
+      res.status(500).json({
+        message: 'Erro ao executar rotina de cobranças',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * Rotas das campanhas de WhatsApp
+ * Cadastro, agendamento e acompanhamento das campanhas em massa da escola
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { whatsappCampaignService, MIN_DELAY_SECONDS, RecipientStatus } from './services/whatsappCampaignService';
+import { requireSchoolManager } from './middleware/auth';
+
+const courseIdsSchema = z.array(z.number().int().positive()).max(50).optional();
+
+const audienceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('leads'),
+    statuses: z.array(z.enum(['new', 'contacted', 'interested', 'converted', 'lost'])).optional(),
+    sources: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    courseIds: courseIdsSchema,
+  }),
+  z.object({
+    type: z.literal('overdue_payments'),
+    minDaysOverdue: z.number().int().min(1).max(365).optional(),
+    courseIds: courseIdsSchema,
+  }),
+  z.object({
+    type: z.literal('pending_documents'),
+    courseIds: courseIdsSchema,
+  }),
+]);
+
+const campaignSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  templateId: z.number().int().positive('Escolha um template'),
+  instanceId: z.number().int().positive().nullable().optional(),
+  audience: audienceSchema,
+  minDelaySeconds: z.number().int().min(MIN_DELAY_SECONDS, `O intervalo mínimo é de ${MIN_DELAY_SECONDS} segundos`).max(3600).optional(),
+  maxDelaySeconds: z.number().int().min(MIN_DELAY_SECONDS).max(3600).optional(),
+}).refine(
+  campaign => (campaign.minDelaySeconds ?? 0) <= (campaign.maxDelaySeconds ?? Infinity),
+  'O intervalo máximo deve ser maior ou igual ao mínimo'
+);
+
+const scheduleSchema = z.object({
+  scheduledAt: z.coerce.date().nullable().optional(),
+});
+
+const RECIPIENT_STATUSES: RecipientStatus[] = ['pending', 'sending', 'sent', 'failed', 'skipped'];
+
+/**
+ * Registra rotas das campanhas de WhatsApp
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerWhatsappCampaignRoutes(app: Express, isAuthenticated: any) {
+  const handleError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  };
+
+  /**
+   * Erros de regra do serviço (status da campanha, template, instância) viram 400
+   */
+  const handleActionError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Campanha não encontrada') {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error(`${message}:`, error);
+    return res.status(400).json({
+      message: error instanceof Error ? error.message : message
+    });
+  };
+
+  const params = (req: Request) => ({
+    schoolId: parseInt(req.params.id),
+    campaignId: parseInt(req.params.campaignId),
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp-campaigns
+   * @desc Campanhas da escola com envio, entrega, leitura e respostas
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/whatsapp-campaigns', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const campaigns = await whatsappCampaignService.listCampaigns(parseInt(req.params.id));
+      res.json(campaigns);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar campanhas');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp-campaigns/options
+   * @desc Templates aprovados, instâncias, cursos e origens de lead para o formulário
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/whatsapp-campaigns/options', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const options = await whatsappCampaignService.getOptions(parseInt(req.params.id));
+      res.json(options);
+    } catch (error) {
+      handleError(res, error, 'Erro ao carregar opções de campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns/audience-preview
+   * @desc Tamanho e amostra do público antes de agendar
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns/audience-preview', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const audience = audienceSchema.parse(req.body.audience);
+      const preview = await whatsappCampaignService.previewAudience(parseInt(req.params.id), audience);
+      res.json(preview);
+    } catch (error) {
+      handleError(res, error, 'Erro ao calcular público da campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns
+   * @desc Cria uma campanha em rascunho
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = campaignSchema.parse(req.body);
+      const campaign = await whatsappCampaignService.createCampaign(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao criar campanha');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp-campaigns/:campaignId
+   * @desc Campanha com os números consolidados
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/whatsapp-campaigns/:campaignId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const campaign = await whatsappCampaignService.getCampaign(schoolId, campaignId);
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Campanha não encontrada') {
+        return res.status(404).json({ message: error.message });
+      }
+      handleError(res, error, 'Erro ao buscar campanha');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp-campaigns/:campaignId/recipients
+   * @desc Destinatários da campanha, filtráveis por status
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/whatsapp-campaigns/:campaignId/recipients', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const status = RECIPIENT_STATUSES.find(value => value === req.query.status);
+      const recipients = await whatsappCampaignService.listRecipients(schoolId, campaignId, status);
+      res.json(recipients);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Campanha não encontrada') {
+        return res.status(404).json({ message: error.message });
+      }
+      handleError(res, error, 'Erro ao listar destinatários');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/whatsapp-campaigns/:campaignId
+   * @desc Altera uma campanha em rascunho ou agendada
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/whatsapp-campaigns/:campaignId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const data = campaignSchema.parse(req.body);
+      const campaign = await whatsappCampaignService.updateCampaign(schoolId, campaignId, data, req.user!.id);
+      res.json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao atualizar campanha');
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/whatsapp-campaigns/:campaignId
+   * @desc Exclui uma campanha em rascunho
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/whatsapp-campaigns/:campaignId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      await whatsappCampaignService.deleteCampaign(schoolId, campaignId, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao excluir campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns/:campaignId/schedule
+   * @desc Agenda o envio; sem data, envia assim que possível
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns/:campaignId/schedule', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const data = scheduleSchema.parse(req.body);
+      const campaign = await whatsappCampaignService.scheduleCampaign(schoolId, campaignId, data.scheduledAt ?? null, req.user!.id);
+      res.json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao agendar campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns/:campaignId/pause
+   * @desc Pausa uma campanha agendada ou em envio
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns/:campaignId/pause', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const campaign = await whatsappCampaignService.pauseCampaign(schoolId, campaignId, req.user!.id);
+      res.json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao pausar campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns/:campaignId/resume
+   * @desc Retoma uma campanha pausada
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns/:campaignId/resume', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const campaign = await whatsappCampaignService.resumeCampaign(schoolId, campaignId, req.user!.id);
+      res.json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao retomar campanha');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp-campaigns/:campaignId/cancel
+   * @desc Cancela a campanha; os destinatários ainda não atendidos não recebem
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp-campaigns/:campaignId/cancel', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const { schoolId, campaignId } = params(req);
+      const campaign = await whatsappCampaignService.cancelCampaign(schoolId, campaignId, req.user!.id);
+      res.json(campaign);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao cancelar campanha');
+    }
+  });
+}
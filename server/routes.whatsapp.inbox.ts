@@ -0,0 +1,288 @@
+/**
+ * Rotas da caixa de entrada compartilhada do WhatsApp
+ * Conversas por escola com status, responsável, etiquetas, notas internas e
+ * contadores de não lidas por atendente
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { whatsappInboxService } from './services/whatsappInboxService';
+
+const statusSchema = z.enum(['open', 'pending', 'resolved']);
+
+const listQuerySchema = z.object({
+  status: statusSchema.optional(),
+  assigned: z.string().regex(/^(me|unassigned|all|\d+)$/, 'Filtro de responsável inválido').optional(),
+  tag: z.string().trim().max(40).optional(),
+  search: z.string().trim().max(100).optional(),
+});
+
+const messageSchema = z.object({
+  content: z.string().trim().min(1, 'A mensagem não pode estar vazia').max(4096),
+});
+
+const noteSchema = z.object({
+  content: z.string().trim().min(1, 'A nota não pode estar vazia').max(4000),
+});
+
+const assignmentSchema = z.object({
+  userId: z.number().int().positive().nullable(),
+});
+
+const tagsSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(40)).max(20),
+});
+
+/**
+ * Registra rotas da caixa de entrada do WhatsApp
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerWhatsappInboxRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Verifica se o usuário atende a escola informada (inclui atendentes)
+   */
+  const canAccessSchool = (req: Request, res: Response, next: Function) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Não autorizado' });
+    }
+
+    const schoolId = parseInt(req.params.id);
+    if (isNaN(schoolId)) {
+      return res.status(400).json({ message: 'ID de escola inválido' });
+    }
+
+    if (req.user.role === 'admin' || ((req.user.role === 'school' || req.user.role === 'attendant') && req.user.schoolId === schoolId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  /**
+   * Carrega a conversa da rota e verifica se o usuário atende a escola dela
+   * @returns A conversa ou null, com a resposta de erro já enviada
+   */
+  const loadConversation = async (req: Request, res: Response) => {
+    const conversationId = parseInt(req.params.conversationId);
+    if (isNaN(conversationId)) {
+      res.status(400).json({ message: 'ID de conversa inválido' });
+      return null;
+    }
+
+    const conversation = await whatsappInboxService.getConversation(conversationId, req.user!.id);
+    if (!conversation) {
+      res.status(404).json({ message: 'Conversa não encontrada' });
+      return null;
+    }
+
+    const user = req.user!;
+    const allowed = user.role === 'admin' || ((user.role === 'school' || user.role === 'attendant') && user.schoolId === conversation.schoolId);
+    if (!allowed) {
+      res.status(403).json({ message: 'Acesso negado' });
+      return null;
+    }
+
+    return conversation;
+  };
+
+  /**
+   * Resposta de erro das ações na conversa: dados inválidos ou regra de
+   * atendimento violada (400)
+   */
+  const handleActionError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(400).json({
+      message: error instanceof Error ? error.message : message
+    });
+  };
+
+  const actorFrom = (req: Request) => ({
+    id: req.user!.id,
+    role: req.user!.role,
+    fullName: req.user!.fullName,
+  });
+
+  /**
+   * @route GET /api/schools/:id/inbox/conversations
+   * @desc Conversas da escola com filtros de status, responsável, etiqueta e busca
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/schools/:id/inbox/conversations', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const conversations = await whatsappInboxService.listConversations(parseInt(req.params.id), req.user!.id, query);
+      res.json(conversations);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      console.error('Erro ao listar conversas:', error);
+      res.status(500).json({
+        message: 'Erro ao listar conversas',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/inbox/summary
+   * @desc Não lidas do usuário, etiquetas em uso e atendentes da escola
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/schools/:id/inbox/summary', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const [unread, tags, agents] = await Promise.all([
+        whatsappInboxService.getUnreadCounts(schoolId, req.user!.id),
+        whatsappInboxService.listTags(schoolId),
+        whatsappInboxService.listAgents(schoolId),
+      ]);
+      res.json({ unread, tags, agents });
+    } catch (error) {
+      console.error('Erro ao obter resumo da caixa de entrada:', error);
+      res.status(500).json({
+        message: 'Erro ao obter resumo da caixa de entrada',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route GET /api/inbox/conversations/:conversationId
+   * @desc Conversa com mensagens, notas internas e histórico
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/inbox/conversations/:conversationId', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const [messages, activities] = await Promise.all([
+        whatsappInboxService.getMessages(conversation.id),
+        whatsappInboxService.getActivities(conversation.id),
+      ]);
+      res.json({ conversation, messages, activities });
+    } catch (error) {
+      console.error('Erro ao obter conversa:', error);
+      res.status(500).json({
+        message: 'Erro ao obter conversa',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/inbox/conversations/:conversationId/read
+   * @desc Marca a conversa como lida pelo usuário
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/inbox/conversations/:conversationId/read', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      await whatsappInboxService.markRead(conversation.id, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Erro ao marcar conversa como lida:', error);
+      res.status(500).json({
+        message: 'Erro ao marcar conversa como lida',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+
+  /**
+   * @route POST /api/inbox/conversations/:conversationId/messages
+   * @desc Responde ao contato; a conversa sem responsável passa a ser do atendente
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/inbox/conversations/:conversationId/messages', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const data = messageSchema.parse(req.body);
+      const message = await whatsappInboxService.sendMessage(conversation.id, data.content, actorFrom(req));
+      res.status(201).json(message);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao enviar mensagem');
+    }
+  });
+
+  /**
+   * @route POST /api/inbox/conversations/:conversationId/notes
+   * @desc Registra uma nota interna, não enviada ao contato
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/inbox/conversations/:conversationId/notes', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const data = noteSchema.parse(req.body);
+      const note = await whatsappInboxService.addNote(conversation.id, data.content, actorFrom(req));
+      res.status(201).json(note);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao registrar nota');
+    }
+  });
+
+  /**
+   * @route PUT /api/inbox/conversations/:conversationId/assignment
+   * @desc Atribui, transfere ou devolve a conversa para a fila
+   * @access Private (admin, escola ou atendente)
+   */
+  app.put('/api/inbox/conversations/:conversationId/assignment', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const data = assignmentSchema.parse(req.body);
+      const updated = await whatsappInboxService.assign(conversation.id, data.userId, actorFrom(req));
+      res.json(updated);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao atribuir conversa');
+    }
+  });
+
+  /**
+   * @route PUT /api/inbox/conversations/:conversationId/status
+   * @desc Altera o status da conversa (aberta, pendente ou resolvida)
+   * @access Private (admin, escola ou atendente)
+   */
+  app.put('/api/inbox/conversations/:conversationId/status', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const { status } = z.object({ status: statusSchema }).parse(req.body);
+      const updated = await whatsappInboxService.setStatus(conversation.id, status, actorFrom(req));
+      res.json(updated);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao alterar status da conversa');
+    }
+  });
+
+  /**
+   * @route PUT /api/inbox/conversations/:conversationId/tags
+   * @desc Substitui as etiquetas da conversa
+   * @access Private (admin, escola ou atendente)
+   */
+  app.put('/api/inbox/conversations/:conversationId/tags', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req, res);
+      if (!conversation) return;
+
+      const data = tagsSchema.parse(req.body);
+      const updated = await whatsappInboxService.setTags(conversation.id, data.tags, actorFrom(req));
+      res.json(updated);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao alterar etiquetas');
+    }
+  });
+}
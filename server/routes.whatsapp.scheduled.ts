@@ -0,0 +1,212 @@
+/**
+ * Rotas das mensagens de WhatsApp agendadas
+ * Agendamento de mensagens por contato ou conversa e cadastro dos lembretes
+ * recorrentes de mensalidade e início das aulas
+ */
+
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { whatsappScheduledMessageService, ScheduledMessageStatus } from './services/whatsappScheduledMessageService';
+import { requireSchoolManager } from './middleware/auth';
+
+const scheduledMessageSchema = z.object({
+  conversationId: z.number().int().positive().nullable().optional(),
+  phone: z.string().trim().max(30).nullable().optional(),
+  contactName: z.string().trim().max(200).nullable().optional(),
+  templateId: z.number().int().positive().nullable().optional(),
+  content: z.string().trim().max(4096).nullable().optional(),
+  sendAt: z.coerce.date(),
+  instanceId: z.number().int().positive().nullable().optional(),
+  enrollmentId: z.number().int().positive().nullable().optional(),
+}).refine(
+  message => !!message.conversationId || !!message.phone,
+  'Informe a conversa ou o telefone'
+);
+
+const reminderRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100),
+  trigger: z.enum(['tuition_due', 'class_start']),
+  templateId: z.number().int().positive('Escolha um template'),
+  daysBefore: z.number().int().min(0).max(60),
+  sendTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido'),
+  courseId: z.number().int().positive().nullable().optional(),
+  instanceId: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const MESSAGE_STATUSES: ScheduledMessageStatus[] = ['scheduled', 'sending', 'sent', 'failed', 'canceled'];
+
+/**
+ * Registra rotas das mensagens agendadas e lembretes recorrentes
+ * @param app Aplicação Express
+ * @param isAuthenticated Middleware de autenticação
+ */
+export function registerWhatsappScheduledRoutes(app: Express, isAuthenticated: any) {
+  /**
+   * Admin, escola e atendentes da escola agendam mensagens
+   */
+  const canAccessSchool = (req: Request, res: Response, next: Function) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Não autorizado' });
+    }
+
+    const schoolId = parseInt(req.params.id);
+    if (isNaN(schoolId)) {
+      return res.status(400).json({ message: 'ID de escola inválido' });
+    }
+
+    if (req.user.role === 'admin' || ((req.user.role === 'school' || req.user.role === 'attendant') && req.user.schoolId === schoolId)) {
+      return next();
+    }
+
+    return res.status(403).json({ message: 'Acesso negado' });
+  };
+
+  const handleError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(500).json({
+      message,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  };
+
+  /**
+   * Erros de regra (data no passado, template não aprovado, contato
+   * descadastrado) viram 400
+   */
+  const handleActionError = (res: Response, error: unknown, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    return res.status(400).json({
+      message: error instanceof Error ? error.message : message
+    });
+  };
+
+  /**
+   * @route GET /api/schools/:id/whatsapp/scheduled-messages
+   * @desc Mensagens agendadas da escola, filtradas por status, conversa ou lembrete
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/schools/:id/whatsapp/scheduled-messages', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const status = MESSAGE_STATUSES.find(item => item === req.query.status);
+      const conversationId = req.query.conversationId ? parseInt(String(req.query.conversationId)) : undefined;
+      const ruleId = req.query.ruleId ? parseInt(String(req.query.ruleId)) : undefined;
+
+      const messages = await whatsappScheduledMessageService.listMessages(parseInt(req.params.id), {
+        status,
+        conversationId: conversationId && !isNaN(conversationId) ? conversationId : undefined,
+        ruleId: ruleId && !isNaN(ruleId) ? ruleId : undefined,
+      });
+      res.json(messages);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar mensagens agendadas');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp/scheduled-messages
+   * @desc Agenda uma mensagem ou template para uma conversa ou telefone
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/schools/:id/whatsapp/scheduled-messages', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const data = scheduledMessageSchema.parse(req.body);
+      const message = await whatsappScheduledMessageService.scheduleMessage(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(message);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao agendar mensagem');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp/scheduled-messages/:messageId/cancel
+   * @desc Cancela uma mensagem ainda não enviada
+   * @access Private (admin, escola ou atendente)
+   */
+  app.post('/api/schools/:id/whatsapp/scheduled-messages/:messageId/cancel', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const message = await whatsappScheduledMessageService.cancelMessage(parseInt(req.params.id), parseInt(req.params.messageId), req.user!.id);
+      res.json(message);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao cancelar mensagem agendada');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp/scheduled-options
+   * @desc Templates aprovados, instâncias e cursos para os formulários
+   * @access Private (admin, escola ou atendente)
+   */
+  app.get('/api/schools/:id/whatsapp/scheduled-options', isAuthenticated, canAccessSchool, async (req: Request, res: Response) => {
+    try {
+      const options = await whatsappScheduledMessageService.getOptions(parseInt(req.params.id));
+      res.json(options);
+    } catch (error) {
+      handleError(res, error, 'Erro ao carregar opções');
+    }
+  });
+
+  /**
+   * @route GET /api/schools/:id/whatsapp/reminder-rules
+   * @desc Lembretes recorrentes da escola com os números de envios
+   * @access Private (admin ou escola)
+   */
+  app.get('/api/schools/:id/whatsapp/reminder-rules', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const rules = await whatsappScheduledMessageService.listRules(parseInt(req.params.id));
+      res.json(rules);
+    } catch (error) {
+      handleError(res, error, 'Erro ao listar lembretes');
+    }
+  });
+
+  /**
+   * @route POST /api/schools/:id/whatsapp/reminder-rules
+   * @desc Cria um lembrete recorrente
+   * @access Private (admin ou escola)
+   */
+  app.post('/api/schools/:id/whatsapp/reminder-rules', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = reminderRuleSchema.parse(req.body);
+      const rule = await whatsappScheduledMessageService.createRule(parseInt(req.params.id), data, req.user!.id);
+      res.status(201).json(rule);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao criar lembrete');
+    }
+  });
+
+  /**
+   * @route PUT /api/schools/:id/whatsapp/reminder-rules/:ruleId
+   * @desc Atualiza um lembrete; os envios ainda não realizados são refeitos
+   * @access Private (admin ou escola)
+   */
+  app.put('/api/schools/:id/whatsapp/reminder-rules/:ruleId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      const data = reminderRuleSchema.parse(req.body);
+      const rule = await whatsappScheduledMessageService.updateRule(parseInt(req.params.id), parseInt(req.params.ruleId), data, req.user!.id);
+      res.json(rule);
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao atualizar lembrete');
+    }
+  });
+
+  /**
+   * @route DELETE /api/schools/:id/whatsapp/reminder-rules/:ruleId
+   * @desc Exclui um lembrete e cancela os envios ainda não realizados
+   * @access Private (admin ou escola)
+   */
+  app.delete('/api/schools/:id/whatsapp/reminder-rules/:ruleId', isAuthenticated, requireSchoolManager, async (req: Request, res: Response) => {
+    try {
+      await whatsappScheduledMessageService.deleteRule(parseInt(req.params.id), parseInt(req.params.ruleId), req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      handleActionError(res, error, 'Erro ao excluir lembrete');
+    }
+  });
+}
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import legacyRoutes from './legacy.routes';
 import schoolIntegrationRoutes from './school-integration.routes';
 import i18nRoutes from './i18n.routes';
+import integrationEventRoutes from './integration-events.routes';
+import publicApiV1Routes from './public-api.v1.routes';
 
 const router = Router();
 
@@ -9,5 +11,9 @@ const router = Router();
 router.use('/api/legacy', legacyRoutes);
 router.use('/api/school-integration', schoolIntegrationRoutes);
 router.use('/api/i18n', i18nRoutes);
+router.use('/api/integration-events', integrationEventRoutes);
+
+// API pública autenticada por chave de API
+router.use('/api/v1', publicApiV1Routes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { requireAuth, requireSchoolAdmin } from '../middleware/auth';
+import { z } from 'zod';
+import { DOMAIN_EVENT_TYPES, domainEventService } from '../services/domainEventService';
+
+const router = Router();
+
+// Filtros da listagem de eventos
+const eventFiltersSchema = z.object({
+  schoolId: z.coerce.number().int().positive().optional(),
+  type: z.enum(DOMAIN_EVENT_TYPES as [string, ...string[]]).optional(),
+  status: z.enum(['pending', 'processing', 'dispatched', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Administradores de escola só enxergam os eventos da própria escola (sem
+// escola vinculada, nenhum)
+function resolveSchoolId(user: any, requested?: number): number | undefined {
+  return user.role === 'admin' ? requested : user.schoolId || 0;
+}
+
+// Middleware para todas as rotas de eventos de integração
+router.use(requireAuth);
+
+// Eventos de domínio com o estado das entregas por assinante
+router.get('/', requireSchoolAdmin, async (req, res) => {
+  try {
+    const filters = eventFiltersSchema.parse(req.query);
+    const events = await domainEventService.listEvents({
+      ...filters,
+      schoolId: resolveSchoolId(req.user, filters.schoolId)
+    });
+    return res.json(events);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error('Erro ao listar eventos de integração:', error);
+    return res.status(500).json({
+      message: 'Erro ao listar eventos de integração',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+// Reenviar um evento aos assinantes cuja entrega falhou
+router.post('/:id/retry', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+
+    const reopened = await domainEventService.retryEvent(id, resolveSchoolId(req.user));
+    if (!reopened) {
+      return res.status(404).json({ message: 'Evento com falha não encontrado' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Erro ao reenviar evento de integração:', error);
+    return res.status(500).json({
+      message: 'Erro ao reenviar evento de integração',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+export default router;
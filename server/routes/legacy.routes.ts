@@ -7,9 +7,27 @@ import {
   insertLegacyDataMappingSchema
 } from '@shared/legacy.schema';
 import { z } from 'zod';
+import { syncSchedulerService } from '../services/syncSchedulerService';
+import { legacyExportService } from '../services/legacyExportService';
+import { isValidCronExpression } from '../services/cronExpression';
 
 const router = Router();
 
+// Corpo da prévia: mapeamento em edição ou entidade com mapeamento salvo
+const mappingPreviewSchema = z.object({
+  entityType: z.string().optional(),
+  mappings: z.any().optional(),
+  transformationRules: z.any().optional(),
+  direction: z.enum(['import', 'export']).default('import'),
+  samples: z.union([z.record(z.any()), z.array(z.record(z.any())).min(1)]),
+});
+
+// Agendamento: expressão cron (ex.: "0 2 * * *") ou null para desativar
+const scheduleSchema = z.object({
+  syncSchedule: z.string().trim().min(1).max(100).nullable()
+    .refine(value => value === null || isValidCronExpression(value), { message: 'Expressão cron inválida' }),
+});
+
 // Middleware para todas as rotas de sistemas legados
 router.use(requireAuth);
 
@@ -257,4 +275,108 @@ router.post('/:id/mappings', requireSchoolAdmin, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Agendamentos dos mapeamentos: expressão cron, última e próximas execuções
+router.get('/:id/schedules', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const schedules = await syncSchedulerService.getLegacySchedules(id);
+    return res.json(schedules);
+  } catch (error) {
+    console.error('Erro ao obter agendamentos:', error);
+    return res.status(500).json({
+      message: 'Erro ao obter agendamentos',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+// Definir ou remover o agendamento de um mapeamento
+router.put('/:id/mappings/:mappingId/schedule', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const mappingId = parseInt(req.params.mappingId, 10);
+    
+    if (isNaN(id) || isNaN(mappingId)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const { syncSchedule } = scheduleSchema.parse(req.body);
+    const schedule = await syncSchedulerService.setLegacySchedule(id, mappingId, syncSchedule, req.user!.id);
+    return res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error('Erro ao definir agendamento:', error);
+    return res.status(400).json({
+      message: 'Erro ao definir agendamento',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+// Prévia do mapeamento: executa registros de exemplo pelas regras sem gravar dados
+router.post('/:id/mappings/preview', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const data = mappingPreviewSchema.parse(req.body);
+    let mapping: { mappings: unknown; transformationRules: unknown } | null = data.mappings !== undefined
+      ? { mappings: data.mappings, transformationRules: data.transformationRules ?? null }
+      : null;
+    
+    if (!mapping) {
+      if (!data.entityType) {
+        return res.status(400).json({ message: 'Informe o mapeamento ou a entidade' });
+      }
+      mapping = await legacySystemService.getDataMapping(id, data.entityType);
+      if (!mapping) {
+        return res.status(404).json({ message: 'Mapeamento não encontrado' });
+      }
+    }
+    
+    const results = legacySystemService.previewMapping(mapping, data.samples, data.direction);
+    return res.json({ results });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error('Erro ao gerar prévia do mapeamento:', error);
+    return res.status(400).json({
+      message: 'Erro ao gerar prévia do mapeamento',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+// Conflitos detectados nas exportações de mapeamentos bidirecionais
+router.get('/:id/conflicts', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+    const conflicts = await legacyExportService.listConflicts(id, limit);
+    return res.json(conflicts);
+  } catch (error) {
+    console.error('Erro ao obter conflitos de sincronização:', error);
+    return res.status(500).json({
+      message: 'Erro ao obter conflitos de sincronização',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,325 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { requireApiKey, requireScope } from '../middleware/apiKeyAuth';
+import { API_SCOPES, ApiScope } from '../services/apiKeyService';
+import { ApiRouteDoc, JsonSchema, buildOpenApiDocument } from '../services/openApiService';
+import { publicApiService } from '../services/publicApiService';
+
+const router = Router();
+
+// Rota da API pública: documentação e implementação na mesma definição
+interface PublicApiRoute extends ApiRouteDoc {
+  scope: ApiScope;
+  handler: (req: Request, res: Response) => Promise<unknown>;
+}
+
+const paginationSchema = {
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+};
+
+const idParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const leadQuerySchema = z.object({
+  ...paginationSchema,
+  status: z.enum(['new', 'contacted', 'interested', 'converted', 'lost']).optional(),
+  updatedSince: z.coerce.date().optional(),
+});
+
+const createLeadSchema = z.object({
+  fullName: z.string().trim().min(1).max(200),
+  email: z.string().trim().email().optional(),
+  phone: z.string().trim().min(8).max(20).optional(),
+  courseId: z.number().int().positive().optional(),
+  source: z.string().trim().max(100).optional(),
+  notes: z.string().max(2000).optional(),
+  metadata: z.record(z.unknown()).optional(),
+}).refine(data => data.email || data.phone, 'Informe email ou telefone');
+
+const courseQuerySchema = z.object({
+  ...paginationSchema,
+  status: z.enum(['active', 'inactive', 'draft', 'finished']).optional(),
+});
+
+const enrollmentQuerySchema = z.object({
+  ...paginationSchema,
+  status: z.string().max(50).optional(),
+  courseId: z.coerce.number().int().positive().optional(),
+  updatedSince: z.coerce.date().optional(),
+});
+
+const paymentQuerySchema = z.object({
+  ...paginationSchema,
+  status: z.string().max(50).optional(),
+  enrollmentId: z.coerce.number().int().positive().optional(),
+  updatedSince: z.coerce.date().optional(),
+});
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const listOf = (name: string): JsonSchema => ({
+  type: 'object',
+  properties: { data: { type: 'array', items: ref(name) }, pagination: ref('Pagination') },
+});
+
+const nullable = (type: string, format?: string): JsonSchema => ({ type, ...(format ? { format } : {}), nullable: true });
+
+// Esquemas das respostas (representação pública de publicApiService)
+const responseSchemas: Record<string, JsonSchema> = {
+  Error: { type: 'object', properties: { message: { type: 'string' }, errors: { type: 'array', items: { type: 'object' } } } },
+  Pagination: {
+    type: 'object',
+    properties: { limit: { type: 'integer' }, offset: { type: 'integer' }, total: { type: 'integer' } },
+  },
+  Lead: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      fullName: { type: 'string' },
+      email: nullable('string', 'email'),
+      phone: nullable('string'),
+      courseId: nullable('integer'),
+      source: nullable('string'),
+      status: { type: 'string', enum: ['new', 'contacted', 'interested', 'converted', 'lost'] },
+      notes: nullable('string'),
+      metadata: { type: 'object', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Course: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      description: nullable('string'),
+      category: nullable('string'),
+      duration: nullable('string'),
+      price: nullable('string'),
+      schedule: nullable('string'),
+      startDate: nullable('string', 'date-time'),
+      endDate: nullable('string', 'date-time'),
+      maxStudents: nullable('integer'),
+      status: { type: 'string' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Enrollment: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      studentId: { type: 'integer' },
+      studentName: nullable('string'),
+      courseId: { type: 'integer' },
+      courseName: nullable('string'),
+      status: { type: 'string' },
+      paymentStatus: { type: 'string' },
+      semester: nullable('string'),
+      year: nullable('string'),
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  DocumentStatus: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      enrollmentId: { type: 'integer' },
+      type: { type: 'string' },
+      title: { type: 'string' },
+      status: { type: 'string', enum: ['pending', 'verified', 'rejected', 'expired'] },
+      verifiedAt: nullable('string', 'date-time'),
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  Payment: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      enrollmentId: nullable('integer'),
+      studentId: nullable('integer'),
+      amount: { type: 'number' },
+      currency: { type: 'string' },
+      status: { type: 'string' },
+      description: nullable('string'),
+      paymentMethod: { type: 'string' },
+      dueDate: nullable('string', 'date-time'),
+      paidAt: nullable('string', 'date-time'),
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  },
+};
+
+const notFound = (res: Response, message: string) => res.status(404).json({ message });
+
+export const publicApiRoutes: PublicApiRoute[] = [
+  {
+    method: 'get',
+    path: '/leads',
+    summary: 'Listar leads',
+    tag: 'Leads',
+    scope: 'leads:read',
+    query: leadQuerySchema,
+    response: listOf('Lead'),
+    handler: async (req, res) => res.json(await publicApiService.listLeads(req.apiKey!.schoolId, leadQuerySchema.parse(req.query))),
+  },
+  {
+    method: 'post',
+    path: '/leads',
+    summary: 'Criar lead',
+    tag: 'Leads',
+    scope: 'leads:write',
+    body: createLeadSchema.innerType(),
+    successStatus: 201,
+    response: ref('Lead'),
+    handler: async (req, res) => {
+      const lead = await publicApiService.createLead(req.apiKey!.schoolId, createLeadSchema.parse(req.body));
+      return res.status(201).json(lead);
+    },
+  },
+  {
+    method: 'get',
+    path: '/leads/:id',
+    summary: 'Obter lead',
+    tag: 'Leads',
+    scope: 'leads:read',
+    params: idParamsSchema,
+    response: ref('Lead'),
+    handler: async (req, res) => {
+      const lead = await publicApiService.getLead(req.apiKey!.schoolId, idParamsSchema.parse(req.params).id);
+      return lead ? res.json(lead) : notFound(res, 'Lead não encontrado');
+    },
+  },
+  {
+    method: 'get',
+    path: '/courses',
+    summary: 'Listar cursos',
+    tag: 'Cursos',
+    scope: 'courses:read',
+    query: courseQuerySchema,
+    response: listOf('Course'),
+    handler: async (req, res) => res.json(await publicApiService.listCourses(req.apiKey!.schoolId, courseQuerySchema.parse(req.query))),
+  },
+  {
+    method: 'get',
+    path: '/courses/:id',
+    summary: 'Obter curso',
+    tag: 'Cursos',
+    scope: 'courses:read',
+    params: idParamsSchema,
+    response: ref('Course'),
+    handler: async (req, res) => {
+      const course = await publicApiService.getCourse(req.apiKey!.schoolId, idParamsSchema.parse(req.params).id);
+      return course ? res.json(course) : notFound(res, 'Curso não encontrado');
+    },
+  },
+  {
+    method: 'get',
+    path: '/enrollments',
+    summary: 'Listar matrículas',
+    tag: 'Matrículas',
+    scope: 'enrollments:read',
+    query: enrollmentQuerySchema,
+    response: listOf('Enrollment'),
+    handler: async (req, res) => res.json(await publicApiService.listEnrollments(req.apiKey!.schoolId, enrollmentQuerySchema.parse(req.query))),
+  },
+  {
+    method: 'get',
+    path: '/enrollments/:id',
+    summary: 'Obter matrícula',
+    tag: 'Matrículas',
+    scope: 'enrollments:read',
+    params: idParamsSchema,
+    response: ref('Enrollment'),
+    handler: async (req, res) => {
+      const enrollment = await publicApiService.getEnrollment(req.apiKey!.schoolId, idParamsSchema.parse(req.params).id);
+      return enrollment ? res.json(enrollment) : notFound(res, 'Matrícula não encontrada');
+    },
+  },
+  {
+    method: 'get',
+    path: '/enrollments/:id/documents',
+    summary: 'Situação dos documentos da matrícula',
+    tag: 'Documentos',
+    scope: 'documents:read',
+    params: idParamsSchema,
+    response: { type: 'object', properties: { data: { type: 'array', items: ref('DocumentStatus') } } },
+    handler: async (req, res) => {
+      const documents = await publicApiService.listEnrollmentDocuments(req.apiKey!.schoolId, idParamsSchema.parse(req.params).id);
+      return documents ? res.json({ data: documents }) : notFound(res, 'Matrícula não encontrada');
+    },
+  },
+  {
+    method: 'get',
+    path: '/payments',
+    summary: 'Listar pagamentos',
+    tag: 'Pagamentos',
+    scope: 'payments:read',
+    query: paymentQuerySchema,
+    response: listOf('Payment'),
+    handler: async (req, res) => res.json(await publicApiService.listPayments(req.apiKey!.schoolId, paymentQuerySchema.parse(req.query))),
+  },
+];
+
+/**
+ * Especificação OpenAPI gerada a partir das rotas registradas
+ */
+export function getPublicApiSpec() {
+  return buildOpenApiDocument(publicApiRoutes, {
+    title: 'EduMatrik API',
+    version: '1.0.0',
+    description: 'API pública por escola. Autentique com a chave de API no cabeçalho Authorization (Bearer) ou X-Api-Key.',
+    serverUrl: '/api/v1',
+    scopes: API_SCOPES,
+    schemas: responseSchemas,
+  });
+}
+
+// CORS liberado: a autenticação é feita por cabeçalho, sem cookies de sessão
+router.use((req: Request, res: Response, next: NextFunction) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, X-Api-Key, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After');
+
+  if (req.method === 'OPTIONS') {
+    return res.sendStatus(204);
+  }
+  return next();
+});
+
+// Especificação OpenAPI (pública)
+router.get('/openapi.json', (req, res) => {
+  res.json(getPublicApiSpec());
+});
+
+// Middleware para todas as rotas da API pública
+router.use(requireApiKey);
+
+for (const route of publicApiRoutes) {
+  router[route.method](route.path, requireScope(route.scope), async (req: Request, res: Response) => {
+    try {
+      await route.handler(req, res);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Curso não encontrado') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error(`Erro na API pública (${route.method.toUpperCase()} ${route.path}):`, error);
+      return res.status(500).json({
+        message: 'Erro interno',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  });
+}
+
+router.use((req: Request, res: Response) => {
+  res.status(404).json({ message: 'Rota não encontrada' });
+});
+
+export default router;
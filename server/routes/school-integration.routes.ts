@@ -7,9 +7,28 @@ import {
   insertSchoolSystemFieldMappingSchema
 } from '@shared/school-integration.schema';
 import { z } from 'zod';
+import { syncSchedulerService } from '../services/syncSchedulerService';
+import { isValidCronExpression } from '../services/cronExpression';
 
 const router = Router();
 
+// Corpo da prévia: mapeamentos em edição (opcional) e registros de exemplo
+const fieldMappingPreviewSchema = z.object({
+  mappings: z.array(z.object({
+    edumatrikField: z.string().min(1),
+    externalField: z.string().min(1),
+    transformationFunction: z.string().nullable().optional(),
+    isRequired: z.boolean().nullable().optional(),
+  })).optional(),
+  samples: z.union([z.record(z.any()), z.array(z.record(z.any())).min(1)]),
+});
+
+// Agendamento: expressão cron (ex.: "0 2 * * *") ou null para desativar
+const scheduleSchema = z.object({
+  syncSchedule: z.string().trim().min(1).max(100).nullable()
+    .refine(value => value === null || isValidCronExpression(value), { message: 'Expressão cron inválida' }),
+});
+
 // Middleware para todas as rotas de integração escolar
 router.use(requireAuth);
 
@@ -195,6 +214,17 @@ router.post('/:id/mappings', requireSchoolAdmin, async (req, res) => {
     
     const data = { ...req.body, schoolSystemId: id };
     const validatedData = insertSchoolSystemFieldMappingSchema.parse(data);
+
+    try {
+      schoolIntegrationService.validateFieldMappings([validatedData]);
+    } catch (error) {
+      if (error instanceof z.ZodError) throw error;
+      return res.status(400).json({
+        message: 'Função de transformação inválida',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+
     const mapping = await schoolIntegrationService.createFieldMapping(validatedData);
     return res.status(201).json(mapping);
   } catch (error) {
@@ -206,8 +236,82 @@ router.post('/:id/mappings', requireSchoolAdmin, async (req, res) => {
   }
 });
 
+// Prévia dos mapeamentos de um módulo: executa registros de exemplo sem gravar dados
+router.post('/:id/mappings/:moduleKey/preview', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const data = fieldMappingPreviewSchema.parse(req.body);
+    const mappings = data.mappings ?? await schoolIntegrationService.getFieldMappings(id, req.params.moduleKey);
+    
+    if (mappings.length === 0) {
+      return res.status(404).json({ message: 'Nenhum mapeamento de campo para o módulo' });
+    }
+    
+    const results = schoolIntegrationService.previewFieldMappings(mappings, data.samples);
+    return res.json({ results });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error('Erro ao gerar prévia dos mapeamentos:', error);
+    return res.status(400).json({
+      message: 'Erro ao gerar prévia dos mapeamentos',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
 // ---- Sincronização ----
 
+// Agendamentos dos módulos: expressão cron, última e próximas execuções
+router.get('/:id/schedules', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const schedules = await syncSchedulerService.getModuleSchedules(id);
+    return res.json(schedules);
+  } catch (error) {
+    console.error('Erro ao obter agendamentos:', error);
+    return res.status(500).json({
+      message: 'Erro ao obter agendamentos',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
+// Definir ou remover o agendamento de um módulo
+router.put('/:id/modules/:moduleKey/schedule', requireSchoolAdmin, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'ID inválido' });
+    }
+    
+    const { syncSchedule } = scheduleSchema.parse(req.body);
+    const schedule = await syncSchedulerService.setModuleSchedule(id, req.params.moduleKey, syncSchedule, req.user!.id);
+    return res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Dados inválidos', errors: error.errors });
+    }
+    console.error('Erro ao definir agendamento:', error);
+    return res.status(400).json({
+      message: 'Erro ao definir agendamento',
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+  }
+});
+
 // Agendar tarefa de sincronização
 router.post('/:id/sync-tasks', requireSchoolAdmin, async (req, res) => {
   try {
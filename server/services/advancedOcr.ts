@@ -371,8 +371,11 @@ class AdvancedOcrService {
       const text = result.text;
       const confidence = 75; // Optiic não retorna confiança, usando valor padrão
       
-      // Estruturar dados baseado no tipo de documento
-      const extractedData = await this.extractDocumentData(text, documentType);
+      // Estruturar dados baseado no tipo de documento; "other" é classificado
+      // pelo texto e o resultado passa a informar o tipo identificado
+      const extraction = await this.extractDocumentData(text, documentType);
+      const extractedData = extraction.extractedData;
+      documentType = extraction.documentType;
       
       // Calcular status inicial de validação
       let status: ValidationStatus = 'pending';
@@ -1109,9 +1112,9 @@ class AdvancedOcrService {
    * Extrai estrutura de dados específica para cada tipo de documento
    * @param text Texto extraído via OCR
    * @param documentType Tipo do documento
-   * @returns Dados estruturados
+   * @returns Tipo do documento (classificado quando "other") e dados estruturados
    */
-  private async extractDocumentData(text: string, documentType: DocumentType): Promise<any> {
+  private async extractDocumentData(text: string, documentType: DocumentType): Promise<{ documentType: DocumentType; extractedData: any }> {
     // Normalizar texto
     const normalizedText = text
       .replace(/\s+/g, ' ')
@@ -1163,7 +1166,7 @@ class AdvancedOcrService {
       console.error('Erro ao melhorar campos extraídos:', error);
     }
     
-    return extractedData;
+    return { documentType, extractedData };
   }
   
   /**
@@ -85,10 +85,10 @@ export async function getConversionMetrics(schoolId?: number, period: string = '
       leadQuery += ` AND l.school_id = $1`;
     }
     
-    // Executar consulta
-    const leadsResult = await db.execute(leadQuery, schoolId ? [schoolId] : []);
+    // Executar consulta (db.execute devolve as linhas diretamente)
+    const leads = await db.execute(leadQuery, schoolId ? [schoolId] : []);
     
-    if (!leadsResult.rows.length) {
+    if (!leads.length) {
       return {
         conversion_rate: 0,
         leads_count: 0,
@@ -101,7 +101,6 @@ export async function getConversionMetrics(schoolId?: number, period: string = '
     }
     
     // Calcular métricas
-    const leads = leadsResult.rows;
     const totalLeads = leads.length;
     const convertedLeads = leads.filter(l => l.enrollment_id);
     const totalConverted = convertedLeads.length;
@@ -162,7 +161,7 @@ export async function getConversionMetrics(schoolId?: number, period: string = '
     })).sort((a, b) => b.count - a.count);
     
     // Tendência (comparar período atual com anterior)
-    const prevInterval = interval.replace('\'', '\'2 times ');
+    const prevInterval = `${interval} * 2`;
     
     const trendQuery = `
       SELECT 
@@ -170,8 +169,8 @@ export async function getConversionMetrics(schoolId?: number, period: string = '
           WHEN created_at > NOW() - ${interval} THEN 'current'
           ELSE 'previous'
         END as period,
-        COUNT(*) as leads,
-        SUM(CASE WHEN enrollment_id IS NOT NULL THEN 1 ELSE 0 END) as conversions
+        COUNT(*)::int as leads,
+        SUM(CASE WHEN enrollment_id IS NOT NULL THEN 1 ELSE 0 END)::int as conversions
       FROM (
         SELECT l.id, l.created_at, e.id as enrollment_id
         FROM leads l
@@ -182,13 +181,13 @@ export async function getConversionMetrics(schoolId?: number, period: string = '
       GROUP BY period
     `;
     
-    const trendResult = await db.execute(trendQuery, schoolId ? [schoolId] : []);
+    const trendRows = await db.execute(trendQuery, schoolId ? [schoolId] : []);
     
     const trendData = [];
     let currentRate = 0;
     let previousRate = 0;
     
-    for (const row of trendResult.rows) {
+    for (const row of trendRows) {
       const rate = row.leads > 0 ? row.conversions / row.leads : 0;
       if (row.period === 'current') {
         currentRate = rate;
@@ -0,0 +1,384 @@
+/**
+ * Chaves de API das escolas
+ * Emite chaves com escopos para a API pública (/api/v1), guardando apenas o
+ * hash SHA-256; controla limite de requisições por chave, rotação com período
+ * de carência, revogação e estatísticas de uso
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { cacheService } from './cacheService';
+import { logAction } from './securityService';
+
+export const API_SCOPES = [
+  'leads:read',
+  'leads:write',
+  'courses:read',
+  'enrollments:read',
+  'documents:read',
+  'payments:read',
+] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+const KEY_PREFIX = 'emk_';
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+// Chave ainda válida após a rotação, para a escola atualizar suas integrações
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+
+export interface ApiKey {
+  id: number;
+  schoolId: number;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  rateLimitPerMinute: number;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  rotatedFromId: number | null;
+  createdAt: Date;
+}
+
+// Chave autenticada disponível para as rotas da API pública
+export interface ApiKeyContext {
+  keyId: number;
+  schoolId: number;
+  scopes: ApiScope[];
+  rateLimitPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface ApiKeyUsage {
+  totals: { requests: number; errors: number; rateLimited: number };
+  daily: { day: string; requests: number; errors: number }[];
+  routes: { method: string; route: string; requests: number; errors: number }[];
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiScope[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Hash armazenado da chave
+ * @param key Chave completa
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Gera uma chave nova; apenas o prefixo e o hash são persistidos
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { key, prefix: key.slice(0, KEY_PREFIX.length + 8), hash: hashApiKey(key) };
+}
+
+class ApiKeyService {
+  /**
+   * Cria as tabelas de chaves e de uso. Chaves em texto puro de schools.api_key
+   * são migradas para chaves com hash e todos os escopos
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS school_api_keys (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes JSONB NOT NULL DEFAULT '[]',
+        rate_limit_per_minute INTEGER NOT NULL DEFAULT ${DEFAULT_RATE_LIMIT_PER_MINUTE},
+        expires_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        rotated_from_id INTEGER,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_school_api_keys_school ON school_api_keys(school_id);
+
+      CREATE TABLE IF NOT EXISTS api_key_usage (
+        key_id INTEGER NOT NULL,
+        day DATE NOT NULL,
+        method TEXT NOT NULL,
+        route TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        request_count INTEGER NOT NULL DEFAULT 0,
+        last_request_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (key_id, day, method, route, status_code)
+      );
+    `);
+
+    await db.execute(`
+      WITH legacy AS (
+        SELECT id, api_key FROM schools WHERE COALESCE(api_key, '') <> ''
+      ), migrated AS (
+        INSERT INTO school_api_keys (school_id, name, key_prefix, key_hash, scopes)
+        SELECT id, 'Chave migrada', LEFT(api_key, 8), encode(sha256(convert_to(api_key, 'UTF8')), 'hex'), $1
+        FROM legacy
+        ON CONFLICT (key_hash) DO NOTHING
+      )
+      UPDATE schools SET api_key = NULL FROM legacy WHERE schools.id = legacy.id
+    `, [JSON.stringify(API_SCOPES)]);
+  }
+
+  /**
+   * Identifica a chave enviada na requisição
+   * @param key Chave completa
+   * @returns Contexto da chave, ou null se inválida, expirada ou revogada
+   */
+  async authenticate(key: string): Promise<ApiKeyContext | null> {
+    if (!key) return null;
+
+    const [row] = await db.execute(`
+      SELECT id, school_id, scopes, rate_limit_per_minute
+      FROM school_api_keys
+      WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+    `, [hashApiKey(key)]);
+
+    if (!row) return null;
+
+    return {
+      keyId: row.id,
+      schoolId: row.school_id,
+      scopes: row.scopes || [],
+      rateLimitPerMinute: row.rate_limit_per_minute,
+    };
+  }
+
+  /**
+   * Conta a requisição na janela do minuto corrente
+   * @param context Chave autenticada
+   * @param now Momento da requisição
+   */
+  async consumeRateLimit(context: ApiKeyContext, now: Date = new Date()): Promise<RateLimitResult> {
+    const windowMs = RATE_LIMIT_WINDOW_SECONDS * 1000;
+    const window = Math.floor(now.getTime() / windowMs);
+    const count = await cacheService.increment(`${context.keyId}:${window}`, 1, {
+      namespace: 'api-rate-limit',
+      ttl: RATE_LIMIT_WINDOW_SECONDS,
+    });
+
+    // Sem contador disponível a requisição não é bloqueada
+    const used = count ?? 0;
+    return {
+      allowed: used <= context.rateLimitPerMinute,
+      limit: context.rateLimitPerMinute,
+      remaining: Math.max(context.rateLimitPerMinute - used, 0),
+      resetAt: new Date((window + 1) * windowMs),
+    };
+  }
+
+  /**
+   * Contabiliza uma requisição nas estatísticas diárias da chave
+   * @param keyId ID da chave
+   * @param method Método HTTP
+   * @param route Rota declarada (ex.: /leads/:id)
+   * @param statusCode Código de resposta
+   */
+  async recordUsage(keyId: number, method: string, route: string, statusCode: number): Promise<void> {
+    await db.execute(`
+      WITH usage AS (
+        INSERT INTO api_key_usage (key_id, day, method, route, status_code, request_count)
+        VALUES ($1, CURRENT_DATE, $2, $3, $4, 1)
+        ON CONFLICT (key_id, day, method, route, status_code) DO UPDATE SET
+          request_count = api_key_usage.request_count + 1,
+          last_request_at = NOW()
+      )
+      UPDATE school_api_keys SET last_used_at = NOW() WHERE id = $1
+    `, [keyId, method, route, statusCode]);
+  }
+
+  /**
+   * Chaves da escola (sem o valor da chave)
+   * @param schoolId ID da escola
+   */
+  async listKeys(schoolId: number): Promise<ApiKey[]> {
+    const rows = await db.execute(`
+      SELECT * FROM school_api_keys WHERE school_id = $1 ORDER BY revoked_at NULLS FIRST, created_at DESC
+    `, [schoolId]);
+
+    return rows.map((row: any) => this.mapKey(row));
+  }
+
+  /**
+   * Emite uma chave. O valor completo só é devolvido nesta chamada
+   * @param schoolId ID da escola
+   * @param data Nome, escopos, limite por minuto e expiração
+   * @param userId Usuário responsável
+   */
+  async createKey(schoolId: number, data: CreateApiKeyData, userId: number): Promise<{ key: string; apiKey: ApiKey }> {
+    const generated = generateApiKey();
+
+    const [row] = await db.execute(`
+      INSERT INTO school_api_keys (school_id, name, key_prefix, key_hash, scopes, rate_limit_per_minute, expires_at, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      schoolId,
+      data.name,
+      generated.prefix,
+      generated.hash,
+      JSON.stringify(data.scopes),
+      data.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE,
+      data.expiresAt || null,
+      userId
+    ]);
+
+    if (!row) {
+      throw new Error('Não foi possível criar a chave de API');
+    }
+
+    await logAction(userId, 'api_key_created', 'school_api_keys', String(row.id), {
+      schoolId,
+      name: data.name,
+      scopes: data.scopes
+    });
+
+    return { key: generated.key, apiKey: this.mapKey(row) };
+  }
+
+  /**
+   * Substitui a chave por uma nova com os mesmos escopos. A anterior continua
+   * válida durante o período de carência
+   * @param schoolId ID da escola
+   * @param keyId ID da chave
+   * @param userId Usuário responsável
+   * @param graceHours Horas de validade da chave anterior (0 invalida imediatamente)
+   */
+  async rotateKey(
+    schoolId: number,
+    keyId: number,
+    userId: number,
+    graceHours: number = DEFAULT_ROTATION_GRACE_HOURS
+  ): Promise<{ key: string; apiKey: ApiKey }> {
+    const generated = generateApiKey();
+
+    const [row] = await db.execute(`
+      WITH previous AS (
+        UPDATE school_api_keys
+        SET expires_at = LEAST(COALESCE(expires_at, 'infinity'::timestamp), NOW() + ($3 || ' hours')::interval),
+          updated_at = NOW()
+        WHERE id = $1 AND school_id = $2 AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > NOW())
+        RETURNING *
+      )
+      INSERT INTO school_api_keys (school_id, name, key_prefix, key_hash, scopes, rate_limit_per_minute, rotated_from_id, created_by)
+      SELECT school_id, name, $4, $5, scopes, rate_limit_per_minute, id, $6 FROM previous
+      RETURNING *
+    `, [keyId, schoolId, graceHours, generated.prefix, generated.hash, userId]);
+
+    if (!row) {
+      throw new Error('Chave de API não encontrada ou inativa');
+    }
+
+    await logAction(userId, 'api_key_rotated', 'school_api_keys', String(keyId), {
+      schoolId,
+      newKeyId: row.id,
+      graceHours
+    });
+
+    return { key: generated.key, apiKey: this.mapKey(row) };
+  }
+
+  /**
+   * Revoga a chave imediatamente
+   * @param schoolId ID da escola
+   * @param keyId ID da chave
+   * @param userId Usuário responsável
+   */
+  async revokeKey(schoolId: number, keyId: number, userId: number): Promise<ApiKey> {
+    const [row] = await db.execute(`
+      UPDATE school_api_keys SET revoked_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND school_id = $2 AND revoked_at IS NULL
+      RETURNING *
+    `, [keyId, schoolId]);
+
+    if (!row) {
+      throw new Error('Chave de API não encontrada ou já revogada');
+    }
+
+    await logAction(userId, 'api_key_revoked', 'school_api_keys', String(keyId), { schoolId }, 'security');
+
+    return this.mapKey(row);
+  }
+
+  /**
+   * Estatísticas de uso da chave nos últimos dias
+   * @param schoolId ID da escola
+   * @param keyId ID da chave
+   * @param days Quantidade de dias
+   */
+  async getUsage(schoolId: number, keyId: number, days: number = 30): Promise<ApiKeyUsage> {
+    const rows = await db.execute(`
+      SELECT u.day::text AS day, u.method, u.route, u.status_code, u.request_count
+      FROM api_key_usage u
+      JOIN school_api_keys k ON k.id = u.key_id
+      WHERE u.key_id = $1 AND k.school_id = $2 AND u.day > CURRENT_DATE - $3::int
+      ORDER BY u.day
+    `, [keyId, schoolId, days]);
+
+    const usage: ApiKeyUsage = { totals: { requests: 0, errors: 0, rateLimited: 0 }, daily: [], routes: [] };
+    const daily = new Map<string, { day: string; requests: number; errors: number }>();
+    const routes = new Map<string, { method: string; route: string; requests: number; errors: number }>();
+
+    for (const row of rows) {
+      const count = Number(row.request_count);
+      const errors = row.status_code >= 400 ? count : 0;
+
+      usage.totals.requests += count;
+      usage.totals.errors += errors;
+      if (row.status_code === 429) usage.totals.rateLimited += count;
+
+      const day = daily.get(row.day) || { day: row.day, requests: 0, errors: 0 };
+      day.requests += count;
+      day.errors += errors;
+      daily.set(row.day, day);
+
+      const routeKey = `${row.method} ${row.route}`;
+      const route = routes.get(routeKey) || { method: row.method, route: row.route, requests: 0, errors: 0 };
+      route.requests += count;
+      route.errors += errors;
+      routes.set(routeKey, route);
+    }
+
+    usage.daily = Array.from(daily.values());
+    usage.routes = Array.from(routes.values()).sort((a, b) => b.requests - a.requests);
+    return usage;
+  }
+
+  private mapKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes || [],
+      rateLimitPerMinute: row.rate_limit_per_minute,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at,
+      lastUsedAt: row.last_used_at,
+      rotatedFromId: row.rotated_from_id,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
@@ -0,0 +1,634 @@
+/**
+ * Serviço de conciliação bancária
+ * Importa retornos CNAB 240/400 e extratos OFX das escolas que emitem boletos
+ * pelo próprio banco, associa cada liquidação a um pagamento em aberto (nosso
+ * número, seu número, referência do gateway ou valor e data), baixa os pagamentos com a data real do
+ * crédito e as tarifas, e mantém as linhas não associadas para resolução manual
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { paymentProcessor } from './paymentProcessor';
+import { tuitionBillingService } from './tuitionBillingService';
+import {
+  BankFileFormat,
+  BankStatementEntry,
+  normalizeOurNumber,
+  parseBankFile
+} from './bankStatementParser';
+
+export const resolveEntrySchema = z.object({
+  paymentId: z.number().int().positive().optional(),
+  ignore: z.boolean().optional(),
+  notes: z.string().max(500).optional(),
+}).refine(data => !!data.paymentId !== !!data.ignore, {
+  message: 'Informe o pagamento ou marque o lançamento como ignorado',
+});
+
+export type ResolveEntryData = z.infer<typeof resolveEntrySchema>;
+
+// matched/already_paid: associados na importação; review: nosso número com valor divergente;
+// resolved/ignored: resolução manual
+export type ReconciliationEntryStatus = 'matched' | 'already_paid' | 'review' | 'ambiguous' | 'unmatched' | 'resolved' | 'ignored';
+export type ReconciliationMatchRule = 'our_number' | 'document_number' | 'gateway_reference' | 'amount_date' | 'manual';
+
+export interface ReconciliationCandidate {
+  id: number;
+  amount: number;
+  status: string;
+  dueDate: string | null;
+  ourNumber: string | null;
+  // ID do gateway e referência enviada na emissão
+  references: string[];
+}
+
+export interface EntryMatch {
+  status: 'matched' | 'already_paid' | 'review' | 'ambiguous' | 'unmatched';
+  paymentId: number | null;
+  rule: ReconciliationMatchRule | null;
+  candidateIds: number[];
+}
+
+export interface ReconciliationImport {
+  id: number;
+  schoolId: number;
+  fileName: string;
+  format: BankFileFormat;
+  bankCode: string | null;
+  totalEntries: number;
+  skippedEntries: number;
+  matchedCount: number;
+  pendingCount: number;
+  ignoredCount: number;
+  totalAmount: number;
+  totalFees: number;
+  createdById: number | null;
+  createdAt: Date;
+}
+
+export interface ReconciliationEntry {
+  id: number;
+  importId: number;
+  lineNumber: number;
+  ourNumber: string | null;
+  documentNumber: string | null;
+  occurrenceCode: string | null;
+  description: string | null;
+  faceAmount: number | null;
+  paidAmount: number;
+  feeAmount: number;
+  dueDate: string | null;
+  settlementDate: string | null;
+  creditDate: string | null;
+  transactionId: string | null;
+  status: ReconciliationEntryStatus;
+  matchRule: ReconciliationMatchRule | null;
+  paymentId: number | null;
+  paymentDescription: string | null;
+  candidatePaymentIds: number[];
+  notes: string | null;
+  resolvedById: number | null;
+  resolvedAt: Date | null;
+}
+
+export interface ReconciliationReport {
+  import: ReconciliationImport;
+  entries: ReconciliationEntry[];
+}
+
+// Pagamentos que ainda podem ser baixados pela conciliação
+const OPEN_PAYMENT_STATUSES = ['pending', 'processing', 'expired'];
+
+// Lançamentos que aguardam resolução manual
+const PENDING_ENTRY_STATUSES: ReconciliationEntryStatus[] = ['unmatched', 'ambiguous', 'review'];
+
+// Distância máxima entre o vencimento do pagamento e a data do lançamento
+const DATE_WINDOW_DAYS = 45;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / 86400000;
+
+/**
+ * Associa um lançamento do arquivo a um pagamento da escola. Nosso número,
+ * seu número (ID do pagamento informado na emissão) e, no OFX, a referência
+ * gravada na emissão identificam o título, desde que o valor confira; sem
+ * eles vale apenas um único pagamento em aberto de mesmo valor com
+ * vencimento próximo. Nosso número com valor divergente fica para revisão
+ * @param entry Lançamento de liquidação
+ * @param candidates Pagamentos da escola
+ * @param claimed Pagamentos já associados a outras linhas do arquivo
+ */
+export function matchStatementEntry(
+  entry: BankStatementEntry,
+  candidates: ReconciliationCandidate[],
+  claimed: Set<number>
+): EntryMatch {
+  const available = candidates.filter(candidate => !claimed.has(candidate.id));
+  const expectedAmount = entry.faceAmount || entry.paidAmount;
+  const sameAmount = (candidate: ReconciliationCandidate) => Math.abs(candidate.amount - expectedAmount) < 0.01;
+
+  const byPayment = (candidate: ReconciliationCandidate, rule: ReconciliationMatchRule): EntryMatch => ({
+    status: candidate.status === 'paid' ? 'already_paid' : 'matched',
+    paymentId: candidate.id,
+    rule,
+    candidateIds: [],
+  });
+
+  const ourNumber = normalizeOurNumber(entry.ourNumber);
+  if (ourNumber) {
+    const found = available.find(candidate => normalizeOurNumber(candidate.ourNumber) === ourNumber);
+    if (found) {
+      return sameAmount(found)
+        ? byPayment(found, 'our_number')
+        : { status: 'review', paymentId: null, rule: null, candidateIds: [found.id] };
+    }
+  }
+
+  const documentId = entry.documentNumber && /^\d+$/.test(entry.documentNumber) ? parseInt(entry.documentNumber, 10) : null;
+  if (documentId) {
+    const found = available.find(candidate => candidate.id === documentId && sameAmount(candidate));
+    if (found) return byPayment(found, 'document_number');
+  }
+
+  if (entry.bankReference) {
+    const found = available.find(candidate => candidate.references.includes(entry.bankReference!) && sameAmount(candidate));
+    if (found) return byPayment(found, 'gateway_reference');
+  }
+
+  const referenceDate = entry.dueDate || entry.settlementDate;
+  const matches = available.filter(candidate =>
+    OPEN_PAYMENT_STATUSES.includes(candidate.status)
+    && sameAmount(candidate)
+    && (!referenceDate || !candidate.dueDate || daysBetween(candidate.dueDate, referenceDate) <= DATE_WINDOW_DAYS)
+  );
+
+  if (matches.length === 1) {
+    return { status: 'matched', paymentId: matches[0].id, rule: 'amount_date', candidateIds: [] };
+  }
+
+  return {
+    status: matches.length > 1 ? 'ambiguous' : 'unmatched',
+    paymentId: null,
+    rule: null,
+    candidateIds: matches.map(candidate => candidate.id),
+  };
+}
+
+class BankReconciliationService {
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS bank_reconciliation_imports (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        file_name TEXT NOT NULL,
+        file_hash TEXT NOT NULL,
+        format TEXT NOT NULL,
+        bank_code TEXT,
+        total_entries INTEGER NOT NULL DEFAULT 0,
+        skipped_entries INTEGER NOT NULL DEFAULT 0,
+        matched_count INTEGER NOT NULL DEFAULT 0,
+        pending_count INTEGER NOT NULL DEFAULT 0,
+        ignored_count INTEGER NOT NULL DEFAULT 0,
+        total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+        total_fees DECIMAL(12, 2) NOT NULL DEFAULT 0,
+        created_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (school_id, file_hash)
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS bank_reconciliation_entries (
+        id SERIAL PRIMARY KEY,
+        import_id INTEGER NOT NULL REFERENCES bank_reconciliation_imports(id) ON DELETE CASCADE,
+        line_number INTEGER NOT NULL,
+        our_number TEXT,
+        document_number TEXT,
+        occurrence_code TEXT,
+        description TEXT,
+        face_amount DECIMAL(12, 2),
+        paid_amount DECIMAL(12, 2) NOT NULL,
+        fee_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+        due_date DATE,
+        settlement_date DATE,
+        credit_date DATE,
+        transaction_id TEXT,
+        status TEXT NOT NULL,
+        match_rule TEXT,
+        payment_id INTEGER,
+        candidate_payment_ids JSONB,
+        notes TEXT,
+        resolved_by_id INTEGER,
+        resolved_at TIMESTAMP WITH TIME ZONE
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS bank_reconciliation_entries_import_idx
+      ON bank_reconciliation_entries(import_id, status)
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS payments_our_number_idx ON payments((metadata->>'ourNumber'))
+    `);
+  }
+
+  /**
+   * Importação anterior do mesmo arquivo na escola, se houver
+   * @param schoolId ID da escola
+   * @param content Conteúdo do arquivo
+   */
+  async findImportByContent(schoolId: number, content: Buffer): Promise<ReconciliationImport | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM bank_reconciliation_imports WHERE school_id = $1 AND file_hash = $2
+    `, [schoolId, this.hashFile(content)]);
+
+    return row ? this.mapImport(row) : null;
+  }
+
+  /**
+   * Importa um arquivo de retorno ou extrato e concilia as liquidações
+   * @param schoolId ID da escola
+   * @param file Nome e conteúdo do arquivo
+   * @param userId Usuário que fez a importação
+   */
+  async importFile(schoolId: number, file: { name: string; content: Buffer }, userId: number): Promise<ReconciliationReport> {
+    const parsed = parseBankFile(file.content);
+    const settlements = parsed.entries.filter(entry => entry.isSettlement && entry.paidAmount > 0);
+
+    if (parsed.entries.length === 0) {
+      throw new Error('Nenhum lançamento encontrado no arquivo');
+    }
+
+    const [importRow] = await db.execute(`
+      INSERT INTO bank_reconciliation_imports (
+        school_id, file_name, file_hash, format, bank_code, total_entries, skipped_entries, created_by_id
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+    `, [
+      schoolId,
+      file.name,
+      this.hashFile(file.content),
+      parsed.format,
+      parsed.bankCode,
+      settlements.length,
+      parsed.entries.length - settlements.length,
+      userId,
+    ]);
+
+    if (!importRow) {
+      throw new Error('Erro ao registrar importação do arquivo');
+    }
+
+    const candidates = await this.loadCandidates(schoolId);
+    const claimed = new Set<number>();
+    let settled = 0;
+
+    for (const entry of settlements) {
+      const match = matchStatementEntry(entry, candidates, claimed);
+      let status: ReconciliationEntryStatus = match.status;
+
+      if (match.paymentId) {
+        claimed.add(match.paymentId);
+
+        if (match.status === 'matched') {
+          const changed = await paymentProcessor.settlePayment(match.paymentId, this.buildSettlement(entry, importRow.id));
+          if (changed) {
+            settled++;
+          } else {
+            status = 'already_paid';
+          }
+        }
+      }
+
+      await db.execute(`
+        INSERT INTO bank_reconciliation_entries (
+          import_id, line_number, our_number, document_number, occurrence_code, description,
+          face_amount, paid_amount, fee_amount, due_date, settlement_date, credit_date, transaction_id,
+          status, match_rule, payment_id, candidate_payment_ids
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      `, [
+        importRow.id,
+        entry.lineNumber,
+        entry.ourNumber,
+        entry.documentNumber ?? entry.bankReference,
+        entry.occurrenceCode,
+        entry.description,
+        entry.faceAmount,
+        entry.paidAmount,
+        entry.feeAmount,
+        entry.dueDate,
+        entry.settlementDate,
+        entry.creditDate,
+        entry.transactionId,
+        status,
+        match.rule,
+        match.paymentId,
+        JSON.stringify(match.candidateIds),
+      ]);
+    }
+
+    await this.refreshTotals(importRow.id);
+    await this.afterSettlement(settled);
+
+    await logAction(userId, 'bank_reconciliation_imported', 'bank_reconciliation', String(importRow.id), {
+      schoolId,
+      fileName: file.name,
+      format: parsed.format,
+      entries: settlements.length,
+      settled,
+    });
+
+    return (await this.getReport(importRow.id))!;
+  }
+
+  /**
+   * Importações da escola, mais recentes primeiro
+   */
+  async listImports(schoolId: number): Promise<ReconciliationImport[]> {
+    const rows = await db.execute(`
+      SELECT * FROM bank_reconciliation_imports WHERE school_id = $1 ORDER BY created_at DESC
+    `, [schoolId]);
+
+    return rows.map((row: any) => this.mapImport(row));
+  }
+
+  /**
+   * Relatório de uma importação: resumo e lançamentos com o pagamento associado
+   */
+  async getReport(importId: number): Promise<ReconciliationReport | null> {
+    const [importRow] = await db.execute(`
+      SELECT * FROM bank_reconciliation_imports WHERE id = $1
+    `, [importId]);
+
+    if (!importRow) return null;
+
+    const entries = await db.execute(`
+      SELECT e.*, p.description AS payment_description
+      FROM bank_reconciliation_entries e
+      LEFT JOIN payments p ON p.id = e.payment_id
+      WHERE e.import_id = $1
+      ORDER BY e.line_number
+    `, [importId]);
+
+    return {
+      import: this.mapImport(importRow),
+      entries: entries.map((row: any) => this.mapEntry(row)),
+    };
+  }
+
+  /**
+   * Lançamento com a escola da importação (para checagem de acesso)
+   */
+  async getEntry(entryId: number): Promise<(ReconciliationEntry & { schoolId: number }) | null> {
+    const [row] = await db.execute(`
+      SELECT e.*, i.school_id, p.description AS payment_description
+      FROM bank_reconciliation_entries e
+      JOIN bank_reconciliation_imports i ON i.id = e.import_id
+      LEFT JOIN payments p ON p.id = e.payment_id
+      WHERE e.id = $1
+    `, [entryId]);
+
+    return row ? { ...this.mapEntry(row), schoolId: row.school_id } : null;
+  }
+
+  /**
+   * Pagamentos em aberto da escola mais próximos do valor do lançamento
+   * @param entryId ID do lançamento
+   */
+  async getCandidates(entryId: number): Promise<any[]> {
+    const entry = await this.getEntry(entryId);
+    if (!entry) {
+      throw new Error('Lançamento não encontrado');
+    }
+
+    const rows = await db.execute(`
+      SELECT p.id, p.amount, p.status, p.description, p.due_date, p.metadata->>'ourNumber' AS our_number,
+        u.full_name AS payer_name
+      FROM payments p
+      LEFT JOIN users u ON u.id = COALESCE(p.student_id, p.user_id)
+      WHERE p.school_id = $1 AND p.status = ANY($2)
+      ORDER BY ABS(p.amount - $3), p.due_date
+      LIMIT 20
+    `, [entry.schoolId, OPEN_PAYMENT_STATUSES, entry.faceAmount || entry.paidAmount]);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      amount: parseFloat(row.amount),
+      status: row.status,
+      description: row.description,
+      dueDate: row.due_date,
+      ourNumber: row.our_number,
+      payerName: row.payer_name,
+      suggested: entry.candidatePaymentIds.includes(row.id),
+    }));
+  }
+
+  /**
+   * Resolve manualmente um lançamento não associado: baixa o pagamento
+   * escolhido ou marca o lançamento como ignorado
+   * @param entryId ID do lançamento
+   * @param data Pagamento escolhido ou ignorar
+   * @param userId Usuário que resolveu
+   */
+  async resolveEntry(entryId: number, data: ResolveEntryData, userId: number): Promise<ReconciliationEntry> {
+    const entry = await this.getEntry(entryId);
+    if (!entry) {
+      throw new Error('Lançamento não encontrado');
+    }
+    if (!PENDING_ENTRY_STATUSES.includes(entry.status)) {
+      throw new Error('Lançamento já conciliado');
+    }
+
+    if (data.paymentId) {
+      const [payment] = await db.execute(`
+        SELECT id, school_id, status FROM payments WHERE id = $1
+      `, [data.paymentId]);
+
+      if (!payment || payment.school_id !== entry.schoolId) {
+        throw new Error('Pagamento não encontrado para a escola');
+      }
+      if (!OPEN_PAYMENT_STATUSES.includes(payment.status) && payment.status !== 'paid') {
+        throw new Error('Pagamento cancelado ou estornado não pode ser baixado pela conciliação');
+      }
+    }
+
+    // Reserva o lançamento antes de baixar o pagamento: duas resoluções simultâneas não baixam duas vezes
+    const [claimed] = await db.execute(`
+      UPDATE bank_reconciliation_entries
+      SET status = $2, payment_id = $3, match_rule = $4, notes = $5, resolved_by_id = $6, resolved_at = NOW()
+      WHERE id = $1 AND status = ANY($7)
+      RETURNING id
+    `, [
+      entryId,
+      data.paymentId ? 'resolved' : 'ignored',
+      data.paymentId ?? null,
+      data.paymentId ? 'manual' : null,
+      data.notes ?? null,
+      userId,
+      PENDING_ENTRY_STATUSES,
+    ]);
+
+    if (!claimed) {
+      throw new Error('Lançamento já conciliado');
+    }
+
+    let settled = 0;
+
+    if (data.paymentId) {
+      try {
+        const changed = await paymentProcessor.settlePayment(data.paymentId, this.buildSettlement(entry, entry.importId));
+        if (changed) settled++;
+      } catch (error) {
+        await db.execute(`
+          UPDATE bank_reconciliation_entries
+          SET status = $2, payment_id = $3, match_rule = $4, notes = $5, resolved_by_id = NULL, resolved_at = NULL
+          WHERE id = $1
+        `, [entryId, entry.status, entry.paymentId, entry.matchRule, entry.notes]);
+        throw error;
+      }
+    }
+
+    await this.refreshTotals(entry.importId);
+    await this.afterSettlement(settled);
+
+    await logAction(userId, 'bank_reconciliation_entry_resolved', 'bank_reconciliation_entry', String(entryId), {
+      importId: entry.importId,
+      paymentId: data.paymentId,
+      ignored: !!data.ignore,
+    });
+
+    const resolved = await this.getEntry(entryId);
+    return resolved!;
+  }
+
+  /**
+   * Pagamentos em aberto e pagos recentemente (para reconhecer títulos já
+   * baixados pelo gateway ou por outra importação)
+   */
+  private async loadCandidates(schoolId: number): Promise<ReconciliationCandidate[]> {
+    const rows = await db.execute(`
+      SELECT id, amount, status, due_date, metadata->>'ourNumber' AS our_number,
+        external_id, metadata->>'gatewayReference' AS gateway_reference
+      FROM payments
+      WHERE school_id = $1
+        AND (status = ANY($2) OR (status = 'paid' AND updated_at > NOW() - INTERVAL '180 days'))
+    `, [schoolId, OPEN_PAYMENT_STATUSES]);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      amount: parseFloat(row.amount),
+      status: row.status,
+      dueDate: row.due_date ? new Date(row.due_date).toISOString().slice(0, 10) : null,
+      ourNumber: row.our_number,
+      references: [row.external_id, row.gateway_reference].filter(Boolean),
+    }));
+  }
+
+  private buildSettlement(entry: Pick<BankStatementEntry, 'paidAmount' | 'feeAmount' | 'settlementDate' | 'creditDate' | 'lineNumber'>, importId: number) {
+    return {
+      settledAt: entry.creditDate || entry.settlementDate || new Date().toISOString().slice(0, 10),
+      paidAmount: entry.paidAmount,
+      feeAmount: entry.feeAmount,
+      source: 'bank_reconciliation',
+      reference: { reconciliationImportId: importId, reconciliationLine: entry.lineNumber },
+    };
+  }
+
+  /**
+   * Baixa as parcelas de mensalidade dos pagamentos liquidados e sincroniza as matrículas
+   */
+  private async afterSettlement(settled: number): Promise<void> {
+    if (settled === 0) return;
+
+    try {
+      await tuitionBillingService.recalculateOverdue();
+    } catch (error) {
+      console.error('Erro ao atualizar parcelas após conciliação:', error);
+    }
+  }
+
+  private async refreshTotals(importId: number): Promise<void> {
+    await db.execute(`
+      UPDATE bank_reconciliation_imports i
+      SET
+        matched_count = t.matched,
+        pending_count = t.pending,
+        ignored_count = t.ignored,
+        total_amount = t.total_amount,
+        total_fees = t.total_fees
+      FROM (
+        SELECT
+          COUNT(*) FILTER (WHERE status IN ('matched', 'already_paid', 'resolved')) AS matched,
+          COUNT(*) FILTER (WHERE status IN ('unmatched', 'ambiguous', 'review')) AS pending,
+          COUNT(*) FILTER (WHERE status = 'ignored') AS ignored,
+          COALESCE(SUM(paid_amount), 0) AS total_amount,
+          COALESCE(SUM(fee_amount), 0) AS total_fees
+        FROM bank_reconciliation_entries
+        WHERE import_id = $1
+      ) t
+      WHERE i.id = $1
+    `, [importId]);
+  }
+
+  private hashFile(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  private mapImport(row: any): ReconciliationImport {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      fileName: row.file_name,
+      format: row.format,
+      bankCode: row.bank_code,
+      totalEntries: row.total_entries,
+      skippedEntries: row.skipped_entries,
+      matchedCount: row.matched_count,
+      pendingCount: row.pending_count,
+      ignoredCount: row.ignored_count,
+      totalAmount: round(parseFloat(row.total_amount)),
+      totalFees: round(parseFloat(row.total_fees)),
+      createdById: row.created_by_id,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapEntry(row: any): ReconciliationEntry {
+    const toDate = (value: any) => value ? new Date(value).toISOString().slice(0, 10) : null;
+
+    return {
+      id: row.id,
+      importId: row.import_id,
+      lineNumber: row.line_number,
+      ourNumber: row.our_number,
+      documentNumber: row.document_number,
+      occurrenceCode: row.occurrence_code,
+      description: row.description,
+      faceAmount: row.face_amount !== null ? parseFloat(row.face_amount) : null,
+      paidAmount: parseFloat(row.paid_amount),
+      feeAmount: parseFloat(row.fee_amount),
+      dueDate: toDate(row.due_date),
+      settlementDate: toDate(row.settlement_date),
+      creditDate: toDate(row.credit_date),
+      transactionId: row.transaction_id,
+      status: row.status,
+      matchRule: row.match_rule,
+      paymentId: row.payment_id,
+      paymentDescription: row.payment_description ?? null,
+      candidatePaymentIds: row.candidate_payment_ids || [],
+      notes: row.notes,
+      resolvedById: row.resolved_by_id,
+      resolvedAt: row.resolved_at,
+    };
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
+export default bankReconciliationService;
@@ -0,0 +1,266 @@
+/**
+ * Leitura de arquivos de retorno bancário (CNAB 240 e CNAB 400) e de
+ * extratos OFX, normalizados em lançamentos para a conciliação de pagamentos
+ */
+
+export type BankFileFormat = 'cnab240' | 'cnab400' | 'ofx';
+
+export interface BankStatementEntry {
+  // Linha do arquivo (para o relatório de conciliação)
+  lineNumber: number;
+  // Nosso número (identificação do título no banco)
+  ourNumber: string | null;
+  // Seu número / número do documento informado pela escola na emissão
+  documentNumber: string | null;
+  // CHECKNUM/REFNUM do OFX: número do banco, só associa pela referência gravada na emissão da cobrança
+  bankReference: string | null;
+  occurrenceCode: string | null;
+  description: string | null;
+  // Valor nominal do título (CNAB); extratos não trazem
+  faceAmount: number | null;
+  paidAmount: number;
+  feeAmount: number;
+  dueDate: string | null;
+  // Datas no formato AAAA-MM-DD
+  settlementDate: string | null;
+  creditDate: string | null;
+  // Liquidação do título (CNAB) ou crédito em conta (OFX)
+  isSettlement: boolean;
+  // FITID do OFX
+  transactionId: string | null;
+}
+
+export interface ParsedBankFile {
+  format: BankFileFormat;
+  bankCode: string | null;
+  entries: BankStatementEntry[];
+}
+
+// Códigos de movimento de liquidação (CNAB 240, padrão FEBRABAN)
+const CNAB240_SETTLEMENT_CODES = ['06', '17'];
+
+// Códigos de ocorrência de liquidação no CNAB 400, que varia por banco
+const CNAB400_SETTLEMENT_CODES: Record<string, string[]> = {
+  '341': ['06', '08', '10'],
+  default: ['06', '15', '16', '17'],
+};
+
+// Posição do nosso número no CNAB 400 (início e fim, base 1)
+const CNAB400_OUR_NUMBER_POSITION: Record<string, [number, number]> = {
+  '341': [63, 70],
+  default: [71, 82],
+};
+
+/**
+ * Recorta um campo por posição (base 1, inclusiva), como nos manuais de layout
+ */
+function field(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+/**
+ * Valor numérico com duas casas decimais implícitas
+ */
+function amountField(line: string, start: number, end: number): number {
+  const digits = field(line, start, end).trim();
+  return /^\d+$/.test(digits) ? parseInt(digits, 10) / 100 : 0;
+}
+
+/**
+ * Converte DDMMAAAA ou DDMMAA em AAAA-MM-DD (zeros/brancos: sem data)
+ */
+function dateField(line: string, start: number, end: number): string | null {
+  const value = field(line, start, end).trim();
+  if (!/^\d+$/.test(value) || /^0+$/.test(value)) return null;
+
+  const day = value.substring(0, 2);
+  const month = value.substring(2, 4);
+  const year = value.length === 8 ? value.substring(4, 8) : `20${value.substring(4, 6)}`;
+  return `${year}-${month}-${day}`;
+}
+
+function textField(line: string, start: number, end: number): string | null {
+  const value = field(line, start, end).trim();
+  return value && !/^0+$/.test(value) ? value : null;
+}
+
+/**
+ * Nosso número sem zeros à esquerda e sem separadores, para comparação
+ */
+export function normalizeOurNumber(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const digits = value.replace(/\D/g, '').replace(/^0+/, '');
+  return digits || null;
+}
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/).map(line => line.replace(/\r$/, ''));
+}
+
+/**
+ * Identifica o formato pelo conteúdo: OFX pelo cabeçalho, CNAB pelo tamanho das linhas
+ */
+export function detectBankFileFormat(content: string): BankFileFormat {
+  if (/OFXHEADER|<OFX>/i.test(content.substring(0, 2000))) {
+    return 'ofx';
+  }
+
+  const firstLine = splitLines(content).find(line => line.trim().length > 0) || '';
+  if (firstLine.length === 240) return 'cnab240';
+  if (firstLine.length === 400) return 'cnab400';
+
+  throw new Error('Formato de arquivo não reconhecido (esperado CNAB 240, CNAB 400 ou OFX)');
+}
+
+/**
+ * Retorno CNAB 240: segmento T (título) seguido do segmento U (valores e datas)
+ */
+export function parseCnab240(content: string): ParsedBankFile {
+  const lines = splitLines(content);
+  const entries: BankStatementEntry[] = [];
+  let bankCode: string | null = null;
+  let current: BankStatementEntry | null = null;
+
+  lines.forEach((line, index) => {
+    const recordType = field(line, 8, 8);
+
+    if (recordType === '0') {
+      bankCode = field(line, 1, 3);
+      return;
+    }
+    if (recordType !== '3') return;
+
+    const segment = field(line, 14, 14).toUpperCase();
+
+    if (segment === 'T') {
+      const occurrenceCode = field(line, 16, 17);
+      current = {
+        lineNumber: index + 1,
+        ourNumber: textField(line, 38, 57),
+        documentNumber: textField(line, 59, 73) || textField(line, 106, 130),
+        bankReference: null,
+        occurrenceCode,
+        description: textField(line, 149, 188),
+        faceAmount: amountField(line, 82, 96),
+        paidAmount: 0,
+        feeAmount: amountField(line, 199, 213),
+        dueDate: dateField(line, 74, 81),
+        settlementDate: null,
+        creditDate: null,
+        isSettlement: CNAB240_SETTLEMENT_CODES.includes(occurrenceCode),
+        transactionId: null,
+      };
+      entries.push(current);
+    } else if (segment === 'U' && current) {
+      current.paidAmount = amountField(line, 78, 92);
+      current.settlementDate = dateField(line, 138, 145);
+      current.creditDate = dateField(line, 146, 153);
+      current = null;
+    }
+  });
+
+  return { format: 'cnab240', bankCode, entries };
+}
+
+/**
+ * Retorno CNAB 400. O layout varia por banco; os campos seguem o padrão
+ * Bradesco, com a posição do nosso número e as ocorrências do Itaú
+ */
+export function parseCnab400(content: string): ParsedBankFile {
+  const lines = splitLines(content);
+  const header = lines.find(line => field(line, 1, 1) === '0');
+  const bankCode = header ? field(header, 77, 79) : null;
+
+  const [ourStart, ourEnd] = CNAB400_OUR_NUMBER_POSITION[bankCode || ''] || CNAB400_OUR_NUMBER_POSITION.default;
+  const settlementCodes = CNAB400_SETTLEMENT_CODES[bankCode || ''] || CNAB400_SETTLEMENT_CODES.default;
+  const entries: BankStatementEntry[] = [];
+
+  lines.forEach((line, index) => {
+    if (field(line, 1, 1) !== '1') return;
+
+    const occurrenceCode = field(line, 109, 110);
+    entries.push({
+      lineNumber: index + 1,
+      ourNumber: textField(line, ourStart, ourEnd),
+      documentNumber: textField(line, 117, 126) || textField(line, 38, 62),
+      bankReference: null,
+      occurrenceCode,
+      description: null,
+      faceAmount: amountField(line, 153, 165),
+      paidAmount: amountField(line, 254, 266),
+      feeAmount: amountField(line, 176, 188),
+      dueDate: dateField(line, 147, 152),
+      settlementDate: dateField(line, 111, 116),
+      creditDate: dateField(line, 296, 301),
+      isSettlement: settlementCodes.includes(occurrenceCode),
+      transactionId: null,
+    });
+  });
+
+  return { format: 'cnab400', bankCode, entries };
+}
+
+/**
+ * Extrato OFX (SGML 1.x ou XML 2.x). Só créditos entram na conciliação
+ */
+export function parseOfx(content: string): ParsedBankFile {
+  const tag = (block: string, name: string): string | null => {
+    const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() || null : null;
+  };
+
+  const ofxDate = (value: string | null): string | null => {
+    if (!value || !/^\d{8}/.test(value)) return null;
+    return `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}`;
+  };
+
+  const entries: BankStatementEntry[] = [];
+  const pattern = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    const block = match[1];
+    const amount = parseFloat((tag(block, 'TRNAMT') || '0').replace(',', '.'));
+    const date = ofxDate(tag(block, 'DTPOSTED'));
+
+    entries.push({
+      lineNumber: content.substring(0, match.index).split('\n').length,
+      ourNumber: null,
+      documentNumber: null,
+      bankReference: tag(block, 'CHECKNUM') || tag(block, 'REFNUM'),
+      occurrenceCode: tag(block, 'TRNTYPE'),
+      description: tag(block, 'MEMO') || tag(block, 'NAME'),
+      faceAmount: null,
+      paidAmount: Math.abs(amount),
+      feeAmount: 0,
+      dueDate: null,
+      settlementDate: date,
+      creditDate: date,
+      isSettlement: amount > 0,
+      transactionId: tag(block, 'FITID'),
+    });
+  }
+
+  const bankId = content.match(/<BANKID>([^<\r\n]*)/i);
+
+  return { format: 'ofx', bankCode: bankId ? bankId[1].trim().padStart(3, '0').slice(-3) : null, entries };
+}
+
+/**
+ * Lê o arquivo no formato detectado. CNAB usa ISO-8859-1; OFX informa a
+ * codificação no cabeçalho
+ * @param buffer Conteúdo do arquivo enviado
+ */
+export function parseBankFile(buffer: Buffer): ParsedBankFile {
+  const latin1 = buffer.toString('latin1');
+  const format = detectBankFileFormat(latin1);
+
+  switch (format) {
+    case 'ofx':
+      return parseOfx(/ENCODING\s*[:=]\s*"?UTF-8/i.test(latin1.substring(0, 500)) ? buffer.toString('utf8') : latin1);
+    case 'cnab240':
+      return parseCnab240(latin1);
+    case 'cnab400':
+      return parseCnab400(latin1);
+  }
+}
@@ -266,7 +266,12 @@ class CacheService {
     try {
       // Incrementar no Redis se disponível
       if (this.useRedis && this.redisClient) {
-        return await this.redisClient.incrby(cacheKey, value);
+        const newValue = await this.redisClient.incrby(cacheKey, value);
+        // Contadores com TTL expiram a partir do primeiro incremento
+        if (options.ttl && newValue === value) {
+          await this.redisClient.expire(cacheKey, options.ttl);
+        }
+        return newValue;
       }
 
       // Fallback para cache local
@@ -0,0 +1,742 @@
+/**
+ * Fluxos guiados do chatbot no WhatsApp
+ * Executa os fluxos desenhados pela escola (mensagens, perguntas, menus de
+ * opções, condições, chamadas de API e transferência para atendente) sobre as
+ * mensagens recebidas, guardando o estado de cada conversa. A transferência
+ * devolve a conversa para a fila da caixa de entrada; o assistente de IA só
+ * responde quando o fluxo permite e a resposta não corresponde a uma opção
+ */
+
+import axios from 'axios';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { whatsappInboxService } from './whatsappInboxService';
+import { intelligentChatbot } from './intelligentChatbot';
+import { renderRequestTemplate } from './legacyExportService';
+import { getPath } from './transformationEngine';
+import { assertPublicUrl, publicHttpAgents } from './publicUrlGuard';
+
+// Sessão parada há mais tempo que isso recomeça do início
+const SESSION_TTL_HOURS = 24;
+
+// Respostas inválidas seguidas antes de transferir para um atendente
+const MAX_RETRIES = 3;
+
+// Limite de nós executados por mensagem, contra ciclos sem pergunta
+const MAX_STEPS_PER_MESSAGE = 25;
+
+const API_CALL_TIMEOUT = 8 * 1000;
+
+const DEFAULT_HANDOFF_TEXT = 'Vou te transferir para um de nossos atendentes. Aguarde um momento, por favor.';
+const INVALID_OPTION_TEXT = 'Não entendi sua resposta.';
+
+export type FlowNodeType = 'message' | 'question' | 'buttons' | 'condition' | 'api_call' | 'handoff';
+export type QuestionValidation = 'text' | 'email' | 'phone' | 'number';
+export type ConditionOperator = 'equals' | 'contains' | 'exists' | 'gt' | 'lt';
+export type FlowSessionStatus = 'active' | 'completed' | 'handoff' | 'expired';
+
+export interface MessageNode {
+  id: string;
+  type: 'message';
+  text: string;
+  next?: string | null;
+}
+
+export interface QuestionNode {
+  id: string;
+  type: 'question';
+  text: string;
+  // Variável que recebe a resposta
+  variable: string;
+  validation?: QuestionValidation;
+  next?: string | null;
+}
+
+export interface ButtonsNode {
+  id: string;
+  type: 'buttons';
+  text: string;
+  variable?: string | null;
+  // Enviadas como lista numerada; o contato responde o número ou o texto
+  options: { label: string; value?: string | null; next?: string | null }[];
+}
+
+export interface ConditionNode {
+  id: string;
+  type: 'condition';
+  // A primeira regra satisfeita decide o próximo nó
+  rules: { variable: string; operator: ConditionOperator; value?: string | null; next?: string | null }[];
+  defaultNext?: string | null;
+}
+
+export interface ApiCallNode {
+  id: string;
+  type: 'api_call';
+  method: 'GET' | 'POST';
+  url: string;
+  body?: any;
+  // Variável que recebe o JSON da resposta
+  saveAs?: string | null;
+  next?: string | null;
+  errorNext?: string | null;
+}
+
+export interface HandoffNode {
+  id: string;
+  type: 'handoff';
+  text?: string | null;
+  tags?: string[];
+}
+
+export type FlowNode = MessageNode | QuestionNode | ButtonsNode | ConditionNode | ApiCallNode | HandoffNode;
+
+export interface FlowDefinition {
+  startNodeId: string;
+  nodes: FlowNode[];
+}
+
+export interface ChatbotFlow {
+  id: number;
+  schoolId: number;
+  name: string;
+  triggerKeywords: string[];
+  isDefault: boolean;
+  aiFallback: boolean;
+  active: boolean;
+  definition: FlowDefinition;
+  stats?: { active: number; completed: number; handoff: number };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatbotFlowInput {
+  name: string;
+  triggerKeywords?: string[];
+  isDefault?: boolean;
+  aiFallback?: boolean;
+  active?: boolean;
+  definition: FlowDefinition;
+}
+
+export interface FlowMessageResult {
+  // A mensagem foi respondida pelo fluxo; não precisa avisar a equipe
+  handled: boolean;
+  handoff: boolean;
+}
+
+interface FlowRun {
+  nodeId: string | null;
+  waiting: boolean;
+  variables: Record<string, any>;
+  retries: number;
+  status: FlowSessionStatus;
+  outgoing: string[];
+  handoffTags: string[];
+}
+
+const NOT_HANDLED: FlowMessageResult = { handled: false, handoff: false };
+
+/**
+ * Texto em minúsculas, sem acentos e espaços extras, para comparar respostas
+ */
+export function normalizeAnswer(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Problemas de estrutura do fluxo: IDs repetidos, nó inicial ausente e
+ * ligações para nós que não existem
+ * @param definition Definição do fluxo
+ * @returns Lista de problemas; vazia quando o fluxo é válido
+ */
+export function findFlowProblems(definition: FlowDefinition): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  for (const node of definition.nodes) {
+    if (ids.has(node.id)) {
+      problems.push(`Nó repetido: ${node.id}`);
+    }
+    ids.add(node.id);
+  }
+
+  if (!ids.has(definition.startNodeId)) {
+    problems.push(`Nó inicial não encontrado: ${definition.startNodeId}`);
+  }
+
+  const checkLink = (node: FlowNode, target: string | null | undefined) => {
+    if (target && !ids.has(target)) {
+      problems.push(`O nó ${node.id} aponta para um nó inexistente: ${target}`);
+    }
+  };
+
+  for (const node of definition.nodes) {
+    switch (node.type) {
+      case 'message':
+      case 'question':
+        checkLink(node, node.next);
+        break;
+      case 'buttons':
+        node.options.forEach(option => checkLink(node, option.next));
+        break;
+      case 'condition':
+        node.rules.forEach(rule => checkLink(node, rule.next));
+        checkLink(node, node.defaultNext);
+        break;
+      case 'api_call':
+        checkLink(node, node.next);
+        checkLink(node, node.errorNext);
+        break;
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Verifica uma condição sobre as variáveis coletadas
+ */
+export function evaluateCondition(variables: Record<string, any>, rule: ConditionNode['rules'][number]): boolean {
+  const subject = getPath(variables, rule.variable);
+
+  switch (rule.operator) {
+    case 'exists':
+      return subject !== undefined && subject !== null && subject !== '';
+    case 'equals':
+      return normalizeAnswer(String(subject ?? '')) === normalizeAnswer(String(rule.value ?? ''));
+    case 'contains':
+      return normalizeAnswer(String(subject ?? '')).includes(normalizeAnswer(String(rule.value ?? '')));
+    case 'gt':
+    case 'lt': {
+      const left = Number(subject);
+      const right = Number(rule.value);
+      if (isNaN(left) || isNaN(right)) return false;
+      return rule.operator === 'gt' ? left > right : left < right;
+    }
+    default:
+      return false;
+  }
+}
+
+class ChatbotFlowService {
+  /**
+   * Cria as tabelas de fluxos e de sessões por conversa
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS whatsapp_chatbot_flows (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        trigger_keywords JSONB NOT NULL DEFAULT '[]',
+        is_default BOOLEAN NOT NULL DEFAULT FALSE,
+        ai_fallback BOOLEAN NOT NULL DEFAULT FALSE,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        definition JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_chatbot_flows_school
+        ON whatsapp_chatbot_flows(school_id, active);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_chatbot_sessions (
+        id SERIAL PRIMARY KEY,
+        conversation_id INTEGER NOT NULL,
+        flow_id INTEGER NOT NULL,
+        current_node_id TEXT,
+        waiting BOOLEAN NOT NULL DEFAULT FALSE,
+        variables JSONB NOT NULL DEFAULT '{}',
+        retries INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'active',
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        ended_at TIMESTAMP
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_chatbot_sessions_active
+        ON whatsapp_chatbot_sessions(conversation_id) WHERE status = 'active';
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_chatbot_sessions_conversation
+        ON whatsapp_chatbot_sessions(conversation_id, updated_at DESC);
+    `);
+  }
+
+  /**
+   * Conduz a conversa pelo fluxo a partir da mensagem recebida. Conversas com
+   * atendente responsável não passam pelo chatbot
+   * @param conversationId Conversa da caixa de entrada
+   * @param text Texto recebido
+   */
+  async handleIncomingMessage(conversationId: number, text: string): Promise<FlowMessageResult> {
+    const [conversation] = await db.execute(`
+      SELECT c.id, c.school_id, c.assigned_to, c.bot_active, ct.name AS contact_name,
+        ct.phone_number AS contact_phone, s.name AS school_name
+      FROM whatsapp_conversations c
+      JOIN whatsapp_contacts ct ON ct.id = c.contact_id
+      LEFT JOIN schools s ON s.id = c.school_id
+      WHERE c.id = $1
+    `, [conversationId]);
+    if (!conversation) return NOT_HANDLED;
+
+    let [session] = await db.execute(`
+      SELECT *, updated_at < NOW() - INTERVAL '${SESSION_TTL_HOURS} hours' AS expired
+      FROM whatsapp_chatbot_sessions
+      WHERE conversation_id = $1 AND status = 'active'
+    `, [conversationId]);
+
+    // Um atendente assumiu ou respondeu: o chatbot sai da conversa
+    if (session && (conversation.assigned_to !== null || conversation.bot_active === false)) {
+      await this.endSession(session.id, 'handoff');
+      return NOT_HANDLED;
+    }
+    if (session?.expired) {
+      await this.endSession(session.id, 'expired');
+      session = undefined;
+    }
+    if (conversation.assigned_to !== null) {
+      return NOT_HANDLED;
+    }
+
+    let flow: ChatbotFlow | null;
+    let input: string | null = text;
+    if (session) {
+      flow = await this.getFlowById(session.flow_id);
+      if (!flow) {
+        await this.endSession(session.id, 'expired');
+        await whatsappInboxService.setBotActive(conversationId, false);
+        return NOT_HANDLED;
+      }
+    } else {
+      flow = await this.findFlowToStart(conversation.school_id, conversationId, text);
+      if (!flow) return NOT_HANDLED;
+
+      [session] = await db.execute(`
+        INSERT INTO whatsapp_chatbot_sessions (conversation_id, flow_id, current_node_id)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (conversation_id) WHERE status = 'active' DO NOTHING
+        RETURNING *
+      `, [conversationId, flow.id, flow.definition.startNodeId]);
+      // Outra mensagem da mesma conversa iniciou o fluxo ao mesmo tempo
+      if (!session) return { handled: true, handoff: false };
+
+      await whatsappInboxService.setBotActive(conversationId, true);
+      // A mensagem que disparou o fluxo não é resposta a nenhuma pergunta
+      input = null;
+    }
+
+    const run = await this.advance(flow, {
+      nodeId: session.current_node_id,
+      waiting: session.waiting,
+      variables: session.variables || {},
+      retries: session.retries || 0,
+      status: 'active',
+      outgoing: [],
+      handoffTags: [],
+    }, input, conversation);
+
+    for (const content of run.outgoing) {
+      await whatsappInboxService.sendAutomatedMessage(conversationId, content, {
+        chatbotFlowId: flow.id,
+        chatbotSessionId: session.id,
+      });
+    }
+
+    await db.execute(`
+      UPDATE whatsapp_chatbot_sessions
+      SET current_node_id = $2, waiting = $3, variables = $4, retries = $5, status = $6,
+          ended_at = CASE WHEN $6 = 'active' THEN NULL ELSE NOW() END,
+          updated_at = NOW()
+      WHERE id = $1
+    `, [session.id, run.nodeId, run.waiting, JSON.stringify(run.variables), run.retries, run.status]);
+
+    if (run.status === 'handoff') {
+      await whatsappInboxService.handoffFromBot(conversationId, this.buildHandoffSummary(flow, run.variables), run.handoffTags);
+      return { handled: true, handoff: true };
+    }
+    if (run.status !== 'active') {
+      await whatsappInboxService.setBotActive(conversationId, false);
+    }
+
+    return { handled: true, handoff: false };
+  }
+
+  /**
+   * Executa o fluxo a partir do nó atual: consome a resposta do contato, se
+   * houver pergunta pendente, e segue até a próxima pergunta ou o fim
+   * @param flow Fluxo da sessão
+   * @param run Estado salvo da sessão
+   * @param input Texto recebido ou null ao iniciar o fluxo
+   * @param conversation Conversa com nome e telefone do contato e nome da escola
+   */
+  private async advance(flow: ChatbotFlow, run: FlowRun, input: string | null, conversation: any): Promise<FlowRun> {
+    const nodes = new Map(flow.definition.nodes.map(node => [node.id, node]));
+    const context = () => ({
+      nome: (conversation.contact_name || '').split(' ')[0],
+      telefone: conversation.contact_phone,
+      escola: conversation.school_name,
+      ...run.variables,
+    });
+    const render = (text: string) => String(renderRequestTemplate(text, context()) ?? '');
+
+    if (input !== null && run.waiting && run.nodeId) {
+      const node = nodes.get(run.nodeId);
+      const answer = node ? this.readAnswer(node, input) : null;
+
+      if (!answer) {
+        run.retries += 1;
+        if (run.retries >= MAX_RETRIES) {
+          run.outgoing.push(DEFAULT_HANDOFF_TEXT);
+          return { ...run, status: 'handoff', waiting: false };
+        }
+
+        if (flow.aiFallback) {
+          const reply = await intelligentChatbot.processMessage(`whatsapp-flow-${conversation.id}`, input, {
+            userContext: { escola: conversation.school_name },
+          });
+          run.outgoing.push(reply);
+        } else {
+          run.outgoing.push(INVALID_OPTION_TEXT);
+        }
+        if (node && (node.type === 'question' || node.type === 'buttons')) {
+          run.outgoing.push(this.renderPrompt(node, render));
+        }
+        return run;
+      }
+
+      if (answer.variable) {
+        run.variables = { ...run.variables, [answer.variable]: answer.value };
+      }
+      run.nodeId = answer.next;
+      run.waiting = false;
+      run.retries = 0;
+    }
+
+    for (let step = 0; step < MAX_STEPS_PER_MESSAGE; step++) {
+      const node = run.nodeId ? nodes.get(run.nodeId) : undefined;
+      if (!node) {
+        return { ...run, nodeId: null, waiting: false, status: 'completed' };
+      }
+
+      switch (node.type) {
+        case 'message':
+          run.outgoing.push(render(node.text));
+          run.nodeId = node.next ?? null;
+          break;
+        case 'question':
+        case 'buttons':
+          run.outgoing.push(this.renderPrompt(node, render));
+          return { ...run, waiting: true };
+        case 'condition': {
+          const rule = node.rules.find(candidate => evaluateCondition(run.variables, candidate));
+          run.nodeId = rule ? rule.next ?? null : node.defaultNext ?? null;
+          break;
+        }
+        case 'api_call':
+          try {
+            const data = await this.callApi(node, context());
+            if (node.saveAs) {
+              run.variables = { ...run.variables, [node.saveAs]: data };
+            }
+            run.nodeId = node.next ?? null;
+          } catch (error) {
+            console.error(`Erro na chamada de API do fluxo ${flow.id} (nó ${node.id}):`, error);
+            run.nodeId = node.errorNext ?? node.next ?? null;
+          }
+          break;
+        case 'handoff':
+          run.outgoing.push(node.text ? render(node.text) : DEFAULT_HANDOFF_TEXT);
+          return { ...run, waiting: false, status: 'handoff', handoffTags: node.tags || [] };
+      }
+    }
+
+    // Ciclo sem pergunta: uma pessoa continua o atendimento
+    console.warn(`Fluxo ${flow.id} excedeu ${MAX_STEPS_PER_MESSAGE} nós sem aguardar resposta`);
+    run.outgoing.push(DEFAULT_HANDOFF_TEXT);
+    return { ...run, waiting: false, status: 'handoff' };
+  }
+
+  // Fluxos
+
+  /**
+   * Fluxos da escola com as sessões dos últimos 30 dias por situação
+   * @param schoolId ID da escola
+   */
+  async listFlows(schoolId: number): Promise<ChatbotFlow[]> {
+    const rows = await db.execute(`
+      SELECT f.*,
+        COALESCE(s.active, 0)::int AS active_sessions,
+        COALESCE(s.completed, 0)::int AS completed_sessions,
+        COALESCE(s.handoff, 0)::int AS handoff_sessions
+      FROM whatsapp_chatbot_flows f
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'active') AS active,
+          COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+          COUNT(*) FILTER (WHERE status = 'handoff') AS handoff
+        FROM whatsapp_chatbot_sessions
+        WHERE flow_id = f.id AND started_at > NOW() - INTERVAL '30 days'
+      ) s ON TRUE
+      WHERE f.school_id = $1
+      ORDER BY f.is_default DESC, f.name
+    `, [schoolId]);
+
+    return rows.map((row: any) => ({
+      ...this.mapFlow(row),
+      stats: {
+        active: row.active_sessions,
+        completed: row.completed_sessions,
+        handoff: row.handoff_sessions,
+      },
+    }));
+  }
+
+  async createFlow(schoolId: number, data: ChatbotFlowInput, userId: number): Promise<ChatbotFlow> {
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_chatbot_flows (school_id, name, trigger_keywords, is_default, ai_fallback, active, definition)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [
+      schoolId,
+      data.name,
+      JSON.stringify(this.normalizeKeywords(data.triggerKeywords)),
+      data.isDefault ?? false,
+      data.aiFallback ?? false,
+      data.active ?? true,
+      JSON.stringify(data.definition),
+    ]);
+    if (!row) {
+      throw new Error('Erro ao criar fluxo');
+    }
+
+    if (row.is_default) {
+      await this.clearOtherDefaults(schoolId, row.id);
+    }
+
+    await logAction(userId, 'chatbot_flow_created', 'whatsapp_chatbot_flows', String(row.id), { schoolId, name: data.name });
+    return this.mapFlow(row);
+  }
+
+  /**
+   * Atualiza o fluxo. Conversas em andamento continuam do nó em que estão e
+   * terminam se o nó deixar de existir; desativar o fluxo encerra todas
+   */
+  async updateFlow(schoolId: number, flowId: number, data: ChatbotFlowInput, userId: number): Promise<ChatbotFlow> {
+    const [row] = await db.execute(`
+      UPDATE whatsapp_chatbot_flows
+      SET name = $3, trigger_keywords = $4, is_default = $5, ai_fallback = $6, active = $7,
+          definition = $8, updated_at = NOW()
+      WHERE id = $1 AND school_id = $2
+      RETURNING *
+    `, [
+      flowId,
+      schoolId,
+      data.name,
+      JSON.stringify(this.normalizeKeywords(data.triggerKeywords)),
+      data.isDefault ?? false,
+      data.aiFallback ?? false,
+      data.active ?? true,
+      JSON.stringify(data.definition),
+    ]);
+    if (!row) {
+      throw new Error('Fluxo não encontrado');
+    }
+
+    if (row.is_default) {
+      await this.clearOtherDefaults(schoolId, flowId);
+    }
+    if (row.active === false) {
+      await this.endFlowSessions(flowId);
+    }
+
+    await logAction(userId, 'chatbot_flow_updated', 'whatsapp_chatbot_flows', String(flowId), { schoolId, name: data.name });
+    return this.mapFlow(row);
+  }
+
+  async deleteFlow(schoolId: number, flowId: number, userId: number): Promise<void> {
+    const [row] = await db.execute(`
+      DELETE FROM whatsapp_chatbot_flows WHERE id = $1 AND school_id = $2 RETURNING id
+    `, [flowId, schoolId]);
+    if (!row) {
+      throw new Error('Fluxo não encontrado');
+    }
+
+    await this.endFlowSessions(flowId);
+    await logAction(userId, 'chatbot_flow_deleted', 'whatsapp_chatbot_flows', String(flowId), { schoolId });
+  }
+
+  /**
+   * Fluxo iniciado pela mensagem: o primeiro cuja palavra-chave aparece no
+   * texto ou, se a conversa não passou pelo chatbot recentemente, o padrão
+   */
+  private async findFlowToStart(schoolId: number, conversationId: number, text: string): Promise<ChatbotFlow | null> {
+    const rows = await db.execute(`
+      SELECT * FROM whatsapp_chatbot_flows
+      WHERE school_id = $1 AND active = TRUE
+      ORDER BY id
+    `, [schoolId]);
+    const flows: ChatbotFlow[] = rows.map((row: any) => this.mapFlow(row));
+
+    // Palavras-chave valem como palavras inteiras ("oi" não dispara em "noite")
+    const words = ` ${this.toWords(text)} `;
+    const triggered = words.trim()
+      ? flows.find(flow => flow.triggerKeywords.some(keyword => {
+        const keywordWords = this.toWords(keyword);
+        return !!keywordWords && words.includes(` ${keywordWords} `);
+      }))
+      : undefined;
+    if (triggered) return triggered;
+
+    const fallback = flows.find(flow => flow.isDefault);
+    if (!fallback) return null;
+
+    // Sem repetir o menu a quem acabou de concluir o fluxo ou aguarda atendente
+    const [recent] = await db.execute(`
+      SELECT id FROM whatsapp_chatbot_sessions
+      WHERE conversation_id = $1 AND updated_at > NOW() - INTERVAL '${SESSION_TTL_HOURS} hours'
+      LIMIT 1
+    `, [conversationId]);
+
+    return recent ? null : fallback;
+  }
+
+  private async getFlowById(flowId: number): Promise<ChatbotFlow | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM whatsapp_chatbot_flows WHERE id = $1 AND active = TRUE
+    `, [flowId]);
+    return row ? this.mapFlow(row) : null;
+  }
+
+  /**
+   * Interpreta a resposta do contato ao nó que aguarda resposta
+   * @returns Próximo nó e valor a gravar, ou null se a resposta não serve
+   */
+  private readAnswer(node: FlowNode, input: string): { next: string | null; variable: string | null; value: any } | null {
+    const text = input.trim();
+
+    if (node.type === 'question') {
+      if (!text || !this.isValidAnswer(text, node.validation)) return null;
+      const value = node.validation === 'number' ? Number(text.replace(',', '.')) : text;
+      return { next: node.next ?? null, variable: node.variable, value };
+    }
+
+    if (node.type === 'buttons') {
+      const normalized = normalizeAnswer(text);
+      const index = /^\d+$/.test(normalized) ? parseInt(normalized) - 1 : -1;
+      const option = node.options[index]
+        ?? node.options.find(candidate => normalizeAnswer(candidate.label) === normalized
+          || (!!candidate.value && normalizeAnswer(candidate.value) === normalized));
+      if (!option) return null;
+      return { next: option.next ?? null, variable: node.variable || null, value: option.value || option.label };
+    }
+
+    return null;
+  }
+
+  private isValidAnswer(text: string, validation: QuestionValidation = 'text'): boolean {
+    switch (validation) {
+      case 'email':
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text);
+      case 'phone':
+        return text.replace(/\D/g, '').length >= 10;
+      case 'number':
+        return !isNaN(Number(text.replace(',', '.')));
+      default:
+        return true;
+    }
+  }
+
+  private renderPrompt(node: QuestionNode | ButtonsNode, render: (text: string) => string): string {
+    if (node.type === 'question') {
+      return render(node.text);
+    }
+    const options = node.options.map((option, index) => `${index + 1}. ${render(option.label)}`).join('\n');
+    return `${render(node.text)}\n\n${options}`;
+  }
+
+  private async callApi(node: ApiCallNode, context: Record<string, any>): Promise<any> {
+    // Respostas do contato entram na URL codificadas e não podem trocar o servidor configurado
+    const url = node.url.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path) => {
+      const value = getPath(context, path);
+      return encodeURIComponent(value === undefined || value === null ? '' : String(value));
+    });
+    if (new URL(url).host !== new URL(node.url).host) {
+      throw new Error('A chamada de API deve usar o servidor configurado no fluxo');
+    }
+    await assertPublicUrl(url);
+
+    const response = await axios.request({
+      method: node.method,
+      url,
+      data: node.method === 'POST' ? renderRequestTemplate(node.body ?? {}, context) : undefined,
+      timeout: API_CALL_TIMEOUT,
+      maxRedirects: 0,
+      headers: { 'User-Agent': 'EduMatrik-Chatbot/1.0' },
+      ...publicHttpAgents,
+    });
+    return response.data;
+  }
+
+  // Nota interna com o que o contato respondeu no fluxo
+  private buildHandoffSummary(flow: ChatbotFlow, variables: Record<string, any>): string {
+    const answers = Object.entries(variables)
+      .filter(([, value]) => value === null || typeof value !== 'object')
+      .map(([key, value]) => `${key}: ${value ?? ''}`);
+    return [`Transferida pelo chatbot (fluxo "${flow.name}").`, ...answers].join('\n');
+  }
+
+  private async endSession(sessionId: number, status: FlowSessionStatus): Promise<void> {
+    await db.execute(`
+      UPDATE whatsapp_chatbot_sessions
+      SET status = $2, waiting = FALSE, ended_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND status = 'active'
+    `, [sessionId, status]);
+  }
+
+  // Encerra as sessões do fluxo e devolve as conversas para a fila
+  private async endFlowSessions(flowId: number): Promise<void> {
+    await db.execute(`
+      WITH ended AS (
+        UPDATE whatsapp_chatbot_sessions
+        SET status = 'expired', waiting = FALSE, ended_at = NOW(), updated_at = NOW()
+        WHERE flow_id = $1 AND status = 'active'
+        RETURNING conversation_id
+      )
+      UPDATE whatsapp_conversations SET bot_active = FALSE, updated_at = NOW()
+      WHERE id IN (SELECT conversation_id FROM ended)
+    `, [flowId]);
+  }
+
+  private async clearOtherDefaults(schoolId: number, flowId: number): Promise<void> {
+    await db.execute(`
+      UPDATE whatsapp_chatbot_flows SET is_default = FALSE, updated_at = NOW()
+      WHERE school_id = $1 AND id <> $2 AND is_default = TRUE
+    `, [schoolId, flowId]);
+  }
+
+  private toWords(text: string): string {
+    return normalizeAnswer(text).replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  private normalizeKeywords(keywords: string[] = []): string[] {
+    return Array.from(new Set(keywords.map(normalizeAnswer).filter(Boolean)));
+  }
+
+  private mapFlow(row: any): ChatbotFlow {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      triggerKeywords: row.trigger_keywords || [],
+      isDefault: row.is_default,
+      aiFallback: row.ai_fallback,
+      active: row.active,
+      definition: row.definition,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const chatbotFlowService = new ChatbotFlowService();
+export default chatbotFlowService;
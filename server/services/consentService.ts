@@ -0,0 +1,442 @@
+/**
+ * Registro de consentimento de comunicação (LGPD)
+ * Guarda, por escola, canal (WhatsApp, e-mail, SMS) e contato, se ele aceitou
+ * ou recusou receber mensagens, com a origem de cada mudança e as evidências
+ * (texto aceito, IP, mensagem recebida) em um histórico que não é alterado.
+ * Os envios consultam o registro antes de sair e o histórico serve de prova
+ * de consentimento nas solicitações de titulares
+ */
+
+import { db } from '../db';
+
+// Mensagens de uma palavra só que revogam ou restabelecem o consentimento
+const OPT_OUT_KEYWORDS = ['SAIR', 'PARAR'];
+const OPT_IN_KEYWORDS = ['VOLTAR'];
+
+const LIST_LIMIT = 200;
+
+export type ConsentChannel = 'whatsapp' | 'email' | 'sms';
+// pending: aceite informado por terceiros (formulário) aguardando a
+// confirmação do próprio contato pelo canal
+export type ConsentStatus = 'granted' | 'revoked' | 'pending';
+
+// Origens registradas pelo sistema; integrações podem informar outras
+export type ConsentSource = 'lead_form' | 'whatsapp_keyword' | 'whatsapp_reply' | 'manual' | string;
+
+export interface ConsentInput {
+  schoolId: number;
+  channel: ConsentChannel;
+  identifier: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  evidence?: Record<string, unknown>;
+  userId?: number | null;
+}
+
+export interface Consent {
+  id: number;
+  schoolId: number;
+  channel: ConsentChannel;
+  identifier: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  updatedBy: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConsentEvent {
+  id: number;
+  status: ConsentStatus;
+  source: ConsentSource;
+  evidence: Record<string, unknown>;
+  userId: number | null;
+  userName: string | null;
+  createdAt: Date;
+}
+
+export interface ConsentFilter {
+  channel?: ConsentChannel;
+  status?: ConsentStatus;
+  search?: string;
+}
+
+/**
+ * Chave de comparação de telefones: DDD e últimos 8 dígitos, ignorando o DDI
+ * 55 e o nono dígito, que nem sempre vêm no número do WhatsApp
+ * @param phone Telefone em qualquer formato
+ */
+export function phoneMatchKey(phone: string): string | null {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length >= 12 && digits.startsWith('55')) digits = digits.slice(2);
+  if (digits.length < 10 || digits.length > 11) return null;
+  return digits.slice(0, 2) + digits.slice(-8);
+}
+
+/**
+ * Mesma chave de phoneMatchKey, calculada em SQL sobre uma coluna de telefone
+ * @param column Coluna com o telefone, qualificada pelo alias da tabela
+ */
+export function phoneMatchKeySql(column: string): string {
+  return `(
+  SELECT LEFT(national, 2) || RIGHT(national, 8)
+  FROM (SELECT regexp_replace(regexp_replace(COALESCE(${column}, ''), '\\D', '', 'g'), '^55(\\d{10,11})$', '\\1') AS national) n
+)`;
+}
+
+/**
+ * Chave do contato no registro: e-mail em minúsculas ou chave do telefone
+ * @returns null se o identificador não é um e-mail ou telefone válido
+ */
+export function consentKey(channel: ConsentChannel, identifier: string): string | null {
+  if (channel === 'email') {
+    const email = identifier.trim().toLowerCase();
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+  }
+  return phoneMatchKey(identifier);
+}
+
+/**
+ * Identifica as palavras de descadastro e recadastro. Só vale a mensagem
+ * com a palavra sozinha, para não confundir "quero sair mais cedo"
+ * @returns Novo status pedido pelo contato ou null
+ */
+export function detectConsentKeyword(text: string): ConsentStatus | null {
+  const word = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z]/g, '')
+    .toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.includes(word)) return 'revoked';
+  if (OPT_IN_KEYWORDS.includes(word)) return 'granted';
+  return null;
+}
+
+class ConsentService {
+  /**
+   * Cria o registro e o histórico de consentimentos e importa os
+   * descadastros das campanhas de WhatsApp
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS communication_consents (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        channel TEXT NOT NULL,
+        identifier TEXT NOT NULL,
+        identifier_key TEXT NOT NULL,
+        status TEXT NOT NULL,
+        source TEXT NOT NULL,
+        updated_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (school_id, channel, identifier_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_communication_consents_lookup
+        ON communication_consents(channel, identifier_key, status);
+
+      CREATE TABLE IF NOT EXISTS communication_consent_events (
+        id SERIAL PRIMARY KEY,
+        consent_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        source TEXT NOT NULL,
+        evidence JSONB NOT NULL DEFAULT '{}',
+        user_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_communication_consent_events_consent
+        ON communication_consent_events(consent_id, created_at);
+
+      DO $$
+      BEGIN
+        IF to_regclass('whatsapp_opt_outs') IS NOT NULL THEN
+          INSERT INTO communication_consents (school_id, channel, identifier, identifier_key, status, source, updated_by, created_at, updated_at)
+          SELECT school_id, 'whatsapp', phone, phone_key, 'revoked', 'manual', created_by, created_at, created_at
+          FROM whatsapp_opt_outs
+          ON CONFLICT (school_id, channel, identifier_key) DO NOTHING;
+
+          INSERT INTO communication_consent_events (consent_id, status, source, evidence, user_id, created_at)
+          SELECT c.id, 'revoked', 'manual', jsonb_build_object('reason', o.reason, 'importedFrom', 'whatsapp_opt_outs'), o.created_by, o.created_at
+          FROM whatsapp_opt_outs o
+          JOIN communication_consents c
+            ON c.school_id = o.school_id AND c.channel = 'whatsapp' AND c.identifier_key = o.phone_key
+          WHERE NOT EXISTS (SELECT 1 FROM communication_consent_events e WHERE e.consent_id = c.id);
+
+          DROP TABLE whatsapp_opt_outs;
+        END IF;
+      END $$;
+    `);
+  }
+
+  /**
+   * Registra o aceite ou a recusa do contato e acrescenta a mudança ao
+   * histórico, na mesma instrução
+   */
+  async recordConsent(input: ConsentInput): Promise<Consent> {
+    const key = consentKey(input.channel, input.identifier);
+    if (!key) {
+      throw new Error(input.channel === 'email' ? 'E-mail inválido' : 'Telefone inválido');
+    }
+
+    const identifier = input.channel === 'email' ? key : input.identifier.replace(/\D/g, '');
+
+    const [row] = await db.execute(`
+      WITH consent AS (
+        INSERT INTO communication_consents (school_id, channel, identifier, identifier_key, status, source, updated_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $8)
+        ON CONFLICT (school_id, channel, identifier_key) DO UPDATE
+        SET identifier = EXCLUDED.identifier, status = EXCLUDED.status, source = EXCLUDED.source,
+            updated_by = EXCLUDED.updated_by, updated_at = NOW()
+        RETURNING *
+      ), event AS (
+        INSERT INTO communication_consent_events (consent_id, status, source, evidence, user_id)
+        SELECT id, $5, $6, $7, $8 FROM consent
+        RETURNING id
+      )
+      SELECT * FROM consent
+    `, [
+      input.schoolId,
+      input.channel,
+      identifier,
+      key,
+      input.status,
+      input.source,
+      JSON.stringify(input.evidence ?? {}),
+      input.userId ?? null,
+    ]);
+
+    if (!row) {
+      throw new Error('Não foi possível registrar o consentimento');
+    }
+
+    return this.mapConsent(row);
+  }
+
+  /**
+   * Registra o aceite dado em nome do contato (formulário) como pendente até
+   * que ele mesmo responda pelo canal. Quem já confirmou ou recusou mantém a
+   * situação atual
+   * @returns Status vigente do contato
+   */
+  async requestConfirmation(input: Omit<ConsentInput, 'status'>): Promise<ConsentStatus> {
+    const key = consentKey(input.channel, input.identifier);
+    if (!key) {
+      throw new Error(input.channel === 'email' ? 'E-mail inválido' : 'Telefone inválido');
+    }
+
+    const identifier = input.channel === 'email' ? key : input.identifier.replace(/\D/g, '');
+
+    const [row] = await db.execute(`
+      WITH existing AS (
+        SELECT status FROM communication_consents
+        WHERE school_id = $1 AND channel = $2 AND identifier_key = $4
+      ), consent AS (
+        INSERT INTO communication_consents (school_id, channel, identifier, identifier_key, status, source, updated_by)
+        VALUES ($1, $2, $3, $4, 'pending', $5, $7)
+        ON CONFLICT (school_id, channel, identifier_key) DO UPDATE
+        SET identifier = EXCLUDED.identifier, updated_at = NOW()
+        WHERE communication_consents.status = 'pending'
+        RETURNING *
+      ), event AS (
+        INSERT INTO communication_consent_events (consent_id, status, source, evidence, user_id)
+        SELECT id, 'pending', $5, $6, $7 FROM consent
+        RETURNING id
+      )
+      SELECT COALESCE((SELECT status FROM consent), (SELECT status FROM existing)) AS status
+    `, [
+      input.schoolId,
+      input.channel,
+      identifier,
+      key,
+      input.source,
+      JSON.stringify(input.evidence ?? {}),
+      input.userId ?? null,
+    ]);
+
+    if (!row?.status) {
+      throw new Error('Não foi possível registrar o consentimento');
+    }
+
+    return row.status;
+  }
+
+  /**
+   * Confirma o consentimento pendente quando o próprio contato escreve pelo canal
+   * @param evidence Dados da mensagem recebida, guardados como prova
+   * @returns true se havia confirmação pendente
+   */
+  async confirmPending(schoolId: number, channel: ConsentChannel, identifier: string, evidence: Record<string, unknown> = {}): Promise<boolean> {
+    const key = consentKey(channel, identifier);
+    if (!key) return false;
+
+    const source = channel === 'whatsapp' ? 'whatsapp_reply' : 'manual';
+    const [row] = await db.execute(`
+      WITH consent AS (
+        UPDATE communication_consents
+        SET status = 'granted', source = $4, updated_at = NOW()
+        WHERE school_id = $1 AND channel = $2 AND identifier_key = $3 AND status = 'pending'
+        RETURNING *
+      ), event AS (
+        INSERT INTO communication_consent_events (consent_id, status, source, evidence)
+        SELECT id, 'granted', $4, $5 FROM consent
+        RETURNING id
+      )
+      SELECT id FROM consent
+    `, [schoolId, channel, key, source, JSON.stringify(evidence)]);
+
+    return !!row;
+  }
+
+  /**
+   * Verifica se o contato pode receber mensagens pelo canal. Sem escola
+   * conhecida, a recusa dada a qualquer escola vale; a confirmação pendente
+   * bloqueia apenas a escola que a pediu
+   * @param schoolId Escola remetente ou null
+   */
+  async canSend(schoolId: number | null, channel: ConsentChannel, identifier: string): Promise<boolean> {
+    return (await this.getBlockingStatus(schoolId, channel, identifier)) === null;
+  }
+
+  /**
+   * Interrompe o envio quando o contato recusou o canal ou ainda não confirmou
+   */
+  async assertCanSend(schoolId: number | null, channel: ConsentChannel, identifier: string): Promise<void> {
+    const status = await this.getBlockingStatus(schoolId, channel, identifier);
+    if (status === 'pending') {
+      throw new Error('O contato ainda não confirmou o recebimento de mensagens; aguarde a resposta dele');
+    }
+    if (status) {
+      throw new Error(channel === 'whatsapp'
+        ? 'O contato pediu para não receber mensagens pelo WhatsApp; ele pode responder VOLTAR para reativar'
+        : `O contato revogou o consentimento para ${channel === 'email' ? 'e-mail' : 'SMS'}`);
+    }
+  }
+
+  private async getBlockingStatus(schoolId: number | null, channel: ConsentChannel, identifier: string): Promise<ConsentStatus | null> {
+    const key = consentKey(channel, identifier);
+    if (!key) return null;
+
+    const [blocked] = await db.execute(`
+      SELECT status FROM communication_consents
+      WHERE channel = $1 AND identifier_key = $2
+        AND (
+          (status = 'revoked' AND ($3::int IS NULL OR school_id = $3))
+          OR (status = 'pending' AND school_id = $3)
+        )
+      ORDER BY status = 'revoked' DESC
+      LIMIT 1
+    `, [channel, key, schoolId]);
+
+    return blocked ? blocked.status : null;
+  }
+
+  /**
+   * Aplica SAIR/PARAR e VOLTAR recebidos pelo WhatsApp
+   * @param evidence Dados da mensagem recebida, guardados como prova
+   * @returns Novo status, ou null se a mensagem não era uma palavra-chave
+   */
+  async handleIncomingKeyword(schoolId: number, phone: string, text: string, evidence: Record<string, unknown> = {}): Promise<ConsentStatus | null> {
+    const status = detectConsentKeyword(text);
+    if (!status || !consentKey('whatsapp', phone)) return null;
+
+    await this.recordConsent({
+      schoolId,
+      channel: 'whatsapp',
+      identifier: phone,
+      status,
+      source: 'whatsapp_keyword',
+      evidence: { ...evidence, message: text.trim() },
+    });
+
+    return status;
+  }
+
+  async listConsents(schoolId: number, filter: ConsentFilter = {}): Promise<Consent[]> {
+    const search = filter.search?.trim().toLowerCase() || null;
+    const rows = await db.execute(`
+      SELECT * FROM communication_consents
+      WHERE school_id = $1
+        AND ($2::text IS NULL OR channel = $2)
+        AND ($3::text IS NULL OR status = $3)
+        AND ($4::text IS NULL OR identifier LIKE '%' || $4 || '%')
+      ORDER BY updated_at DESC
+      LIMIT $5
+    `, [schoolId, filter.channel ?? null, filter.status ?? null, search, LIST_LIMIT]);
+
+    return rows.map((row: any) => this.mapConsent(row));
+  }
+
+  /**
+   * Prova de consentimento do contato: situação atual de cada canal e o
+   * histórico completo de aceites e recusas
+   * @param identifier Telefone ou e-mail do titular
+   */
+  async getConsentProof(schoolId: number, identifier: string): Promise<{ school: { id: number; name: string | null }; identifier: string; generatedAt: Date; consents: Array<Consent & { events: ConsentEvent[] }> }> {
+    const keys = (['whatsapp', 'sms', 'email'] as ConsentChannel[])
+      .map(channel => ({ channel, key: consentKey(channel, identifier) }))
+      .filter(item => item.key);
+    if (keys.length === 0) {
+      throw new Error('Informe um telefone ou e-mail válido');
+    }
+
+    const [school] = await db.execute(`SELECT id, name FROM schools WHERE id = $1`, [schoolId]);
+
+    const consents = await db.execute(`
+      SELECT * FROM communication_consents
+      WHERE school_id = $1 AND (channel, identifier_key) IN (
+        SELECT * FROM jsonb_to_recordset($2::jsonb) AS k(channel TEXT, key TEXT)
+      )
+      ORDER BY channel
+    `, [schoolId, JSON.stringify(keys)]);
+
+    const events = consents.length === 0 ? [] : await db.execute(`
+      SELECT e.*, u.full_name AS user_name
+      FROM communication_consent_events e
+      LEFT JOIN users u ON u.id = e.user_id
+      WHERE e.consent_id = ANY($1::int[])
+      ORDER BY e.created_at, e.id
+    `, [consents.map((row: any) => row.id)]);
+
+    return {
+      school: { id: schoolId, name: school?.name ?? null },
+      identifier,
+      generatedAt: new Date(),
+      consents: consents.map((row: any) => ({
+        ...this.mapConsent(row),
+        events: events.filter((event: any) => event.consent_id === row.id).map((event: any) => this.mapEvent(event)),
+      })),
+    };
+  }
+
+  private mapConsent(row: any): Consent {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      channel: row.channel,
+      identifier: row.identifier,
+      status: row.status,
+      source: row.source,
+      updatedBy: row.updated_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapEvent(row: any): ConsentEvent {
+    return {
+      id: row.id,
+      status: row.status,
+      source: row.source,
+      evidence: row.evidence || {},
+      userId: row.user_id,
+      userName: row.user_name ?? null,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const consentService = new ConsentService();
+export default consentService;
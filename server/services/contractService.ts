@@ -0,0 +1,921 @@
+/**
+ * Serviço de contratos de matrícula
+ * Gera o contrato a partir do modelo da escola (variáveis preenchidas com dados da
+ * matrícula, curso, aluno/responsável e preço), coleta a assinatura eletrônica com
+ * confirmação por código (2FA do usuário ou WhatsApp) e mantém hashes que permitem
+ * detectar qualquer alteração posterior no conteúdo, na assinatura ou no PDF
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import PDFDocument from 'pdfkit';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { sendSchoolNotification } from '../pusher';
+import { getEvolutionApiService } from './evolutionApi';
+import { guardianService } from './guardianService';
+import twoFactorAuthService from './twoFactorAuth';
+
+// Validade do código de confirmação da assinatura
+const OTP_EXPIRATION_MINUTES = 10;
+
+// Tentativas de código permitidas por janela de solicitações
+const OTP_MAX_ATTEMPTS = 5;
+
+// Intervalo mínimo entre duas solicitações de código
+const OTP_RESEND_SECONDS = 60;
+
+// Códigos que podem ser solicitados por janela; tentativas e solicitações só zeram quando a janela vence
+const OTP_MAX_REQUESTS = 5;
+const OTP_WINDOW_MINUTES = 60;
+
+// Tamanho máximo da imagem da assinatura desenhada (data URL)
+const MAX_SIGNATURE_IMAGE_LENGTH = 500 * 1024;
+
+export type ContractStatus = 'pending' | 'signing' | 'signed' | 'canceled';
+export type OtpMethod = 'totp' | 'whatsapp';
+
+export interface ContractTemplate {
+  id: number;
+  schoolId: number;
+  courseId: number | null;
+  name: string;
+  content: string;
+  active: boolean;
+  createdById: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ContractTemplateData {
+  name: string;
+  content: string;
+  courseId?: number | null;
+}
+
+export interface EnrollmentContract {
+  id: number;
+  enrollmentId: number;
+  templateId: number;
+  content: string;
+  contentHash: string;
+  variables: Record<string, any>;
+  missingVariables: string[];
+  status: ContractStatus;
+  signerUserId: number | null;
+  signerName: string | null;
+  signerDocument: string | null;
+  otpMethod: OtpMethod | null;
+  signedName: string | null;
+  signatureHash: string | null;
+  signedAt: Date | null;
+  signedIp: string | null;
+  signedUserAgent: string | null;
+  pdfUrl: string | null;
+  pdfHash: string | null;
+  documentId: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SignatureData {
+  typedName: string;
+  signatureImage: string;
+  otp: string;
+}
+
+export interface SignatureContext {
+  ip?: string;
+  userAgent?: string;
+  userId?: number;
+}
+
+export interface SignaturePayload {
+  contractId: number;
+  contentHash: string;
+  signedName: string;
+  signatureImageHash: string;
+  signerDocument: string | null;
+  otpMethod: OtpMethod;
+  signedAt: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Calcula o hash SHA-256 de um texto ou buffer
+ */
+export function sha256(value: string | Buffer): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Calcula o hash da assinatura, encadeando o hash do conteúdo com os dados de quem assinou.
+ * A ordem dos campos é fixa para que o hash possa ser recalculado na verificação.
+ */
+export function computeSignatureHash(payload: SignaturePayload): string {
+  return sha256(JSON.stringify([
+    payload.contractId,
+    payload.contentHash,
+    payload.signedName,
+    payload.signatureImageHash,
+    payload.signerDocument,
+    payload.otpMethod,
+    payload.signedAt,
+    payload.ip,
+    payload.userAgent,
+  ]));
+}
+
+/**
+ * Preenche as variáveis {{grupo.campo}} do modelo de contrato
+ * @param content Texto do modelo
+ * @param variables Valores disponíveis
+ * @returns Texto final e variáveis que não puderam ser preenchidas
+ */
+export function renderContractTemplate(
+  content: string,
+  variables: Record<string, any>
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+
+  const text = content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => {
+    const value = key.split('.').reduce<any>((current, part) => current?.[part], variables);
+    if (value === undefined || value === null || value === '') {
+      if (!missing.includes(key)) missing.push(key);
+      return '';
+    }
+    return String(value);
+  });
+
+  return { text, missing };
+}
+
+class ContractService {
+  /**
+   * Cria as tabelas de modelos e contratos, se não existirem
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS contract_templates (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        course_id INTEGER,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS contract_templates_school_idx ON contract_templates(school_id, active)
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_contracts (
+        id SERIAL PRIMARY KEY,
+        enrollment_id INTEGER NOT NULL,
+        template_id INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        variables JSONB,
+        missing_variables JSONB,
+        status TEXT NOT NULL DEFAULT 'pending',
+        signer_user_id INTEGER,
+        signer_name TEXT,
+        signer_document TEXT,
+        signer_phone TEXT,
+        otp_method TEXT,
+        otp_hash TEXT,
+        otp_expires_at TIMESTAMP WITH TIME ZONE,
+        otp_attempts INTEGER NOT NULL DEFAULT 0,
+        otp_requested_at TIMESTAMP WITH TIME ZONE,
+        otp_request_count INTEGER NOT NULL DEFAULT 0,
+        otp_window_started_at TIMESTAMP WITH TIME ZONE,
+        signed_name TEXT,
+        signature_image TEXT,
+        signature_hash TEXT,
+        signed_at TIMESTAMP WITH TIME ZONE,
+        signed_ip TEXT,
+        signed_user_agent TEXT,
+        pdf_url TEXT,
+        pdf_hash TEXT,
+        document_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      ALTER TABLE IF EXISTS enrollment_contracts
+        ADD COLUMN IF NOT EXISTS otp_requested_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS otp_request_count INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS otp_window_started_at TIMESTAMP WITH TIME ZONE
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS enrollment_contracts_enrollment_idx ON enrollment_contracts(enrollment_id, status)
+    `);
+  }
+
+  /**
+   * Lista os modelos de contrato ativos da escola
+   * @param schoolId ID da escola
+   */
+  async listTemplates(schoolId: number): Promise<ContractTemplate[]> {
+    const rows = await db.execute(`
+      SELECT * FROM contract_templates
+      WHERE school_id = $1 AND active = TRUE
+      ORDER BY course_id NULLS FIRST, updated_at DESC
+    `, [schoolId]);
+
+    return rows.map(row => this.mapTemplate(row));
+  }
+
+  /**
+   * Obtém um modelo de contrato
+   * @param id ID do modelo
+   */
+  async getTemplate(id: number): Promise<ContractTemplate | null> {
+    const [row] = await db.execute(`SELECT * FROM contract_templates WHERE id = $1`, [id]);
+    return row ? this.mapTemplate(row) : null;
+  }
+
+  /**
+   * Cria um modelo de contrato para a escola (ou para um curso específico)
+   * @param schoolId ID da escola
+   * @param data Nome, conteúdo e curso
+   * @param userId Usuário que criou o modelo
+   */
+  async createTemplate(schoolId: number, data: ContractTemplateData, userId: number): Promise<ContractTemplate> {
+    const [row] = await db.execute(`
+      INSERT INTO contract_templates (school_id, course_id, name, content, created_by_id)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [schoolId, data.courseId ?? null, data.name, data.content, userId]);
+
+    await logAction(userId, 'contract_template_created', 'contract_template', String(row.id), {
+      schoolId,
+      courseId: data.courseId ?? null,
+    });
+
+    return this.mapTemplate(row);
+  }
+
+  /**
+   * Atualiza um modelo de contrato.
+   * Contratos já gerados guardam o próprio texto e não são afetados.
+   * @param id ID do modelo
+   * @param data Nome, conteúdo e curso
+   * @param userId Usuário que alterou o modelo
+   */
+  async updateTemplate(id: number, data: ContractTemplateData, userId: number): Promise<ContractTemplate | null> {
+    const [row] = await db.execute(`
+      UPDATE contract_templates
+      SET name = $2, content = $3, course_id = $4, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, data.name, data.content, data.courseId ?? null]);
+
+    if (!row) return null;
+
+    await logAction(userId, 'contract_template_updated', 'contract_template', String(id), {
+      contentHash: sha256(data.content),
+    });
+
+    return this.mapTemplate(row);
+  }
+
+  /**
+   * Desativa um modelo de contrato (contratos gerados continuam válidos)
+   * @param id ID do modelo
+   * @param userId Usuário que desativou o modelo
+   */
+  async deactivateTemplate(id: number, userId: number): Promise<void> {
+    await db.execute(`
+      UPDATE contract_templates SET active = FALSE, updated_at = NOW() WHERE id = $1
+    `, [id]);
+
+    await logAction(userId, 'contract_template_deactivated', 'contract_template', String(id));
+  }
+
+  /**
+   * Obtém um contrato
+   * @param id ID do contrato
+   */
+  async getContract(id: number): Promise<EnrollmentContract | null> {
+    const [row] = await db.execute(`SELECT * FROM enrollment_contracts WHERE id = $1`, [id]);
+    return row ? this.mapContract(row) : null;
+  }
+
+  /**
+   * Obtém o contrato vigente da matrícula (pendente, em assinatura ou assinado)
+   * @param enrollmentId ID da matrícula
+   */
+  async getContractForEnrollment(enrollmentId: number): Promise<EnrollmentContract | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM enrollment_contracts
+      WHERE enrollment_id = $1 AND status <> 'canceled'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [enrollmentId]);
+
+    return row ? this.mapContract(row) : null;
+  }
+
+  /**
+   * Verifica se a matrícula já tem contrato assinado
+   * @param enrollmentId ID da matrícula
+   */
+  async isContractSigned(enrollmentId: number): Promise<boolean> {
+    const [row] = await db.execute(`
+      SELECT 1 FROM enrollment_contracts WHERE enrollment_id = $1 AND status = 'signed' LIMIT 1
+    `, [enrollmentId]);
+
+    return !!row;
+  }
+
+  /**
+   * Gera o contrato da matrícula a partir do modelo do curso (ou o padrão da escola).
+   * Um contrato pendente é gerado novamente para refletir dados atualizados;
+   * um contrato assinado nunca é substituído.
+   * @param enrollmentId ID da matrícula
+   * @returns Contrato gerado ou null quando a escola não tem modelo
+   */
+  async generateContract(enrollmentId: number): Promise<EnrollmentContract | null> {
+    const current = await this.getContractForEnrollment(enrollmentId);
+    if (current && current.status !== 'pending') {
+      return current;
+    }
+
+    const enrollment = await this.getEnrollmentData(enrollmentId);
+    if (!enrollment) {
+      throw new Error('Erro ao gerar contrato: matrícula não encontrada');
+    }
+
+    const [template] = await db.execute(`
+      SELECT * FROM contract_templates
+      WHERE school_id = $1 AND active = TRUE AND (course_id = $2 OR course_id IS NULL)
+      ORDER BY course_id NULLS LAST, updated_at DESC
+      LIMIT 1
+    `, [enrollment.school_id, enrollment.course_id]);
+
+    if (!template) {
+      return null;
+    }
+
+    const signer = await this.getSigner(enrollment);
+    const variables = await this.buildVariables(enrollment, signer);
+    const { text, missing } = renderContractTemplate(template.content, variables);
+
+    if (current && current.templateId === template.id && current.content === text) {
+      return current;
+    }
+
+    if (current) {
+      const [canceled] = await db.execute(`
+        UPDATE enrollment_contracts SET status = 'canceled', updated_at = NOW()
+        WHERE id = $1 AND status = 'pending'
+        RETURNING id
+      `, [current.id]);
+
+      // A assinatura começou enquanto o contrato era gerado novamente
+      if (!canceled) {
+        return this.getContractForEnrollment(enrollmentId);
+      }
+    }
+
+    const [row] = await db.execute(`
+      INSERT INTO enrollment_contracts (
+        enrollment_id, template_id, content, content_hash, variables, missing_variables,
+        signer_user_id, signer_name, signer_document, signer_phone
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, [
+      enrollmentId,
+      template.id,
+      text,
+      sha256(text),
+      JSON.stringify(variables),
+      JSON.stringify(missing),
+      signer?.userId || null,
+      signer?.name || null,
+      signer?.document || null,
+      signer?.phone || null,
+    ]);
+
+    return this.mapContract(row);
+  }
+
+  /**
+   * Inicia a confirmação da assinatura.
+   * Usa o 2FA quando quem assina é o usuário logado e tem 2FA ativo;
+   * caso contrário, envia um código por WhatsApp para o telefone do contratante.
+   * @param contractId ID do contrato
+   * @param userId Usuário logado (opcional)
+   */
+  async requestOtp(contractId: number, userId?: number): Promise<{ success: boolean; message: string; method?: OtpMethod; destination?: string }> {
+    const [contract] = await db.execute(`SELECT * FROM enrollment_contracts WHERE id = $1`, [contractId]);
+    if (!contract || contract.status !== 'pending') {
+      return { success: false, message: 'Contrato não está disponível para assinatura' };
+    }
+
+    if (await this.canUseTwoFactor(contract, userId)) {
+      if (!(await this.claimOtpRequest(contractId, 'totp', null, null))) {
+        return { success: false, message: 'Muitas solicitações de código. Aguarde alguns minutos e tente novamente' };
+      }
+
+      return { success: true, message: 'Informe o código do seu aplicativo autenticador', method: 'totp' };
+    }
+
+    if (!contract.signer_phone) {
+      return { success: false, message: 'Contratante sem telefone cadastrado para receber o código' };
+    }
+
+    const [enrollment] = await db.execute(`SELECT school_id FROM enrollments WHERE id = $1`, [contract.enrollment_id]);
+    const [instance] = await db.execute(`
+      SELECT instance_key FROM whatsapp_instances WHERE school_id = $1 ORDER BY id LIMIT 1
+    `, [enrollment?.school_id]);
+
+    if (!instance) {
+      return { success: false, message: 'Escola sem WhatsApp configurado para envio do código' };
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = new Date(Date.now() + OTP_EXPIRATION_MINUTES * 60 * 1000);
+
+    if (!(await this.claimOtpRequest(contractId, 'whatsapp', this.hashOtp(contractId, code), expiresAt))) {
+      return { success: false, message: 'Muitas solicitações de código. Aguarde alguns minutos e tente novamente' };
+    }
+
+    await getEvolutionApiService().sendTextMessage(
+      instance.instance_key,
+      contract.signer_phone,
+      `Seu código para assinar o contrato de matrícula é ${code}. Ele expira em ${OTP_EXPIRATION_MINUTES} minutos.`
+    );
+
+    return {
+      success: true,
+      message: 'Código enviado por WhatsApp',
+      method: 'whatsapp',
+      destination: `***${String(contract.signer_phone).slice(-4)}`,
+    };
+  }
+
+  /**
+   * Assina o contrato: valida o código, grava a trilha de auditoria,
+   * gera o PDF assinado e o anexa aos documentos da matrícula
+   * @param contractId ID do contrato
+   * @param data Nome digitado, assinatura desenhada e código
+   * @param context IP, user agent e usuário logado
+   */
+  async signContract(
+    contractId: number,
+    data: SignatureData,
+    context: SignatureContext
+  ): Promise<{ success: boolean; message: string; contract?: EnrollmentContract }> {
+    const [contract] = await db.execute(`SELECT * FROM enrollment_contracts WHERE id = $1`, [contractId]);
+    if (!contract || contract.status !== 'pending') {
+      return { success: false, message: 'Contrato não está disponível para assinatura' };
+    }
+
+    if (sha256(contract.content) !== contract.content_hash) {
+      return { success: false, message: 'O conteúdo do contrato foi alterado e não pode ser assinado' };
+    }
+
+    if (!/^data:image\/png;base64,/.test(data.signatureImage) || data.signatureImage.length > MAX_SIGNATURE_IMAGE_LENGTH) {
+      return { success: false, message: 'Assinatura desenhada inválida' };
+    }
+
+    const otpCheck = await this.verifyOtp(contract, data.otp, context.userId);
+    if (!otpCheck.valid) {
+      return { success: false, message: otpCheck.message };
+    }
+
+    // Reserva o contrato antes de gerar o PDF e o documento, para que duas assinaturas
+    // simultâneas não deixem arquivos e documentos órfãos
+    const [claimed] = await db.execute(`
+      UPDATE enrollment_contracts
+      SET status = 'signing', otp_hash = NULL, updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+      RETURNING id
+    `, [contractId]);
+
+    if (!claimed) {
+      return { success: false, message: 'Contrato já foi assinado ou cancelado' };
+    }
+
+    const signedAt = new Date();
+    const payload: SignaturePayload = {
+      contractId,
+      contentHash: contract.content_hash,
+      signedName: data.typedName.trim(),
+      signatureImageHash: sha256(data.signatureImage),
+      signerDocument: contract.signer_document,
+      otpMethod: contract.otp_method,
+      signedAt: signedAt.toISOString(),
+      ip: context.ip || null,
+      userAgent: context.userAgent || null,
+    };
+    const signatureHash = computeSignatureHash(payload);
+
+    let row: any;
+    let pdfHash = '';
+    let enrollment: any;
+    try {
+      const pdfBuffer = await this.renderPdf(contract, { ...payload, signatureHash }, data.signatureImage);
+      pdfHash = sha256(pdfBuffer);
+
+      const uploadsDir = path.join(process.cwd(), 'uploads', 'contracts');
+      if (!fs.existsSync(uploadsDir)) {
+        fs.mkdirSync(uploadsDir, { recursive: true });
+      }
+      const fileName = `contrato_${contract.enrollment_id}_${contractId}_${Date.now()}.pdf`;
+      fs.writeFileSync(path.join(uploadsDir, fileName), pdfBuffer);
+      const pdfUrl = `/uploads/contracts/${fileName}`;
+
+      [enrollment] = await db.execute(`
+        SELECT id, student_id, school_id FROM enrollments WHERE id = $1
+      `, [contract.enrollment_id]);
+
+      const [document] = await db.execute(`
+        INSERT INTO documents (enrollment_id, student_id, type, title, description, file_url, mime_type, file_size, status, metadata)
+        VALUES ($1, $2, 'other', $3, $4, $5, 'application/pdf', $6, 'verified', $7)
+        RETURNING id
+      `, [
+        contract.enrollment_id,
+        enrollment?.student_id,
+        'Contrato de matrícula assinado',
+        `Assinado por ${payload.signedName} em ${signedAt.toLocaleString('pt-BR')}`,
+        pdfUrl,
+        pdfBuffer.length,
+        JSON.stringify({ kind: 'contract', contractId, contentHash: contract.content_hash, signatureHash, pdfHash }),
+      ]);
+
+      [row] = await db.execute(`
+        UPDATE enrollment_contracts
+        SET status = 'signed', signed_name = $2, signature_image = $3, signature_hash = $4,
+            signed_at = $5, signed_ip = $6, signed_user_agent = $7, pdf_url = $8, pdf_hash = $9,
+            document_id = $10, updated_at = NOW()
+        WHERE id = $1 AND status = 'signing'
+        RETURNING *
+      `, [
+        contractId,
+        payload.signedName,
+        data.signatureImage,
+        signatureHash,
+        signedAt,
+        payload.ip,
+        payload.userAgent,
+        pdfUrl,
+        pdfHash,
+        document?.id || null,
+      ]);
+    } catch (error) {
+      row = null;
+      console.error('Erro ao gerar o contrato assinado:', error);
+    }
+
+    if (!row) {
+      // Devolve o contrato para assinatura; o código já foi consumido e precisa ser solicitado novamente
+      await db.execute(`
+        UPDATE enrollment_contracts SET status = 'pending', updated_at = NOW() WHERE id = $1 AND status = 'signing'
+      `, [contractId]);
+      return { success: false, message: 'Não foi possível concluir a assinatura. Solicite um novo código e tente novamente' };
+    }
+
+    await logAction(context.userId || contract.signer_user_id || 0, 'contract_signed', 'enrollment', String(contract.enrollment_id), {
+      contractId,
+      signedName: payload.signedName,
+      signerDocument: payload.signerDocument,
+      otpMethod: payload.otpMethod,
+      contentHash: payload.contentHash,
+      signatureHash,
+      pdfHash,
+      ip: payload.ip,
+      userAgent: payload.userAgent,
+      signedAt: payload.signedAt,
+    });
+
+    if (enrollment?.school_id) {
+      await sendSchoolNotification(enrollment.school_id, {
+        title: 'Contrato assinado',
+        message: `${payload.signedName} assinou o contrato da matrícula #${contract.enrollment_id}`,
+        type: 'enrollment',
+        relatedId: contract.enrollment_id,
+        relatedType: 'enrollment',
+      });
+    }
+
+    return { success: true, message: 'Contrato assinado com sucesso', contract: this.mapContract(row) };
+  }
+
+  /**
+   * Recalcula os hashes do contrato assinado para detectar adulterações
+   * @param contractId ID do contrato
+   */
+  async verifyContract(contractId: number): Promise<{ valid: boolean; checks: { content: boolean; signature: boolean; pdf: boolean } } | null> {
+    const [contract] = await db.execute(`SELECT * FROM enrollment_contracts WHERE id = $1`, [contractId]);
+    if (!contract || contract.status !== 'signed') return null;
+
+    const content = sha256(contract.content) === contract.content_hash;
+
+    const signature = computeSignatureHash({
+      contractId: contract.id,
+      contentHash: contract.content_hash,
+      signedName: contract.signed_name,
+      signatureImageHash: sha256(contract.signature_image || ''),
+      signerDocument: contract.signer_document,
+      otpMethod: contract.otp_method,
+      signedAt: new Date(contract.signed_at).toISOString(),
+      ip: contract.signed_ip,
+      userAgent: contract.signed_user_agent,
+    }) === contract.signature_hash;
+
+    let pdfValid = false;
+    const filePath = contract.pdf_url ? path.join(process.cwd(), contract.pdf_url.replace(/^\//, '')) : null;
+    if (filePath && fs.existsSync(filePath)) {
+      pdfValid = sha256(fs.readFileSync(filePath)) === contract.pdf_hash;
+    }
+
+    return {
+      valid: content && signature && pdfValid,
+      checks: { content, signature, pdf: pdfValid },
+    };
+  }
+
+  /**
+   * Gera o PDF do contrato (sem assinatura, para visualização)
+   * @param contractId ID do contrato
+   */
+  async renderPreviewPdf(contractId: number): Promise<Buffer | null> {
+    const [contract] = await db.execute(`SELECT * FROM enrollment_contracts WHERE id = $1`, [contractId]);
+    if (!contract) return null;
+    return this.renderPdf(contract);
+  }
+
+  /**
+   * Dados da matrícula usados no preenchimento do contrato
+   */
+  private async getEnrollmentData(enrollmentId: number): Promise<any | null> {
+    const [row] = await db.execute(`
+      SELECT e.*, c.name AS course_name, c.price AS course_price, sc.name AS school_name,
+        u.full_name AS student_name, u.email AS student_email, u.phone AS student_phone, s.cpf AS student_cpf
+      FROM enrollments e
+      LEFT JOIN courses c ON c.id = e.course_id
+      LEFT JOIN schools sc ON sc.id = e.school_id
+      LEFT JOIN students s ON s.id = e.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      WHERE e.id = $1
+    `, [enrollmentId]);
+
+    return row || null;
+  }
+
+  /**
+   * Define quem assina o contrato: o responsável financeiro, ou o próprio aluno
+   */
+  private async getSigner(enrollment: any): Promise<{ userId?: number; name: string; document: string; phone?: string } | null> {
+    const customer = await guardianService.getBillingCustomer(enrollment.student_id);
+    if (customer) {
+      return {
+        userId: customer.payerUserId || undefined,
+        name: customer.customerName,
+        document: customer.customerDocument,
+        phone: customer.customerPhone,
+      };
+    }
+
+    if (!enrollment.student_name) return null;
+
+    return {
+      name: enrollment.student_name,
+      document: enrollment.student_cpf,
+      phone: enrollment.student_phone,
+    };
+  }
+
+  /**
+   * Monta as variáveis disponíveis nos modelos de contrato
+   */
+  private async buildVariables(enrollment: any, signer: { name: string; document: string } | null): Promise<Record<string, any>> {
+    const guardians = await guardianService.getGuardiansForStudent(enrollment.student_id);
+    const guardian = guardians.find(g => g.financial_responsible) || guardians[0];
+    const price = enrollment.course_price ? parseFloat(String(enrollment.course_price).replace(',', '.')) : NaN;
+
+    return {
+      data: new Date().toLocaleDateString('pt-BR'),
+      matricula: {
+        id: enrollment.id,
+        data: enrollment.created_at ? new Date(enrollment.created_at).toLocaleDateString('pt-BR') : '',
+        semestre: enrollment.semester,
+        ano: enrollment.year,
+      },
+      escola: {
+        nome: enrollment.school_name,
+      },
+      curso: {
+        nome: enrollment.course_name,
+        preco: isNaN(price) ? enrollment.course_price : price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
+      },
+      aluno: {
+        nome: enrollment.student_name,
+        cpf: enrollment.student_cpf,
+        email: enrollment.student_email,
+      },
+      responsavel: {
+        nome: guardian?.full_name,
+        cpf: guardian?.cpf,
+        parentesco: guardian?.relationship,
+      },
+      contratante: {
+        nome: signer?.name,
+        cpf: signer?.document,
+      },
+    };
+  }
+
+  /**
+   * O 2FA só vale quando quem confirma é o próprio contratante
+   */
+  private async canUseTwoFactor(contract: any, userId?: number): Promise<boolean> {
+    if (!userId || contract.signer_user_id !== userId) return false;
+    return twoFactorAuthService.isTwoFactorEnabled(userId);
+  }
+
+  /**
+   * Valida o código de confirmação conforme o método escolhido na solicitação
+   */
+  private async verifyOtp(contract: any, otp: string, userId?: number): Promise<{ valid: boolean; message: string }> {
+    if (contract.otp_method === 'totp') {
+      if (!(await this.canUseTwoFactor(contract, userId))) {
+        return { valid: false, message: 'Solicite um novo código de confirmação' };
+      }
+    } else if (contract.otp_method !== 'whatsapp' || !contract.otp_hash) {
+      return { valid: false, message: 'Solicite o código de confirmação antes de assinar' };
+    } else if (new Date(contract.otp_expires_at) < new Date()) {
+      return { valid: false, message: 'Código de confirmação expirado' };
+    }
+
+    // Consome a tentativa antes de conferir o código, para que tentativas simultâneas também contem
+    const [attempt] = await db.execute(`
+      UPDATE enrollment_contracts SET otp_attempts = otp_attempts + 1
+      WHERE id = $1 AND otp_attempts < $2
+      RETURNING otp_attempts
+    `, [contract.id, OTP_MAX_ATTEMPTS]);
+
+    if (!attempt) {
+      return { valid: false, message: 'Muitas tentativas. Aguarde alguns minutos e solicite um novo código' };
+    }
+
+    if (contract.otp_method === 'totp') {
+      const secret = await twoFactorAuthService.getUserSecret(userId!);
+      if (!secret || !twoFactorAuthService.verifyToken(otp, secret)) {
+        return { valid: false, message: 'Código de confirmação inválido' };
+      }
+      return { valid: true, message: '' };
+    }
+
+    if (this.hashOtp(contract.id, otp) !== contract.otp_hash) {
+      return { valid: false, message: 'Código de confirmação inválido' };
+    }
+
+    return { valid: true, message: '' };
+  }
+
+  /**
+   * Registra a solicitação de um novo código respeitando o intervalo entre envios e o limite da janela.
+   * As tentativas erradas continuam contando até a janela vencer.
+   * @returns false quando o limite foi atingido ou o contrato deixou de estar pendente
+   */
+  private async claimOtpRequest(
+    contractId: number,
+    method: OtpMethod,
+    otpHash: string | null,
+    expiresAt: Date | null
+  ): Promise<boolean> {
+    const windowExpired = `(otp_window_started_at IS NULL OR otp_window_started_at <= NOW() - INTERVAL '${OTP_WINDOW_MINUTES} minutes')`;
+
+    const [row] = await db.execute(`
+      UPDATE enrollment_contracts
+      SET otp_method = $2, otp_hash = $3, otp_expires_at = $4,
+          otp_attempts = CASE WHEN ${windowExpired} THEN 0 ELSE otp_attempts END,
+          otp_request_count = CASE WHEN ${windowExpired} THEN 1 ELSE otp_request_count + 1 END,
+          otp_window_started_at = CASE WHEN ${windowExpired} THEN NOW() ELSE otp_window_started_at END,
+          otp_requested_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+        AND (otp_requested_at IS NULL OR otp_requested_at <= NOW() - INTERVAL '${OTP_RESEND_SECONDS} seconds')
+        AND (${windowExpired} OR (otp_request_count < $5 AND otp_attempts < $6))
+      RETURNING id
+    `, [contractId, method, otpHash, expiresAt, OTP_MAX_REQUESTS, OTP_MAX_ATTEMPTS]);
+
+    return !!row;
+  }
+
+  private hashOtp(contractId: number, code: string): string {
+    return sha256(`${contractId}:${code.trim()}`);
+  }
+
+  /**
+   * Gera o PDF do contrato; quando assinado, inclui a assinatura e a página de auditoria
+   */
+  private async renderPdf(
+    contract: any,
+    signature?: SignaturePayload & { signatureHash: string },
+    signatureImage?: string
+  ): Promise<Buffer> {
+    const pdfDoc = new PDFDocument({ margin: 50 });
+    const chunks: Buffer[] = [];
+
+    pdfDoc.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+
+    const pdfPromise = new Promise<Buffer>((resolve) => {
+      pdfDoc.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+    });
+
+    pdfDoc.font('Helvetica-Bold').fontSize(16)
+      .text('Contrato de Matrícula', { align: 'center' });
+    pdfDoc.moveDown();
+    pdfDoc.font('Helvetica').fontSize(11).text(contract.content, { align: 'justify' });
+
+    if (signature && signatureImage) {
+      pdfDoc.moveDown(2);
+      pdfDoc.image(Buffer.from(signatureImage.split(',')[1], 'base64'), { width: 200 });
+      pdfDoc.font('Helvetica').fontSize(10);
+      pdfDoc.text(signature.signedName);
+      if (signature.signerDocument) {
+        pdfDoc.text(`CPF: ${signature.signerDocument}`);
+      }
+
+      pdfDoc.addPage();
+      pdfDoc.font('Helvetica-Bold').fontSize(14).text('Registro de assinatura eletrônica');
+      pdfDoc.moveDown();
+      pdfDoc.font('Courier').fontSize(9);
+      pdfDoc.text(`Contrato: #${signature.contractId} (matrícula #${contract.enrollment_id})`);
+      pdfDoc.text(`Assinado por: ${signature.signedName}`);
+      pdfDoc.text(`Data/hora (UTC): ${signature.signedAt}`);
+      pdfDoc.text(`Confirmação: ${signature.otpMethod === 'totp' ? 'aplicativo autenticador (2FA)' : 'código via WhatsApp'}`);
+      pdfDoc.text(`IP: ${signature.ip || '-'}`);
+      pdfDoc.text(`User agent: ${signature.userAgent || '-'}`);
+      pdfDoc.moveDown();
+      pdfDoc.text(`Hash do conteúdo (SHA-256): ${signature.contentHash}`);
+      pdfDoc.text(`Hash da assinatura (SHA-256): ${signature.signatureHash}`);
+    }
+
+    pdfDoc.end();
+
+    return pdfPromise;
+  }
+
+  private mapTemplate(row: any): ContractTemplate {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      courseId: row.course_id,
+      name: row.name,
+      content: row.content,
+      active: row.active,
+      createdById: row.created_by_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapContract(row: any): EnrollmentContract {
+    return {
+      id: row.id,
+      enrollmentId: row.enrollment_id,
+      templateId: row.template_id,
+      content: row.content,
+      contentHash: row.content_hash,
+      variables: typeof row.variables === 'string' ? JSON.parse(row.variables) : row.variables || {},
+      missingVariables: typeof row.missing_variables === 'string' ? JSON.parse(row.missing_variables) : row.missing_variables || [],
+      status: row.status,
+      signerUserId: row.signer_user_id,
+      signerName: row.signer_name,
+      signerDocument: row.signer_document,
+      otpMethod: row.otp_method,
+      signedName: row.signed_name,
+      signatureHash: row.signature_hash,
+      signedAt: row.signed_at,
+      signedIp: row.signed_ip,
+      signedUserAgent: row.signed_user_agent,
+      pdfUrl: row.pdf_url,
+      pdfHash: row.pdf_hash,
+      documentId: row.document_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const contractService = new ContractService();
+export default contractService;
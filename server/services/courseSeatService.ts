@@ -0,0 +1,559 @@
+/**
+ * Serviço de vagas de cursos
+ * Controla a ocupação de vagas (reservadas, confirmadas e disponíveis) com base em
+ * courses.maxStudents, reservas temporárias durante o preenchimento da matrícula
+ * e lista de espera com promoção automática quando uma vaga é liberada
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { emailService } from '../email';
+import { sendSchoolNotification, sendUserNotification } from '../pusher';
+import { getEvolutionApiService } from './evolutionApi';
+import { guardianService } from './guardianService';
+import { consentService } from './consentService';
+
+// Tempo de reserva enquanto o aluno preenche o formulário de matrícula
+const SEAT_HOLD_MINUTES = parseInt(process.env.SEAT_HOLD_MINUTES || '30');
+
+// Tempo de reserva para alunos promovidos da lista de espera
+const WAITLIST_PROMOTION_HOLD_HOURS = parseInt(process.env.WAITLIST_PROMOTION_HOLD_HOURS || '24');
+
+// Intervalo de verificação de reservas expiradas
+const EXPIRATION_CHECK_INTERVAL = 60 * 1000;
+
+export type SeatHoldStatus = 'held' | 'confirmed' | 'released' | 'expired';
+export type WaitlistStatus = 'waiting' | 'promoted' | 'removed';
+
+export interface SeatSummary {
+  courseId: number;
+  maxStudents: number | null;
+  reserved: number;
+  confirmed: number;
+  available: number | null;
+  waitlisted: number;
+  full: boolean;
+}
+
+export interface SeatHold {
+  id: number;
+  courseId: number;
+  enrollmentId: number;
+  schoolId: number;
+  studentId: number;
+  status: SeatHoldStatus;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WaitlistEntry {
+  id: number;
+  courseId: number;
+  enrollmentId: number;
+  schoolId: number;
+  studentId: number;
+  position: number;
+  status: WaitlistStatus;
+  createdAt: Date;
+  promotedAt: Date | null;
+}
+
+export interface SeatRequestResult {
+  status: 'held' | 'confirmed' | 'waitlisted';
+  hold?: SeatHold;
+  waitlistEntry?: WaitlistEntry;
+  waitlistPosition?: number;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Classe responsável pela alocação de vagas e lista de espera
+ */
+class CourseSeatService {
+  private expirationTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Garante que as tabelas necessárias existam
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS course_seat_holds (
+        id SERIAL PRIMARY KEY,
+        course_id INTEGER NOT NULL,
+        enrollment_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        student_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'held',
+        expires_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS course_seat_holds_active_enrollment_idx
+      ON course_seat_holds(enrollment_id) WHERE status IN ('held', 'confirmed')
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS course_seat_holds_course_idx ON course_seat_holds(course_id, status)
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS course_waitlist (
+        id SERIAL PRIMARY KEY,
+        course_id INTEGER NOT NULL,
+        enrollment_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        student_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'waiting',
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        promoted_at TIMESTAMP WITH TIME ZONE
+      )
+    `);
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS course_waitlist_waiting_enrollment_idx
+      ON course_waitlist(enrollment_id) WHERE status = 'waiting'
+    `);
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS course_waitlist_course_position_idx
+      ON course_waitlist(course_id, position)
+    `);
+  }
+
+  /**
+   * Inicia a verificação periódica de reservas expiradas
+   */
+  startExpirationWatcher(): void {
+    if (this.expirationTimer) return;
+
+    this.expirationTimer = setInterval(() => {
+      this.expireHolds().catch(error => {
+        console.error('Erro ao expirar reservas de vagas:', error);
+      });
+    }, EXPIRATION_CHECK_INTERVAL);
+  }
+
+  /**
+   * Interrompe a verificação periódica de reservas expiradas
+   */
+  stopExpirationWatcher(): void {
+    if (this.expirationTimer) {
+      clearInterval(this.expirationTimer);
+      this.expirationTimer = null;
+    }
+  }
+
+  /**
+   * Calcula a ocupação de vagas de um curso
+   * @param courseId ID do curso
+   * @returns Resumo de vagas
+   */
+  async getSeatSummary(courseId: number): Promise<SeatSummary> {
+    const [row] = await db.execute(`
+      SELECT
+        c.max_students,
+        (SELECT COUNT(*) FROM course_seat_holds h
+          WHERE h.course_id = c.id AND h.status = 'held' AND h.expires_at > NOW()) AS reserved,
+        (SELECT COUNT(*) FROM course_seat_holds h
+          WHERE h.course_id = c.id AND h.status = 'confirmed') AS confirmed,
+        (SELECT COUNT(*) FROM course_waitlist w
+          WHERE w.course_id = c.id AND w.status = 'waiting') AS waitlisted
+      FROM courses c
+      WHERE c.id = $1
+    `, [courseId]);
+
+    if (!row) {
+      throw new Error(`Curso ${courseId} não encontrado`);
+    }
+
+    const maxStudents = row.max_students ?? null;
+    const reserved = parseInt(row.reserved);
+    const confirmed = parseInt(row.confirmed);
+    const available = maxStudents === null ? null : Math.max(0, maxStudents - reserved - confirmed);
+
+    return {
+      courseId,
+      maxStudents,
+      reserved,
+      confirmed,
+      available,
+      waitlisted: parseInt(row.waitlisted),
+      full: available === 0,
+    };
+  }
+
+  /**
+   * Solicita uma vaga para a matrícula: reserva se houver vaga, senão coloca na lista de espera
+   * @param enrollment Matrícula
+   * @returns Resultado da solicitação
+   */
+  async requestSeat(enrollment: { id: number; courseId: number; schoolId: number; studentId: number }): Promise<SeatRequestResult> {
+    const existing = await this.getActiveHold(enrollment.id);
+    if (existing) {
+      return { status: existing.status === 'confirmed' ? 'confirmed' : 'held', hold: existing, expiresAt: existing.expiresAt };
+    }
+
+    const waiting = await this.getWaitlistEntry(enrollment.id);
+    if (waiting) {
+      return { status: 'waitlisted', waitlistEntry: waiting, waitlistPosition: await this.getWaitlistPosition(waiting) };
+    }
+
+    const expiresAt = new Date(Date.now() + SEAT_HOLD_MINUTES * 60 * 1000);
+    const hold = await this.tryAllocate(enrollment, 'held', expiresAt);
+    if (hold) {
+      return { status: 'held', hold, expiresAt };
+    }
+
+    const entry = await this.addToWaitlist(enrollment);
+    return { status: 'waitlisted', waitlistEntry: entry, waitlistPosition: await this.getWaitlistPosition(entry) };
+  }
+
+  /**
+   * Renova a reserva de uma matrícula que ainda está preenchendo o formulário
+   * @param enrollmentId ID da matrícula
+   * @returns Reserva renovada ou null se não houver reserva ativa
+   */
+  async renewHold(enrollmentId: number): Promise<SeatHold | null> {
+    const [row] = await db.execute(`
+      UPDATE course_seat_holds
+      SET expires_at = GREATEST(expires_at, NOW() + ($2 || ' minutes')::interval), updated_at = NOW()
+      WHERE enrollment_id = $1 AND status = 'held' AND expires_at > NOW()
+      RETURNING *
+    `, [enrollmentId, String(SEAT_HOLD_MINUTES)]);
+
+    return row ? this.mapHold(row) : null;
+  }
+
+  /**
+   * Confirma a vaga de uma matrícula (pagamento aprovado ou matrícula concluída)
+   * @param enrollment Matrícula
+   * @returns true se a vaga foi confirmada
+   */
+  async confirmSeat(enrollment: { id: number; courseId: number; schoolId: number; studentId: number }): Promise<boolean> {
+    const [row] = await db.execute(`
+      UPDATE course_seat_holds
+      SET status = 'confirmed', expires_at = NULL, updated_at = NOW()
+      WHERE enrollment_id = $1 AND status IN ('held', 'confirmed') AND (status = 'confirmed' OR expires_at > NOW())
+      RETURNING *
+    `, [enrollment.id]);
+
+    if (row) {
+      await this.markWaitlistEntry(enrollment.id, 'promoted');
+      return true;
+    }
+
+    // Reserva expirada ou inexistente: confirmar somente se ainda houver vaga
+    const hold = await this.tryAllocate(enrollment, 'confirmed', null);
+    if (hold) {
+      await this.markWaitlistEntry(enrollment.id, 'promoted');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Libera a vaga de uma matrícula (cancelamento, rejeição ou pagamento expirado)
+   * e promove o próximo aluno da lista de espera
+   * @param enrollmentId ID da matrícula
+   */
+  async releaseSeat(enrollmentId: number): Promise<void> {
+    const released = await db.execute(`
+      UPDATE course_seat_holds
+      SET status = 'released', updated_at = NOW()
+      WHERE enrollment_id = $1 AND status IN ('held', 'confirmed')
+      RETURNING course_id
+    `, [enrollmentId]);
+
+    await this.markWaitlistEntry(enrollmentId, 'removed');
+
+    for (const row of released) {
+      await this.promoteNext(row.course_id);
+    }
+  }
+
+  /**
+   * Expira reservas vencidas e promove alunos da lista de espera
+   * @returns Número de reservas expiradas
+   */
+  async expireHolds(): Promise<number> {
+    const expired = await db.execute(`
+      UPDATE course_seat_holds
+      SET status = 'expired', updated_at = NOW()
+      WHERE status = 'held' AND expires_at <= NOW()
+      RETURNING course_id, enrollment_id
+    `);
+
+    const courseIds = expired
+      .map(row => row.course_id as number)
+      .filter((courseId, index, all) => all.indexOf(courseId) === index);
+    for (const courseId of courseIds) {
+      await this.promoteNext(courseId);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Promove alunos da lista de espera enquanto houver vagas disponíveis
+   * @param courseId ID do curso
+   * @returns Entradas promovidas
+   */
+  async promoteNext(courseId: number): Promise<WaitlistEntry[]> {
+    const promoted: WaitlistEntry[] = [];
+
+    while (true) {
+      const [row] = await db.execute(`
+        SELECT * FROM course_waitlist
+        WHERE course_id = $1 AND status = 'waiting'
+        ORDER BY position ASC, id ASC
+        LIMIT 1
+      `, [courseId]);
+
+      if (!row) break;
+
+      const entry = this.mapWaitlistEntry(row);
+      const expiresAt = new Date(Date.now() + WAITLIST_PROMOTION_HOLD_HOURS * 60 * 60 * 1000);
+      const hold = await this.tryAllocate(entry, 'held', expiresAt);
+      if (!hold) break;
+
+      await this.markWaitlistEntry(entry.enrollmentId, 'promoted');
+      promoted.push(entry);
+
+      await this.notifyPromotion(entry, expiresAt).catch(error => {
+        console.error(`Erro ao notificar promoção da matrícula ${entry.enrollmentId}:`, error);
+      });
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Lista a fila de espera de um curso
+   * @param courseId ID do curso
+   */
+  async getWaitlist(courseId: number): Promise<WaitlistEntry[]> {
+    const rows = await db.execute(`
+      SELECT * FROM course_waitlist
+      WHERE course_id = $1 AND status = 'waiting'
+      ORDER BY position ASC, id ASC
+    `, [courseId]);
+
+    return rows.map(row => this.mapWaitlistEntry(row));
+  }
+
+  /**
+   * Remove uma entrada da lista de espera
+   * @param courseId ID do curso
+   * @param entryId ID da entrada
+   * @returns true se a entrada foi removida
+   */
+  async removeFromWaitlist(courseId: number, entryId: number): Promise<boolean> {
+    const rows = await db.execute(`
+      UPDATE course_waitlist SET status = 'removed'
+      WHERE id = $1 AND course_id = $2 AND status = 'waiting'
+      RETURNING id
+    `, [entryId, courseId]);
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Obtém a situação da vaga de uma matrícula
+   * @param enrollmentId ID da matrícula
+   */
+  async getEnrollmentSeat(enrollmentId: number): Promise<SeatRequestResult | null> {
+    const hold = await this.getActiveHold(enrollmentId);
+    if (hold) {
+      return { status: hold.status === 'confirmed' ? 'confirmed' : 'held', hold, expiresAt: hold.expiresAt };
+    }
+
+    const entry = await this.getWaitlistEntry(enrollmentId);
+    if (entry) {
+      return { status: 'waitlisted', waitlistEntry: entry, waitlistPosition: await this.getWaitlistPosition(entry) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Tenta ocupar uma vaga do curso, respeitando o limite de alunos.
+   * O curso fica bloqueado na transação para que duas reservas simultâneas
+   * não contem as mesmas vagas livres.
+   */
+  private async tryAllocate(
+    enrollment: { courseId: number; schoolId: number; studentId: number; id?: number; enrollmentId?: number },
+    status: 'held' | 'confirmed',
+    expiresAt: Date | null
+  ): Promise<SeatHold | null> {
+    const enrollmentId = enrollment.enrollmentId ?? enrollment.id;
+
+    const row = await db.transaction(async tx => {
+      await tx.execute(`SELECT id FROM courses WHERE id = $1 FOR UPDATE`, [enrollment.courseId]);
+
+      const [inserted] = await tx.execute(`
+        INSERT INTO course_seat_holds (course_id, enrollment_id, school_id, student_id, status, expires_at)
+        SELECT $1, $2, $3, $4, $5, $6
+        FROM courses c
+        WHERE c.id = $1 AND (
+          c.max_students IS NULL OR c.max_students > (
+            SELECT COUNT(*) FROM course_seat_holds h
+            WHERE h.course_id = $1 AND (h.status = 'confirmed' OR (h.status = 'held' AND h.expires_at > NOW()))
+          )
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING *
+      `, [enrollment.courseId, enrollmentId, enrollment.schoolId, enrollment.studentId, status, expiresAt]);
+
+      return inserted;
+    });
+
+    return row ? this.mapHold(row) : null;
+  }
+
+  /**
+   * Coloca a matrícula no fim da lista de espera. O bloqueio do curso serializa
+   * o cálculo da próxima posição
+   */
+  private async addToWaitlist(enrollment: { id: number; courseId: number; schoolId: number; studentId: number }): Promise<WaitlistEntry> {
+    const row = await db.transaction(async tx => {
+      await tx.execute(`SELECT id FROM courses WHERE id = $1 FOR UPDATE`, [enrollment.courseId]);
+
+      const [inserted] = await tx.execute(`
+        INSERT INTO course_waitlist (course_id, enrollment_id, school_id, student_id, position)
+        SELECT $1, $2, $3, $4, COALESCE(MAX(position), 0) + 1
+        FROM course_waitlist WHERE course_id = $1
+        RETURNING *
+      `, [enrollment.courseId, enrollment.id, enrollment.schoolId, enrollment.studentId]);
+
+      return inserted;
+    });
+
+    await sendSchoolNotification(enrollment.schoolId, {
+      title: 'Curso lotado',
+      message: `A matrícula #${enrollment.id} entrou na lista de espera`,
+      type: 'enrollment',
+      relatedId: enrollment.id,
+      relatedType: 'enrollment',
+    });
+
+    return this.mapWaitlistEntry(row);
+  }
+
+  private async getActiveHold(enrollmentId: number): Promise<SeatHold | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM course_seat_holds
+      WHERE enrollment_id = $1 AND (status = 'confirmed' OR (status = 'held' AND expires_at > NOW()))
+    `, [enrollmentId]);
+
+    return row ? this.mapHold(row) : null;
+  }
+
+  private async getWaitlistEntry(enrollmentId: number): Promise<WaitlistEntry | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM course_waitlist WHERE enrollment_id = $1 AND status = 'waiting'
+    `, [enrollmentId]);
+
+    return row ? this.mapWaitlistEntry(row) : null;
+  }
+
+  private async getWaitlistPosition(entry: WaitlistEntry): Promise<number> {
+    const [row] = await db.execute(`
+      SELECT COUNT(*) AS ahead FROM course_waitlist
+      WHERE course_id = $1 AND status = 'waiting' AND (position < $2 OR (position = $2 AND id < $3))
+    `, [entry.courseId, entry.position, entry.id]);
+
+    return parseInt(row?.ahead || '0') + 1;
+  }
+
+  private async markWaitlistEntry(enrollmentId: number, status: WaitlistStatus): Promise<void> {
+    await db.execute(`
+      UPDATE course_waitlist
+      SET status = $2, promoted_at = CASE WHEN $2 = 'promoted' THEN NOW() ELSE promoted_at END
+      WHERE enrollment_id = $1 AND status = 'waiting'
+    `, [enrollmentId, status]);
+  }
+
+  /**
+   * Avisa o aluno promovido da lista de espera pelo painel, WhatsApp e e-mail
+   */
+  private async notifyPromotion(entry: WaitlistEntry, expiresAt: Date): Promise<void> {
+    const recipients = await guardianService.getNotificationRecipients(entry.studentId);
+    const course = await storage.getCourse(entry.courseId);
+    const courseName = course?.name || 'o curso';
+    const deadline = expiresAt.toLocaleString('pt-BR');
+    const message = `Uma vaga foi liberada em ${courseName}! Conclua a matrícula até ${deadline} para garantir a vaga.`;
+
+    await sendSchoolNotification(entry.schoolId, {
+      title: 'Aluno promovido da lista de espera',
+      message: `A matrícula #${entry.enrollmentId} recebeu uma vaga em ${courseName}`,
+      type: 'enrollment',
+      relatedId: entry.enrollmentId,
+      relatedType: 'enrollment',
+    });
+
+    const [instance] = await db.execute(`
+      SELECT instance_key FROM whatsapp_instances WHERE school_id = $1 ORDER BY id LIMIT 1
+    `, [entry.schoolId]);
+
+    // Aluno e responsáveis recebem o aviso
+    for (const recipient of recipients) {
+      await sendUserNotification(recipient.userId, {
+        title: 'Vaga disponível',
+        message,
+        type: 'enrollment',
+        relatedId: entry.enrollmentId,
+        relatedType: 'enrollment',
+      });
+
+      // Quem recusou o canal recebe só o aviso do painel
+      if (recipient.phone && instance && await consentService.canSend(entry.schoolId, 'whatsapp', recipient.phone)) {
+        await getEvolutionApiService().sendTextMessage(instance.instance_key, recipient.phone, `Olá, ${recipient.fullName}! ${message}`);
+      }
+
+      if (recipient.email && await consentService.canSend(entry.schoolId, 'email', recipient.email)) {
+        await emailService.sendEmail({
+          to: recipient.email,
+          subject: `Vaga disponível em ${courseName}`,
+          html: `<p>Olá, ${recipient.fullName}!</p><p>${message}</p>`,
+        });
+      }
+    }
+  }
+
+  private mapHold(row: any): SeatHold {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      enrollmentId: row.enrollment_id,
+      schoolId: row.school_id,
+      studentId: row.student_id,
+      status: row.status,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapWaitlistEntry(row: any): WaitlistEntry {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      enrollmentId: row.enrollment_id,
+      schoolId: row.school_id,
+      studentId: row.student_id,
+      position: row.position,
+      status: row.status,
+      createdAt: row.created_at,
+      promotedAt: row.promoted_at,
+    };
+  }
+}
+
+export const courseSeatService = new CourseSeatService();
+export default courseSeatService;
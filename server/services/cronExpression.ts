@@ -0,0 +1,216 @@
+/**
+ * Expressões cron de cinco campos (minuto, hora, dia do mês, mês, dia da
+ * semana) usadas nos agendamentos de sincronização de integrações.
+ * Os horários são avaliados no fuso das escolas (SYNC_TIMEZONE)
+ */
+
+const DEFAULT_TIMEZONE = process.env.SYNC_TIMEZONE || 'America/Sao_Paulo';
+
+// Limite de busca da próxima execução (expressões como "0 0 30 2 *" nunca ocorrem)
+const MAX_SEARCH_YEARS = 5;
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface CronField {
+  values: Set<number>;
+  // Campo diferente de "*" (relevante para a regra dia do mês OU dia da semana)
+  restricted: boolean;
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+function parseField(value: string, min: number, max: number, names: string[] = [], nameOffset = 0): CronField {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names.indexOf(token.toUpperCase());
+    const number = nameIndex >= 0 ? nameIndex + nameOffset : /^\d+$/.test(token) ? parseInt(token, 10) : NaN;
+    if (isNaN(number) || number < min || number > max) {
+      throw new Error(`Valor "${token}" fora do intervalo ${min}-${max}`);
+    }
+    return number;
+  };
+
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!step || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Incremento inválido em "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) throw new Error(`Intervalo inválido em "${part}"`);
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let current = start; current <= end; current += step) {
+      values.add(current);
+    }
+  }
+
+  return { values, restricted: value !== '*' };
+}
+
+/**
+ * Interpreta uma expressão cron (ou macro como @daily)
+ * @param expression Expressão com cinco campos
+ * @throws Error quando a expressão é inválida
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Expressão cron deve ter cinco campos: minuto hora dia mês dia-da-semana');
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+  // 7 também representa domingo
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+
+  return {
+    expression: normalized,
+    minutes: parseField(fields[0], 0, 59),
+    hours: parseField(fields[1], 0, 23),
+    daysOfMonth: parseField(fields[2], 1, 31),
+    months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+  };
+}
+
+/**
+ * Indica se a expressão é válida
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Diferença em minutos entre o horário local do fuso e UTC no instante informado
+ */
+function timezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((localAsUtc - date.getTime()) / 60000);
+}
+
+function matchesDay(schedule: CronSchedule, wallClock: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.values.has(wallClock.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.values.has(wallClock.getUTCDay());
+
+  // Como no cron tradicional: com os dois campos restritos, basta um coincidir
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Próxima execução estritamente posterior a "after"
+ * @param expression Expressão cron ou agenda já interpretada
+ * @param after Instante de referência
+ * @param timeZone Fuso em que a expressão é avaliada
+ * @returns Instante da próxima execução ou null se a expressão nunca ocorre
+ */
+export function getNextRun(
+  expression: string | CronSchedule,
+  after: Date = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const offset = timezoneOffsetMinutes(after, timeZone);
+
+  // Relógio de parede do fuso representado em UTC, sem segundos
+  const wallClock = new Date(after.getTime() + offset * 60000);
+  wallClock.setUTCSeconds(0, 0);
+  wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1);
+
+  const limit = wallClock.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wallClock.getUTCFullYear() <= limit) {
+    if (!schedule.months.values.has(wallClock.getUTCMonth() + 1)) {
+      wallClock.setUTCMonth(wallClock.getUTCMonth() + 1, 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, wallClock)) {
+      wallClock.setUTCDate(wallClock.getUTCDate() + 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(wallClock.getUTCHours())) {
+      wallClock.setUTCHours(wallClock.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(wallClock.getUTCMinutes())) {
+      wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const candidate = new Date(wallClock.getTime() - offset * 60000);
+    // Ajusta quando o fuso muda de deslocamento entre a referência e a execução
+    const candidateOffset = timezoneOffsetMinutes(candidate, timeZone);
+    return candidateOffset === offset ? candidate : new Date(wallClock.getTime() - candidateOffset * 60000);
+  }
+
+  return null;
+}
+
+/**
+ * Próximas execuções a partir de "after"
+ * @param expression Expressão cron
+ * @param count Quantidade de execuções
+ */
+export function getNextRuns(expression: string, count: number, after: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): Date[] {
+  const schedule = parseCronExpression(expression);
+  const runs: Date[] = [];
+  let reference = after;
+
+  while (runs.length < count) {
+    const next = getNextRun(schedule, reference, timeZone);
+    if (!next) break;
+    runs.push(next);
+    reference = next;
+  }
+
+  return runs;
+}
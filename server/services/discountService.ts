@@ -0,0 +1,630 @@
+/**
+ * Serviço de descontos, bolsas e cupons
+ * Regras definidas pela escola (percentual ou valor fixo, cumulativas ou exclusivas, vigência,
+ * limite de usos, cursos elegíveis e condições de irmão, filho de funcionário, bolsa ou cupom)
+ * aplicadas na geração de pagamentos e parcelas e registradas em cada pagamento
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+import { logAction } from './securityService';
+
+export const discountRuleSchema = z.object({
+  name: z.string().min(1, 'Nome da regra é obrigatório'),
+  // automatic: todos os elegíveis; sibling: irmão com matrícula ativa na escola;
+  // employee_child e scholarship: concedidos pela escola; coupon: exige código
+  kind: z.enum(['automatic', 'sibling', 'employee_child', 'scholarship', 'coupon']),
+  valueType: z.enum(['percent', 'fixed']),
+  value: z.number().positive('Valor do desconto deve ser positivo'),
+  stackable: z.boolean().default(true),
+  priority: z.number().int().default(0),
+  appliesTo: z.enum(['all', 'enrollment_fee', 'tuition']).default('all'),
+  courseIds: z.array(z.number().int()).nullable().optional(),
+  couponCode: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,30}$/, 'Código inválido').nullable().optional(),
+  validFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  validUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+}).refine(rule => rule.kind !== 'coupon' || !!rule.couponCode, {
+  message: 'Cupons precisam de um código',
+  path: ['couponCode'],
+}).refine(rule => rule.valueType !== 'percent' || rule.value <= 100, {
+  message: 'Percentual não pode passar de 100%',
+  path: ['value'],
+});
+
+export type DiscountRuleData = z.infer<typeof discountRuleSchema>;
+export type DiscountKind = DiscountRuleData['kind'];
+export type DiscountTarget = 'enrollment_fee' | 'tuition';
+
+export interface DiscountRule {
+  id: number;
+  schoolId: number;
+  name: string;
+  kind: DiscountKind;
+  valueType: 'percent' | 'fixed';
+  value: number;
+  stackable: boolean;
+  priority: number;
+  appliesTo: 'all' | DiscountTarget;
+  courseIds: number[] | null;
+  couponCode: string | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  maxUses: number | null;
+  usesCount: number;
+  active: boolean;
+  createdById: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EligibilityContext {
+  courseId: number;
+  target: DiscountTarget;
+  date: Date;
+  // Regra vinculada à matrícula (bolsa/condição concedida ou cupom aplicado)
+  linked: boolean;
+  // Regra já registrada em algum pagamento da matrícula
+  used: boolean;
+  hasSibling: boolean;
+}
+
+export interface AppliedDiscount {
+  ruleId: number;
+  name: string;
+  kind: DiscountKind;
+  amount: number;
+}
+
+export interface DiscountQuote {
+  baseAmount: number;
+  discounts: AppliedDiscount[];
+  totalDiscount: number;
+  finalAmount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Converte o preço livre do curso ("R$ 1.234,56", "350", "350.00") em número
+ * @param price Preço cadastrado no curso
+ */
+export function parseCoursePrice(price: string | null | undefined): number | null {
+  if (!price) return null;
+
+  let normalized = price.replace(/[^\d.,]/g, '');
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  }
+
+  const value = parseFloat(normalized);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Verifica se uma regra vale para a cobrança
+ * @param rule Regra de desconto
+ * @param context Dados da matrícula e da cobrança
+ */
+export function isRuleEligible(
+  rule: Pick<DiscountRule, 'kind' | 'active' | 'appliesTo' | 'courseIds' | 'validFrom' | 'validUntil' | 'maxUses' | 'usesCount'>,
+  context: EligibilityContext
+): boolean {
+  if (!rule.active) return false;
+  if (rule.appliesTo !== 'all' && rule.appliesTo !== context.target) return false;
+  if (rule.courseIds && rule.courseIds.length > 0 && !rule.courseIds.includes(context.courseId)) return false;
+
+  const day = context.date.toISOString().slice(0, 10);
+  if (rule.validFrom && day < rule.validFrom) return false;
+  if (rule.validUntil && day > rule.validUntil) return false;
+
+  // O limite de usos conta matrículas; quem já usou continua com o desconto
+  if (rule.maxUses !== null && rule.usesCount >= rule.maxUses && !context.linked && !context.used) return false;
+
+  switch (rule.kind) {
+    case 'automatic':
+      return true;
+    case 'sibling':
+      return context.hasSibling;
+    default:
+      return context.linked;
+  }
+}
+
+/**
+ * Aplica as regras elegíveis ao valor. Regras cumulativas são aplicadas em sequência
+ * (por prioridade) sobre o saldo; uma regra exclusiva substitui as demais quando
+ * resulta em desconto maior.
+ * @param baseAmount Valor original
+ * @param rules Regras elegíveis
+ */
+export function applyDiscounts(
+  baseAmount: number,
+  rules: Array<Pick<DiscountRule, 'id' | 'name' | 'kind' | 'valueType' | 'value' | 'stackable' | 'priority'>>
+): DiscountQuote {
+  const compute = (selected: typeof rules): DiscountQuote => {
+    let remaining = round(baseAmount);
+    const discounts: AppliedDiscount[] = [];
+
+    for (const rule of [...selected].sort((a, b) => b.priority - a.priority || a.id - b.id)) {
+      const amount = rule.valueType === 'percent'
+        ? round(remaining * rule.value / 100)
+        : round(Math.min(rule.value, remaining));
+
+      if (amount <= 0) continue;
+
+      remaining = round(remaining - amount);
+      discounts.push({ ruleId: rule.id, name: rule.name, kind: rule.kind, amount });
+    }
+
+    return {
+      baseAmount: round(baseAmount),
+      discounts,
+      totalDiscount: round(baseAmount - remaining),
+      finalAmount: remaining,
+    };
+  };
+
+  const options = [
+    compute(rules.filter(rule => rule.stackable)),
+    ...rules.filter(rule => !rule.stackable).map(rule => compute([rule])),
+  ];
+
+  return options.reduce((best, option) => option.totalDiscount > best.totalDiscount ? option : best);
+}
+
+class DiscountService {
+  /**
+   * Cria as tabelas de regras, vínculos com matrículas e descontos aplicados
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS discount_rules (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        value_type TEXT NOT NULL,
+        value DECIMAL(10, 2) NOT NULL,
+        stackable BOOLEAN NOT NULL DEFAULT TRUE,
+        priority INTEGER NOT NULL DEFAULT 0,
+        applies_to TEXT NOT NULL DEFAULT 'all',
+        course_ids JSONB,
+        coupon_code TEXT,
+        valid_from DATE,
+        valid_until DATE,
+        max_uses INTEGER,
+        uses_count INTEGER NOT NULL DEFAULT 0,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS discount_rules_coupon_idx
+      ON discount_rules(school_id, coupon_code) WHERE coupon_code IS NOT NULL AND active = TRUE
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_discounts (
+        id SERIAL PRIMARY KEY,
+        enrollment_id INTEGER NOT NULL,
+        rule_id INTEGER NOT NULL REFERENCES discount_rules(id),
+        granted_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (enrollment_id, rule_id)
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS payment_discounts (
+        id SERIAL PRIMARY KEY,
+        payment_id INTEGER NOT NULL,
+        enrollment_id INTEGER,
+        rule_id INTEGER NOT NULL,
+        rule_name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS payment_discounts_payment_idx ON payment_discounts(payment_id)
+    `);
+  }
+
+  /**
+   * Lista as regras ativas da escola
+   * @param schoolId ID da escola
+   */
+  async listRules(schoolId: number): Promise<DiscountRule[]> {
+    const rows = await db.execute(`
+      SELECT * FROM discount_rules
+      WHERE school_id = $1 AND active = TRUE
+      ORDER BY priority DESC, name
+    `, [schoolId]);
+
+    return rows.map(row => this.mapRule(row));
+  }
+
+  /**
+   * Obtém uma regra
+   * @param id ID da regra
+   */
+  async getRule(id: number): Promise<DiscountRule | null> {
+    const [row] = await db.execute(`SELECT * FROM discount_rules WHERE id = $1`, [id]);
+    return row ? this.mapRule(row) : null;
+  }
+
+  /**
+   * Cria uma regra de desconto
+   * @param schoolId ID da escola
+   * @param data Regra
+   * @param userId Usuário que criou a regra
+   */
+  async createRule(schoolId: number, data: DiscountRuleData, userId: number): Promise<DiscountRule> {
+    const [row] = await db.execute(`
+      INSERT INTO discount_rules (
+        school_id, name, kind, value_type, value, stackable, priority, applies_to,
+        course_ids, coupon_code, valid_from, valid_until, max_uses, created_by_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING *
+    `, [schoolId, ...this.ruleParams(data), userId]);
+
+    if (!row) {
+      throw new Error('Erro ao criar regra de desconto: código de cupom já utilizado');
+    }
+
+    await logAction(userId, 'discount_rule_created', 'discount_rule', String(row.id), { schoolId, kind: data.kind });
+
+    return this.mapRule(row);
+  }
+
+  /**
+   * Atualiza uma regra. Descontos já registrados em pagamentos não mudam.
+   * @param id ID da regra
+   * @param data Regra
+   * @param userId Usuário que alterou a regra
+   */
+  async updateRule(id: number, data: DiscountRuleData, userId: number): Promise<DiscountRule | null> {
+    const [row] = await db.execute(`
+      UPDATE discount_rules SET
+        name = $2, kind = $3, value_type = $4, value = $5, stackable = $6, priority = $7,
+        applies_to = $8, course_ids = $9, coupon_code = $10, valid_from = $11, valid_until = $12,
+        max_uses = $13, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, ...this.ruleParams(data)]);
+
+    if (!row) return null;
+
+    await logAction(userId, 'discount_rule_updated', 'discount_rule', String(id), data);
+
+    return this.mapRule(row);
+  }
+
+  /**
+   * Desativa uma regra
+   * @param id ID da regra
+   * @param userId Usuário que desativou a regra
+   */
+  async deactivateRule(id: number, userId: number): Promise<void> {
+    await db.execute(`UPDATE discount_rules SET active = FALSE, updated_at = NOW() WHERE id = $1`, [id]);
+    await logAction(userId, 'discount_rule_deactivated', 'discount_rule', String(id));
+  }
+
+  /**
+   * Regras vinculadas à matrícula (bolsas, condições concedidas e cupons)
+   * @param enrollmentId ID da matrícula
+   */
+  async getEnrollmentRules(enrollmentId: number): Promise<DiscountRule[]> {
+    const rows = await db.execute(`
+      SELECT dr.* FROM enrollment_discounts ed
+      JOIN discount_rules dr ON dr.id = ed.rule_id
+      WHERE ed.enrollment_id = $1
+      ORDER BY ed.created_at
+    `, [enrollmentId]);
+
+    return rows.map(row => this.mapRule(row));
+  }
+
+  /**
+   * Concede à matrícula uma bolsa ou condição verificada pela escola
+   * @param enrollmentId ID da matrícula
+   * @param ruleId ID da regra
+   * @param userId Usuário que concedeu
+   */
+  async grantRule(enrollmentId: number, ruleId: number, userId: number): Promise<{ success: boolean; message: string }> {
+    const rule = await this.getRule(ruleId);
+    if (!rule || !rule.active || (rule.kind !== 'scholarship' && rule.kind !== 'employee_child')) {
+      return { success: false, message: 'Regra não pode ser concedida manualmente' };
+    }
+
+    const linked = await this.linkRule(enrollmentId, rule, userId);
+    if (!linked) {
+      return { success: false, message: 'Limite de concessões desta regra atingido' };
+    }
+
+    await logAction(userId, 'discount_granted', 'enrollment', String(enrollmentId), { ruleId });
+
+    return { success: true, message: 'Desconto concedido' };
+  }
+
+  /**
+   * Remove da matrícula uma regra concedida ou cupom aplicado.
+   * Pagamentos já gerados mantêm o desconto registrado.
+   * @param enrollmentId ID da matrícula
+   * @param ruleId ID da regra
+   * @param userId Usuário que removeu
+   */
+  async revokeRule(enrollmentId: number, ruleId: number, userId: number): Promise<void> {
+    const removed = await db.execute(`
+      DELETE FROM enrollment_discounts WHERE enrollment_id = $1 AND rule_id = $2 RETURNING id
+    `, [enrollmentId, ruleId]);
+
+    if (removed.length > 0) {
+      await db.execute(`
+        UPDATE discount_rules SET uses_count = GREATEST(uses_count - 1, 0) WHERE id = $1
+      `, [ruleId]);
+      await logAction(userId, 'discount_revoked', 'enrollment', String(enrollmentId), { ruleId });
+    }
+  }
+
+  /**
+   * Aplica um cupom à matrícula
+   * @param enrollment Matrícula (id, escola e curso)
+   * @param code Código do cupom
+   * @param userId Usuário que aplicou (opcional)
+   */
+  async applyCoupon(
+    enrollment: { id: number; schoolId: number; courseId: number },
+    code: string,
+    userId?: number
+  ): Promise<{ success: boolean; message: string }> {
+    const [row] = await db.execute(`
+      SELECT * FROM discount_rules
+      WHERE school_id = $1 AND coupon_code = $2 AND kind = 'coupon' AND active = TRUE
+    `, [enrollment.schoolId, code.trim().toUpperCase()]);
+
+    if (!row) {
+      return { success: false, message: 'Cupom inválido' };
+    }
+
+    const rule = this.mapRule(row);
+    const eligible = isRuleEligible(rule, {
+      courseId: enrollment.courseId,
+      target: 'enrollment_fee',
+      date: new Date(),
+      linked: true,
+      used: false,
+      hasSibling: false,
+    }) || isRuleEligible(rule, {
+      courseId: enrollment.courseId,
+      target: 'tuition',
+      date: new Date(),
+      linked: true,
+      used: false,
+      hasSibling: false,
+    });
+
+    if (!eligible) {
+      return { success: false, message: 'Cupom expirado ou não válido para este curso' };
+    }
+
+    const linked = await this.linkRule(enrollment.id, rule, userId);
+    if (!linked) {
+      return { success: false, message: 'Cupom esgotado' };
+    }
+
+    if (userId) {
+      await logAction(userId, 'coupon_applied', 'enrollment', String(enrollment.id), { ruleId: rule.id, code: rule.couponCode });
+    }
+
+    return { success: true, message: 'Cupom aplicado' };
+  }
+
+  /**
+   * Calcula os descontos de uma cobrança da matrícula
+   * @param enrollmentId ID da matrícula
+   * @param baseAmount Valor original
+   * @param target Taxa de matrícula ou mensalidade
+   * @param date Data de referência (padrão: agora)
+   */
+  async quoteForEnrollment(
+    enrollmentId: number,
+    baseAmount: number,
+    target: DiscountTarget,
+    date: Date = new Date()
+  ): Promise<DiscountQuote> {
+    const [enrollment] = await db.execute(`
+      SELECT id, student_id, school_id, course_id FROM enrollments WHERE id = $1
+    `, [enrollmentId]);
+
+    if (!enrollment) {
+      return applyDiscounts(baseAmount, []);
+    }
+
+    const rows = await db.execute(`
+      SELECT dr.*,
+        EXISTS (SELECT 1 FROM enrollment_discounts ed WHERE ed.rule_id = dr.id AND ed.enrollment_id = $2) AS linked,
+        EXISTS (SELECT 1 FROM payment_discounts pd WHERE pd.rule_id = dr.id AND pd.enrollment_id = $2) AS used
+      FROM discount_rules dr
+      WHERE dr.school_id = $1 AND dr.active = TRUE
+    `, [enrollment.school_id, enrollmentId]);
+
+    const hasSibling = rows.some(row => row.kind === 'sibling')
+      ? await this.hasEnrolledSibling(enrollment.student_id, enrollment.school_id)
+      : false;
+
+    const eligible = rows
+      .filter(row => isRuleEligible(this.mapRule(row), {
+        courseId: enrollment.course_id,
+        target,
+        date,
+        linked: row.linked,
+        used: row.used,
+        hasSibling,
+      }))
+      .map(row => this.mapRule(row));
+
+    return applyDiscounts(baseAmount, eligible);
+  }
+
+  /**
+   * Registra no pagamento os descontos aplicados
+   * @param paymentId ID do pagamento
+   * @param enrollmentId ID da matrícula
+   * @param discounts Descontos da cotação
+   * @param share Fração da cotação correspondente a este pagamento (parcelamentos)
+   * @throws Quando uma regra usada pela primeira vez já atingiu o limite de usos
+   */
+  async recordApplication(paymentId: number, enrollmentId: number, discounts: AppliedDiscount[], share: number = 1): Promise<void> {
+    for (const discount of discounts) {
+      // Regras automáticas contam um uso na primeira cobrança da matrícula
+      const [previous] = await db.execute(`
+        SELECT 1 FROM payment_discounts WHERE rule_id = $1 AND enrollment_id = $2
+        UNION
+        SELECT 1 FROM enrollment_discounts WHERE rule_id = $1 AND enrollment_id = $2
+      `, [discount.ruleId, enrollmentId]);
+
+      if (!previous) {
+        // Conta o uso só enquanto houver saldo: duas cobranças simultâneas não ultrapassam o limite
+        const [reserved] = await db.execute(`
+          UPDATE discount_rules SET uses_count = uses_count + 1
+          WHERE id = $1 AND (max_uses IS NULL OR uses_count < max_uses)
+          RETURNING id
+        `, [discount.ruleId]);
+
+        if (!reserved) {
+          throw new Error(`O desconto "${discount.name}" atingiu o limite de usos`);
+        }
+      }
+
+      await db.execute(`
+        INSERT INTO payment_discounts (payment_id, enrollment_id, rule_id, rule_name, kind, amount)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [paymentId, enrollmentId, discount.ruleId, discount.name, discount.kind, round(discount.amount * share)]);
+    }
+  }
+
+  /**
+   * Receita da escola por regra de desconto no período
+   * @param schoolId ID da escola
+   * @param startDate Início do período
+   * @param endDate Fim do período
+   */
+  async getDiscountBreakdown(schoolId: number, startDate: Date, endDate: Date): Promise<any[]> {
+    const rows = await db.execute(`
+      SELECT pd.rule_id, pd.rule_name, pd.kind,
+        COUNT(DISTINCT pd.payment_id) AS payments,
+        SUM(pd.amount) AS discount_total,
+        SUM(CASE WHEN p.status = 'paid' THEN pd.amount ELSE 0 END) AS discount_paid
+      FROM payment_discounts pd
+      JOIN payments p ON p.id = pd.payment_id
+      WHERE p.school_id = $1 AND p.created_at BETWEEN $2 AND $3
+      GROUP BY pd.rule_id, pd.rule_name, pd.kind
+      ORDER BY discount_total DESC
+    `, [schoolId, startDate.toISOString(), endDate.toISOString()]);
+
+    return rows.map(row => ({
+      ruleId: row.rule_id,
+      name: row.rule_name,
+      kind: row.kind,
+      payments: parseInt(row.payments),
+      discountTotal: parseFloat(row.discount_total),
+      discountPaid: parseFloat(row.discount_paid),
+    }));
+  }
+
+  /**
+   * Vincula a regra à matrícula respeitando o limite de usos
+   * @returns false quando o limite foi atingido
+   */
+  private async linkRule(enrollmentId: number, rule: DiscountRule, userId?: number): Promise<boolean> {
+    const [existing] = await db.execute(`
+      SELECT 1 FROM enrollment_discounts WHERE enrollment_id = $1 AND rule_id = $2
+    `, [enrollmentId, rule.id]);
+
+    if (existing) return true;
+
+    const [reserved] = await db.execute(`
+      UPDATE discount_rules SET uses_count = uses_count + 1
+      WHERE id = $1 AND (max_uses IS NULL OR uses_count < max_uses)
+      RETURNING id
+    `, [rule.id]);
+
+    if (!reserved) return false;
+
+    await db.execute(`
+      INSERT INTO enrollment_discounts (enrollment_id, rule_id, granted_by_id)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (enrollment_id, rule_id) DO NOTHING
+    `, [enrollmentId, rule.id, userId || null]);
+
+    return true;
+  }
+
+  /**
+   * Verifica se o aluno tem irmão (mesmo responsável) com matrícula ativa na escola
+   */
+  private async hasEnrolledSibling(studentId: number, schoolId: number): Promise<boolean> {
+    const [row] = await db.execute(`
+      SELECT 1 FROM guardian_students gs
+      JOIN guardian_students sibling ON sibling.guardian_id = gs.guardian_id AND sibling.student_id <> gs.student_id
+      JOIN enrollments e ON e.student_id = sibling.student_id
+      WHERE gs.student_id = $1 AND e.school_id = $2 AND e.status NOT IN ('rejected', 'canceled')
+      LIMIT 1
+    `, [studentId, schoolId]);
+
+    return !!row;
+  }
+
+  private ruleParams(data: DiscountRuleData): any[] {
+    return [
+      data.name,
+      data.kind,
+      data.valueType,
+      data.value,
+      data.stackable,
+      data.priority,
+      data.appliesTo,
+      data.courseIds && data.courseIds.length > 0 ? JSON.stringify(data.courseIds) : null,
+      data.kind === 'coupon' ? data.couponCode : null,
+      data.validFrom || null,
+      data.validUntil || null,
+      data.maxUses || null,
+    ];
+  }
+
+  private mapRule(row: any): DiscountRule {
+    const toDay = (value: any) => value ? new Date(value).toISOString().slice(0, 10) : null;
+
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      kind: row.kind,
+      valueType: row.value_type,
+      value: parseFloat(row.value),
+      stackable: row.stackable,
+      priority: row.priority,
+      appliesTo: row.applies_to,
+      courseIds: row.course_ids,
+      couponCode: row.coupon_code,
+      validFrom: toDay(row.valid_from),
+      validUntil: toDay(row.valid_until),
+      maxUses: row.max_uses,
+      usesCount: row.uses_count,
+      active: row.active,
+      createdById: row.created_by_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const discountService = new DiscountService();
+export default discountService;
@@ -0,0 +1,470 @@
+/**
+ * Outbox de eventos de domínio
+ * Eventos como enrollment.created, payment.paid e lead.converted são gravados
+ * na tabela domain_events junto com a escrita que os origina e distribuídos
+ * pelo despachante aos assinantes registrados (módulos de integração em tempo
+ * real, webhooks das escolas e assinantes internos), com acompanhamento de
+ * entrega por assinante e novas tentativas com backoff exponencial
+ */
+
+import { db } from '../db';
+
+export type DomainEventType =
+  | 'enrollment.created'
+  | 'enrollment.status_changed'
+  | 'document.verified'
+  | 'payment.paid'
+  | 'lead.created'
+  | 'lead.converted';
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  'enrollment.created',
+  'enrollment.status_changed',
+  'document.verified',
+  'payment.paid',
+  'lead.created',
+  'lead.converted',
+];
+
+export type DomainEventStatus = 'pending' | 'processing' | 'dispatched' | 'failed';
+
+export interface DomainEvent {
+  id: number;
+  type: DomainEventType;
+  aggregateType: string;
+  aggregateId: string;
+  schoolId: number | null;
+  payload: Record<string, any>;
+  occurredAt: Date;
+}
+
+export type DomainEventHandler = (event: DomainEvent) => Promise<unknown>;
+
+export interface DomainEventSubscriberOptions {
+  // Tipos de evento atendidos; "*" para todos
+  eventTypes: DomainEventType[] | '*';
+  maxAttempts?: number;
+}
+
+/**
+ * Evento publicado diretamente, após uma escrita já concluída
+ */
+export interface PublishedEvent {
+  type: DomainEventType;
+  aggregateType: string;
+  aggregateId: string | number;
+  schoolId?: number | null;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Evento gravado na mesma instrução da escrita. O registro alterado (com as
+ * colunas id e school_id) vira o payload; "when" filtra os registros que geram
+ * o evento, em SQL sobre o alias "changed"
+ */
+export interface OutboxEventSpec {
+  type: DomainEventType;
+  aggregateType: string;
+  when?: string;
+}
+
+interface Subscriber {
+  name: string;
+  eventTypes: DomainEventType[] | '*';
+  maxAttempts: number;
+  handler: DomainEventHandler;
+}
+
+const DISPATCH_INTERVAL = 15 * 1000;
+const DISPATCH_BATCH_SIZE = 50;
+const DEFAULT_MAX_ATTEMPTS = 8;
+
+// Backoff entre tentativas de entrega: 30s, 1, 2, 4... minutos, até 1 hora
+const RETRY_BASE_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+// Eventos em processamento há mais tempo são considerados interrompidos
+const STALE_PROCESSING_MINUTES = 10;
+
+/**
+ * Calcula o atraso da próxima tentativa de entrega
+ * @param attempts Tentativas já realizadas
+ */
+export function getDeliveryRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY, RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Monta a instrução que executa a escrita e grava os eventos no outbox de forma
+ * atômica (uma única instrução SQL)
+ * @param statement INSERT/UPDATE com RETURNING
+ * @param events Eventos gerados pelos registros retornados
+ */
+export function buildOutboxStatement(statement: string, events: OutboxEventSpec[]): string {
+  const inserts = events.map((event, index) => `
+    event_${index} AS (
+      INSERT INTO domain_events (event_type, aggregate_type, aggregate_id, school_id, payload)
+      SELECT '${event.type}', '${event.aggregateType}', changed.id::text, changed.school_id, to_jsonb(changed)
+      FROM changed
+      ${event.when ? `WHERE ${event.when}` : ''}
+    )`);
+
+  return `
+    WITH changed AS (${statement})${inserts.map(insert => `,${insert}`).join('')}
+    SELECT * FROM changed
+  `;
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+class DomainEventService {
+  private subscribers: Subscriber[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching = false;
+  private dispatchRequested = false;
+
+  /**
+   * Cria as tabelas do outbox e das entregas por assinante
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS domain_events (
+        id BIGSERIAL PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        aggregate_type TEXT NOT NULL,
+        aggregate_id TEXT NOT NULL,
+        school_id INTEGER,
+        payload JSONB NOT NULL DEFAULT '{}',
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        locked_at TIMESTAMP,
+        occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        dispatched_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_domain_events_pending
+        ON domain_events(next_attempt_at, id) WHERE status = 'pending';
+
+      CREATE INDEX IF NOT EXISTS idx_domain_events_school
+        ON domain_events(school_id, occurred_at DESC);
+
+      CREATE TABLE IF NOT EXISTS domain_event_deliveries (
+        id SERIAL PRIMARY KEY,
+        event_id BIGINT NOT NULL REFERENCES domain_events(id) ON DELETE CASCADE,
+        subscriber TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP,
+        delivered_at TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (event_id, subscriber)
+      );
+    `);
+  }
+
+  /**
+   * Registra um assinante de eventos. O nome identifica as entregas, então
+   * deve ser estável entre reinícios
+   * @param name Nome do assinante
+   * @param options Tipos de evento e limite de tentativas
+   * @param handler Função chamada para cada evento; erros geram nova tentativa
+   */
+  subscribe(name: string, options: DomainEventSubscriberOptions, handler: DomainEventHandler): void {
+    this.subscribers = this.subscribers.filter(subscriber => subscriber.name !== name);
+    this.subscribers.push({
+      name,
+      eventTypes: options.eventTypes,
+      maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      handler
+    });
+  }
+
+  /**
+   * Executa a escrita e grava os eventos na mesma instrução
+   * @param statement INSERT/UPDATE com RETURNING
+   * @param params Parâmetros da instrução
+   * @param events Eventos gerados pela escrita
+   * @returns Registros retornados pela escrita
+   */
+  async writeWithEvents(statement: string, params: any[], events: OutboxEventSpec[]): Promise<any[]> {
+    const rows = await db.execute(buildOutboxStatement(statement, events), params);
+    if (rows.length > 0) {
+      this.requestDispatch();
+    }
+    return rows;
+  }
+
+  /**
+   * Publica um evento de uma escrita já concluída
+   * @param event Evento a publicar
+   */
+  async publish(event: PublishedEvent): Promise<void> {
+    await db.execute(`
+      INSERT INTO domain_events (event_type, aggregate_type, aggregate_id, school_id, payload)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [
+      event.type,
+      event.aggregateType,
+      String(event.aggregateId),
+      event.schoolId ?? null,
+      JSON.stringify(event.payload || {})
+    ]);
+    this.requestDispatch();
+  }
+
+  /**
+   * Inicia o despacho periódico dos eventos pendentes
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.dispatchPending().catch(error => {
+        console.error('[DomainEvents] Erro no despacho de eventos:', error);
+      });
+    }, DISPATCH_INTERVAL);
+
+    console.log('[DomainEvents] Despachante de eventos iniciado');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Despacha os eventos pendentes em ordem de gravação. Eventos reservados por
+   * outro servidor são ignorados
+   * @param now Instante de referência
+   * @returns Quantidade de eventos processados
+   */
+  async dispatchPending(now: Date = new Date()): Promise<number> {
+    if (this.dispatching) {
+      this.dispatchRequested = true;
+      return 0;
+    }
+    this.dispatching = true;
+
+    try {
+      await db.execute(`
+        UPDATE domain_events SET status = 'pending', locked_at = NULL
+        WHERE status = 'processing' AND locked_at < NOW() - ($1 || ' minutes')::interval
+      `, [STALE_PROCESSING_MINUTES]);
+
+      const rows = await db.execute(`
+        UPDATE domain_events SET status = 'processing', locked_at = NOW()
+        WHERE id IN (
+          SELECT id FROM domain_events
+          WHERE status = 'pending' AND next_attempt_at <= $1
+          ORDER BY id
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `, [now, DISPATCH_BATCH_SIZE]);
+
+      const events = rows.map((row: any) => this.mapEvent(row)).sort((a, b) => a.id - b.id);
+      for (const event of events) {
+        await this.deliver(event);
+      }
+
+      return events.length;
+    } finally {
+      this.dispatching = false;
+      if (this.dispatchRequested) {
+        this.dispatchRequested = false;
+        this.requestDispatch();
+      }
+    }
+  }
+
+  /**
+   * Entrega o evento aos assinantes ainda pendentes e atualiza o estado dele:
+   * despachado quando todos receberam, falho quando algum esgotou as tentativas
+   */
+  private async deliver(event: DomainEvent): Promise<void> {
+    const deliveries = await db.execute(`
+      SELECT subscriber, status, attempts FROM domain_event_deliveries WHERE event_id = $1
+    `, [event.id]);
+    const bySubscriber = new Map<string, any>(deliveries.map((delivery: any) => [delivery.subscriber, delivery]));
+
+    const retryTimes: number[] = [];
+    let failed = false;
+
+    for (const subscriber of this.subscribers) {
+      if (subscriber.eventTypes !== '*' && !subscriber.eventTypes.includes(event.type)) continue;
+
+      const delivery = bySubscriber.get(subscriber.name);
+      if (delivery?.status === 'delivered') continue;
+      if (delivery?.status === 'failed') {
+        failed = true;
+        continue;
+      }
+
+      const attempts = (delivery?.attempts || 0) + 1;
+
+      try {
+        await subscriber.handler(event);
+        await this.saveDelivery(event.id, subscriber.name, 'delivered', attempts, null, null);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Erro desconhecido';
+        const exhausted = attempts >= subscriber.maxAttempts;
+        const nextAttemptAt = exhausted ? null : new Date(Date.now() + getDeliveryRetryDelay(attempts));
+
+        console.error(`[DomainEvents] Falha ao entregar ${event.type} #${event.id} para ${subscriber.name}:`, message);
+        await this.saveDelivery(event.id, subscriber.name, exhausted ? 'failed' : 'pending', attempts, message, nextAttemptAt);
+
+        if (nextAttemptAt) {
+          retryTimes.push(nextAttemptAt.getTime());
+        } else {
+          failed = true;
+        }
+      }
+    }
+
+    // Com entregas pendentes, o evento volta na primeira nova tentativa
+    const retryAt = retryTimes.length > 0 ? new Date(Math.min(...retryTimes)) : null;
+    const status: DomainEventStatus = retryAt ? 'pending' : failed ? 'failed' : 'dispatched';
+
+    await db.execute(`
+      UPDATE domain_events
+      SET status = $2,
+        attempts = attempts + 1,
+        next_attempt_at = COALESCE($3, next_attempt_at),
+        dispatched_at = CASE WHEN $2 = 'pending' THEN NULL ELSE NOW() END,
+        locked_at = NULL
+      WHERE id = $1
+    `, [event.id, status, retryAt]);
+  }
+
+  private async saveDelivery(
+    eventId: number,
+    subscriber: string,
+    status: 'pending' | 'delivered' | 'failed',
+    attempts: number,
+    lastError: string | null,
+    nextAttemptAt: Date | null
+  ): Promise<void> {
+    await db.execute(`
+      INSERT INTO domain_event_deliveries (event_id, subscriber, status, attempts, last_error, next_attempt_at, delivered_at)
+      VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $3 = 'delivered' THEN NOW() END)
+      ON CONFLICT (event_id, subscriber) DO UPDATE SET
+        status = EXCLUDED.status,
+        attempts = EXCLUDED.attempts,
+        last_error = EXCLUDED.last_error,
+        next_attempt_at = EXCLUDED.next_attempt_at,
+        delivered_at = EXCLUDED.delivered_at,
+        updated_at = NOW()
+    `, [eventId, subscriber, status, attempts, lastError, nextAttemptAt]);
+  }
+
+  /**
+   * Lista eventos com o estado das entregas
+   * @param filters Escola, tipo e estado do evento
+   */
+  async listEvents(filters: {
+    schoolId?: number;
+    type?: string;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<Array<DomainEvent & { status: DomainEventStatus; attempts: number; dispatchedAt: Date | null; deliveries: any[] }>> {
+    const rows = await db.execute(`
+      SELECT e.*, COALESCE(
+        (SELECT json_agg(json_build_object(
+            'subscriber', d.subscriber,
+            'status', d.status,
+            'attempts', d.attempts,
+            'lastError', d.last_error,
+            'nextAttemptAt', d.next_attempt_at,
+            'deliveredAt', d.delivered_at
+          ) ORDER BY d.subscriber)
+         FROM domain_event_deliveries d WHERE d.event_id = e.id),
+        '[]'
+      ) AS deliveries
+      FROM domain_events e
+      WHERE ($1::int IS NULL OR e.school_id = $1)
+        AND ($2::text IS NULL OR e.event_type = $2)
+        AND ($3::text IS NULL OR e.status = $3)
+      ORDER BY e.id DESC
+      LIMIT $4 OFFSET $5
+    `, [
+      filters.schoolId ?? null,
+      filters.type ?? null,
+      filters.status ?? null,
+      Math.min(filters.limit || 50, 200),
+      filters.offset || 0
+    ]);
+
+    return rows.map((row: any) => ({
+      ...this.mapEvent(row),
+      status: row.status,
+      attempts: row.attempts,
+      dispatchedAt: row.dispatched_at,
+      deliveries: row.deliveries,
+    }));
+  }
+
+  /**
+   * Reenvia um evento aos assinantes cuja entrega falhou
+   * @param eventId ID do evento
+   * @param schoolId Restringe à escola, quando informado
+   * @returns Se o evento foi reaberto
+   */
+  async retryEvent(eventId: number, schoolId?: number): Promise<boolean> {
+    const [event] = await db.execute(`
+      UPDATE domain_events
+      SET status = 'pending', next_attempt_at = NOW(), dispatched_at = NULL
+      WHERE id = $1 AND status = 'failed' AND ($2::int IS NULL OR school_id = $2)
+      RETURNING id
+    `, [eventId, schoolId ?? null]);
+
+    if (!event) return false;
+
+    await db.execute(`
+      UPDATE domain_event_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = NULL, updated_at = NOW()
+      WHERE event_id = $1 AND status = 'failed'
+    `, [eventId]);
+
+    this.requestDispatch();
+    return true;
+  }
+
+  /**
+   * Antecipa o despacho depois de uma gravação, sem aguardar o intervalo
+   */
+  private requestDispatch(): void {
+    if (!this.timer) return;
+
+    setImmediate(() => {
+      this.dispatchPending().catch(error => {
+        console.error('[DomainEvents] Erro no despacho de eventos:', error);
+      });
+    });
+  }
+
+  private mapEvent(row: any): DomainEvent {
+    const payload = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload || {};
+
+    return {
+      id: Number(row.id),
+      type: row.event_type,
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      schoolId: row.school_id,
+      // Registros gravados pelo outbox chegam com as colunas do banco
+      payload: Object.fromEntries(Object.entries(payload).map(([key, value]) => [toCamelCase(key), value])),
+      occurredAt: row.occurred_at,
+    };
+  }
+}
+
+export const domainEventService = new DomainEventService();
+export default domainEventService;
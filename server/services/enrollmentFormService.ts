@@ -0,0 +1,564 @@
+/**
+ * Serviço de formulários de matrícula
+ * Gerencia formulários dinâmicos por escola/curso, suas versões publicadas
+ * e a validação das respostas de acordo com a versão em que foram coletadas
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { securityService, logAction } from './securityService';
+import {
+  FormDefinition,
+  FormField,
+  FormRule,
+  EnrollmentForm,
+  EnrollmentFormVersion,
+  EnrollmentFormSubmission,
+  InsertEnrollmentForm
+} from '@shared/enrollment-form.schema';
+
+export interface FormValidationResult {
+  valid: boolean;
+  errors: Record<string, string>;
+  values: Record<string, any>;
+}
+
+export interface SubmitAnswersResult {
+  success: boolean;
+  message: string;
+  errors?: Record<string, string>;
+  submission?: EnrollmentFormSubmission;
+}
+
+/**
+ * Converte datas DD/MM/AAAA ou AAAA-MM-DD em Date
+ */
+function parseDateValue(value: any): Date | null {
+  if (typeof value !== 'string') return null;
+
+  const br = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (br) return new Date(parseInt(br[3]), parseInt(br[2]) - 1, parseInt(br[1]));
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+
+  return null;
+}
+
+/**
+ * Calcula a idade em anos completos a partir de uma data de nascimento
+ */
+export function calculateAge(value: any, referenceDate: Date = new Date()): number | null {
+  const birthDate = parseDateValue(value);
+  if (!birthDate) return null;
+
+  let age = referenceDate.getFullYear() - birthDate.getFullYear();
+  const monthDiff = referenceDate.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && referenceDate.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Avalia uma regra de visibilidade com base nas respostas
+ * @param rule Regra condicional
+ * @param answers Respostas atuais
+ * @returns Se a regra é satisfeita
+ */
+export function evaluateRule(rule: FormRule | undefined, answers: Record<string, any>): boolean {
+  if (!rule) return true;
+
+  if ('all' in rule) return rule.all.every(r => evaluateRule(r, answers));
+  if ('any' in rule) return rule.any.some(r => evaluateRule(r, answers));
+
+  const value = answers[rule.field];
+
+  switch (rule.operator) {
+    case 'equals':
+      return String(value ?? '') === String(rule.value ?? '');
+    case 'not_equals':
+      return String(value ?? '') !== String(rule.value ?? '');
+    case 'in':
+      return Array.isArray(rule.value) && rule.value.map(String).includes(String(value));
+    case 'greater_than':
+      return !isEmptyValue(value) && Number(value) > Number(rule.value);
+    case 'less_than':
+      return !isEmptyValue(value) && Number(value) < Number(rule.value);
+    case 'age_less_than': {
+      const age = calculateAge(value);
+      return age !== null && age < Number(rule.value);
+    }
+    case 'age_at_least': {
+      const age = calculateAge(value);
+      return age !== null && age >= Number(rule.value);
+    }
+    case 'filled':
+      return !isEmptyValue(value);
+    case 'empty':
+      return isEmptyValue(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Lista os campos visíveis do formulário para as respostas informadas
+ * @param definition Definição do formulário
+ * @param answers Respostas atuais
+ * @param sectionKeys Restringir a estas seções (opcional)
+ */
+export function getVisibleFields(
+  definition: FormDefinition,
+  answers: Record<string, any>,
+  sectionKeys?: string[]
+): FormField[] {
+  return [...definition.sections]
+    .sort((a, b) => a.order - b.order)
+    .filter(section => !sectionKeys || sectionKeys.includes(section.key))
+    .filter(section => evaluateRule(section.visibleWhen, answers))
+    .flatMap(section => section.fields.filter(field => evaluateRule(field.visibleWhen, answers)));
+}
+
+/**
+ * Valida o valor de um campo de acordo com seu tipo
+ * @returns Mensagem de erro ou null se válido
+ */
+function validateFieldValue(field: FormField, value: any): string | null {
+  switch (field.type) {
+    case 'cpf':
+      return securityService.validateCpf(String(value)).message || null;
+    case 'rg':
+      return securityService.validateRg(String(value)).message || null;
+    case 'email':
+      return securityService.validateEmail(String(value)).message || null;
+    case 'phone':
+      return securityService.validatePhone(String(value)).message || null;
+    case 'cep':
+      return /^\d{5}-?\d{3}$/.test(String(value)) ? null : 'CEP inválido';
+    case 'date': {
+      const date = parseDateValue(value);
+      if (!date) return 'Data inválida';
+      const formatted = `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+      return securityService.validateDate(formatted).message || null;
+    }
+    case 'number': {
+      const num = Number(value);
+      if (isNaN(num)) return 'Valor numérico inválido';
+      if (field.min !== undefined && num < field.min) return `O valor mínimo é ${field.min}`;
+      if (field.max !== undefined && num > field.max) return `O valor máximo é ${field.max}`;
+      return null;
+    }
+    case 'select':
+      return field.options && !field.options.includes(String(value)) ? 'Opção inválida' : null;
+    case 'multiselect': {
+      if (!Array.isArray(value)) return 'Selecione uma ou mais opções';
+      if (field.options && value.some(v => !field.options!.includes(String(v)))) return 'Opção inválida';
+      if (field.min !== undefined && value.length < field.min) return `Selecione ao menos ${field.min} opções`;
+      if (field.max !== undefined && value.length > field.max) return `Selecione no máximo ${field.max} opções`;
+      return null;
+    }
+    case 'checkbox':
+      return typeof value === 'boolean' ? null : 'Valor inválido';
+    case 'file': {
+      // Campos de arquivo guardam a referência do documento enviado
+      if (typeof value !== 'object' || !value || (!value.documentId && !value.url)) return 'Arquivo inválido';
+      return null;
+    }
+    default: {
+      const text = String(value);
+      if (field.min !== undefined && text.length < field.min) return `Informe ao menos ${field.min} caracteres`;
+      if (field.max !== undefined && text.length > field.max) return `Informe no máximo ${field.max} caracteres`;
+      return null;
+    }
+  }
+}
+
+/**
+ * Valida respostas contra a definição do formulário.
+ * Campos ocultos pelas regras condicionais são descartados e nunca são obrigatórios.
+ * @param definition Definição do formulário
+ * @param answers Respostas enviadas
+ * @param sectionKeys Validar somente estas seções (envio parcial por etapa)
+ */
+export function validateFormAnswers(
+  definition: FormDefinition,
+  answers: Record<string, any>,
+  sectionKeys?: string[]
+): FormValidationResult {
+  const errors: Record<string, string> = {};
+  const values: Record<string, any> = {};
+
+  for (const field of getVisibleFields(definition, answers, sectionKeys)) {
+    const value = answers[field.key];
+
+    if (isEmptyValue(value)) {
+      if (field.required) {
+        errors[field.key] = `${field.label} é obrigatório`;
+      }
+      continue;
+    }
+
+    const error = validateFieldValue(field, value);
+    if (error) {
+      errors[field.key] = error;
+    } else {
+      values[field.key] = value;
+    }
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors, values };
+}
+
+/**
+ * Classe responsável pelos formulários dinâmicos de matrícula
+ */
+class EnrollmentFormService {
+  /**
+   * Garante que as tabelas necessárias existam
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_forms (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        course_id INTEGER,
+        name TEXT NOT NULL,
+        current_version_id INTEGER,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_form_versions (
+        id SERIAL PRIMARY KEY,
+        form_id INTEGER NOT NULL REFERENCES enrollment_forms(id),
+        version INTEGER NOT NULL,
+        definition JSONB NOT NULL,
+        created_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (form_id, version)
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_form_submissions (
+        id SERIAL PRIMARY KEY,
+        enrollment_id INTEGER NOT NULL,
+        form_id INTEGER NOT NULL REFERENCES enrollment_forms(id),
+        form_version_id INTEGER NOT NULL REFERENCES enrollment_form_versions(id),
+        answers JSONB NOT NULL DEFAULT '{}',
+        submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (enrollment_id, form_id)
+      )
+    `);
+  }
+
+  /**
+   * Lista os formulários de uma escola
+   * @param schoolId ID da escola
+   */
+  async listForms(schoolId: number): Promise<EnrollmentForm[]> {
+    const rows = await db.execute(`
+      SELECT f.*, COALESCE(v.version, 0) AS current_version
+      FROM enrollment_forms f
+      LEFT JOIN enrollment_form_versions v ON v.id = f.current_version_id
+      WHERE f.school_id = $1 AND f.active = TRUE
+      ORDER BY f.course_id NULLS FIRST, f.name
+    `, [schoolId]);
+
+    return rows.map(row => this.mapForm(row));
+  }
+
+  /**
+   * Obtém um formulário
+   * @param formId ID do formulário
+   */
+  async getForm(formId: number): Promise<EnrollmentForm | null> {
+    const [row] = await db.execute(`
+      SELECT f.*, COALESCE(v.version, 0) AS current_version
+      FROM enrollment_forms f
+      LEFT JOIN enrollment_form_versions v ON v.id = f.current_version_id
+      WHERE f.id = $1
+    `, [formId]);
+
+    return row ? this.mapForm(row) : null;
+  }
+
+  /**
+   * Cria um formulário (sem versão publicada)
+   * @param schoolId ID da escola
+   * @param data Nome e curso opcional
+   * @param userId Usuário responsável
+   */
+  async createForm(schoolId: number, data: InsertEnrollmentForm, userId: number): Promise<EnrollmentForm> {
+    const [row] = await db.execute(`
+      INSERT INTO enrollment_forms (school_id, course_id, name)
+      VALUES ($1, $2, $3)
+      RETURNING *, 0 AS current_version
+    `, [schoolId, data.courseId ?? null, data.name]);
+
+    await logAction(userId, 'enrollment_form_created', 'enrollment_form', String(row.id), {
+      schoolId,
+      courseId: data.courseId ?? null,
+    });
+
+    return this.mapForm(row);
+  }
+
+  /**
+   * Desativa um formulário. Versões e respostas coletadas são mantidas.
+   * @param formId ID do formulário
+   * @param userId Usuário responsável
+   */
+  async archiveForm(formId: number, userId: number): Promise<void> {
+    await db.execute(`
+      UPDATE enrollment_forms SET active = FALSE, updated_at = NOW() WHERE id = $1
+    `, [formId]);
+
+    await logAction(userId, 'enrollment_form_archived', 'enrollment_form', String(formId));
+  }
+
+  /**
+   * Publica uma nova versão do formulário. Versões publicadas são imutáveis.
+   * @param formId ID do formulário
+   * @param definition Definição do formulário
+   * @param userId Usuário responsável
+   */
+  async publishVersion(formId: number, definition: FormDefinition, userId: number): Promise<EnrollmentFormVersion> {
+    const errors = this.checkDefinition(definition);
+    if (errors.length > 0) {
+      throw new Error(`Formulário inválido: ${errors.join('; ')}`);
+    }
+
+    const [row] = await db.execute(`
+      INSERT INTO enrollment_form_versions (form_id, version, definition, created_by_id)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3
+      FROM enrollment_form_versions WHERE form_id = $1
+      RETURNING *
+    `, [formId, JSON.stringify(definition), userId]);
+
+    await db.execute(`
+      UPDATE enrollment_forms SET current_version_id = $2, updated_at = NOW() WHERE id = $1
+    `, [formId, row.id]);
+
+    await logAction(userId, 'enrollment_form_published', 'enrollment_form', String(formId), {
+      version: row.version,
+    });
+
+    return this.mapVersion(row);
+  }
+
+  /**
+   * Lista as versões de um formulário
+   * @param formId ID do formulário
+   */
+  async listVersions(formId: number): Promise<EnrollmentFormVersion[]> {
+    const rows = await db.execute(`
+      SELECT * FROM enrollment_form_versions WHERE form_id = $1 ORDER BY version DESC
+    `, [formId]);
+
+    return rows.map(row => this.mapVersion(row));
+  }
+
+  /**
+   * Obtém uma versão específica
+   * @param versionId ID da versão
+   */
+  async getVersion(versionId: number): Promise<EnrollmentFormVersion | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM enrollment_form_versions WHERE id = $1
+    `, [versionId]);
+
+    return row ? this.mapVersion(row) : null;
+  }
+
+  /**
+   * Resolve o formulário que deve ser usado por uma matrícula.
+   * Se a matrícula já tem respostas, continua usando a versão em que começou;
+   * caso contrário usa o formulário do curso ou, na falta dele, o da escola.
+   * @param enrollmentId ID da matrícula
+   */
+  async getFormForEnrollment(enrollmentId: number): Promise<{
+    form: EnrollmentForm;
+    version: EnrollmentFormVersion;
+    submission: EnrollmentFormSubmission | null;
+  } | null> {
+    const submission = await this.getSubmission(enrollmentId);
+    if (submission) {
+      const form = await this.getForm(submission.formId);
+      const version = await this.getVersion(submission.formVersionId);
+      if (form && version) return { form, version, submission };
+    }
+
+    const enrollment = await storage.getEnrollment(enrollmentId);
+    if (!enrollment) return null;
+
+    const [row] = await db.execute(`
+      SELECT f.*, v.version AS current_version
+      FROM enrollment_forms f
+      JOIN enrollment_form_versions v ON v.id = f.current_version_id
+      WHERE f.school_id = $1 AND f.active = TRUE AND (f.course_id = $2 OR f.course_id IS NULL)
+      ORDER BY f.course_id NULLS LAST
+      LIMIT 1
+    `, [enrollment.schoolId, enrollment.courseId]);
+
+    if (!row) return null;
+
+    const form = this.mapForm(row);
+    const version = await this.getVersion(form.currentVersionId!);
+    return version ? { form, version, submission: null } : null;
+  }
+
+  /**
+   * Valida e grava respostas de uma matrícula
+   * @param enrollmentId ID da matrícula
+   * @param answers Respostas indexadas pela chave do campo
+   * @param options Seções sendo enviadas (envio por etapa) e versão esperada
+   */
+  async submitAnswers(
+    enrollmentId: number,
+    answers: Record<string, any>,
+    options: { sections?: string[]; formVersionId?: number } = {}
+  ): Promise<SubmitAnswersResult> {
+    const resolved = await this.getFormForEnrollment(enrollmentId);
+    if (!resolved) {
+      return { success: false, message: 'Nenhum formulário publicado para esta matrícula' };
+    }
+
+    const { form, version, submission } = resolved;
+    if (options.formVersionId && options.formVersionId !== version.id) {
+      return {
+        success: false,
+        message: `As respostas pertencem à versão ${version.version} do formulário; recarregue o formulário`,
+      };
+    }
+
+    // Respostas anteriores participam das regras condicionais das novas seções
+    const merged = { ...(submission?.answers || {}), ...answers };
+    const result = validateFormAnswers(version.definition, merged, options.sections);
+
+    if (!result.valid) {
+      return { success: false, message: 'Respostas inválidas', errors: result.errors };
+    }
+
+    // Manter somente campos visíveis em todo o formulário
+    const visibleKeys = new Set(getVisibleFields(version.definition, merged).map(f => f.key));
+    const stored = Object.fromEntries(Object.entries(merged).filter(([key]) => visibleKeys.has(key)));
+
+    const [row] = await db.execute(`
+      INSERT INTO enrollment_form_submissions (enrollment_id, form_id, form_version_id, answers)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (enrollment_id, form_id) DO UPDATE SET
+        answers = EXCLUDED.answers,
+        updated_at = NOW()
+      RETURNING *
+    `, [enrollmentId, form.id, version.id, JSON.stringify(stored)]);
+
+    return { success: true, message: 'Respostas salvas com sucesso', submission: this.mapSubmission(row) };
+  }
+
+  /**
+   * Obtém as respostas de uma matrícula
+   * @param enrollmentId ID da matrícula
+   */
+  async getSubmission(enrollmentId: number): Promise<EnrollmentFormSubmission | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM enrollment_form_submissions
+      WHERE enrollment_id = $1
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `, [enrollmentId]);
+
+    return row ? this.mapSubmission(row) : null;
+  }
+
+  /**
+   * Verifica a consistência da definição (chaves únicas e regras apontando para campos existentes)
+   */
+  private checkDefinition(definition: FormDefinition): string[] {
+    const errors: string[] = [];
+    const keys = new Set<string>();
+    const sectionKeys = new Set<string>();
+
+    for (const section of definition.sections) {
+      if (sectionKeys.has(section.key)) errors.push(`Seção duplicada: ${section.key}`);
+      sectionKeys.add(section.key);
+
+      for (const field of section.fields) {
+        if (keys.has(field.key)) errors.push(`Campo duplicado: ${field.key}`);
+        keys.add(field.key);
+
+        if ((field.type === 'select' || field.type === 'multiselect') && !field.options?.length) {
+          errors.push(`O campo ${field.key} precisa de opções`);
+        }
+      }
+    }
+
+    const collectFields = (rule?: FormRule): string[] => {
+      if (!rule) return [];
+      if ('all' in rule) return rule.all.flatMap(collectFields);
+      if ('any' in rule) return rule.any.flatMap(collectFields);
+      return [rule.field];
+    };
+
+    for (const section of definition.sections) {
+      const referenced = [
+        ...collectFields(section.visibleWhen),
+        ...section.fields.flatMap(f => collectFields(f.visibleWhen)),
+      ];
+      for (const key of referenced) {
+        if (!keys.has(key)) errors.push(`Regra condicional referencia campo inexistente: ${key}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private mapForm(row: any): EnrollmentForm {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      courseId: row.course_id,
+      name: row.name,
+      currentVersionId: row.current_version_id,
+      currentVersion: parseInt(row.current_version || '0'),
+      active: row.active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapVersion(row: any): EnrollmentFormVersion {
+    return {
+      id: row.id,
+      formId: row.form_id,
+      version: row.version,
+      definition: row.definition,
+      createdById: row.created_by_id,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapSubmission(row: any): EnrollmentFormSubmission {
+    return {
+      id: row.id,
+      enrollmentId: row.enrollment_id,
+      formId: row.form_id,
+      formVersionId: row.form_version_id,
+      answers: row.answers,
+      submittedAt: row.submitted_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const enrollmentFormService = new EnrollmentFormService();
+export default enrollmentFormService;
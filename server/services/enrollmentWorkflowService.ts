@@ -0,0 +1,641 @@
+/**
+ * Serviço de fluxo de matrículas
+ * Permite que cada escola defina sua própria máquina de estados para matrículas,
+ * com transições permitidas, condições obrigatórias e efeitos colaterais
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+import { storage } from '../storage';
+import { logAction } from './securityService';
+import { sendSchoolNotification, sendUserNotification } from '../pusher';
+import { whatsappTemplateService } from './whatsappTemplateService';
+import { getEvolutionApiService } from './evolutionApi';
+import { schoolIntegrationService } from './schoolIntegrationService';
+import { courseSeatService } from './courseSeatService';
+import { guardianService } from './guardianService';
+import { contractService } from './contractService';
+import { tuitionBillingService } from './tuitionBillingService';
+import { consentService } from './consentService';
+
+// Schemas de validação da definição do fluxo
+export const workflowStateSchema = z.object({
+  key: z.string().min(1, 'Chave do estado é obrigatória').regex(/^[a-z0-9_]+$/, 'Use apenas letras minúsculas, números e _'),
+  label: z.string().min(1, 'Nome do estado é obrigatório'),
+  final: z.boolean().optional(),
+  // Resultado de um estado final: success confirma a vaga, failure a libera e cancela as parcelas
+  outcome: z.enum(['success', 'failure']).optional(),
+  color: z.string().optional(),
+});
+
+export const transitionConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('documents_verified') }),
+  z.object({ type: z.literal('payment_status'), values: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('min_documents'), count: z.number().int().min(1) }),
+  z.object({ type: z.literal('contract_signed') }),
+]);
+
+export const transitionEffectSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('notify_school'), title: z.string().optional(), message: z.string().optional() }),
+  z.object({ type: z.literal('notify_student'), title: z.string().optional(), message: z.string().optional() }),
+  z.object({ type: z.literal('whatsapp_template'), templateId: z.number().int() }),
+  z.object({ type: z.literal('integration_sync'), schoolSystemId: z.number().int(), moduleKey: z.string(), operation: z.string().default('export') }),
+  z.object({ type: z.literal('start_billing'), planId: z.number().int().optional() }),
+]);
+
+export const workflowTransitionSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  label: z.string().min(1, 'Nome da transição é obrigatório'),
+  roles: z.array(z.enum(['admin', 'school', 'attendant', 'student', 'guardian'])).optional(),
+  conditions: z.array(transitionConditionSchema).optional(),
+  effects: z.array(transitionEffectSchema).optional(),
+});
+
+export const workflowDefinitionSchema = z.object({
+  name: z.string().min(1, 'Nome do fluxo é obrigatório'),
+  initialState: z.string().min(1),
+  states: z.array(workflowStateSchema).min(1, 'O fluxo precisa de ao menos um estado'),
+  transitions: z.array(workflowTransitionSchema),
+});
+
+export type WorkflowState = z.infer<typeof workflowStateSchema>;
+export type TransitionCondition = z.infer<typeof transitionConditionSchema>;
+export type TransitionEffect = z.infer<typeof transitionEffectSchema>;
+export type WorkflowTransition = z.infer<typeof workflowTransitionSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+export type FinalOutcome = NonNullable<WorkflowState['outcome']>;
+
+export interface EnrollmentWorkflow extends WorkflowDefinition {
+  id: number | null;
+  schoolId: number;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface EnrollmentStatusHistory {
+  id: number;
+  enrollmentId: number;
+  workflowId: number | null;
+  fromStatus: string | null;
+  toStatus: string;
+  transitionLabel: string | null;
+  changedById: number | null;
+  reason: string | null;
+  effects: any;
+  createdAt: Date;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  message: string;
+  enrollment?: any;
+  failedConditions?: string[];
+  allowedTransitions?: WorkflowTransition[];
+  outcome?: FinalOutcome;
+}
+
+/**
+ * Fluxo padrão usado quando a escola não configurou um fluxo próprio.
+ * Reproduz o comportamento anterior (status fixos de matrícula).
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: 'Fluxo padrão',
+  initialState: 'pending',
+  states: [
+    { key: 'pending', label: 'Pendente' },
+    { key: 'approved', label: 'Aprovada' },
+    { key: 'rejected', label: 'Rejeitada', final: true, outcome: 'failure' },
+    { key: 'canceled', label: 'Cancelada', final: true, outcome: 'failure' },
+    { key: 'completed', label: 'Concluída', final: true, outcome: 'success' },
+  ],
+  transitions: [
+    { from: 'pending', to: 'approved', label: 'Aprovar' },
+    { from: 'pending', to: 'rejected', label: 'Rejeitar' },
+    { from: 'pending', to: 'canceled', label: 'Cancelar' },
+    { from: 'approved', to: 'completed', label: 'Concluir' },
+    { from: 'approved', to: 'canceled', label: 'Cancelar' },
+  ],
+};
+
+/**
+ * Valida a consistência interna de uma definição de fluxo
+ * @param definition Definição do fluxo
+ * @returns Lista de erros encontrados (vazia se válida)
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition): string[] {
+  const errors: string[] = [];
+  const stateKeys = new Set<string>();
+
+  for (const state of definition.states) {
+    if (stateKeys.has(state.key)) {
+      errors.push(`Estado duplicado: ${state.key}`);
+    }
+    stateKeys.add(state.key);
+    if (state.final && !state.outcome) {
+      errors.push(`O estado final ${state.key} precisa informar se conclui ou encerra a matrícula`);
+    }
+  }
+
+  if (!stateKeys.has(definition.initialState)) {
+    errors.push(`Estado inicial inexistente: ${definition.initialState}`);
+  }
+
+  const finalStates = new Set(definition.states.filter(s => s.final).map(s => s.key));
+  const seen = new Set<string>();
+
+  for (const transition of definition.transitions) {
+    if (!stateKeys.has(transition.from)) {
+      errors.push(`Transição "${transition.label}" parte de um estado inexistente: ${transition.from}`);
+    }
+    if (!stateKeys.has(transition.to)) {
+      errors.push(`Transição "${transition.label}" leva a um estado inexistente: ${transition.to}`);
+    }
+    if (finalStates.has(transition.from)) {
+      errors.push(`O estado final ${transition.from} não pode ter transições de saída`);
+    }
+
+    const pair = `${transition.from}->${transition.to}`;
+    if (seen.has(pair)) {
+      errors.push(`Transição duplicada: ${pair}`);
+    }
+    seen.add(pair);
+  }
+
+  return errors;
+}
+
+/**
+ * Resultado de um estado final do fluxo
+ * Fluxos salvos antes de existir o campo outcome só concluíam a matrícula em "completed"
+ * @param state Estado de destino
+ * @returns success ou failure para estados finais; undefined para os demais
+ */
+export function getFinalOutcome(state: WorkflowState | undefined): FinalOutcome | undefined {
+  if (!state?.final) return undefined;
+  return state.outcome ?? (state.key === 'completed' ? 'success' : 'failure');
+}
+
+/**
+ * Lista as transições que partem de um estado e que o papel informado pode executar
+ * @param definition Definição do fluxo
+ * @param fromStatus Estado atual
+ * @param role Papel do usuário; sem papel, nenhuma transição é permitida
+ * @returns Transições disponíveis
+ */
+export function getAvailableTransitions(
+  definition: WorkflowDefinition,
+  fromStatus: string,
+  role?: string
+): WorkflowTransition[] {
+  return definition.transitions.filter(t =>
+    t.from === fromStatus && !!role && (!t.roles || t.roles.length === 0 || t.roles.includes(role as any))
+  );
+}
+
+/**
+ * Classe responsável pelas máquinas de estado de matrícula
+ */
+class EnrollmentWorkflowService {
+  /**
+   * Garante que as tabelas necessárias existam
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_workflows (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        initial_state TEXT NOT NULL,
+        states JSONB NOT NULL,
+        transitions JSONB NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS enrollment_status_history (
+        id SERIAL PRIMARY KEY,
+        enrollment_id INTEGER NOT NULL,
+        workflow_id INTEGER,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        transition_label TEXT,
+        changed_by_id INTEGER,
+        reason TEXT,
+        effects JSONB,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS enrollment_status_history_enrollment_idx ON enrollment_status_history(enrollment_id);
+    `);
+  }
+
+  /**
+   * Obtém o fluxo ativo de uma escola (ou o fluxo padrão)
+   * @param schoolId ID da escola
+   * @returns Fluxo de matrícula
+   */
+  async getWorkflow(schoolId: number): Promise<EnrollmentWorkflow> {
+    const [row] = await db.execute(`
+      SELECT * FROM enrollment_workflows
+      WHERE school_id = $1 AND active = TRUE
+    `, [schoolId]);
+
+    if (!row) {
+      return { ...DEFAULT_WORKFLOW, id: null, schoolId, active: true };
+    }
+
+    return this.mapWorkflow(row);
+  }
+
+  /**
+   * Cria ou substitui o fluxo de matrícula de uma escola
+   * @param schoolId ID da escola
+   * @param definition Definição do fluxo
+   * @param userId ID do usuário responsável
+   * @returns Fluxo salvo
+   */
+  async saveWorkflow(schoolId: number, definition: WorkflowDefinition, userId: number): Promise<EnrollmentWorkflow> {
+    const errors = validateWorkflowDefinition(definition);
+    if (errors.length > 0) {
+      throw new Error(`Fluxo inválido: ${errors.join('; ')}`);
+    }
+
+    const [row] = await db.execute(`
+      INSERT INTO enrollment_workflows (school_id, name, initial_state, states, transitions, active)
+      VALUES ($1, $2, $3, $4, $5, TRUE)
+      ON CONFLICT (school_id) DO UPDATE SET
+        name = EXCLUDED.name,
+        initial_state = EXCLUDED.initial_state,
+        states = EXCLUDED.states,
+        transitions = EXCLUDED.transitions,
+        active = TRUE,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      schoolId,
+      definition.name,
+      definition.initialState,
+      JSON.stringify(definition.states),
+      JSON.stringify(definition.transitions),
+    ]);
+
+    await logAction(userId, 'enrollment_workflow_saved', 'enrollment_workflow', String(schoolId), {
+      states: definition.states.length,
+      transitions: definition.transitions.length,
+    });
+
+    return this.mapWorkflow(row);
+  }
+
+  /**
+   * Remove o fluxo personalizado da escola, voltando ao fluxo padrão
+   * @param schoolId ID da escola
+   * @param userId ID do usuário responsável
+   */
+  async resetWorkflow(schoolId: number, userId: number): Promise<void> {
+    await db.execute(`
+      UPDATE enrollment_workflows SET active = FALSE, updated_at = NOW()
+      WHERE school_id = $1
+    `, [schoolId]);
+
+    await logAction(userId, 'enrollment_workflow_reset', 'enrollment_workflow', String(schoolId));
+  }
+
+  /**
+   * Obtém o estado inicial para novas matrículas de uma escola
+   * @param schoolId ID da escola
+   */
+  async getInitialStatus(schoolId: number): Promise<string> {
+    const workflow = await this.getWorkflow(schoolId);
+    return workflow.initialState;
+  }
+
+  /**
+   * Lista as transições disponíveis para uma matrícula
+   * @param enrollmentId ID da matrícula
+   * @param role Papel do usuário
+   */
+  async getTransitionsForEnrollment(enrollmentId: number, role?: string): Promise<{
+    currentStatus: string;
+    state?: WorkflowState;
+    transitions: WorkflowTransition[];
+  } | null> {
+    const enrollment = await storage.getEnrollment(enrollmentId);
+    if (!enrollment) return null;
+
+    const workflow = await this.getWorkflow(enrollment.schoolId);
+    const currentStatus = enrollment.status || workflow.initialState;
+
+    return {
+      currentStatus,
+      state: workflow.states.find(s => s.key === currentStatus),
+      transitions: getAvailableTransitions(workflow, currentStatus, role),
+    };
+  }
+
+  /**
+   * Executa uma transição de status em uma matrícula
+   * @param enrollmentId ID da matrícula
+   * @param toStatus Estado de destino
+   * @param options Usuário responsável, papel e motivo
+   * @returns Resultado da transição
+   */
+  async transition(
+    enrollmentId: number,
+    toStatus: string,
+    options: { userId?: number; role?: string; reason?: string } = {}
+  ): Promise<TransitionResult> {
+    const enrollment = await storage.getEnrollment(enrollmentId);
+    if (!enrollment) {
+      return { success: false, message: 'Matrícula não encontrada' };
+    }
+
+    const workflow = await this.getWorkflow(enrollment.schoolId);
+    const fromStatus = enrollment.status || workflow.initialState;
+
+    if (fromStatus === toStatus) {
+      return { success: true, message: 'Matrícula já se encontra neste estado', enrollment };
+    }
+
+    const allowedTransitions = getAvailableTransitions(workflow, fromStatus, options.role);
+    const transition = allowedTransitions.find(t => t.to === toStatus);
+
+    if (!transition) {
+      const fromLabel = workflow.states.find(s => s.key === fromStatus)?.label || fromStatus;
+      const toLabel = workflow.states.find(s => s.key === toStatus)?.label || toStatus;
+      return {
+        success: false,
+        message: `Transição de "${fromLabel}" para "${toLabel}" não é permitida`,
+        allowedTransitions,
+      };
+    }
+
+    const failedConditions = await this.checkConditions(enrollment, transition.conditions || []);
+    if (failedConditions.length > 0) {
+      return {
+        success: false,
+        message: `Condições não atendidas para "${transition.label}"`,
+        failedConditions,
+        allowedTransitions,
+      };
+    }
+
+    // Só muda se ninguém alterou o status desde a leitura acima
+    const updated = await storage.updateEnrollment(enrollmentId, {
+      status: toStatus,
+      updatedById: options.userId,
+      updatedAt: new Date(),
+    }, { expectedStatus: enrollment.status ?? null });
+
+    if (!updated) {
+      return {
+        success: false,
+        message: 'O status da matrícula foi alterado por outro usuário. Atualize a página e tente novamente',
+      };
+    }
+
+    // Estados finais encerram a ocupação da vaga: sucesso confirma, falha libera
+    // a vaga e cancela as parcelas em aberto
+    const outcome = getFinalOutcome(workflow.states.find(s => s.key === toStatus));
+    if (outcome === 'success') {
+      await courseSeatService.confirmSeat(enrollment);
+    } else if (outcome === 'failure') {
+      await courseSeatService.releaseSeat(enrollmentId);
+      await tuitionBillingService.cancelBilling(enrollmentId);
+    }
+
+    const effects = await this.runEffects(enrollment, transition, workflow);
+
+    await db.execute(`
+      INSERT INTO enrollment_status_history (
+        enrollment_id, workflow_id, from_status, to_status, transition_label, changed_by_id, reason, effects
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      enrollmentId,
+      workflow.id,
+      fromStatus,
+      toStatus,
+      transition.label,
+      options.userId || null,
+      options.reason || null,
+      JSON.stringify(effects),
+    ]);
+
+    if (options.userId) {
+      await logAction(options.userId, 'enrollment_status_changed', 'enrollment', String(enrollmentId), {
+        from: fromStatus,
+        to: toStatus,
+      });
+    }
+
+    return { success: true, message: `Matrícula movida para "${transition.label}"`, enrollment: updated, outcome };
+  }
+
+  /**
+   * Registra o estado inicial de uma matrícula recém-criada no histórico
+   * @param enrollmentId ID da matrícula
+   * @param status Estado inicial
+   * @param userId Usuário responsável (opcional)
+   */
+  async recordInitialStatus(enrollmentId: number, status: string, userId?: number): Promise<void> {
+    await db.execute(`
+      INSERT INTO enrollment_status_history (enrollment_id, from_status, to_status, transition_label, changed_by_id)
+      VALUES ($1, NULL, $2, $3, $4)
+    `, [enrollmentId, status, 'Matrícula criada', userId || null]);
+  }
+
+  /**
+   * Obtém o histórico de transições de uma matrícula
+   * @param enrollmentId ID da matrícula
+   */
+  async getHistory(enrollmentId: number): Promise<EnrollmentStatusHistory[]> {
+    const rows = await db.execute(`
+      SELECT h.*, u.full_name AS changed_by_name
+      FROM enrollment_status_history h
+      LEFT JOIN users u ON u.id = h.changed_by_id
+      WHERE h.enrollment_id = $1
+      ORDER BY h.created_at ASC, h.id ASC
+    `, [enrollmentId]);
+
+    return rows.map(row => ({
+      id: row.id,
+      enrollmentId: row.enrollment_id,
+      workflowId: row.workflow_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      transitionLabel: row.transition_label,
+      changedById: row.changed_by_id,
+      changedByName: row.changed_by_name,
+      reason: row.reason,
+      effects: row.effects,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Verifica as condições de uma transição
+   * @returns Descrição das condições não atendidas
+   */
+  private async checkConditions(enrollment: any, conditions: TransitionCondition[]): Promise<string[]> {
+    const failed: string[] = [];
+    if (conditions.length === 0) return failed;
+
+    const documents = await db.execute(`
+      SELECT status FROM documents WHERE enrollment_id = $1
+    `, [enrollment.id]);
+
+    for (const condition of conditions) {
+      switch (condition.type) {
+        case 'documents_verified': {
+          const pending = documents.filter(d => d.status !== 'verified');
+          if (documents.length === 0 || pending.length > 0) {
+            failed.push('Todos os documentos precisam estar verificados');
+          }
+          break;
+        }
+        case 'min_documents':
+          if (documents.length < condition.count) {
+            failed.push(`São necessários ao menos ${condition.count} documentos enviados`);
+          }
+          break;
+        case 'payment_status':
+          if (!condition.values.includes(enrollment.paymentStatus)) {
+            failed.push(`Status de pagamento precisa ser: ${condition.values.join(', ')}`);
+          }
+          break;
+        case 'contract_signed':
+          if (!(await contractService.isContractSigned(enrollment.id))) {
+            failed.push('O contrato de matrícula precisa estar assinado');
+          }
+          break;
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Executa os efeitos colaterais de uma transição.
+   * Falhas em efeitos não desfazem a transição; o resultado fica registrado no histórico.
+   */
+  private async runEffects(enrollment: any, transition: WorkflowTransition, workflow: EnrollmentWorkflow): Promise<any[]> {
+    const results: any[] = [];
+    const toLabel = workflow.states.find(s => s.key === transition.to)?.label || transition.to;
+
+    for (const effect of transition.effects || []) {
+      try {
+        switch (effect.type) {
+          case 'notify_school':
+            await sendSchoolNotification(enrollment.schoolId, {
+              title: effect.title || 'Matrícula atualizada',
+              message: effect.message || `Matrícula #${enrollment.id} agora está em "${toLabel}"`,
+              type: 'enrollment',
+              relatedId: enrollment.id,
+              relatedType: 'enrollment',
+            });
+            break;
+
+          case 'notify_student': {
+            // Aluno e responsáveis recebem o aviso
+            const recipients = await guardianService.getNotificationRecipients(enrollment.studentId);
+            for (const recipient of recipients) {
+              await sendUserNotification(recipient.userId, {
+                title: effect.title || 'Matrícula atualizada',
+                message: effect.message || `A matrícula agora está em "${toLabel}"`,
+                type: 'enrollment',
+                relatedId: enrollment.id,
+                relatedType: 'enrollment',
+              });
+            }
+            break;
+          }
+
+          case 'whatsapp_template':
+            await this.sendWhatsappTemplate(enrollment, effect.templateId, toLabel);
+            break;
+
+          case 'integration_sync':
+            await schoolIntegrationService.scheduleSyncTask(effect.schoolSystemId, effect.moduleKey, effect.operation, {
+              dataId: String(enrollment.id),
+              dataPayload: { enrollmentId: enrollment.id, status: transition.to },
+            });
+            break;
+
+          case 'start_billing':
+            await tuitionBillingService.startBilling(enrollment.id, effect.planId);
+            break;
+        }
+        results.push({ type: effect.type, success: true });
+      } catch (error) {
+        console.error(`Erro ao executar efeito ${effect.type} da matrícula ${enrollment.id}:`, error);
+        results.push({
+          type: effect.type,
+          success: false,
+          error: error instanceof Error ? error.message : 'Erro desconhecido',
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Envia um template de WhatsApp para o aluno da matrícula
+   */
+  private async sendWhatsappTemplate(enrollment: any, templateId: number, statusLabel: string): Promise<void> {
+    const [instance] = await db.execute(`
+      SELECT instance_key FROM whatsapp_instances WHERE school_id = $1 ORDER BY id LIMIT 1
+    `, [enrollment.schoolId]);
+    if (!instance) {
+      throw new Error('Escola sem instância de WhatsApp configurada');
+    }
+
+    const recipients = (await guardianService.getNotificationRecipients(enrollment.studentId))
+      .filter(recipient => recipient.phone);
+    if (recipients.length === 0) {
+      throw new Error('Aluno e responsáveis sem telefone cadastrado');
+    }
+
+    const course = await storage.getCourse(enrollment.courseId);
+    const studentName = recipients.find(r => r.role === 'student')?.fullName || '';
+
+    for (const recipient of recipients) {
+      // Quem recusou o WhatsApp fica fora do aviso, sem impedir os demais
+      if (!(await consentService.canSend(enrollment.schoolId, 'whatsapp', recipient.phone!))) continue;
+
+      const content = await whatsappTemplateService.processTemplate(templateId, {
+        nome: recipient.fullName,
+        aluno: studentName,
+        curso: course?.name || '',
+        status: statusLabel,
+        matricula: enrollment.id,
+      });
+
+      await getEvolutionApiService().sendTextMessage(instance.instance_key, recipient.phone!, content);
+    }
+  }
+
+  private mapWorkflow(row: any): EnrollmentWorkflow {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      initialState: row.initial_state,
+      states: row.states,
+      transitions: row.transitions,
+      active: row.active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const enrollmentWorkflowService = new EnrollmentWorkflowService();
+export default enrollmentWorkflowService;
@@ -4,6 +4,7 @@ import { eq, and, count, sql } from 'drizzle-orm';
 import { whatsappInstances, whatsappContacts, whatsappMessages, whatsappTemplates } from '../../shared/whatsapp.schema';
 import { cacheService } from './cacheService';
 import { logAction } from './securityService';
+import { consentService } from './consentService';
 
 /**
  * Interface para configuração da API Evolution
@@ -330,9 +331,20 @@ export class EvolutionApiService {
    * @param instanceName Nome da instância
    * @param phoneNumber Número de telefone do destinatário (com código do país)
    * @param message Conteúdo da mensagem
+   * @param options.skipConsentCheck Envia mesmo com o consentimento revogado
+   * (apenas a confirmação do próprio descadastro)
    * @returns Resultado do envio
    */
-  async sendTextMessage(instanceName: string, phoneNumber: string, message: string): Promise<any> {
+  async sendTextMessage(
+    instanceName: string,
+    phoneNumber: string,
+    message: string,
+    options: { skipConsentCheck?: boolean } = {}
+  ): Promise<any> {
+    if (!options.skipConsentCheck) {
+      await this.assertConsent(instanceName, phoneNumber);
+    }
+
     if (this.inactiveMode) {
       console.warn(`EvolutionApiService em modo inativo: sendTextMessage para ${phoneNumber} via ${instanceName}, texto: "${message.substring(0, 30)}..."`);
       return {
@@ -378,6 +390,8 @@ export class EvolutionApiService {
     imageUrl: string, 
     caption?: string
   ): Promise<any> {
+    await this.assertConsent(instanceName, phoneNumber);
+
     if (this.inactiveMode) {
       console.warn(`EvolutionApiService em modo inativo: sendImageMessage para ${phoneNumber} via ${instanceName}, imagem: ${imageUrl}`);
       return {
@@ -426,6 +440,8 @@ export class EvolutionApiService {
     fileName: string,
     caption?: string
   ): Promise<any> {
+    await this.assertConsent(instanceName, phoneNumber);
+
     if (this.inactiveMode) {
       console.warn(`EvolutionApiService em modo inativo: sendDocumentMessage para ${phoneNumber} via ${instanceName}, documento: ${documentUrl}`);
       return {
@@ -458,6 +474,20 @@ export class EvolutionApiService {
     }
   }
 
+  /**
+   * Bloqueia o envio para contatos que pediram para não receber mensagens
+   * da escola dona da instância
+   * @param instanceName Nome da instância
+   * @param phoneNumber Número de telefone do destinatário
+   */
+  private async assertConsent(instanceName: string, phoneNumber: string): Promise<void> {
+    const [instance] = await db.execute(
+      `SELECT school_id FROM whatsapp_instances WHERE instance_key = $1 LIMIT 1`,
+      [instanceName]
+    );
+    await consentService.assertCanSend(instance?.school_id ?? null, 'whatsapp', phoneNumber);
+  }
+
   /**
    * Verifica se um número é válido para WhatsApp
    * @param instanceName Nome da instância
@@ -495,6 +525,38 @@ export class EvolutionApiService {
       throw new Error(error.response?.data?.message || error.message);
     }
   }
+
+  /**
+   * Baixa a mídia de uma mensagem recebida pela Evolution API, que devolve o
+   * arquivo já descriptografado. A URL informada no webhook nunca é acessada
+   * @param instanceName Nome da instância
+   * @param messageId ID externo da mensagem
+   * @param maxBytes Tamanho máximo aceito
+   * @returns Conteúdo e tipo do arquivo
+   */
+  async downloadMedia(
+    instanceName: string,
+    messageId: string,
+    maxBytes: number
+  ): Promise<{ buffer: Buffer; mimeType: string | null }> {
+    if (this.inactiveMode) {
+      throw new Error('Mídia indisponível para download');
+    }
+
+    const client = this.getClient();
+    const response = await client.post(`/chat/getBase64FromMediaMessage/${instanceName}`, {
+      message: { key: { id: messageId } }
+    });
+    if (!response.data?.base64) {
+      throw new Error('Mídia indisponível para download');
+    }
+
+    const buffer = Buffer.from(response.data.base64, 'base64');
+    if (buffer.length > maxBytes) {
+      throw new Error('Arquivo maior que o permitido');
+    }
+    return { buffer, mimeType: response.data.mimetype || null };
+  }
 }
 
 /**
@@ -7,8 +7,16 @@
 import { db } from '../db';
 import { whatsappMessages, whatsappContacts, whatsappInstances } from '../../shared/whatsapp.schema';
 import { eq, and, desc } from 'drizzle-orm';
-import { sendUserNotification } from '../pusher';
+import { sendSchoolNotification, sendUserNotification } from '../pusher';
 import { storage } from '../storage';
+import { leadAutomationService } from './leadAutomationService';
+import { whatsappInboxService } from './whatsappInboxService';
+import { chatbotFlowService } from './chatbotFlowService';
+import { whatsappCampaignService } from './whatsappCampaignService';
+import { consentService, ConsentStatus } from './consentService';
+import { leadCaptureService } from './leadCaptureService';
+import { getEvolutionApiService } from './evolutionApi';
+import { whatsappDocumentIntakeService } from './whatsappDocumentIntakeService';
 
 class EvolutionApiWebhookService {
   /**
@@ -148,14 +156,113 @@ class EvolutionApiWebhookService {
         await this.processMediaMessage(data, message.id, whatsappInstance.id);
       }
       
-      // Enviar notificação para a escola vinculada à instância
-      if (whatsappInstance.schoolId) {
-        await this.notifySchoolAboutNewMessage(whatsappInstance.schoolId, message, contact);
+      // Mensagem enviada pela escola (inclusive pelo celular) conta como
+      // primeira resposta ao lead
+      if (whatsappInstance.schoolId && fromMe) {
+        await leadAutomationService.recordFirstResponseByPhone(whatsappInstance.schoolId, from).catch(error => {
+          console.error('Erro ao registrar primeira resposta ao lead:', error);
+        });
       }
       
-      // Verificar se há algum atendente associado a esse contato para notificar
-      if (contact.assignedUserId) {
-        await this.notifyUserAboutNewMessage(contact.assignedUserId, message, contact);
+      // Resposta do lead interrompe as cadências de acompanhamento
+      if (whatsappInstance.schoolId && !fromMe) {
+        await leadAutomationService.handleLeadReply(whatsappInstance.schoolId, from).catch(error => {
+          console.error('Erro ao interromper cadências do lead:', error);
+        });
+        await whatsappCampaignService.handleReply(whatsappInstance.schoolId, from).catch(error => {
+          console.error('Erro ao registrar resposta de campanha:', error);
+        });
+      }
+      
+      // SAIR/PARAR e VOLTAR atualizam o consentimento do contato; quem está
+      // descadastrado não conversa com o chatbot
+      let consentChanged: ConsentStatus | null = null;
+      let consentRevoked = false;
+      if (whatsappInstance.schoolId && !fromMe) {
+        consentChanged = await consentService
+          .handleIncomingKeyword(whatsappInstance.schoolId, from, body || '', { messageId: key?.id, instance: instance.key })
+          .catch(error => {
+            console.error('Erro ao registrar consentimento do contato:', error);
+            return null;
+          });
+        
+        if (consentChanged) {
+          await this.sendConsentConfirmation(instance.key, from, consentChanged);
+        } else {
+          // A primeira mensagem de quem veio pelo formulário confirma o número
+          await leadCaptureService
+            .handleContactReply(whatsappInstance.schoolId, from, { messageId: key?.id, instance: instance.key })
+            .catch(error => {
+              console.error('Erro ao confirmar consentimento do contato:', error);
+            });
+          consentRevoked = !(await consentService.canSend(whatsappInstance.schoolId, 'whatsapp', from));
+        }
+      }
+      
+      // Imagens e PDFs de quem tem matrícula em andamento viram documentos da matrícula
+      let documentReceived = false;
+      if (whatsappInstance.schoolId && !fromMe && ['image', 'document'].includes(type)) {
+        const intake = await whatsappDocumentIntakeService.handleIncomingMedia({
+          schoolId: whatsappInstance.schoolId,
+          instanceKey: instance.key,
+          from,
+          externalId: key.id,
+          mimeType: data.mimetype || null,
+          caption: data.caption || null,
+          fileName: data.fileName || null,
+        }).catch(error => {
+          console.error('Erro ao receber documento pelo WhatsApp:', error);
+          return null;
+        });
+        documentReceived = !!intake;
+      }
+      
+      // Registrar a mensagem na conversa da caixa de entrada compartilhada
+      let assignedUserId: number | null = null;
+      let handledByBot = false;
+      if (whatsappInstance.schoolId && !fromMe) {
+        const conversation = await whatsappInboxService
+          .handleIncomingMessage(whatsappInstance.schoolId, whatsappInstance.id, contact.id, body || null)
+          .catch(error => {
+            console.error('Erro ao registrar conversa na caixa de entrada:', error);
+            return null;
+          });
+        assignedUserId = conversation?.assignedTo ?? null;
+        
+        // Fluxos do chatbot respondem antes de a conversa chegar à equipe
+        if (conversation && !assignedUserId && !consentChanged && !consentRevoked && !documentReceived) {
+          const result = await chatbotFlowService.handleIncomingMessage(conversation.id, body || '').catch(error => {
+            console.error('Erro ao executar fluxo do chatbot:', error);
+            return null;
+          });
+          // Na transferência o próprio fluxo já avisa a escola
+          handledByBot = result?.handled ?? false;
+        }
+      }
+      
+      // Conversa com responsável avisa só o atendente; sem responsável, a escola.
+      // Mensagens respondidas pelo chatbot não geram aviso, e documentos
+      // recebidos já avisaram a escola
+      if (documentReceived) {
+        return {
+          success: true,
+          message: 'Documento recebido e anexado à matrícula',
+          messageId: message.id
+        };
+      }
+      
+      if (handledByBot) {
+        return {
+          success: true,
+          message: 'Mensagem respondida pelo chatbot',
+          messageId: message.id
+        };
+      }
+      
+      if (assignedUserId) {
+        await this.notifyUserAboutNewMessage(assignedUserId, message, contact);
+      } else if (whatsappInstance.schoolId) {
+        await this.notifySchoolAboutNewMessage(whatsappInstance.schoolId, message, contact);
       }
       
       return {
@@ -173,6 +280,26 @@ class EvolutionApiWebhookService {
     }
   }
   
+  /**
+   * Confirma ao contato a mudança pedida por palavra-chave. A confirmação do
+   * descadastro é a última mensagem enviada antes da recusa
+   * @param instanceKey Chave da instância que recebeu a mensagem
+   * @param from Remetente da mensagem
+   * @param status Novo status do consentimento
+   */
+  private async sendConsentConfirmation(instanceKey: string, from: string, status: ConsentStatus): Promise<void> {
+    const number = from.replace(/\D/g, '');
+    const text = status === 'revoked'
+      ? 'Pronto! Você não receberá mais mensagens nossas por aqui. Se mudar de ideia, responda VOLTAR.'
+      : 'Tudo certo! Você voltará a receber nossas mensagens por aqui. Para sair, responda SAIR.';
+    
+    await getEvolutionApiService()
+      .sendTextMessage(instanceKey, number, text, { skipConsentCheck: true })
+      .catch(error => {
+        console.error('Erro ao confirmar alteração de consentimento:', error);
+      });
+  }
+  
   /**
    * Processa atualizações de status de mensagem (confirmação de entrega, leitura, etc)
    * @param payload Dados da atualização
@@ -202,7 +329,12 @@ class EvolutionApiWebhookService {
       };
       
       const status = statusMap[ack] || 'unknown';
-      
+
+      // Entrega e leitura das mensagens de campanha alimentam o relatório da campanha
+      await whatsappCampaignService.handleMessageAck(key?.id, status).catch(error => {
+        console.error('Erro ao registrar confirmação na campanha:', error);
+      });
+
       // Obter a instância do WhatsApp
       const [whatsappInstance] = await db.select()
         .from(whatsappInstances)
@@ -448,13 +580,6 @@ class EvolutionApiWebhookService {
         })
         .where(eq(whatsappMessages.id, messageId));
       
-      // Se for uma mensagem de imagem, podemos processar com OCR
-      if (type === 'image' && body) {
-        // Adicionar à fila de processamento de OCR para documentos
-        // A implementação depende do sistema de OCR já existente
-        // Exemplo: ocrQueue.add({ messageId, mediaUrl: body, instanceId });
-      }
-      
       return true;
     } catch (error) {
       console.error('Erro ao processar mensagem de mídia:', error);
@@ -470,7 +595,7 @@ class EvolutionApiWebhookService {
    */
   private async notifySchoolAboutNewMessage(schoolId: number, message: any, contact: any): Promise<void> {
     try {
-      await sendUserNotification(
+      await sendSchoolNotification(
         schoolId,
         {
           title: 'Nova mensagem de WhatsApp',
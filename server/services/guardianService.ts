@@ -0,0 +1,608 @@
+/**
+ * Serviço de responsáveis
+ * Gerencia contas de responsáveis (pais/tutores) vinculadas a alunos menores,
+ * o acesso às matrículas, documentos e pagamentos dos dependentes e
+ * o responsável financeiro usado nas cobranças. Responsáveis entram por convite
+ * da escola, nunca pelo cadastro público
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { emailService } from '../email';
+import { logAction } from './securityService';
+
+// Validade do convite enviado por email ao responsável
+const INVITATION_EXPIRATION_DAYS = 7;
+
+// Pasta dos documentos enviados pelos responsáveis
+const UPLOAD_DIR = path.join('uploads', 'guardians');
+
+export type GuardianDocumentType = 'id' | 'address' | 'diploma' | 'transcripts' | 'photo' | 'other';
+
+export interface Guardian {
+  id: number;
+  userId: number;
+  cpf: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GuardianStudentLink {
+  id: number;
+  guardianId: number;
+  studentId: number;
+  relationship: string | null;
+  financialResponsible: boolean;
+  createdAt: Date;
+}
+
+export interface GuardianProfileData {
+  cpf?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+}
+
+export interface GuardianInvitation {
+  id: number;
+  studentId: number;
+  email: string;
+  relationship: string | null;
+  financialResponsible: boolean;
+  status: 'pending' | 'accepted' | 'revoked';
+  expiresAt: Date;
+  createdAt: Date;
+  studentName?: string | null;
+  schoolName?: string | null;
+}
+
+export interface GuardianDocumentUpload {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+}
+
+export interface NotificationRecipient {
+  userId: number;
+  fullName: string;
+  email: string | null;
+  phone: string | null;
+  role: 'student' | 'guardian';
+}
+
+export interface BillingCustomer {
+  customerName: string;
+  customerDocument: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  payerUserId: number | null;
+}
+
+/**
+ * Classe responsável pelos responsáveis de alunos
+ */
+class GuardianService {
+  /**
+   * Garante que as tabelas necessárias existam
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS guardians (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL UNIQUE REFERENCES users(id),
+        cpf TEXT,
+        address TEXT,
+        city TEXT,
+        state TEXT,
+        zip_code TEXT,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS guardian_students (
+        id SERIAL PRIMARY KEY,
+        guardian_id INTEGER NOT NULL REFERENCES guardians(id),
+        student_id INTEGER NOT NULL,
+        relationship TEXT,
+        financial_responsible BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (guardian_id, student_id)
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS guardian_students_student_idx ON guardian_students(student_id)
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS guardian_invitations (
+        id SERIAL PRIMARY KEY,
+        token TEXT NOT NULL UNIQUE,
+        student_id INTEGER NOT NULL,
+        email TEXT NOT NULL,
+        relationship TEXT,
+        financial_responsible BOOLEAN NOT NULL DEFAULT FALSE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        invited_by INTEGER,
+        accepted_user_id INTEGER,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        accepted_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  /**
+   * Obtém o cadastro de responsável de um usuário
+   * @param userId ID do usuário
+   */
+  async getGuardianByUserId(userId: number): Promise<Guardian | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM guardians WHERE user_id = $1
+    `, [userId]);
+
+    return row ? this.mapGuardian(row) : null;
+  }
+
+  /**
+   * Cria ou atualiza o cadastro de responsável de um usuário
+   * @param userId ID do usuário (papel guardian)
+   * @param data Dados do responsável
+   */
+  async upsertGuardian(userId: number, data: GuardianProfileData): Promise<Guardian> {
+    const [row] = await db.execute(`
+      INSERT INTO guardians (user_id, cpf, address, city, state, zip_code)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (user_id) DO UPDATE SET
+        cpf = COALESCE(EXCLUDED.cpf, guardians.cpf),
+        address = COALESCE(EXCLUDED.address, guardians.address),
+        city = COALESCE(EXCLUDED.city, guardians.city),
+        state = COALESCE(EXCLUDED.state, guardians.state),
+        zip_code = COALESCE(EXCLUDED.zip_code, guardians.zip_code),
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      userId,
+      data.cpf ?? null,
+      data.address ?? null,
+      data.city ?? null,
+      data.state ?? null,
+      data.zipCode ?? null,
+    ]);
+
+    return this.mapGuardian(row);
+  }
+
+  /**
+   * Vincula um aluno a um responsável
+   * @param guardianId ID do responsável
+   * @param studentId ID do aluno
+   * @param options Parentesco e responsabilidade financeira
+   * @param performedBy Usuário que fez o vínculo
+   */
+  async linkStudent(
+    guardianId: number,
+    studentId: number,
+    options: { relationship?: string; financialResponsible?: boolean },
+    performedBy: number
+  ): Promise<GuardianStudentLink> {
+    // Só pode haver um responsável financeiro por aluno
+    if (options.financialResponsible) {
+      await db.execute(`
+        UPDATE guardian_students SET financial_responsible = FALSE WHERE student_id = $1
+      `, [studentId]);
+    }
+
+    const [row] = await db.execute(`
+      INSERT INTO guardian_students (guardian_id, student_id, relationship, financial_responsible)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (guardian_id, student_id) DO UPDATE SET
+        relationship = EXCLUDED.relationship,
+        financial_responsible = EXCLUDED.financial_responsible
+      RETURNING *
+    `, [guardianId, studentId, options.relationship ?? null, options.financialResponsible ?? false]);
+
+    await logAction(performedBy, 'guardian_student_linked', 'student', String(studentId), {
+      guardianId,
+      relationship: options.relationship,
+      financialResponsible: options.financialResponsible ?? false,
+    });
+
+    return this.mapLink(row);
+  }
+
+  /**
+   * Remove o vínculo entre responsável e aluno
+   * @param guardianId ID do responsável
+   * @param studentId ID do aluno
+   * @param performedBy Usuário que removeu o vínculo
+   * @returns true se o vínculo existia
+   */
+  async unlinkStudent(guardianId: number, studentId: number, performedBy: number): Promise<boolean> {
+    const rows = await db.execute(`
+      DELETE FROM guardian_students WHERE guardian_id = $1 AND student_id = $2 RETURNING id
+    `, [guardianId, studentId]);
+
+    if (rows.length > 0) {
+      await logAction(performedBy, 'guardian_student_unlinked', 'student', String(studentId), { guardianId });
+    }
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Convida por email alguém ainda sem conta para ser responsável pelo aluno.
+   * Convites pendentes anteriores para o mesmo email e aluno são substituídos
+   * @param studentId ID do aluno
+   * @param data Email, parentesco e responsabilidade financeira
+   * @param invitedBy Usuário da escola que enviou o convite
+   */
+  async createInvitation(
+    studentId: number,
+    data: { email: string; relationship?: string; financialResponsible?: boolean },
+    invitedBy: number
+  ): Promise<GuardianInvitation> {
+    const email = data.email.trim().toLowerCase();
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + INVITATION_EXPIRATION_DAYS * 24 * 60 * 60 * 1000);
+
+    await db.execute(`
+      UPDATE guardian_invitations SET status = 'revoked'
+      WHERE student_id = $1 AND LOWER(email) = $2 AND status = 'pending'
+    `, [studentId, email]);
+
+    const [row] = await db.execute(`
+      INSERT INTO guardian_invitations (token, student_id, email, relationship, financial_responsible, invited_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [token, studentId, email, data.relationship ?? null, data.financialResponsible ?? false, invitedBy, expiresAt]);
+
+    if (!row) {
+      throw new Error('Não foi possível criar o convite');
+    }
+
+    const [student] = await db.execute(`
+      SELECT u.full_name AS student_name, sc.name AS school_name
+      FROM students s
+      LEFT JOIN users u ON u.id = s.user_id
+      LEFT JOIN schools sc ON sc.id = s.school_id
+      WHERE s.id = $1
+    `, [studentId]);
+
+    const url = `${process.env.APP_URL || 'http://localhost:5000'}/guardian-invite/${token}`;
+    await emailService.sendEmail({
+      to: email,
+      subject: `Convite para acompanhar a matrícula de ${student?.student_name || 'seu dependente'}`,
+      html: `<p>${student?.school_name || 'A escola'} convidou você para acompanhar como responsável a matrícula de ${student?.student_name || 'seu dependente'}.</p>`
+        + `<p><a href="${url}">Criar minha conta de responsável</a></p>`
+        + `<p>O convite vale por ${INVITATION_EXPIRATION_DAYS} dias.</p>`,
+    });
+
+    await logAction(invitedBy, 'guardian_invited', 'student', String(studentId), {
+      email,
+      relationship: data.relationship,
+      financialResponsible: data.financialResponsible ?? false,
+    });
+
+    return this.mapInvitation({ ...row, ...student });
+  }
+
+  /**
+   * Obtém um convite ainda pendente e dentro da validade
+   * @param token Token enviado por email
+   */
+  async getPendingInvitation(token: string): Promise<GuardianInvitation | null> {
+    const [row] = await db.execute(`
+      SELECT gi.*, u.full_name AS student_name, sc.name AS school_name
+      FROM guardian_invitations gi
+      LEFT JOIN students s ON s.id = gi.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      LEFT JOIN schools sc ON sc.id = s.school_id
+      WHERE gi.token = $1 AND gi.status = 'pending' AND gi.expires_at > NOW()
+    `, [token]);
+
+    return row ? this.mapInvitation(row) : null;
+  }
+
+  /**
+   * Aceita o convite com a conta de responsável recém-criada e vincula o aluno.
+   * O convite é reivindicado antes do vínculo para não ser usado duas vezes
+   * @param token Token enviado por email
+   * @param userId Usuário (papel guardian) que aceitou
+   */
+  async acceptInvitation(token: string, userId: number): Promise<GuardianStudentLink> {
+    const [row] = await db.execute(`
+      UPDATE guardian_invitations
+      SET status = 'accepted', accepted_user_id = $2, accepted_at = NOW()
+      WHERE token = $1 AND status = 'pending' AND expires_at > NOW()
+      RETURNING *
+    `, [token, userId]);
+
+    if (!row) {
+      throw new Error('Convite inválido ou expirado');
+    }
+
+    const guardian = await this.getGuardianByUserId(userId) || await this.upsertGuardian(userId, {});
+    return this.linkStudent(guardian.id, row.student_id, {
+      relationship: row.relationship ?? undefined,
+      financialResponsible: row.financial_responsible,
+    }, userId);
+  }
+
+  /**
+   * Registra um documento enviado pelo responsável na matrícula do dependente.
+   * O documento fica pendente de conferência pela escola
+   * @param userId Usuário responsável
+   * @param enrollment Matrícula do dependente
+   * @param file Arquivo enviado
+   * @param data Tipo e título do documento
+   */
+  async addEnrollmentDocument(
+    userId: number,
+    enrollment: { id: number; studentId: number },
+    file: GuardianDocumentUpload,
+    data: { type: GuardianDocumentType; title?: string }
+  ): Promise<any> {
+    if (!fs.existsSync(UPLOAD_DIR)) {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    }
+    const fileName = `${uuidv4()}${path.extname(file.originalName).toLowerCase()}`;
+    fs.writeFileSync(path.join(UPLOAD_DIR, fileName), file.buffer);
+
+    const [document] = await db.execute(`
+      INSERT INTO documents (enrollment_id, student_id, type, title, file_url, mime_type, file_size, status, metadata)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8)
+      RETURNING *
+    `, [
+      enrollment.id,
+      enrollment.studentId,
+      data.type,
+      data.title || file.originalName,
+      `/uploads/guardians/${fileName}`,
+      file.mimeType,
+      file.buffer.length,
+      JSON.stringify({ source: 'guardian', uploadedBy: userId }),
+    ]);
+
+    if (!document) {
+      throw new Error('Não foi possível registrar o documento');
+    }
+
+    await logAction(userId, 'guardian_document_uploaded', 'enrollment', String(enrollment.id), {
+      documentId: document.id,
+      type: data.type,
+    });
+
+    return document;
+  }
+
+  /**
+   * Lista os dependentes de um usuário responsável
+   * @param userId ID do usuário responsável
+   */
+  async getStudentsForGuardian(userId: number): Promise<any[]> {
+    return db.execute(`
+      SELECT s.*, u.full_name, u.email, u.phone, gs.relationship, gs.financial_responsible
+      FROM guardian_students gs
+      JOIN guardians g ON g.id = gs.guardian_id
+      JOIN students s ON s.id = gs.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      WHERE g.user_id = $1
+      ORDER BY u.full_name
+    `, [userId]);
+  }
+
+  /**
+   * Lista os responsáveis de um aluno
+   * @param studentId ID do aluno
+   */
+  async getGuardiansForStudent(studentId: number): Promise<any[]> {
+    return db.execute(`
+      SELECT g.id, g.user_id, g.cpf, u.full_name, u.email, u.phone, gs.relationship, gs.financial_responsible
+      FROM guardian_students gs
+      JOIN guardians g ON g.id = gs.guardian_id
+      JOIN users u ON u.id = g.user_id
+      WHERE gs.student_id = $1
+      ORDER BY gs.financial_responsible DESC, u.full_name
+    `, [studentId]);
+  }
+
+  /**
+   * Verifica se o usuário pode agir em nome do aluno (o próprio aluno ou um responsável)
+   * @param userId ID do usuário
+   * @param studentId ID do aluno
+   */
+  async canActForStudent(userId: number, studentId: number): Promise<boolean> {
+    const [row] = await db.execute(`
+      SELECT 1 FROM students WHERE id = $2 AND user_id = $1
+      UNION
+      SELECT 1 FROM guardian_students gs
+      JOIN guardians g ON g.id = gs.guardian_id
+      WHERE g.user_id = $1 AND gs.student_id = $2
+    `, [userId, studentId]);
+
+    return !!row;
+  }
+
+  /**
+   * Lista as matrículas dos dependentes de um responsável
+   * @param userId ID do usuário responsável
+   */
+  async getEnrollmentsForGuardian(userId: number): Promise<any[]> {
+    return db.execute(`
+      SELECT e.*, c.name AS course_name, sc.name AS school_name, u.full_name AS student_name
+      FROM enrollments e
+      JOIN guardian_students gs ON gs.student_id = e.student_id
+      JOIN guardians g ON g.id = gs.guardian_id
+      LEFT JOIN courses c ON c.id = e.course_id
+      LEFT JOIN schools sc ON sc.id = e.school_id
+      LEFT JOIN students s ON s.id = e.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      WHERE g.user_id = $1
+      ORDER BY e.created_at DESC
+    `, [userId]);
+  }
+
+  /**
+   * Lista os documentos das matrículas dos dependentes de um responsável
+   * @param userId ID do usuário responsável
+   */
+  async getDocumentsForGuardian(userId: number): Promise<any[]> {
+    return db.execute(`
+      SELECT d.*, e.student_id
+      FROM documents d
+      JOIN enrollments e ON e.id = d.enrollment_id
+      JOIN guardian_students gs ON gs.student_id = e.student_id
+      JOIN guardians g ON g.id = gs.guardian_id
+      WHERE g.user_id = $1
+      ORDER BY d.created_at DESC
+    `, [userId]);
+  }
+
+  /**
+   * Lista os pagamentos dos dependentes de um responsável
+   * @param userId ID do usuário responsável
+   */
+  async getPaymentsForGuardian(userId: number): Promise<any[]> {
+    return db.execute(`
+      SELECT p.*
+      FROM payments p
+      JOIN guardian_students gs ON gs.student_id = p.student_id
+      JOIN guardians g ON g.id = gs.guardian_id
+      WHERE g.user_id = $1
+      ORDER BY p.due_date DESC NULLS LAST
+    `, [userId]);
+  }
+
+  /**
+   * Lista quem deve receber avisos sobre o aluno: o próprio aluno e seus responsáveis
+   * @param studentId ID do aluno
+   */
+  async getNotificationRecipients(studentId: number): Promise<NotificationRecipient[]> {
+    const rows = await db.execute(`
+      SELECT u.id, u.full_name, u.email, u.phone, 'student' AS recipient_role
+      FROM students s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.id = $1
+      UNION ALL
+      SELECT u.id, u.full_name, u.email, u.phone, 'guardian' AS recipient_role
+      FROM guardian_students gs
+      JOIN guardians g ON g.id = gs.guardian_id
+      JOIN users u ON u.id = g.user_id
+      WHERE gs.student_id = $1
+    `, [studentId]);
+
+    return rows.map(row => ({
+      userId: row.id,
+      fullName: row.full_name,
+      email: row.email,
+      phone: row.phone,
+      role: row.recipient_role,
+    }));
+  }
+
+  /**
+   * Define quem é o cliente das cobranças do aluno.
+   * Usa o responsável financeiro quando houver; senão, o próprio aluno.
+   * @param studentId ID do aluno
+   * @returns Dados do pagador para BillingOptions
+   */
+  async getBillingCustomer(studentId: number): Promise<BillingCustomer | null> {
+    const [guardian] = await db.execute(`
+      SELECT u.id AS user_id, u.full_name, u.email, u.phone, g.cpf, g.address, g.city, g.state, g.zip_code
+      FROM guardian_students gs
+      JOIN guardians g ON g.id = gs.guardian_id
+      JOIN users u ON u.id = g.user_id
+      WHERE gs.student_id = $1 AND gs.financial_responsible = TRUE
+      LIMIT 1
+    `, [studentId]);
+
+    if (guardian?.cpf) {
+      return {
+        customerName: guardian.full_name,
+        customerDocument: guardian.cpf,
+        customerEmail: guardian.email || undefined,
+        customerPhone: guardian.phone || undefined,
+        customerAddress: this.formatAddress(guardian),
+        payerUserId: guardian.user_id,
+      };
+    }
+
+    const [student] = await db.execute(`
+      SELECT u.id AS user_id, u.full_name, u.email, u.phone, s.cpf, s.address, s.city, s.state, s.zip_code
+      FROM students s
+      LEFT JOIN users u ON u.id = s.user_id
+      WHERE s.id = $1
+    `, [studentId]);
+
+    if (!student?.cpf) return null;
+
+    return {
+      customerName: student.full_name,
+      customerDocument: student.cpf,
+      customerEmail: student.email || undefined,
+      customerPhone: student.phone || undefined,
+      customerAddress: this.formatAddress(student),
+      payerUserId: student.user_id,
+    };
+  }
+
+  private formatAddress(row: any): string | undefined {
+    const parts = [row.address, row.city, row.state, row.zip_code].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  private mapGuardian(row: any): Guardian {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      cpf: row.cpf,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      zipCode: row.zip_code,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapInvitation(row: any): GuardianInvitation {
+    return {
+      id: row.id,
+      studentId: row.student_id,
+      email: row.email,
+      relationship: row.relationship,
+      financialResponsible: row.financial_responsible,
+      status: row.status,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      studentName: row.student_name ?? null,
+      schoolName: row.school_name ?? null,
+    };
+  }
+
+  private mapLink(row: any): GuardianStudentLink {
+    return {
+      id: row.id,
+      guardianId: row.guardian_id,
+      studentId: row.student_id,
+      relationship: row.relationship,
+      financialResponsible: row.financial_responsible,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const guardianService = new GuardianService();
+export default guardianService;
@@ -0,0 +1,1116 @@
+/**
+ * Automação do funil de leads
+ * Distribui os leads novos entre os atendentes conforme as regras da escola
+ * (rodízio ou menor carga, por curso e por horário de atendimento; quem chega
+ * fora do horário aguarda na fila até a abertura do atendimento), acompanha
+ * o prazo de primeira resposta (SLA) com escalonamento por notificação e
+ * executa as cadências de acompanhamento (WhatsApp, e-mail e tarefas para o
+ * atendente), interrompidas quando o lead responde, é convertido ou perdido
+ */
+
+import { db } from '../db';
+import { emailService } from '../email';
+import { sendSchoolNotification, sendUserNotification } from '../pusher';
+import { logAction } from './securityService';
+import { DomainEvent, domainEventService } from './domainEventService';
+import { getEvolutionApiService } from './evolutionApi';
+import { whatsappTemplateService } from './whatsappTemplateService';
+import { normalizeWhatsappNumber } from './leadCaptureService';
+import { consentService, phoneMatchKey, phoneMatchKeySql } from './consentService';
+
+export { phoneMatchKey, phoneMatchKeySql };
+
+const PROCESS_INTERVAL = 60 * 1000;
+const PROCESS_BATCH_SIZE = 50;
+
+// Passos reservados há mais tempo que isso voltam para a fila
+const STALE_LOCK_MINUTES = 10;
+
+// Fuso usado para os horários de atendimento
+const BUSINESS_TIME_ZONE = process.env.BUSINESS_TIME_ZONE || 'America/Sao_Paulo';
+
+const DEFAULT_FIRST_RESPONSE_MINUTES = 60;
+
+// Status em que o lead ainda ocupa o atendente
+const OPEN_LEAD_STATUSES = ['new', 'contacted', 'interested'];
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded';
+export type CadenceChannel = 'whatsapp' | 'email' | 'task';
+export type CadenceStopReason = 'replied' | 'converted' | 'lost' | 'manual';
+
+export interface WorkingHours {
+  // Dias da semana atendidos (0 = domingo)
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface AssignmentRule {
+  id: number;
+  schoolId: number;
+  name: string;
+  strategy: AssignmentStrategy;
+  courseId: number | null;
+  attendantIds: number[];
+  workingHours: WorkingHours | null;
+  priority: number;
+  active: boolean;
+  lastAssignedUserId: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AssignmentRuleInput {
+  name: string;
+  strategy: AssignmentStrategy;
+  courseId?: number | null;
+  attendantIds: number[];
+  workingHours?: WorkingHours | null;
+  priority?: number;
+  active?: boolean;
+}
+
+export interface SlaSettings {
+  schoolId: number;
+  enabled: boolean;
+  firstResponseMinutes: number;
+}
+
+export interface CadenceStep {
+  // Dias após a entrada do lead na cadência
+  dayOffset: number;
+  channel: CadenceChannel;
+  // Template de WhatsApp; sem ele, usa o conteúdo
+  templateId?: number | null;
+  subject?: string | null;
+  content: string;
+}
+
+export interface Cadence {
+  id: number;
+  schoolId: number;
+  name: string;
+  courseId: number | null;
+  steps: CadenceStep[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CadenceInput {
+  name: string;
+  courseId?: number | null;
+  steps: CadenceStep[];
+  active?: boolean;
+}
+
+export interface LeadTask {
+  id: number;
+  leadId: number;
+  schoolId: number;
+  assignedTo: number | null;
+  title: string;
+  description: string | null;
+  status: 'open' | 'done';
+  dueAt: Date;
+  completedAt: Date | null;
+  createdAt: Date;
+  leadName?: string;
+}
+
+export interface LeadAutomationStatus {
+  sla: {
+    dueAt: Date;
+    firstResponseAt: Date | null;
+    breachedAt: Date | null;
+  } | null;
+  cadences: {
+    id: number;
+    cadenceId: number;
+    cadenceName: string;
+    status: 'active' | 'completed' | 'stopped';
+    currentStep: number;
+    nextRunAt: Date | null;
+    stopReason: CadenceStopReason | null;
+  }[];
+  tasks: LeadTask[];
+}
+
+/**
+ * Verifica se o instante está dentro do horário de atendimento
+ * @param hours Horário de atendimento; null atende a qualquer hora
+ * @param date Instante verificado
+ * @param timeZone Fuso do horário de atendimento
+ */
+export function isWithinWorkingHours(hours: WorkingHours | null, date: Date, timeZone: string = BUSINESS_TIME_ZONE): boolean {
+  if (!hours) return true;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(item => item.type === type)?.value || '';
+
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+  const time = `${part('hour')}:${part('minute')}`;
+
+  return hours.days.includes(day) && time >= hours.start && time < hours.end;
+}
+
+/**
+ * Próximo atendente do rodízio, em ordem de ID, depois do último atendido
+ * @param candidates IDs dos atendentes elegíveis
+ * @param lastAssignedUserId Último atendente que recebeu um lead pela regra
+ */
+export function pickRoundRobin(candidates: number[], lastAssignedUserId: number | null): number | null {
+  if (candidates.length === 0) return null;
+  const sorted = [...candidates].sort((a, b) => a - b);
+  if (lastAssignedUserId === null) return sorted[0];
+  return sorted.find(id => id > lastAssignedUserId) ?? sorted[0];
+}
+
+class LeadAutomationService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Cria as tabelas de regras, SLA, cadências e tarefas
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS lead_assignment_rules (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        strategy TEXT NOT NULL DEFAULT 'round_robin',
+        course_id INTEGER,
+        attendant_ids JSONB NOT NULL DEFAULT '[]',
+        working_hours JSONB,
+        priority INTEGER NOT NULL DEFAULT 0,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        last_assigned_user_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lead_assignment_rules_school
+        ON lead_assignment_rules(school_id, priority);
+
+      CREATE TABLE IF NOT EXISTS lead_assignment_queue (
+        lead_id INTEGER PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        queued_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS lead_sla_settings (
+        school_id INTEGER PRIMARY KEY,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        first_response_minutes INTEGER NOT NULL DEFAULT ${DEFAULT_FIRST_RESPONSE_MINUTES},
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS lead_slas (
+        lead_id INTEGER PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        due_at TIMESTAMP NOT NULL,
+        first_response_at TIMESTAMP,
+        breached_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lead_slas_school
+        ON lead_slas(school_id, created_at);
+
+      CREATE INDEX IF NOT EXISTS idx_lead_slas_open
+        ON lead_slas(due_at) WHERE first_response_at IS NULL AND breached_at IS NULL;
+
+      CREATE TABLE IF NOT EXISTS lead_cadences (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        course_id INTEGER,
+        steps JSONB NOT NULL DEFAULT '[]',
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS lead_cadence_runs (
+        id SERIAL PRIMARY KEY,
+        lead_id INTEGER NOT NULL,
+        cadence_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        current_step INTEGER NOT NULL DEFAULT 0,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        next_run_at TIMESTAMP,
+        locked_at TIMESTAMP,
+        stop_reason TEXT,
+        last_error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (lead_id, cadence_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lead_cadence_runs_due
+        ON lead_cadence_runs(next_run_at) WHERE status = 'active';
+
+      CREATE TABLE IF NOT EXISTS lead_tasks (
+        id SERIAL PRIMARY KEY,
+        lead_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        assigned_to INTEGER,
+        cadence_run_id INTEGER,
+        title TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL DEFAULT 'open',
+        due_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_lead_tasks_school
+        ON lead_tasks(school_id, status, due_at);
+    `);
+  }
+
+  /**
+   * Assina os eventos de criação e conversão de leads; deve ser chamado antes
+   * de iniciar o despacho
+   */
+  registerEventSubscribers(): void {
+    domainEventService.subscribe('lead-automation', { eventTypes: ['lead.created', 'lead.converted'] }, event => this.handleDomainEvent(event));
+  }
+
+  /**
+   * Inicia a verificação periódica de SLAs e passos de cadência
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('[LeadAutomation] Erro ao processar automações:', error);
+      });
+    }, PROCESS_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async handleDomainEvent(event: DomainEvent): Promise<void> {
+    const leadId = parseInt(event.aggregateId);
+
+    if (event.type === 'lead.created') {
+      await this.handleLeadCreated(leadId);
+    } else if (event.type === 'lead.converted') {
+      await this.stopCadences(leadId, 'converted');
+      await this.recordFirstResponse(leadId);
+    }
+  }
+
+  /**
+   * Distribui o lead, abre o SLA de primeira resposta e inicia a cadência
+   * @param leadId ID do lead criado
+   */
+  async handleLeadCreated(leadId: number): Promise<void> {
+    const lead = await this.getLeadRow(leadId);
+    if (!lead) return;
+
+    if (!lead.assigned_to) {
+      lead.assigned_to = await this.assignLead(lead);
+    }
+
+    await this.openSla(lead);
+    await this.startCadence(lead);
+  }
+
+  /**
+   * Reflete a edição manual do lead: sair de "novo" conta como primeira
+   * resposta e os status finais encerram as cadências
+   * @param leadId ID do lead
+   * @param previousStatus Status antes da edição
+   * @param status Status atual
+   */
+  async handleLeadUpdated(leadId: number, previousStatus: string | null, status: string | null): Promise<void> {
+    if (previousStatus === 'new' && status && status !== 'new') {
+      await this.recordFirstResponse(leadId);
+    }
+    if (status === 'converted' || status === 'lost') {
+      await this.stopCadences(leadId, status);
+    }
+  }
+
+  /**
+   * Interrompe as cadências dos leads da escola com o telefone que respondeu
+   * pelo WhatsApp
+   * @param schoolId Escola dona da instância que recebeu a mensagem
+   * @param phone Telefone do contato
+   * @returns Quantidade de cadências interrompidas
+   */
+  async handleLeadReply(schoolId: number, phone: string): Promise<number> {
+    const key = phoneMatchKey(phone);
+    if (!key) return 0;
+
+    const rows = await db.execute(`
+      UPDATE lead_cadence_runs r
+      SET status = 'stopped', stop_reason = 'replied', next_run_at = NULL, updated_at = NOW()
+      FROM leads l
+      WHERE l.id = r.lead_id
+        AND r.status = 'active'
+        AND l.school_id = $1
+        AND ${phoneMatchKeySql('l.phone')} = $2
+      RETURNING r.id
+    `, [schoolId, key]);
+
+    return rows.length;
+  }
+
+  /**
+   * Escolhe o atendente pela primeira regra ativa que atende ao lead e grava
+   * a atribuição. Se alguma regra só não se aplicou por estar fora do horário
+   * de atendimento, o lead entra na fila e é distribuído na abertura
+   * @returns ID do atendente ou null se nenhuma regra se aplica agora
+   */
+  async assignLead(lead: any, now: Date = new Date()): Promise<number | null> {
+    const rules = (await db.execute(`
+      SELECT * FROM lead_assignment_rules
+      WHERE school_id = $1 AND active = TRUE AND (course_id IS NULL OR course_id = $2)
+      ORDER BY priority, (course_id IS NULL), id
+    `, [lead.school_id, lead.course_id ?? null])).map((row: any) => this.mapRule(row));
+
+    let outsideWorkingHours = false;
+    for (const rule of rules) {
+      if (!isWithinWorkingHours(rule.workingHours, now)) {
+        outsideWorkingHours = true;
+        continue;
+      }
+
+      const attendants = await db.execute(`
+        SELECT u.id, COUNT(l.id)::int AS open_leads
+        FROM users u
+        LEFT JOIN leads l ON l.assigned_to = u.id AND l.status = ANY($3::text[])
+        WHERE u.school_id = $1 AND u.role = 'attendant' AND u.id = ANY($2::int[])
+        GROUP BY u.id
+      `, [lead.school_id, rule.attendantIds, OPEN_LEAD_STATUSES]);
+      if (attendants.length === 0) continue;
+
+      let candidates = attendants.map((attendant: any) => attendant.id as number);
+      if (rule.strategy === 'least_loaded') {
+        const minLoad = Math.min(...attendants.map((attendant: any) => attendant.open_leads));
+        candidates = attendants
+          .filter((attendant: any) => attendant.open_leads === minLoad)
+          .map((attendant: any) => attendant.id);
+      }
+
+      // O último atendido é lido com bloqueio da regra para que leads
+      // simultâneos não caiam no mesmo atendente
+      const userId = await db.transaction(async tx => {
+        const [locked] = await tx.execute(`
+          SELECT last_assigned_user_id FROM lead_assignment_rules WHERE id = $1 FOR UPDATE
+        `, [rule.id]);
+        const picked = pickRoundRobin(candidates, locked ? locked.last_assigned_user_id : rule.lastAssignedUserId);
+        if (picked === null) return null;
+
+        const [assigned] = await tx.execute(`
+          UPDATE leads SET assigned_to = $2, updated_at = NOW()
+          WHERE id = $1 AND assigned_to IS NULL
+          RETURNING id
+        `, [lead.id, picked]);
+        if (!assigned) return null;
+
+        await tx.execute(`
+          UPDATE lead_assignment_rules SET last_assigned_user_id = $2, updated_at = NOW() WHERE id = $1
+        `, [rule.id, picked]);
+        return picked;
+      });
+      if (userId === null) return null;
+
+      await db.execute(`DELETE FROM lead_assignment_queue WHERE lead_id = $1`, [lead.id]);
+
+      await sendUserNotification(userId, {
+        title: 'Novo lead atribuído',
+        message: `O lead ${lead.full_name} foi atribuído a você pela regra "${rule.name}"`,
+        type: 'lead',
+        relatedId: lead.id,
+        relatedType: 'lead',
+      });
+
+      return userId;
+    }
+
+    if (outsideWorkingHours) {
+      await db.execute(`
+        INSERT INTO lead_assignment_queue (lead_id, school_id) VALUES ($1, $2)
+        ON CONFLICT (lead_id) DO NOTHING
+      `, [lead.id, lead.school_id]);
+    }
+
+    return null;
+  }
+
+  /**
+   * Distribui os leads da fila cujo horário de atendimento abriu. Leads já
+   * atribuídos manualmente ou encerrados saem da fila
+   * @returns Quantidade de leads atribuídos
+   */
+  async processAssignmentQueue(now: Date = new Date()): Promise<number> {
+    await db.execute(`
+      DELETE FROM lead_assignment_queue q
+      USING leads l
+      WHERE l.id = q.lead_id AND (l.assigned_to IS NOT NULL OR l.status <> ALL($1::text[]))
+    `, [OPEN_LEAD_STATUSES]);
+
+    const queued = await db.execute(`
+      SELECT l.* FROM lead_assignment_queue q
+      JOIN leads l ON l.id = q.lead_id
+      ORDER BY q.queued_at
+      LIMIT $1
+    `, [PROCESS_BATCH_SIZE]);
+
+    let assigned = 0;
+    for (const lead of queued) {
+      if (await this.assignLead(lead, now)) assigned++;
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Verifica SLAs vencidos e executa os passos de cadência devidos
+   */
+  async processDue(): Promise<{ breached: number; steps: number }> {
+    if (this.processing) return { breached: 0, steps: 0 };
+    this.processing = true;
+
+    try {
+      await this.processAssignmentQueue();
+      const breached = await this.processSlaBreaches();
+      const steps = await this.processCadenceSteps();
+      return { breached, steps };
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Marca os SLAs vencidos sem primeira resposta e escalona para a escola e o
+   * atendente responsável
+   * @returns Quantidade de SLAs escalonados
+   */
+  async processSlaBreaches(): Promise<number> {
+    // Leads que saíram de "novo" por outros caminhos (API, importação) já foram respondidos
+    await db.execute(`
+      UPDATE lead_slas s SET first_response_at = LEAST(COALESCE(l.updated_at, NOW()), NOW())
+      FROM leads l
+      WHERE l.id = s.lead_id AND s.first_response_at IS NULL AND l.status <> 'new'
+    `);
+
+    const breached = await db.execute(`
+      UPDATE lead_slas s SET breached_at = NOW()
+      FROM leads l
+      WHERE l.id = s.lead_id
+        AND l.status = 'new'
+        AND s.first_response_at IS NULL
+        AND s.breached_at IS NULL
+        AND s.due_at <= NOW()
+      RETURNING s.lead_id, s.school_id, s.due_at, l.full_name, l.assigned_to
+    `);
+
+    for (const sla of breached) {
+      const message = `O lead ${sla.full_name} passou do prazo de primeira resposta (${new Date(sla.due_at).toLocaleString('pt-BR')})`;
+
+      await sendSchoolNotification(sla.school_id, {
+        title: 'SLA de primeira resposta vencido',
+        message,
+        type: 'lead',
+        relatedId: sla.lead_id,
+        relatedType: 'lead',
+      });
+
+      if (sla.assigned_to) {
+        await sendUserNotification(sla.assigned_to, {
+          title: 'Lead aguardando primeira resposta',
+          message,
+          type: 'lead',
+          relatedId: sla.lead_id,
+          relatedType: 'lead',
+        });
+      }
+    }
+
+    return breached.length;
+  }
+
+  /**
+   * Executa os passos de cadência devidos, reservando-os antes do envio para
+   * que outro servidor não os repita
+   * @returns Quantidade de passos processados
+   */
+  async processCadenceSteps(): Promise<number> {
+    await db.execute(`
+      UPDATE lead_cadence_runs SET locked_at = NULL
+      WHERE status = 'active' AND locked_at < NOW() - ($1 || ' minutes')::interval
+    `, [STALE_LOCK_MINUTES]);
+
+    const runs = await db.execute(`
+      UPDATE lead_cadence_runs SET locked_at = NOW()
+      WHERE id IN (
+        SELECT id FROM lead_cadence_runs
+        WHERE status = 'active' AND locked_at IS NULL AND next_run_at <= NOW()
+        ORDER BY next_run_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [PROCESS_BATCH_SIZE]);
+
+    for (const run of runs) {
+      await this.executeStep(run);
+    }
+
+    return runs.length;
+  }
+
+  /**
+   * Executa o passo atual da cadência e agenda o próximo
+   */
+  private async executeStep(run: any): Promise<void> {
+    const [context] = await db.execute(`
+      SELECT l.*, c.steps, c.name AS cadence_name, s.name AS school_name,
+        co.name AS course_name, u.full_name AS attendant_name
+      FROM leads l
+      JOIN lead_cadences c ON c.id = $2
+      JOIN schools s ON s.id = l.school_id
+      LEFT JOIN courses co ON co.id = l.course_id
+      LEFT JOIN users u ON u.id = l.assigned_to
+      WHERE l.id = $1
+    `, [run.lead_id, run.cadence_id]);
+
+    if (!context || context.status === 'converted' || context.status === 'lost') {
+      await this.finishRun(run.id, 'stopped', context ? context.status : 'manual');
+      return;
+    }
+
+    const steps: CadenceStep[] = Array.isArray(context.steps) ? context.steps : [];
+    const step = steps[run.current_step];
+    if (!step) {
+      await this.finishRun(run.id, 'completed');
+      return;
+    }
+
+    let error: string | null = null;
+    try {
+      await this.runStep(step, context, run.id);
+    } catch (stepError) {
+      // Falha de um canal não trava a cadência; fica registrada na execução
+      error = stepError instanceof Error ? stepError.message : 'Erro desconhecido';
+      console.error(`[LeadAutomation] Erro no passo ${run.current_step} da cadência ${run.cadence_id} do lead ${run.lead_id}:`, stepError);
+    }
+
+    const nextStep = run.current_step + 1;
+    if (nextStep >= steps.length) {
+      await this.finishRun(run.id, 'completed', null, error);
+      return;
+    }
+
+    await db.execute(`
+      UPDATE lead_cadence_runs
+      SET current_step = $2,
+          next_run_at = started_at + ($3 || ' days')::interval,
+          locked_at = NULL,
+          last_error = $4,
+          updated_at = NOW()
+      WHERE id = $1 AND status = 'active'
+    `, [run.id, nextStep, steps[nextStep].dayOffset, error]);
+  }
+
+  private async runStep(step: CadenceStep, lead: any, runId: number): Promise<void> {
+    const variables = {
+      nome: (lead.full_name || '').split(' ')[0],
+      curso: lead.course_name || 'nossos cursos',
+      escola: lead.school_name,
+      atendente: lead.attendant_name || lead.school_name,
+    };
+
+    if (step.channel === 'whatsapp') {
+      const number = lead.phone ? normalizeWhatsappNumber(lead.phone) : null;
+      if (!number) throw new Error('Lead sem telefone válido');
+
+      const [instance] = await db.execute(`
+        SELECT instance_key FROM whatsapp_instances
+        WHERE school_id = $1 AND active IS NOT FALSE AND status = 'connected'
+        ORDER BY id LIMIT 1
+      `, [lead.school_id]);
+      if (!instance) throw new Error('Escola sem instância de WhatsApp conectada');
+
+      const content = await whatsappTemplateService.processTemplate(step.templateId || step.content, variables, step.content);
+      await getEvolutionApiService().sendTextMessage(instance.instance_key, number, content);
+      return;
+    }
+
+    if (step.channel === 'email') {
+      if (!lead.email) throw new Error('Lead sem e-mail');
+      await consentService.assertCanSend(lead.school_id, 'email', lead.email);
+
+      const content = await whatsappTemplateService.processTemplate(step.content, variables);
+      const subject = await whatsappTemplateService.processTemplate(step.subject || `Novidades da ${lead.school_name}`, variables);
+      const result = await emailService.sendEmail({
+        to: lead.email,
+        subject,
+        html: content.split('\n').map(line => `<p>${line}</p>`).join(''),
+      });
+      if (!result.success) throw new Error('Falha no envio do e-mail');
+      await this.recordFirstResponse(lead.id);
+      return;
+    }
+
+    const description = await whatsappTemplateService.processTemplate(step.content, variables);
+    const [task] = await db.execute(`
+      INSERT INTO lead_tasks (lead_id, school_id, assigned_to, cadence_run_id, title, description)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [lead.id, lead.school_id, lead.assigned_to, runId, step.subject || `Acompanhar lead ${lead.full_name}`, description]);
+
+    const notification = {
+      title: 'Nova tarefa de acompanhamento',
+      message: `${step.subject || 'Acompanhar lead'}: ${lead.full_name}`,
+      type: 'lead' as const,
+      relatedId: lead.id,
+      relatedType: 'lead',
+      data: { taskId: task?.id },
+    };
+
+    if (lead.assigned_to) {
+      await sendUserNotification(lead.assigned_to, notification);
+    } else {
+      await sendSchoolNotification(lead.school_id, notification);
+    }
+  }
+
+  private async finishRun(runId: number, status: 'completed' | 'stopped', stopReason: string | null = null, error: string | null = null): Promise<void> {
+    await db.execute(`
+      UPDATE lead_cadence_runs
+      SET status = $2, stop_reason = $3, last_error = COALESCE($4, last_error),
+          next_run_at = NULL, locked_at = NULL, updated_at = NOW()
+      WHERE id = $1
+    `, [runId, status, stopReason, error]);
+  }
+
+  /**
+   * Interrompe as cadências ativas do lead
+   * @param leadId ID do lead
+   * @param reason Motivo da interrupção
+   * @returns Quantidade de cadências interrompidas
+   */
+  async stopCadences(leadId: number, reason: CadenceStopReason): Promise<number> {
+    const rows = await db.execute(`
+      UPDATE lead_cadence_runs
+      SET status = 'stopped', stop_reason = $2, next_run_at = NULL, updated_at = NOW()
+      WHERE lead_id = $1 AND status = 'active'
+      RETURNING id
+    `, [leadId, reason]);
+    return rows.length;
+  }
+
+  /**
+   * Registra a primeira resposta ao lead, encerrando o SLA
+   * @param leadId ID do lead
+   */
+  async recordFirstResponse(leadId: number): Promise<void> {
+    await db.execute(`
+      UPDATE lead_slas SET first_response_at = NOW() WHERE lead_id = $1 AND first_response_at IS NULL
+    `, [leadId]);
+  }
+
+  /**
+   * Registra a primeira resposta aos leads da escola com o telefone que
+   * recebeu uma mensagem pelo WhatsApp
+   * @param schoolId Escola remetente
+   * @param phone Telefone do contato
+   * @returns Quantidade de SLAs encerrados
+   */
+  async recordFirstResponseByPhone(schoolId: number, phone: string): Promise<number> {
+    const key = phoneMatchKey(phone);
+    if (!key) return 0;
+
+    const rows = await db.execute(`
+      UPDATE lead_slas s SET first_response_at = NOW()
+      FROM leads l
+      WHERE l.id = s.lead_id
+        AND s.first_response_at IS NULL
+        AND l.school_id = $1
+        AND ${phoneMatchKeySql('l.phone')} = $2
+      RETURNING s.lead_id
+    `, [schoolId, key]);
+
+    return rows.length;
+  }
+
+  private async openSla(lead: any): Promise<void> {
+    const settings = await this.getSlaSettings(lead.school_id);
+    if (!settings.enabled) return;
+
+    await db.execute(`
+      INSERT INTO lead_slas (lead_id, school_id, created_at, due_at)
+      VALUES ($1, $2, $3::timestamp, $3::timestamp + ($4 || ' minutes')::interval)
+      ON CONFLICT (lead_id) DO NOTHING
+    `, [lead.id, lead.school_id, lead.created_at || new Date(), settings.firstResponseMinutes]);
+  }
+
+  /**
+   * Inicia a cadência ativa do curso do lead ou, sem ela, a cadência geral
+   */
+  private async startCadence(lead: any): Promise<void> {
+    const [cadence] = await db.execute(`
+      SELECT id, steps FROM lead_cadences
+      WHERE school_id = $1 AND active = TRUE AND (course_id IS NULL OR course_id = $2)
+        AND jsonb_array_length(steps) > 0
+      ORDER BY (course_id IS NULL), id
+      LIMIT 1
+    `, [lead.school_id, lead.course_id ?? null]);
+    if (!cadence) return;
+
+    await db.execute(`
+      INSERT INTO lead_cadence_runs (lead_id, cadence_id, school_id, next_run_at)
+      VALUES ($1, $2, $3, NOW() + ($4 || ' days')::interval)
+      ON CONFLICT (lead_id, cadence_id) DO NOTHING
+    `, [lead.id, cadence.id, lead.school_id, cadence.steps[0].dayOffset]);
+  }
+
+  private async getLeadRow(leadId: number): Promise<any | null> {
+    const [lead] = await db.execute(`SELECT * FROM leads WHERE id = $1`, [leadId]);
+    return lead || null;
+  }
+
+  /**
+   * SLA, cadências e tarefas de um lead
+   * @param leadId ID do lead
+   */
+  async getLeadStatus(leadId: number): Promise<LeadAutomationStatus> {
+    const [sla] = await db.execute(`SELECT * FROM lead_slas WHERE lead_id = $1`, [leadId]);
+    const runs = await db.execute(`
+      SELECT r.*, c.name AS cadence_name
+      FROM lead_cadence_runs r
+      JOIN lead_cadences c ON c.id = r.cadence_id
+      WHERE r.lead_id = $1
+      ORDER BY r.id
+    `, [leadId]);
+    const tasks = await db.execute(`SELECT * FROM lead_tasks WHERE lead_id = $1 ORDER BY due_at`, [leadId]);
+
+    return {
+      sla: sla ? { dueAt: sla.due_at, firstResponseAt: sla.first_response_at, breachedAt: sla.breached_at } : null,
+      cadences: runs.map((run: any) => ({
+        id: run.id,
+        cadenceId: run.cadence_id,
+        cadenceName: run.cadence_name,
+        status: run.status,
+        currentStep: run.current_step,
+        nextRunAt: run.next_run_at,
+        stopReason: run.stop_reason,
+      })),
+      tasks: tasks.map((task: any) => this.mapTask(task)),
+    };
+  }
+
+  // Regras de distribuição
+
+  async listRules(schoolId: number): Promise<AssignmentRule[]> {
+    const rows = await db.execute(`
+      SELECT * FROM lead_assignment_rules WHERE school_id = $1 ORDER BY priority, id
+    `, [schoolId]);
+    return rows.map((row: any) => this.mapRule(row));
+  }
+
+  async createRule(schoolId: number, data: AssignmentRuleInput, userId: number): Promise<AssignmentRule> {
+    await this.assertAttendants(schoolId, data.attendantIds);
+
+    const [row] = await db.execute(`
+      INSERT INTO lead_assignment_rules (school_id, name, strategy, course_id, attendant_ids, working_hours, priority, active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      schoolId,
+      data.name,
+      data.strategy,
+      data.courseId ?? null,
+      JSON.stringify(data.attendantIds),
+      data.workingHours ? JSON.stringify(data.workingHours) : null,
+      data.priority ?? 0,
+      data.active ?? true
+    ]);
+
+    await logAction(userId, 'lead_assignment_rule_created', 'lead_assignment_rules', String(row.id), { schoolId, name: data.name });
+    return this.mapRule(row);
+  }
+
+  async updateRule(schoolId: number, ruleId: number, data: AssignmentRuleInput, userId: number): Promise<AssignmentRule> {
+    await this.assertAttendants(schoolId, data.attendantIds);
+
+    const [row] = await db.execute(`
+      UPDATE lead_assignment_rules
+      SET name = $3, strategy = $4, course_id = $5, attendant_ids = $6, working_hours = $7,
+          priority = $8, active = $9, updated_at = NOW()
+      WHERE id = $1 AND school_id = $2
+      RETURNING *
+    `, [
+      ruleId,
+      schoolId,
+      data.name,
+      data.strategy,
+      data.courseId ?? null,
+      JSON.stringify(data.attendantIds),
+      data.workingHours ? JSON.stringify(data.workingHours) : null,
+      data.priority ?? 0,
+      data.active ?? true
+    ]);
+
+    if (!row) {
+      throw new Error('Regra não encontrada');
+    }
+
+    await logAction(userId, 'lead_assignment_rule_updated', 'lead_assignment_rules', String(ruleId), { schoolId, name: data.name });
+    return this.mapRule(row);
+  }
+
+  async deleteRule(schoolId: number, ruleId: number, userId: number): Promise<void> {
+    const [row] = await db.execute(`
+      DELETE FROM lead_assignment_rules WHERE id = $1 AND school_id = $2 RETURNING id
+    `, [ruleId, schoolId]);
+
+    if (!row) {
+      throw new Error('Regra não encontrada');
+    }
+
+    await logAction(userId, 'lead_assignment_rule_deleted', 'lead_assignment_rules', String(ruleId), { schoolId });
+  }
+
+  /**
+   * Atendentes da escola, para montar as regras
+   * @param schoolId ID da escola
+   */
+  async listAttendants(schoolId: number): Promise<{ id: number; fullName: string }[]> {
+    const rows = await db.execute(`
+      SELECT id, full_name FROM users WHERE school_id = $1 AND role = 'attendant' ORDER BY full_name
+    `, [schoolId]);
+    return rows.map((row: any) => ({ id: row.id, fullName: row.full_name }));
+  }
+
+  private async assertAttendants(schoolId: number, attendantIds: number[]): Promise<void> {
+    const rows = await db.execute(`
+      SELECT id FROM users WHERE school_id = $1 AND role = 'attendant' AND id = ANY($2::int[])
+    `, [schoolId, attendantIds]);
+
+    if (rows.length !== new Set(attendantIds).size) {
+      throw new Error('Atendente não pertence à escola');
+    }
+  }
+
+  // SLA
+
+  async getSlaSettings(schoolId: number): Promise<SlaSettings> {
+    const [row] = await db.execute(`SELECT * FROM lead_sla_settings WHERE school_id = $1`, [schoolId]);
+    return {
+      schoolId,
+      enabled: row ? row.enabled : true,
+      firstResponseMinutes: row?.first_response_minutes ?? DEFAULT_FIRST_RESPONSE_MINUTES,
+    };
+  }
+
+  async updateSlaSettings(schoolId: number, data: { enabled: boolean; firstResponseMinutes: number }, userId: number): Promise<SlaSettings> {
+    await db.execute(`
+      INSERT INTO lead_sla_settings (school_id, enabled, first_response_minutes)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (school_id) DO UPDATE SET
+        enabled = EXCLUDED.enabled,
+        first_response_minutes = EXCLUDED.first_response_minutes,
+        updated_at = NOW()
+    `, [schoolId, data.enabled, data.firstResponseMinutes]);
+
+    await logAction(userId, 'lead_sla_updated', 'schools', String(schoolId), data);
+    return { schoolId, ...data };
+  }
+
+  /**
+   * Indicadores de SLA da escola no período
+   * @param schoolId ID da escola
+   * @param days Janela em dias
+   */
+  async getSlaReport(schoolId: number, days: number = 30) {
+    const [row] = await db.execute(`
+      SELECT
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE first_response_at IS NOT NULL AND first_response_at <= due_at)::int AS met,
+        COUNT(*) FILTER (WHERE breached_at IS NOT NULL)::int AS breached,
+        COUNT(*) FILTER (WHERE first_response_at IS NULL AND breached_at IS NULL)::int AS pending,
+        ROUND(AVG(EXTRACT(EPOCH FROM (first_response_at - created_at)) / 60)
+          FILTER (WHERE first_response_at IS NOT NULL))::int AS avg_first_response_minutes
+      FROM lead_slas
+      WHERE school_id = $1 AND created_at >= NOW() - ($2 || ' days')::interval
+    `, [schoolId, days]);
+
+    return {
+      total: row?.total ?? 0,
+      met: row?.met ?? 0,
+      breached: row?.breached ?? 0,
+      pending: row?.pending ?? 0,
+      avgFirstResponseMinutes: row?.avg_first_response_minutes ?? null,
+    };
+  }
+
+  // Cadências
+
+  async listCadences(schoolId: number): Promise<Cadence[]> {
+    const rows = await db.execute(`SELECT * FROM lead_cadences WHERE school_id = $1 ORDER BY id`, [schoolId]);
+    return rows.map((row: any) => this.mapCadence(row));
+  }
+
+  async createCadence(schoolId: number, data: CadenceInput, userId: number): Promise<Cadence> {
+    const [row] = await db.execute(`
+      INSERT INTO lead_cadences (school_id, name, course_id, steps, active)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [schoolId, data.name, data.courseId ?? null, JSON.stringify(this.sortSteps(data.steps)), data.active ?? true]);
+
+    await logAction(userId, 'lead_cadence_created', 'lead_cadences', String(row.id), { schoolId, name: data.name });
+    return this.mapCadence(row);
+  }
+
+  /**
+   * Atualiza a cadência. Leads já em andamento seguem os novos passos a partir
+   * do passo em que estão
+   */
+  async updateCadence(schoolId: number, cadenceId: number, data: CadenceInput, userId: number): Promise<Cadence> {
+    const [row] = await db.execute(`
+      UPDATE lead_cadences
+      SET name = $3, course_id = $4, steps = $5, active = $6, updated_at = NOW()
+      WHERE id = $1 AND school_id = $2
+      RETURNING *
+    `, [cadenceId, schoolId, data.name, data.courseId ?? null, JSON.stringify(this.sortSteps(data.steps)), data.active ?? true]);
+
+    if (!row) {
+      throw new Error('Cadência não encontrada');
+    }
+
+    if (row.active === false) {
+      await db.execute(`
+        UPDATE lead_cadence_runs
+        SET status = 'stopped', stop_reason = 'manual', next_run_at = NULL, updated_at = NOW()
+        WHERE cadence_id = $1 AND status = 'active'
+      `, [cadenceId]);
+    }
+
+    await logAction(userId, 'lead_cadence_updated', 'lead_cadences', String(cadenceId), { schoolId, name: data.name });
+    return this.mapCadence(row);
+  }
+
+  async deleteCadence(schoolId: number, cadenceId: number, userId: number): Promise<void> {
+    const [row] = await db.execute(`
+      DELETE FROM lead_cadences WHERE id = $1 AND school_id = $2 RETURNING id
+    `, [cadenceId, schoolId]);
+
+    if (!row) {
+      throw new Error('Cadência não encontrada');
+    }
+
+    await db.execute(`DELETE FROM lead_cadence_runs WHERE cadence_id = $1 AND status = 'active'`, [cadenceId]);
+    await logAction(userId, 'lead_cadence_deleted', 'lead_cadences', String(cadenceId), { schoolId });
+  }
+
+  private sortSteps(steps: CadenceStep[]): CadenceStep[] {
+    return [...steps].sort((a, b) => a.dayOffset - b.dayOffset);
+  }
+
+  // Tarefas
+
+  /**
+   * Tarefas de acompanhamento da escola
+   * @param schoolId ID da escola
+   * @param filters Responsável e status
+   */
+  async listTasks(schoolId: number, filters: { assignedTo?: number; status?: 'open' | 'done' } = {}): Promise<LeadTask[]> {
+    const rows = await db.execute(`
+      SELECT t.*, l.full_name AS lead_name
+      FROM lead_tasks t
+      JOIN leads l ON l.id = t.lead_id
+      WHERE t.school_id = $1
+        AND ($2::int IS NULL OR t.assigned_to = $2)
+        AND ($3::text IS NULL OR t.status = $3)
+      ORDER BY t.status, t.due_at
+      LIMIT 200
+    `, [schoolId, filters.assignedTo ?? null, filters.status ?? null]);
+    return rows.map((row: any) => this.mapTask(row));
+  }
+
+  async completeTask(schoolId: number, taskId: number, userId: number): Promise<LeadTask> {
+    const [row] = await db.execute(`
+      UPDATE lead_tasks SET status = 'done', completed_at = NOW()
+      WHERE id = $1 AND school_id = $2
+      RETURNING *
+    `, [taskId, schoolId]);
+
+    if (!row) {
+      throw new Error('Tarefa não encontrada');
+    }
+
+    // Concluir a tarefa é um contato com o lead
+    await this.recordFirstResponse(row.lead_id);
+    await logAction(userId, 'lead_task_completed', 'lead_tasks', String(taskId), { schoolId, leadId: row.lead_id });
+    return this.mapTask(row);
+  }
+
+  private mapRule(row: any): AssignmentRule {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      strategy: row.strategy,
+      courseId: row.course_id,
+      attendantIds: Array.isArray(row.attendant_ids) ? row.attendant_ids : [],
+      workingHours: row.working_hours || null,
+      priority: row.priority,
+      active: row.active,
+      lastAssignedUserId: row.last_assigned_user_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapCadence(row: any): Cadence {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      courseId: row.course_id,
+      steps: Array.isArray(row.steps) ? row.steps : [],
+      active: row.active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapTask(row: any): LeadTask {
+    return {
+      id: row.id,
+      leadId: row.lead_id,
+      schoolId: row.school_id,
+      assignedTo: row.assigned_to,
+      title: row.title,
+      description: row.description,
+      status: row.status,
+      dueAt: row.due_at,
+      completedAt: row.completed_at,
+      createdAt: row.created_at,
+      leadName: row.lead_name,
+    };
+  }
+}
+
+export const leadAutomationService = new LeadAutomationService();
+export default leadAutomationService;
@@ -0,0 +1,363 @@
+/**
+ * Captação de leads por formulário público
+ * Atende a página hospedada por escola/curso e o formulário incorporado em
+ * sites (embed), com proteção contra spam (honeypot e limite por IP), registro
+ * do consentimento e dos parâmetros de campanha (UTM) e saudação pelo
+ * WhatsApp da escola. O número informado só recebe a saudação depois que o
+ * próprio contato escreve para a escola, o que confirma o consentimento
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { cacheService } from './cacheService';
+import { getEvolutionApiService } from './evolutionApi';
+import { whatsappTemplateService } from './whatsappTemplateService';
+import { consentService, phoneMatchKey, phoneMatchKeySql } from './consentService';
+
+export const DEFAULT_CONSENT_TEXT =
+  'Autorizo o contato da escola por WhatsApp, telefone e e-mail sobre cursos e matrículas, conforme a Lei Geral de Proteção de Dados (LGPD).';
+
+export const DEFAULT_GREETING_MESSAGE =
+  'Olá, {{nome}}! Aqui é da {{escola}}. Recebemos seu interesse em {{curso}} e em breve entraremos em contato.';
+
+export const DEFAULT_SUCCESS_MESSAGE = 'Recebemos seus dados! Em breve entraremos em contato.';
+
+// Envios aceitos por IP e escola na janela
+const RATE_LIMIT_MAX_SUBMISSIONS = 5;
+const RATE_LIMIT_WINDOW_SECONDS = 10 * 60;
+
+// Formulários enviados mais rápido que isso são tratados como robôs
+const MIN_FILL_TIME_MS = 2000;
+
+export type LeadCaptureChannel = 'landing_page' | 'embed';
+
+export interface LeadCaptureSettings {
+  schoolId: number;
+  enabled: boolean;
+  consentText: string;
+  successMessage: string;
+  greetingEnabled: boolean;
+  greetingMessage: string;
+}
+
+export interface LeadCaptureInput {
+  fullName: string;
+  phone: string;
+  email?: string;
+  courseId?: number;
+  consent: true;
+  channel: LeadCaptureChannel;
+  // Campo oculto: preenchido apenas por robôs
+  website?: string;
+  startedAt?: number;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+  referrer?: string;
+  landingPage?: string;
+}
+
+export interface LeadCaptureContext {
+  ip: string;
+  userAgent?: string;
+}
+
+export interface LeadCaptureResult {
+  status: 'created' | 'ignored' | 'rate_limited';
+  leadId?: number;
+  greetingSent?: boolean;
+  // Saudação guardada até o contato confirmar o número
+  greetingPending?: boolean;
+  successMessage?: string;
+}
+
+/**
+ * Número no formato aceito pela Evolution API (DDI 55 para números nacionais)
+ * @param phone Telefone informado no formulário
+ */
+export function normalizeWhatsappNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10 || digits.length === 11) return `55${digits}`;
+  if (digits.length >= 12 && digits.length <= 13) return digits;
+  return null;
+}
+
+class LeadCaptureService {
+  // Contagem de envios no próprio processo, usada quando o cache está indisponível
+  private localSubmissions = new Map<string, { count: number; expiresAt: number }>();
+
+  /**
+   * Cria a tabela de configuração da captação por escola
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS lead_capture_settings (
+        school_id INTEGER PRIMARY KEY,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        consent_text TEXT,
+        success_message TEXT,
+        greeting_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        greeting_message TEXT,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+  }
+
+  /**
+   * Configuração da captação; escolas sem registro usam os padrões
+   * @param schoolId ID da escola
+   */
+  async getSettings(schoolId: number): Promise<LeadCaptureSettings> {
+    const [row] = await db.execute(`SELECT * FROM lead_capture_settings WHERE school_id = $1`, [schoolId]);
+
+    return {
+      schoolId,
+      enabled: row ? row.enabled : true,
+      consentText: row?.consent_text || DEFAULT_CONSENT_TEXT,
+      successMessage: row?.success_message || DEFAULT_SUCCESS_MESSAGE,
+      greetingEnabled: row ? row.greeting_enabled : true,
+      greetingMessage: row?.greeting_message || DEFAULT_GREETING_MESSAGE,
+    };
+  }
+
+  /**
+   * Atualiza a configuração da captação
+   * @param schoolId ID da escola
+   * @param data Campos alterados
+   */
+  async updateSettings(schoolId: number, data: Partial<Omit<LeadCaptureSettings, 'schoolId'>>): Promise<LeadCaptureSettings> {
+    const current = await this.getSettings(schoolId);
+    const settings = { ...current, ...data };
+
+    await db.execute(`
+      INSERT INTO lead_capture_settings (school_id, enabled, consent_text, success_message, greeting_enabled, greeting_message)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (school_id) DO UPDATE SET
+        enabled = EXCLUDED.enabled,
+        consent_text = EXCLUDED.consent_text,
+        success_message = EXCLUDED.success_message,
+        greeting_enabled = EXCLUDED.greeting_enabled,
+        greeting_message = EXCLUDED.greeting_message,
+        updated_at = NOW()
+    `, [
+      schoolId,
+      settings.enabled,
+      settings.consentText,
+      settings.successMessage,
+      settings.greetingEnabled,
+      settings.greetingMessage
+    ]);
+
+    return settings;
+  }
+
+  /**
+   * Dados exibidos no formulário público
+   * @param schoolId ID da escola
+   * @param courseId Curso pré-selecionado (página por curso)
+   */
+  async getPublicForm(schoolId: number, courseId?: number) {
+    const [school] = await db.execute(`
+      SELECT id, name, logo FROM schools WHERE id = $1 AND active IS NOT FALSE
+    `, [schoolId]);
+    const settings = await this.getSettings(schoolId);
+
+    if (!school || !settings.enabled) {
+      throw new Error('Formulário não disponível');
+    }
+
+    const courses = await db.execute(`
+      SELECT id, name FROM courses WHERE school_id = $1 AND status = 'active' ORDER BY name
+    `, [schoolId]);
+
+    if (courseId && !courses.some((course: any) => course.id === courseId)) {
+      throw new Error('Curso não encontrado');
+    }
+
+    return {
+      school: { id: school.id, name: school.name, logo: school.logo },
+      courses: courses.map((course: any) => ({ id: course.id, name: course.name })),
+      selectedCourseId: courseId || null,
+      consentText: settings.consentText,
+      successMessage: settings.successMessage,
+    };
+  }
+
+  /**
+   * Registra o lead enviado pelo formulário público
+   * @param schoolId ID da escola
+   * @param input Dados do formulário
+   * @param context IP e navegador de origem
+   */
+  async captureLead(schoolId: number, input: LeadCaptureInput, context: LeadCaptureContext): Promise<LeadCaptureResult> {
+    const rateLimitKey = `${schoolId}:${context.ip}`;
+    const submissions = await cacheService.increment(rateLimitKey, 1, {
+      namespace: 'lead-capture',
+      ttl: RATE_LIMIT_WINDOW_SECONDS,
+    }) ?? this.countLocalSubmission(rateLimitKey);
+    if (submissions > RATE_LIMIT_MAX_SUBMISSIONS) {
+      return { status: 'rate_limited' };
+    }
+
+    const form = await this.getPublicForm(schoolId);
+    const course = input.courseId ? form.courses.find(item => item.id === input.courseId) : undefined;
+    if (input.courseId && !course) {
+      throw new Error('Curso não encontrado');
+    }
+
+    // Robôs passam pelas mesmas validações e recebem a mesma resposta de
+    // sucesso, sem gravação
+    if (input.website || (input.startedAt && Date.now() - input.startedAt < MIN_FILL_TIME_MS)) {
+      return { status: 'ignored', successMessage: form.successMessage };
+    }
+
+    const now = new Date();
+    const lead = await storage.createLead({
+      schoolId,
+      fullName: input.fullName,
+      phone: input.phone,
+      email: input.email,
+      courseId: course?.id,
+      source: input.channel === 'embed' ? 'site' : 'landing_page',
+      status: 'new',
+      metadata: {
+        captureChannel: input.channel,
+        campaign: {
+          utmSource: input.utmSource || null,
+          utmMedium: input.utmMedium || null,
+          utmCampaign: input.utmCampaign || null,
+          utmTerm: input.utmTerm || null,
+          utmContent: input.utmContent || null,
+          referrer: input.referrer || null,
+          landingPage: input.landingPage || null,
+        },
+        consent: {
+          accepted: true,
+          text: form.consentText,
+          acceptedAt: now.toISOString(),
+          ip: context.ip,
+          userAgent: context.userAgent || null,
+        },
+      },
+    });
+
+    // O aceite do formulário entra no registro de consentimento como prova.
+    // Qualquer pessoa pode digitar o número de outra, então o WhatsApp fica
+    // pendente até o próprio contato escrever para a escola
+    const evidence = { leadId: lead.id, text: form.consentText, ip: context.ip, userAgent: context.userAgent || null };
+    const whatsappConsent = await consentService
+      .requestConfirmation({ schoolId, channel: 'whatsapp', identifier: input.phone, source: 'lead_form', evidence })
+      .catch(error => {
+        console.error(`Erro ao registrar consentimento do lead ${lead.id}:`, error);
+        return null;
+      });
+    if (input.email) {
+      await consentService.recordConsent({ schoolId, channel: 'email', identifier: input.email, status: 'granted', source: 'lead_form', evidence })
+        .catch(error => {
+          console.error(`Erro ao registrar consentimento do lead ${lead.id}:`, error);
+        });
+    }
+
+    const greeting = {
+      nome: input.fullName.split(' ')[0],
+      escola: form.school.name,
+      curso: course?.name || 'nossos cursos',
+    };
+
+    // Número já confirmado em contatos anteriores recebe a saudação na hora
+    if (whatsappConsent === 'granted') {
+      const greetingSent = await this.sendGreeting(schoolId, greeting, input.phone);
+      return { status: 'created', leadId: lead.id, greetingSent, greetingPending: false, successMessage: form.successMessage };
+    }
+
+    const settings = await this.getSettings(schoolId);
+    const greetingPending = settings.greetingEnabled && !!normalizeWhatsappNumber(input.phone) && whatsappConsent === 'pending';
+    if (greetingPending) {
+      await db.execute(`
+        UPDATE leads SET metadata = COALESCE(metadata, '{}')::jsonb || $2::jsonb WHERE id = $1
+      `, [lead.id, JSON.stringify({ pendingGreeting: greeting })]);
+    }
+
+    return { status: 'created', leadId: lead.id, greetingSent: false, greetingPending, successMessage: form.successMessage };
+  }
+
+  /**
+   * Primeira mensagem do contato: confirma o consentimento pendente do
+   * WhatsApp e envia a saudação guardada do lead mais recente
+   * @param schoolId ID da escola
+   * @param from Remetente da mensagem recebida
+   * @param evidence Dados da mensagem, guardados como prova da confirmação
+   * @returns true se havia confirmação pendente
+   */
+  async handleContactReply(schoolId: number, from: string, evidence: Record<string, unknown> = {}): Promise<boolean> {
+    const key = phoneMatchKey(from);
+    if (!key) return false;
+
+    const confirmed = await consentService.confirmPending(schoolId, 'whatsapp', from, evidence);
+    if (!confirmed) return false;
+
+    // A saudação é retirada de todos os leads do número; só a mais recente é enviada
+    const leads = await db.execute(`
+      UPDATE leads
+      SET metadata = metadata::jsonb - 'pendingGreeting'
+      WHERE school_id = $1 AND ${phoneMatchKeySql('phone')} = $2 AND metadata::jsonb ? 'pendingGreeting'
+      RETURNING id, metadata::jsonb -> 'pendingGreeting' AS greeting
+    `, [schoolId, key]);
+
+    const latest = leads.sort((a: any, b: any) => b.id - a.id)[0];
+    if (latest?.greeting) {
+      await this.sendGreeting(schoolId, latest.greeting, from);
+    }
+
+    return true;
+  }
+
+  /**
+   * Envia a saudação pela instância de WhatsApp conectada da escola. Falhas
+   * não impedem a captação
+   * @returns true se a mensagem foi enviada
+   */
+  private async sendGreeting(schoolId: number, variables: Record<string, string>, phone: string): Promise<boolean> {
+    const settings = await this.getSettings(schoolId);
+    const number = normalizeWhatsappNumber(phone.replace(/@.*$/, ''));
+    if (!settings.greetingEnabled || !number) return false;
+
+    const [instance] = await db.execute(`
+      SELECT instance_key FROM whatsapp_instances
+      WHERE school_id = $1 AND active IS NOT FALSE AND status = 'connected'
+      ORDER BY id LIMIT 1
+    `, [schoolId]);
+    if (!instance) return false;
+
+    try {
+      const content = await whatsappTemplateService.processTemplate(settings.greetingMessage, variables);
+      await getEvolutionApiService().sendTextMessage(instance.instance_key, number, content);
+      return true;
+    } catch (error) {
+      console.error(`Erro ao enviar saudação de WhatsApp ao lead da escola ${schoolId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Conta um envio na janela sem depender do cache
+   * @param key Escola e IP de origem
+   * @returns Envios na janela, incluindo este
+   */
+  private countLocalSubmission(key: string): number {
+    const now = Date.now();
+    this.localSubmissions.forEach((entry, entryKey) => {
+      if (entry.expiresAt <= now) this.localSubmissions.delete(entryKey);
+    });
+
+    const entry = this.localSubmissions.get(key) ?? { count: 0, expiresAt: now + RATE_LIMIT_WINDOW_SECONDS * 1000 };
+    entry.count++;
+    this.localSubmissions.set(key, entry);
+    return entry.count;
+  }
+}
+
+export const leadCaptureService = new LeadCaptureService();
+export default leadCaptureService;
@@ -0,0 +1,546 @@
+/**
+ * Pontuação e conversão de leads
+ * Calcula a pontuação do lead a partir dos sinais de engajamento (mensagens
+ * trocadas pelo WhatsApp, preenchimento do cadastro, origem e recência),
+ * converte o lead em aluno e matrícula mantendo o vínculo enrollments.lead_id
+ * e monta o funil de conversão por origem e por atendente sobre esse vínculo
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { storage } from '../storage';
+import { emailService } from '../email';
+import { hashPassword } from '../auth';
+import { logAction } from './securityService';
+import { DomainEvent, domainEventService } from './domainEventService';
+import { enrollmentWorkflowService } from './enrollmentWorkflowService';
+import { phoneMatchKeySql } from './leadAutomationService';
+import { courseSeatService, SeatRequestResult } from './courseSeatService';
+import { INCOMING_DIRECTIONS, OUTGOING_DIRECTIONS } from './whatsappInboxService';
+
+// A recência decai com o tempo, então as pontuações são recalculadas de hora em hora
+const SCORE_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+// Prazo do link de primeiro acesso enviado ao aluno criado na conversão
+const FIRST_ACCESS_TOKEN_HOURS = 72;
+
+// Status em que o lead ainda está em negociação
+const OPEN_LEAD_STATUSES = ['new', 'contacted', 'interested'];
+
+// Peso de cada origem; origens não listadas recebem DEFAULT_SOURCE_POINTS
+const SOURCE_POINTS: Record<string, number> = {
+  indicacao: 20,
+  'indicação': 20,
+  referral: 20,
+  whatsapp: 15,
+  landing_page: 15,
+  site: 15,
+  website: 15,
+  api: 10,
+};
+const DEFAULT_SOURCE_POINTS = 5;
+
+export interface LeadScoreSignals {
+  source: string | null;
+  incomingMessages: number;
+  outgoingMessages: number;
+  hasEmail: boolean;
+  hasPhone: boolean;
+  hasCourse: boolean;
+  consentGiven: boolean;
+  lastActivityAt: Date;
+}
+
+export interface LeadScoreFactors {
+  engagement: number;
+  form: number;
+  source: number;
+  recency: number;
+}
+
+export interface LeadScore {
+  score: number;
+  factors: LeadScoreFactors;
+}
+
+export interface LeadConversionInput {
+  courseId?: number;
+  email?: string;
+  cpf?: string;
+}
+
+export interface LeadConversionResult {
+  leadId: number;
+  userId: number;
+  studentId: number;
+  enrollmentId: number;
+  userCreated: boolean;
+  linkedContacts: number;
+  seatStatus: SeatRequestResult['status'];
+}
+
+export interface FunnelRow {
+  key: string;
+  label: string;
+  leads: number;
+  contacted: number;
+  interested: number;
+  enrolled: number;
+  paid: number;
+  conversionRate: number;
+  avgDaysToEnroll: number | null;
+  avgScore: number | null;
+}
+
+export interface ConversionFunnel {
+  from: Date;
+  to: Date;
+  totals: FunnelRow;
+  bySource: FunnelRow[];
+  byAttendant: FunnelRow[];
+}
+
+/**
+ * Pontuação de 0 a 100: engajamento (até 35), cadastro (até 25), origem
+ * (até 20) e recência da última interação (até 20)
+ * @param signals Sinais de engajamento do lead
+ * @param now Instante de referência para a recência
+ */
+export function calculateLeadScore(signals: LeadScoreSignals, now: Date = new Date()): LeadScore {
+  // Respostas do lead valem mais; a conversa nos dois sentidos soma um bônus
+  const engagement = Math.min(signals.incomingMessages, 5) * 5
+    + (signals.incomingMessages > 0 && signals.outgoingMessages > 0 ? 10 : 0);
+
+  const form = (signals.hasPhone ? 5 : 0)
+    + (signals.hasEmail ? 5 : 0)
+    + (signals.hasCourse ? 10 : 0)
+    + (signals.consentGiven ? 5 : 0);
+
+  const sourceKey = (signals.source || '').trim().toLowerCase();
+  const source = sourceKey ? SOURCE_POINTS[sourceKey] ?? DEFAULT_SOURCE_POINTS : 0;
+
+  const days = Math.max(0, (now.getTime() - signals.lastActivityAt.getTime()) / (24 * 60 * 60 * 1000));
+  const recency = days <= 1 ? 20 : days <= 3 ? 15 : days <= 7 ? 10 : days <= 14 ? 5 : days <= 30 ? 2 : 0;
+
+  return {
+    score: engagement + form + source + recency,
+    factors: { engagement, form, source, recency },
+  };
+}
+
+class LeadConversionService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Cria as colunas de pontuação em leads e o vínculo da matrícula com o lead
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      ALTER TABLE IF EXISTS leads ADD COLUMN IF NOT EXISTS score INTEGER;
+      ALTER TABLE IF EXISTS leads ADD COLUMN IF NOT EXISTS score_factors JSONB;
+      ALTER TABLE IF EXISTS leads ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP;
+      ALTER TABLE IF EXISTS enrollments ADD COLUMN IF NOT EXISTS lead_id INTEGER;
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_enrollments_lead
+        ON enrollments(lead_id) WHERE lead_id IS NOT NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_contacts_lead
+        ON whatsapp_contacts(lead_id) WHERE lead_id IS NOT NULL;
+    `);
+  }
+
+  /**
+   * Assina a criação de leads para vincular os contatos de WhatsApp e calcular
+   * a primeira pontuação; deve ser chamado antes de iniciar o despacho
+   */
+  registerEventSubscribers(): void {
+    domainEventService.subscribe('lead-scoring', { eventTypes: ['lead.created'] }, event => this.handleDomainEvent(event));
+  }
+
+  /**
+   * Inicia o recálculo periódico das pontuações dos leads em aberto
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.processing) return;
+      this.processing = true;
+      this.refreshScores()
+        .catch(error => {
+          console.error('[LeadConversion] Erro ao recalcular pontuações:', error);
+        })
+        .finally(() => {
+          this.processing = false;
+        });
+    }, SCORE_REFRESH_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async handleDomainEvent(event: DomainEvent): Promise<void> {
+    const leadId = parseInt(event.aggregateId);
+    await this.linkWhatsappContacts({ leadId });
+    await this.refreshScores({ leadId });
+  }
+
+  /**
+   * Vincula ao lead os contatos de WhatsApp ainda sem lead com o mesmo
+   * telefone que conversaram com alguma instância da escola
+   * @param filter Um lead específico ou os leads em aberto de uma escola
+   * @returns Quantidade de contatos vinculados
+   */
+  async linkWhatsappContacts(filter: { leadId?: number; schoolId?: number } = {}): Promise<number> {
+    const rows = await db.execute(`
+      UPDATE whatsapp_contacts c
+      SET lead_id = l.id, updated_at = NOW()
+      FROM leads l
+      WHERE c.lead_id IS NULL
+        AND c.is_group IS NOT TRUE
+        AND ($1::int IS NULL OR l.id = $1)
+        AND ($2::int IS NULL OR l.school_id = $2)
+        AND ($1::int IS NOT NULL OR l.status = ANY($3::text[]))
+        AND ${phoneMatchKeySql('c.phone_number')} = ${phoneMatchKeySql('l.phone')}
+        AND EXISTS (
+          SELECT 1 FROM whatsapp_messages m
+          JOIN whatsapp_instances i ON i.id = m.instance_id
+          WHERE m.contact_id = c.id AND i.school_id = l.school_id
+        )
+      RETURNING c.id
+    `, [filter.leadId ?? null, filter.schoolId ?? null, OPEN_LEAD_STATUSES, INCOMING_DIRECTIONS, OUTGOING_DIRECTIONS]);
+
+    return rows.length;
+  }
+
+  /**
+   * Recalcula e grava a pontuação de um lead ou dos leads em aberto
+   * @param filter Um lead específico, os leads em aberto de uma escola ou,
+   * sem filtro, os leads em aberto de todas as escolas
+   * @returns Quantidade de leads pontuados
+   */
+  async refreshScores(filter: { leadId?: number; schoolId?: number } = {}, now: Date = new Date()): Promise<number> {
+    const rows = await db.execute(`
+      SELECT
+        l.id, l.source, l.email, l.phone, l.course_id, l.metadata, l.created_at, l.updated_at,
+        COALESCE(m.incoming, 0)::int AS incoming_messages,
+        COALESCE(m.outgoing, 0)::int AS outgoing_messages,
+        m.last_message_at
+      FROM leads l
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) FILTER (WHERE wm.direction = ANY($4::text[])) AS incoming,
+          COUNT(*) FILTER (WHERE wm.direction = ANY($5::text[])) AS outgoing,
+          MAX(wm.created_at) AS last_message_at
+        FROM whatsapp_contacts c
+        JOIN whatsapp_messages wm ON wm.contact_id = c.id
+        JOIN whatsapp_instances i ON i.id = wm.instance_id AND i.school_id = l.school_id
+        WHERE c.lead_id = l.id
+      ) m ON TRUE
+      WHERE ($1::int IS NULL OR l.id = $1)
+        AND ($2::int IS NULL OR l.school_id = $2)
+        AND ($1::int IS NOT NULL OR l.status = ANY($3::text[]))
+    `, [filter.leadId ?? null, filter.schoolId ?? null, OPEN_LEAD_STATUSES, INCOMING_DIRECTIONS, OUTGOING_DIRECTIONS]);
+    if (rows.length === 0) return 0;
+
+    const scores = rows.map((row: any) => calculateLeadScore(this.mapSignals(row), now));
+
+    await db.execute(`
+      UPDATE leads l
+      SET score = s.score, score_factors = s.factors, score_updated_at = NOW()
+      FROM unnest($1::int[], $2::int[], $3::jsonb[]) AS s(id, score, factors)
+      WHERE l.id = s.id
+    `, [
+      rows.map((row: any) => row.id),
+      scores.map(item => item.score),
+      scores.map(item => JSON.stringify(item.factors)),
+    ]);
+
+    return rows.length;
+  }
+
+  /**
+   * Pontuação gravada de um lead, com os fatores que a compõem
+   * @param leadId ID do lead
+   */
+  async getScore(leadId: number): Promise<(LeadScore & { updatedAt: Date | null }) | null> {
+    const [row] = await db.execute(`
+      SELECT score, score_factors, score_updated_at FROM leads WHERE id = $1
+    `, [leadId]);
+    if (!row || row.score === null || row.score === undefined) return null;
+
+    return {
+      score: row.score,
+      factors: row.score_factors,
+      updatedAt: row.score_updated_at,
+    };
+  }
+
+  /**
+   * Converte o lead em aluno e matrícula: reaproveita ou cria o usuário do
+   * aluno pelo e-mail, cria a matrícula vinculada ao lead com curso e
+   * observações, transfere os contatos de WhatsApp e marca o lead como
+   * convertido
+   * @param leadId ID do lead
+   * @param input Curso, e-mail e CPF quando o lead não os tiver
+   * @param userId Usuário que executou a conversão
+   */
+  async convertLead(leadId: number, input: LeadConversionInput, userId: number): Promise<LeadConversionResult> {
+    const [lead] = await db.execute(`
+      SELECT l.*, (SELECT e.id FROM enrollments e WHERE e.lead_id = l.id LIMIT 1) AS enrollment_id
+      FROM leads l
+      WHERE l.id = $1
+    `, [leadId]);
+    if (!lead) {
+      throw new Error('Lead não encontrado');
+    }
+    if (lead.enrollment_id) {
+      throw new Error('Lead já convertido em matrícula');
+    }
+
+    const courseId = input.courseId ?? lead.course_id;
+    if (!courseId) {
+      throw new Error('Informe o curso da matrícula');
+    }
+    const [course] = await db.execute(`
+      SELECT id, name FROM courses WHERE id = $1 AND school_id = $2
+    `, [courseId, lead.school_id]);
+    if (!course) {
+      throw new Error('Curso não encontrado');
+    }
+
+    const email = (input.email || lead.email || '').trim().toLowerCase();
+    if (!email) {
+      throw new Error('Informe o e-mail do aluno');
+    }
+
+    const { id: studentUserId, created: userCreated } = await this.findOrCreateStudentUser(lead, email);
+    const studentId = await this.findOrCreateStudent(studentUserId, lead.school_id, input.cpf ?? null, lead.id);
+
+    const initialStatus = await enrollmentWorkflowService.getInitialStatus(lead.school_id);
+    const enrollment = await storage.createEnrollment({
+      studentId,
+      schoolId: lead.school_id,
+      courseId,
+      leadId: lead.id,
+      status: initialStatus,
+      metadata: {
+        lead: {
+          id: lead.id,
+          source: lead.source,
+          notes: lead.notes,
+          campaign: lead.metadata?.campaign ?? null,
+          score: lead.score ?? null,
+        },
+      },
+      createdById: userId,
+    });
+    if (!enrollment) {
+      // O índice único de enrollments.lead_id barra conversões simultâneas
+      throw new Error('Lead já convertido em matrícula');
+    }
+
+    // Mesmo fluxo da criação de matrícula: histórico do status inicial e reserva de vaga
+    await enrollmentWorkflowService.recordInitialStatus(enrollment.id, enrollment.status || initialStatus, userId);
+    const seat = await courseSeatService.requestSeat({ id: enrollment.id, courseId, schoolId: lead.school_id, studentId });
+
+    const contacts = await db.execute(`
+      UPDATE whatsapp_contacts
+      SET student_id = $2, updated_at = NOW()
+      WHERE lead_id = $1
+      RETURNING id
+    `, [lead.id, studentId]);
+
+    await storage.updateLead(lead.id, { status: 'converted', courseId });
+
+    if (userCreated) {
+      await this.sendFirstAccessEmail(studentUserId, email, lead.full_name);
+    }
+
+    await logAction(
+      userId,
+      'lead_converted',
+      'lead',
+      String(lead.id),
+      { enrollmentId: enrollment.id, studentId, courseId, userCreated, seatStatus: seat.status }
+    );
+
+    return {
+      leadId: lead.id,
+      userId: studentUserId,
+      studentId,
+      enrollmentId: enrollment.id,
+      userCreated,
+      linkedContacts: contacts.length,
+      seatStatus: seat.status,
+    };
+  }
+
+  /**
+   * Funil de conversão da escola por origem e por atendente, a partir dos
+   * leads criados no período e das matrículas vinculadas a eles
+   * @param schoolId ID da escola
+   * @param from Início do período
+   * @param to Fim do período
+   */
+  async getFunnel(schoolId: number, from: Date, to: Date): Promise<ConversionFunnel> {
+    const params = [schoolId, from, to];
+    const [totals] = await this.queryFunnel(`'total'`, `'Total'`, params);
+    const bySource = await this.queryFunnel(
+      `COALESCE(NULLIF(l.source, ''), 'desconhecida')`,
+      `COALESCE(NULLIF(l.source, ''), 'desconhecida')`,
+      params
+    );
+    const byAttendant = await this.queryFunnel(
+      `COALESCE(l.assigned_to::text, 'none')`,
+      `COALESCE(MAX(u.full_name), 'Sem atendente')`,
+      params
+    );
+
+    return {
+      from,
+      to,
+      totals: totals || this.mapFunnelRow({ key: 'total', label: 'Total' }),
+      bySource,
+      byAttendant,
+    };
+  }
+
+  private async queryFunnel(keyExpression: string, labelExpression: string, params: any[]): Promise<FunnelRow[]> {
+    const rows = await db.execute(`
+      SELECT
+        ${keyExpression} AS key,
+        ${labelExpression} AS label,
+        COUNT(*)::int AS leads,
+        COUNT(*) FILTER (WHERE l.status <> 'new' OR e.id IS NOT NULL)::int AS contacted,
+        COUNT(*) FILTER (WHERE l.status IN ('interested', 'converted') OR e.id IS NOT NULL)::int AS interested,
+        COUNT(e.id)::int AS enrolled,
+        COUNT(e.id) FILTER (WHERE e.payment_status = 'paid')::int AS paid,
+        AVG(EXTRACT(EPOCH FROM (e.created_at - l.created_at)) / 86400) AS avg_days_to_enroll,
+        AVG(l.score) AS avg_score
+      FROM leads l
+      LEFT JOIN enrollments e ON e.lead_id = l.id
+      LEFT JOIN users u ON u.id = l.assigned_to
+      WHERE l.school_id = $1 AND l.created_at >= $2 AND l.created_at < $3
+      GROUP BY 1
+      ORDER BY leads DESC
+    `, params);
+
+    return rows.map((row: any) => this.mapFunnelRow(row));
+  }
+
+  private async findOrCreateStudentUser(lead: any, email: string): Promise<{ id: number; created: boolean }> {
+    const [existing] = await db.execute(`
+      SELECT id, role FROM users WHERE LOWER(email) = $1
+    `, [email]);
+    if (existing) {
+      if (existing.role !== 'student') {
+        throw new Error('E-mail já cadastrado para outro tipo de usuário');
+      }
+      return { id: existing.id, created: false };
+    }
+
+    const base = email.split('@')[0].replace(/[^a-z0-9._-]/g, '').slice(0, 30) || 'aluno';
+    const [taken] = await db.execute(`SELECT 1 FROM users WHERE username = $1`, [base]);
+    const username = taken ? `${base}-${lead.id}` : base;
+
+    // Senha aleatória: o aluno define a própria pelo link de primeiro acesso
+    const password = await hashPassword(randomBytes(24).toString('hex'));
+
+    const [user] = await db.execute(`
+      INSERT INTO users (username, email, password, full_name, role, phone, school_id)
+      VALUES ($1, $2, $3, $4, 'student', $5, $6)
+      RETURNING id
+    `, [username, email, password, lead.full_name, lead.phone ?? null, lead.school_id]);
+    if (!user) {
+      throw new Error('Erro ao criar usuário do aluno');
+    }
+
+    return { id: user.id, created: true };
+  }
+
+  private async findOrCreateStudent(userId: number, schoolId: number, cpf: string | null, leadId: number): Promise<number> {
+    const [existing] = await db.execute(`
+      SELECT id FROM students WHERE user_id = $1 AND school_id = $2
+    `, [userId, schoolId]);
+    if (existing) return existing.id;
+
+    const [student] = await db.execute(`
+      INSERT INTO students (user_id, school_id, cpf)
+      VALUES ($1, $2, $3)
+      RETURNING id
+    `, [userId, schoolId, cpf]);
+    if (!student) {
+      throw new Error(`Erro ao criar cadastro de aluno do lead ${leadId}`);
+    }
+
+    return student.id;
+  }
+
+  private async sendFirstAccessEmail(userId: number, email: string, name: string): Promise<void> {
+    const token = randomBytes(40).toString('hex');
+    const expiresAt = new Date(Date.now() + FIRST_ACCESS_TOKEN_HOURS * 60 * 60 * 1000);
+
+    await db.execute(`
+      INSERT INTO password_reset_tokens (user_id, token, expires_at, used)
+      VALUES ($1, $2, $3, FALSE)
+    `, [userId, token, expiresAt]);
+
+    const url = `${process.env.APP_URL || 'http://localhost:5000'}/reset-password?token=${token}`;
+    const result = await emailService.sendEmail({
+      to: email,
+      subject: 'Bem-vindo(a) ao EduMatrik',
+      html: `
+        <p>Olá, ${name}!</p>
+        <p>Sua matrícula foi iniciada. Para acessar o portal do aluno, defina sua senha pelo link abaixo:</p>
+        <p><a href="${url}">Definir minha senha</a></p>
+        <p>O link expira em ${FIRST_ACCESS_TOKEN_HOURS} horas.</p>
+      `,
+    });
+    if (!result.success) {
+      console.error(`[LeadConversion] Falha ao enviar e-mail de primeiro acesso ao usuário ${userId}`);
+    }
+  }
+
+  private mapSignals(row: any): LeadScoreSignals {
+    const lastActivity = [row.last_message_at, row.updated_at, row.created_at]
+      .filter(Boolean)
+      .map((value: any) => new Date(value).getTime());
+
+    return {
+      source: row.source ?? null,
+      incomingMessages: row.incoming_messages || 0,
+      outgoingMessages: row.outgoing_messages || 0,
+      hasEmail: !!row.email,
+      hasPhone: !!row.phone,
+      hasCourse: !!row.course_id,
+      consentGiven: row.metadata?.consent?.accepted === true,
+      lastActivityAt: new Date(lastActivity.length > 0 ? Math.max(...lastActivity) : Date.now()),
+    };
+  }
+
+  private mapFunnelRow(row: any): FunnelRow {
+    const leads = row.leads || 0;
+    const enrolled = row.enrolled || 0;
+
+    return {
+      key: String(row.key),
+      label: row.label,
+      leads,
+      contacted: row.contacted || 0,
+      interested: row.interested || 0,
+      enrolled,
+      paid: row.paid || 0,
+      conversionRate: leads > 0 ? enrolled / leads : 0,
+      avgDaysToEnroll: row.avg_days_to_enroll != null ? Math.round(Number(row.avg_days_to_enroll) * 10) / 10 : null,
+      avgScore: row.avg_score != null ? Math.round(Number(row.avg_score)) : null,
+    };
+  }
+}
+
+export const leadConversionService = new LeadConversionService();
+export default leadConversionService;
@@ -0,0 +1,651 @@
+/**
+ * Exportação do EduMatrik para sistemas legados (ERP acadêmico)
+ * Lê alunos, matrículas, cursos e pagamentos da escola, monta o payload pelas
+ * regras de exportação e pelo template de requisição do endpoint, cria ou
+ * atualiza o registro no sistema legado conforme legacy_id_mappings e detecta
+ * conflitos em mapeamentos bidirecionais
+ */
+
+import crypto from 'crypto';
+import { AxiosInstance } from 'axios';
+import { db } from '../db';
+import { FieldRule, getPath, transformRecord } from './transformationEngine';
+
+export type ExportEntity = 'student' | 'enrollment' | 'course' | 'payment';
+
+// Estratégia de conflito em mapeamentos bidirecionais
+export type ConflictStrategy = 'last_write_wins' | 'legacy_wins';
+
+// Situações exportadas por padrão
+const DEFAULT_ENROLLMENT_STATUSES = ['approved', 'completed'];
+const DEFAULT_PAYMENT_STATUSES = ['paid'];
+
+const DEFAULT_EXPORT_LIMIT = 500;
+
+export interface ExportSourceRecord {
+  id: number;
+  updatedAt: Date | null;
+  [key: string]: any;
+}
+
+export interface ExportRecordError {
+  edumatrikId: number;
+  message: string;
+}
+
+export interface ExportResult {
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  conflicts: number;
+  failed: number;
+  errors: ExportRecordError[];
+}
+
+export interface ExportEndpoint {
+  id: number;
+  name: string;
+  endpoint: string;
+  method: string;
+  requestTemplate: any;
+  responseTemplate: any;
+  headers: any;
+  rateLimitPerMinute: number | null;
+}
+
+export interface ExportOptions {
+  syncId: number;
+  systemId: number;
+  schoolId: number;
+  mapping: {
+    id: number;
+    edumatrikEntity: string;
+    legacyEntity: string;
+    mappingDirection: string;
+    primaryKeyMapping: any;
+  };
+  rules: FieldRule[];
+  client: AxiosInstance;
+  filters?: Record<string, any>;
+  limit?: number;
+}
+
+interface IdMapping {
+  legacyId: string;
+  lastSyncAt: Date | null;
+  lastHash: string | null;
+}
+
+/**
+ * Normaliza o nome da entidade do mapeamento ("students" -> "student")
+ */
+export function normalizeExportEntity(entity: string): ExportEntity {
+  const normalized = entity.trim().toLowerCase().replace(/s$/, '');
+  if (!['student', 'enrollment', 'course', 'payment'].includes(normalized)) {
+    throw new Error(`Exportação não suportada para a entidade ${entity}`);
+  }
+  return normalized as ExportEntity;
+}
+
+/**
+ * Preenche o template de requisição. Um texto que é só "{{caminho}}" recebe o
+ * valor com o tipo original; dentro de textos maiores o valor é interpolado
+ * @param template Template configurado no endpoint
+ * @param context Dados disponíveis (registro mapeado, legacyId, edumatrik)
+ */
+export function renderRequestTemplate(template: any, context: Record<string, any>): any {
+  if (typeof template === 'string') {
+    const whole = template.match(/^\{\{\s*([^}]+?)\s*\}\}$/);
+    if (whole) {
+      const value = getPath(context, whole[1]);
+      return value === undefined ? null : value;
+    }
+    return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path) => {
+      const value = getPath(context, path);
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => renderRequestTemplate(item, context));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderRequestTemplate(value, context)])
+    );
+  }
+  return template;
+}
+
+/**
+ * Decide se o registro deve ser enviado quando os dois lados mudaram desde a
+ * última sincronização
+ * @param strategy Estratégia configurada no mapeamento
+ * @param localUpdatedAt Última alteração no EduMatrik
+ * @param legacyUpdatedAt Última alteração no sistema legado
+ * @param lastSyncAt Última sincronização do registro
+ * @returns null sem conflito; caso contrário, se o EduMatrik prevalece
+ */
+export function resolveConflict(
+  strategy: ConflictStrategy,
+  localUpdatedAt: Date | null,
+  legacyUpdatedAt: Date | null,
+  lastSyncAt: Date | null
+): { edumatrikWins: boolean } | null {
+  if (!legacyUpdatedAt || !lastSyncAt || legacyUpdatedAt <= lastSyncAt) {
+    return null;
+  }
+
+  if (strategy === 'legacy_wins') {
+    return { edumatrikWins: false };
+  }
+  return { edumatrikWins: !!localUpdatedAt && localUpdatedAt > legacyUpdatedAt };
+}
+
+class LegacyExportService {
+  /**
+   * Colunas de controle da exportação e tabela de conflitos
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      ALTER TABLE IF EXISTS legacy_data_mappings
+        ADD COLUMN IF NOT EXISTS conflict_strategy TEXT NOT NULL DEFAULT 'last_write_wins',
+        ADD COLUMN IF NOT EXISTS legacy_updated_at_field TEXT;
+
+      ALTER TABLE IF EXISTS legacy_id_mappings
+        ADD COLUMN IF NOT EXISTS last_hash TEXT;
+
+      CREATE TABLE IF NOT EXISTS legacy_sync_conflicts (
+        id SERIAL PRIMARY KEY,
+        legacy_system_id INTEGER NOT NULL,
+        sync_id INTEGER,
+        edumatrik_entity TEXT NOT NULL,
+        edumatrik_id TEXT NOT NULL,
+        legacy_id TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        resolution TEXT NOT NULL,
+        edumatrik_updated_at TIMESTAMP,
+        legacy_updated_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_legacy_sync_conflicts_system
+        ON legacy_sync_conflicts(legacy_system_id, created_at DESC);
+    `);
+
+    // Separado: falha em bases com duplicidades antigas sem impedir o restante
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_legacy_id_mappings_record
+        ON legacy_id_mappings(legacy_system_id, edumatrik_entity, edumatrik_id)
+    `);
+  }
+
+  /**
+   * Exporta os registros da entidade do mapeamento para o sistema legado
+   * @param options Sistema, mapeamento, regras de exportação e cliente HTTP
+   * @returns Contadores da exportação
+   */
+  async exportEntity(options: ExportOptions): Promise<ExportResult> {
+    const entity = normalizeExportEntity(options.mapping.edumatrikEntity);
+    const endpoints = await this.getExportEndpoints(options.systemId, options.mapping.legacyEntity);
+
+    if (!endpoints.create && !endpoints.update) {
+      throw new Error(`Endpoint de exportação não encontrado para a entidade ${options.mapping.legacyEntity}`);
+    }
+
+    const [settings] = await db.execute(`
+      SELECT conflict_strategy, legacy_updated_at_field FROM legacy_data_mappings WHERE id = $1
+    `, [options.mapping.id]);
+
+    const strategy: ConflictStrategy = settings?.conflict_strategy === 'legacy_wins' ? 'legacy_wins' : 'last_write_wins';
+    const bidirectional = options.mapping.mappingDirection === 'bidirectional';
+    const filters = options.filters || {};
+    const since = filters.updatedSince ? new Date(filters.updatedSince) : null;
+
+    const records = await this.loadRecords(entity, options.schoolId, options.systemId, {
+      since,
+      statuses: Array.isArray(filters.statuses) ? filters.statuses : undefined,
+      limit: options.limit || DEFAULT_EXPORT_LIMIT,
+    });
+
+    const result: ExportResult = { processed: 0, created: 0, updated: 0, skipped: 0, conflicts: 0, failed: 0, errors: [] };
+    const throttle = this.createThrottle(endpoints.create?.rateLimitPerMinute || endpoints.update?.rateLimitPerMinute || null);
+
+    for (const record of records) {
+      result.processed++;
+
+      try {
+        const { output, errors } = transformRecord(record, options.rules);
+        if (errors.length > 0) {
+          throw new Error(errors.map(error => `${error.field}: ${error.message}`).join('; '));
+        }
+
+        const existing = await this.getIdMapping(options.systemId, entity, record.id);
+        const hash = crypto.createHash('sha256').update(JSON.stringify(output)).digest('hex');
+
+        // Registro já enviado com o mesmo conteúdo
+        if (existing && existing.lastHash === hash) {
+          await this.touchIdMapping(options.systemId, entity, record.id);
+          result.skipped++;
+          continue;
+        }
+
+        if (existing && bidirectional && endpoints.get && settings?.legacy_updated_at_field) {
+          await throttle();
+          const legacyUpdatedAt = await this.fetchLegacyUpdatedAt(
+            options.client, endpoints.get, existing.legacyId, settings.legacy_updated_at_field
+          );
+          const conflict = resolveConflict(strategy, record.updatedAt, legacyUpdatedAt, existing.lastSyncAt);
+
+          if (conflict) {
+            result.conflicts++;
+            await this.recordConflict(options, entity, record, existing.legacyId, strategy, conflict.edumatrikWins, legacyUpdatedAt);
+            if (!conflict.edumatrikWins) {
+              // O sistema legado prevalece: a alteração local deixa de ficar pendente
+              await this.touchIdMapping(options.systemId, entity, record.id);
+              result.skipped++;
+              continue;
+            }
+          }
+        }
+
+        const endpoint = existing ? endpoints.update : endpoints.create;
+        if (!endpoint) {
+          throw new Error(`Endpoint de ${existing ? 'atualização' : 'criação'} não configurado`);
+        }
+
+        await throttle();
+        const context = { ...output, legacyId: existing?.legacyId ?? null, edumatrik: record };
+        const response = await options.client.request({
+          method: endpoint.method as any,
+          url: renderRequestTemplate(endpoint.endpoint, context),
+          data: endpoint.requestTemplate ? renderRequestTemplate(this.parseJson(endpoint.requestTemplate), context) : output,
+          headers: this.parseJson(endpoint.headers) || undefined,
+        });
+
+        const legacyId = existing?.legacyId || this.extractLegacyId(response.data, endpoint, options.mapping.primaryKeyMapping);
+        if (!legacyId) {
+          throw new Error('Resposta do sistema legado sem identificador do registro');
+        }
+
+        await this.saveIdMapping(options.systemId, entity, record.id, options.mapping.legacyEntity, legacyId, hash);
+        existing ? result.updated++ : result.created++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push({
+          edumatrikId: record.id,
+          message: error instanceof Error ? error.message : 'Erro desconhecido'
+        });
+      }
+    }
+
+    await db.execute(`
+      UPDATE legacy_sync_history
+      SET records_processed = COALESCE(records_processed, 0) + $2,
+        records_succeeded = COALESCE(records_succeeded, 0) + $3,
+        records_failed = COALESCE(records_failed, 0) + $4,
+        error_details = CASE WHEN $5::text IS NULL THEN error_details ELSE $5::json END
+      WHERE id = $1
+    `, [
+      options.syncId,
+      result.processed,
+      result.created + result.updated + result.skipped,
+      result.failed,
+      result.errors.length > 0 ? JSON.stringify({ export: result.errors.slice(0, 100) }) : null
+    ]);
+
+    return result;
+  }
+
+  /**
+   * Conflitos registrados nas exportações de um sistema legado
+   * @param systemId ID do sistema legado
+   */
+  async listConflicts(systemId: number, limit = 100): Promise<any[]> {
+    const rows = await db.execute(`
+      SELECT * FROM legacy_sync_conflicts
+      WHERE legacy_system_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `, [systemId, limit]);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      syncId: row.sync_id,
+      edumatrikEntity: row.edumatrik_entity,
+      edumatrikId: row.edumatrik_id,
+      legacyId: row.legacy_id,
+      strategy: row.strategy,
+      resolution: row.resolution,
+      edumatrikUpdatedAt: row.edumatrik_updated_at,
+      legacyUpdatedAt: row.legacy_updated_at,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Lê os registros da escola pendentes de exportação: nunca enviados ou
+   * alterados depois da última sincronização do próprio registro
+   */
+  private async loadRecords(
+    entity: ExportEntity,
+    schoolId: number,
+    systemId: number,
+    options: { since: Date | null; statuses?: string[]; limit: number }
+  ): Promise<ExportSourceRecord[]> {
+    switch (entity) {
+      case 'student': {
+        const rows = await db.execute(`
+          SELECT s.*, u.full_name, u.email, u.phone, GREATEST(s.updated_at, u.updated_at) AS changed_at
+          FROM students s
+          JOIN users u ON u.id = s.user_id
+          WHERE s.school_id = $1 AND ($2::timestamp IS NULL OR GREATEST(s.updated_at, u.updated_at) > $2)
+            AND ${this.pendingCondition('student', 's', 'GREATEST(s.updated_at, u.updated_at)')}
+          ORDER BY changed_at, s.id
+          LIMIT $3
+        `, [schoolId, options.since, options.limit, systemId]);
+
+        return rows.map((row: any) => ({
+          id: row.id,
+          userId: row.user_id,
+          fullName: row.full_name,
+          email: row.email,
+          phone: row.phone,
+          cpf: row.cpf,
+          birthdate: row.birthdate,
+          gender: row.gender,
+          address: row.address,
+          city: row.city,
+          state: row.state,
+          zipCode: row.zip_code,
+          parentName: row.parent_name,
+          parentRelationship: row.parent_relationship,
+          parentEmail: row.parent_email,
+          parentPhone: row.parent_phone,
+          active: row.active,
+          createdAt: row.created_at,
+          updatedAt: row.changed_at,
+        }));
+      }
+
+      case 'course': {
+        const rows = await db.execute(`
+          SELECT c.* FROM courses c
+          WHERE c.school_id = $1 AND ($2::timestamp IS NULL OR c.updated_at > $2)
+            AND ${this.pendingCondition('course', 'c', 'c.updated_at')}
+          ORDER BY c.updated_at, c.id
+          LIMIT $3
+        `, [schoolId, options.since, options.limit, systemId]);
+
+        return rows.map((row: any) => ({
+          id: row.id,
+          name: row.name,
+          description: row.description,
+          category: row.category,
+          duration: row.duration,
+          price: row.price,
+          schedule: row.schedule,
+          startDate: row.start_date,
+          endDate: row.end_date,
+          maxStudents: row.max_students,
+          status: row.status,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        }));
+      }
+
+      case 'enrollment': {
+        const rows = await db.execute(`
+          SELECT e.*, u.full_name AS student_name, s.cpf AS student_cpf, c.name AS course_name,
+            sm.legacy_id AS student_legacy_id, cm.legacy_id AS course_legacy_id
+          FROM enrollments e
+          LEFT JOIN students s ON s.id = e.student_id
+          LEFT JOIN users u ON u.id = s.user_id
+          LEFT JOIN courses c ON c.id = e.course_id
+          LEFT JOIN legacy_id_mappings sm ON sm.legacy_system_id = $4
+            AND sm.edumatrik_entity = 'student' AND sm.edumatrik_id = e.student_id::text
+          LEFT JOIN legacy_id_mappings cm ON cm.legacy_system_id = $4
+            AND cm.edumatrik_entity = 'course' AND cm.edumatrik_id = e.course_id::text
+          WHERE e.school_id = $1 AND e.status = ANY($5)
+            AND ($2::timestamp IS NULL OR e.updated_at > $2)
+            AND ${this.pendingCondition('enrollment', 'e', 'e.updated_at')}
+          ORDER BY e.updated_at, e.id
+          LIMIT $3
+        `, [schoolId, options.since, options.limit, systemId, options.statuses || DEFAULT_ENROLLMENT_STATUSES]);
+
+        return rows.map((row: any) => ({
+          id: row.id,
+          studentId: row.student_id,
+          studentName: row.student_name,
+          studentCpf: row.student_cpf,
+          studentLegacyId: row.student_legacy_id,
+          courseId: row.course_id,
+          courseName: row.course_name,
+          courseLegacyId: row.course_legacy_id,
+          status: row.status,
+          semester: row.semester,
+          year: row.year,
+          paymentStatus: row.payment_status,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        }));
+      }
+
+      case 'payment': {
+        const rows = await db.execute(`
+          SELECT p.*, sm.legacy_id AS student_legacy_id, em.legacy_id AS enrollment_legacy_id
+          FROM payments p
+          LEFT JOIN legacy_id_mappings sm ON sm.legacy_system_id = $4
+            AND sm.edumatrik_entity = 'student' AND sm.edumatrik_id = p.student_id::text
+          LEFT JOIN legacy_id_mappings em ON em.legacy_system_id = $4
+            AND em.edumatrik_entity = 'enrollment' AND em.edumatrik_id = p.enrollment_id::text
+          WHERE p.school_id = $1 AND p.status = ANY($5)
+            AND ($2::timestamp IS NULL OR p.updated_at > $2)
+            AND ${this.pendingCondition('payment', 'p', 'p.updated_at')}
+          ORDER BY p.updated_at, p.id
+          LIMIT $3
+        `, [schoolId, options.since, options.limit, systemId, options.statuses || DEFAULT_PAYMENT_STATUSES]);
+
+        return rows.map((row: any) => ({
+          id: row.id,
+          amount: parseFloat(row.amount),
+          status: row.status,
+          description: row.description,
+          dueDate: row.due_date,
+          paidAt: row.metadata?.settledAt || (row.status === 'paid' ? row.updated_at : null),
+          paymentMethod: row.payment_method,
+          gateway: row.gateway,
+          studentId: row.student_id,
+          studentLegacyId: row.student_legacy_id,
+          enrollmentId: row.enrollment_id,
+          enrollmentLegacyId: row.enrollment_legacy_id,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        }));
+      }
+    }
+  }
+
+  /**
+   * Condição SQL de registro pendente; o sistema legado é sempre o parâmetro $4
+   */
+  private pendingCondition(entity: ExportEntity, alias: string, updatedAt: string): string {
+    return `NOT EXISTS (
+      SELECT 1 FROM legacy_id_mappings synced
+      WHERE synced.legacy_system_id = $4 AND synced.edumatrik_entity = '${entity}'
+        AND synced.edumatrik_id = ${alias}.id::text AND synced.last_sync_at >= ${updatedAt}
+    )`;
+  }
+
+  /**
+   * Endpoints de criação, atualização e consulta da entidade legada. Usa os
+   * nomes "<entidade>:create", "<entidade>:update" e "<entidade>:get" ou, na
+   * falta deles, o endpoint da entidade pelo método HTTP
+   */
+  private async getExportEndpoints(systemId: number, legacyEntity: string): Promise<{
+    create?: ExportEndpoint;
+    update?: ExportEndpoint;
+    get?: ExportEndpoint;
+  }> {
+    const rows = await db.execute(`
+      SELECT * FROM legacy_endpoints
+      WHERE legacy_system_id = $1 AND COALESCE(status::text, 'active') = 'active'
+    `, [systemId]);
+
+    const endpoints: ExportEndpoint[] = rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      endpoint: row.endpoint,
+      method: (row.method || 'GET').toUpperCase(),
+      requestTemplate: row.request_template,
+      responseTemplate: row.response_template,
+      headers: row.headers,
+      rateLimitPerMinute: row.rate_limit_per_minute,
+    }));
+
+    const entity = legacyEntity.toLowerCase();
+    const named = (action: string) => endpoints.find(endpoint => endpoint.name.toLowerCase() === `${entity}:${action}`);
+    const byMethod = (methods: string[]) => endpoints.find(endpoint =>
+      endpoint.name.toLowerCase() === entity && methods.includes(endpoint.method)
+    );
+
+    return {
+      create: named('create') || byMethod(['POST']),
+      update: named('update') || byMethod(['PUT', 'PATCH']),
+      get: named('get'),
+    };
+  }
+
+  private async getIdMapping(systemId: number, entity: ExportEntity, edumatrikId: number): Promise<IdMapping | null> {
+    const [row] = await db.execute(`
+      SELECT legacy_id, last_sync_at, last_hash FROM legacy_id_mappings
+      WHERE legacy_system_id = $1 AND edumatrik_entity = $2 AND edumatrik_id = $3
+    `, [systemId, entity, String(edumatrikId)]);
+
+    return row ? { legacyId: row.legacy_id, lastSyncAt: row.last_sync_at, lastHash: row.last_hash } : null;
+  }
+
+  private async saveIdMapping(
+    systemId: number,
+    entity: ExportEntity,
+    edumatrikId: number,
+    legacyEntity: string,
+    legacyId: string,
+    hash: string
+  ): Promise<void> {
+    await db.execute(`
+      INSERT INTO legacy_id_mappings
+        (legacy_system_id, edumatrik_entity, edumatrik_id, legacy_entity, legacy_id, last_hash, last_sync_at)
+      VALUES ($1, $2, $3, $4, $5, $6, NOW())
+      ON CONFLICT (legacy_system_id, edumatrik_entity, edumatrik_id) DO UPDATE SET
+        legacy_id = EXCLUDED.legacy_id,
+        last_hash = EXCLUDED.last_hash,
+        last_sync_at = NOW(),
+        updated_at = NOW()
+    `, [systemId, entity, String(edumatrikId), legacyEntity, legacyId, hash]);
+  }
+
+  private async touchIdMapping(systemId: number, entity: ExportEntity, edumatrikId: number): Promise<void> {
+    await db.execute(`
+      UPDATE legacy_id_mappings SET last_sync_at = NOW()
+      WHERE legacy_system_id = $1 AND edumatrik_entity = $2 AND edumatrik_id = $3
+    `, [systemId, entity, String(edumatrikId)]);
+  }
+
+  /**
+   * Consulta o registro no sistema legado e lê a data da última alteração
+   */
+  private async fetchLegacyUpdatedAt(
+    client: AxiosInstance,
+    endpoint: ExportEndpoint,
+    legacyId: string,
+    updatedAtField: string
+  ): Promise<Date | null> {
+    const response = await client.request({
+      method: endpoint.method as any,
+      url: renderRequestTemplate(endpoint.endpoint, { legacyId }),
+      headers: this.parseJson(endpoint.headers) || undefined,
+    });
+
+    const value = getPath(response.data, updatedAtField);
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+
+  private async recordConflict(
+    options: ExportOptions,
+    entity: ExportEntity,
+    record: ExportSourceRecord,
+    legacyId: string,
+    strategy: ConflictStrategy,
+    edumatrikWins: boolean,
+    legacyUpdatedAt: Date | null
+  ): Promise<void> {
+    await db.execute(`
+      INSERT INTO legacy_sync_conflicts
+        (legacy_system_id, sync_id, edumatrik_entity, edumatrik_id, legacy_id, strategy, resolution,
+         edumatrik_updated_at, legacy_updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      options.systemId,
+      options.syncId,
+      entity,
+      String(record.id),
+      legacyId,
+      strategy,
+      edumatrikWins ? 'exported' : 'kept_legacy',
+      record.updatedAt,
+      legacyUpdatedAt
+    ]);
+  }
+
+  /**
+   * Identificador criado pelo sistema legado: caminho em responseTemplate.idPath,
+   * campo legado da chave primária do mapeamento, "id" ou "data.id"
+   */
+  private extractLegacyId(data: any, endpoint: ExportEndpoint, primaryKeyMapping: any): string | null {
+    const responseTemplate = this.parseJson(endpoint.responseTemplate) || {};
+    const primaryKey = this.parseJson(primaryKeyMapping) || {};
+    const paths = [responseTemplate.idPath, primaryKey.legacy, 'id', 'data.id'].filter(Boolean);
+
+    for (const path of paths) {
+      const value = getPath(data, path);
+      if (value !== undefined && value !== null && value !== '') {
+        return String(value);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Espaça as requisições conforme o limite por minuto do endpoint
+   */
+  private createThrottle(ratePerMinute: number | null): () => Promise<void> {
+    if (!ratePerMinute || ratePerMinute <= 0) {
+      return async () => undefined;
+    }
+
+    const interval = 60000 / ratePerMinute;
+    let nextSlot = 0;
+
+    return async () => {
+      const wait = nextSlot - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      nextSlot = Math.max(Date.now(), nextSlot) + interval;
+    };
+  }
+
+  private parseJson(value: any): any {
+    if (typeof value !== 'string') return value ?? null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const legacyExportService = new LegacyExportService();
+export default legacyExportService;
@@ -18,6 +18,16 @@ import { eq, and, desc } from 'drizzle-orm';
 import { cacheService } from './cacheService';
 import { logAction } from './securityService';
 import queueService from './queueService';
+import {
+  FieldRule,
+  TransformationPreview,
+  parseRuleSet,
+  previewTransformation,
+  rulesFromFieldMap,
+  transformRecord
+} from './transformationEngine';
+import { parseCronExpression } from './cronExpression';
+import { legacyExportService } from './legacyExportService';
 
 const CACHE_TTL = 60 * 5; // 5 minutos
 
@@ -476,55 +486,100 @@ class LegacySystemService {
     filters: Record<string, any>,
     limit?: number
   ): Promise<void> {
-    // Implementação da lógica de exportação
-    // Semelhante à importação, mas na direção oposta
-    
-    // TODO: Implementar exportação específica para cada tipo de entidade
+    const result = await legacyExportService.exportEntity({
+      syncId,
+      systemId: system.id,
+      schoolId: system.schoolId,
+      mapping,
+      rules: this.getExportRules(mapping),
+      client,
+      filters,
+      limit
+    });
+
+    if (result.conflicts > 0 || result.failed > 0) {
+      await logAction(
+        system.schoolId,
+        'legacy_system_export',
+        'legacy_systems',
+        system.id.toString(),
+        {
+          syncId,
+          entityType: mapping.edumatrikEntity,
+          created: result.created,
+          updated: result.updated,
+          conflicts: result.conflicts,
+          failed: result.failed
+        }
+      );
+    }
   }
 
   /**
-   * Transforma dados entre sistemas conforme o mapeamento
+   * Transforma dados entre sistemas conforme o mapeamento. Registros com erro
+   * em algum campo ficam de fora e contam como falha na sincronização
    */
-  private transformData(data: any[], mapping: LegacyDataMapping): any[] {
+  private transformData(data: any[], mapping: Pick<LegacyDataMapping, 'mappings' | 'transformationRules'>): any[] {
+    const rules = this.getMappingRules(mapping);
     const result = [];
-    const mappings = JSON.parse(mapping.mappings as string);
-    const transformRules = mapping.transformationRules 
-      ? JSON.parse(mapping.transformationRules as string) 
-      : null;
-    
+
     for (const item of data) {
-      try {
-        const transformed = {};
-        
-        // Mapear campos conforme definição
-        for (const [edumatrikField, legacyField] of Object.entries(mappings)) {
-          // Campo simples
-          if (typeof legacyField === 'string') {
-            transformed[edumatrikField] = item[legacyField];
-          } 
-          // Campo composto ou com transformação
-          else if (typeof legacyField === 'object') {
-            // Implementar lógica de transformação específica
-            // ...
-          }
-        }
-        
-        // Aplicar regras de transformação adicionais se existirem
-        if (transformRules) {
-          // Implementar aplicação de regras de transformação
-          // ...
-        }
-        
-        result.push(transformed);
-      } catch (error) {
-        console.error('Erro ao transformar item:', error, item);
-        // Continua para o próximo item
+      const { output, errors } = transformRecord(item, rules);
+      if (errors.length > 0) {
+        console.error('Erro ao transformar item:', errors, item);
+        continue;
       }
+      result.push(output);
     }
-    
+
     return result;
   }
 
+  /**
+   * Regras de importação do mapeamento: campos mapeados seguidos das regras de
+   * transformação adicionais, que podem sobrescrever ou compor campos a partir da origem
+   */
+  private getMappingRules(mapping: Pick<LegacyDataMapping, 'mappings' | 'transformationRules'>): FieldRule[] {
+    return [
+      ...rulesFromFieldMap(mapping.mappings),
+      ...parseRuleSet(mapping.transformationRules).filter(rule => rule.direction !== 'export')
+    ];
+  }
+
+  /**
+   * Regras de exportação do mapeamento: campos mapeados no sentido inverso
+   * (campo legado <- campo do EduMatrik) seguidos das regras marcadas como "export"
+   */
+  private getExportRules(mapping: Pick<LegacyDataMapping, 'mappings' | 'transformationRules'>): FieldRule[] {
+    const inverted = Object.fromEntries(
+      Object.entries((mapping.mappings || {}) as Record<string, any>)
+        .filter(([, legacyField]) => typeof legacyField === 'string')
+        .map(([edumatrikField, legacyField]) => [legacyField, edumatrikField])
+    );
+
+    return [
+      ...rulesFromFieldMap(inverted),
+      ...parseRuleSet(mapping.transformationRules).filter(rule => rule.direction === 'export')
+    ];
+  }
+
+  /**
+   * Executa registros de exemplo pelo mapeamento sem gravar dados, para
+   * conferência antes de ativar a sincronização
+   * @param mapping Mapeamento salvo ou em edição
+   * @param samples Registro ou lista de registros (do sistema legado ou, na exportação, do EduMatrik)
+   * @param direction Sentido das regras aplicadas
+   * @returns Entrada, saída e erros por registro
+   */
+  previewMapping(
+    mapping: Pick<LegacyDataMapping, 'mappings' | 'transformationRules'>,
+    samples: any,
+    direction: 'import' | 'export' = 'import'
+  ): TransformationPreview[] {
+    const rules = direction === 'export' ? this.getExportRules(mapping) : this.getMappingRules(mapping);
+    return previewTransformation(samples, rules);
+  }
+
   /**
    * Cria um novo endpoint para um sistema legado
    * @param data Dados do endpoint
@@ -594,6 +649,15 @@ class LegacySystemService {
    * @returns Mapeamento criado
    */
   async createDataMapping(data: InsertLegacyDataMapping): Promise<LegacyDataMapping> {
+    // Regras e agendamento inválidos são recusados antes de gravar o mapeamento
+    this.getMappingRules(data);
+    if (data.syncSchedule) {
+      parseCronExpression(data.syncSchedule);
+    }
+    if (data.conflictStrategy && !['last_write_wins', 'legacy_wins'].includes(data.conflictStrategy)) {
+      throw new Error(`Estratégia de conflito inválida: ${data.conflictStrategy}`);
+    }
+
     try {
       const [mapping] = await db.insert(legacyDataMappings).values(data).returning();
       
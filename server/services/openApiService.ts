@@ -0,0 +1,179 @@
+/**
+ * Geração da especificação OpenAPI da API pública
+ * Parâmetros e corpos são derivados dos mesmos esquemas zod usados na validação
+ * das rotas, para que a documentação não divirja da implementação
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, any>;
+
+// Rota documentada da API pública
+export interface ApiRouteDoc {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  tag: string;
+  scope: string;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.AnyZodObject;
+  successStatus?: number;
+  response: JsonSchema;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+  serverUrl: string;
+  scopes: readonly string[];
+  schemas: Record<string, JsonSchema>;
+}
+
+/**
+ * Converte os tipos zod usados nas rotas para JSON Schema
+ * @param schema Esquema zod
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'email') result.format = 'email';
+      if (check.kind === 'datetime') result.format = 'date-time';
+      if (check.kind === 'url') result.format = 'uri';
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      // OpenAPI 3.0 usa exclusiveMinimum/exclusiveMaximum booleanos
+      if (check.kind === 'min') {
+        result.minimum = check.value;
+        if (!check.inclusive) result.exclusiveMinimum = true;
+      }
+      if (check.kind === 'max') {
+        result.maximum = check.value;
+        if (!check.inclusive) result.exclusiveMaximum = true;
+      }
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: true };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const key of Object.keys(shape)) {
+      properties[key] = zodToJsonSchema(shape[key]);
+      if (!shape[key].isOptional()) required.push(key);
+    }
+
+    return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+  }
+  return {};
+}
+
+function toParameters(schema: z.AnyZodObject | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  return Object.keys(shape).map(name => ({
+    name,
+    in: location,
+    required: location === 'path' || !shape[name].isOptional(),
+    schema: zodToJsonSchema(shape[name]),
+  }));
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+/**
+ * Monta o documento OpenAPI 3.0 a partir das rotas registradas
+ * @param routes Rotas documentadas
+ * @param info Metadados, escopos e esquemas de resposta
+ */
+export function buildOpenApiDocument(routes: ApiRouteDoc[], info: OpenApiInfo): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of routes) {
+    // /leads/:id -> /leads/{id}
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const operation: JsonSchema = {
+      summary: route.summary,
+      description: `Escopo necessário: ${route.scope}`,
+      tags: [route.tag],
+      operationId: `${route.method}${path.replace(/[{}]/g, '').split('/').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')}`,
+      // Esquemas http/apiKey não declaram escopos no OpenAPI 3.0
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+      'x-required-scope': route.scope,
+      parameters: [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')],
+      responses: {
+        [String(route.successStatus || 200)]: {
+          description: 'Sucesso',
+          content: { 'application/json': { schema: route.response } },
+        },
+        '400': errorResponse('Dados inválidos'),
+        '401': errorResponse('Chave de API ausente, inválida, expirada ou revogada'),
+        '403': errorResponse('Chave sem o escopo necessário'),
+        '429': errorResponse('Limite de requisições por minuto excedido'),
+      },
+    };
+
+    if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema: zodToJsonSchema(route.body) } },
+      };
+    }
+    if (route.params) {
+      operation.responses['404'] = errorResponse('Registro não encontrado');
+    }
+
+    paths[path] = { ...(paths[path] || {}), [route.method]: operation };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: { title: info.title, version: info.version, description: info.description },
+    servers: [{ url: info.serverUrl }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: `Escopos: ${info.scopes.join(', ')}` },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+      },
+      schemas: info.schemas,
+    },
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Contrato comum dos gateways de pagamento
+ *
+ * Todo gateway (Stripe, Asaas, Mercado Pago, Efí...) implementa
+ * PaymentGatewayAdapter. O serviço de pagamentos e as rotas falam apenas
+ * com este contrato; o gateway de cada escola é escolhido em ./index.ts a
+ * partir de payment_gateway_settings.
+ */
+
+import crypto from 'crypto';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentGateway, PaymentMethod, PaymentStatus } from '../paymentProcessor';
+
+// Pagador da cobrança (aluno ou responsável financeiro)
+export interface GatewayCustomer {
+  name: string;
+  document: string; // CPF/CNPJ
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+// Dados para criação de uma cobrança em qualquer gateway
+export interface GatewayChargeRequest {
+  amount: number;
+  method: PaymentMethod;
+  description: string;
+  customer?: GatewayCustomer;
+  dueDate?: Date;
+  installments?: number;
+  // Referência interna enviada ao gateway (external_reference, custom_id...)
+  reference?: string;
+  // Token do cartão gerado no front-end pelo SDK do gateway
+  cardToken?: string;
+  discountAmount?: number;
+  discountDays?: number;
+  finePercent?: number;
+  dailyInterestPercent?: number;
+  metadata?: Record<string, any>;
+}
+
+export type GatewayMethodRequest = Omit<GatewayChargeRequest, 'method'>;
+
+// Cobrança criada no gateway, já normalizada
+export interface GatewayCharge {
+  externalId: string;
+  status: PaymentStatus;
+  method: PaymentMethod;
+  // Checkout hospedado pelo gateway (link de pagamento, fatura, boleto)
+  paymentUrl?: string;
+  // Segredo para concluir o pagamento no front-end (Stripe Elements)
+  clientSecret?: string;
+  barcode?: string;
+  pdf?: Buffer;
+  pixQrCode?: string;
+  pixQrCodeImage?: string;
+  expiresAt?: Date;
+  raw?: any;
+}
+
+export interface GatewayStatusResult {
+  status: PaymentStatus;
+  paidAmount?: number;
+  raw?: any;
+}
+
+// Requisição de webhook recebida pelo Express, com o corpo original para verificação de assinatura
+export interface GatewayWebhookRequest {
+  rawBody?: Buffer;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+}
+
+// Mudança de status informada pelo gateway
+export interface GatewayWebhookEvent {
+  externalId: string;
+  status: PaymentStatus;
+  eventType: string;
+  eventId?: string;
+  // Referência interna, quando o ID do pagamento só é conhecido no webhook (checkout)
+  reference?: string;
+  paidAmount?: number;
+  raw?: any;
+}
+
+export interface PaymentGatewayAdapter {
+  readonly gateway: PaymentGateway;
+  readonly supportedMethods: PaymentMethod[];
+
+  /** Aplica as credenciais da configuração (chamado uma vez pelo registro) */
+  configure(settings: PaymentGatewaySettings | null): void;
+
+  /** Cria a cobrança pelo método informado na requisição */
+  createCharge(request: GatewayChargeRequest): Promise<GatewayCharge>;
+  createPix(request: GatewayMethodRequest): Promise<GatewayCharge>;
+  createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge>;
+  createCardPayment(request: GatewayMethodRequest): Promise<GatewayCharge>;
+
+  /** Estorna total ou parcialmente um pagamento */
+  refund(externalId: string, amount?: number): Promise<GatewayStatusResult>;
+  /** Cancela uma cobrança ainda não paga */
+  cancel(externalId: string): Promise<GatewayStatusResult>;
+  getStatus(externalId: string): Promise<GatewayStatusResult>;
+
+  /** Confere assinatura/token do webhook com o segredo configurado */
+  verifyWebhook(request: GatewayWebhookRequest): boolean;
+  /** ID do evento no gateway, usado para descartar reenvios da mesma notificação */
+  getWebhookEventId(request: GatewayWebhookRequest): string | undefined;
+  /**
+   * Converte o webhook em eventos de status (pode consultar o gateway).
+   * Roda depois da verificação, às vezes muito depois (fila, reprocessamento),
+   * então não deve revalidar assinaturas com prazo
+   */
+  parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]>;
+}
+
+/**
+ * Base dos adaptadores: despacha createCharge para o método específico e
+ * padroniza o erro de operação não suportada
+ */
+export abstract class BasePaymentGatewayAdapter implements PaymentGatewayAdapter {
+  abstract readonly gateway: PaymentGateway;
+  abstract readonly supportedMethods: PaymentMethod[];
+
+  abstract configure(settings: PaymentGatewaySettings | null): void;
+  abstract refund(externalId: string, amount?: number): Promise<GatewayStatusResult>;
+  abstract cancel(externalId: string): Promise<GatewayStatusResult>;
+  abstract getStatus(externalId: string): Promise<GatewayStatusResult>;
+  abstract verifyWebhook(request: GatewayWebhookRequest): boolean;
+  abstract parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]>;
+
+  createCharge(request: GatewayChargeRequest): Promise<GatewayCharge> {
+    switch (request.method) {
+      case 'pix':
+        return this.createPix(request);
+      case 'bank_slip':
+        return this.createBankSlip(request);
+      case 'credit_card':
+        return this.createCardPayment(request);
+      default:
+        return Promise.reject(this.unsupported(request.method));
+    }
+  }
+
+  getWebhookEventId(_request: GatewayWebhookRequest): string | undefined {
+    return undefined;
+  }
+
+  createPix(_request: GatewayMethodRequest): Promise<GatewayCharge> {
+    return Promise.reject(this.unsupported('pix'));
+  }
+
+  createBankSlip(_request: GatewayMethodRequest): Promise<GatewayCharge> {
+    return Promise.reject(this.unsupported('bank_slip'));
+  }
+
+  createCardPayment(_request: GatewayMethodRequest): Promise<GatewayCharge> {
+    return Promise.reject(this.unsupported('credit_card'));
+  }
+
+  protected unsupported(operation: string): Error {
+    return new Error(`Gateway ${this.gateway} não suporta ${operation}`);
+  }
+}
+
+/**
+ * Lê um cabeçalho da requisição de webhook (case-insensitive)
+ */
+export function getWebhookHeader(request: GatewayWebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Formata uma data como AAAA-MM-DD, formato aceito pelos gateways nacionais
+ */
+export function toGatewayDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Compara segredos em tempo constante
+ */
+export function safeCompare(received: string | undefined, expected: string | undefined): boolean {
+  if (!received || !expected) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -1,431 +1,230 @@
 /**
- * Processador de pagamentos para Asaas
+ * Adaptador de pagamentos para Asaas
+ * Boleto, PIX e cartão (fatura hospedada ou token de cartão)
  */
-import Asaas from 'asaas';
-import { PaymentStatus, PaymentMethod, BillingOptions } from '../paymentProcessor';
-import { getActivePaymentGatewaySettingsByType } from '../../models/paymentGatewaySettings';
+import { AsaasClient, IAsaasPayment, IAsaasPaymentResponse } from 'asaas';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentMethod, PaymentStatus } from '../paymentProcessor';
+import {
+  BasePaymentGatewayAdapter,
+  GatewayCharge,
+  GatewayMethodRequest,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  GatewayWebhookRequest,
+  getWebhookHeader,
+  safeCompare,
+  toGatewayDate
+} from './adapter';
 
-interface AsaasConfig {
-  apiKey: string;
-  sandboxMode: boolean;
-  apiEndpoint?: string;
-  walletId?: string;
-}
-
-export class AsaasProcessor {
-  private client: any; // Tipagem do SDK do Asaas não é bem definida
-  private isConfigured: boolean = false;
-  private config: AsaasConfig | null = null;
-  private gatewayName: string = 'asaas';
+export class AsaasProcessor extends BasePaymentGatewayAdapter {
+  readonly gateway = 'asaas' as const;
+  readonly supportedMethods: PaymentMethod[] = ['bank_slip', 'pix', 'credit_card'];
 
-  constructor() {
-    this.client = null;
-  }
+  private client: AsaasClient | null = null;
+  // Token definido no painel do Asaas e enviado no cabeçalho asaas-access-token
+  private webhookToken: string = '';
 
   /**
-   * Inicializa o processador de pagamentos com as credenciais
+   * Configura o SDK com a chave da conta Asaas da escola ou da plataforma
    */
-  async initialize(): Promise<boolean> {
-    try {
-      // Obter configuração do banco de dados
-      const gatewaySettings = await getActivePaymentGatewaySettingsByType('asaas');
-      
-      if (!gatewaySettings) {
-        console.warn('API Key para asaas não configurada - usando modo simulado');
-        this.isConfigured = false;
-        return false;
-      }
-      
-      // Extrair configuração
-      this.config = {
-        apiKey: gatewaySettings.apiKey,
-        sandboxMode: gatewaySettings.sandboxMode,
-        apiEndpoint: gatewaySettings.apiEndpoint,
-        walletId: gatewaySettings.configuration?.walletId || undefined
-      };
-      
-      // Configurar SDK
-      this.client = new Asaas({
-        apiKey: this.config.apiKey,
-        sandbox: this.config.sandboxMode
-      });
-      
-      console.log(`Processador Asaas configurado com sucesso [Modo ${this.config.sandboxMode ? 'TESTE (SANDBOX)' : 'PRODUÇÃO'}]`);
-      this.isConfigured = true;
-      return true;
-    } catch (error) {
-      console.error('Erro ao configurar processador Asaas:', error);
-      this.isConfigured = false;
-      return false;
+  configure(settings: PaymentGatewaySettings | null): void {
+    if (!settings?.apiKey) {
+      throw new Error('API Key do Asaas não configurada');
     }
-  }
 
-  /**
-   * Verifica se o processador está configurado
-   */
-  getStatus(): boolean {
-    return this.isConfigured;
+    this.client = new AsaasClient(settings.apiKey, {
+      sandbox: settings.sandboxMode,
+      baseUrl: settings.apiEndpoint || undefined,
+      printError: false
+    });
+    this.webhookToken = settings.configuration?.webhookToken || '';
   }
 
   /**
    * Converte status do Asaas para o padrão interno
    */
-  private convertStatus(asaasStatus: string): PaymentStatus {
+  private convertStatus(asaasStatus?: string): PaymentStatus {
     const statusMap: Record<string, PaymentStatus> = {
       'PENDING': 'pending',
       'RECEIVED': 'paid',
       'CONFIRMED': 'paid',
+      'RECEIVED_IN_CASH': 'paid',
       'OVERDUE': 'expired',
       'REFUNDED': 'refunded',
       'REFUND_REQUESTED': 'processing',
+      'REFUND_IN_PROGRESS': 'processing',
       'CHARGEBACK_REQUESTED': 'processing',
       'CHARGEBACK_DISPUTE': 'processing',
       'AWAITING_CHARGEBACK_REVERSAL': 'processing',
       'DUNNING_REQUESTED': 'processing',
       'DUNNING_RECEIVED': 'processing',
       'AWAITING_RISK_ANALYSIS': 'processing',
-      'CANCELED': 'canceled',
+      'DELETED': 'canceled',
     };
-    
-    return statusMap[asaasStatus] || 'pending';
+
+    return statusMap[asaasStatus || ''] || 'pending';
   }
 
-  /**
-   * Converte método de pagamento do padrão interno para o Asaas
-   */
-  private convertPaymentMethod(method: PaymentMethod): string {
-    const methodMap: Record<PaymentMethod, string> = {
-      'credit_card': 'CREDIT_CARD',
-      'bank_slip': 'BOLETO',
-      'pix': 'PIX',
-      'bank_transfer': 'TRANSFER',
-      'cash': 'UNDEFINED',
-      'other': 'UNDEFINED'
+  async createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const payment = await this.createPayment('BOLETO', request);
+    const boleto = await this.getClient().payments.getIdentificationField(payment.id!);
+
+    return {
+      ...this.toCharge(payment, 'bank_slip'),
+      paymentUrl: payment.bankSlipUrl,
+      barcode: boleto.identificationField || boleto.barCode,
+      expiresAt: request.dueDate
     };
-    
-    return methodMap[method] || 'UNDEFINED';
   }
 
-  /**
-   * Cria um pagamento no Asaas
-   */
-  async createPayment(
-    amount: number,
-    currency: string,
-    options: {
-      description?: string;
-      customerId?: string;
-      paymentMethod?: PaymentMethod;
-      dueDate?: Date;
-      installments?: number;
-      metadata?: any;
-      customerData?: {
-        name: string;
-        email?: string;
-        cpfCnpj: string;
-        phone?: string;
-        address?: {
-          street: string;
-          number: string;
-          complement?: string;
-          neighborhood: string;
-          city: string;
-          state: string;
-          postalCode: string;
-        };
-      };
-    } = {}
-  ): Promise<{
-    id: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Asaas não está configurado');
-    }
-    
-    try {
-      // Se o cliente não existe no Asaas, criar
-      let customerAsaasId = options.customerId;
-      
-      if (!customerAsaasId && options.customerData) {
-        // Criar cliente
-        const customerResponse = await this.client.customers.create({
-          name: options.customerData.name,
-          email: options.customerData.email,
-          cpfCnpj: options.customerData.cpfCnpj,
-          phone: options.customerData.phone,
-          address: options.customerData.address?.street,
-          addressNumber: options.customerData.address?.number,
-          complement: options.customerData.address?.complement,
-          province: options.customerData.address?.neighborhood,
-          city: options.customerData.address?.city,
-          state: options.customerData.address?.state,
-          postalCode: options.customerData.address?.postalCode?.replace(/[^0-9]/g, '')
-        });
-        
-        customerAsaasId = customerResponse.id;
-      }
-      
-      if (!customerAsaasId) {
-        throw new Error('Cliente não fornecido para pagamento Asaas');
-      }
-      
-      // Preparar dados de pagamento
-      const paymentData: any = {
-        customer: customerAsaasId,
-        billingType: options.paymentMethod ? 
-          this.convertPaymentMethod(options.paymentMethod) : 
-          'UNDEFINED',
-        value: amount,
-        dueDate: options.dueDate ? 
-          options.dueDate.toISOString().split('T')[0] : 
-          new Date().toISOString().split('T')[0],
-        description: options.description,
-        externalReference: options.metadata?.reference || '',
-        postalService: false
-      };
-      
-      // Se for parcelamento
-      if (options.installments && options.installments > 1) {
-        const installmentResponse = await this.client.installments.create({
-          customer: customerAsaasId,
-          billingType: paymentData.billingType,
-          value: amount,
-          dueDate: paymentData.dueDate,
-          description: options.description,
-          externalReference: options.metadata?.reference || '',
-          installmentCount: options.installments,
-          installmentValue: amount / options.installments
-        });
-        
-        return {
-          id: installmentResponse.id,
-          status: this.convertStatus(installmentResponse.status),
-          gatewayResponse: installmentResponse
-        };
-      } else {
-        // Pagamento único
-        const paymentResponse = await this.client.payments.create(paymentData);
-        
-        return {
-          id: paymentResponse.id,
-          status: this.convertStatus(paymentResponse.status),
-          gatewayResponse: paymentResponse
-        };
-      }
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao criar pagamento:`, error);
-      throw error;
-    }
+  async createPix(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const payment = await this.createPayment('PIX', request);
+    const pix = await this.getClient().payments.getPixQrCode(payment.id!);
+
+    return {
+      ...this.toCharge(payment, 'pix'),
+      paymentUrl: payment.invoiceUrl,
+      pixQrCode: pix.payload,
+      pixQrCodeImage: pix.encodedImage ? `data:image/png;base64,${pix.encodedImage}` : undefined,
+      expiresAt: pix.expirationDate ? new Date(pix.expirationDate) : request.dueDate
+    };
   }
 
-  /**
-   * Obtém o status de um pagamento
-   */
-  async getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Asaas não está configurado');
-    }
-    
-    try {
-      const paymentResponse = await this.client.payments.getById({
-        id: paymentId
-      });
-      
-      return {
-        status: this.convertStatus(paymentResponse.status),
-        gatewayResponse: paymentResponse
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao consultar status do pagamento ${paymentId}:`, error);
-      throw error;
-    }
+  async createCardPayment(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    // Sem token de cartão o pagador conclui na fatura hospedada pelo Asaas
+    const payment = await this.createPayment('CREDIT_CARD', request);
+
+    return {
+      ...this.toCharge(payment, 'credit_card'),
+      paymentUrl: payment.invoiceUrl
+    };
   }
 
-  /**
-   * Reembolsa um pagamento
-   */
-  async refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Asaas não está configurado');
-    }
-    
-    try {
-      // Reembolso total - API do Asaas não suporta reembolso parcial na mesma operação
-      const refundResponse = await this.client.payments.refund({
-        id: paymentId
-      });
-      
-      return {
-        success: true,
-        status: this.convertStatus(refundResponse.status),
-        gatewayResponse: refundResponse
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao reembolsar pagamento ${paymentId}:`, error);
-      throw error;
+  async getStatus(externalId: string): Promise<GatewayStatusResult> {
+    const payment = await this.getClient().payments.getById(externalId);
+    const status = this.convertStatus(payment.status);
+
+    return {
+      status,
+      paidAmount: status === 'paid' ? payment.value : undefined,
+      raw: payment
+    };
+  }
+
+  async refund(externalId: string, amount?: number): Promise<GatewayStatusResult> {
+    const payment = await this.getClient().payments.refund(externalId, { value: amount });
+
+    return {
+      status: amount && payment.value && amount < payment.value ? 'partial' : this.convertStatus(payment.status),
+      raw: payment
+    };
+  }
+
+  async cancel(externalId: string): Promise<GatewayStatusResult> {
+    const result = await this.getClient().payments.delete(externalId);
+
+    return {
+      status: result.deleted ? 'canceled' : 'pending',
+      raw: result
+    };
+  }
+
+  verifyWebhook(request: GatewayWebhookRequest): boolean {
+    return safeCompare(getWebhookHeader(request, 'asaas-access-token'), this.webhookToken);
+  }
+
+  getWebhookEventId(request: GatewayWebhookRequest): string | undefined {
+    return request.body?.id ? String(request.body.id) : undefined;
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]> {
+    const { event, payment, id } = request.body || {};
+    if (!payment?.id || typeof event !== 'string' || !event.startsWith('PAYMENT_')) {
+      return [];
     }
+
+    const status = event === 'PAYMENT_DELETED' ? 'canceled' : this.convertStatus(payment.status);
+    return [{
+      externalId: payment.id,
+      status,
+      eventType: event,
+      eventId: id,
+      reference: payment.externalReference || undefined,
+      paidAmount: status === 'paid' ? payment.value : undefined,
+      raw: request.body
+    }];
   }
 
   /**
-   * Gera um boleto bancário
+   * Cria a cobrança no Asaas, cadastrando o cliente pelo CPF/CNPJ quando necessário
    */
-  async generateBankSlip(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    url?: string;
-    code?: string;
-    pdf?: Buffer;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Asaas não está configurado');
+  private async createPayment(billingType: string, request: GatewayMethodRequest): Promise<IAsaasPaymentResponse> {
+    const customerId = await this.findOrCreateCustomer(request);
+    const installments = request.installments && request.installments > 1 ? request.installments : undefined;
+
+    const payment = {
+      customer: customerId,
+      billingType,
+      value: request.amount,
+      // A API espera AAAA-MM-DD; a tipagem do SDK declara Date
+      dueDate: toGatewayDate(request.dueDate || new Date()),
+      description: request.description,
+      externalReference: request.reference,
+      creditCardToken: request.cardToken,
+      installmentCount: installments,
+      totalValue: installments ? request.amount : undefined,
+      postalService: false,
+      discount: request.discountAmount ? {
+        value: request.discountAmount,
+        dueDateLimitDays: request.discountDays || 0,
+        type: 'FIXED'
+      } : undefined,
+      fine: request.finePercent ? { value: request.finePercent } : undefined,
+      // Asaas trabalha com juros ao mês
+      interest: request.dailyInterestPercent ? { value: request.dailyInterestPercent * 30 } : undefined
+    };
+
+    return this.getClient().payments.new(payment as unknown as IAsaasPayment);
+  }
+
+  private async findOrCreateCustomer(request: GatewayMethodRequest): Promise<string> {
+    if (!request.customer) {
+      throw new Error('Dados do pagador são obrigatórios para cobranças no Asaas');
     }
-    
-    try {
-      // Verificar se o cliente existe no Asaas
-      let customerAsaasId: string | null = null;
-      const customerDocument = options.customerDocument.replace(/[^0-9]/g, '');
-      
-      // Buscar cliente por documento
-      const customersResponse = await this.client.customers.getAll({
-        cpfCnpj: customerDocument
-      });
-      
-      if (customersResponse.data && customersResponse.data.length > 0) {
-        customerAsaasId = customersResponse.data[0].id;
-      } else {
-        // Criar cliente
-        const customerResponse = await this.client.customers.create({
-          name: options.customerName,
-          cpfCnpj: customerDocument,
-          email: options.customerEmail,
-          phone: options.customerPhone,
-          address: options.customerAddress?.split(',')[0],
-          postalCode: options.customerAddress?.match(/\d{5}-\d{3}/)?.[0]?.replace('-', '')
-        });
-        
-        customerAsaasId = customerResponse.id;
-      }
-      
-      // Criar boleto
-      const paymentResponse = await this.client.payments.create({
-        customer: customerAsaasId,
-        billingType: 'BOLETO',
-        value: options.amount,
-        dueDate: options.dueDate.toISOString().split('T')[0],
-        description: options.description,
-        externalReference: options.reference || '',
-        postalService: false,
-        discount: options.discountAmount ? {
-          value: options.discountAmount,
-          dueDateLimitDays: options.discountDays || 0
-        } : undefined
-      });
-      
-      return {
-        success: true,
-        url: paymentResponse.bankSlipUrl,
-        code: paymentResponse.nossoNumero,
-        expiresAt: options.dueDate,
-        gatewayResponse: paymentResponse
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao gerar boleto bancário:`, error);
-      throw error;
+
+    const client = this.getClient();
+    const cpfCnpj = request.customer.document.replace(/\D/g, '');
+    const existing = await client.customers.list({ cpfCnpj, limit: 1 });
+    if (existing.data?.length) {
+      return existing.data[0].id;
     }
+
+    const customer = await client.customers.new({
+      name: request.customer.name,
+      cpfCnpj,
+      email: request.customer.email,
+      mobilePhone: request.customer.phone,
+      address: request.customer.address,
+      postalCode: request.customer.address?.match(/\d{5}-?\d{3}/)?.[0]?.replace('-', '')
+    });
+
+    return customer.id;
   }
 
-  /**
-   * Gera um QR Code de pagamento Pix
-   */
-  async generatePixQRCode(
-    options: {
-      description: string;
-      amount: number;
-      dueDate: Date;
-      customerName: string;
-      customerDocument: string;
-      customerEmail?: string;
-      metadata?: any;
-    }
-  ): Promise<{
-    success: boolean;
-    qrCode: string;
-    qrCodeBase64?: string;
-    expiresAt?: Date;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
+  private toCharge(payment: IAsaasPaymentResponse, method: PaymentMethod): GatewayCharge {
+    return {
+      externalId: payment.id!,
+      status: this.convertStatus(payment.status),
+      method,
+      raw: payment
+    };
+  }
+
+  private getClient(): AsaasClient {
+    if (!this.client) {
       throw new Error('Asaas não está configurado');
     }
-    
-    try {
-      // Verificar se o cliente existe no Asaas
-      let customerAsaasId: string | null = null;
-      const customerDocument = options.customerDocument.replace(/[^0-9]/g, '');
-      
-      // Buscar cliente por documento
-      const customersResponse = await this.client.customers.getAll({
-        cpfCnpj: customerDocument
-      });
-      
-      if (customersResponse.data && customersResponse.data.length > 0) {
-        customerAsaasId = customersResponse.data[0].id;
-      } else {
-        // Criar cliente
-        const customerResponse = await this.client.customers.create({
-          name: options.customerName,
-          cpfCnpj: customerDocument,
-          email: options.customerEmail
-        });
-        
-        customerAsaasId = customerResponse.id;
-      }
-      
-      // Criar pagamento Pix
-      const paymentResponse = await this.client.payments.create({
-        customer: customerAsaasId,
-        billingType: 'PIX',
-        value: options.amount,
-        dueDate: options.dueDate.toISOString().split('T')[0],
-        description: options.description,
-        externalReference: options.metadata?.reference || ''
-      });
-      
-      // Gerar QR Code Pix
-      const pixResponse = await this.client.payments.pixQrCode({
-        id: paymentResponse.id
-      });
-      
-      return {
-        success: true,
-        qrCode: pixResponse.payload,
-        qrCodeBase64: pixResponse.encodedImage,
-        expiresAt: options.dueDate,
-        gatewayResponse: {
-          payment: paymentResponse,
-          pix: pixResponse
-        }
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao gerar QR Code Pix:`, error);
-      throw error;
-    }
+    return this.client;
   }
-}
\ No newline at end of file
+}
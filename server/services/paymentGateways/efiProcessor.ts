@@ -0,0 +1,431 @@
+/**
+ * Adaptador de pagamentos para Efí (antiga Gerencianet)
+ * Boleto e cartão pela API de Cobranças; PIX pela API Pix (mTLS com certificado .p12)
+ */
+import https from 'https';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentMethod, PaymentStatus } from '../paymentProcessor';
+import {
+  BasePaymentGatewayAdapter,
+  GatewayCharge,
+  GatewayMethodRequest,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  GatewayWebhookRequest,
+  safeCompare,
+  toGatewayDate
+} from './adapter';
+
+type EfiApi = 'charges' | 'pix';
+
+const EFI_HOSTS: Record<EfiApi, { production: string; sandbox: string }> = {
+  charges: { production: 'cobrancas.api.efipay.com.br', sandbox: 'cobrancas-h.api.efipay.com.br' },
+  pix: { production: 'pix.api.efipay.com.br', sandbox: 'pix-h.api.efipay.com.br' }
+};
+
+const EFI_TOKEN_PATHS: Record<EfiApi, string> = {
+  charges: '/v1/authorize',
+  pix: '/oauth/token'
+};
+
+export class EfiProcessor extends BasePaymentGatewayAdapter {
+  readonly gateway = 'gerencianet' as const;
+  readonly supportedMethods: PaymentMethod[] = ['bank_slip', 'pix', 'credit_card'];
+
+  private clientId: string = '';
+  private clientSecret: string = '';
+  private sandbox: boolean = true;
+  private certificate: Buffer | null = null;
+  private pixKey: string = '';
+  private notificationUrl: string = '';
+  // Valor do parâmetro ?hmac= cadastrado na URL de webhook
+  private webhookSecret: string = '';
+  private tokens: Partial<Record<EfiApi, { value: string; expiresAt: number }>> = {};
+
+  /**
+   * Configura as credenciais: Client ID em apiKey, Client Secret em apiSecret
+   * e certificado .p12 (base64) em configuration.certificado
+   */
+  configure(settings: PaymentGatewaySettings | null): void {
+    if (!settings?.apiKey || !settings.apiSecret) {
+      throw new Error('Client ID e Client Secret da Efí não configurados');
+    }
+
+    this.clientId = settings.apiKey;
+    this.clientSecret = settings.apiSecret;
+    this.sandbox = settings.sandboxMode;
+    this.certificate = settings.configuration?.certificado
+      ? Buffer.from(settings.configuration.certificado, 'base64')
+      : null;
+    this.pixKey = settings.configuration?.pixKey || '';
+    this.notificationUrl = settings.configuration?.notificationUrl || '';
+    this.webhookSecret = settings.configuration?.webhookSecret || '';
+    this.tokens = {};
+  }
+
+  /**
+   * Converte status das cobranças e do PIX da Efí para o padrão interno
+   */
+  private convertStatus(efiStatus?: string): PaymentStatus {
+    const statusMap: Record<string, PaymentStatus> = {
+      'new': 'pending',
+      'waiting': 'pending',
+      'link': 'pending',
+      'unpaid': 'expired',
+      'expired': 'expired',
+      'paid': 'paid',
+      'settled': 'paid',
+      'identified': 'paid',
+      'approved': 'processing',
+      'contested': 'processing',
+      'refunded': 'refunded',
+      'canceled': 'canceled',
+      'ATIVA': 'pending',
+      'CONCLUIDA': 'paid',
+      'REMOVIDA_PELO_USUARIO_RECEBEDOR': 'canceled',
+      'REMOVIDA_PELO_PSP': 'expired'
+    };
+
+    return statusMap[efiStatus || ''] || 'pending';
+  }
+
+  async createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const customer = this.requireCustomer(request);
+    const dueDate = request.dueDate || new Date();
+
+    const { data } = await this.request('charges', 'POST', '/v1/charge/one-step', {
+      items: this.buildItems(request),
+      metadata: this.buildMetadata(request),
+      payment: {
+        banking_billet: {
+          customer,
+          expire_at: toGatewayDate(dueDate),
+          message: request.description.substring(0, 80),
+          configurations: {
+            // Multa e juros em centésimos de percentual
+            fine: request.finePercent ? Math.round(request.finePercent * 100) : undefined,
+            interest: request.dailyInterestPercent ? Math.round(request.dailyInterestPercent * 1000) : undefined
+          },
+          conditional_discount: request.discountAmount ? {
+            type: 'currency',
+            value: this.toCents(request.discountAmount),
+            until_date: toGatewayDate(new Date(dueDate.getTime() - (request.discountDays || 0) * 24 * 60 * 60 * 1000))
+          } : undefined
+        }
+      }
+    });
+
+    return {
+      externalId: String(data.charge_id),
+      status: this.convertStatus(data.status),
+      method: 'bank_slip',
+      paymentUrl: data.pdf?.charge || data.link,
+      barcode: data.barcode,
+      pixQrCode: data.pix?.qrcode,
+      pixQrCodeImage: data.pix?.qrcode_image,
+      expiresAt: data.expire_at ? new Date(data.expire_at) : dueDate,
+      raw: data
+    };
+  }
+
+  async createCardPayment(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    // O pagador informa o cartão no link de pagamento hospedado pela Efí
+    const { data } = await this.request('charges', 'POST', '/v1/charge/one-step/link', {
+      items: this.buildItems(request),
+      metadata: this.buildMetadata(request),
+      customer: request.customer ? { email: request.customer.email } : undefined,
+      settings: {
+        payment_method: 'credit_card',
+        expire_at: toGatewayDate(request.dueDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+        request_delivery_address: false
+      }
+    });
+
+    return {
+      externalId: String(data.charge_id),
+      status: this.convertStatus(data.status),
+      method: 'credit_card',
+      paymentUrl: data.payment_url,
+      expiresAt: data.expire_at ? new Date(data.expire_at) : undefined,
+      raw: data
+    };
+  }
+
+  async createPix(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    if (!this.pixKey) {
+      throw new Error('Chave PIX da Efí não configurada');
+    }
+
+    const document = request.customer?.document.replace(/\D/g, '');
+    const cob = await this.request('pix', 'POST', '/v2/cob', {
+      calendario: { expiracao: 24 * 60 * 60 },
+      devedor: request.customer && document ? {
+        [document.length > 11 ? 'cnpj' : 'cpf']: document,
+        nome: request.customer.name
+      } : undefined,
+      valor: { original: request.amount.toFixed(2) },
+      chave: this.pixKey,
+      solicitacaoPagador: request.description.substring(0, 140),
+      infoAdicionais: request.reference ? [{ nome: 'referencia', valor: request.reference }] : undefined
+    });
+
+    const qrCode = await this.request('pix', 'GET', `/v2/loc/${cob.loc.id}/qrcode`);
+
+    return {
+      externalId: cob.txid,
+      status: this.convertStatus(cob.status),
+      method: 'pix',
+      paymentUrl: qrCode.linkVisualizacao,
+      pixQrCode: qrCode.qrcode || cob.pixCopiaECola,
+      pixQrCodeImage: qrCode.imagemQrcode,
+      expiresAt: new Date(new Date(cob.calendario.criacao).getTime() + cob.calendario.expiracao * 1000),
+      raw: cob
+    };
+  }
+
+  async getStatus(externalId: string): Promise<GatewayStatusResult> {
+    if (this.isPixTxid(externalId)) {
+      const cob = await this.request('pix', 'GET', `/v2/cob/${externalId}`);
+      const status = this.convertStatus(cob.status);
+      return {
+        status,
+        paidAmount: status === 'paid' ? this.sumPix(cob.pix) : undefined,
+        raw: cob
+      };
+    }
+
+    const { data } = await this.request('charges', 'GET', `/v1/charge/${externalId}`);
+    const status = this.convertStatus(data.status);
+    return {
+      status,
+      paidAmount: status === 'paid' ? (data.paid_value ?? data.total) / 100 : undefined,
+      raw: data
+    };
+  }
+
+  async refund(externalId: string, amount?: number): Promise<GatewayStatusResult> {
+    if (this.isPixTxid(externalId)) {
+      // A devolução do PIX é feita sobre cada recebimento (endToEndId)
+      const cob = await this.request('pix', 'GET', `/v2/cob/${externalId}`);
+      const pix = cob.pix?.[0];
+      if (!pix) {
+        throw new Error('Cobrança PIX sem pagamento para devolver');
+      }
+
+      const value = amount ?? parseFloat(pix.valor);
+      const devolucao = await this.request('pix', 'PUT', `/v2/pix/${pix.endToEndId}/devolucao/${Date.now()}`, {
+        valor: value.toFixed(2)
+      });
+
+      return {
+        status: value < parseFloat(pix.valor) ? 'partial' : 'refunded',
+        raw: devolucao
+      };
+    }
+
+    const result = await this.request('charges', 'POST', `/v1/charge/card/${externalId}/refund`, {
+      amount: amount ? this.toCents(amount) : undefined
+    });
+
+    return {
+      status: amount ? 'partial' : 'refunded',
+      raw: result
+    };
+  }
+
+  async cancel(externalId: string): Promise<GatewayStatusResult> {
+    if (this.isPixTxid(externalId)) {
+      const cob = await this.request('pix', 'PATCH', `/v2/cob/${externalId}`, {
+        status: 'REMOVIDA_PELO_USUARIO_RECEBEDOR'
+      });
+      return { status: this.convertStatus(cob.status), raw: cob };
+    }
+
+    const result = await this.request('charges', 'PUT', `/v1/charge/${externalId}/cancel`);
+    return { status: 'canceled', raw: result };
+  }
+
+  /**
+   * A Efí não assina as notificações: a URL cadastrada carrega ?hmac=<segredo>
+   */
+  verifyWebhook(request: GatewayWebhookRequest): boolean {
+    return safeCompare(request.query?.hmac, this.webhookSecret);
+  }
+
+  /**
+   * PIX: endToEndId dos recebimentos; cobranças: token da notificação
+   */
+  getWebhookEventId(request: GatewayWebhookRequest): string | undefined {
+    if (Array.isArray(request.body?.pix)) {
+      const ids = request.body.pix.map((pix: any) => pix.endToEndId).filter(Boolean);
+      return ids.length > 0 ? ids.join(',') : undefined;
+    }
+    return request.body?.notification ? String(request.body.notification) : undefined;
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]> {
+    // Webhook PIX: lista de recebimentos
+    if (Array.isArray(request.body?.pix)) {
+      return request.body.pix
+        .filter((pix: any) => pix.txid && !pix.devolucoes)
+        .map((pix: any) => ({
+          externalId: pix.txid,
+          status: 'paid' as PaymentStatus,
+          eventType: 'pix.received',
+          eventId: pix.endToEndId,
+          paidAmount: parseFloat(pix.valor),
+          raw: pix
+        }));
+    }
+
+    // Notificação de cobrança: só traz um token, consultado na API
+    const token = request.body?.notification;
+    if (!token) {
+      return [];
+    }
+
+    const { data } = await this.request('charges', 'GET', `/v1/notification/${token}`);
+    const latestByCharge = new Map<string, any>();
+    for (const change of data || []) {
+      if (change.type === 'charge' && change.identifiers?.charge_id) {
+        latestByCharge.set(String(change.identifiers.charge_id), change);
+      }
+    }
+
+    return Array.from(latestByCharge.entries()).map(([chargeId, change]) => {
+      const status = this.convertStatus(change.status?.current);
+      return {
+        externalId: chargeId,
+        status,
+        eventType: `charge.${change.status?.current}`,
+        eventId: change.id !== undefined ? `${token}:${change.id}` : token,
+        reference: change.custom_id || undefined,
+        paidAmount: status === 'paid' && change.value ? change.value / 100 : undefined,
+        raw: change
+      };
+    });
+  }
+
+  /**
+   * Chamada autenticada às APIs da Efí, renovando o token OAuth quando expira
+   */
+  private async request(api: EfiApi, method: string, path: string, body?: any): Promise<any> {
+    const token = await this.getToken(api);
+    return this.send(api, method, path, body, { Authorization: `Bearer ${token}` });
+  }
+
+  private async getToken(api: EfiApi): Promise<string> {
+    const cached = this.tokens[api];
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    const result = await this.send(api, 'POST', EFI_TOKEN_PATHS[api], { grant_type: 'client_credentials' }, {
+      Authorization: `Basic ${credentials}`
+    });
+
+    // Renova um minuto antes de expirar
+    this.tokens[api] = {
+      value: result.access_token,
+      expiresAt: Date.now() + (result.expires_in - 60) * 1000
+    };
+    return result.access_token;
+  }
+
+  private send(api: EfiApi, method: string, path: string, body: any, headers: Record<string, string>): Promise<any> {
+    if (!this.clientId) {
+      return Promise.reject(new Error('Efí não está configurada'));
+    }
+    if (api === 'pix' && !this.certificate) {
+      return Promise.reject(new Error('Certificado da Efí é obrigatório para PIX'));
+    }
+
+    const payload = body !== undefined ? JSON.stringify(body) : undefined;
+
+    return new Promise((resolve, reject) => {
+      const req = https.request({
+        hostname: EFI_HOSTS[api][this.sandbox ? 'sandbox' : 'production'],
+        path,
+        method,
+        pfx: this.certificate || undefined,
+        passphrase: '',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          ...(payload ? { 'Content-Length': Buffer.byteLength(payload).toString() } : {})
+        }
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          let parsed: any = {};
+          try {
+            parsed = text ? JSON.parse(text) : {};
+          } catch {
+            parsed = { raw: text };
+          }
+
+          if (res.statusCode && res.statusCode >= 400) {
+            const detail = parsed.error_description?.message || parsed.error_description || parsed.mensagem || parsed.detail || text;
+            reject(new Error(`Efí respondeu ${res.statusCode}: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`));
+            return;
+          }
+          resolve(parsed);
+        });
+      });
+
+      req.on('error', reject);
+      if (payload) req.write(payload);
+      req.end();
+    });
+  }
+
+  /**
+   * IDs de cobrança são numéricos; txids do PIX são alfanuméricos
+   */
+  private isPixTxid(externalId: string): boolean {
+    return !/^\d+$/.test(externalId);
+  }
+
+  private requireCustomer(request: GatewayMethodRequest) {
+    if (!request.customer) {
+      throw new Error('Dados do pagador são obrigatórios para boleto na Efí');
+    }
+
+    const document = request.customer.document.replace(/\D/g, '');
+    return {
+      name: request.customer.name,
+      email: request.customer.email,
+      phone_number: request.customer.phone?.replace(/\D/g, '') || undefined,
+      ...(document.length > 11
+        ? { juridical_person: { corporate_name: request.customer.name, cnpj: document } }
+        : { cpf: document })
+    };
+  }
+
+  private buildItems(request: GatewayMethodRequest) {
+    return [{
+      name: request.description.substring(0, 255),
+      value: this.toCents(request.amount),
+      amount: 1
+    }];
+  }
+
+  private buildMetadata(request: GatewayMethodRequest) {
+    return {
+      custom_id: request.reference,
+      notification_url: this.notificationUrl || undefined
+    };
+  }
+
+  private sumPix(pix?: Array<{ valor: string }>): number | undefined {
+    if (!pix?.length) return undefined;
+    return pix.reduce((total, item) => total + parseFloat(item.valor), 0);
+  }
+
+  private toCents(amount: number): number {
+    return Math.round(amount * 100);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Registro dos gateways de pagamento
+ *
+ * Escolhe o adaptador de cada escola a partir de payment_gateway_settings
+ * (conta própria da escola, senão conta global) e mantém as instâncias
+ * configuradas em cache. Para adicionar um gateway basta implementar
+ * PaymentGatewayAdapter e registrá-lo em gatewayAdapters.
+ */
+import {
+  PaymentGatewaySettings,
+  getActivePaymentGatewaySettingsByType,
+  getPaymentGatewaySettingsById,
+  getPaymentGatewaySettingsForSchool
+} from '../../models/paymentGatewaySettings';
+import type { PaymentGateway, PaymentMethod } from '../paymentProcessor';
+import type { PaymentGatewayAdapter } from './adapter';
+import { AsaasProcessor } from './asaasProcessor';
+import { EfiProcessor } from './efiProcessor';
+import { InternalGatewayProcessor } from './internalProcessor';
+import { MercadoPagoProcessor } from './mercadoPagoProcessor';
+import { StripeProcessor } from './stripeProcessor';
+
+export * from './adapter';
+
+const gatewayAdapters: Partial<Record<PaymentGateway, () => PaymentGatewayAdapter>> = {
+  stripe: () => new StripeProcessor(),
+  asaas: () => new AsaasProcessor(),
+  mercadopago: () => new MercadoPagoProcessor(),
+  gerencianet: () => new EfiProcessor(),
+  internal: () => new InternalGatewayProcessor('internal'),
+  manual: () => new InternalGatewayProcessor('manual')
+};
+
+// Gateways que funcionam sem credenciais
+const CREDENTIAL_FREE_GATEWAYS: PaymentGateway[] = ['internal', 'manual'];
+
+export interface ResolvedGateway {
+  adapter: PaymentGatewayAdapter;
+  // Configuração usada (nula para o processador interno)
+  settings: PaymentGatewaySettings | null;
+}
+
+class PaymentGatewayRegistry {
+  private cache: Map<string, PaymentGatewayAdapter> = new Map();
+
+  /**
+   * Lista os gateways com adaptador implementado
+   */
+  getSupportedGateways(): PaymentGateway[] {
+    return Object.keys(gatewayAdapters) as PaymentGateway[];
+  }
+
+  isSupported(gateway: string): gateway is PaymentGateway {
+    return gateway in gatewayAdapters;
+  }
+
+  /**
+   * Instancia e configura o adaptador de uma configuração de gateway.
+   * Instâncias são reaproveitadas até a configuração ser alterada.
+   */
+  getAdapter(gateway: PaymentGateway, settings: PaymentGatewaySettings | null): PaymentGatewayAdapter {
+    const factory = gatewayAdapters[gateway];
+    if (!factory) {
+      throw new Error(`Gateway ${gateway} não é suportado`);
+    }
+
+    const cacheKey = settings
+      ? `${settings.id}:${new Date(settings.updatedAt).getTime()}`
+      : gateway;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const adapter = factory();
+    adapter.configure(settings);
+    this.cache.set(cacheKey, adapter);
+    return adapter;
+  }
+
+  /**
+   * Resolve o gateway de uma escola. Sem gateway explícito, usa a primeira
+   * conta ativa (da escola e depois global) que suporta o método; sem
+   * nenhuma conta compatível, cai no processador interno.
+   */
+  async resolveForSchool(
+    schoolId: number | null,
+    options: { method?: PaymentMethod; gateway?: PaymentGateway } = {}
+  ): Promise<ResolvedGateway> {
+    if (options.gateway) {
+      return this.resolveForPayment({ gateway: options.gateway, schoolId });
+    }
+
+    const candidates = await getPaymentGatewaySettingsForSchool(schoolId);
+    for (const settings of candidates) {
+      if (!this.isSupported(settings.gateway)) continue;
+
+      try {
+        const adapter = this.getAdapter(settings.gateway, settings);
+        if (!options.method || adapter.supportedMethods.includes(options.method)) {
+          return { adapter, settings };
+        }
+      } catch (error) {
+        console.error(`Configuração ${settings.id} do gateway ${settings.gateway} inválida:`, error);
+      }
+    }
+
+    return { adapter: this.getAdapter('internal', null), settings: null };
+  }
+
+  /**
+   * Resolve o adaptador de um pagamento já criado (gateway gravado no pagamento)
+   */
+  async resolveForPayment(payment: { gateway: string; schoolId: number | null }): Promise<ResolvedGateway> {
+    if (!this.isSupported(payment.gateway)) {
+      throw new Error(`Gateway ${payment.gateway} não é suportado`);
+    }
+
+    if (CREDENTIAL_FREE_GATEWAYS.includes(payment.gateway)) {
+      return { adapter: this.getAdapter(payment.gateway, null), settings: null };
+    }
+
+    const settings = await getActivePaymentGatewaySettingsByType(payment.gateway, payment.schoolId);
+    if (!settings) {
+      throw new Error(`Gateway ${payment.gateway} não está configurado`);
+    }
+
+    return { adapter: this.getAdapter(payment.gateway, settings), settings };
+  }
+
+  /**
+   * Resolve o adaptador que recebe um webhook. Com várias contas do mesmo
+   * gateway, a URL do webhook identifica a configuração (?settings=<id>).
+   */
+  async resolveForWebhook(gateway: string, settingsId?: number): Promise<ResolvedGateway> {
+    if (!settingsId) {
+      return this.resolveForPayment({ gateway, schoolId: null });
+    }
+
+    const settings = await getPaymentGatewaySettingsById(settingsId);
+    if (!settings || settings.gateway !== gateway || !settings.isActive) {
+      throw new Error(`Configuração ${settingsId} do gateway ${gateway} não encontrada`);
+    }
+    if (!this.isSupported(settings.gateway)) {
+      throw new Error(`Gateway ${gateway} não é suportado`);
+    }
+
+    return { adapter: this.getAdapter(settings.gateway, settings), settings };
+  }
+
+  /**
+   * Descarta instâncias em cache (todas ou as de uma configuração)
+   */
+  invalidate(settingsId?: number): void {
+    if (settingsId === undefined) {
+      this.cache.clear();
+      return;
+    }
+
+    for (const key of Array.from(this.cache.keys())) {
+      if (key.startsWith(`${settingsId}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
+
+export const paymentGatewayRegistry = new PaymentGatewayRegistry();
+export default paymentGatewayRegistry;
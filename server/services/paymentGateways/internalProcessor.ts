@@ -0,0 +1,196 @@
+/**
+ * Adaptador interno (sem gateway externo)
+ * Usado por escolas sem conta de gateway configurada e para lançamentos manuais:
+ * gera boleto em PDF e PIX simulados, e o status vive apenas na tabela payments
+ */
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import PDFDocument from 'pdfkit';
+import { db } from '../../db';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentMethod, PaymentStatus } from '../paymentProcessor';
+import {
+  BasePaymentGatewayAdapter,
+  GatewayCharge,
+  GatewayMethodRequest,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  GatewayWebhookRequest
+} from './adapter';
+
+export class InternalGatewayProcessor extends BasePaymentGatewayAdapter {
+  readonly supportedMethods: PaymentMethod[] = ['bank_slip', 'pix'];
+
+  constructor(readonly gateway: 'internal' | 'manual' = 'internal') {
+    super();
+  }
+
+  configure(_settings: PaymentGatewaySettings | null): void {
+    // Nada a configurar: não há credenciais
+  }
+
+  async createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const dueDate = request.dueDate || new Date();
+    const customerName = request.customer?.name || '';
+    const externalId = `boleto_${uuidv4()}`;
+
+    console.log(`[${this.gateway}] Gerando boleto para ${customerName} no valor de ${request.amount}`);
+
+    // Gerar um código de barras fictício
+    const barcode = `23793${Math.floor(Math.random() * 100000).toString().padStart(5, '0')}`
+      + `${Math.floor(Math.random() * 100000).toString().padStart(5, '0')}`
+      + `${Math.floor(Math.random() * 100000).toString().padStart(5, '0')}`
+      + `${Math.floor(Math.random() * 10)}`
+      + `${dueDate.toISOString().slice(0, 10).replace(/-/g, '')}${Math.floor(request.amount * 100).toString().padStart(10, '0')}`;
+
+    const pdfDoc = new PDFDocument();
+    const chunks: Buffer[] = [];
+
+    pdfDoc.on('data', (chunk) => {
+      chunks.push(chunk);
+    });
+
+    const pdfPromise = new Promise<Buffer>((resolve) => {
+      pdfDoc.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+    });
+
+    pdfDoc.font('Helvetica-Bold').fontSize(18)
+      .text('Boleto', { align: 'center' });
+
+    pdfDoc.moveDown();
+    pdfDoc.font('Helvetica').fontSize(12);
+
+    pdfDoc.text(`Descrição: ${request.description}`);
+    pdfDoc.text(`Valor: R$ ${request.amount.toFixed(2)}`);
+    pdfDoc.text(`Cliente: ${customerName}`);
+    pdfDoc.text(`CPF/CNPJ: ${request.customer?.document || ''}`);
+
+    if (request.customer?.address) {
+      pdfDoc.text(`Endereço: ${request.customer.address}`);
+    }
+
+    pdfDoc.text(`Vencimento: ${dueDate.toLocaleDateString('pt-BR')}`);
+
+    if (request.installments && request.installments > 1) {
+      pdfDoc.text(`Parcela: 1 de ${request.installments}`);
+      pdfDoc.text(`Valor da parcela: R$ ${(request.amount / request.installments).toFixed(2)}`);
+    }
+
+    pdfDoc.moveDown(2);
+    pdfDoc.font('Helvetica-Bold').fontSize(10);
+    pdfDoc.text('Código de Barras', { align: 'center' });
+    pdfDoc.font('Courier').fontSize(12);
+    pdfDoc.text(barcode, { align: 'center' });
+
+    pdfDoc.end();
+
+    const pdfBuffer = await pdfPromise;
+
+    // Armazenar o PDF
+    const uploadsDir = path.join(process.cwd(), 'uploads', 'boletos');
+    if (!fs.existsSync(uploadsDir)) {
+      fs.mkdirSync(uploadsDir, { recursive: true });
+    }
+
+    const fileName = `${externalId}.pdf`;
+    fs.writeFileSync(path.join(uploadsDir, fileName), pdfBuffer);
+
+    const expiresAt = new Date(dueDate);
+    expiresAt.setDate(expiresAt.getDate() + 1); // Expira no dia seguinte ao vencimento
+
+    return {
+      externalId,
+      status: 'pending',
+      method: 'bank_slip',
+      paymentUrl: `/uploads/boletos/${fileName}`,
+      barcode,
+      pdf: pdfBuffer,
+      expiresAt,
+      raw: {
+        id: externalId,
+        barcode,
+        dueDate: dueDate.toISOString(),
+        amount: request.amount
+      }
+    };
+  }
+
+  async createPix(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const customerName = request.customer?.name || '';
+    const pixKey = uuidv4().replace(/-/g, '');
+
+    console.log(`[${this.gateway}] Gerando PIX para ${customerName} no valor de ${request.amount}`);
+
+    // Código PIX fictício no formato copia e cola
+    const pixCopiaECola = [
+      '00020101021226870014br.gov.bcb.pix2565',
+      `pix.example.com/pix/${pixKey}5204000053039865`,
+      `802BR5923${customerName.substring(0, 20).padEnd(20, ' ')}6014`,
+      request.customer?.address ? request.customer.address.substring(0, 10) : 'BRASIL',
+      `6304${(Math.random() * 10000).toFixed(0).padStart(4, '0')}`
+    ].join('').replace(/\s+/g, '');
+
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 24); // Expira em 24 horas
+
+    return {
+      externalId: `pix_${pixKey}`,
+      status: 'pending',
+      method: 'pix',
+      pixQrCode: pixCopiaECola,
+      // Em produção, gerar uma imagem real do QR code
+      pixQrCodeImage: `/uploads/pix/qrcode_${pixKey}.png`,
+      expiresAt,
+      raw: {
+        id: `pix_${pixKey}`,
+        pixKey,
+        amount: request.amount
+      }
+    };
+  }
+
+  /**
+   * Sem gateway externo o status é o registrado na tabela payments
+   * (baixa manual ou conciliação)
+   */
+  async getStatus(externalId: string): Promise<GatewayStatusResult> {
+    const [payment] = await db.execute(`
+      SELECT status, amount FROM payments WHERE external_id = $1
+    `, [externalId]);
+
+    if (!payment) {
+      throw new Error(`Pagamento ${externalId} não encontrado`);
+    }
+
+    return {
+      status: payment.status as PaymentStatus,
+      paidAmount: payment.status === 'paid' ? parseFloat(payment.amount) : undefined,
+      raw: payment
+    };
+  }
+
+  async refund(externalId: string, amount?: number): Promise<GatewayStatusResult> {
+    return {
+      status: 'refunded',
+      raw: { refundId: `refund_${externalId}`, amount }
+    };
+  }
+
+  async cancel(externalId: string): Promise<GatewayStatusResult> {
+    return {
+      status: 'canceled',
+      raw: { id: externalId }
+    };
+  }
+
+  verifyWebhook(_request: GatewayWebhookRequest): boolean {
+    return false;
+  }
+
+  async parseWebhook(_request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]> {
+    return [];
+  }
+}
@@ -1,82 +1,52 @@
 /**
- * Processador de pagamentos para Mercado Pago
+ * Adaptador de pagamentos para Mercado Pago
+ * PIX e boleto pela API de pagamentos; cartão por token ou pelo Checkout Pro
  */
-import mercadopago from 'mercadopago';
-import { PaymentStatus, PaymentMethod } from '../paymentProcessor';
-import { getActivePaymentGatewaySettingsByType } from '../../models/paymentGatewaySettings';
-
-interface MercadoPagoConfig {
-  accessToken: string;
-  publicKey?: string;
-  integrationId?: string;
-  notificationUrl?: string;
-  sandboxMode: boolean;
-}
+import crypto from 'crypto';
+import { MercadoPagoConfig, Payment, PaymentRefund, Preference } from 'mercadopago';
+import type { PaymentResponse } from 'mercadopago/dist/clients/payment/commonTypes';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentMethod, PaymentStatus } from '../paymentProcessor';
+import {
+  BasePaymentGatewayAdapter,
+  GatewayCharge,
+  GatewayMethodRequest,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  GatewayWebhookRequest,
+  getWebhookHeader,
+  safeCompare
+} from './adapter';
 
-export class MercadoPagoProcessor {
-  private client: typeof mercadopago;
-  private isConfigured: boolean = false;
-  private config: MercadoPagoConfig | null = null;
-  private gatewayName: string = 'mercadopago';
+export class MercadoPagoProcessor extends BasePaymentGatewayAdapter {
+  readonly gateway = 'mercadopago' as const;
+  readonly supportedMethods: PaymentMethod[] = ['pix', 'bank_slip', 'credit_card'];
 
-  constructor() {
-    this.client = mercadopago;
-  }
+  private config: MercadoPagoConfig | null = null;
+  private notificationUrl: string = '';
+  // Assinatura secreta do painel de webhooks do Mercado Pago
+  private webhookSecret: string = '';
 
   /**
-   * Inicializa o processador de pagamentos com as credenciais
+   * Configura o SDK com o access token da escola ou da plataforma
    */
-  async initialize(): Promise<boolean> {
-    try {
-      // Obter configuração do banco de dados
-      const gatewaySettings = await getActivePaymentGatewaySettingsByType('mercadopago');
-      
-      if (!gatewaySettings) {
-        console.warn('Mercado Pago não está configurado - usando modo simulado');
-        this.isConfigured = false;
-        return false;
-      }
-      
-      // Extrair configuração
-      this.config = {
-        accessToken: gatewaySettings.apiKey,
-        publicKey: gatewaySettings.apiSecret,
-        integrationId: gatewaySettings.configuration?.integrationId,
-        notificationUrl: gatewaySettings.configuration?.notificationUrl,
-        sandboxMode: gatewaySettings.sandboxMode
-      };
-      
-      // Configurar SDK
-      this.client.configure({
-        access_token: this.config.accessToken,
-        integrator_id: this.config.integrationId
-      });
-      
-      if (this.config.sandboxMode) {
-        this.client.configurations.sandbox = true;
-      }
-      
-      console.log(`Processador Mercado Pago configurado com sucesso [Modo ${this.config.sandboxMode ? 'TESTE (SANDBOX)' : 'PRODUÇÃO'}]`);
-      this.isConfigured = true;
-      return true;
-    } catch (error) {
-      console.error('Erro ao configurar processador Mercado Pago:', error);
-      this.isConfigured = false;
-      return false;
+  configure(settings: PaymentGatewaySettings | null): void {
+    if (!settings?.apiKey) {
+      throw new Error('Access Token do Mercado Pago não configurado');
     }
-  }
 
-  /**
-   * Verifica se o processador está configurado
-   */
-  getStatus(): boolean {
-    return this.isConfigured;
+    this.config = new MercadoPagoConfig({
+      accessToken: settings.apiKey,
+      options: { integratorId: settings.configuration?.integrationId }
+    });
+    this.notificationUrl = settings.configuration?.notificationUrl || '';
+    this.webhookSecret = settings.configuration?.webhookSecret || '';
   }
 
   /**
    * Converte status do Mercado Pago para o padrão interno
    */
-  private convertStatus(mpStatus: string): PaymentStatus {
+  private convertStatus(mpStatus?: string): PaymentStatus {
     const statusMap: Record<string, PaymentStatus> = {
       'pending': 'pending',
       'approved': 'paid',
@@ -88,318 +58,207 @@ export class MercadoPagoProcessor {
       'refunded': 'refunded',
       'charged_back': 'refunded'
     };
-    
-    return statusMap[mpStatus] || 'pending';
+
+    return statusMap[mpStatus || ''] || 'pending';
   }
 
-  /**
-   * Cria um pagamento no Mercado Pago
-   */
-  async createPayment(
-    amount: number,
-    currency: string,
-    options: {
-      description?: string;
-      customerId?: string;
-      paymentMethod?: PaymentMethod;
-      installments?: number;
-      metadata?: any;
-      notificationUrl?: string;
-      callbackUrl?: string;
-      items?: Array<{
-        id: string;
-        title: string;
-        quantity: number;
-        unitPrice: number;
-        description?: string;
-        pictureUrl?: string;
-        categoryId?: string;
-      }>;
-      payer?: {
-        email: string;
-        firstName?: string;
-        lastName?: string;
-        identification?: {
-          type: string;
-          number: string;
-        };
-        phone?: {
-          areaCode: string;
-          number: string;
-        };
-        address?: {
-          zipCode: string;
-          streetName: string;
-          streetNumber: string;
-          neighborhood?: string;
-          city?: string;
-          federalUnit?: string;
-        };
-      };
-    } = {}
-  ): Promise<{
-    id: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Mercado Pago não está configurado');
+  async createPix(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const payment = await this.createPayment('pix', request);
+    const transactionData = payment.point_of_interaction?.transaction_data;
+
+    return {
+      ...this.toCharge(payment, 'pix'),
+      paymentUrl: transactionData?.ticket_url,
+      pixQrCode: transactionData?.qr_code,
+      pixQrCodeImage: transactionData?.qr_code_base64
+        ? `data:image/png;base64,${transactionData.qr_code_base64}`
+        : undefined,
+      expiresAt: payment.date_of_expiration ? new Date(payment.date_of_expiration) : undefined
+    };
+  }
+
+  async createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const payment = await this.createPayment('bolbradesco', request);
+
+    return {
+      ...this.toCharge(payment, 'bank_slip'),
+      paymentUrl: payment.transaction_details?.external_resource_url,
+      barcode: payment.transaction_details?.digitable_line || payment.transaction_details?.barcode?.content,
+      expiresAt: payment.date_of_expiration ? new Date(payment.date_of_expiration) : request.dueDate
+    };
+  }
+
+  async createCardPayment(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    if (request.cardToken) {
+      const payment = await this.createPayment(undefined, request);
+      return this.toCharge(payment, 'credit_card');
     }
-    
-    try {
-      const preferenceData: any = {
-        items: options.items || [
-          {
-            id: '1',
-            title: options.description || 'Pagamento',
-            quantity: 1,
-            unit_price: amount
-          }
-        ],
-        back_urls: {
-          success: options.callbackUrl || `${this.config?.notificationUrl}/success`,
-          failure: options.callbackUrl || `${this.config?.notificationUrl}/failure`,
-          pending: options.callbackUrl || `${this.config?.notificationUrl}/pending`
-        },
-        auto_return: 'approved',
-        notification_url: options.notificationUrl || this.config?.notificationUrl,
+
+    // Sem token o pagador conclui no Checkout Pro; o ID do pagamento chega
+    // depois pelo webhook, associado pela external_reference
+    const preference = await new Preference(this.getConfig()).create({
+      body: {
+        items: [{
+          id: request.reference || '1',
+          title: request.description,
+          quantity: 1,
+          unit_price: request.amount,
+          currency_id: 'BRL'
+        }],
+        payer: request.customer ? {
+          email: request.customer.email,
+          name: request.customer.name
+        } : undefined,
+        payment_methods: request.installments ? { installments: request.installments } : undefined,
+        notification_url: this.notificationUrl || undefined,
+        external_reference: request.reference,
         statement_descriptor: 'MATRICULA.PRO',
-        external_reference: options.metadata?.reference || Date.now().toString(),
-        expires: true,
-        expiration_date_from: new Date().toISOString(),
-        expiration_date_to: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7).toISOString() // 7 dias
-      };
-      
-      if (options.payer) {
-        preferenceData.payer = {
-          email: options.payer.email,
-          name: options.payer.firstName,
-          surname: options.payer.lastName,
-          identification: options.payer.identification,
-          phone: options.payer.phone,
-          address: options.payer.address
-        };
+        metadata: request.metadata
       }
-      
-      if (options.installments) {
-        preferenceData.payment_methods = {
-          installments: options.installments
-        };
-      }
-      
-      // Criar preferência
-      const preference = await this.client.preferences.create(preferenceData);
-      
-      return {
-        id: preference.body.id,
-        status: 'pending',
-        gatewayResponse: preference.body
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao criar pagamento:`, error);
-      throw error;
-    }
+    });
+
+    return {
+      externalId: preference.id!,
+      status: 'pending',
+      method: 'credit_card',
+      paymentUrl: preference.init_point,
+      raw: preference
+    };
+  }
+
+  async getStatus(externalId: string): Promise<GatewayStatusResult> {
+    const payment = await new Payment(this.getConfig()).get({ id: externalId });
+    const status = this.convertStatus(payment.status);
+
+    return {
+      status,
+      paidAmount: status === 'paid' ? payment.transaction_amount : undefined,
+      raw: payment
+    };
+  }
+
+  async refund(externalId: string, amount?: number): Promise<GatewayStatusResult> {
+    const refund = await new PaymentRefund(this.getConfig()).create({
+      payment_id: externalId,
+      body: amount ? { amount } : undefined
+    });
+
+    return {
+      status: amount ? 'partial' : 'refunded',
+      raw: refund
+    };
+  }
+
+  async cancel(externalId: string): Promise<GatewayStatusResult> {
+    const payment = await new Payment(this.getConfig()).cancel({ id: externalId });
+
+    return {
+      status: this.convertStatus(payment.status),
+      raw: payment
+    };
   }
 
   /**
-   * Obtém o status de um pagamento
+   * Valida o cabeçalho x-signature (ts=...,v1=...) com HMAC-SHA256 do manifesto
+   * id:<data.id>;request-id:<x-request-id>;ts:<ts>;
    */
-  async getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Mercado Pago não está configurado');
-    }
-    
-    try {
-      const payment = await this.client.payment.get(paymentId);
-      
-      return {
-        status: this.convertStatus(payment.body.status),
-        gatewayResponse: payment.body
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao consultar status do pagamento ${paymentId}:`, error);
-      throw error;
-    }
+  verifyWebhook(request: GatewayWebhookRequest): boolean {
+    const signature = getWebhookHeader(request, 'x-signature');
+    if (!signature || !this.webhookSecret) return false;
+
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => part.trim().split('=') as [string, string])
+    );
+    const dataId = String(request.query?.['data.id'] ?? request.body?.data?.id ?? '').toLowerCase();
+    const requestId = getWebhookHeader(request, 'x-request-id') || '';
+
+    const manifest = `id:${dataId};request-id:${requestId};ts:${parts.ts};`;
+    const expected = crypto.createHmac('sha256', this.webhookSecret).update(manifest).digest('hex');
+
+    return safeCompare(parts.v1, expected);
   }
 
   /**
-   * Reembolsa um pagamento
+   * ID da notificação; notificações IPN antigas não trazem ID e usam o
+   * x-request-id, que se repete nos reenvios
    */
-  async refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Mercado Pago não está configurado');
-    }
-    
-    try {
-      let refundResult;
-      
-      if (amount) {
-        // Reembolso parcial
-        refundResult = await this.client.refund.create({
-          payment_id: parseInt(paymentId),
-          amount: amount
-        });
-      } else {
-        // Reembolso total
-        refundResult = await this.client.refund.create({
-          payment_id: parseInt(paymentId)
-        });
-      }
-      
-      return {
-        success: true,
-        status: 'refunded',
-        gatewayResponse: refundResult.body
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao reembolsar pagamento ${paymentId}:`, error);
-      throw error;
+  getWebhookEventId(request: GatewayWebhookRequest): string | undefined {
+    if (request.body?.id) return String(request.body.id);
+    return getWebhookHeader(request, 'x-request-id');
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]> {
+    const type = request.body?.type || request.query?.type || request.query?.topic;
+    const paymentId = request.body?.data?.id || request.query?.['data.id'] || request.query?.id;
+    if (type !== 'payment' || !paymentId) {
+      return [];
     }
+
+    // A notificação só traz o ID; o status é sempre consultado na API
+    const payment = await new Payment(this.getConfig()).get({ id: paymentId });
+    const status = this.convertStatus(payment.status);
+
+    return [{
+      externalId: String(payment.id),
+      status,
+      eventType: `payment.${request.body?.action || 'updated'}`,
+      eventId: request.body?.id ? String(request.body.id) : undefined,
+      reference: payment.external_reference || undefined,
+      paidAmount: status === 'paid' ? payment.transaction_amount : undefined,
+      raw: payment
+    }];
   }
 
   /**
-   * Gera um link de pagamento
+   * Cria um pagamento direto na API (PIX, boleto ou cartão tokenizado)
    */
-  async generatePaymentLink(
-    options: {
-      description: string;
-      amount: number;
-      dueDate?: Date;
-      customerName?: string;
-      customerEmail?: string;
-      customerDocument?: string;
-      metadata?: any;
+  private async createPayment(paymentMethodId: string | undefined, request: GatewayMethodRequest): Promise<PaymentResponse> {
+    if (!request.customer?.email) {
+      throw new Error('E-mail do pagador é obrigatório para cobranças no Mercado Pago');
     }
-  ): Promise<{
-    success: boolean;
-    url: string;
-    expiresAt?: Date;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
-      throw new Error('Mercado Pago não está configurado');
-    }
-    
-    try {
-      const preferenceData: any = {
-        items: [
-          {
-            id: '1',
-            title: options.description,
-            quantity: 1,
-            unit_price: options.amount,
-            currency_id: 'BRL'
+
+    const [firstName, ...lastName] = request.customer.name.trim().split(/\s+/);
+    const document = request.customer.document.replace(/\D/g, '');
+
+    return new Payment(this.getConfig()).create({
+      body: {
+        transaction_amount: request.amount,
+        description: request.description,
+        payment_method_id: paymentMethodId,
+        token: request.cardToken,
+        installments: request.cardToken ? (request.installments || 1) : undefined,
+        date_of_expiration: request.dueDate?.toISOString(),
+        external_reference: request.reference,
+        notification_url: this.notificationUrl || undefined,
+        metadata: request.metadata,
+        payer: {
+          email: request.customer.email,
+          first_name: firstName,
+          last_name: lastName.join(' ') || undefined,
+          identification: {
+            type: document.length > 11 ? 'CNPJ' : 'CPF',
+            number: document
           }
-        ],
-        back_urls: {
-          success: `${this.config?.notificationUrl}/success`,
-          failure: `${this.config?.notificationUrl}/failure`,
-          pending: `${this.config?.notificationUrl}/pending`
-        },
-        auto_return: 'approved',
-        notification_url: this.config?.notificationUrl,
-        statement_descriptor: 'MATRICULA.PRO',
-        external_reference: options.metadata?.reference || Date.now().toString()
-      };
-      
-      if (options.dueDate) {
-        preferenceData.expires = true;
-        preferenceData.expiration_date_to = options.dueDate.toISOString();
-      }
-      
-      if (options.customerEmail) {
-        preferenceData.payer = {
-          email: options.customerEmail,
-          name: options.customerName
-        };
-      }
-      
-      const preference = await this.client.preferences.create(preferenceData);
-      
-      return {
-        success: true,
-        url: preference.body.init_point,
-        expiresAt: options.dueDate,
-        gatewayResponse: preference.body
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao gerar link de pagamento:`, error);
-      throw error;
-    }
+        }
+      },
+      // Evita cobrança duplicada em novas tentativas da mesma referência
+      requestOptions: request.reference ? { idempotencyKey: request.reference } : undefined
+    });
   }
 
-  /**
-   * Gera um QR Code de pagamento Pix
-   */
-  async generatePixQRCode(
-    options: {
-      description: string;
-      amount: number;
-      expiresIn?: number; // Segundos
-      customerName?: string;
-      customerEmail?: string;
-      metadata?: any;
-    }
-  ): Promise<{
-    success: boolean;
-    qrCode: string;
-    qrCodeBase64?: string;
-    expiresAt?: Date;
-    gatewayResponse: any;
-  }> {
-    if (!this.isConfigured) {
+  private toCharge(payment: PaymentResponse, method: PaymentMethod): GatewayCharge {
+    return {
+      externalId: String(payment.id),
+      status: this.convertStatus(payment.status),
+      method,
+      raw: payment
+    };
+  }
+
+  private getConfig(): MercadoPagoConfig {
+    if (!this.config) {
       throw new Error('Mercado Pago não está configurado');
     }
-    
-    try {
-      const pixPaymentData = {
-        transaction_amount: options.amount,
-        description: options.description,
-        payment_method_id: 'pix',
-        notification_url: this.config?.notificationUrl,
-        metadata: options.metadata || {}
-      };
-      
-      if (options.customerEmail) {
-        pixPaymentData['payer'] = {
-          email: options.customerEmail,
-          first_name: options.customerName || ''
-        };
-      }
-      
-      const payment = await this.client.payment.create(pixPaymentData);
-      
-      // Extrair dados do Pix
-      const pixData = payment.body.point_of_interaction.transaction_data;
-      
-      // Calcular data de expiração
-      let expiresAt;
-      if (options.expiresIn) {
-        expiresAt = new Date(Date.now() + options.expiresIn * 1000);
-      }
-      
-      return {
-        success: true,
-        qrCode: pixData.qr_code,
-        qrCodeBase64: pixData.qr_code_base64,
-        expiresAt,
-        gatewayResponse: payment.body
-      };
-    } catch (error) {
-      console.error(`[${this.gatewayName}] Erro ao gerar QR Code Pix:`, error);
-      throw error;
-    }
+    return this.config;
   }
-}
\ No newline at end of file
+}
@@ -1,299 +1,237 @@
 /**
- * Processador de pagamentos do Stripe
+ * Adaptador de pagamentos do Stripe
+ * Cartão via Payment Intents (concluído no front-end com Stripe Elements),
+ * boleto e PIX confirmados no servidor com os dados do pagador
  */
 
 import Stripe from 'stripe';
-import { getActivePaymentGatewaySettingsByType } from '../../models/paymentGatewaySettings';
-import { PaymentGateway, PaymentMethod, PaymentOptions, PaymentStatus } from '../paymentProcessor.enhanced';
+import type { PaymentGatewaySettings } from '../../models/paymentGatewaySettings';
+import type { PaymentMethod, PaymentStatus } from '../paymentProcessor';
+import {
+  BasePaymentGatewayAdapter,
+  GatewayCharge,
+  GatewayMethodRequest,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  GatewayWebhookRequest,
+  getWebhookHeader
+} from './adapter';
+
+export class StripeProcessor extends BasePaymentGatewayAdapter {
+  readonly gateway = 'stripe' as const;
+  readonly supportedMethods: PaymentMethod[] = ['credit_card', 'bank_slip', 'pix'];
 
-export class StripeProcessor {
   private client: Stripe | null = null;
-  private apiKey: string = '';
-  private isLive: boolean = false;
-  private initialized: boolean = false;
   private webhookSecret: string = '';
 
   /**
-   * Inicializa o processador Stripe com as configurações do banco de dados
+   * Configura o cliente Stripe com as credenciais da escola ou da plataforma
    */
-  async initialize(): Promise<boolean> {
+  configure(settings: PaymentGatewaySettings | null): void {
+    if (!settings?.apiKey) {
+      throw new Error('API Key do Stripe não configurada');
+    }
+
+    this.client = new Stripe(settings.apiKey, {
+      apiVersion: '2025-03-31.basil'
+    });
+    this.webhookSecret = settings.configuration?.webhookSecret || '';
+  }
+
+  async createCardPayment(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const paymentIntent = await this.getClient().paymentIntents.create({
+      amount: this.toCents(request.amount),
+      currency: 'brl',
+      payment_method_types: ['card'],
+      description: request.description,
+      metadata: this.buildMetadata(request)
+    });
+
+    return this.toCharge(paymentIntent, 'credit_card');
+  }
+
+  async createBankSlip(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const customer = this.requireCustomer(request);
+    const paymentIntent = await this.getClient().paymentIntents.create({
+      amount: this.toCents(request.amount),
+      currency: 'brl',
+      payment_method_types: ['boleto'],
+      description: request.description,
+      metadata: this.buildMetadata(request),
+      payment_method_data: {
+        type: 'boleto',
+        boleto: { tax_id: customer.document.replace(/\D/g, '') },
+        billing_details: {
+          name: customer.name,
+          email: customer.email
+        }
+      },
+      payment_method_options: request.dueDate ? {
+        boleto: { expires_after_days: this.daysUntil(request.dueDate) }
+      } : undefined,
+      confirm: true
+    });
+
+    const boleto = paymentIntent.next_action?.boleto_display_details;
+    return {
+      ...this.toCharge(paymentIntent, 'bank_slip'),
+      paymentUrl: boleto?.hosted_voucher_url || undefined,
+      barcode: boleto?.number || undefined,
+      expiresAt: boleto?.expires_at ? new Date(boleto.expires_at * 1000) : request.dueDate
+    };
+  }
+
+  async createPix(request: GatewayMethodRequest): Promise<GatewayCharge> {
+    const paymentIntent = await this.getClient().paymentIntents.create({
+      amount: this.toCents(request.amount),
+      currency: 'brl',
+      payment_method_types: ['pix'],
+      description: request.description,
+      metadata: this.buildMetadata(request),
+      payment_method_data: { type: 'pix' },
+      confirm: true
+    });
+
+    const pix = paymentIntent.next_action?.pix_display_qr_code;
+    return {
+      ...this.toCharge(paymentIntent, 'pix'),
+      paymentUrl: pix?.hosted_instructions_url || undefined,
+      pixQrCode: pix?.data || undefined,
+      pixQrCodeImage: pix?.image_url_png || undefined,
+      expiresAt: pix?.expires_at ? new Date(pix.expires_at * 1000) : undefined
+    };
+  }
+
+  async getStatus(externalId: string): Promise<GatewayStatusResult> {
+    const paymentIntent = await this.getClient().paymentIntents.retrieve(externalId);
+
+    return {
+      status: this.mapStatus(paymentIntent.status),
+      paidAmount: paymentIntent.status === 'succeeded' ? paymentIntent.amount_received / 100 : undefined,
+      raw: paymentIntent
+    };
+  }
+
+  async refund(externalId: string, amount?: number): Promise<GatewayStatusResult> {
+    const refund = await this.getClient().refunds.create({
+      payment_intent: externalId,
+      amount: amount ? this.toCents(amount) : undefined
+    });
+
+    return {
+      status: refund.status === 'succeeded' ? 'refunded' : 'processing',
+      raw: refund
+    };
+  }
+
+  async cancel(externalId: string): Promise<GatewayStatusResult> {
+    const paymentIntent = await this.getClient().paymentIntents.cancel(externalId);
+
+    return {
+      status: this.mapStatus(paymentIntent.status),
+      raw: paymentIntent
+    };
+  }
+
+  verifyWebhook(request: GatewayWebhookRequest): boolean {
     try {
-      // Buscar configuração ativa do banco de dados
-      const activeSetting = await getActivePaymentGatewaySettingsByType('stripe');
-      
-      if (!activeSetting) {
-        // Se não tiver configuração ativa
-        console.log('API Key para stripe não configurada - usando modo simulado');
-        this.initialized = false;
-        return false;
-      }
-      
-      if (!activeSetting.apiKey) {
-        console.log('API Key para stripe não configurada - usando modo simulado');
-        this.initialized = false;
-        return false;
-      }
-      
-      // Configurar cliente Stripe
-      this.apiKey = activeSetting.apiKey;
-      this.isLive = !activeSetting.sandboxMode;
-      
-      // Configurações adicionais
-      if (activeSetting.configuration) {
-        this.webhookSecret = activeSetting.configuration.webhookSecret || '';
-      }
-      
-      // Criar cliente do Stripe
-      this.client = new Stripe(this.apiKey, {
-        apiVersion: '2023-10-16'
-      });
-      
-      this.initialized = true;
-      console.log(`✅ Processador Stripe configurado com sucesso [Modo ${this.isLive ? 'PRODUÇÃO' : 'TESTE (SANDBOX)'}, API Key: ${this.apiKey.substring(0, 4)}...]`);
+      this.constructEvent(request);
       return true;
-    } catch (error) {
-      console.error('Erro ao inicializar processador Stripe:', error);
-      this.initialized = false;
+    } catch {
       return false;
     }
   }
-  
-  /**
-   * Verifica se o processador está inicializado
-   */
-  isInitialized(): boolean {
-    return this.initialized && !!this.client;
+
+  getWebhookEventId(request: GatewayWebhookRequest): string | undefined {
+    return request.body?.id ? String(request.body.id) : undefined;
   }
-  
-  /**
-   * Cria um pagamento no Stripe
-   */
-  async createPayment(amount: number, options: PaymentOptions): Promise<{
-    success: boolean;
-    paymentId?: string;
-    status?: PaymentStatus;
-    paymentUrl?: string;
-    message?: string;
-    response?: any;
-  }> {
-    if (!this.isInitialized() || !this.client) {
-      return { 
-        success: false, 
-        message: 'Processador Stripe não inicializado' 
-      };
-    }
-    
-    try {
-      // Informações do cliente
-      let customerId = options.customerId;
-      
-      // Criar cliente se não existir e tiver dados
-      if (!customerId && options.customerData) {
-        const customer = await this.client.customers.create({
-          name: options.customerData.name,
-          email: options.customerData.email || undefined,
-          phone: options.customerData.phone || undefined,
-          metadata: {
-            document: options.customerData.document
-          },
-          address: options.customerData.address ? {
-            line1: `${options.customerData.address.street}, ${options.customerData.address.number}`,
-            line2: options.customerData.address.complement || undefined,
-            city: options.customerData.address.city,
-            state: options.customerData.address.state,
-            postal_code: options.customerData.address.postalCode,
-            country: 'BR'
-          } : undefined
-        });
-        
-        customerId = customer.id;
-      }
-      
-      // Criar intenção de pagamento
-      const paymentIntent = await this.client.paymentIntents.create({
-        amount: Math.round(amount * 100), // Converter para centavos
-        currency: 'brl',
-        payment_method_types: this.getPaymentMethodTypes(options.paymentMethod),
-        customer: customerId || undefined,
-        description: options.description || 'Pagamento EduMatrik AI',
-        metadata: {
-          ...options.metadata,
-          studentId: options.studentId?.toString() || '',
-          schoolId: options.schoolId?.toString() || '',
-          enrollmentId: options.enrollmentId?.toString() || '',
-          userId: options.userId?.toString() || ''
-        }
-      });
-      
-      // Criar checkout para obter URL de pagamento
-      let paymentUrl = '';
-      
-      if (paymentIntent.client_secret) {
-        // URL para checkout client-side
-        const baseUrl = this.isLive 
-          ? 'https://matricula.pro' 
-          : 'http://localhost:5000';
-          
-        paymentUrl = `${baseUrl}/pagamento/stripe?client_secret=${paymentIntent.client_secret}`;
-      }
-      
-      return {
-        success: true,
-        paymentId: paymentIntent.id,
-        status: this.mapStatus(paymentIntent.status),
-        paymentUrl,
-        response: paymentIntent
-      };
-    } catch (error: any) {
-      console.error('Erro ao criar pagamento no Stripe:', error);
-      return {
-        success: false,
-        message: error.message || 'Erro ao processar pagamento',
-        response: error
-      };
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent[]> {
+    // A assinatura já foi conferida no recebimento; o prazo do timestamp
+    // impediria reprocessar o evento depois
+    const event = request.body as Stripe.Event;
+    if (typeof event?.type !== 'string') {
+      return [];
     }
-  }
-  
-  /**
-   * Consulta status de um pagamento
-   */
-  async getPaymentStatus(paymentId: string): Promise<{
-    success: boolean;
-    status?: PaymentStatus;
-    paidAmount?: number;
-    message?: string;
-    response?: any;
-  }> {
-    if (!this.isInitialized() || !this.client) {
-      return { 
-        success: false, 
-        message: 'Processador Stripe não inicializado' 
-      };
+
+    if (event.type.startsWith('payment_intent.')) {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      return [{
+        externalId: paymentIntent.id,
+        status: event.type === 'payment_intent.payment_failed' ? 'failed' : this.mapStatus(paymentIntent.status),
+        eventType: event.type,
+        eventId: event.id,
+        paidAmount: paymentIntent.status === 'succeeded' ? paymentIntent.amount_received / 100 : undefined,
+        raw: event
+      }];
     }
-    
-    try {
-      const paymentIntent = await this.client.paymentIntents.retrieve(paymentId);
-      
-      let paidAmount = 0;
-      if (paymentIntent.status === 'succeeded') {
-        paidAmount = paymentIntent.amount_received / 100; // Converter de centavos
-      }
-      
-      return {
-        success: true,
-        status: this.mapStatus(paymentIntent.status),
-        paidAmount,
-        response: paymentIntent
-      };
-    } catch (error: any) {
-      console.error('Erro ao consultar pagamento no Stripe:', error);
-      return {
-        success: false,
-        message: error.message || 'Erro ao consultar pagamento',
-        response: error
-      };
+
+    if (event.type === 'charge.refunded') {
+      const charge = event.data.object as Stripe.Charge;
+      if (typeof charge.payment_intent !== 'string') return [];
+      return [{
+        externalId: charge.payment_intent,
+        status: charge.refunded ? 'refunded' : 'partial',
+        eventType: event.type,
+        eventId: event.id,
+        raw: event
+      }];
     }
+
+    return [];
   }
-  
-  /**
-   * Cancela um pagamento
-   */
-  async cancelPayment(paymentId: string): Promise<{
-    success: boolean;
-    status?: PaymentStatus;
-    message?: string;
-    response?: any;
-  }> {
-    if (!this.isInitialized() || !this.client) {
-      return { 
-        success: false, 
-        message: 'Processador Stripe não inicializado' 
-      };
-    }
-    
-    try {
-      const paymentIntent = await this.client.paymentIntents.cancel(paymentId);
-      
-      return {
-        success: true,
-        status: this.mapStatus(paymentIntent.status),
-        response: paymentIntent
-      };
-    } catch (error: any) {
-      console.error('Erro ao cancelar pagamento no Stripe:', error);
-      return {
-        success: false,
-        message: error.message || 'Erro ao cancelar pagamento',
-        response: error
-      };
+
+  private constructEvent(request: GatewayWebhookRequest): Stripe.Event {
+    const signature = getWebhookHeader(request, 'stripe-signature');
+    if (!this.webhookSecret || !signature || !request.rawBody) {
+      throw new Error('Webhook do Stripe sem assinatura ou sem segredo configurado');
     }
+
+    return this.getClient().webhooks.constructEvent(request.rawBody, signature, this.webhookSecret);
   }
-  
-  /**
-   * Processa um webhook do Stripe
-   */
-  async processWebhook(data: any, signature: string): Promise<{
-    success: boolean;
-    event?: any;
-    paymentId?: string;
-    status?: PaymentStatus;
-    message?: string;
-  }> {
-    if (!this.isInitialized() || !this.client) {
-      return { 
-        success: false, 
-        message: 'Processador Stripe não inicializado' 
-      };
+
+  private getClient(): Stripe {
+    if (!this.client) {
+      throw new Error('Processador Stripe não configurado');
     }
-    
-    if (!this.webhookSecret) {
-      return {
-        success: false,
-        message: 'Webhook secret não configurado'
-      };
+    return this.client;
+  }
+
+  private requireCustomer(request: GatewayMethodRequest) {
+    if (!request.customer) {
+      throw new Error('Dados do pagador são obrigatórios para boleto no Stripe');
     }
-    
-    try {
-      let event;
-      
-      try {
-        event = this.client.webhooks.constructEvent(
-          data,
-          signature,
-          this.webhookSecret
-        );
-      } catch (err: any) {
-        return {
-          success: false,
-          message: `Webhook signature verification failed: ${err.message}`
-        };
-      }
-      
-      // Processar diferentes tipos de eventos
-      let paymentId = '';
-      let status: PaymentStatus | undefined;
-      
-      if (event.type.startsWith('payment_intent.')) {
-        const paymentIntent = event.data.object;
-        paymentId = paymentIntent.id;
-        status = this.mapStatus(paymentIntent.status);
-      }
-      
-      return {
-        success: true,
-        event,
-        paymentId,
-        status
-      };
-    } catch (error: any) {
-      console.error('Erro ao processar webhook do Stripe:', error);
-      return {
-        success: false,
-        message: error.message || 'Erro ao processar webhook',
-      };
+    return request.customer;
+  }
+
+  private buildMetadata(request: GatewayMethodRequest): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of Object.entries(request.metadata || {})) {
+      if (value !== undefined && value !== null) metadata[key] = String(value);
     }
+    if (request.reference) metadata.reference = request.reference;
+    return metadata;
+  }
+
+  private toCharge(paymentIntent: Stripe.PaymentIntent, method: PaymentMethod): GatewayCharge {
+    return {
+      externalId: paymentIntent.id,
+      status: this.mapStatus(paymentIntent.status),
+      method,
+      clientSecret: paymentIntent.client_secret || undefined,
+      raw: paymentIntent
+    };
+  }
+
+  private toCents(amount: number): number {
+    return Math.round(amount * 100);
   }
-  
+
+  private daysUntil(date: Date): number {
+    const days = Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+    return Math.max(1, days);
+  }
+
   /**
    * Mapeia os status do Stripe para os status internos
    */
@@ -307,28 +245,7 @@ export class StripeProcessor {
       'succeeded': 'paid',
       'canceled': 'canceled'
     };
-    
+
     return statusMap[stripeStatus] || 'pending';
   }
-  
-  /**
-   * Obtém os tipos de métodos de pagamento com base na opção selecionada
-   */
-  private getPaymentMethodTypes(method?: PaymentMethod): string[] {
-    if (!method) {
-      // Se não especificar, permite todos os métodos
-      return ['card', 'boleto', 'pix'];
-    }
-    
-    const methodMap: Record<PaymentMethod, string[]> = {
-      'credit_card': ['card'],
-      'bank_slip': ['boleto'],
-      'pix': ['pix'],
-      'bank_transfer': ['bank_transfer'],
-      'cash': [],
-      'other': []
-    };
-    
-    return methodMap[method] || ['card'];
-  }
-}
\ No newline at end of file
+}
@@ -1,16 +1,27 @@
 /**
  * Serviço de processamento de pagamentos
- * Implementa gateway Stripe e suporte a múltiplos gateways com parcelamento
+ * Orquestra os gateways (ver ./paymentGateways) escolhidos por escola,
+ * registra os pagamentos e aplica os webhooks de status
  */
 
-import Stripe from 'stripe';
 import { db } from '../db';
 import { logAction } from './securityService';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import * as pdf from 'pdfkit';
 import { sendUserNotification } from '../pusher';
+import { guardianService } from './guardianService';
+import { discountService } from './discountService';
+import { courseSeatService } from './courseSeatService';
+import { domainEventService, OutboxEventSpec } from './domainEventService';
+import { createPaymentGatewaySettingsTable } from '../models/paymentGatewaySettings';
+import {
+  paymentGatewayRegistry,
+  GatewayCharge,
+  GatewayChargeRequest,
+  GatewayCustomer,
+  GatewayWebhookEvent
+} from './paymentGateways';
 
 // Opções para geração de boletos e ordens de pagamento
 export interface BillingOptions {
@@ -29,654 +40,59 @@ export interface BillingOptions {
   schoolId: number;
   studentId?: number;
   enrollmentId?: number;
+  // Usuário pagador (aluno ou responsável financeiro)
+  payerUserId?: number;
+  // Multa (%) e juros diários (%) cobrados após o vencimento
+  finePercent?: number;
+  dailyInterestPercent?: number;
+  // Confirmação do pagamento quita a matrícula
+  settlesEnrollment?: boolean;
 }
 
 // Status de pagamento
-export type PaymentStatus = 
-  'pending' | 
+export type PaymentStatus =
+  'pending' |
   'processing' |
   'paid' |
-  'canceled' | 
-  'refunded' | 
+  'canceled' |
+  'refunded' |
   'failed' |
   'expired' |
   'partial';
 
 // Tipos de pagamento
-export type PaymentMethod = 
-  'credit_card' | 
-  'bank_slip' | 
-  'pix' | 
-  'bank_transfer' | 
-  'cash' | 
+export type PaymentMethod =
+  'credit_card' |
+  'bank_slip' |
+  'pix' |
+  'bank_transfer' |
+  'cash' |
   'other';
 
 // Tipos de gateway
-export type PaymentGateway = 
-  'stripe' | 
-  'asaas' | 
-  'gerencianet' | 
-  'internal' | 
+export type PaymentGateway =
+  'stripe' |
+  'asaas' |
+  'mercadopago' |
+  'gerencianet' |
+  'internal' |
   'manual';
 
-// Interface para processadores de pagamento
-interface PaymentProcessor {
-  createPayment(
-    amount: number,
-    currency: string,
-    options: any
-  ): Promise<{
-    id: string;
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }>;
-  
-  getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }>;
-  
-  refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }>;
-  
-  generateBankSlip?(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    url?: string;
-    code?: string;
-    pdf?: Buffer;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }>;
-  
-  generatePixPayment?(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    qrCode?: string;
-    qrCodeImage?: string;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }>;
-}
+// Status que não voltam a pendente por um webhook atrasado
+const SETTLED_STATUSES: PaymentStatus[] = ['paid', 'refunded', 'canceled'];
+const OPEN_STATUSES: PaymentStatus[] = ['pending', 'processing', 'expired'];
 
-// Implementação do processador Stripe
-class StripeProcessor implements PaymentProcessor {
-  private client: Stripe;
-  
-  constructor() {
-    if (!process.env.STRIPE_SECRET_KEY) {
-      throw new Error('STRIPE_SECRET_KEY não configurada');
-    }
-    
-    this.client = new Stripe(process.env.STRIPE_SECRET_KEY, {
-      apiVersion: '2023-10-16',
-    });
-  }
-  
-  async createPayment(
-    amount: number,
-    currency: string,
-    options: {
-      description?: string;
-      customerId?: string;
-      paymentMethod?: string;
-      confirm?: boolean;
-      metadata?: any;
-    } = {}
-  ): Promise<{
-    id: string;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    try {
-      const params: Stripe.PaymentIntentCreateParams = {
-        amount: Math.round(amount * 100), // Stripe usa centavos
-        currency: currency.toLowerCase(),
-        description: options.description,
-        metadata: options.metadata || {},
-      };
-      
-      if (options.customerId) {
-        params.customer = options.customerId;
-      }
-      
-      if (options.paymentMethod) {
-        params.payment_method = options.paymentMethod;
-      }
-      
-      if (options.confirm) {
-        params.confirm = true;
-      }
-      
-      const paymentIntent = await this.client.paymentIntents.create(params);
-      
-      let status: PaymentStatus = 'pending';
-      
-      switch (paymentIntent.status) {
-        case 'succeeded':
-          status = 'paid';
-          break;
-        case 'processing':
-          status = 'processing';
-          break;
-        case 'canceled':
-          status = 'canceled';
-          break;
-        case 'requires_payment_method':
-        case 'requires_confirmation':
-        case 'requires_action':
-        case 'requires_capture':
-          status = 'pending';
-          break;
-        default:
-          status = 'pending';
-      }
-      
-      return {
-        id: paymentIntent.id,
-        status,
-        gatewayResponse: paymentIntent,
-      };
-    } catch (error) {
-      console.error('Erro ao criar pagamento no Stripe:', error);
-      throw new Error(`Erro ao processar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    try {
-      const paymentIntent = await this.client.paymentIntents.retrieve(paymentId);
-      
-      let status: PaymentStatus = 'pending';
-      
-      switch (paymentIntent.status) {
-        case 'succeeded':
-          status = 'paid';
-          break;
-        case 'processing':
-          status = 'processing';
-          break;
-        case 'canceled':
-          status = 'canceled';
-          break;
-        case 'requires_payment_method':
-        case 'requires_confirmation':
-        case 'requires_action':
-        case 'requires_capture':
-          status = 'pending';
-          break;
-        default:
-          status = 'pending';
-      }
-      
-      return {
-        status,
-        gatewayResponse: paymentIntent,
-      };
-    } catch (error) {
-      console.error('Erro ao consultar status no Stripe:', error);
-      throw new Error(`Erro ao consultar status: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse: any;
-  }> {
-    try {
-      const params: Stripe.RefundCreateParams = {
-        payment_intent: paymentId,
-      };
-      
-      if (amount) {
-        params.amount = Math.round(amount * 100);
-      }
-      
-      const refund = await this.client.refunds.create(params);
-      
-      return {
-        success: refund.status === 'succeeded',
-        status: refund.status === 'succeeded' ? 'refunded' : 'processing',
-        gatewayResponse: refund,
-      };
-    } catch (error) {
-      console.error('Erro ao estornar pagamento no Stripe:', error);
-      throw new Error(`Erro ao estornar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  // Stripe não suporta boletos diretamente - precisaria usar outro gateway no Brasil
-  // Essa implementação é simplificada apenas para fins de demonstração/mock
-  async generateBankSlip(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    url?: string;
-    code?: string;
-    pdf?: Buffer;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Gerar um PDF básico com os dados do boleto
-      const pdfDoc = new pdf();
-      let chunks: Buffer[] = [];
-      
-      pdfDoc.on('data', (chunk) => {
-        chunks.push(chunk);
-      });
-      
-      const pdfPromise = new Promise<Buffer>((resolve) => {
-        pdfDoc.on('end', () => {
-          resolve(Buffer.concat(chunks));
-        });
-      });
-      
-      pdfDoc.font('Helvetica-Bold').fontSize(18)
-        .text('Boleto para Pagamento', { align: 'center' });
-      
-      pdfDoc.moveDown();
-      pdfDoc.font('Helvetica').fontSize(12);
-      
-      pdfDoc.text(`Descrição: ${options.description}`);
-      pdfDoc.text(`Valor: R$ ${options.amount.toFixed(2)}`);
-      pdfDoc.text(`Cliente: ${options.customerName}`);
-      pdfDoc.text(`CPF/CNPJ: ${options.customerDocument}`);
-      
-      if (options.customerAddress) {
-        pdfDoc.text(`Endereço: ${options.customerAddress}`);
-      }
-      
-      pdfDoc.text(`Vencimento: ${options.dueDate.toLocaleDateString('pt-BR')}`);
-      
-      if (options.installments && options.installments > 1) {
-        pdfDoc.text(`Parcela: 1 de ${options.installments}`);
-        pdfDoc.text(`Valor da parcela: R$ ${(options.amount / options.installments).toFixed(2)}`);
-      }
-      
-      const barcodeValue = `23793.12345 67890.101112 13141.516171 8 ${
-        options.dueDate.toISOString().slice(0, 10).replace(/-/g, '')
-      }${Math.floor(options.amount * 100).toString().padStart(10, '0')}`;
-      
-      pdfDoc.moveDown(2);
-      pdfDoc.font('Helvetica-Bold').fontSize(10);
-      pdfDoc.text('Código de Barras', { align: 'center' });
-      pdfDoc.font('Courier').fontSize(12);
-      pdfDoc.text(barcodeValue, { align: 'center' });
-      
-      pdfDoc.end();
-      
-      const pdfBuffer = await pdfPromise;
-      
-      // Armazenar o PDF
-      const uploadsDir = path.join(process.cwd(), 'uploads', 'boletos');
-      if (!fs.existsSync(uploadsDir)) {
-        fs.mkdirSync(uploadsDir, { recursive: true });
-      }
-      
-      const fileName = `boleto_${options.schoolId}_${Date.now()}.pdf`;
-      const filePath = path.join(uploadsDir, fileName);
-      
-      fs.writeFileSync(filePath, pdfBuffer);
-      
-      const expiresAt = new Date(options.dueDate);
-      expiresAt.setDate(expiresAt.getDate() + 1); // Expira no dia seguinte ao vencimento
-      
-      return {
-        success: true,
-        url: `/uploads/boletos/${fileName}`,
-        code: barcodeValue,
-        pdf: pdfBuffer,
-        expiresAt,
-      };
-    } catch (error) {
-      console.error('Erro ao gerar boleto simulado:', error);
-      return {
-        success: false,
-      };
-    }
-  }
-  
-  // Stripe suporta PIX apenas no Brasil, então esta é uma implementação simulada
-  async generatePixPayment(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    qrCode?: string;
-    qrCodeImage?: string;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Para um sistema real, aqui seriam feitas chamadas à API do Stripe ou outro gateway
-      // Simulação apenas para fins de demonstração
-      
-      const pixCopiaECola = `00020101021226870014br.gov.bcb.pix2565
-        qrcodepix-h.example.com/v2/${uuidv4().replace(/-/g, '')}5204000053039865
-        802BR5923${options.customerName.substring(0, 20).padEnd(20, ' ')}6014
-        ${options.customerAddress ? options.customerAddress.substring(0, 10) : 'Sao Paulo'}
-        6304${(Math.random() * 10000).toFixed(0).padStart(4, '0')}`;
-      
-      // Seria gerada uma imagem real do QR code
-      const qrCodeImageUrl = `/uploads/pix/qrcode_${Date.now()}.png`;
-      
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24); // Expira em 24 horas
-      
-      return {
-        success: true,
-        qrCode: pixCopiaECola.replace(/\s+/g, ''),
-        qrCodeImage: qrCodeImageUrl,
-        expiresAt,
-      };
-    } catch (error) {
-      console.error('Erro ao gerar pagamento PIX simulado:', error);
-      return {
-        success: false,
-      };
-    }
-  }
-}
+// Colunas retornadas pelas baixas de pagamento: viram o payload de payment.paid
+const PAID_EVENT_RETURNING = `
+  RETURNING id, school_id, status, id AS payment_id, amount, student_id, enrollment_id, gateway, payment_method,
+    COALESCE(metadata->>'settledAt', to_char(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')) AS paid_at
+`;
 
-// Implementação de um gateway genérico nacional (simulado para demonstração)
-class BrazilianGatewayProcessor implements PaymentProcessor {
-  private apiKey: string;
-  private apiEndpoint: string;
-  private gatewayName: string;
-  
-  constructor(gatewayName: 'asaas' | 'gerencianet', options: { apiKey?: string; apiEndpoint?: string } = {}) {
-    this.gatewayName = gatewayName;
-    this.apiKey = options.apiKey || process.env[`${gatewayName.toUpperCase()}_API_KEY`] || '';
-    this.apiEndpoint = options.apiEndpoint || process.env[`${gatewayName.toUpperCase()}_ENDPOINT`] || 
-                      (gatewayName === 'asaas' ? 'https://sandbox.asaas.com/api/v3' : 
-                       'https://api-pix.gerencianet.com.br/v2');
-    
-    if (!this.apiKey) {
-      console.warn(`API Key para ${gatewayName} não configurada - usando modo simulado`);
-    }
-  }
-  
-  async createPayment(
-    amount: number,
-    currency: string,
-    options: any = {}
-  ): Promise<{
-    id: string;
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Em produção, faríamos uma chamada real à API do gateway
-      // Aqui simulamos o comportamento
-      
-      console.log(`[${this.gatewayName}] Simulando criação de pagamento de ${amount} ${currency}`);
-      
-      // Simulação de criação de pagamento
-      const mockResponse = {
-        id: `${this.gatewayName}_${Date.now()}_${Math.floor(Math.random() * 10000)}`,
-        status: 'pending',
-        amount,
-        currency,
-        ...options,
-        createdAt: new Date().toISOString(),
-      };
-      
-      return {
-        id: mockResponse.id,
-        status: 'pending',
-        gatewayResponse: mockResponse,
-      };
-    } catch (error) {
-      console.error(`Erro ao criar pagamento no ${this.gatewayName}:`, error);
-      throw new Error(`Erro ao processar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Simulação de consulta de status
-      console.log(`[${this.gatewayName}] Consultando status do pagamento ${paymentId}`);
-      
-      // Simulação de status baseado no ID para testes
-      let status: PaymentStatus = 'pending';
-      
-      // Para fins de teste, usamos o último dígito do ID para determinar o status
-      const lastDigit = parseInt(paymentId.slice(-1));
-      
-      if (lastDigit < 3) {
-        status = 'paid';
-      } else if (lastDigit < 5) {
-        status = 'processing';
-      } else if (lastDigit < 7) {
-        status = 'pending';
-      } else if (lastDigit < 9) {
-        status = 'failed';
-      } else {
-        status = 'expired';
-      }
-      
-      return {
-        status,
-        gatewayResponse: {
-          id: paymentId,
-          status,
-          lastChecked: new Date().toISOString(),
-        },
-      };
-    } catch (error) {
-      console.error(`Erro ao consultar status no ${this.gatewayName}:`, error);
-      throw new Error(`Erro ao consultar status: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Simulação de estorno
-      console.log(`[${this.gatewayName}] Solicitando estorno do pagamento ${paymentId}${amount ? ' no valor de ' + amount : ' (valor total)'}`);
-      
-      return {
-        success: true,
-        status: 'refunded',
-        gatewayResponse: {
-          id: `refund_${paymentId}`,
-          originalPayment: paymentId,
-          amount,
-          status: 'refunded',
-          createdAt: new Date().toISOString(),
-        },
-      };
-    } catch (error) {
-      console.error(`Erro ao estornar pagamento no ${this.gatewayName}:`, error);
-      throw new Error(`Erro ao estornar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async generateBankSlip(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    url?: string;
-    code?: string;
-    pdf?: Buffer;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }> {
-    try {
-      console.log(`[${this.gatewayName}] Gerando boleto para ${options.customerName} no valor de ${options.amount}`);
-      
-      // Gerar um código de barras fictício
-      const barcode = `23793${Math.floor(Math.random() * 100000).toString().padStart(5, '0')} 
-        ${Math.floor(Math.random() * 100000).toString().padStart(5, '0')} 
-        ${Math.floor(Math.random() * 100000).toString().padStart(5, '0')} 
-        ${Math.floor(Math.random() * 10)} 
-        ${options.dueDate.toISOString().slice(0, 10).replace(/-/g, '')}${Math.floor(options.amount * 100).toString().padStart(10, '0')}`;
-      
-      // Gerar um PDF básico similar ao do StripeProcessor
-      const pdfDoc = new pdf();
-      let chunks: Buffer[] = [];
-      
-      pdfDoc.on('data', (chunk) => {
-        chunks.push(chunk);
-      });
-      
-      const pdfPromise = new Promise<Buffer>((resolve) => {
-        pdfDoc.on('end', () => {
-          resolve(Buffer.concat(chunks));
-        });
-      });
-      
-      pdfDoc.font('Helvetica-Bold').fontSize(18)
-        .text(`Boleto ${this.gatewayName.toUpperCase()}`, { align: 'center' });
-      
-      pdfDoc.moveDown();
-      pdfDoc.font('Helvetica').fontSize(12);
-      
-      pdfDoc.text(`Descrição: ${options.description}`);
-      pdfDoc.text(`Valor: R$ ${options.amount.toFixed(2)}`);
-      pdfDoc.text(`Cliente: ${options.customerName}`);
-      pdfDoc.text(`CPF/CNPJ: ${options.customerDocument}`);
-      
-      if (options.customerAddress) {
-        pdfDoc.text(`Endereço: ${options.customerAddress}`);
-      }
-      
-      pdfDoc.text(`Vencimento: ${options.dueDate.toLocaleDateString('pt-BR')}`);
-      
-      if (options.installments && options.installments > 1) {
-        pdfDoc.text(`Parcela: 1 de ${options.installments}`);
-        pdfDoc.text(`Valor da parcela: R$ ${(options.amount / options.installments).toFixed(2)}`);
-      }
-      
-      pdfDoc.moveDown(2);
-      pdfDoc.font('Helvetica-Bold').fontSize(10);
-      pdfDoc.text('Código de Barras', { align: 'center' });
-      pdfDoc.font('Courier').fontSize(12);
-      pdfDoc.text(barcode.replace(/\s+/g, ''), { align: 'center' });
-      
-      pdfDoc.end();
-      
-      const pdfBuffer = await pdfPromise;
-      
-      // Armazenar o PDF
-      const uploadsDir = path.join(process.cwd(), 'uploads', 'boletos');
-      if (!fs.existsSync(uploadsDir)) {
-        fs.mkdirSync(uploadsDir, { recursive: true });
-      }
-      
-      const fileName = `boleto_${this.gatewayName}_${options.schoolId}_${Date.now()}.pdf`;
-      const filePath = path.join(uploadsDir, fileName);
-      
-      fs.writeFileSync(filePath, pdfBuffer);
-      
-      const expiresAt = new Date(options.dueDate);
-      expiresAt.setDate(expiresAt.getDate() + 1); // Expira no dia seguinte ao vencimento
-      
-      return {
-        success: true,
-        url: `/uploads/boletos/${fileName}`,
-        code: barcode.replace(/\s+/g, ''),
-        pdf: pdfBuffer,
-        expiresAt,
-        gatewayResponse: {
-          id: `boleto_${Date.now()}`,
-          barcode: barcode.replace(/\s+/g, ''),
-          url: `/uploads/boletos/${fileName}`,
-          dueDate: options.dueDate.toISOString(),
-          amount: options.amount,
-          status: 'pending',
-        },
-      };
-    } catch (error) {
-      console.error(`Erro ao gerar boleto no ${this.gatewayName}:`, error);
-      return {
-        success: false,
-      };
-    }
-  }
-  
-  async generatePixPayment(
-    options: BillingOptions
-  ): Promise<{
-    success: boolean;
-    qrCode?: string;
-    qrCodeImage?: string;
-    expiresAt?: Date;
-    gatewayResponse?: any;
-  }> {
-    try {
-      console.log(`[${this.gatewayName}] Gerando PIX para ${options.customerName} no valor de ${options.amount}`);
-      
-      // Gerar um código PIX fictício
-      const pixKey = uuidv4().replace(/-/g, '');
-      
-      const pixCopiaECola = `00020101021226870014br.gov.bcb.pix2565
-        ${this.gatewayName}.example.com/pix/${pixKey}5204000053039865
-        802BR5923${options.customerName.substring(0, 20).padEnd(20, ' ')}6014
-        ${options.customerAddress ? options.customerAddress.substring(0, 10) : 'BRASIL'}
-        6304${(Math.random() * 10000).toFixed(0).padStart(4, '0')}`;
-      
-      // Em produção, gerar uma imagem real do QR code
-      const imageUrl = `/uploads/pix/qrcode_${this.gatewayName}_${Date.now()}.png`;
-      
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24); // Expira em 24 horas
-      
-      return {
-        success: true,
-        qrCode: pixCopiaECola.replace(/\s+/g, ''),
-        qrCodeImage: imageUrl,
-        expiresAt,
-        gatewayResponse: {
-          id: `pix_${Date.now()}`,
-          pixKey,
-          qrCode: pixCopiaECola.replace(/\s+/g, ''),
-          amount: options.amount,
-          status: 'pending',
-          expiresAt: expiresAt.toISOString(),
-        },
-      };
-    } catch (error) {
-      console.error(`Erro ao gerar PIX no ${this.gatewayName}:`, error);
-      return {
-        success: false,
-      };
-    }
-  }
-}
+// payment.paid é gravado na mesma instrução que baixa o pagamento
+const PAID_EVENT: OutboxEventSpec = { type: 'payment.paid', aggregateType: 'payment', when: "changed.status = 'paid'" };
 
-// Implementação de processador interno (para lançamentos manuais)
-class InternalProcessor implements PaymentProcessor {
+// Processador interno: lançamentos manuais e planos de parcelamento
+class InternalProcessor {
   constructor() {}
   
   async createPayment(
@@ -710,7 +126,7 @@ class InternalProcessor implements PaymentProcessor {
       const paymentId = `manual_${Date.now()}_${Math.floor(Math.random() * 10000)}`;
       
       // Registrar no banco
-      const result = await db.execute(`
+      const [row] = await db.execute(`
         INSERT INTO payments (
           external_id, 
           amount, 
@@ -743,7 +159,11 @@ class InternalProcessor implements PaymentProcessor {
         JSON.stringify(options.metadata || {}),
       ]);
       
-      const dbId = result.rows[0].id;
+      if (!row) {
+        throw new Error('Pagamento manual não registrado');
+      }
+      
+      const dbId = row.id;
       
       // Registrar ação no log
       await logAction(
@@ -797,121 +217,6 @@ class InternalProcessor implements PaymentProcessor {
     }
   }
   
-  async getPaymentStatus(
-    paymentId: string
-  ): Promise<{
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }> {
-    try {
-      const result = await db.execute(`
-        SELECT status, created_at, updated_at, metadata
-        FROM payments
-        WHERE id = $1 OR external_id = $1
-      `, [paymentId]);
-      
-      if (!result.rows.length) {
-        throw new Error(`Pagamento ${paymentId} não encontrado`);
-      }
-      
-      return {
-        status: result.rows[0].status as PaymentStatus,
-        gatewayResponse: {
-          id: paymentId,
-          status: result.rows[0].status,
-          createdAt: result.rows[0].created_at,
-          updatedAt: result.rows[0].updated_at,
-          metadata: result.rows[0].metadata,
-        },
-      };
-    } catch (error) {
-      console.error('Erro ao consultar status do pagamento:', error);
-      throw new Error(`Erro ao consultar status: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
-  async refundPayment(
-    paymentId: string,
-    amount?: number
-  ): Promise<{
-    success: boolean;
-    status: PaymentStatus;
-    gatewayResponse?: any;
-  }> {
-    try {
-      // Obter dados do pagamento
-      const paymentResult = await db.execute(`
-        SELECT id, amount, status, user_id, student_id, enrollment_id, school_id
-        FROM payments
-        WHERE id = $1 OR external_id = $1
-      `, [paymentId]);
-      
-      if (!paymentResult.rows.length) {
-        throw new Error(`Pagamento ${paymentId} não encontrado`);
-      }
-      
-      const payment = paymentResult.rows[0];
-      
-      // Verificar se o pagamento já foi estornado
-      if (payment.status === 'refunded') {
-        throw new Error('Pagamento já foi estornado');
-      }
-      
-      // Registrar estorno
-      const refundAmount = amount || payment.amount;
-      const refundId = `refund_${payment.id}_${Date.now()}`;
-      
-      await db.execute(`
-        UPDATE payments
-        SET 
-          status = $1,
-          updated_at = NOW(),
-          metadata = jsonb_set(
-            COALESCE(metadata, '{}')::jsonb, 
-            '{refund}', 
-            $2::jsonb
-          )
-        WHERE id = $3
-      `, [
-        'refunded',
-        JSON.stringify({
-          refundId,
-          amount: refundAmount,
-          date: new Date().toISOString(),
-        }),
-        payment.id,
-      ]);
-      
-      // Registrar ação no log
-      await logAction(
-        payment.user_id,
-        'payment_refunded',
-        'payment',
-        payment.id.toString(),
-        {
-          refundId,
-          amount: refundAmount,
-          originalAmount: payment.amount,
-        }
-      );
-      
-      return {
-        success: true,
-        status: 'refunded',
-        gatewayResponse: {
-          refundId,
-          originalPaymentId: payment.id,
-          amount: refundAmount,
-          status: 'refunded',
-          createdAt: new Date().toISOString(),
-        },
-      };
-    } catch (error) {
-      console.error('Erro ao estornar pagamento:', error);
-      throw new Error(`Erro ao estornar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
-    }
-  }
-  
   // Processa pagamento parcelado criando múltiplos registros
   async createInstallmentPlan(
     totalAmount: number,
@@ -1012,7 +317,7 @@ class InternalProcessor implements PaymentProcessor {
           }),
         ]);
         
-        const dbId = result.rows[0].id;
+        const dbId = result[0].id;
         
         installmentList.push({
           id: dbId.toString(),
@@ -1049,76 +354,12 @@ class InternalProcessor implements PaymentProcessor {
   }
 }
 
-// Classe principal que orquestra os processadores
+
+// Classe principal que orquestra os gateways
 class PaymentProcessorService {
-  private processors: Map<PaymentGateway, PaymentProcessor> = new Map();
-  private defaultGateway: PaymentGateway = 'stripe';
+  private internalProcessor = new InternalProcessor();
   private inactiveMode: boolean = false;
-  
-  constructor() {
-    this.setupProcessors();
-  }
-  
-  /**
-   * Configura os processadores de pagamento
-   */
-  private setupProcessors(): void {
-    try {
-      // Configurar Stripe
-      try {
-        if (process.env.STRIPE_SECRET_KEY) {
-          this.processors.set('stripe', new StripeProcessor());
-          console.log('Processador Stripe configurado com sucesso');
-        } else {
-          console.warn('STRIPE_SECRET_KEY não encontrada, processador Stripe não será inicializado');
-        }
-      } catch (error) {
-        console.error('Erro ao configurar processador Stripe:', error);
-      }
-      
-      // Configurar Asaas (gateway brasileiro)
-      try {
-        this.processors.set('asaas', new BrazilianGatewayProcessor('asaas'));
-        console.log('Processador Asaas configurado com sucesso');
-      } catch (error) {
-        console.error('Erro ao configurar processador Asaas:', error);
-      }
-      
-      // Configurar Gerencianet (gateway brasileiro)
-      try {
-        this.processors.set('gerencianet', new BrazilianGatewayProcessor('gerencianet'));
-        console.log('Processador Gerencianet configurado com sucesso');
-      } catch (error) {
-        console.error('Erro ao configurar processador Gerencianet:', error);
-      }
-      
-      // Configurar processador interno
-      try {
-        this.processors.set('internal', new InternalProcessor());
-        console.log('Processador interno configurado com sucesso');
-      } catch (error) {
-        console.error('Erro ao configurar processador interno:', error);
-      }
-      
-      // Configurar processador manual (igual ao interno)
-      try {
-        this.processors.set('manual', new InternalProcessor());
-        console.log('Processador manual configurado com sucesso');
-      } catch (error) {
-        console.error('Erro ao configurar processador manual:', error);
-      }
-      
-      // Se nenhum processador foi configurado com sucesso, ativar modo inativo
-      if (this.processors.size === 0) {
-        console.warn('Nenhum processador de pagamento foi configurado com sucesso. Ativando modo inativo.');
-        this.inactiveMode = true;
-      }
-    } catch (error) {
-      console.error('Erro ao configurar processadores de pagamento:', error);
-      this.inactiveMode = true;
-    }
-  }
-  
+
   /**
    * Define o modo inativo
    * @param inactive true para ativar modo inativo
@@ -1126,46 +367,27 @@ class PaymentProcessorService {
   setInactiveMode(inactive: boolean): void {
     this.inactiveMode = inactive;
   }
-  
+
   /**
    * Verifica se está em modo inativo
    */
   isInactiveMode(): boolean {
     return this.inactiveMode;
   }
-  
-  /**
-   * Define o gateway padrão
-   * @param gateway Gateway para ser usado como padrão
-   */
-  setDefaultGateway(gateway: PaymentGateway): void {
-    if (this.processors.has(gateway)) {
-      this.defaultGateway = gateway;
-    } else {
-      throw new Error(`Gateway ${gateway} não está configurado`);
-    }
-  }
-  
-  /**
-   * Obtém o gateway padrão
-   */
-  getDefaultGateway(): PaymentGateway {
-    return this.defaultGateway;
-  }
-  
+
   /**
-   * Lista todos os gateways configurados
+   * Lista os gateways com adaptador implementado
    */
   getAvailableGateways(): PaymentGateway[] {
-    return Array.from(this.processors.keys());
+    return paymentGatewayRegistry.getSupportedGateways();
   }
-  
+
   /**
-   * Cria um novo pagamento
+   * Cria um novo pagamento no gateway da escola
    * @param amount Valor do pagamento
    * @param currency Moeda
    * @param options Opções de pagamento
-   * @returns Informações do pagamento criado
+   * @returns Informações do pagamento criado (id externo e id interno)
    */
   async createPayment(
     amount: number,
@@ -1178,21 +400,27 @@ class PaymentProcessorService {
       enrollmentId?: number;
       schoolId: number;
       paymentMethod?: PaymentMethod;
+      customer?: GatewayCustomer;
+      dueDate?: Date;
+      installments?: number;
+      cardToken?: string;
       metadata?: any;
-      [key: string]: any;
     }
   ): Promise<{
     id: string;
+    paymentId?: string;
     status: PaymentStatus;
+    gateway?: PaymentGateway;
+    charge?: GatewayCharge;
     gatewayResponse?: any;
   }> {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando pagamento de ${amount} ${currency}`);
-      
+
       // Gerar ID simulado e registrar evento de log
       const paymentId = `inactive_${Date.now()}`;
-      
+
       if (options.userId) {
         await logAction(
           options.userId,
@@ -1207,7 +435,7 @@ class PaymentProcessorService {
           }
         );
       }
-      
+
       return {
         id: paymentId,
         status: 'pending',
@@ -1221,92 +449,89 @@ class PaymentProcessorService {
         },
       };
     }
-    
-    // Selecionar gateway
-    const gateway = options.gateway || this.defaultGateway;
-    const processor = this.processors.get(gateway);
-    
-    if (!processor) {
-      throw new Error(`Gateway ${gateway} não está configurado`);
+
+    // Lançamentos manuais são registrados como já pagos
+    if (options.gateway === 'manual') {
+      const result = await this.internalProcessor.createPayment(amount, currency, options);
+      return { ...result, paymentId: result.id, gateway: 'manual' };
     }
-    
+
+    const method = options.paymentMethod || 'credit_card';
+    const { adapter } = await paymentGatewayRegistry.resolveForSchool(options.schoolId, {
+      method,
+      gateway: options.gateway,
+    });
+
     try {
       // Adicionar dados do usuário, estudante e matrícula ao metadata
+      const gatewayReference = `pay_${uuidv4()}`;
       const metadata = {
         ...(options.metadata || {}),
         userId: options.userId,
         studentId: options.studentId,
         enrollmentId: options.enrollmentId,
         schoolId: options.schoolId,
+        gatewayReference,
       };
-      
-      // Criar pagamento
-      const result = await processor.createPayment(amount, currency, {
-        ...options,
+
+      const charge = await adapter.createCharge({
+        amount,
+        method,
+        description: options.description || 'Pagamento',
+        customer: options.customer,
+        dueDate: options.dueDate,
+        installments: options.installments,
+        cardToken: options.cardToken,
+        reference: gatewayReference,
         metadata,
       });
-      
-      // Registrar no banco
-      await db.execute(`
-        INSERT INTO payments (
-          external_id, 
-          amount, 
-          currency, 
-          status, 
-          description, 
-          payment_method, 
-          gateway,
-          user_id,
-          student_id,
-          enrollment_id,
-          school_id,
-          metadata,
-          created_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW()
-        )
-      `, [
-        result.id,
+
+      const paymentId = await this.recordCharge(charge, adapter.gateway, {
         amount,
-        currency.toLowerCase(),
-        result.status,
-        options.description || 'Pagamento',
-        options.paymentMethod || 'credit_card',
-        gateway,
-        options.userId,
-        options.studentId || null,
-        options.enrollmentId || null,
-        options.schoolId,
-        JSON.stringify(metadata),
-      ]);
-      
+        currency,
+        description: options.description || 'Pagamento',
+        userId: options.userId,
+        studentId: options.studentId,
+        enrollmentId: options.enrollmentId,
+        schoolId: options.schoolId,
+        dueDate: options.dueDate,
+        metadata,
+      });
+
       // Registrar ação no log
       if (options.userId) {
         await logAction(
           options.userId,
           'payment_created',
           'payment',
-          result.id,
+          charge.externalId,
           {
             amount,
             currency,
-            gateway,
-            status: result.status,
+            gateway: adapter.gateway,
+            status: charge.status,
           }
         );
       }
-      
-      return result;
+
+      return {
+        id: charge.externalId,
+        paymentId,
+        status: charge.status,
+        gateway: adapter.gateway,
+        charge,
+        gatewayResponse: charge.raw,
+      };
     } catch (error) {
-      console.error(`Erro ao criar pagamento via ${gateway}:`, error);
+      console.error(`Erro ao criar pagamento via ${adapter.gateway}:`, error);
       throw new Error(`Erro ao processar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
     }
   }
-  
+
   /**
-   * Consulta o status de um pagamento
-   * @param paymentId ID do pagamento
-   * @param gateway Gateway a ser usado
+   * Consulta o status de um pagamento no gateway em que foi criado
+   * @param paymentId ID externo do pagamento
+   * @param gateway Gateway a ser usado (padrão: o gravado no pagamento)
    * @returns Status atual do pagamento
    */
   async getPaymentStatus(
@@ -1319,7 +544,7 @@ class PaymentProcessorService {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando consulta de status do pagamento ${paymentId}`);
-      
+
       return {
         status: 'pending',
         gatewayResponse: {
@@ -1329,54 +554,36 @@ class PaymentProcessorService {
         },
       };
     }
-    
-    // Se o gateway não foi especificado, buscar no banco
-    if (!gateway) {
-      const result = await db.execute(`
-        SELECT gateway
-        FROM payments
-        WHERE external_id = $1
-      `, [paymentId]);
-      
-      if (result.rows.length > 0) {
-        gateway = result.rows[0].gateway as PaymentGateway;
-      } else {
-        // Se não encontrou, usar o gateway padrão
-        gateway = this.defaultGateway;
-      }
-    }
-    
-    const processor = this.processors.get(gateway);
-    
-    if (!processor) {
-      throw new Error(`Gateway ${gateway} não está configurado`);
-    }
-    
+
+    const { adapter } = await this.resolvePaymentAdapter(paymentId, gateway);
+
     try {
-      // Consultar status
-      const result = await processor.getPaymentStatus(paymentId);
-      
+      const result = await adapter.getStatus(paymentId);
+
       // Atualizar status no banco
       await db.execute(`
         UPDATE payments
-        SET 
+        SET
           status = $1,
           updated_at = NOW()
-        WHERE external_id = $2
-      `, [result.status, paymentId]);
-      
-      return result;
+        WHERE external_id = $2 AND gateway = $3
+      `, [result.status, paymentId, adapter.gateway]);
+
+      return {
+        status: result.status,
+        gatewayResponse: result.raw,
+      };
     } catch (error) {
-      console.error(`Erro ao consultar status do pagamento ${paymentId} via ${gateway}:`, error);
+      console.error(`Erro ao consultar status do pagamento ${paymentId} via ${adapter.gateway}:`, error);
       throw new Error(`Erro ao consultar status: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
     }
   }
-  
+
   /**
    * Estorna um pagamento
-   * @param paymentId ID do pagamento
-   * @param amount Valor a ser estornado (opcional)
-   * @param gateway Gateway a ser usado
+   * @param paymentId ID externo do pagamento
+   * @param amount Valor a ser estornado (opcional, padrão: total)
+   * @param gateway Gateway a ser usado (padrão: o gravado no pagamento)
    * @param userId ID do usuário que solicitou o estorno
    * @returns Informações do estorno
    */
@@ -1393,7 +600,7 @@ class PaymentProcessorService {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando estorno do pagamento ${paymentId}`);
-      
+
       // Registrar ação no log
       if (userId) {
         await logAction(
@@ -1408,7 +615,7 @@ class PaymentProcessorService {
           }
         );
       }
-      
+
       return {
         success: true,
         status: 'refunded',
@@ -1422,86 +629,129 @@ class PaymentProcessorService {
         },
       };
     }
-    
-    // Se o gateway não foi especificado, buscar no banco
-    if (!gateway) {
-      const result = await db.execute(`
-        SELECT gateway, amount
-        FROM payments
-        WHERE external_id = $1
-      `, [paymentId]);
-      
-      if (result.rows.length > 0) {
-        gateway = result.rows[0].gateway as PaymentGateway;
-        
-        // Se o valor não foi especificado, usar o valor total
-        if (amount === undefined) {
-          amount = parseFloat(result.rows[0].amount);
-        }
-      } else {
-        // Se não encontrou, usar o gateway padrão
-        gateway = this.defaultGateway;
-      }
-    }
-    
-    const processor = this.processors.get(gateway);
-    
-    if (!processor) {
-      throw new Error(`Gateway ${gateway} não está configurado`);
+
+    const { adapter, payment } = await this.resolvePaymentAdapter(paymentId, gateway);
+
+    if (payment?.status === 'refunded') {
+      throw new Error('Pagamento já foi estornado');
     }
-    
+
     try {
       // Solicitar estorno
-      const result = await processor.refundPayment(paymentId, amount);
-      
+      const result = await adapter.refund(paymentId, amount);
+      const refundAmount = amount ?? (payment ? parseFloat(payment.amount) : undefined);
+
       // Atualizar status no banco
       await db.execute(`
         UPDATE payments
-        SET 
+        SET
           status = $1,
           updated_at = NOW(),
           metadata = jsonb_set(
-            COALESCE(metadata, '{}')::jsonb, 
-            '{refund}', 
+            COALESCE(metadata, '{}')::jsonb,
+            '{refund}',
             $2::jsonb
           )
-        WHERE external_id = $3
+        WHERE external_id = $3 AND gateway = $4
       `, [
         result.status,
         JSON.stringify({
-          refundId: `refund_${paymentId}`,
-          amount,
+          refundId: result.raw?.id || `refund_${paymentId}`,
+          amount: refundAmount,
           date: new Date().toISOString(),
         }),
         paymentId,
+        adapter.gateway,
       ]);
-      
+
       // Registrar ação no log
       if (userId) {
         await logAction(
           userId,
-          'payment_refunded',
+          'payment_refunded',
+          'payment',
+          paymentId,
+          {
+            amount: refundAmount,
+            gateway: adapter.gateway,
+            status: result.status,
+          }
+        );
+      }
+
+      return {
+        success: true,
+        status: result.status,
+        gatewayResponse: result.raw,
+      };
+    } catch (error) {
+      console.error(`Erro ao estornar pagamento ${paymentId} via ${adapter.gateway}:`, error);
+      throw new Error(`Erro ao estornar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
+    }
+  }
+
+  /**
+   * Cancela uma cobrança ainda não paga
+   * @param paymentId ID externo do pagamento
+   * @param userId ID do usuário que solicitou o cancelamento
+   * @returns Status após o cancelamento
+   */
+  async cancelPayment(
+    paymentId: string,
+    userId?: number
+  ): Promise<{
+    success: boolean;
+    status: PaymentStatus;
+    gatewayResponse?: any;
+  }> {
+    if (this.inactiveMode) {
+      console.log(`[PaymentService] Modo inativo - Simulando cancelamento do pagamento ${paymentId}`);
+      return { success: true, status: 'canceled' };
+    }
+
+    const { adapter, payment } = await this.resolvePaymentAdapter(paymentId);
+
+    if (payment?.status === 'paid') {
+      throw new Error('Pagamento já confirmado não pode ser cancelado; use o estorno');
+    }
+
+    try {
+      const result = await adapter.cancel(paymentId);
+
+      await db.execute(`
+        UPDATE payments
+        SET status = $1, updated_at = NOW()
+        WHERE external_id = $2 AND gateway = $3
+      `, [result.status, paymentId, adapter.gateway]);
+
+      if (userId) {
+        await logAction(
+          userId,
+          'payment_canceled',
           'payment',
           paymentId,
           {
-            amount,
-            gateway,
+            gateway: adapter.gateway,
             status: result.status,
           }
         );
       }
-      
-      return result;
+
+      return {
+        success: result.status === 'canceled',
+        status: result.status,
+        gatewayResponse: result.raw,
+      };
     } catch (error) {
-      console.error(`Erro ao estornar pagamento ${paymentId} via ${gateway}:`, error);
-      throw new Error(`Erro ao estornar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
+      console.error(`Erro ao cancelar pagamento ${paymentId} via ${adapter.gateway}:`, error);
+      throw new Error(`Erro ao cancelar pagamento: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
     }
   }
-  
+
   /**
    * Gera um boleto para pagamento
    * @param options Opções do boleto
-   * @param gateway Gateway a ser usado
+   * @param gateway Gateway a ser usado (padrão: o da escola que suporta boleto)
    * @returns Informações do boleto gerado
    */
   async generateBankSlip(
@@ -1510,6 +760,7 @@ class PaymentProcessorService {
   ): Promise<{
     success: boolean;
     paymentId?: string;
+    gateway?: PaymentGateway;
     url?: string;
     code?: string;
     pdf?: Buffer;
@@ -1519,7 +770,7 @@ class PaymentProcessorService {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando geração de boleto para ${options.customerName}`);
-      
+
       return {
         success: true,
         paymentId: `inactive_boleto_${Date.now()}`,
@@ -1528,105 +779,30 @@ class PaymentProcessorService {
         expiresAt: new Date(options.dueDate),
       };
     }
-    
-    // Selecionar gateway
-    gateway = gateway || this.defaultGateway;
-    
-    // Para boletos, preferimos gateways brasileiros
-    if (gateway === 'stripe' && this.processors.has('asaas')) {
-      gateway = 'asaas';
-    } else if (gateway === 'stripe' && this.processors.has('gerencianet')) {
-      gateway = 'gerencianet';
-    }
-    
-    const processor = this.processors.get(gateway);
-    
-    if (!processor) {
-      throw new Error(`Gateway ${gateway} não está configurado`);
-    }
-    
-    if (!processor.generateBankSlip) {
-      throw new Error(`Gateway ${gateway} não suporta geração de boletos`);
-    }
-    
+
     try {
-      // Gerar boleto
-      const result = await processor.generateBankSlip(options);
-      
-      if (!result.success) {
-        throw new Error('Falha ao gerar boleto');
-      }
-      
-      // Registrar no banco
-      const paymentResult = await db.execute(`
-        INSERT INTO payments (
-          external_id, 
-          amount, 
-          currency, 
-          status, 
-          description, 
-          payment_method, 
-          gateway,
-          user_id,
-          student_id,
-          enrollment_id,
-          school_id,
-          due_date,
-          metadata,
-          created_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW()
-        ) RETURNING id
-      `, [
-        `bankslip_${Date.now()}_${Math.floor(Math.random() * 10000)}`,
-        options.amount,
-        'BRL',
-        'pending',
-        options.description,
-        'bank_slip',
-        gateway,
-        null, // usuário será associado depois
-        options.studentId || null,
-        options.enrollmentId || null,
-        options.schoolId,
-        options.dueDate.toISOString(),
-        JSON.stringify({
-          boletoUrl: result.url,
-          boletoCode: result.code,
-          expiresAt: result.expiresAt?.toISOString(),
-          customerName: options.customerName,
-          customerDocument: options.customerDocument,
-          customerEmail: options.customerEmail,
-          customerPhone: options.customerPhone,
-          customerAddress: options.customerAddress,
-          installments: options.installments,
-          discountAmount: options.discountAmount,
-          discountDays: options.discountDays,
-          reference: options.reference,
-        }),
-      ]);
-      
-      const paymentId = paymentResult.rows[0].id;
-      
+      const { charge, paymentId, gateway: usedGateway } = await this.createBillingCharge('bank_slip', options, gateway);
+
       return {
         success: true,
-        paymentId: paymentId.toString(),
-        url: result.url,
-        code: result.code,
-        pdf: result.pdf,
-        expiresAt: result.expiresAt,
-        gatewayResponse: result.gatewayResponse,
+        paymentId,
+        gateway: usedGateway,
+        url: charge.paymentUrl,
+        code: charge.barcode,
+        pdf: charge.pdf,
+        expiresAt: charge.expiresAt,
+        gatewayResponse: charge.raw,
       };
     } catch (error) {
-      console.error(`Erro ao gerar boleto via ${gateway}:`, error);
+      console.error('Erro ao gerar boleto:', error);
       throw new Error(`Erro ao gerar boleto: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
     }
   }
-  
+
   /**
    * Gera um pagamento PIX
    * @param options Opções do PIX
-   * @param gateway Gateway a ser usado
+   * @param gateway Gateway a ser usado (padrão: o da escola que suporta PIX)
    * @returns Informações do PIX gerado
    */
   async generatePixPayment(
@@ -1635,6 +811,7 @@ class PaymentProcessorService {
   ): Promise<{
     success: boolean;
     paymentId?: string;
+    gateway?: PaymentGateway;
     qrCode?: string;
     qrCodeImage?: string;
     expiresAt?: Date;
@@ -1643,7 +820,7 @@ class PaymentProcessorService {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando geração de PIX para ${options.customerName}`);
-      
+
       return {
         success: true,
         paymentId: `inactive_pix_${Date.now()}`,
@@ -1652,97 +829,85 @@ class PaymentProcessorService {
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 horas
       };
     }
-    
-    // Selecionar gateway
-    gateway = gateway || this.defaultGateway;
-    
-    // Para PIX, preferimos gateways brasileiros
-    if (gateway === 'stripe' && this.processors.has('asaas')) {
-      gateway = 'asaas';
-    } else if (gateway === 'stripe' && this.processors.has('gerencianet')) {
-      gateway = 'gerencianet';
-    }
-    
-    const processor = this.processors.get(gateway);
-    
-    if (!processor) {
-      throw new Error(`Gateway ${gateway} não está configurado`);
-    }
-    
-    if (!processor.generatePixPayment) {
-      throw new Error(`Gateway ${gateway} não suporta geração de PIX`);
-    }
-    
+
     try {
-      // Gerar PIX
-      const result = await processor.generatePixPayment(options);
-      
-      if (!result.success) {
-        throw new Error('Falha ao gerar PIX');
-      }
-      
-      // Registrar no banco
-      const paymentResult = await db.execute(`
-        INSERT INTO payments (
-          external_id, 
-          amount, 
-          currency, 
-          status, 
-          description, 
-          payment_method, 
-          gateway,
-          user_id,
-          student_id,
-          enrollment_id,
-          school_id,
-          due_date,
-          metadata,
-          created_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW()
-        ) RETURNING id
-      `, [
-        `pix_${Date.now()}_${Math.floor(Math.random() * 10000)}`,
-        options.amount,
-        'BRL',
-        'pending',
-        options.description,
-        'pix',
-        gateway,
-        null, // usuário será associado depois
-        options.studentId || null,
-        options.enrollmentId || null,
-        options.schoolId,
-        options.dueDate.toISOString(),
-        JSON.stringify({
-          pixQrCode: result.qrCode,
-          pixQrCodeImage: result.qrCodeImage,
-          expiresAt: result.expiresAt?.toISOString(),
-          customerName: options.customerName,
-          customerDocument: options.customerDocument,
-          customerEmail: options.customerEmail,
-          customerPhone: options.customerPhone,
-          customerAddress: options.customerAddress,
-          reference: options.reference,
-        }),
-      ]);
-      
-      const paymentId = paymentResult.rows[0].id;
-      
+      const { charge, paymentId, gateway: usedGateway } = await this.createBillingCharge('pix', options, gateway);
+
       return {
         success: true,
-        paymentId: paymentId.toString(),
-        qrCode: result.qrCode,
-        qrCodeImage: result.qrCodeImage,
-        expiresAt: result.expiresAt,
-        gatewayResponse: result.gatewayResponse,
+        paymentId,
+        gateway: usedGateway,
+        qrCode: charge.pixQrCode,
+        qrCodeImage: charge.pixQrCodeImage,
+        expiresAt: charge.expiresAt,
+        gatewayResponse: charge.raw,
       };
     } catch (error) {
-      console.error(`Erro ao gerar PIX via ${gateway}:`, error);
+      console.error('Erro ao gerar PIX:', error);
       throw new Error(`Erro ao gerar PIX: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
     }
   }
-  
+
+  /**
+   * Aplica ao banco os eventos de um webhook já verificado e persistido
+   * (ver paymentWebhookService)
+   * @param gateway Gateway que enviou o webhook
+   * @param events Eventos convertidos pelo adaptador
+   * @returns Quantidade de pagamentos atualizados
+   */
+  async applyWebhookEvents(gateway: PaymentGateway, events: GatewayWebhookEvent[]): Promise<number> {
+    let updated = 0;
+
+    for (const event of events) {
+      if (await this.applyWebhookEvent(gateway, event)) {
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Baixa um pagamento liquidado fora do gateway (retorno bancário, extrato)
+   * com a data real do crédito e as tarifas cobradas pelo banco
+   * @param paymentId ID do pagamento
+   * @param settlement Dados da liquidação
+   * @returns true se o pagamento passou a pago; false se já estava pago
+   */
+  async settlePayment(paymentId: number, settlement: {
+    settledAt: string;
+    paidAmount: number;
+    feeAmount?: number;
+    source: string;
+    reference?: Record<string, any>;
+  }): Promise<boolean> {
+    const [changed] = await domainEventService.writeWithEvents(`
+      UPDATE payments
+      SET
+        status = 'paid',
+        updated_at = NOW(),
+        metadata = COALESCE(metadata, '{}')::jsonb || $2::jsonb
+      WHERE id = $1 AND status <> 'paid'
+      ${PAID_EVENT_RETURNING}
+    `, [
+      paymentId,
+      JSON.stringify({
+        settledAt: settlement.settledAt,
+        paidAmount: settlement.paidAmount,
+        bankFee: settlement.feeAmount ?? 0,
+        settlementSource: settlement.source,
+        ...(settlement.reference || {}),
+      }),
+    ], [PAID_EVENT]);
+
+    if (!changed) {
+      return false;
+    }
+
+    await this.onPaymentConfirmed(paymentId);
+    return true;
+  }
+
   /**
    * Cria um plano de parcelamento
    * @param amount Valor total
@@ -1774,7 +939,7 @@ class PaymentProcessorService {
     // Verificar se está em modo inativo
     if (this.inactiveMode) {
       console.log(`[PaymentService] Modo inativo - Simulando plano de pagamento em ${installments}x`);
-      
+
       const result: {
         success: boolean;
         installments: Array<{
@@ -1787,27 +952,27 @@ class PaymentProcessorService {
         success: true,
         installments: [],
       };
-      
+
       const installmentAmount = Math.round((amount / installments) * 100) / 100;
       const remainingAmount = Math.round((amount - (installmentAmount * (installments - 1))) * 100) / 100;
-      
+
       const startDate = options.startDate || new Date();
-      
+
       for (let i = 0; i < installments; i++) {
         const isLastInstallment = i === installments - 1;
-        const installmentAmount = isLastInstallment ? remainingAmount : installmentAmount;
-        
+        const amountDue = isLastInstallment ? remainingAmount : installmentAmount;
+
         const dueDate = new Date(startDate);
         dueDate.setMonth(dueDate.getMonth() + i);
-        
+
         result.installments.push({
           id: `inactive_installment_${Date.now()}_${i}`,
-          amount: installmentAmount,
+          amount: amountDue,
           dueDate,
           status: 'pending',
         });
       }
-      
+
       if (options.userId) {
         await logAction(
           options.userId,
@@ -1821,24 +986,69 @@ class PaymentProcessorService {
           }
         );
       }
-      
+
       return result;
     }
-    
-    // Usar o processador interno para parcelas
-    const processor = this.processors.get('internal') as InternalProcessor;
-    
-    if (!processor) {
-      throw new Error('Processador interno não está configurado');
-    }
-    
-    return await processor.createInstallmentPlan(
-      amount,
+
+    // Descontos, bolsas e cupons da matrícula incidem sobre o total do plano
+    const quote = options.enrollmentId
+      ? await discountService.quoteForEnrollment(options.enrollmentId, amount, 'tuition')
+      : null;
+
+    // Parcelas são registradas pelo processador interno e cobradas depois
+    const plan = await this.internalProcessor.createInstallmentPlan(
+      quote ? quote.finalAmount : amount,
+      'BRL',
       installments,
-      options
+      quote
+        ? { ...options, metadata: { ...options.metadata || {}, grossAmount: amount, discounts: quote.discounts } }
+        : options
     );
+
+    if (quote && quote.discounts.length > 0 && quote.finalAmount > 0) {
+      for (const installment of plan.installments) {
+        await discountService.recordApplication(
+          parseInt(installment.id),
+          options.enrollmentId!,
+          quote.discounts,
+          installment.amount / quote.finalAmount
+        );
+      }
+    }
+
+    return plan;
   }
-  
+
+  /**
+   * Monta as opções de cobrança de uma matrícula, usando o responsável
+   * financeiro do aluno (ou o próprio aluno) como cliente
+   * @param enrollment Matrícula (id, aluno e escola)
+   * @param billing Valor, vencimento e descrição da cobrança
+   * @returns Opções de cobrança prontas para boleto/PIX
+   */
+  async buildEnrollmentBillingOptions(
+    enrollment: { id: number; studentId: number; schoolId: number },
+    billing: Pick<BillingOptions, 'amount' | 'dueDate' | 'description'> & Partial<BillingOptions>
+  ): Promise<BillingOptions> {
+    const customer = await guardianService.getBillingCustomer(enrollment.studentId);
+    if (!customer) {
+      throw new Error('Aluno sem CPF cadastrado e sem responsável financeiro com CPF');
+    }
+
+    return {
+      ...billing,
+      customerName: customer.customerName,
+      customerDocument: customer.customerDocument,
+      customerEmail: customer.customerEmail,
+      customerPhone: customer.customerPhone,
+      customerAddress: customer.customerAddress,
+      payerUserId: customer.payerUserId ?? undefined,
+      schoolId: enrollment.schoolId,
+      studentId: enrollment.studentId,
+      enrollmentId: enrollment.id,
+    };
+  }
+
   /**
    * Atualiza o status de todos os pagamentos pendentes
    * @returns Número de pagamentos atualizados
@@ -1848,95 +1058,69 @@ class PaymentProcessorService {
       console.log('[PaymentService] Modo inativo - Pulando sincronização de status');
       return 0;
     }
-    
+
     try {
       // Buscar pagamentos pendentes que precisam ser atualizados
       const result = await db.execute(`
-        SELECT id, external_id, gateway, updated_at
+        SELECT id, external_id, gateway, school_id, status, updated_at
         FROM payments
-        WHERE status = 'pending' OR status = 'processing'
+        WHERE (status = 'pending' OR status = 'processing')
+          AND gateway NOT IN ('internal', 'manual')
       `);
-      
-      if (!result.rows.length) {
+
+      if (!result.length) {
         return 0;
       }
-      
+
       let updatedCount = 0;
-      
+
       // Atualizar status de cada pagamento
-      for (const payment of result.rows) {
+      for (const payment of result) {
         try {
           // Verificar se precisa atualizar (limitar requisições)
           const lastUpdate = new Date(payment.updated_at);
           const now = new Date();
           const hoursSinceLastUpdate = (now.getTime() - lastUpdate.getTime()) / (1000 * 60 * 60);
-          
+
           // Atualizar no máximo a cada 2 horas
           if (hoursSinceLastUpdate < 2) {
             continue;
           }
-          
-          const gateway = payment.gateway as PaymentGateway;
-          const processor = this.processors.get(gateway);
-          
-          if (!processor) {
-            console.warn(`Gateway ${gateway} não está configurado - pulando atualização de ${payment.external_id}`);
-            continue;
-          }
-          
-          const statusResult = await processor.getPaymentStatus(payment.external_id);
-          
+
+          const { adapter } = await paymentGatewayRegistry.resolveForPayment({
+            gateway: payment.gateway,
+            schoolId: payment.school_id,
+          });
+
+          const statusResult = await adapter.getStatus(payment.external_id);
+
           // Atualizar status no banco
-          await db.execute(`
+          const [changed] = await domainEventService.writeWithEvents(`
             UPDATE payments
-            SET 
+            SET
               status = $1,
               updated_at = NOW()
-            WHERE id = $2
-          `, [statusResult.status, payment.id]);
-          
+            WHERE id = $2 AND status IS DISTINCT FROM $1
+            ${PAID_EVENT_RETURNING}
+          `, [statusResult.status, payment.id], [PAID_EVENT]);
+
           updatedCount++;
-          
-          // Se foi pago, enviar notificação
-          if (statusResult.status === 'paid') {
-            // Buscar dados do pagamento
-            const paymentDetails = await db.execute(`
-              SELECT amount, user_id, student_id, school_id
-              FROM payments
-              WHERE id = $1
-            `, [payment.id]);
-            
-            if (paymentDetails.rows.length && paymentDetails.rows[0].user_id) {
-              try {
-                await sendUserNotification(
-                  paymentDetails.rows[0].user_id,
-                  {
-                    title: 'Pagamento confirmado',
-                    message: `Seu pagamento no valor de R$ ${parseFloat(paymentDetails.rows[0].amount).toFixed(2)} foi confirmado.`,
-                    type: 'payment',
-                    data: {
-                      paymentId: payment.id,
-                      amount: parseFloat(paymentDetails.rows[0].amount),
-                    },
-                  }
-                );
-              } catch (error) {
-                console.error('Erro ao enviar notificação de pagamento:', error);
-              }
-            }
+
+          if (changed && statusResult.status === 'paid') {
+            await this.onPaymentConfirmed(payment.id);
           }
         } catch (error) {
           console.error(`Erro ao atualizar status do pagamento ${payment.id}:`, error);
         }
       }
-      
+
       return updatedCount;
     } catch (error) {
       console.error('Erro ao sincronizar status de pagamentos:', error);
       return 0;
     }
   }
-  
+
   /**
    * Cria as tabelas necessárias no banco de dados
    */
@@ -1963,7 +1147,7 @@ class PaymentProcessorService {
           updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
         )
       `);
-      
+
       // Índices
       await db.execute(`
         CREATE INDEX IF NOT EXISTS payments_user_id_idx ON payments(user_id);
@@ -1972,32 +1156,305 @@ class PaymentProcessorService {
         CREATE INDEX IF NOT EXISTS payments_status_idx ON payments(status);
         CREATE INDEX IF NOT EXISTS payments_gateway_idx ON payments(gateway);
         CREATE INDEX IF NOT EXISTS payments_created_at_idx ON payments(created_at);
+        CREATE INDEX IF NOT EXISTS payments_gateway_reference_idx ON payments((metadata->>'gatewayReference'));
       `);
-      
+
+      // Configurações de gateway por escola
+      await createPaymentGatewaySettingsTable();
+
       // Pastas para armazenar arquivos
       const uploadsDir = path.join(process.cwd(), 'uploads');
       const boletosDir = path.join(uploadsDir, 'boletos');
       const pixDir = path.join(uploadsDir, 'pix');
-      
+
       if (!fs.existsSync(uploadsDir)) {
         fs.mkdirSync(uploadsDir, { recursive: true });
       }
-      
+
       if (!fs.existsSync(boletosDir)) {
         fs.mkdirSync(boletosDir, { recursive: true });
       }
-      
+
       if (!fs.existsSync(pixDir)) {
         fs.mkdirSync(pixDir, { recursive: true });
       }
-      
+
       console.log('Tabelas e diretórios do sistema de pagamentos inicializados com sucesso');
     } catch (error) {
       console.error('Erro ao criar tabelas de pagamento:', error);
       throw error;
     }
   }
+
+  /**
+   * Localiza o pagamento pelo ID externo e resolve o adaptador do gateway
+   * em que ele foi criado, com as credenciais da escola
+   */
+  private async resolvePaymentAdapter(paymentId: string, gateway?: PaymentGateway) {
+    const [payment] = await db.execute(`
+      SELECT id, gateway, school_id, amount, status
+      FROM payments
+      WHERE external_id = $1
+    `, [paymentId]);
+
+    const paymentGateway = gateway || payment?.gateway;
+    if (!paymentGateway) {
+      throw new Error(`Pagamento ${paymentId} não encontrado`);
+    }
+
+    const { adapter } = await paymentGatewayRegistry.resolveForPayment({
+      gateway: paymentGateway,
+      schoolId: payment?.school_id ?? null,
+    });
+
+    return { adapter, payment };
+  }
+
+  /**
+   * Cria boleto/PIX no gateway da escola e registra o pagamento
+   */
+  private async createBillingCharge(
+    method: 'bank_slip' | 'pix',
+    options: BillingOptions,
+    gateway?: PaymentGateway
+  ): Promise<{ charge: GatewayCharge; paymentId: string; gateway: PaymentGateway }> {
+    const { adapter } = await paymentGatewayRegistry.resolveForSchool(options.schoolId, { method, gateway });
+    const gatewayReference = `pay_${uuidv4()}`;
+
+    const request: GatewayChargeRequest = {
+      amount: options.amount,
+      method,
+      description: options.description,
+      customer: {
+        name: options.customerName,
+        document: options.customerDocument,
+        email: options.customerEmail,
+        phone: options.customerPhone,
+        address: options.customerAddress,
+      },
+      dueDate: options.dueDate,
+      installments: options.installments,
+      reference: gatewayReference,
+      discountAmount: options.discountAmount,
+      discountDays: options.discountDays,
+      finePercent: options.finePercent,
+      dailyInterestPercent: options.dailyInterestPercent,
+      metadata: { reference: options.reference, schoolId: options.schoolId },
+    };
+
+    const charge = await adapter.createCharge(request);
+
+    const paymentId = await this.recordCharge(charge, adapter.gateway, {
+      amount: options.amount,
+      currency: 'BRL',
+      description: options.description,
+      userId: options.payerUserId,
+      studentId: options.studentId,
+      enrollmentId: options.enrollmentId,
+      schoolId: options.schoolId,
+      dueDate: options.dueDate,
+      metadata: {
+        ...(method === 'bank_slip'
+          ? { boletoUrl: charge.paymentUrl, boletoCode: charge.barcode }
+          : { pixQrCode: charge.pixQrCode, pixQrCodeImage: charge.pixQrCodeImage }),
+        expiresAt: charge.expiresAt?.toISOString(),
+        customerName: options.customerName,
+        customerDocument: options.customerDocument,
+        customerEmail: options.customerEmail,
+        customerPhone: options.customerPhone,
+        customerAddress: options.customerAddress,
+        installments: options.installments,
+        discountAmount: options.discountAmount,
+        discountDays: options.discountDays,
+        finePercent: options.finePercent,
+        dailyInterestPercent: options.dailyInterestPercent,
+        reference: options.reference,
+        gatewayReference,
+        settlesEnrollment: options.settlesEnrollment,
+      },
+    });
+
+    return { charge, paymentId, gateway: adapter.gateway };
+  }
+
+  /**
+   * Registra na tabela payments uma cobrança criada no gateway
+   * @returns ID interno do pagamento
+   */
+  private async recordCharge(
+    charge: GatewayCharge,
+    gateway: PaymentGateway,
+    data: {
+      amount: number;
+      currency: string;
+      description: string;
+      userId?: number;
+      studentId?: number;
+      enrollmentId?: number;
+      schoolId: number;
+      dueDate?: Date;
+      metadata: Record<string, any>;
+    }
+  ): Promise<string> {
+    const [row] = await db.execute(`
+      INSERT INTO payments (
+        external_id,
+        amount,
+        currency,
+        status,
+        description,
+        payment_method,
+        gateway,
+        user_id,
+        student_id,
+        enrollment_id,
+        school_id,
+        due_date,
+        metadata,
+        created_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW()
+      ) RETURNING id
+    `, [
+      charge.externalId,
+      data.amount,
+      data.currency.toLowerCase(),
+      charge.status,
+      data.description,
+      charge.method,
+      gateway,
+      data.userId || null,
+      data.studentId || null,
+      data.enrollmentId || null,
+      data.schoolId,
+      data.dueDate ? data.dueDate.toISOString() : null,
+      JSON.stringify({ ...data.metadata, paymentUrl: charge.paymentUrl }),
+    ]);
+
+    if (!row) {
+      throw new Error(`Cobrança ${charge.externalId} criada no gateway ${gateway} mas não registrada`);
+    }
+
+    return row.id.toString();
+  }
+
+  /**
+   * Aplica um evento de webhook ao pagamento correspondente. Pagamentos de
+   * checkout só conhecem o ID do gateway no webhook e são localizados pela
+   * referência enviada na criação.
+   * @returns true se algum pagamento foi atualizado
+   */
+  private async applyWebhookEvent(gateway: PaymentGateway, event: GatewayWebhookEvent): Promise<boolean> {
+    let [payment] = await db.execute(`
+      SELECT id, status FROM payments WHERE gateway = $1 AND external_id = $2
+    `, [gateway, event.externalId]);
+
+    if (!payment && event.reference) {
+      [payment] = await db.execute(`
+        SELECT id, status FROM payments WHERE gateway = $1 AND metadata->>'gatewayReference' = $2
+      `, [gateway, event.reference]);
+    }
+
+    if (!payment) {
+      console.warn(`[PaymentService] Webhook ${event.eventType} de ${gateway} sem pagamento para ${event.externalId}`);
+      return false;
+    }
+
+    if (payment.status === event.status) {
+      return false;
+    }
+
+    // Gateways não garantem a ordem: um "pendente" atrasado não desfaz a baixa
+    if (SETTLED_STATUSES.includes(payment.status) && OPEN_STATUSES.includes(event.status)) {
+      console.warn(`[PaymentService] Webhook ${event.eventType} de ${gateway} ignorado: pagamento ${payment.id} já está ${payment.status}`);
+      return false;
+    }
+
+    // A condição no status torna a troca atômica: dois reenvios processados
+    // ao mesmo tempo não confirmam o pagamento duas vezes
+    const [changed] = await domainEventService.writeWithEvents(`
+      UPDATE payments
+      SET
+        status = $1,
+        external_id = $2,
+        updated_at = NOW(),
+        metadata = COALESCE(metadata, '{}')::jsonb || $3::jsonb
+      WHERE id = $4 AND status IS DISTINCT FROM $1
+      ${PAID_EVENT_RETURNING}
+    `, [
+      event.status,
+      event.externalId,
+      JSON.stringify({
+        lastWebhookEvent: event.eventType,
+        lastWebhookAt: new Date().toISOString(),
+        ...(event.paidAmount !== undefined ? { paidAmount: event.paidAmount } : {}),
+      }),
+      payment.id,
+    ], [PAID_EVENT]);
+
+    if (!changed) {
+      return false;
+    }
+
+    if (event.status === 'paid') {
+      await this.onPaymentConfirmed(payment.id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Efeitos da confirmação de um pagamento: quita a matrícula e confirma a
+   * vaga (quando o pagamento é da taxa de matrícula) e notifica o pagador. payment.paid já
+   * foi gravado pela instrução que baixou o pagamento
+   */
+  private async onPaymentConfirmed(paymentId: number): Promise<void> {
+    const [payment] = await db.execute(`
+      SELECT id, amount, user_id, enrollment_id, metadata
+      FROM payments
+      WHERE id = $1
+    `, [paymentId]);
+
+    if (!payment) return;
+
+    if (payment.enrollment_id && payment.metadata?.settlesEnrollment) {
+      const [enrollment] = await db.execute(`
+        UPDATE enrollments
+        SET payment_status = 'paid', updated_at = NOW()
+        WHERE id = $1
+        RETURNING id, student_id, school_id, course_id
+      `, [payment.enrollment_id]);
+
+      if (enrollment) {
+        await courseSeatService.confirmSeat({
+          id: enrollment.id,
+          courseId: enrollment.course_id,
+          schoolId: enrollment.school_id,
+          studentId: enrollment.student_id,
+        });
+      }
+    }
+
+    if (payment.user_id) {
+      try {
+        await sendUserNotification(
+          payment.user_id,
+          {
+            title: 'Pagamento confirmado',
+            message: `Seu pagamento no valor de R$ ${parseFloat(payment.amount).toFixed(2)} foi confirmado.`,
+            type: 'payment',
+            data: {
+              paymentId: payment.id,
+              amount: parseFloat(payment.amount),
+            },
+          }
+        );
+      } catch (error) {
+        console.error('Erro ao enviar notificação de pagamento:', error);
+      }
+    }
+  }
 }
 
 // Exportar instância única
-export const paymentProcessor = new PaymentProcessorService();
\ No newline at end of file
+export const paymentProcessor = new PaymentProcessorService();
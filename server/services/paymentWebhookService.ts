@@ -0,0 +1,390 @@
+/**
+ * Serviço de webhooks de pagamento
+ * Todo callback de gateway é gravado antes de qualquer processamento (corpo
+ * original, cabeçalhos e resultado da verificação de assinatura), deduplicado
+ * pelo ID do evento no gateway e aplicado de forma assíncrona pela fila de
+ * pagamentos, com novas tentativas e reprocessamento pelo painel administrativo
+ */
+
+import crypto from 'crypto';
+import type { Job } from 'bull';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { paymentProcessor, PaymentGateway } from './paymentProcessor';
+import { paymentGatewayRegistry, GatewayWebhookRequest } from './paymentGateways';
+import queueService, { QueueType } from './queueService';
+
+// received: aguardando processamento; rejected: assinatura inválida (nunca processado);
+// ignored: verificado, mas sem eventos de pagamento
+export type PaymentWebhookStatus = 'received' | 'processing' | 'processed' | 'failed' | 'ignored' | 'rejected';
+
+export interface PaymentWebhookEvent {
+  id: number;
+  gateway: string;
+  settingsId: number | null;
+  eventId: string;
+  signatureVerified: boolean;
+  status: PaymentWebhookStatus;
+  attempts: number;
+  lastError: string | null;
+  eventsCount: number;
+  updatedPayments: number;
+  receivedAt: Date;
+  processedAt: Date | null;
+  // Presentes apenas no detalhe
+  rawBody?: string | null;
+  body?: any;
+  headers?: Record<string, any>;
+  query?: Record<string, any>;
+  events?: any[];
+}
+
+export interface PaymentWebhookIngestResult {
+  id: number | null;
+  verified: boolean;
+  duplicate: boolean;
+}
+
+export interface PaymentWebhookFilters {
+  status?: PaymentWebhookStatus;
+  gateway?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const JOB_TYPE = 'payment-webhook';
+
+// Cabeçalhos e parâmetros da URL que não devem ficar gravados (credenciais e
+// segredos de webhook, como o token do Asaas e o ?hmac= da Efí)
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'asaas-access-token'];
+const SENSITIVE_QUERY_PARAMS = ['hmac', 'token'];
+
+class PaymentWebhookService {
+  /**
+   * Cria a tabela de eventos. O índice único vale só para eventos com
+   * assinatura válida: um evento forjado com o ID de um evento real não
+   * pode bloquear o verdadeiro
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS payment_webhook_events (
+        id SERIAL PRIMARY KEY,
+        gateway TEXT NOT NULL,
+        settings_id INTEGER,
+        event_id TEXT NOT NULL,
+        raw_body TEXT,
+        body JSONB,
+        headers JSONB,
+        query JSONB,
+        signature_verified BOOLEAN NOT NULL DEFAULT FALSE,
+        status TEXT NOT NULL DEFAULT 'received',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        events JSONB,
+        updated_payments INTEGER NOT NULL DEFAULT 0,
+        received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        processed_at TIMESTAMP WITH TIME ZONE,
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS payment_webhook_events_dedupe_idx
+      ON payment_webhook_events(gateway, event_id) WHERE signature_verified = TRUE
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS payment_webhook_events_status_idx
+      ON payment_webhook_events(status, received_at DESC)
+    `);
+  }
+
+  /**
+   * Conecta o processamento à fila de pagamentos (chamado na inicialização
+   * das filas). As tentativas seguem a política padrão da fila.
+   */
+  registerQueueProcessor(): void {
+    queueService.registerProcessor(
+      QueueType.PAYMENTS,
+      JOB_TYPE,
+      async (job: Job<{ type: string; webhookEventId: number }>) => {
+        await this.processEvent(job.data.webhookEventId);
+        return { success: true };
+      },
+      { concurrency: 2 }
+    );
+  }
+
+  /**
+   * Grava o webhook recebido e agenda o processamento. Reenvios de um evento
+   * já gravado não são processados de novo.
+   * @param gateway Gateway da URL do webhook
+   * @param request Corpo original, cabeçalhos e query string
+   * @param settingsId Configuração do gateway (quando há várias contas)
+   */
+  async ingest(gateway: string, request: GatewayWebhookRequest, settingsId?: number): Promise<PaymentWebhookIngestResult> {
+    const { adapter, settings } = await paymentGatewayRegistry.resolveForWebhook(gateway, settingsId);
+
+    const verified = adapter.verifyWebhook(request);
+    const rawBody = request.rawBody ? request.rawBody.toString('utf8') : null;
+    const eventId = adapter.getWebhookEventId(request)
+      || `sha256:${crypto.createHash('sha256').update(rawBody ?? JSON.stringify(request.body ?? {})).digest('hex')}`;
+
+    const [row] = await db.execute(`
+      INSERT INTO payment_webhook_events (
+        gateway, settings_id, event_id, raw_body, body, headers, query, signature_verified, status
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (gateway, event_id) WHERE signature_verified = TRUE DO NOTHING
+      RETURNING id
+    `, [
+      adapter.gateway,
+      settings?.id ?? null,
+      eventId,
+      rawBody,
+      JSON.stringify(request.body ?? null),
+      JSON.stringify(this.sanitizeHeaders(request.headers)),
+      JSON.stringify(this.sanitizeQuery(request.query)),
+      verified,
+      verified ? 'received' : 'rejected',
+    ]);
+
+    if (!row) {
+      // Sem linha: reenvio de evento já gravado ou falha na gravação. Na
+      // falha o erro faz o gateway reenviar mais tarde
+      const [existing] = verified ? await db.execute(`
+        SELECT id FROM payment_webhook_events
+        WHERE gateway = $1 AND event_id = $2 AND signature_verified = TRUE
+      `, [adapter.gateway, eventId]) : [];
+
+      if (!existing) {
+        throw new Error(`Erro ao registrar webhook de ${gateway}`);
+      }
+
+      console.log(`[PaymentWebhook] Evento ${eventId} de ${gateway} já recebido; reenvio ignorado`);
+      return { id: existing.id, verified, duplicate: true };
+    }
+
+    if (!verified) {
+      console.warn(`[PaymentWebhook] Webhook de ${gateway} com assinatura inválida (registro ${row.id})`);
+      return { id: row.id, verified, duplicate: false };
+    }
+
+    await this.dispatch(row.id);
+
+    return { id: row.id, verified, duplicate: false };
+  }
+
+  /**
+   * Processa um evento gravado: converte pelo adaptador do gateway e aplica
+   * aos pagamentos. Em caso de erro marca como falho e relança para a fila
+   * tentar novamente.
+   * @param id ID do registro em payment_webhook_events
+   */
+  async processEvent(id: number): Promise<void> {
+    // Só um worker assume o evento; processados não rodam de novo
+    const [row] = await db.execute(`
+      UPDATE payment_webhook_events
+      SET status = 'processing', attempts = attempts + 1, updated_at = NOW()
+      WHERE id = $1 AND signature_verified = TRUE AND status IN ('received', 'failed')
+      RETURNING *
+    `, [id]);
+
+    if (!row) {
+      return;
+    }
+
+    try {
+      const { adapter } = await paymentGatewayRegistry.resolveForWebhook(row.gateway, row.settings_id ?? undefined);
+      const events = await adapter.parseWebhook({
+        rawBody: row.raw_body !== null ? Buffer.from(row.raw_body, 'utf8') : undefined,
+        body: row.body,
+        headers: row.headers || {},
+        query: row.query || {},
+      });
+      const updated = await paymentProcessor.applyWebhookEvents(adapter.gateway as PaymentGateway, events);
+
+      await db.execute(`
+        UPDATE payment_webhook_events
+        SET
+          status = $2,
+          events = $3,
+          updated_payments = $4,
+          last_error = NULL,
+          processed_at = NOW(),
+          updated_at = NOW()
+        WHERE id = $1
+      `, [
+        id,
+        events.length > 0 ? 'processed' : 'ignored',
+        JSON.stringify(events.map(({ raw, ...event }) => event)),
+        updated,
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      console.error(`[PaymentWebhook] Erro ao processar evento ${id}:`, message);
+
+      await db.execute(`
+        UPDATE payment_webhook_events
+        SET status = 'failed', last_error = $2, updated_at = NOW()
+        WHERE id = $1
+      `, [id, message]);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Reprocessa um evento (falho, ignorado ou já processado). Eventos com
+   * assinatura inválida não podem ser reprocessados.
+   * @param id ID do registro
+   * @param userId Administrador que pediu o reprocessamento
+   */
+  async replay(id: number, userId: number): Promise<PaymentWebhookEvent> {
+    const [row] = await db.execute(`
+      UPDATE payment_webhook_events
+      SET status = 'received', last_error = NULL, updated_at = NOW()
+      WHERE id = $1 AND signature_verified = TRUE AND status <> 'processing'
+      RETURNING *
+    `, [id]);
+
+    if (!row) {
+      const existing = await this.getEvent(id);
+      if (!existing) {
+        throw new Error('Evento de webhook não encontrado');
+      }
+      throw new Error(existing.signatureVerified
+        ? 'Evento já está em processamento'
+        : 'Eventos com assinatura inválida não podem ser reprocessados');
+    }
+
+    await logAction(userId, 'payment_webhook_replayed', 'payment_webhook_event', String(id), {
+      gateway: row.gateway,
+      eventId: row.event_id,
+      previousAttempts: row.attempts,
+    });
+
+    await this.dispatch(id);
+
+    return this.mapEvent(row, true);
+  }
+
+  /**
+   * Lista eventos recebidos, mais recentes primeiro
+   */
+  async listEvents(filters: PaymentWebhookFilters = {}): Promise<PaymentWebhookEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.gateway) {
+      params.push(filters.gateway);
+      conditions.push(`gateway = $${params.length}`);
+    }
+
+    params.push(Math.min(filters.limit || 50, 200), filters.offset || 0);
+
+    const rows = await db.execute(`
+      SELECT
+        id, gateway, settings_id, event_id, signature_verified, status, attempts,
+        last_error, jsonb_array_length(COALESCE(events, '[]'::jsonb)) AS events_count,
+        updated_payments, received_at, processed_at
+      FROM payment_webhook_events
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY received_at DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `, params);
+
+    return rows.map((row: any) => this.mapEvent(row, false));
+  }
+
+  /**
+   * Quantidade de eventos por status
+   */
+  async countByStatus(): Promise<Record<string, number>> {
+    const rows = await db.execute(`
+      SELECT status, COUNT(*) AS count FROM payment_webhook_events GROUP BY status
+    `);
+
+    return Object.fromEntries(rows.map((row: any) => [row.status, parseInt(row.count)]));
+  }
+
+  /**
+   * Evento completo, com corpo original e cabeçalhos
+   */
+  async getEvent(id: number): Promise<PaymentWebhookEvent | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM payment_webhook_events WHERE id = $1
+    `, [id]);
+
+    return row ? this.mapEvent(row, true) : null;
+  }
+
+  /**
+   * Envia o evento para a fila de pagamentos; sem Redis (ou com a fila fora
+   * do ar) processa em segundo plano no próprio processo, sem novas tentativas
+   */
+  private async dispatch(id: number): Promise<void> {
+    if (queueService.isQueueServiceReady()) {
+      try {
+        await queueService.addJob(QueueType.PAYMENTS, { type: JOB_TYPE, webhookEventId: id });
+        return;
+      } catch (error) {
+        console.warn(`[PaymentWebhook] Fila indisponível, processando evento ${id} localmente`);
+      }
+    }
+
+    setImmediate(() => {
+      this.processEvent(id).catch(() => {
+        // Erro já registrado no evento; reprocessamento pelo painel
+      });
+    });
+  }
+
+  private sanitizeHeaders(headers: GatewayWebhookRequest['headers']): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(headers || {}).filter(([name]) => !SENSITIVE_HEADERS.includes(name.toLowerCase()))
+    );
+  }
+
+  private sanitizeQuery(query: GatewayWebhookRequest['query']): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(query || {}).filter(([name]) => !SENSITIVE_QUERY_PARAMS.includes(name.toLowerCase()))
+    );
+  }
+
+  private mapEvent(row: any, full: boolean): PaymentWebhookEvent {
+    const event: PaymentWebhookEvent = {
+      id: row.id,
+      gateway: row.gateway,
+      settingsId: row.settings_id,
+      eventId: row.event_id,
+      signatureVerified: row.signature_verified,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      eventsCount: row.events_count !== undefined
+        ? parseInt(row.events_count)
+        : (Array.isArray(row.events) ? row.events.length : 0),
+      updatedPayments: row.updated_payments,
+      receivedAt: row.received_at,
+      processedAt: row.processed_at,
+    };
+
+    if (full) {
+      event.rawBody = row.raw_body;
+      event.body = row.body;
+      event.headers = row.headers;
+      event.query = row.query;
+      event.events = row.events || [];
+    }
+
+    return event;
+  }
+}
+
+export const paymentWebhookService = new PaymentWebhookService();
+export default paymentWebhookService;
@@ -0,0 +1,262 @@
+/**
+ * Consultas da API pública (/api/v1)
+ * Todas as leituras são restritas à escola da chave de API e devolvem a
+ * representação pública dos registros, sem campos internos
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: { limit: number; offset: number; total: number };
+}
+
+export interface LeadFilters extends PageOptions {
+  status?: string;
+  updatedSince?: Date;
+}
+
+export interface CourseFilters extends PageOptions {
+  status?: string;
+}
+
+export interface EnrollmentFilters extends PageOptions {
+  status?: string;
+  courseId?: number;
+  updatedSince?: Date;
+}
+
+export interface PaymentFilters extends PageOptions {
+  status?: string;
+  enrollmentId?: number;
+  updatedSince?: Date;
+}
+
+export interface CreateLeadData {
+  fullName: string;
+  email?: string;
+  phone?: string;
+  courseId?: number;
+  source?: string;
+  notes?: string;
+  metadata?: Record<string, unknown>;
+}
+
+function toPage<T>(rows: any[], options: PageOptions, map: (row: any) => T): Page<T> {
+  return {
+    data: rows.map(map),
+    pagination: {
+      limit: options.limit,
+      offset: options.offset,
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    },
+  };
+}
+
+function mapLead(row: any) {
+  return {
+    id: row.id,
+    fullName: row.full_name,
+    email: row.email,
+    phone: row.phone,
+    courseId: row.course_id,
+    source: row.source,
+    status: row.status,
+    notes: row.notes,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapCourse(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    duration: row.duration,
+    price: row.price,
+    schedule: row.schedule,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    maxStudents: row.max_students,
+    status: row.status,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapEnrollment(row: any) {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    studentName: row.student_name,
+    courseId: row.course_id,
+    courseName: row.course_name,
+    status: row.status,
+    paymentStatus: row.payment_status,
+    semester: row.semester,
+    year: row.year,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapDocument(row: any) {
+  return {
+    id: row.id,
+    enrollmentId: row.enrollment_id,
+    type: row.type,
+    title: row.title,
+    status: row.status,
+    verifiedAt: row.verified_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapPayment(row: any) {
+  return {
+    id: row.id,
+    enrollmentId: row.enrollment_id,
+    studentId: row.student_id,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+    status: row.status,
+    description: row.description,
+    paymentMethod: row.payment_method,
+    dueDate: row.due_date,
+    paidAt: row.metadata?.settledAt || (row.status === 'paid' ? row.updated_at : null),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+class PublicApiService {
+  async listLeads(schoolId: number, filters: LeadFilters) {
+    const rows = await db.execute(`
+      SELECT l.*, COUNT(*) OVER() AS total_count
+      FROM leads l
+      WHERE l.school_id = $1
+        AND ($2::text IS NULL OR l.status = $2)
+        AND ($3::timestamp IS NULL OR l.updated_at > $3)
+      ORDER BY l.updated_at DESC, l.id DESC
+      LIMIT $4 OFFSET $5
+    `, [schoolId, filters.status ?? null, filters.updatedSince ?? null, filters.limit, filters.offset]);
+
+    return toPage(rows, filters, mapLead);
+  }
+
+  async getLead(schoolId: number, id: number) {
+    const [row] = await db.execute(`SELECT * FROM leads WHERE id = $1 AND school_id = $2`, [id, schoolId]);
+    return row ? mapLead(row) : null;
+  }
+
+  /**
+   * Cria o lead pela camada de armazenamento, que publica o evento lead.created
+   * @param schoolId Escola da chave de API
+   * @param data Dados do lead
+   */
+  async createLead(schoolId: number, data: CreateLeadData) {
+    if (data.courseId && !(await this.getCourse(schoolId, data.courseId))) {
+      throw new Error('Curso não encontrado');
+    }
+
+    const lead = await storage.createLead({
+      ...data,
+      schoolId,
+      source: data.source || 'api',
+      status: 'new',
+    });
+
+    return this.getLead(schoolId, lead.id);
+  }
+
+  async listCourses(schoolId: number, filters: CourseFilters) {
+    const rows = await db.execute(`
+      SELECT c.*, COUNT(*) OVER() AS total_count
+      FROM courses c
+      WHERE c.school_id = $1 AND ($2::text IS NULL OR c.status = $2)
+      ORDER BY c.name, c.id
+      LIMIT $3 OFFSET $4
+    `, [schoolId, filters.status ?? null, filters.limit, filters.offset]);
+
+    return toPage(rows, filters, mapCourse);
+  }
+
+  async getCourse(schoolId: number, id: number) {
+    const [row] = await db.execute(`SELECT * FROM courses WHERE id = $1 AND school_id = $2`, [id, schoolId]);
+    return row ? mapCourse(row) : null;
+  }
+
+  async listEnrollments(schoolId: number, filters: EnrollmentFilters) {
+    const rows = await db.execute(`
+      SELECT e.*, u.full_name AS student_name, c.name AS course_name, COUNT(*) OVER() AS total_count
+      FROM enrollments e
+      LEFT JOIN students s ON s.id = e.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      LEFT JOIN courses c ON c.id = e.course_id
+      WHERE e.school_id = $1
+        AND ($2::text IS NULL OR e.status = $2)
+        AND ($3::int IS NULL OR e.course_id = $3)
+        AND ($4::timestamp IS NULL OR e.updated_at > $4)
+      ORDER BY e.updated_at DESC, e.id DESC
+      LIMIT $5 OFFSET $6
+    `, [schoolId, filters.status ?? null, filters.courseId ?? null, filters.updatedSince ?? null, filters.limit, filters.offset]);
+
+    return toPage(rows, filters, mapEnrollment);
+  }
+
+  async getEnrollment(schoolId: number, id: number) {
+    const [row] = await db.execute(`
+      SELECT e.*, u.full_name AS student_name, c.name AS course_name
+      FROM enrollments e
+      LEFT JOIN students s ON s.id = e.student_id
+      LEFT JOIN users u ON u.id = s.user_id
+      LEFT JOIN courses c ON c.id = e.course_id
+      WHERE e.id = $1 AND e.school_id = $2
+    `, [id, schoolId]);
+
+    return row ? mapEnrollment(row) : null;
+  }
+
+  /**
+   * Situação dos documentos da matrícula (sem links para os arquivos)
+   * @returns null quando a matrícula não pertence à escola
+   */
+  async listEnrollmentDocuments(schoolId: number, enrollmentId: number) {
+    const rows = await db.execute(`
+      SELECT e.id AS owner_id, d.*
+      FROM enrollments e
+      LEFT JOIN documents d ON d.enrollment_id = e.id
+      WHERE e.id = $1 AND e.school_id = $2
+      ORDER BY d.created_at, d.id
+    `, [enrollmentId, schoolId]);
+
+    if (rows.length === 0) return null;
+    return rows.filter((row: any) => row.id !== null).map(mapDocument);
+  }
+
+  async listPayments(schoolId: number, filters: PaymentFilters) {
+    const rows = await db.execute(`
+      SELECT p.*, COUNT(*) OVER() AS total_count
+      FROM payments p
+      WHERE p.school_id = $1
+        AND ($2::text IS NULL OR p.status = $2)
+        AND ($3::int IS NULL OR p.enrollment_id = $3)
+        AND ($4::timestamp IS NULL OR p.updated_at > $4)
+      ORDER BY p.updated_at DESC, p.id DESC
+      LIMIT $5 OFFSET $6
+    `, [schoolId, filters.status ?? null, filters.enrollmentId ?? null, filters.updatedSince ?? null, filters.limit, filters.offset]);
+
+    return toPage(rows, filters, mapPayment);
+  }
+}
+
+export const publicApiService = new PublicApiService();
+export default publicApiService;
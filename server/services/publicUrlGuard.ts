@@ -0,0 +1,134 @@
+/**
+ * Proteção das requisições a URLs informadas por escolas (webhooks de saída,
+ * chamadas de API dos fluxos do chatbot). A URL só é aceita quando o host
+ * resolve para endereços públicos: loopback, redes privadas, link-local
+ * (incluindo 169.254.169.254) e demais faixas reservadas são recusados.
+ * A verificação é repetida na conexão, para que uma nova resolução do DNS
+ * não leve a requisição a um endereço interno
+ */
+
+import http from 'http';
+import https from 'https';
+import { isIP, LookupFunction } from 'net';
+import { lookup as dnsLookup, promises as dnsPromises, LookupAddress } from 'dns';
+
+export const PRIVATE_ADDRESS_MESSAGE = 'A URL deve apontar para um endereço público';
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && (c === 0 || c === 2))
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+}
+
+/**
+ * Indica se o endereço IP pertence a uma faixa não pública
+ * @param address IPv4 ou IPv6
+ */
+export function isPrivateAddress(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+
+  if (isIP(normalized) === 4) {
+    return isPrivateIPv4(normalized);
+  }
+  if (isIP(normalized) !== 6) {
+    return true;
+  }
+
+  // IPv4 mapeado em IPv6 (::ffff:127.0.0.1 ou ::ffff:7f00:1)
+  const mapped = normalized.match(/^::ffff:(?:0:)?(.+)$/);
+  if (mapped) {
+    if (isIP(mapped[1]) === 4) return isPrivateIPv4(mapped[1]);
+    const groups = mapped[1].split(':').map(group => parseInt(group, 16));
+    if (groups.length === 2 && groups.every(group => !isNaN(group))) {
+      return isPrivateIPv4([groups[0] >> 8, groups[0] & 255, groups[1] >> 8, groups[1] & 255].join('.'));
+    }
+    return true;
+  }
+
+  return normalized === '::'
+    || normalized === '::1'
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized)
+    || normalized.startsWith('ff');
+}
+
+/**
+ * Garante que a URL usa http(s) e que o host resolve apenas para endereços públicos
+ * @param url URL informada pela escola
+ * @throws Error quando a URL é inválida ou aponta para um endereço interno
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('URL inválida');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('A URL deve usar http ou https');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dnsPromises.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new Error('Não foi possível resolver o endereço da URL');
+    }
+  }
+
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new Error(PRIVATE_ADDRESS_MESSAGE);
+  }
+}
+
+/**
+ * Versão booleana de assertPublicUrl, para validações de esquema
+ * @param url URL informada pela escola
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  try {
+    await assertPublicUrl(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Resolução usada na conexão: recusa o host se algum endereço não for público
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    const resolved = addresses as unknown as LookupAddress[];
+    if (error) {
+      return callback(error, '', 0);
+    }
+    if (!resolved.length || resolved.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(PRIVATE_ADDRESS_MESSAGE), '', 0);
+    }
+    if (options.all) {
+      return (callback as any)(null, resolved);
+    }
+    callback(null, resolved[0].address, resolved[0].family);
+  });
+};
+
+/**
+ * Agentes HTTP(S) que só conectam a endereços públicos; devem acompanhar
+ * assertPublicUrl, pois hosts informados como IP não passam pela resolução
+ */
+export const publicHttpAgents = {
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup }),
+};
@@ -99,6 +99,13 @@ export async function initializeQueueService(): Promise<void> {
   }
 }
 
+/**
+ * Indica se o serviço de filas foi inicializado (Redis configurado)
+ */
+export function isQueueServiceReady(): boolean {
+  return redisClient !== null;
+}
+
 /**
  * Obtém uma fila existente ou cria uma nova
  * @param queueName Nome da fila
@@ -411,6 +418,7 @@ export function setupDefaultProcessors(): void {
 
 export default {
   initializeQueueService,
+  isQueueServiceReady,
   getQueue,
   registerProcessor,
   addJob,
@@ -20,6 +20,15 @@ import { eq, and, desc } from 'drizzle-orm';
 import { cacheService } from './cacheService';
 import { logAction } from './securityService';
 import queueService from './queueService';
+import {
+  FieldRule,
+  TransformationPreview,
+  parseStepDefinition,
+  previewTransformation,
+  transformationRuleSetSchema,
+  transformRecord
+} from './transformationEngine';
+import { parseCronExpression } from './cronExpression';
 
 // Tempo de vida do cache (5 minutos)
 const CACHE_TTL = 60 * 5;
@@ -35,6 +44,14 @@ interface SchoolApiConfig {
   timeout?: number;
 }
 
+// Campos do mapeamento usados na transformação (salvos ou em edição)
+export interface FieldMappingDefinition {
+  edumatrikField: string;
+  externalField: string;
+  transformationFunction?: string | null;
+  isRequired?: boolean | null;
+}
+
 /**
  * Classe que gerencia integrações com sistemas escolares externos
  */
@@ -266,6 +283,11 @@ class SchoolIntegrationService {
    * @returns Módulo criado
    */
   async createModule(data: InsertSchoolSystemModule): Promise<SchoolSystemModule> {
+    if (data.syncSchedule) {
+      // Lança erro descritivo para expressões inválidas
+      parseCronExpression(data.syncSchedule);
+    }
+
     try {
       const [module] = await db.insert(schoolSystemModules).values(data).returning();
       
@@ -313,6 +335,9 @@ class SchoolIntegrationService {
    * @returns Mapeamento criado
    */
   async createFieldMapping(data: InsertSchoolSystemFieldMapping): Promise<SchoolSystemFieldMapping> {
+    // Funções de transformação inválidas são recusadas antes de gravar
+    this.validateFieldMappings([data]);
+
     try {
       const [mapping] = await db.insert(schoolSystemFieldMappings).values(data).returning();
       
@@ -558,25 +583,10 @@ class SchoolIntegrationService {
         status: 'pending'
       }).returning();
       
-      // Se for para executar imediatamente
+      // Execução imediata; sem ela, a tarefa pendente é despachada pelo
+      // agendador de sincronização quando chegar o horário
       if (options.executeNow) {
-        // Executar tarefa
         await this.executeSyncTask(task.id);
-      } else {
-        // Enfileirar para processamento assíncrono
-        await queueService.addJob('schoolSystemSync', {
-          type: 'schoolSystemSync',
-          taskId: task.id
-        }, {
-          delay: options.scheduledFor 
-            ? Math.max(0, options.scheduledFor.getTime() - Date.now()) 
-            : 0,
-          attempts: 3,
-          backoff: {
-            type: 'exponential',
-            delay: 5000
-          }
-        });
       }
       
       return task.id;
@@ -613,61 +623,8 @@ class SchoolIntegrationService {
         })
         .where(eq(schoolSystemSyncTasks.id, taskId));
         
-      // Obter sistema e módulo
-      const system = await this.getSchoolSystem(task.schoolSystemId);
-      const modules = await this.getModules(task.schoolSystemId);
-      const module = modules.find(m => m.moduleKey === task.moduleKey);
-      
-      if (!system) {
-        throw new Error(`Sistema com ID ${task.schoolSystemId} não encontrado`);
-      }
-      
-      if (!module) {
-        throw new Error(`Módulo ${task.moduleKey} não encontrado`);
-      }
-      
-      // Criar log de sincronização
-      const [syncLog] = await db.insert(schoolSystemSyncLogs).values({
-        schoolSystemId: task.schoolSystemId,
-        moduleKey: task.moduleKey,
-        operation: task.operation,
-        startedAt: new Date(),
-        status: 'success'
-      }).returning();
-      
-      // Executar operação específica
-      let result;
-      switch (task.operation) {
-        case 'import':
-          result = await this.importFromExternalSystem(task, system, module);
-          break;
-          
-        case 'export':
-          result = await this.exportToExternalSystem(task, system, module);
-          break;
-          
-        case 'update':
-          result = await this.updateExternalSystem(task, system, module);
-          break;
-          
-        case 'delete':
-          result = await this.deleteFromExternalSystem(task, system, module);
-          break;
-          
-        default:
-          throw new Error(`Operação desconhecida: ${task.operation}`);
-      }
+      await this.runSyncOperation(task);
       
-      // Atualizar log de sincronização
-      await db.update(schoolSystemSyncLogs)
-        .set({ 
-          completedAt: new Date(),
-          recordsProcessed: result.recordsProcessed || 0,
-          recordsSucceeded: result.recordsSucceeded || 0,
-          recordsFailed: result.recordsFailed || 0
-        })
-        .where(eq(schoolSystemSyncLogs.id, syncLog.id));
-        
       // Marcar tarefa como concluída
       await db.update(schoolSystemSyncTasks)
         .set({ 
@@ -676,12 +633,6 @@ class SchoolIntegrationService {
         })
         .where(eq(schoolSystemSyncTasks.id, taskId));
         
-      // Atualizar status do sistema
-      await this.updateSchoolSystem(task.schoolSystemId, {
-        lastSyncAt: new Date(),
-        status: 'active'
-      });
-      
       return {
         success: true,
         message: `Tarefa executada com sucesso: ${task.operation} para ${task.moduleKey}`
@@ -725,6 +676,87 @@ class SchoolIntegrationService {
     }
   }
   
+  /**
+   * Executa a operação de uma tarefa de sincronização no sistema externo,
+   * registrando o log da execução. Usada pela execução manual e pelo agendador
+   * @param task Tarefa de sincronização
+   * @returns Contadores de registros processados
+   */
+  async runSyncOperation(task: {
+    schoolSystemId: number;
+    moduleKey: string;
+    operation: string;
+    dataId?: string | null;
+    dataPayload?: any;
+  }): Promise<{ recordsProcessed: number; recordsSucceeded: number; recordsFailed: number }> {
+    // Obter sistema e módulo
+    const system = await this.getSchoolSystem(task.schoolSystemId);
+    const modules = await this.getModules(task.schoolSystemId);
+    const module = modules.find(m => m.moduleKey === task.moduleKey);
+    
+    if (!system) {
+      throw new Error(`Sistema com ID ${task.schoolSystemId} não encontrado`);
+    }
+    
+    if (!module) {
+      throw new Error(`Módulo ${task.moduleKey} não encontrado`);
+    }
+    
+    // Criar log de sincronização
+    const [syncLog] = await db.insert(schoolSystemSyncLogs).values({
+      schoolSystemId: task.schoolSystemId,
+      moduleKey: task.moduleKey,
+      operation: task.operation,
+      startedAt: new Date(),
+      status: 'success'
+    }).returning();
+    
+    // Executar operação específica
+    let result;
+    switch (task.operation) {
+      case 'import':
+        result = await this.importFromExternalSystem(task, system, module);
+        break;
+        
+      case 'export':
+        result = await this.exportToExternalSystem(task, system, module);
+        break;
+        
+      case 'update':
+        result = await this.updateExternalSystem(task, system, module);
+        break;
+        
+      case 'delete':
+        result = await this.deleteFromExternalSystem(task, system, module);
+        break;
+        
+      default:
+        throw new Error(`Operação desconhecida: ${task.operation}`);
+    }
+    
+    // Atualizar log de sincronização
+    await db.update(schoolSystemSyncLogs)
+      .set({ 
+        completedAt: new Date(),
+        recordsProcessed: result.recordsProcessed || 0,
+        recordsSucceeded: result.recordsSucceeded || 0,
+        recordsFailed: result.recordsFailed || 0
+      })
+      .where(eq(schoolSystemSyncLogs.id, syncLog.id));
+      
+    // Atualizar status do sistema
+    await this.updateSchoolSystem(task.schoolSystemId, {
+      lastSyncAt: new Date(),
+      status: 'active'
+    });
+    
+    return {
+      recordsProcessed: result.recordsProcessed || 0,
+      recordsSucceeded: result.recordsSucceeded || 0,
+      recordsFailed: result.recordsFailed || 0
+    };
+  }
+  
   /**
    * Importa dados de um sistema externo
    * @param task Tarefa de sincronização
@@ -816,109 +848,63 @@ class SchoolIntegrationService {
   }
   
   /**
-   * Transforma dados conforme mapeamento de campos
+   * Transforma dados conforme mapeamento de campos. Registros com erro em
+   * algum campo ficam de fora e contam como falha na sincronização
    * @param data Dados a transformar
    * @param mappings Mapeamentos de campo
    * @returns Dados transformados
    */
-  private transformData(data: any[], mappings: SchoolSystemFieldMapping[]): any[] {
+  private transformData(data: any[], mappings: FieldMappingDefinition[]): any[] {
+    const rules = this.getFieldRules(mappings);
     const result = [];
-    
-    // Criar mapa de campos para facilitar o acesso
-    const fieldMap = mappings.reduce((map, mapping) => {
-      map[mapping.externalField] = {
-        edumatrikField: mapping.edumatrikField,
-        transformationFunction: mapping.transformationFunction
-      };
-      return map;
-    }, {});
-    
-    // Processar cada item
+
     for (const item of data) {
-      try {
-        const transformed = {};
-        
-        // Mapear campos
-        for (const [externalField, fieldInfo] of Object.entries(fieldMap)) {
-          // Verificar se existe transformação
-          if (fieldInfo.transformationFunction) {
-            // Aplicar função de transformação
-            transformed[fieldInfo.edumatrikField] = this.applyTransformation(
-              item[externalField],
-              fieldInfo.transformationFunction
-            );
-          } else {
-            // Mapeamento direto
-            transformed[fieldInfo.edumatrikField] = item[externalField];
-          }
-        }
-        
-        result.push(transformed);
-      } catch (error) {
-        console.error('Erro ao transformar item:', error, item);
-        // Continua para o próximo item
+      const { output, errors } = transformRecord(item, rules);
+      if (errors.length > 0) {
+        console.error('Erro ao transformar item:', errors, item);
+        continue;
       }
+      result.push(output);
     }
-    
+
     return result;
   }
-  
+
   /**
-   * Aplica uma função de transformação a um valor
-   * @param value Valor a transformar
-   * @param functionName Nome da função
-   * @returns Valor transformado
+   * Recusa mapeamentos com função de transformação desconhecida ou passos inválidos
+   * @param mappings Mapeamentos a gravar
    */
-  private applyTransformation(value: any, functionName: string): any {
-    // Implementar funções de transformação comuns
-    switch (functionName) {
-      case 'toUpperCase':
-        return typeof value === 'string' ? value.toUpperCase() : value;
-        
-      case 'toLowerCase':
-        return typeof value === 'string' ? value.toLowerCase() : value;
-        
-      case 'formatDate':
-        // Formatar data para padrão brasileiro
-        return value instanceof Date 
-          ? value.toLocaleDateString('pt-BR') 
-          : value;
-          
-      case 'formatCurrency':
-        // Formatar valor como moeda
-        return typeof value === 'number' 
-          ? value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) 
-          : value;
-          
-      case 'formatCpf':
-        // Formatar CPF (000.000.000-00)
-        if (typeof value === 'string') {
-          const cleaned = value.replace(/\D/g, '');
-          if (cleaned.length === 11) {
-            return cleaned.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
-          }
-        }
-        return value;
-        
-      case 'formatPhone':
-        // Formatar telefone
-        if (typeof value === 'string') {
-          const cleaned = value.replace(/\D/g, '');
-          if (cleaned.length === 11) {
-            return cleaned.replace(/(\d{2})(\d{5})(\d{4})/, '($1) $2-$3');
-          } else if (cleaned.length === 10) {
-            return cleaned.replace(/(\d{2})(\d{4})(\d{4})/, '($1) $2-$3');
-          }
-        }
-        return value;
-        
-      default:
-        // Função desconhecida
-        console.warn(`Função de transformação desconhecida: ${functionName}`);
-        return value;
-    }
+  validateFieldMappings(mappings: FieldMappingDefinition[]): void {
+    this.getFieldRules(mappings, true);
   }
-  
+
+  /**
+   * Converte os mapeamentos de campo em regras do motor de transformação.
+   * O campo externo aceita caminho aninhado e a função de transformação
+   * aceita um nome conhecido (toUpperCase, formatCpf...) ou passos em JSON
+   * @param mappings Mapeamentos de campo
+   * @param strict Recusar funções desconhecidas (ao salvar)
+   */
+  private getFieldRules(mappings: FieldMappingDefinition[], strict: boolean = false): FieldRule[] {
+    return transformationRuleSetSchema.parse(mappings.map(mapping => ({
+      target: mapping.edumatrikField,
+      source: mapping.externalField,
+      steps: parseStepDefinition(mapping.transformationFunction, { strict }),
+      required: mapping.isRequired ?? false
+    })));
+  }
+
+  /**
+   * Executa registros de exemplo pelos mapeamentos sem gravar dados, para
+   * conferência antes de ativar a sincronização
+   * @param mappings Mapeamentos salvos ou em edição
+   * @param samples Registro ou lista de registros do sistema externo
+   * @returns Entrada, saída e erros por registro
+   */
+  previewFieldMappings(mappings: FieldMappingDefinition[], samples: any): TransformationPreview[] {
+    return previewTransformation(samples, this.getFieldRules(mappings));
+  }
+
   /**
    * Obtém o endpoint específico para um módulo e operação
    * @param module Módulo do sistema
@@ -0,0 +1,486 @@
+/**
+ * Webhooks de saída das escolas
+ * Entrega os eventos de domínio assinados pela escola em schools.webhook_url,
+ * em JSON assinado com HMAC-SHA256 (cabeçalho X-EduMatrik-Signature com
+ * timestamp), mantendo o registro de cada entrega com o código de resposta e
+ * novas tentativas com backoff exponencial. O corpo das respostas não é guardado
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { assertPublicUrl, publicHttpAgents } from './publicUrlGuard';
+import {
+  DOMAIN_EVENT_TYPES,
+  DomainEvent,
+  DomainEventType,
+  domainEventService,
+  getDeliveryRetryDelay
+} from './domainEventService';
+
+export const TEST_EVENT_TYPE = 'webhook.test';
+
+const DELIVERY_TIMEOUT = 10 * 1000;
+const MAX_ATTEMPTS = 8;
+const PROCESS_INTERVAL = 30 * 1000;
+const PROCESS_BATCH_SIZE = 20;
+
+// Entregas em envio há mais tempo são consideradas interrompidas
+const STALE_SENDING_MINUTES = 10;
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+export interface SchoolWebhookSettings {
+  schoolId: number;
+  webhookUrl: string | null;
+  events: DomainEventType[];
+  secret: string | null;
+  secretRotatedAt: Date | null;
+  availableEvents: DomainEventType[];
+}
+
+export interface WebhookDelivery {
+  id: number;
+  schoolId: number;
+  eventId: string;
+  eventType: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Assinatura HMAC-SHA256 de "<timestamp>.<corpo>"
+ * @param secret Segredo de assinatura da escola
+ * @param timestamp Segundos desde a época Unix
+ * @param body Corpo JSON exatamente como enviado
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Valor do cabeçalho X-EduMatrik-Signature: "t=<timestamp>,v1=<assinatura>"
+ */
+export function buildSignatureHeader(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+class SchoolWebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Cria as tabelas de configuração e do registro de entregas. O segredo fica
+   * fora de schools, cuja leitura é pública
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS school_webhook_settings (
+        school_id INTEGER PRIMARY KEY,
+        secret TEXT NOT NULL,
+        events JSONB NOT NULL DEFAULT '[]',
+        secret_rotated_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS school_webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        duration_ms INTEGER,
+        next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        delivered_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (school_id, event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_school_webhook_deliveries_pending
+        ON school_webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+      CREATE INDEX IF NOT EXISTS idx_school_webhook_deliveries_school
+        ON school_webhook_deliveries(school_id, created_at DESC);
+
+      ALTER TABLE IF EXISTS school_webhook_deliveries DROP COLUMN IF EXISTS response_body;
+    `);
+  }
+
+  /**
+   * Assina os eventos de domínio; deve ser chamado antes de iniciar o despacho
+   */
+  registerEventSubscribers(): void {
+    domainEventService.subscribe('school-webhooks', { eventTypes: '*' }, event => this.handleDomainEvent(event));
+  }
+
+  /**
+   * Inicia o reenvio periódico das entregas pendentes
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        console.error('[SchoolWebhooks] Erro ao processar entregas:', error);
+      });
+    }, PROCESS_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Configuração de webhook da escola
+   * @param schoolId ID da escola
+   */
+  async getSettings(schoolId: number): Promise<SchoolWebhookSettings> {
+    const [row] = await db.execute(`
+      SELECT s.id, s.webhook_url, w.secret, w.events, w.secret_rotated_at
+      FROM schools s
+      LEFT JOIN school_webhook_settings w ON w.school_id = s.id
+      WHERE s.id = $1
+    `, [schoolId]);
+
+    if (!row) {
+      throw new Error('Escola não encontrada');
+    }
+
+    return {
+      schoolId,
+      webhookUrl: row.webhook_url || null,
+      events: Array.isArray(row.events) ? row.events : [],
+      secret: row.secret || null,
+      secretRotatedAt: row.secret_rotated_at || null,
+      availableEvents: DOMAIN_EVENT_TYPES,
+    };
+  }
+
+  /**
+   * Atualiza a URL e os eventos assinados. O segredo é gerado na primeira configuração
+   * @param schoolId ID da escola
+   * @param data URL (null desativa) e tipos de evento
+   * @param userId Usuário responsável
+   */
+  async updateSettings(
+    schoolId: number,
+    data: { webhookUrl: string | null; events: DomainEventType[] },
+    userId: number
+  ): Promise<SchoolWebhookSettings> {
+    const [school] = await db.execute(`
+      UPDATE schools SET webhook_url = $2, updated_at = NOW() WHERE id = $1 RETURNING id
+    `, [schoolId, data.webhookUrl]);
+
+    if (!school) {
+      throw new Error('Escola não encontrada');
+    }
+
+    await db.execute(`
+      INSERT INTO school_webhook_settings (school_id, secret, events)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (school_id) DO UPDATE SET events = EXCLUDED.events, updated_at = NOW()
+    `, [schoolId, generateSecret(), JSON.stringify(data.events)]);
+
+    await logAction(userId, 'school_webhook_updated', 'schools', String(schoolId), {
+      webhookUrl: data.webhookUrl,
+      events: data.events
+    });
+
+    return this.getSettings(schoolId);
+  }
+
+  /**
+   * Gera um novo segredo de assinatura; o anterior deixa de valer imediatamente
+   * @param schoolId ID da escola
+   * @param userId Usuário responsável
+   */
+  async rotateSecret(schoolId: number, userId: number): Promise<SchoolWebhookSettings> {
+    await db.execute(`
+      INSERT INTO school_webhook_settings (school_id, secret, secret_rotated_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (school_id) DO UPDATE SET
+        secret = EXCLUDED.secret,
+        secret_rotated_at = NOW(),
+        updated_at = NOW()
+    `, [schoolId, generateSecret()]);
+
+    await logAction(userId, 'school_webhook_secret_rotated', 'schools', String(schoolId), {});
+
+    return this.getSettings(schoolId);
+  }
+
+  /**
+   * Enfileira a entrega de um evento de domínio para a escola que o assina;
+   * o envio fica com processDueDeliveries
+   * @param event Evento de domínio
+   * @returns Entrega criada, ou null quando a escola não assina o evento
+   */
+  async handleDomainEvent(event: DomainEvent): Promise<WebhookDelivery | null> {
+    if (!event.schoolId) return null;
+
+    const [settings] = await db.execute(`
+      SELECT s.webhook_url, w.events
+      FROM schools s
+      JOIN school_webhook_settings w ON w.school_id = s.id
+      WHERE s.id = $1 AND COALESCE(s.webhook_url, '') <> ''
+    `, [event.schoolId]);
+
+    if (!settings || !Array.isArray(settings.events) || !settings.events.includes(event.type)) {
+      return null;
+    }
+
+    const eventId = `evt_${event.id}`;
+    const [delivery] = await db.execute(`
+      INSERT INTO school_webhook_deliveries (school_id, event_id, event_type, url, payload)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (school_id, event_id) DO NOTHING
+      RETURNING *
+    `, [
+      event.schoolId,
+      eventId,
+      event.type,
+      settings.webhook_url,
+      JSON.stringify({
+        id: eventId,
+        type: event.type,
+        createdAt: new Date(event.occurredAt).toISOString(),
+        schoolId: event.schoolId,
+        data: event.payload,
+      })
+    ]);
+
+    return delivery ? this.mapDelivery(delivery) : null;
+  }
+
+  /**
+   * Envia um evento de teste para a URL configurada e aguarda a resposta
+   * @param schoolId ID da escola
+   * @param userId Usuário responsável
+   */
+  async sendTestEvent(schoolId: number, userId: number): Promise<WebhookDelivery> {
+    const settings = await this.getSettings(schoolId);
+    if (!settings.webhookUrl || !settings.secret) {
+      throw new Error('Configure a URL do webhook antes de enviar um evento de teste');
+    }
+
+    const eventId = `test_${crypto.randomBytes(8).toString('hex')}`;
+    const [delivery] = await db.execute(`
+      INSERT INTO school_webhook_deliveries (school_id, event_id, event_type, url, payload)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `, [
+      schoolId,
+      eventId,
+      TEST_EVENT_TYPE,
+      settings.webhookUrl,
+      JSON.stringify({
+        id: eventId,
+        type: TEST_EVENT_TYPE,
+        createdAt: new Date().toISOString(),
+        schoolId,
+        data: { message: 'Evento de teste do EduMatrik' },
+      })
+    ]);
+
+    if (!delivery) {
+      throw new Error('Não foi possível registrar o evento de teste');
+    }
+
+    await logAction(userId, 'school_webhook_test', 'schools', String(schoolId), { eventId });
+
+    const result = await this.deliver(delivery.id);
+    if (!result) {
+      throw new Error('Não foi possível enviar o evento de teste');
+    }
+    return result;
+  }
+
+  /**
+   * Envia uma entrega pendente. Respostas 2xx concluem a entrega; demais
+   * respostas e erros de rede geram nova tentativa até o limite. URLs que
+   * resolvem para endereços internos são recusadas como erro de envio
+   * @param deliveryId ID da entrega
+   * @returns Entrega atualizada, ou null se já estava sendo enviada
+   */
+  async deliver(deliveryId: number): Promise<WebhookDelivery | null> {
+    const [delivery] = await db.execute(`
+      UPDATE school_webhook_deliveries d
+      SET status = 'sending', updated_at = NOW()
+      FROM school_webhook_settings w
+      WHERE d.id = $1 AND d.status = 'pending' AND w.school_id = d.school_id
+      RETURNING d.*, w.secret
+    `, [deliveryId]);
+
+    if (!delivery) return null;
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      await assertPublicUrl(delivery.url);
+      const response = await axios.post(delivery.url, body, {
+        ...publicHttpAgents,
+        timeout: DELIVERY_TIMEOUT,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        responseType: 'stream',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'EduMatrik-Webhooks/1.0',
+          'X-EduMatrik-Event': delivery.event_type,
+          'X-EduMatrik-Event-Id': delivery.event_id,
+          'X-EduMatrik-Delivery': String(delivery.id),
+          'X-EduMatrik-Timestamp': String(timestamp),
+          'X-EduMatrik-Signature': buildSignatureHeader(delivery.secret, timestamp, body),
+        },
+      });
+
+      responseStatus = response.status;
+      response.data?.destroy?.();
+      if (response.status < 200 || response.status >= 300) {
+        error = `Resposta HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : 'Erro desconhecido';
+    }
+
+    const succeeded = error === null;
+    const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+    const status: WebhookDeliveryStatus = succeeded ? 'delivered' : exhausted ? 'failed' : 'pending';
+    const nextAttemptAt = status === 'pending' ? new Date(Date.now() + getDeliveryRetryDelay(attempts)) : null;
+
+    const [updated] = await db.execute(`
+      UPDATE school_webhook_deliveries
+      SET status = $2,
+        attempts = $3,
+        response_status = $4,
+        error = $5,
+        duration_ms = $6,
+        next_attempt_at = COALESCE($7, next_attempt_at),
+        delivered_at = CASE WHEN $2 = 'delivered' THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [delivery.id, status, attempts, responseStatus, error, Date.now() - startedAt, nextAttemptAt]);
+
+    return updated ? this.mapDelivery(updated) : null;
+  }
+
+  /**
+   * Envia as entregas pendentes cujo horário de nova tentativa chegou
+   * @returns Quantidade de entregas processadas
+   */
+  async processDueDeliveries(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      await db.execute(`
+        UPDATE school_webhook_deliveries SET status = 'pending', updated_at = NOW()
+        WHERE status = 'sending' AND updated_at < NOW() - ($1 || ' minutes')::interval
+      `, [STALE_SENDING_MINUTES]);
+
+      const due = await db.execute(`
+        SELECT id FROM school_webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at, id
+        LIMIT $1
+      `, [PROCESS_BATCH_SIZE]);
+
+      for (const delivery of due) {
+        await this.deliver(delivery.id);
+      }
+
+      return due.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Registro de entregas da escola
+   * @param schoolId ID da escola
+   * @param filters Estado e paginação
+   */
+  async listDeliveries(schoolId: number, filters: { status?: string; limit?: number; offset?: number } = {}): Promise<WebhookDelivery[]> {
+    const rows = await db.execute(`
+      SELECT * FROM school_webhook_deliveries
+      WHERE school_id = $1 AND ($2::text IS NULL OR status = $2)
+      ORDER BY created_at DESC, id DESC
+      LIMIT $3 OFFSET $4
+    `, [schoolId, filters.status ?? null, Math.min(filters.limit || 50, 200), filters.offset || 0]);
+
+    return rows.map((row: any) => this.mapDelivery(row));
+  }
+
+  /**
+   * Reenvia uma entrega, inclusive as que esgotaram as tentativas
+   * @param schoolId ID da escola
+   * @param deliveryId ID da entrega
+   */
+  async redeliver(schoolId: number, deliveryId: number): Promise<WebhookDelivery> {
+    const [delivery] = await db.execute(`
+      UPDATE school_webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND school_id = $2 AND status IN ('failed', 'delivered', 'pending')
+      RETURNING id
+    `, [deliveryId, schoolId]);
+
+    if (!delivery) {
+      throw new Error('Entrega não encontrada');
+    }
+
+    const result = await this.deliver(delivery.id);
+    if (!result) {
+      throw new Error('Entrega já está sendo enviada');
+    }
+    return result;
+  }
+
+  private mapDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      url: row.url,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.response_status,
+      error: row.error,
+      durationMs: row.duration_ms,
+      nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : null,
+      deliveredAt: row.delivered_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const schoolWebhookService = new SchoolWebhookService();
+export default schoolWebhookService;
@@ -0,0 +1,789 @@
+/**
+ * Agendador de sincronizações de integrações
+ * Lê as expressões cron dos módulos de sistemas escolares e dos mapeamentos de
+ * sistemas legados, cria as tarefas de sincronização devidas e as executa pela
+ * fila de integrações respeitando prioridade, tentativas e backoff exponencial.
+ * Cada módulo tem no máximo uma sincronização em andamento
+ */
+
+import { Job } from 'bull';
+import { db } from '../db';
+import { logAction } from './securityService';
+import queueService, { QueueType } from './queueService';
+import { schoolIntegrationService } from './schoolIntegrationService';
+import { legacySystemService } from './legacySystemService';
+import { getNextRun, getNextRuns, parseCronExpression } from './cronExpression';
+import { DomainEvent, domainEventService } from './domainEventService';
+
+const SCHEDULER_INTERVAL = 60 * 1000;
+const TASK_JOB_TYPE = 'school-system-sync';
+const LEGACY_JOB_TYPE = 'legacy-sync';
+
+// Backoff exponencial entre tentativas: 1, 2, 4, 8... minutos
+const RETRY_BASE_DELAY = 60 * 1000;
+
+// Execuções sem conclusão após esse tempo são consideradas interrompidas
+const STALE_RUN_MINUTES = 120;
+
+// Tarefas despachadas por ciclo do agendador
+const DISPATCH_BATCH_SIZE = 50;
+
+// Prioridade padrão das tarefas disparadas por eventos de domínio
+const EVENT_TASK_PRIORITY = 8;
+
+// Módulos em tempo real atendidos por tipo de agregado, salvo a lista
+// "events" nas configurações do módulo
+const EVENT_MODULE_KEYS: Record<string, string[]> = {
+  enrollment: ['enrollments'],
+  document: ['documents'],
+  payment: ['payments', 'financial'],
+  lead: ['leads'],
+};
+
+export type SyncTaskTrigger = 'manual' | 'schedule' | 'event';
+
+export interface ScheduleInfo {
+  syncSchedule: string | null;
+  lastSyncAt: Date | null;
+  nextSyncAt: Date | null;
+  upcomingRuns: Date[];
+  scheduleError: string | null;
+}
+
+export interface ModuleScheduleInfo extends ScheduleInfo {
+  moduleKey: string;
+  moduleName: string;
+  syncType: string | null;
+  active: boolean;
+  runningTaskId: number | null;
+  lastTask: {
+    id: number;
+    status: string;
+    triggeredBy: SyncTaskTrigger;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    completedAt: Date | null;
+  } | null;
+}
+
+export interface LegacyScheduleInfo extends ScheduleInfo {
+  mappingId: number;
+  edumatrikEntity: string;
+  legacyEntity: string;
+  direction: string;
+  active: boolean;
+  running: boolean;
+  lastStatus: string | null;
+}
+
+/**
+ * Calcula o atraso da próxima tentativa
+ * @param attempts Tentativas já realizadas
+ */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+/**
+ * Converte a prioridade da tarefa (1-10, maior é mais urgente) na prioridade
+ * da fila (1 é a mais alta)
+ */
+export function toQueuePriority(priority: number | null | undefined): number {
+  const value = Math.min(10, Math.max(1, priority || 5));
+  return 11 - value;
+}
+
+class SyncSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Adiciona as colunas de agendamento e os índices de controle de concorrência
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      ALTER TABLE IF EXISTS school_system_modules
+        ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP;
+
+      ALTER TABLE IF EXISTS school_system_sync_tasks
+        ADD COLUMN IF NOT EXISTS triggered_by TEXT NOT NULL DEFAULT 'manual',
+        ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP;
+
+      ALTER TABLE IF EXISTS legacy_data_mappings
+        ADD COLUMN IF NOT EXISTS sync_schedule TEXT,
+        ADD COLUMN IF NOT EXISTS last_sync_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS realtime BOOLEAN NOT NULL DEFAULT false;
+
+      -- Uma tarefa por horário agendado do módulo
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_tasks_schedule_slot
+        ON school_system_sync_tasks(school_system_id, module_key, scheduled_for)
+        WHERE triggered_by = 'schedule';
+
+      -- Impede execuções sobrepostas do mesmo módulo
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_tasks_running_module
+        ON school_system_sync_tasks(school_system_id, module_key)
+        WHERE status = 'in_progress';
+
+      CREATE INDEX IF NOT EXISTS idx_sync_tasks_pending
+        ON school_system_sync_tasks(status, scheduled_for)
+        WHERE status = 'pending';
+    `);
+  }
+
+  /**
+   * Registra os processadores da fila de integrações
+   */
+  registerQueueProcessors(): void {
+    queueService.registerProcessor(
+      QueueType.INTEGRATIONS,
+      TASK_JOB_TYPE,
+      async (job: Job<{ type: string; taskId: number }>) => {
+        await this.runTask(job.data.taskId, true);
+        return { success: true };
+      },
+      { concurrency: 2 }
+    );
+
+    queueService.registerProcessor(
+      QueueType.INTEGRATIONS,
+      LEGACY_JOB_TYPE,
+      async (job: Job<{ type: string; mappingId: number; direction?: 'export' }>) => {
+        await this.runLegacyMapping(job.data.mappingId, job.data.direction);
+        return { success: true };
+      }
+    );
+  }
+
+  /**
+   * Assina os eventos de domínio que alimentam as integrações em tempo real
+   */
+  registerEventSubscribers(): void {
+    domainEventService.subscribe('integrations.realtime', { eventTypes: '*' }, event => this.handleDomainEvent(event));
+  }
+
+  /**
+   * Repassa um evento de domínio aos módulos em tempo real (syncType
+   * "realtime") e aos mapeamentos legados com exportação em tempo real da escola
+   * @param event Evento de domínio
+   * @returns Quantidade de tarefas e exportações disparadas
+   */
+  async handleDomainEvent(event: DomainEvent): Promise<number> {
+    if (!event.schoolId) return 0;
+
+    const modules = await db.execute(`
+      SELECT m.school_system_id, m.module_key, m.settings
+      FROM school_system_modules m
+      JOIN school_systems s ON s.id = m.school_system_id
+      WHERE s.school_id = $1
+        AND s.status = 'active'
+        AND m.active = true
+        AND m.sync_type = 'realtime'
+    `, [event.schoolId]);
+
+    let triggered = 0;
+
+    for (const module of modules) {
+      const settings = this.parseSettings(module.settings);
+      const matches = Array.isArray(settings.events)
+        ? settings.events.includes(event.type)
+        : (EVENT_MODULE_KEYS[event.aggregateType] || []).includes(module.module_key);
+
+      if (!matches) continue;
+
+      // Nova entrega do mesmo evento não duplica a tarefa
+      const [task] = await db.execute(`
+        INSERT INTO school_system_sync_tasks
+          (school_system_id, module_key, operation, priority, status, data_id, data_payload, scheduled_for, triggered_by, max_attempts)
+        SELECT $1, $2, $3, $4, 'pending', $5, $6, NOW(), 'event', $7
+        WHERE NOT EXISTS (
+          SELECT 1 FROM school_system_sync_tasks
+          WHERE school_system_id = $1 AND module_key = $2 AND triggered_by = 'event'
+            AND data_payload::jsonb -> 'event' ->> 'id' = $8
+        )
+        RETURNING id
+      `, [
+        module.school_system_id,
+        module.module_key,
+        event.type.endsWith('.created') ? 'export' : 'update',
+        settings.syncPriority || EVENT_TASK_PRIORITY,
+        event.aggregateId,
+        JSON.stringify({ event: { id: event.id, type: event.type, payload: event.payload } }),
+        settings.syncMaxAttempts || 3,
+        String(event.id)
+      ]);
+      if (task) triggered++;
+    }
+
+    if (triggered > 0) {
+      await this.dispatchPendingTasks();
+    }
+
+    const mappings = await db.execute(`
+      SELECT m.id
+      FROM legacy_data_mappings m
+      JOIN legacy_systems s ON s.id = m.legacy_system_id
+      WHERE s.school_id = $1
+        AND s.active = true
+        AND m.active = true
+        AND m.realtime = true
+        AND m.mapping_direction IN ('export', 'bidirectional')
+        AND regexp_replace(lower(m.edumatrik_entity), 's$', '') = $2
+    `, [event.schoolId, event.aggregateType]);
+
+    // A exportação é incremental: alterações que chegarem durante uma
+    // exportação em andamento seguem no próximo evento ou agendamento
+    for (const mapping of mappings) {
+      await this.enqueueLegacyMapping(mapping.id, 'export');
+      triggered++;
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Inicia o ciclo periódico do agendador
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Erro no agendador de sincronizações:', error);
+      });
+    }, SCHEDULER_INTERVAL);
+  }
+
+  /**
+   * Interrompe o ciclo periódico do agendador
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Executa um ciclo: recupera execuções interrompidas, cria as tarefas
+   * devidas pelos agendamentos e despacha as tarefas pendentes
+   * @param now Instante de referência
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    // Ciclos longos não se sobrepõem
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.recoverStaleTasks();
+      await this.materializeModuleSchedules(now);
+      await this.dispatchPendingTasks(now);
+      await this.runLegacySchedules(now);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Cria tarefas para os módulos cujo horário agendado chegou. Execuções
+   * perdidas (servidor parado) viram uma única tarefa
+   * @param now Instante de referência
+   * @returns Quantidade de tarefas criadas
+   */
+  async materializeModuleSchedules(now: Date = new Date()): Promise<number> {
+    const modules = await db.execute(`
+      SELECT m.id, m.school_system_id, m.module_key, m.settings, m.sync_schedule, m.next_sync_at
+      FROM school_system_modules m
+      JOIN school_systems s ON s.id = m.school_system_id
+      WHERE m.active = true
+        AND m.sync_type = 'scheduled'
+        AND m.sync_schedule IS NOT NULL
+        AND s.status IN ('active', 'configuring')
+        AND (m.next_sync_at IS NULL OR m.next_sync_at <= $1)
+    `, [now]);
+
+    let created = 0;
+
+    for (const module of modules) {
+      let nextRun: Date | null;
+      try {
+        nextRun = getNextRun(module.sync_schedule, now);
+      } catch (error) {
+        console.error(`[SyncScheduler] Agendamento inválido no módulo ${module.id}:`, error);
+        continue;
+      }
+
+      if (module.next_sync_at) {
+        const settings = this.parseSettings(module.settings);
+        const [task] = await db.execute(`
+          INSERT INTO school_system_sync_tasks
+            (school_system_id, module_key, operation, priority, status, data_payload, scheduled_for, triggered_by, max_attempts)
+          VALUES ($1, $2, $3, $4, 'pending', $5, $6, 'schedule', $7)
+          ON CONFLICT (school_system_id, module_key, scheduled_for) WHERE triggered_by = 'schedule' DO NOTHING
+          RETURNING id
+        `, [
+          module.school_system_id,
+          module.module_key,
+          settings.syncOperation === 'export' ? 'export' : 'import',
+          settings.syncPriority || 5,
+          JSON.stringify({ filters: settings.syncFilters || {} }),
+          module.next_sync_at,
+          settings.syncMaxAttempts || 3
+        ]);
+        if (task) created++;
+      }
+
+      // Primeira leitura do agendamento apenas calcula o próximo horário
+      await db.execute(`
+        UPDATE school_system_modules SET next_sync_at = $2 WHERE id = $1
+      `, [module.id, nextRun]);
+    }
+
+    return created;
+  }
+
+  /**
+   * Despacha tarefas pendentes cujo horário (e backoff) já chegou, uma por
+   * módulo e por ordem de prioridade, ignorando módulos com execução em andamento
+   * @param now Instante de referência
+   * @returns Quantidade de tarefas despachadas
+   */
+  async dispatchPendingTasks(now: Date = new Date()): Promise<number> {
+    const tasks = await db.execute(`
+      SELECT * FROM (
+        SELECT DISTINCT ON (t.school_system_id, t.module_key)
+          t.id, t.priority, t.attempts, t.max_attempts, t.scheduled_for
+        FROM school_system_sync_tasks t
+        WHERE t.status = 'pending'
+          AND (t.scheduled_for IS NULL OR t.scheduled_for <= $1)
+          AND (t.next_attempt_at IS NULL OR t.next_attempt_at <= $1)
+          AND NOT EXISTS (
+            SELECT 1 FROM school_system_sync_tasks other
+            WHERE other.school_system_id = t.school_system_id
+              AND other.module_key = t.module_key
+              AND other.status IN ('queued', 'in_progress')
+          )
+        ORDER BY t.school_system_id, t.module_key, t.priority DESC, t.scheduled_for NULLS FIRST, t.id
+      ) due
+      ORDER BY due.priority DESC, due.scheduled_for NULLS FIRST, due.id
+      LIMIT $2
+    `, [now, DISPATCH_BATCH_SIZE]);
+
+    let dispatched = 0;
+
+    for (const task of tasks) {
+      const [claimed] = await db.execute(`
+        UPDATE school_system_sync_tasks SET status = 'queued', updated_at = NOW()
+        WHERE id = $1 AND status = 'pending'
+        RETURNING id
+      `, [task.id]);
+      if (!claimed) continue;
+
+      dispatched++;
+      await this.dispatch(task);
+    }
+
+    return dispatched;
+  }
+
+  /**
+   * Executa uma tarefa despachada. Falhas com tentativas restantes voltam a
+   * aguardar com backoff exponencial; na fila, o erro é relançado para o retry
+   * @param taskId ID da tarefa
+   * @param viaQueue Execução pelo processador da fila
+   */
+  async runTask(taskId: number, viaQueue = false): Promise<void> {
+    // O índice único de execução em andamento impede a sobreposição por módulo
+    const [task] = await db.execute(`
+      UPDATE school_system_sync_tasks
+      SET status = 'in_progress', started_at = NOW(), attempts = COALESCE(attempts, 0) + 1,
+        next_attempt_at = NULL, updated_at = NOW()
+      WHERE id = $1 AND status IN ('queued', 'pending')
+      RETURNING *
+    `, [taskId]);
+
+    if (!task) {
+      const [current] = await db.execute(`SELECT status FROM school_system_sync_tasks WHERE id = $1`, [taskId]);
+      if (current && ['queued', 'pending'].includes(current.status)) {
+        // Outra execução do módulo em andamento: tenta de novo no próximo ciclo
+        await db.execute(`
+          UPDATE school_system_sync_tasks
+          SET status = 'pending', next_attempt_at = NOW() + INTERVAL '1 minute', updated_at = NOW()
+          WHERE id = $1 AND status = 'queued'
+        `, [taskId]);
+      }
+      return;
+    }
+
+    try {
+      await schoolIntegrationService.runSyncOperation({
+        schoolSystemId: task.school_system_id,
+        moduleKey: task.module_key,
+        operation: task.operation,
+        dataId: task.data_id,
+        dataPayload: task.data_payload,
+      });
+
+      await db.execute(`
+        UPDATE school_system_sync_tasks
+        SET status = 'completed', completed_at = NOW(), last_error = NULL, updated_at = NOW()
+        WHERE id = $1
+      `, [task.id]);
+
+      await db.execute(`
+        UPDATE school_system_modules SET last_sync_at = NOW()
+        WHERE school_system_id = $1 AND module_key = $2
+      `, [task.school_system_id, task.module_key]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      const exhausted = task.attempts >= (task.max_attempts || 3);
+
+      console.error(`[SyncScheduler] Falha na tarefa ${task.id} (tentativa ${task.attempts}):`, message);
+
+      await db.execute(`
+        UPDATE school_system_sync_tasks
+        SET status = $2, last_error = $3, next_attempt_at = $4, updated_at = NOW(),
+          completed_at = CASE WHEN $2 = 'failed' THEN NOW() ELSE completed_at END
+        WHERE id = $1
+      `, [
+        task.id,
+        exhausted ? 'failed' : viaQueue ? 'queued' : 'pending',
+        message,
+        exhausted ? null : new Date(Date.now() + getRetryDelay(task.attempts))
+      ]);
+
+      // Na fila, o próprio job é repetido com o backoff configurado
+      if (viaQueue && !exhausted) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Dispara as sincronizações de mapeamentos legados cujo horário chegou
+   * @param now Instante de referência
+   * @returns Quantidade de sincronizações disparadas
+   */
+  async runLegacySchedules(now: Date = new Date()): Promise<number> {
+    const mappings = await db.execute(`
+      SELECT m.id, m.sync_schedule, m.next_sync_at
+      FROM legacy_data_mappings m
+      JOIN legacy_systems s ON s.id = m.legacy_system_id
+      WHERE m.active = true
+        AND s.active = true
+        AND m.sync_schedule IS NOT NULL
+        AND (m.next_sync_at IS NULL OR m.next_sync_at <= $1)
+    `, [now]);
+
+    let started = 0;
+
+    for (const mapping of mappings) {
+      let nextRun: Date | null;
+      try {
+        nextRun = getNextRun(mapping.sync_schedule, now);
+      } catch (error) {
+        console.error(`[SyncScheduler] Agendamento inválido no mapeamento legado ${mapping.id}:`, error);
+        continue;
+      }
+
+      // Só quem avança o horário dispara a execução (vários servidores)
+      const [claimed] = await db.execute(`
+        UPDATE legacy_data_mappings SET next_sync_at = $2
+        WHERE id = $1 AND next_sync_at IS NOT DISTINCT FROM $3
+        RETURNING id
+      `, [mapping.id, nextRun, mapping.next_sync_at]);
+
+      if (!claimed || !mapping.next_sync_at) continue;
+
+      started++;
+      await this.enqueueLegacyMapping(mapping.id);
+    }
+
+    return started;
+  }
+
+  /**
+   * Envia a sincronização do mapeamento legado para a fila ou, sem ela,
+   * executa localmente em segundo plano
+   */
+  private async enqueueLegacyMapping(mappingId: number, direction?: 'export'): Promise<void> {
+    if (queueService.isQueueServiceReady()) {
+      try {
+        await queueService.addJob(QueueType.INTEGRATIONS, { type: LEGACY_JOB_TYPE, mappingId, direction }, {
+          attempts: 3,
+          backoff: { type: 'exponential', delay: RETRY_BASE_DELAY }
+        });
+        return;
+      } catch (error) {
+        console.warn(`[SyncScheduler] Fila indisponível, sincronizando mapeamento ${mappingId} localmente`);
+      }
+    }
+
+    this.runLegacyMapping(mappingId, direction).catch(error => {
+      console.error(`[SyncScheduler] Falha na sincronização do mapeamento legado ${mappingId}:`, error);
+    });
+  }
+
+  /**
+   * Sincroniza um mapeamento legado, a menos que a mesma entidade já esteja
+   * em sincronização
+   * @param mappingId ID do mapeamento
+   * @param direction Restringe à exportação (eventos em tempo real); por padrão
+   * usa a direção do mapeamento
+   */
+  async runLegacyMapping(mappingId: number, direction?: 'export'): Promise<void> {
+    const [mapping] = await db.execute(`
+      SELECT id, legacy_system_id, edumatrik_entity, mapping_direction
+      FROM legacy_data_mappings WHERE id = $1
+    `, [mappingId]);
+    if (!mapping) return;
+
+    const [running] = await db.execute(`
+      SELECT id FROM legacy_sync_history
+      WHERE legacy_system_id = $1 AND entity_type = $2 AND status = 'in_progress'
+        AND started_at > NOW() - ($3 || ' minutes')::interval
+      LIMIT 1
+    `, [mapping.legacy_system_id, mapping.edumatrik_entity, STALE_RUN_MINUTES]);
+
+    if (running) {
+      console.log(`[SyncScheduler] Sincronização de ${mapping.edumatrik_entity} já em andamento, execução ignorada`);
+      return;
+    }
+
+    const result = await legacySystemService.synchronize(
+      mapping.legacy_system_id,
+      mapping.edumatrik_entity,
+      direction || mapping.mapping_direction,
+      { executeNow: true }
+    );
+
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    if (!direction) {
+      await db.execute(`UPDATE legacy_data_mappings SET last_sync_at = NOW() WHERE id = $1`, [mappingId]);
+    }
+  }
+
+  /**
+   * Define o agendamento de um módulo de sistema escolar
+   * @param systemId ID do sistema escolar
+   * @param moduleKey Chave do módulo
+   * @param syncSchedule Expressão cron ou null para desativar
+   * @param userId Usuário responsável
+   */
+  async setModuleSchedule(systemId: number, moduleKey: string, syncSchedule: string | null, userId: number): Promise<ModuleScheduleInfo> {
+    const nextRun = syncSchedule ? getNextRun(syncSchedule) : null;
+
+    const [module] = await db.execute(`
+      UPDATE school_system_modules
+      SET sync_schedule = $3,
+        sync_type = CASE WHEN $3::text IS NULL THEN sync_type ELSE 'scheduled' END,
+        next_sync_at = $4,
+        updated_at = NOW()
+      WHERE school_system_id = $1 AND module_key = $2
+      RETURNING id
+    `, [systemId, moduleKey, syncSchedule, nextRun]);
+
+    if (!module) {
+      throw new Error('Módulo não encontrado');
+    }
+
+    await logAction(userId, 'sync_schedule_updated', 'school_system_modules', String(module.id), {
+      systemId,
+      moduleKey,
+      syncSchedule
+    });
+
+    const schedules = await this.getModuleSchedules(systemId);
+    return schedules.find(item => item.moduleKey === moduleKey)!;
+  }
+
+  /**
+   * Define o agendamento de um mapeamento de sistema legado
+   * @param systemId ID do sistema legado
+   * @param mappingId ID do mapeamento
+   * @param syncSchedule Expressão cron ou null para desativar
+   * @param userId Usuário responsável
+   */
+  async setLegacySchedule(systemId: number, mappingId: number, syncSchedule: string | null, userId: number): Promise<LegacyScheduleInfo> {
+    const nextRun = syncSchedule ? getNextRun(syncSchedule) : null;
+
+    const [mapping] = await db.execute(`
+      UPDATE legacy_data_mappings
+      SET sync_schedule = $3, next_sync_at = $4, updated_at = NOW()
+      WHERE id = $2 AND legacy_system_id = $1
+      RETURNING id
+    `, [systemId, mappingId, syncSchedule, nextRun]);
+
+    if (!mapping) {
+      throw new Error('Mapeamento não encontrado');
+    }
+
+    await logAction(userId, 'sync_schedule_updated', 'legacy_data_mappings', String(mappingId), {
+      systemId,
+      syncSchedule
+    });
+
+    const schedules = await this.getLegacySchedules(systemId);
+    return schedules.find(item => item.mappingId === mappingId)!;
+  }
+
+  /**
+   * Agendamentos dos módulos de um sistema escolar, com última e próximas execuções
+   * @param systemId ID do sistema escolar
+   */
+  async getModuleSchedules(systemId: number): Promise<ModuleScheduleInfo[]> {
+    const rows = await db.execute(`
+      SELECT m.module_key, m.module_name, m.sync_type, m.sync_schedule, m.active,
+        m.last_sync_at, m.next_sync_at,
+        running.id AS running_task_id,
+        last_task.id AS last_task_id, last_task.status AS last_task_status,
+        last_task.triggered_by AS last_task_triggered_by, last_task.attempts AS last_task_attempts,
+        last_task.max_attempts AS last_task_max_attempts, last_task.last_error AS last_task_error,
+        last_task.completed_at AS last_task_completed_at
+      FROM school_system_modules m
+      LEFT JOIN LATERAL (
+        SELECT id FROM school_system_sync_tasks
+        WHERE school_system_id = m.school_system_id AND module_key = m.module_key AND status = 'in_progress'
+        LIMIT 1
+      ) running ON true
+      LEFT JOIN LATERAL (
+        SELECT * FROM school_system_sync_tasks
+        WHERE school_system_id = m.school_system_id AND module_key = m.module_key
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+      ) last_task ON true
+      WHERE m.school_system_id = $1
+      ORDER BY m.module_name
+    `, [systemId]);
+
+    return rows.map((row: any) => ({
+      moduleKey: row.module_key,
+      moduleName: row.module_name,
+      syncType: row.sync_type,
+      active: row.active !== false,
+      runningTaskId: row.running_task_id ?? null,
+      lastTask: row.last_task_id ? {
+        id: row.last_task_id,
+        status: row.last_task_status,
+        triggeredBy: row.last_task_triggered_by,
+        attempts: row.last_task_attempts || 0,
+        maxAttempts: row.last_task_max_attempts || 3,
+        lastError: row.last_task_error,
+        completedAt: row.last_task_completed_at,
+      } : null,
+      ...this.describeSchedule(row.sync_schedule, row.last_sync_at, row.next_sync_at),
+    }));
+  }
+
+  /**
+   * Agendamentos dos mapeamentos de um sistema legado, com última e próximas execuções
+   * @param systemId ID do sistema legado
+   */
+  async getLegacySchedules(systemId: number): Promise<LegacyScheduleInfo[]> {
+    const rows = await db.execute(`
+      SELECT m.id, m.edumatrik_entity, m.legacy_entity, m.mapping_direction, m.active,
+        m.sync_schedule, m.last_sync_at, m.next_sync_at, last_run.status AS last_status
+      FROM legacy_data_mappings m
+      LEFT JOIN LATERAL (
+        SELECT status FROM legacy_sync_history
+        WHERE legacy_system_id = m.legacy_system_id AND entity_type = m.edumatrik_entity
+        ORDER BY started_at DESC
+        LIMIT 1
+      ) last_run ON true
+      WHERE m.legacy_system_id = $1
+      ORDER BY m.edumatrik_entity
+    `, [systemId]);
+
+    return rows.map((row: any) => ({
+      mappingId: row.id,
+      edumatrikEntity: row.edumatrik_entity,
+      legacyEntity: row.legacy_entity,
+      direction: row.mapping_direction,
+      active: row.active !== false,
+      running: row.last_status === 'in_progress',
+      lastStatus: row.last_status ?? null,
+      ...this.describeSchedule(row.sync_schedule, row.last_sync_at, row.next_sync_at),
+    }));
+  }
+
+  private describeSchedule(syncSchedule: string | null, lastSyncAt: Date | null, nextSyncAt: Date | null): ScheduleInfo {
+    const info: ScheduleInfo = {
+      syncSchedule,
+      lastSyncAt: lastSyncAt ?? null,
+      nextSyncAt: nextSyncAt ?? null,
+      upcomingRuns: [],
+      scheduleError: null,
+    };
+
+    if (syncSchedule) {
+      try {
+        parseCronExpression(syncSchedule);
+        info.upcomingRuns = getNextRuns(syncSchedule, 3);
+        info.nextSyncAt = info.nextSyncAt ?? info.upcomingRuns[0] ?? null;
+      } catch (error) {
+        info.scheduleError = error instanceof Error ? error.message : 'Expressão inválida';
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Envia a tarefa para a fila com a prioridade e as tentativas restantes;
+   * sem fila, executa no próprio processo
+   */
+  private async dispatch(task: { id: number; priority: number | null; attempts: number | null; max_attempts: number | null }): Promise<void> {
+    if (queueService.isQueueServiceReady()) {
+      try {
+        await queueService.addJob(QueueType.INTEGRATIONS, { type: TASK_JOB_TYPE, taskId: task.id }, {
+          priority: toQueuePriority(task.priority),
+          attempts: Math.max(1, (task.max_attempts || 3) - (task.attempts || 0)),
+          backoff: { type: 'exponential', delay: RETRY_BASE_DELAY }
+        });
+        return;
+      } catch (error) {
+        console.warn(`[SyncScheduler] Fila indisponível, executando tarefa ${task.id} localmente`);
+      }
+    }
+
+    setImmediate(() => {
+      this.runTask(task.id).catch(error => {
+        console.error(`[SyncScheduler] Erro ao executar tarefa ${task.id}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Devolve ao agendador tarefas presas: despachadas para uma fila que se
+   * perdeu ou interrompidas no meio da execução
+   */
+  private async recoverStaleTasks(): Promise<void> {
+    await db.execute(`
+      UPDATE school_system_sync_tasks
+      SET status = CASE WHEN COALESCE(attempts, 0) >= COALESCE(max_attempts, 3) THEN 'failed' ELSE 'pending' END,
+        last_error = COALESCE(last_error, 'Execução interrompida'),
+        updated_at = NOW()
+      WHERE (status = 'in_progress' AND started_at < NOW() - ($1 || ' minutes')::interval)
+        OR (status = 'queued' AND updated_at < NOW() - ($1 || ' minutes')::interval)
+    `, [STALE_RUN_MINUTES]);
+  }
+
+  private parseSettings(settings: any): Record<string, any> {
+    if (!settings) return {};
+    if (typeof settings === 'string') {
+      try {
+        return JSON.parse(settings);
+      } catch {
+        return {};
+      }
+    }
+    return settings;
+  }
+}
+
+export const syncSchedulerService = new SyncSchedulerService();
+export default syncSchedulerService;
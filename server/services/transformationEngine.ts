@@ -0,0 +1,530 @@
+/**
+ * Motor de regras de transformação para mapeamentos de integração
+ * Linguagem declarativa em JSON usada pelos mapeamentos de sistemas legados
+ * (legacy_data_mappings) e de sistemas escolares (school_system_field_mappings).
+ * As regras nunca executam código: cada passo é uma operação conhecida
+ */
+
+import { z } from 'zod';
+
+// Limites para que um mapeamento mal configurado não trave a sincronização
+const MAX_RULES = 200;
+const MAX_STEPS_PER_RULE = 20;
+const MAX_LOOKUP_ENTRIES = 1000;
+export const MAX_PREVIEW_SAMPLES = 20;
+
+const FORBIDDEN_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+/**
+ * Caminho em JSON no formato "responsavel.contatos[0].telefone"
+ */
+const pathSchema = z.string().min(1).max(200).refine(
+  path => parsePath(path).every(segment => !FORBIDDEN_SEGMENTS.includes(String(segment))),
+  { message: 'Caminho inválido' }
+);
+
+const conditionSchema = z.object({
+  // Campo do registro de origem; sem campo, compara o valor atual
+  field: pathSchema.optional(),
+  operator: z.enum(['eq', 'neq', 'in', 'notIn', 'empty', 'notEmpty', 'gt', 'gte', 'lt', 'lte', 'contains']),
+  value: z.any().optional(),
+});
+
+export const transformationStepSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('trim') }),
+  z.object({ op: z.literal('upper') }),
+  z.object({ op: z.literal('lower') }),
+  z.object({ op: z.literal('concat'), separator: z.string().max(20).default(' ') }),
+  z.object({ op: z.literal('split'), separator: z.string().min(1).max(20), index: z.number().int().optional() }),
+  z.object({ op: z.literal('replace'), search: z.string().min(1).max(100), replacement: z.string().max(100).default('') }),
+  z.object({
+    op: z.literal('date'),
+    from: z.string().max(40).default('iso'),
+    to: z.string().max(40).default('YYYY-MM-DD'),
+    validate: z.boolean().default(true),
+  }),
+  z.object({ op: z.literal('cpf'), format: z.enum(['digits', 'masked']).default('digits'), validate: z.boolean().default(true) }),
+  z.object({
+    op: z.literal('phone'),
+    format: z.enum(['e164', 'digits', 'masked']).default('e164'),
+    countryCode: z.string().regex(/^\d{1,3}$/).default('55'),
+    validate: z.boolean().default(true),
+  }),
+  z.object({ op: z.literal('number'), decimalSeparator: z.enum([',', '.']).optional() }),
+  z.object({ op: z.literal('boolean'), trueValues: z.array(z.string()).max(20).optional() }),
+  z.object({ op: z.literal('currency') }),
+  z.object({
+    op: z.literal('lookup'),
+    table: z.record(z.any()).refine(table => Object.keys(table).length <= MAX_LOOKUP_ENTRIES, { message: 'Tabela de conversão muito grande' }),
+    default: z.any().optional(),
+    caseSensitive: z.boolean().default(false),
+  }),
+  z.object({ op: z.literal('default'), value: z.any() }),
+  z.object({
+    op: z.literal('when'),
+    cases: z.array(z.object({ if: conditionSchema, then: z.any() })).min(1).max(20),
+    else: z.any().optional(),
+  }),
+  z.object({ op: z.literal('path'), path: pathSchema }),
+]);
+
+export const fieldRuleSchema = z.object({
+  // Campo de destino, aceita caminho aninhado
+  target: pathSchema,
+  // Origem: um caminho, vários caminhos (valor vira lista) ou um valor fixo
+  source: pathSchema.optional(),
+  sources: z.array(pathSchema).min(1).max(20).optional(),
+  value: z.any().optional(),
+  steps: z.array(transformationStepSchema).max(MAX_STEPS_PER_RULE).default([]),
+  default: z.any().optional(),
+  required: z.boolean().default(false),
+  // Regras de mapeamentos legados valem para a importação, salvo "export"
+  direction: z.enum(['import', 'export']).optional(),
+}).refine(rule => [rule.source, rule.sources, rule.value].filter(item => item !== undefined).length === 1, {
+  message: 'Informe exatamente uma origem: source, sources ou value',
+});
+
+export const transformationRuleSetSchema = z.array(fieldRuleSchema).max(MAX_RULES);
+
+export type TransformationStep = z.infer<typeof transformationStepSchema>;
+export type TransformationCondition = z.infer<typeof conditionSchema>;
+export type FieldRule = z.infer<typeof fieldRuleSchema>;
+
+export interface TransformationFieldError {
+  field: string;
+  message: string;
+}
+
+export interface TransformationResult {
+  output: Record<string, any>;
+  errors: TransformationFieldError[];
+}
+
+export interface TransformationPreview extends TransformationResult {
+  input: any;
+}
+
+/**
+ * Divide um caminho em segmentos: "a.b[0].c" -> ['a', 'b', 0, 'c']
+ */
+export function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+    if (match[1]) segments.push(match[1]);
+    match[2].replace(/\[(\d+)\]/g, (_, index) => {
+      segments.push(parseInt(index, 10));
+      return '';
+    });
+  }
+  return segments;
+}
+
+/**
+ * Lê um valor por caminho. Textos com JSON são interpretados no caminho,
+ * já que muitos sistemas legados gravam objetos serializados em colunas
+ */
+export function getPath(data: any, path: string): any {
+  let current = data;
+  for (const segment of parsePath(path)) {
+    if (typeof current === 'string' && /^\s*[[{]/.test(current)) {
+      try {
+        current = JSON.parse(current);
+      } catch {
+        return undefined;
+      }
+    }
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment as any];
+  }
+  return current;
+}
+
+/**
+ * Grava um valor por caminho, criando objetos e listas intermediários
+ */
+export function setPath(data: Record<string, any>, path: string, value: any): void {
+  const segments = parsePath(path);
+  if (segments.some(segment => FORBIDDEN_SEGMENTS.includes(String(segment)))) {
+    throw new Error(`Caminho inválido: ${path}`);
+  }
+
+  let current: any = data;
+  segments.forEach((segment, position) => {
+    if (position === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof segments[position + 1] === 'number' ? [] : {};
+    }
+    current = current[segment];
+  });
+}
+
+const isEmpty = (value: any) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const onlyDigits = (value: any) => String(value).replace(/\D/g, '');
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DATE_TOKENS = /YYYY|YY|MM|DD|HH|mm|ss/g;
+
+/**
+ * Extrai dia, mês e ano de um valor conforme o formato ("iso", "DD/MM/YYYY", ...)
+ */
+function parseDate(value: any, format: string): DateParts {
+  if (value instanceof Date) {
+    return {
+      year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate(),
+      hour: value.getHours(), minute: value.getMinutes(), second: value.getSeconds(),
+    };
+  }
+
+  const text = String(value).trim();
+  if (format === 'iso') {
+    const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) throw new Error(`Data inválida: ${text}`);
+    return {
+      year: +match[1], month: +match[2], day: +match[3],
+      hour: +(match[4] || 0), minute: +(match[5] || 0), second: +(match[6] || 0),
+    };
+  }
+
+  const tokens: string[] = [];
+  const escape = (literal: string) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let pattern = '';
+  let lastIndex = 0;
+  format.replace(DATE_TOKENS, (token, offset: number) => {
+    pattern += escape(format.substring(lastIndex, offset)) + `(\\d{${token === 'YYYY' ? 4 : 2}})`;
+    tokens.push(token);
+    lastIndex = offset + token.length;
+    return token;
+  });
+  pattern += escape(format.substring(lastIndex));
+
+  const match = text.match(new RegExp(`^${pattern}$`));
+  if (!match) throw new Error(`Data "${text}" fora do formato ${format}`);
+
+  const parts: DateParts = { year: 0, month: 1, day: 1, hour: 0, minute: 0, second: 0 };
+  tokens.forEach((token, index) => {
+    const number = parseInt(match[index + 1], 10);
+    if (token === 'YYYY') parts.year = number;
+    if (token === 'YY') parts.year = number + (number < 70 ? 2000 : 1900);
+    if (token === 'MM') parts.month = number;
+    if (token === 'DD') parts.day = number;
+    if (token === 'HH') parts.hour = number;
+    if (token === 'mm') parts.minute = number;
+    if (token === 'ss') parts.second = number;
+  });
+
+  if (parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > 31) {
+    throw new Error(`Data inválida: ${text}`);
+  }
+  return parts;
+}
+
+function formatDate(parts: DateParts, format: string): string {
+  const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+  if (format === 'iso') {
+    return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`;
+  }
+  return format.replace(DATE_TOKENS, token => ({
+    YYYY: pad(parts.year, 4),
+    YY: pad(parts.year % 100),
+    MM: pad(parts.month),
+    DD: pad(parts.day),
+    HH: pad(parts.hour),
+    mm: pad(parts.minute),
+    ss: pad(parts.second),
+  }[token] as string));
+}
+
+/**
+ * Valida os dígitos verificadores do CPF
+ */
+export function isValidCpf(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const check = (length: number) => {
+    const sum = digits.substring(0, length).split('').reduce((acc, digit, index) => acc + parseInt(digit) * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return check(9) === parseInt(digits[9]) && check(10) === parseInt(digits[10]);
+}
+
+function parseNumber(value: any, decimalSeparator?: ',' | '.'): number {
+  if (typeof value === 'number') return value;
+
+  let text = String(value).replace(/[^\d,.-]/g, '');
+  const separator = decimalSeparator || (text.lastIndexOf(',') > text.lastIndexOf('.') ? ',' : '.');
+  text = separator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  const number = parseFloat(text);
+  if (isNaN(number)) throw new Error(`Número inválido: ${value}`);
+  return number;
+}
+
+function evaluateCondition(condition: TransformationCondition, value: any, record: any): boolean {
+  const subject = condition.field ? getPath(record, condition.field) : value;
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return String(subject ?? '') === String(expected ?? '');
+    case 'neq':
+      return String(subject ?? '') !== String(expected ?? '');
+    case 'in':
+      return Array.isArray(expected) && expected.map(String).includes(String(subject));
+    case 'notIn':
+      return !Array.isArray(expected) || !expected.map(String).includes(String(subject));
+    case 'empty':
+      return isEmpty(subject);
+    case 'notEmpty':
+      return !isEmpty(subject);
+    case 'contains':
+      return String(subject ?? '').toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'gt':
+      return Number(subject) > Number(expected);
+    case 'gte':
+      return Number(subject) >= Number(expected);
+    case 'lt':
+      return Number(subject) < Number(expected);
+    case 'lte':
+      return Number(subject) <= Number(expected);
+  }
+}
+
+/**
+ * Aplica um passo de transformação ao valor atual
+ * @param value Valor atual
+ * @param step Passo da regra
+ * @param record Registro de origem completo (para condições)
+ */
+export function applyStep(value: any, step: TransformationStep, record: any): any {
+  // Passos que tratam valores vazios explicitamente
+  if (step.op === 'default') return isEmpty(value) ? step.value : value;
+  if (step.op === 'when') {
+    const matched = step.cases.find(item => evaluateCondition(item.if, value, record));
+    if (matched) return matched.then;
+    return step.else !== undefined ? step.else : value;
+  }
+  if (step.op === 'concat') {
+    const parts = Array.isArray(value) ? value : [value];
+    return parts.filter(part => !isEmpty(part)).map(part => String(part).trim()).join(step.separator);
+  }
+  if (step.op === 'lookup') {
+    const key = isEmpty(value) ? '' : String(value);
+    const entry = Object.entries(step.table).find(([candidate]) =>
+      step.caseSensitive ? candidate === key : candidate.toLowerCase() === key.toLowerCase()
+    );
+    if (entry) return entry[1];
+    return step.default !== undefined ? step.default : value;
+  }
+  if (step.op === 'path') return getPath(value, step.path);
+
+  if (isEmpty(value)) return value;
+
+  switch (step.op) {
+    case 'trim':
+      return typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value;
+    case 'upper':
+      return typeof value === 'string' ? value.toUpperCase() : value;
+    case 'lower':
+      return typeof value === 'string' ? value.toLowerCase() : value;
+    case 'split': {
+      const parts = String(value).split(step.separator).map(part => part.trim());
+      if (step.index === undefined) return parts;
+      return parts[step.index < 0 ? parts.length + step.index : step.index] ?? null;
+    }
+    case 'replace':
+      return String(value).split(step.search).join(step.replacement);
+    case 'date': {
+      let parts: DateParts;
+      try {
+        parts = parseDate(value, step.from);
+      } catch (error) {
+        if (step.validate) throw error;
+        return value;
+      }
+      return formatDate(parts, step.to);
+    }
+    case 'cpf': {
+      const digits = onlyDigits(value).padStart(11, '0');
+      if (!isValidCpf(digits)) {
+        if (step.validate) throw new Error(`CPF inválido: ${value}`);
+        return value;
+      }
+      return step.format === 'masked'
+        ? digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4')
+        : digits;
+    }
+    case 'phone': {
+      let digits = onlyDigits(value).replace(/^0+/, '');
+      if (digits.length === 12 || digits.length === 13) {
+        if (digits.startsWith(step.countryCode)) digits = digits.substring(step.countryCode.length);
+      }
+      if (digits.length !== 10 && digits.length !== 11) {
+        if (step.validate) throw new Error(`Telefone inválido: ${value}`);
+        return value;
+      }
+      if (step.format === 'digits') return digits;
+      if (step.format === 'masked') {
+        return digits.length === 11
+          ? digits.replace(/(\d{2})(\d{5})(\d{4})/, '($1) $2-$3')
+          : digits.replace(/(\d{2})(\d{4})(\d{4})/, '($1) $2-$3');
+      }
+      return `+${step.countryCode}${digits}`;
+    }
+    case 'number':
+      return parseNumber(value, step.decimalSeparator);
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const trueValues = (step.trueValues || ['1', 'true', 's', 'sim', 'y', 'yes', 'ativo']).map(item => item.toLowerCase());
+      return trueValues.includes(String(value).trim().toLowerCase());
+    }
+    case 'currency':
+      return parseNumber(value).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  }
+}
+
+/**
+ * Transforma um registro de origem conforme as regras. Erros são coletados
+ * por campo para que o registro possa ser rejeitado ou exibido na prévia
+ * @param record Registro de origem
+ * @param rules Regras de campo já validadas
+ */
+export function transformRecord(record: any, rules: FieldRule[]): TransformationResult {
+  const output: Record<string, any> = {};
+  const errors: TransformationFieldError[] = [];
+
+  for (const rule of rules) {
+    try {
+      let value = rule.value !== undefined
+        ? rule.value
+        : rule.sources
+          ? rule.sources.map(path => getPath(record, path))
+          : getPath(record, rule.source as string);
+
+      for (const step of rule.steps) {
+        value = applyStep(value, step, record);
+      }
+
+      if (isEmpty(value) && rule.default !== undefined) {
+        value = rule.default;
+      }
+      if (isEmpty(value) && rule.required) {
+        throw new Error('Campo obrigatório sem valor');
+      }
+      if (value !== undefined) {
+        setPath(output, rule.target, value);
+      }
+    } catch (error) {
+      errors.push({
+        field: rule.target,
+        message: error instanceof Error ? error.message : 'Erro desconhecido',
+      });
+    }
+  }
+
+  return { output, errors };
+}
+
+/**
+ * Executa amostras pelas regras sem gravar nada (prévia do mapeamento)
+ * @param samples Registro ou lista de registros de exemplo
+ * @param rules Regras de campo já validadas
+ */
+export function previewTransformation(samples: any, rules: FieldRule[]): TransformationPreview[] {
+  const list = (Array.isArray(samples) ? samples : [samples]).slice(0, MAX_PREVIEW_SAMPLES);
+  return list.map(input => ({ input, ...transformRecord(input, rules) }));
+}
+
+/**
+ * Converte o mapa { campoDestino: origem } dos mapeamentos legados em regras.
+ * A origem pode ser um caminho ou uma regra sem "target"
+ * @param fieldMap Mapa de campos (objeto ou JSON serializado)
+ */
+export function rulesFromFieldMap(fieldMap: unknown): FieldRule[] {
+  const map = typeof fieldMap === 'string' ? JSON.parse(fieldMap) : fieldMap;
+  if (!map || typeof map !== 'object' || Array.isArray(map)) {
+    throw new Error('Mapeamento de campos deve ser um objeto');
+  }
+
+  return transformationRuleSetSchema.parse(
+    Object.entries(map).map(([target, source]) =>
+      typeof source === 'string' ? { target, source } : { ...(source as object), target }
+    )
+  );
+}
+
+/**
+ * Valida uma lista de regras de transformação (objeto ou JSON serializado)
+ */
+export function parseRuleSet(rules: unknown): FieldRule[] {
+  if (rules === null || rules === undefined) return [];
+  return transformationRuleSetSchema.parse(typeof rules === 'string' ? JSON.parse(rules) : rules);
+}
+
+// Funções nomeadas aceitas anteriormente nos mapeamentos de sistemas escolares
+const NAMED_FUNCTIONS: Record<string, TransformationStep[]> = {
+  toUpperCase: [{ op: 'upper' }],
+  toLowerCase: [{ op: 'lower' }],
+  formatDate: [{ op: 'date', from: 'iso', to: 'DD/MM/YYYY', validate: false }],
+  formatCurrency: [{ op: 'currency' }],
+  formatCpf: [{ op: 'cpf', format: 'masked', validate: false }],
+  formatPhone: [{ op: 'phone', format: 'masked', countryCode: '55', validate: false }],
+};
+
+/**
+ * Interpreta o campo transformation_function: nome de função conhecida ou
+ * lista de passos em JSON. Ao salvar (strict) um nome desconhecido é recusado;
+ * na sincronização ele é apenas registrado e o valor segue sem transformação
+ * @param definition Conteúdo do campo
+ * @param options strict: recusar funções desconhecidas
+ */
+export function parseStepDefinition(
+  definition: string | null | undefined,
+  options: { strict?: boolean } = {}
+): TransformationStep[] {
+  if (!definition || !definition.trim()) return [];
+
+  const trimmed = definition.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    return z.array(transformationStepSchema).max(MAX_STEPS_PER_RULE).parse(Array.isArray(parsed) ? parsed : [parsed]);
+  }
+
+  const steps = NAMED_FUNCTIONS[trimmed];
+  if (!steps) {
+    if (options.strict) {
+      throw new Error(`Função de transformação desconhecida: ${trimmed}`);
+    }
+    console.warn(`Função de transformação desconhecida: ${trimmed}`);
+    return [];
+  }
+  return steps;
+}
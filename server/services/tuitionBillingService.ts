@@ -0,0 +1,738 @@
+/**
+ * Serviço de planos de mensalidade
+ * Define por curso a taxa de matrícula e as mensalidades do ano letivo (dia de vencimento,
+ * desconto de pontualidade, multa e juros diários após o vencimento), gera os boletos/PIX
+ * com antecedência pelo gateway configurado, recalcula os valores em atraso e mantém
+ * enrollments.paymentStatus sincronizado com a situação das parcelas
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+import { logAction } from './securityService';
+import { sendUserNotification } from '../pusher';
+import { paymentProcessor } from './paymentProcessor';
+import { courseSeatService } from './courseSeatService';
+import { discountService } from './discountService';
+
+// Prazo para pagamento da taxa de matrícula, contado da adesão ao plano
+const ENROLLMENT_FEE_DUE_DAYS = parseInt(process.env.ENROLLMENT_FEE_DUE_DAYS || '3');
+
+// Intervalo de geração de cobranças e recálculo de atrasos
+const BILLING_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const billingPlanSchema = z.object({
+  name: z.string().min(1, 'Nome do plano é obrigatório'),
+  courseId: z.number().int(),
+  schoolYear: z.string().regex(/^\d{4}$/, 'Ano letivo inválido'),
+  enrollmentFee: z.number().min(0).default(0),
+  installmentAmount: z.number().positive('Valor da mensalidade deve ser positivo'),
+  installments: z.number().int().min(1).max(24),
+  firstDueMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use o formato AAAA-MM'),
+  dueDay: z.number().int().min(1).max(31),
+  punctualityDiscount: z.number().min(0).default(0),
+  punctualityDiscountType: z.enum(['fixed', 'percent']).default('fixed'),
+  // Código de Defesa do Consumidor: multa moratória limitada a 2%
+  finePercent: z.number().min(0).max(2, 'A multa não pode passar de 2%').default(2),
+  // Juros de mora de 1% ao mês, aplicados por dia de atraso
+  dailyInterestPercent: z.number().min(0).max(0.0333, 'Os juros não podem passar de 1% ao mês').default(0.0333),
+  paymentMethod: z.enum(['bank_slip', 'pix']).default('bank_slip'),
+  generateDaysBefore: z.number().int().min(0).max(60).default(10),
+});
+
+export type BillingPlanData = z.infer<typeof billingPlanSchema>;
+
+export type InvoiceKind = 'enrollment_fee' | 'tuition';
+export type InvoiceStatus = 'scheduled' | 'generating' | 'open' | 'overdue' | 'paid' | 'canceled';
+
+export interface BillingPlan extends BillingPlanData {
+  id: number;
+  schoolId: number;
+  active: boolean;
+  createdById: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduledInstallment {
+  kind: InvoiceKind;
+  installmentNumber: number;
+  dueDate: string;
+  amount: number;
+}
+
+export interface InvoiceCharges {
+  daysOverdue: number;
+  discount: number;
+  fine: number;
+  interest: number;
+  total: number;
+}
+
+export interface TuitionInvoice {
+  id: number;
+  planId: number;
+  enrollmentId: number;
+  studentId: number;
+  schoolId: number;
+  kind: InvoiceKind;
+  installmentNumber: number;
+  dueDate: string;
+  originalAmount: number;
+  currentAmount: number;
+  // Descontos, bolsas e cupons (o desconto de pontualidade fica em discountAmount)
+  ruleDiscountAmount: number;
+  discountAmount: number;
+  fineAmount: number;
+  interestAmount: number;
+  daysOverdue: number;
+  status: InvoiceStatus;
+  paymentId: number | null;
+  // Identificador devolvido pela geração da cobrança (ID interno ou simulação do modo inativo)
+  paymentReference: string | null;
+  paidAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Monta o cronograma de cobranças de um plano.
+ * Mensalidades com vencimento anterior à data de adesão não são geradas.
+ * @param plan Plano de mensalidades
+ * @param enrollmentDate Data de adesão ao plano
+ */
+export function buildInstallmentSchedule(
+  plan: Pick<BillingPlanData, 'enrollmentFee' | 'installmentAmount' | 'installments' | 'firstDueMonth' | 'dueDay'>,
+  enrollmentDate: Date
+): ScheduledInstallment[] {
+  const schedule: ScheduledInstallment[] = [];
+  const startDay = toDateString(enrollmentDate);
+
+  if (plan.enrollmentFee > 0) {
+    schedule.push({
+      kind: 'enrollment_fee',
+      installmentNumber: 0,
+      dueDate: toDateString(new Date(Date.parse(startDay) + ENROLLMENT_FEE_DUE_DAYS * DAY_MS)),
+      amount: round(plan.enrollmentFee),
+    });
+  }
+
+  const [firstYear, firstMonth] = plan.firstDueMonth.split('-').map(Number);
+
+  for (let i = 0; i < plan.installments; i++) {
+    const year = firstYear + Math.floor((firstMonth - 1 + i) / 12);
+    const month = (firstMonth - 1 + i) % 12;
+    // Meses curtos vencem no último dia (ex.: dia 31 em fevereiro)
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const dueDate = toDateString(new Date(Date.UTC(year, month, Math.min(plan.dueDay, lastDay))));
+
+    if (dueDate < startDay) continue;
+
+    schedule.push({
+      kind: 'tuition',
+      installmentNumber: i + 1,
+      dueDate,
+      amount: round(plan.installmentAmount),
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Calcula o valor de uma parcela na data de referência:
+ * desconto de pontualidade até o vencimento; multa e juros diários depois dele
+ * @param amount Valor original da parcela
+ * @param dueDate Vencimento (AAAA-MM-DD)
+ * @param rules Regras do plano
+ * @param referenceDate Data de referência
+ */
+export function calculateInvoiceCharges(
+  amount: number,
+  dueDate: string,
+  rules: Pick<BillingPlanData, 'punctualityDiscount' | 'punctualityDiscountType' | 'finePercent' | 'dailyInterestPercent'>,
+  referenceDate: Date
+): InvoiceCharges {
+  const daysOverdue = Math.floor((Date.parse(toDateString(referenceDate)) - Date.parse(dueDate)) / DAY_MS);
+
+  if (daysOverdue <= 0) {
+    const discount = rules.punctualityDiscountType === 'percent'
+      ? round(amount * rules.punctualityDiscount / 100)
+      : round(Math.min(rules.punctualityDiscount, amount));
+
+    return { daysOverdue: 0, discount, fine: 0, interest: 0, total: round(amount - discount) };
+  }
+
+  const fine = round(amount * rules.finePercent / 100);
+  const interest = round(amount * rules.dailyInterestPercent / 100 * daysOverdue);
+
+  return { daysOverdue, discount: 0, fine, interest, total: round(amount + fine + interest) };
+}
+
+/**
+ * Situação de pagamento da matrícula a partir das parcelas
+ * @param statuses Status das parcelas não canceladas
+ */
+export function deriveEnrollmentPaymentStatus(statuses: InvoiceStatus[]): 'pending' | 'paid' | 'partial' | 'overdue' {
+  if (statuses.length > 0 && statuses.every(status => status === 'paid')) return 'paid';
+  if (statuses.includes('overdue')) return 'overdue';
+  if (statuses.includes('paid')) return 'partial';
+  return 'pending';
+}
+
+class TuitionBillingService {
+  private billingTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Cria as tabelas de planos e parcelas, se não existirem
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS billing_plans (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        course_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        school_year TEXT NOT NULL,
+        enrollment_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        installment_amount DECIMAL(10, 2) NOT NULL,
+        installments INTEGER NOT NULL,
+        first_due_month TEXT NOT NULL,
+        due_day INTEGER NOT NULL,
+        punctuality_discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        punctuality_discount_type TEXT NOT NULL DEFAULT 'fixed',
+        fine_percent DECIMAL(5, 2) NOT NULL DEFAULT 2,
+        daily_interest_percent DECIMAL(7, 4) NOT NULL DEFAULT 0.0333,
+        payment_method TEXT NOT NULL DEFAULT 'bank_slip',
+        generate_days_before INTEGER NOT NULL DEFAULT 10,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by_id INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS billing_plans_course_idx ON billing_plans(course_id, active)
+    `);
+
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS tuition_invoices (
+        id SERIAL PRIMARY KEY,
+        plan_id INTEGER NOT NULL,
+        enrollment_id INTEGER NOT NULL,
+        student_id INTEGER NOT NULL,
+        school_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        installment_number INTEGER NOT NULL,
+        due_date DATE NOT NULL,
+        original_amount DECIMAL(10, 2) NOT NULL,
+        current_amount DECIMAL(10, 2) NOT NULL,
+        rule_discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        fine_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        interest_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        days_overdue INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'scheduled',
+        payment_id INTEGER,
+        payment_reference TEXT,
+        paid_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        UNIQUE (enrollment_id, plan_id, installment_number)
+      )
+    `);
+
+    // Descontos, bolsas e cupons fixados na geração da cobrança
+    await db.execute(`
+      ALTER TABLE tuition_invoices ADD COLUMN IF NOT EXISTS rule_discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0
+    `);
+
+    await db.execute(`
+      ALTER TABLE tuition_invoices ADD COLUMN IF NOT EXISTS payment_reference TEXT
+    `);
+
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS tuition_invoices_status_idx ON tuition_invoices(status, due_date)
+    `);
+  }
+
+  /**
+   * Lista os planos ativos da escola
+   * @param schoolId ID da escola
+   */
+  async listPlans(schoolId: number): Promise<BillingPlan[]> {
+    const rows = await db.execute(`
+      SELECT * FROM billing_plans
+      WHERE school_id = $1 AND active = TRUE
+      ORDER BY school_year DESC, name
+    `, [schoolId]);
+
+    return rows.map(row => this.mapPlan(row));
+  }
+
+  /**
+   * Obtém um plano
+   * @param id ID do plano
+   */
+  async getPlan(id: number): Promise<BillingPlan | null> {
+    const [row] = await db.execute(`SELECT * FROM billing_plans WHERE id = $1`, [id]);
+    return row ? this.mapPlan(row) : null;
+  }
+
+  /**
+   * Plano ativo mais recente do curso
+   * @param courseId ID do curso
+   */
+  async getPlanForCourse(courseId: number): Promise<BillingPlan | null> {
+    const [row] = await db.execute(`
+      SELECT * FROM billing_plans
+      WHERE course_id = $1 AND active = TRUE
+      ORDER BY school_year DESC, updated_at DESC
+      LIMIT 1
+    `, [courseId]);
+
+    return row ? this.mapPlan(row) : null;
+  }
+
+  /**
+   * Cria um plano de mensalidades
+   * @param schoolId ID da escola
+   * @param data Regras do plano
+   * @param userId Usuário que criou o plano
+   */
+  async createPlan(schoolId: number, data: BillingPlanData, userId: number): Promise<BillingPlan> {
+    const [row] = await db.execute(`
+      INSERT INTO billing_plans (
+        school_id, course_id, name, school_year, enrollment_fee, installment_amount, installments,
+        first_due_month, due_day, punctuality_discount, punctuality_discount_type, fine_percent,
+        daily_interest_percent, payment_method, generate_days_before, created_by_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *
+    `, [schoolId, ...this.planParams(data), userId]);
+
+    await logAction(userId, 'billing_plan_created', 'billing_plan', String(row.id), { schoolId, courseId: data.courseId });
+
+    return this.mapPlan(row);
+  }
+
+  /**
+   * Atualiza um plano. Parcelas já criadas mantêm o valor original;
+   * multa, juros e desconto passam a valer no próximo recálculo.
+   * @param id ID do plano
+   * @param data Regras do plano
+   * @param userId Usuário que alterou o plano
+   */
+  async updatePlan(id: number, data: BillingPlanData, userId: number): Promise<BillingPlan | null> {
+    const [row] = await db.execute(`
+      UPDATE billing_plans SET
+        course_id = $2, name = $3, school_year = $4, enrollment_fee = $5, installment_amount = $6,
+        installments = $7, first_due_month = $8, due_day = $9, punctuality_discount = $10,
+        punctuality_discount_type = $11, fine_percent = $12, daily_interest_percent = $13,
+        payment_method = $14, generate_days_before = $15, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, ...this.planParams(data)]);
+
+    if (!row) return null;
+
+    await logAction(userId, 'billing_plan_updated', 'billing_plan', String(id), data);
+
+    return this.mapPlan(row);
+  }
+
+  /**
+   * Desativa um plano (parcelas já criadas continuam sendo cobradas)
+   * @param id ID do plano
+   * @param userId Usuário que desativou o plano
+   */
+  async deactivatePlan(id: number, userId: number): Promise<void> {
+    await db.execute(`UPDATE billing_plans SET active = FALSE, updated_at = NOW() WHERE id = $1`, [id]);
+    await logAction(userId, 'billing_plan_deactivated', 'billing_plan', String(id));
+  }
+
+  /**
+   * Vincula a matrícula a um plano, criando as parcelas do ano letivo.
+   * Chamadas repetidas não duplicam parcelas.
+   * @param enrollmentId ID da matrícula
+   * @param planId ID do plano (padrão: plano ativo do curso)
+   * @param userId Usuário responsável (opcional)
+   * @returns Parcelas da matrícula
+   */
+  async startBilling(enrollmentId: number, planId?: number, userId?: number): Promise<TuitionInvoice[]> {
+    const [enrollment] = await db.execute(`
+      SELECT id, student_id, school_id, course_id FROM enrollments WHERE id = $1
+    `, [enrollmentId]);
+
+    if (!enrollment) {
+      throw new Error('Erro ao iniciar cobrança: matrícula não encontrada');
+    }
+
+    const plan = planId ? await this.getPlan(planId) : await this.getPlanForCourse(enrollment.course_id);
+    if (!plan || !plan.active) {
+      throw new Error('Erro ao iniciar cobrança: nenhum plano de mensalidades ativo para o curso');
+    }
+
+    if (plan.schoolId !== enrollment.school_id) {
+      throw new Error('Erro ao iniciar cobrança: plano não pertence à escola da matrícula');
+    }
+
+    for (const item of buildInstallmentSchedule(plan, new Date())) {
+      await db.execute(`
+        INSERT INTO tuition_invoices (
+          plan_id, enrollment_id, student_id, school_id, kind, installment_number,
+          due_date, original_amount, current_amount
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+        ON CONFLICT (enrollment_id, plan_id, installment_number) DO NOTHING
+      `, [plan.id, enrollmentId, enrollment.student_id, enrollment.school_id, item.kind, item.installmentNumber, item.dueDate, item.amount]);
+    }
+
+    if (userId) {
+      await logAction(userId, 'tuition_billing_started', 'enrollment', String(enrollmentId), { planId: plan.id });
+    }
+
+    await this.syncEnrollmentPaymentStatus(enrollmentId);
+
+    return this.getInvoicesForEnrollment(enrollmentId);
+  }
+
+  /**
+   * Cancela as parcelas ainda não pagas da matrícula
+   * @param enrollmentId ID da matrícula
+   */
+  async cancelBilling(enrollmentId: number): Promise<number> {
+    const rows = await db.execute(`
+      UPDATE tuition_invoices SET status = 'canceled', updated_at = NOW()
+      WHERE enrollment_id = $1 AND status IN ('scheduled', 'generating', 'open', 'overdue')
+      RETURNING id
+    `, [enrollmentId]);
+
+    if (rows.length > 0) {
+      await db.execute(`
+        UPDATE payments SET status = 'canceled', updated_at = NOW()
+        WHERE id IN (SELECT payment_id FROM tuition_invoices WHERE enrollment_id = $1 AND status = 'canceled')
+          AND status = 'pending'
+      `, [enrollmentId]);
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Lista as parcelas da matrícula
+   * @param enrollmentId ID da matrícula
+   */
+  async getInvoicesForEnrollment(enrollmentId: number): Promise<TuitionInvoice[]> {
+    const rows = await db.execute(`
+      SELECT * FROM tuition_invoices
+      WHERE enrollment_id = $1
+      ORDER BY due_date, installment_number
+    `, [enrollmentId]);
+
+    return rows.map(row => this.mapInvoice(row));
+  }
+
+  /**
+   * Gera boletos/PIX das parcelas que vencem dentro da antecedência configurada no plano
+   * @param referenceDate Data de referência (padrão: agora)
+   * @returns Número de cobranças geradas
+   */
+  async generateUpcomingCharges(referenceDate: Date = new Date()): Promise<number> {
+    const due = await db.execute(`
+      SELECT ti.*, bp.punctuality_discount, bp.punctuality_discount_type, bp.fine_percent,
+        bp.daily_interest_percent, bp.payment_method, bp.name AS plan_name
+      FROM tuition_invoices ti
+      JOIN billing_plans bp ON bp.id = ti.plan_id
+      WHERE ti.status = 'scheduled'
+        AND ti.due_date <= ($1::date + bp.generate_days_before)
+      ORDER BY ti.due_date
+    `, [toDateString(referenceDate)]);
+
+    let generated = 0;
+
+    for (const invoice of due) {
+      // Reserva a parcela antes de chamar o gateway, para que duas rotinas não gerem a mesma cobrança
+      const [claimed] = await db.execute(`
+        UPDATE tuition_invoices SET status = 'generating', updated_at = NOW()
+        WHERE id = $1 AND status = 'scheduled'
+        RETURNING id
+      `, [invoice.id]);
+
+      if (!claimed) continue;
+
+      try {
+        const quote = await discountService.quoteForEnrollment(
+          invoice.enrollment_id,
+          parseFloat(invoice.original_amount),
+          invoice.kind,
+          referenceDate
+        );
+        const amount = quote.finalAmount;
+        const rules = this.mapRules(invoice);
+        const charges = calculateInvoiceCharges(amount, toDateString(new Date(invoice.due_date)), rules, referenceDate);
+        const description = invoice.kind === 'enrollment_fee'
+          ? `Taxa de matrícula - ${invoice.plan_name}`
+          : `Mensalidade ${invoice.installment_number} - ${invoice.plan_name}`;
+
+        const options = await paymentProcessor.buildEnrollmentBillingOptions(
+          { id: invoice.enrollment_id, studentId: invoice.student_id, schoolId: invoice.school_id },
+          {
+            amount,
+            dueDate: new Date(`${toDateString(new Date(invoice.due_date))}T12:00:00`),
+            description,
+            discountAmount: charges.discount,
+            discountDays: 0,
+            finePercent: rules.finePercent,
+            dailyInterestPercent: rules.dailyInterestPercent,
+            reference: `tuition_invoice_${invoice.id}`,
+          }
+        );
+
+        const result = invoice.payment_method === 'pix'
+          ? await paymentProcessor.generatePixPayment(options)
+          : await paymentProcessor.generateBankSlip(options);
+
+        // Só o ID interno do pagamento vai para payment_id; a referência devolvida é guardada inteira
+        const paymentReference = result.paymentId || null;
+        const paymentId = paymentReference && /^\d+$/.test(paymentReference) ? parseInt(paymentReference) : null;
+
+        const [opened] = await db.execute(`
+          UPDATE tuition_invoices
+          SET status = 'open', payment_id = $2, payment_reference = $3, rule_discount_amount = $4, discount_amount = $5,
+            current_amount = $6, updated_at = NOW()
+          WHERE id = $1 AND status = 'generating'
+          RETURNING id
+        `, [invoice.id, paymentId, paymentReference, quote.totalDiscount, charges.discount, charges.total]);
+
+        // A cobrança foi cancelada enquanto era gerada
+        if (!opened) {
+          if (paymentId) {
+            await db.execute(`
+              UPDATE payments SET status = 'canceled', updated_at = NOW() WHERE id = $1 AND status = 'pending'
+            `, [paymentId]);
+          }
+          continue;
+        }
+
+        if (paymentId) {
+          await discountService.recordApplication(paymentId, invoice.enrollment_id, quote.discounts);
+        }
+
+        if (options.payerUserId) {
+          await sendUserNotification(options.payerUserId, {
+            title: 'Nova cobrança disponível',
+            message: `${description} vence em ${new Date(options.dueDate).toLocaleDateString('pt-BR')}`,
+            type: 'payment',
+            relatedId: invoice.enrollment_id,
+            relatedType: 'enrollment',
+          });
+        }
+
+        generated++;
+      } catch (error) {
+        console.error(`Erro ao gerar cobrança da parcela ${invoice.id}:`, error);
+        await db.execute(`
+          UPDATE tuition_invoices SET status = 'scheduled', updated_at = NOW() WHERE id = $1 AND status = 'generating'
+        `, [invoice.id]);
+      }
+    }
+
+    return generated;
+  }
+
+  /**
+   * Baixa parcelas pagas, recalcula multa e juros das vencidas e sincroniza
+   * enrollments.paymentStatus das matrículas afetadas
+   * @param referenceDate Data de referência (padrão: agora)
+   * @returns Número de parcelas atualizadas
+   */
+  async recalculateOverdue(referenceDate: Date = new Date()): Promise<number> {
+    const paid = await db.execute(`
+      UPDATE tuition_invoices ti
+      SET status = 'paid', paid_at = COALESCE((p.metadata->>'settledAt')::timestamptz, p.updated_at), updated_at = NOW()
+      FROM payments p
+      WHERE p.id = ti.payment_id AND p.status = 'paid' AND ti.status IN ('open', 'overdue')
+      RETURNING ti.enrollment_id
+    `);
+
+    const overdue = await db.execute(`
+      SELECT ti.*, bp.punctuality_discount, bp.punctuality_discount_type, bp.fine_percent, bp.daily_interest_percent
+      FROM tuition_invoices ti
+      JOIN billing_plans bp ON bp.id = ti.plan_id
+      WHERE ti.status IN ('open', 'overdue') AND ti.due_date < $1::date
+    `, [toDateString(referenceDate)]);
+
+    for (const invoice of overdue) {
+      const charges = calculateInvoiceCharges(
+        parseFloat(invoice.original_amount) - parseFloat(invoice.rule_discount_amount),
+        toDateString(new Date(invoice.due_date)),
+        this.mapRules(invoice),
+        referenceDate
+      );
+
+      await db.execute(`
+        UPDATE tuition_invoices
+        SET status = 'overdue', discount_amount = 0, fine_amount = $2, interest_amount = $3,
+          current_amount = $4, days_overdue = $5, updated_at = NOW()
+        WHERE id = $1
+      `, [invoice.id, charges.fine, charges.interest, charges.total, charges.daysOverdue]);
+    }
+
+    const enrollmentIds = [...paid, ...overdue]
+      .map(row => row.enrollment_id as number)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+
+    for (const enrollmentId of enrollmentIds) {
+      await this.syncEnrollmentPaymentStatus(enrollmentId);
+    }
+
+    return paid.length + overdue.length;
+  }
+
+  /**
+   * Atualiza enrollments.paymentStatus conforme as parcelas.
+   * Quando a matrícula fica quitada, a vaga reservada é confirmada.
+   * @param enrollmentId ID da matrícula
+   */
+  async syncEnrollmentPaymentStatus(enrollmentId: number): Promise<string | null> {
+    const invoices = await db.execute(`
+      SELECT status, kind FROM tuition_invoices WHERE enrollment_id = $1 AND status <> 'canceled'
+    `, [enrollmentId]);
+
+    if (invoices.length === 0) return null;
+
+    const status = deriveEnrollmentPaymentStatus(invoices.map(invoice => invoice.status));
+
+    const [enrollment] = await db.execute(`
+      SELECT id, student_id, school_id, course_id, payment_status FROM enrollments WHERE id = $1
+    `, [enrollmentId]);
+
+    if (!enrollment || enrollment.payment_status === status) return status;
+
+    await db.execute(`
+      UPDATE enrollments SET payment_status = $2, updated_at = NOW() WHERE id = $1
+    `, [enrollmentId, status]);
+
+    // A taxa de matrícula paga garante a vaga
+    const feePaid = invoices.some(invoice => invoice.kind === 'enrollment_fee' && invoice.status === 'paid');
+    if (status === 'paid' || feePaid) {
+      await courseSeatService.confirmSeat({
+        id: enrollment.id,
+        courseId: enrollment.course_id,
+        schoolId: enrollment.school_id,
+        studentId: enrollment.student_id,
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * Inicia a rotina periódica de cobranças (geração antecipada e recálculo de atrasos)
+   */
+  startBillingScheduler(): void {
+    if (this.billingTimer) return;
+
+    this.billingTimer = setInterval(() => {
+      this.recalculateOverdue()
+        .then(() => this.generateUpcomingCharges())
+        .catch(error => {
+          console.error('Erro na rotina de cobranças de mensalidades:', error);
+        });
+    }, BILLING_CHECK_INTERVAL);
+  }
+
+  /**
+   * Interrompe a rotina periódica de cobranças
+   */
+  stopBillingScheduler(): void {
+    if (this.billingTimer) {
+      clearInterval(this.billingTimer);
+      this.billingTimer = null;
+    }
+  }
+
+  private planParams(data: BillingPlanData): any[] {
+    return [
+      data.courseId,
+      data.name,
+      data.schoolYear,
+      data.enrollmentFee,
+      data.installmentAmount,
+      data.installments,
+      data.firstDueMonth,
+      data.dueDay,
+      data.punctualityDiscount,
+      data.punctualityDiscountType,
+      data.finePercent,
+      data.dailyInterestPercent,
+      data.paymentMethod,
+      data.generateDaysBefore,
+    ];
+  }
+
+  private mapRules(row: any): Pick<BillingPlanData, 'punctualityDiscount' | 'punctualityDiscountType' | 'finePercent' | 'dailyInterestPercent'> {
+    return {
+      punctualityDiscount: parseFloat(row.punctuality_discount),
+      punctualityDiscountType: row.punctuality_discount_type,
+      finePercent: parseFloat(row.fine_percent),
+      dailyInterestPercent: parseFloat(row.daily_interest_percent),
+    };
+  }
+
+  private mapPlan(row: any): BillingPlan {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      courseId: row.course_id,
+      name: row.name,
+      schoolYear: row.school_year,
+      enrollmentFee: parseFloat(row.enrollment_fee),
+      installmentAmount: parseFloat(row.installment_amount),
+      installments: row.installments,
+      firstDueMonth: row.first_due_month,
+      dueDay: row.due_day,
+      ...this.mapRules(row),
+      paymentMethod: row.payment_method,
+      generateDaysBefore: row.generate_days_before,
+      active: row.active,
+      createdById: row.created_by_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapInvoice(row: any): TuitionInvoice {
+    return {
+      id: row.id,
+      planId: row.plan_id,
+      enrollmentId: row.enrollment_id,
+      studentId: row.student_id,
+      schoolId: row.school_id,
+      kind: row.kind,
+      installmentNumber: row.installment_number,
+      dueDate: toDateString(new Date(row.due_date)),
+      originalAmount: parseFloat(row.original_amount),
+      currentAmount: parseFloat(row.current_amount),
+      ruleDiscountAmount: parseFloat(row.rule_discount_amount),
+      discountAmount: parseFloat(row.discount_amount),
+      fineAmount: parseFloat(row.fine_amount),
+      interestAmount: parseFloat(row.interest_amount),
+      daysOverdue: row.days_overdue,
+      status: row.status,
+      paymentId: row.payment_id,
+      paymentReference: row.payment_reference ?? null,
+      paidAt: row.paid_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const tuitionBillingService = new TuitionBillingService();
+export default tuitionBillingService;
@@ -0,0 +1,1003 @@
+/**
+ * Campanhas de WhatsApp em massa
+ * Monta o público da campanha (leads por status, origem e curso, alunos com
+ * mensalidades em atraso ou matrículas com documentos pendentes), envia um
+ * template aprovado a partir do horário agendado no ritmo de cada instância,
+ * com intervalos aleatórios entre as mensagens para evitar bloqueios, pula os
+ * contatos descadastrados e consolida envio, entrega, leitura e resposta de
+ * cada campanha a partir das confirmações (ACKs) do WhatsApp
+ */
+
+import { db } from '../db';
+import { sendSchoolNotification } from '../pusher';
+import { logAction } from './securityService';
+import { getEvolutionApiService } from './evolutionApi';
+import { whatsappTemplateService } from './whatsappTemplateService';
+import { normalizeWhatsappNumber } from './leadCaptureService';
+import { consentService, phoneMatchKey } from './consentService';
+
+const PROCESS_INTERVAL = 5 * 1000;
+
+// Menor intervalo aceito entre duas mensagens de campanha na mesma instância
+export const MIN_DELAY_SECONDS = 10;
+const DEFAULT_MIN_DELAY_SECONDS = 20;
+const DEFAULT_MAX_DELAY_SECONDS = 60;
+
+// Teto de mensagens de campanha por instância em uma hora
+const HOURLY_LIMIT_PER_INSTANCE = parseInt(process.env.WHATSAPP_CAMPAIGN_HOURLY_LIMIT || '150', 10);
+
+// Envios sem confirmação há mais que isso são dados como falha, sem reenvio
+const STALE_SEND_MINUTES = 10;
+
+// Respostas contam para a campanha até esse prazo depois do envio
+const REPLY_WINDOW_DAYS = 7;
+
+const RECIPIENTS_LIMIT = 200;
+const PREVIEW_SAMPLE_SIZE = 5;
+
+// Matrículas nesses status não esperam mais documentos
+const FINAL_ENROLLMENT_STATUSES = ['rejected', 'canceled', 'completed'];
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'paused' | 'completed' | 'canceled';
+export type RecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+export type RecipientSkipReason = 'opt_out' | 'invalid_phone' | 'canceled';
+
+export type CampaignAudience =
+  | { type: 'leads'; statuses?: string[]; sources?: string[]; courseIds?: number[] }
+  | { type: 'overdue_payments'; minDaysOverdue?: number; courseIds?: number[] }
+  | { type: 'pending_documents'; courseIds?: number[] };
+
+export interface CampaignInput {
+  name: string;
+  templateId: number;
+  instanceId?: number | null;
+  audience: CampaignAudience;
+  minDelaySeconds?: number;
+  maxDelaySeconds?: number;
+}
+
+export interface AudienceMember {
+  referenceType: 'lead' | 'student' | 'enrollment';
+  referenceId: number;
+  name: string | null;
+  phone: string | null;
+  variables: Record<string, string | number>;
+}
+
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface Campaign {
+  id: number;
+  schoolId: number;
+  name: string;
+  templateId: number;
+  templateName: string | null;
+  instanceId: number | null;
+  audience: CampaignAudience;
+  status: CampaignStatus;
+  minDelaySeconds: number;
+  maxDelaySeconds: number;
+  scheduledAt: Date | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  lastError: string | null;
+  createdBy: number | null;
+  createdAt: Date;
+  stats: CampaignStats;
+}
+
+export interface CampaignRecipient {
+  id: number;
+  name: string | null;
+  phone: string | null;
+  referenceType: string;
+  referenceId: number;
+  status: RecipientStatus;
+  skipReason: RecipientSkipReason | null;
+  error: string | null;
+  sentAt: Date | null;
+  deliveredAt: Date | null;
+  readAt: Date | null;
+  repliedAt: Date | null;
+}
+
+/**
+ * Intervalo aleatório, em segundos, até a próxima mensagem da instância
+ * @param min Menor intervalo configurado na campanha
+ * @param max Maior intervalo configurado na campanha
+ * @param random Gerador de números entre 0 e 1
+ */
+export function pickDelaySeconds(min: number, max: number, random: () => number = Math.random): number {
+  const low = Math.max(MIN_DELAY_SECONDS, Math.min(min, max));
+  const high = Math.max(low, max);
+  return low + Math.floor(random() * (high - low + 1));
+}
+
+function firstName(fullName: string | null | undefined): string {
+  return (fullName || '').trim().split(/\s+/)[0] || '';
+}
+
+function formatCurrency(value: unknown): string {
+  return Number(value || 0).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
+
+class WhatsappCampaignService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Cria as tabelas de campanhas, destinatários, ritmo por instância e
+   * contatos descadastrados
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS whatsapp_campaigns (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        template_id INTEGER NOT NULL,
+        instance_id INTEGER,
+        audience JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft',
+        min_delay_seconds INTEGER NOT NULL DEFAULT ${DEFAULT_MIN_DELAY_SECONDS},
+        max_delay_seconds INTEGER NOT NULL DEFAULT ${DEFAULT_MAX_DELAY_SECONDS},
+        scheduled_at TIMESTAMP,
+        audience_built_at TIMESTAMP,
+        started_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        last_error TEXT,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_campaigns_school
+        ON whatsapp_campaigns(school_id, created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_campaign_recipients (
+        id SERIAL PRIMARY KEY,
+        campaign_id INTEGER NOT NULL,
+        reference_type TEXT NOT NULL,
+        reference_id INTEGER NOT NULL,
+        name TEXT,
+        phone TEXT,
+        phone_key TEXT,
+        variables JSONB NOT NULL DEFAULT '{}',
+        status TEXT NOT NULL DEFAULT 'pending',
+        skip_reason TEXT,
+        instance_id INTEGER,
+        message_id TEXT,
+        content TEXT,
+        error TEXT,
+        locked_at TIMESTAMP,
+        sent_at TIMESTAMP,
+        delivered_at TIMESTAMP,
+        read_at TIMESTAMP,
+        replied_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (campaign_id, phone_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_status
+        ON whatsapp_campaign_recipients(campaign_id, status);
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_message
+        ON whatsapp_campaign_recipients(message_id);
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_sent
+        ON whatsapp_campaign_recipients(instance_id, sent_at);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_campaign_pacing (
+        instance_id INTEGER PRIMARY KEY,
+        next_send_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+    `);
+  }
+
+  /**
+   * Inicia o envio periódico das campanhas agendadas
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('[WhatsappCampaign] Erro ao processar campanhas:', error);
+      });
+    }, PROCESS_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Inicia as campanhas cujo horário chegou, envia a próxima mensagem de cada
+   * instância liberada e encerra as campanhas sem envios pendentes
+   */
+  async processDue(): Promise<{ started: number; sent: number; completed: number }> {
+    if (this.processing) return { started: 0, sent: 0, completed: 0 };
+    this.processing = true;
+
+    try {
+      const started = await this.startScheduledCampaigns();
+      const sent = await this.sendNextMessages();
+      const completed = await this.completeFinishedCampaigns();
+      return { started, sent, completed };
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Lista as campanhas da escola com os números de cada uma
+   */
+  async listCampaigns(schoolId: number): Promise<Campaign[]> {
+    const rows = await db.execute(`
+      ${this.campaignSelect()}
+      WHERE c.school_id = $1
+      GROUP BY c.id, t.name
+      ORDER BY c.created_at DESC
+    `, [schoolId]);
+
+    return rows.map((row: any) => this.mapCampaign(row));
+  }
+
+  async getCampaign(schoolId: number, campaignId: number): Promise<Campaign> {
+    const [row] = await db.execute(`
+      ${this.campaignSelect()}
+      WHERE c.school_id = $1 AND c.id = $2
+      GROUP BY c.id, t.name
+    `, [schoolId, campaignId]);
+
+    if (!row) {
+      throw new Error('Campanha não encontrada');
+    }
+
+    return this.mapCampaign(row);
+  }
+
+  /**
+   * Destinatários da campanha, opcionalmente filtrados por status
+   */
+  async listRecipients(schoolId: number, campaignId: number, status?: RecipientStatus): Promise<CampaignRecipient[]> {
+    await this.getCampaign(schoolId, campaignId);
+
+    const rows = await db.execute(`
+      SELECT * FROM whatsapp_campaign_recipients
+      WHERE campaign_id = $1 AND ($2::text IS NULL OR status = $2)
+      ORDER BY id
+      LIMIT $3
+    `, [campaignId, status ?? null, RECIPIENTS_LIMIT]);
+
+    return rows.map((row: any) => this.mapRecipient(row));
+  }
+
+  /**
+   * Opções do formulário de campanha: templates aprovados, instâncias e cursos
+   */
+  async getOptions(schoolId: number): Promise<{ templates: any[]; instances: any[]; courses: any[]; leadSources: string[] }> {
+    const templates = await db.execute(`
+      SELECT id, name, content FROM whatsapp_templates
+      WHERE (school_id IS NULL OR school_id = $1) AND active IS NOT FALSE AND status = 'approved'
+      ORDER BY name
+    `, [schoolId]);
+    const instances = await db.execute(`
+      SELECT id, name, status FROM whatsapp_instances
+      WHERE school_id = $1 AND active IS NOT FALSE
+      ORDER BY id
+    `, [schoolId]);
+    const courses = await db.execute(`
+      SELECT id, name FROM courses WHERE school_id = $1 ORDER BY name
+    `, [schoolId]);
+    const sources = await db.execute(`
+      SELECT DISTINCT source FROM leads WHERE school_id = $1 AND source IS NOT NULL AND source <> '' ORDER BY source
+    `, [schoolId]);
+
+    return {
+      templates: templates.map((row: any) => ({ id: row.id, name: row.name, content: row.content })),
+      instances: instances.map((row: any) => ({ id: row.id, name: row.name, status: row.status })),
+      courses: courses.map((row: any) => ({ id: row.id, name: row.name })),
+      leadSources: sources.map((row: any) => row.source),
+    };
+  }
+
+  /**
+   * Tamanho do público antes de agendar, descontando descadastrados e
+   * telefones inválidos, com uma amostra dos primeiros contatos
+   */
+  async previewAudience(schoolId: number, audience: CampaignAudience): Promise<{ total: number; optedOut: number; invalid: number; sample: Array<{ name: string | null; phone: string }> }> {
+    const members = await this.resolveAudience(schoolId, audience);
+    const rows = await this.buildRecipientRows(schoolId, members);
+
+    const eligible = rows.filter(row => row.status === 'pending');
+    return {
+      total: eligible.length,
+      optedOut: rows.filter(row => row.skip_reason === 'opt_out').length,
+      invalid: rows.filter(row => row.skip_reason === 'invalid_phone').length,
+      sample: eligible.slice(0, PREVIEW_SAMPLE_SIZE).map(row => ({ name: row.name, phone: row.phone as string })),
+    };
+  }
+
+  async createCampaign(schoolId: number, input: CampaignInput, userId: number): Promise<Campaign> {
+    await this.assertTemplateApproved(schoolId, input.templateId);
+    await this.assertInstanceOfSchool(schoolId, input.instanceId ?? null);
+
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_campaigns (school_id, name, template_id, instance_id, audience, min_delay_seconds, max_delay_seconds, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+    `, [
+      schoolId,
+      input.name,
+      input.templateId,
+      input.instanceId ?? null,
+      JSON.stringify(input.audience),
+      input.minDelaySeconds ?? DEFAULT_MIN_DELAY_SECONDS,
+      input.maxDelaySeconds ?? DEFAULT_MAX_DELAY_SECONDS,
+      userId,
+    ]);
+
+    await logAction(userId, 'whatsapp_campaign_created', 'whatsapp_campaign', String(row.id), { schoolId, name: input.name });
+
+    return this.getCampaign(schoolId, row.id);
+  }
+
+  /**
+   * Altera uma campanha que ainda não começou a enviar
+   */
+  async updateCampaign(schoolId: number, campaignId: number, input: CampaignInput, userId: number): Promise<Campaign> {
+    await this.assertTemplateApproved(schoolId, input.templateId);
+    await this.assertInstanceOfSchool(schoolId, input.instanceId ?? null);
+
+    const [row] = await db.execute(`
+      UPDATE whatsapp_campaigns
+      SET name = $3, template_id = $4, instance_id = $5, audience = $6,
+          min_delay_seconds = $7, max_delay_seconds = $8, updated_at = NOW()
+      WHERE school_id = $1 AND id = $2 AND status IN ('draft', 'scheduled')
+      RETURNING id
+    `, [
+      schoolId,
+      campaignId,
+      input.name,
+      input.templateId,
+      input.instanceId ?? null,
+      JSON.stringify(input.audience),
+      input.minDelaySeconds ?? DEFAULT_MIN_DELAY_SECONDS,
+      input.maxDelaySeconds ?? DEFAULT_MAX_DELAY_SECONDS,
+    ]);
+
+    if (!row) {
+      await this.getCampaign(schoolId, campaignId);
+      throw new Error('Só é possível alterar campanhas em rascunho ou agendadas');
+    }
+
+    await logAction(userId, 'whatsapp_campaign_updated', 'whatsapp_campaign', String(campaignId), { schoolId });
+
+    return this.getCampaign(schoolId, campaignId);
+  }
+
+  /**
+   * Agenda o envio; sem data, a campanha começa no próximo ciclo
+   */
+  async scheduleCampaign(schoolId: number, campaignId: number, scheduledAt: Date | null, userId: number): Promise<Campaign> {
+    const campaign = await this.getCampaign(schoolId, campaignId);
+    await this.assertTemplateApproved(schoolId, campaign.templateId);
+
+    await this.transition(schoolId, campaignId, ['draft', 'scheduled'], `
+      status = 'scheduled', scheduled_at = COALESCE($4::timestamp, NOW()), last_error = NULL
+    `, [scheduledAt], 'Só é possível agendar campanhas em rascunho ou agendadas');
+
+    await logAction(userId, 'whatsapp_campaign_scheduled', 'whatsapp_campaign', String(campaignId), { schoolId, scheduledAt });
+
+    return this.getCampaign(schoolId, campaignId);
+  }
+
+  async pauseCampaign(schoolId: number, campaignId: number, userId: number): Promise<Campaign> {
+    await this.transition(schoolId, campaignId, ['scheduled', 'sending'], `status = 'paused'`, [], 'Só é possível pausar campanhas agendadas ou em envio');
+    await logAction(userId, 'whatsapp_campaign_paused', 'whatsapp_campaign', String(campaignId), { schoolId });
+    return this.getCampaign(schoolId, campaignId);
+  }
+
+  /**
+   * Retoma uma campanha pausada de onde parou; se o público ainda não foi
+   * montado, volta a aguardar o horário agendado
+   */
+  async resumeCampaign(schoolId: number, campaignId: number, userId: number): Promise<Campaign> {
+    await this.transition(schoolId, campaignId, ['paused'], `
+      status = CASE WHEN audience_built_at IS NULL THEN 'scheduled' ELSE 'sending' END, last_error = NULL
+    `, [], 'Só é possível retomar campanhas pausadas');
+    await logAction(userId, 'whatsapp_campaign_resumed', 'whatsapp_campaign', String(campaignId), { schoolId });
+    return this.getCampaign(schoolId, campaignId);
+  }
+
+  async cancelCampaign(schoolId: number, campaignId: number, userId: number): Promise<Campaign> {
+    await this.transition(schoolId, campaignId, ['draft', 'scheduled', 'sending', 'paused'], `
+      status = 'canceled', completed_at = NOW()
+    `, [], 'A campanha já foi encerrada');
+
+    await db.execute(`
+      UPDATE whatsapp_campaign_recipients SET status = 'skipped', skip_reason = 'canceled'
+      WHERE campaign_id = $1 AND status = 'pending'
+    `, [campaignId]);
+
+    await logAction(userId, 'whatsapp_campaign_canceled', 'whatsapp_campaign', String(campaignId), { schoolId });
+    return this.getCampaign(schoolId, campaignId);
+  }
+
+  async deleteCampaign(schoolId: number, campaignId: number, userId: number): Promise<void> {
+    const [row] = await db.execute(`
+      DELETE FROM whatsapp_campaigns WHERE school_id = $1 AND id = $2 AND status = 'draft'
+      RETURNING id
+    `, [schoolId, campaignId]);
+
+    if (!row) {
+      await this.getCampaign(schoolId, campaignId);
+      throw new Error('Só é possível excluir campanhas em rascunho');
+    }
+
+    await logAction(userId, 'whatsapp_campaign_deleted', 'whatsapp_campaign', String(campaignId), { schoolId });
+  }
+
+  /**
+   * Registra a confirmação de entrega ou leitura de uma mensagem de campanha
+   * @param messageId ID da mensagem no WhatsApp
+   * @param status Status já traduzido do código de ACK
+   * @returns Se a mensagem pertence a alguma campanha
+   */
+  async handleMessageAck(messageId: string, status: string): Promise<boolean> {
+    if (!messageId || !['delivered', 'read', 'played'].includes(status)) return false;
+
+    const rows = await db.execute(`
+      UPDATE whatsapp_campaign_recipients
+      SET delivered_at = COALESCE(delivered_at, NOW()),
+          read_at = CASE WHEN $2 = 'delivered' THEN read_at ELSE COALESCE(read_at, NOW()) END
+      WHERE message_id = $1
+      RETURNING id
+    `, [messageId, status]);
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Marca como respondidas as campanhas enviadas recentemente ao contato;
+   * quem responde também recebeu e leu a mensagem
+   * @param schoolId Escola dona da instância que recebeu a mensagem
+   * @param phone Telefone do contato
+   * @returns Quantidade de envios marcados
+   */
+  async handleReply(schoolId: number, phone: string): Promise<number> {
+    const key = phoneMatchKey(phone);
+    if (!key) return 0;
+
+    const rows = await db.execute(`
+      UPDATE whatsapp_campaign_recipients r
+      SET replied_at = NOW(),
+          read_at = COALESCE(r.read_at, NOW()),
+          delivered_at = COALESCE(r.delivered_at, NOW())
+      FROM whatsapp_campaigns c
+      WHERE c.id = r.campaign_id
+        AND c.school_id = $1
+        AND r.phone_key = $2
+        AND r.replied_at IS NULL
+        AND r.sent_at > NOW() - ($3 || ' days')::interval
+      RETURNING r.id
+    `, [schoolId, key, REPLY_WINDOW_DAYS]);
+
+    return rows.length;
+  }
+
+  /**
+   * Contatos do público da campanha, ainda sem descadastros nem duplicados
+   */
+  async resolveAudience(schoolId: number, audience: CampaignAudience): Promise<AudienceMember[]> {
+    const courseIds = audience.courseIds ?? [];
+
+    if (audience.type === 'leads') {
+      const rows = await db.execute(`
+        SELECT l.id, l.full_name, l.phone, co.name AS course_name, s.name AS school_name
+        FROM leads l
+        JOIN schools s ON s.id = l.school_id
+        LEFT JOIN courses co ON co.id = l.course_id
+        WHERE l.school_id = $1
+          AND (cardinality($2::text[]) = 0 OR l.status = ANY($2::text[]))
+          AND (cardinality($3::text[]) = 0 OR l.source = ANY($3::text[]))
+          AND (cardinality($4::int[]) = 0 OR l.course_id = ANY($4::int[]))
+        ORDER BY l.id
+      `, [schoolId, audience.statuses ?? [], audience.sources ?? [], courseIds]);
+
+      return rows.map((row: any) => ({
+        referenceType: 'lead' as const,
+        referenceId: row.id,
+        name: row.full_name,
+        phone: row.phone,
+        variables: {
+          nome: firstName(row.full_name),
+          nome_completo: row.full_name || '',
+          curso: row.course_name || 'nossos cursos',
+          escola: row.school_name || '',
+        },
+      }));
+    }
+
+    if (audience.type === 'overdue_payments') {
+      // Cobrança vai para o responsável financeiro quando houver; senão, para o aluno
+      const rows = await db.execute(`
+        SELECT ti.student_id, u.full_name AS student_name, s.name AS school_name,
+          COALESCE(g.full_name, u.full_name) AS payer_name,
+          COALESCE(g.phone, u.phone) AS payer_phone,
+          MIN(co.name) AS course_name,
+          SUM(ti.current_amount) AS total_amount,
+          MIN(ti.due_date) AS oldest_due_date,
+          COUNT(*)::int AS invoices
+        FROM tuition_invoices ti
+        JOIN schools s ON s.id = ti.school_id
+        JOIN enrollments e ON e.id = ti.enrollment_id
+        LEFT JOIN courses co ON co.id = e.course_id
+        JOIN students st ON st.id = ti.student_id
+        JOIN users u ON u.id = st.user_id
+        LEFT JOIN LATERAL (
+          SELECT gu.full_name, gu.phone
+          FROM guardian_students gs
+          JOIN guardians gd ON gd.id = gs.guardian_id
+          JOIN users gu ON gu.id = gd.user_id
+          WHERE gs.student_id = ti.student_id AND gs.financial_responsible = TRUE AND gu.phone IS NOT NULL
+          LIMIT 1
+        ) g ON TRUE
+        WHERE ti.school_id = $1
+          AND ti.status IN ('open', 'overdue')
+          AND ti.due_date <= CURRENT_DATE - $2::int
+          AND (cardinality($3::int[]) = 0 OR e.course_id = ANY($3::int[]))
+        GROUP BY ti.student_id, u.full_name, u.phone, s.name, g.full_name, g.phone
+        ORDER BY ti.student_id
+      `, [schoolId, Math.max(1, audience.minDaysOverdue ?? 1), courseIds]);
+
+      return rows.map((row: any) => ({
+        referenceType: 'student' as const,
+        referenceId: row.student_id,
+        name: row.payer_name,
+        phone: row.payer_phone,
+        variables: {
+          nome: firstName(row.payer_name),
+          aluno: row.student_name || '',
+          curso: row.course_name || '',
+          escola: row.school_name || '',
+          valor: formatCurrency(row.total_amount),
+          vencimento: new Date(row.oldest_due_date).toLocaleDateString('pt-BR', { timeZone: 'UTC' }),
+          parcelas: row.invoices,
+        },
+      }));
+    }
+
+    const rows = await db.execute(`
+      SELECT e.id AS enrollment_id, u.full_name, u.phone, co.name AS course_name, s.name AS school_name,
+        COUNT(d.id)::int AS documents,
+        COUNT(d.id) FILTER (WHERE d.status IS DISTINCT FROM 'verified')::int AS pending_documents
+      FROM enrollments e
+      JOIN schools s ON s.id = e.school_id
+      LEFT JOIN courses co ON co.id = e.course_id
+      JOIN students st ON st.id = e.student_id
+      JOIN users u ON u.id = st.user_id
+      LEFT JOIN documents d ON d.enrollment_id = e.id
+      WHERE e.school_id = $1
+        AND COALESCE(e.status, 'pending') <> ALL($2::text[])
+        AND (cardinality($3::int[]) = 0 OR e.course_id = ANY($3::int[]))
+      GROUP BY e.id, u.full_name, u.phone, co.name, s.name
+      HAVING COUNT(d.id) = 0 OR COUNT(d.id) FILTER (WHERE d.status IS DISTINCT FROM 'verified') > 0
+      ORDER BY e.id
+    `, [schoolId, FINAL_ENROLLMENT_STATUSES, courseIds]);
+
+    return rows.map((row: any) => ({
+      referenceType: 'enrollment' as const,
+      referenceId: row.enrollment_id,
+      name: row.full_name,
+      phone: row.phone,
+      variables: {
+        nome: firstName(row.full_name),
+        nome_completo: row.full_name || '',
+        curso: row.course_name || '',
+        escola: row.school_name || '',
+        documentos_pendentes: row.documents === 0 ? 'todos os documentos' : row.pending_documents,
+      },
+    }));
+  }
+
+  /**
+   * Normaliza os telefones, remove duplicados e marca descadastrados e
+   * telefones inválidos para que apareçam no relatório sem receber mensagem
+   */
+  private async buildRecipientRows(schoolId: number, members: AudienceMember[]): Promise<any[]> {
+    const optOuts = await db.execute(`
+      SELECT identifier_key FROM communication_consents
+      WHERE school_id = $1 AND channel = 'whatsapp' AND status = 'revoked'
+    `, [schoolId]);
+    const optedOut = new Set(optOuts.map((row: any) => row.identifier_key));
+
+    const seen = new Set<string>();
+    const rows: any[] = [];
+    for (const member of members) {
+      const phone = member.phone ? normalizeWhatsappNumber(member.phone) : null;
+      const key = phone ? phoneMatchKey(phone) : null;
+      if (key && seen.has(key)) continue;
+      if (key) seen.add(key);
+
+      const skipReason: RecipientSkipReason | null = !key ? 'invalid_phone' : optedOut.has(key) ? 'opt_out' : null;
+      rows.push({
+        reference_type: member.referenceType,
+        reference_id: member.referenceId,
+        name: member.name,
+        phone,
+        phone_key: key,
+        variables: member.variables,
+        status: skipReason ? 'skipped' : 'pending',
+        skip_reason: skipReason,
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Inicia as campanhas agendadas cujo horário chegou e monta o público das
+   * que ainda não o têm
+   */
+  private async startScheduledCampaigns(): Promise<number> {
+    const started = await db.execute(`
+      UPDATE whatsapp_campaigns
+      SET status = 'sending', started_at = COALESCE(started_at, NOW()), updated_at = NOW()
+      WHERE id IN (
+        SELECT id FROM whatsapp_campaigns
+        WHERE status = 'scheduled' AND scheduled_at <= NOW()
+        ORDER BY scheduled_at
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `);
+
+    const campaigns = await db.execute(`
+      SELECT * FROM whatsapp_campaigns WHERE status = 'sending' AND audience_built_at IS NULL
+    `);
+
+    for (const campaign of campaigns) {
+      try {
+        await this.buildAudience(campaign);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Erro desconhecido';
+        console.error(`[WhatsappCampaign] Erro ao montar o público da campanha ${campaign.id}:`, error);
+        await db.execute(`
+          UPDATE whatsapp_campaigns SET status = 'paused', last_error = $2, updated_at = NOW()
+          WHERE id = $1 AND status = 'sending'
+        `, [campaign.id, message]);
+        await sendSchoolNotification(campaign.school_id, {
+          title: 'Campanha pausada',
+          message: `A campanha "${campaign.name}" foi pausada: ${message}`,
+          type: 'message',
+          relatedId: campaign.id,
+          relatedType: 'whatsapp_campaign',
+        });
+      }
+    }
+
+    return started.length;
+  }
+
+  /**
+   * Grava os destinatários da campanha e fixa a instância de envio. Pode ser
+   * repetida sem duplicar destinatários
+   */
+  private async buildAudience(campaign: any): Promise<void> {
+    let instanceId = campaign.instance_id;
+    if (!instanceId) {
+      const [instance] = await db.execute(`
+        SELECT id FROM whatsapp_instances
+        WHERE school_id = $1 AND active IS NOT FALSE
+        ORDER BY (status = 'connected') DESC, id
+        LIMIT 1
+      `, [campaign.school_id]);
+      if (!instance) throw new Error('Escola sem instância de WhatsApp');
+      instanceId = instance.id;
+    }
+
+    const members = await this.resolveAudience(campaign.school_id, campaign.audience);
+    const rows = await this.buildRecipientRows(campaign.school_id, members);
+
+    if (rows.length > 0) {
+      await db.execute(`
+        INSERT INTO whatsapp_campaign_recipients (campaign_id, reference_type, reference_id, name, phone, phone_key, variables, status, skip_reason)
+        SELECT $1, r.reference_type, r.reference_id, r.name, r.phone, r.phone_key, r.variables, r.status, r.skip_reason
+        FROM jsonb_to_recordset($2::jsonb) AS r(
+          reference_type TEXT, reference_id INTEGER, name TEXT, phone TEXT, phone_key TEXT,
+          variables JSONB, status TEXT, skip_reason TEXT
+        )
+        WHERE r.phone_key IS NOT NULL OR NOT EXISTS (
+          SELECT 1 FROM whatsapp_campaign_recipients x
+          WHERE x.campaign_id = $1 AND x.reference_type = r.reference_type AND x.reference_id = r.reference_id
+        )
+        ON CONFLICT (campaign_id, phone_key) DO NOTHING
+      `, [campaign.id, JSON.stringify(rows)]);
+    }
+
+    await db.execute(`
+      UPDATE whatsapp_campaigns SET instance_id = $2, audience_built_at = NOW(), updated_at = NOW()
+      WHERE id = $1
+    `, [campaign.id, instanceId]);
+  }
+
+  /**
+   * Envia no máximo uma mensagem por instância conectada cujo intervalo já
+   * passou, sem ultrapassar o teto por hora
+   * @returns Quantidade de mensagens enviadas
+   */
+  private async sendNextMessages(): Promise<number> {
+    await db.execute(`
+      UPDATE whatsapp_campaign_recipients
+      SET status = 'failed', error = 'Envio interrompido antes da confirmação', locked_at = NULL
+      WHERE status = 'sending' AND locked_at < NOW() - ($1 || ' minutes')::interval
+    `, [STALE_SEND_MINUTES]);
+
+    const instances = await db.execute(`
+      SELECT DISTINCT i.id, i.instance_key
+      FROM whatsapp_campaigns c
+      JOIN whatsapp_instances i ON i.id = c.instance_id
+      WHERE c.status = 'sending' AND c.audience_built_at IS NOT NULL
+        AND i.status = 'connected' AND i.active IS NOT FALSE
+        AND EXISTS (
+          SELECT 1 FROM whatsapp_campaign_recipients r
+          WHERE r.campaign_id = c.id AND r.status = 'pending'
+        )
+    `);
+
+    let sent = 0;
+    for (const instance of instances) {
+      try {
+        if (await this.sendNextForInstance(instance)) sent++;
+      } catch (error) {
+        console.error(`[WhatsappCampaign] Erro no envio pela instância ${instance.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendNextForInstance(instance: { id: number; instance_key: string }): Promise<boolean> {
+    const [usage] = await db.execute(`
+      SELECT COUNT(*)::int AS sent FROM whatsapp_campaign_recipients
+      WHERE instance_id = $1 AND sent_at > NOW() - INTERVAL '1 hour'
+    `, [instance.id]);
+    if ((usage?.sent ?? 0) >= HOURLY_LIMIT_PER_INSTANCE) return false;
+
+    // Reserva a vez da instância; o intervalo definitivo é gravado após o envio
+    const [slot] = await db.execute(`
+      INSERT INTO whatsapp_campaign_pacing (instance_id, next_send_at)
+      VALUES ($1, NOW() + ($2 || ' seconds')::interval)
+      ON CONFLICT (instance_id) DO UPDATE SET next_send_at = EXCLUDED.next_send_at
+      WHERE whatsapp_campaign_pacing.next_send_at <= NOW()
+      RETURNING instance_id
+    `, [instance.id, MIN_DELAY_SECONDS]);
+    if (!slot) return false;
+
+    const [recipient] = await db.execute(`
+      UPDATE whatsapp_campaign_recipients SET status = 'sending', instance_id = $1, locked_at = NOW()
+      WHERE id = (
+        SELECT r.id
+        FROM whatsapp_campaign_recipients r
+        JOIN whatsapp_campaigns c ON c.id = r.campaign_id
+        WHERE c.instance_id = $1 AND c.status = 'sending' AND r.status = 'pending'
+        ORDER BY c.started_at, c.id, r.id
+        LIMIT 1
+        FOR UPDATE OF r SKIP LOCKED
+      )
+      RETURNING *
+    `, [instance.id]);
+    if (!recipient) return false;
+
+    const [campaign] = await db.execute(`
+      SELECT c.*, t.content AS template_content, t.status AS template_status, t.active AS template_active
+      FROM whatsapp_campaigns c
+      LEFT JOIN whatsapp_templates t ON t.id = c.template_id
+      WHERE c.id = $1
+    `, [recipient.campaign_id]);
+
+    if (!campaign?.template_content || campaign.template_status !== 'approved' || campaign.template_active === false) {
+      await this.releaseRecipient(recipient.id, instance.id);
+      await db.execute(`
+        UPDATE whatsapp_campaigns SET status = 'paused', last_error = $2, updated_at = NOW()
+        WHERE id = $1 AND status = 'sending'
+      `, [recipient.campaign_id, 'O template da campanha não está mais aprovado']);
+      return false;
+    }
+
+    // Descadastros feitos depois da montagem do público também valem
+    if (!(await consentService.canSend(campaign.school_id, 'whatsapp', recipient.phone))) {
+      await db.execute(`
+        UPDATE whatsapp_campaign_recipients SET status = 'skipped', skip_reason = 'opt_out', locked_at = NULL
+        WHERE id = $1
+      `, [recipient.id]);
+      await db.execute(`UPDATE whatsapp_campaign_pacing SET next_send_at = NOW() WHERE instance_id = $1`, [instance.id]);
+      return false;
+    }
+
+    const content = whatsappTemplateService.replaceVariables(campaign.template_content, recipient.variables || {});
+    let sent = false;
+    try {
+      const response = await getEvolutionApiService().sendTextMessage(instance.instance_key, recipient.phone, content);
+      await db.execute(`
+        UPDATE whatsapp_campaign_recipients
+        SET status = 'sent', message_id = $2, content = $3, sent_at = NOW(), locked_at = NULL
+        WHERE id = $1
+      `, [recipient.id, response?.key?.id ?? null, content]);
+      sent = true;
+    } catch (error) {
+      await db.execute(`
+        UPDATE whatsapp_campaign_recipients SET status = 'failed', error = $2, locked_at = NULL
+        WHERE id = $1
+      `, [recipient.id, error instanceof Error ? error.message : 'Erro desconhecido']);
+    }
+
+    const delay = pickDelaySeconds(campaign.min_delay_seconds, campaign.max_delay_seconds);
+    await db.execute(`
+      UPDATE whatsapp_campaign_pacing SET next_send_at = NOW() + ($2 || ' seconds')::interval WHERE instance_id = $1
+    `, [instance.id, delay]);
+
+    return sent;
+  }
+
+  /**
+   * Devolve o destinatário à fila e libera a vez da instância
+   */
+  private async releaseRecipient(recipientId: number, instanceId: number): Promise<void> {
+    await db.execute(`
+      UPDATE whatsapp_campaign_recipients SET status = 'pending', instance_id = NULL, locked_at = NULL
+      WHERE id = $1
+    `, [recipientId]);
+    await db.execute(`UPDATE whatsapp_campaign_pacing SET next_send_at = NOW() WHERE instance_id = $1`, [instanceId]);
+  }
+
+  /**
+   * Encerra as campanhas em envio sem destinatários pendentes e avisa a escola
+   */
+  private async completeFinishedCampaigns(): Promise<number> {
+    const completed = await db.execute(`
+      UPDATE whatsapp_campaigns c
+      SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+      WHERE c.status = 'sending' AND c.audience_built_at IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM whatsapp_campaign_recipients r
+          WHERE r.campaign_id = c.id AND r.status IN ('pending', 'sending')
+        )
+      RETURNING c.id, c.school_id, c.name
+    `);
+
+    for (const campaign of completed) {
+      await sendSchoolNotification(campaign.school_id, {
+        title: 'Campanha concluída',
+        message: `A campanha "${campaign.name}" terminou os envios.`,
+        type: 'message',
+        relatedId: campaign.id,
+        relatedType: 'whatsapp_campaign',
+      });
+    }
+
+    return completed.length;
+  }
+
+  /**
+   * Muda o status da campanha se ela estiver em um dos status de origem
+   * @param set Trecho SET adicional; parâmetros extras começam em $4
+   */
+  private async transition(schoolId: number, campaignId: number, from: CampaignStatus[], set: string, params: any[], invalidMessage: string): Promise<void> {
+    const [row] = await db.execute(`
+      UPDATE whatsapp_campaigns SET ${set}, updated_at = NOW()
+      WHERE school_id = $1 AND id = $2 AND status = ANY($3::text[])
+      RETURNING id
+    `, [schoolId, campaignId, from, ...params]);
+
+    if (!row) {
+      await this.getCampaign(schoolId, campaignId);
+      throw new Error(invalidMessage);
+    }
+  }
+
+  private async assertTemplateApproved(schoolId: number, templateId: number): Promise<void> {
+    const [template] = await db.execute(`
+      SELECT id FROM whatsapp_templates
+      WHERE id = $1 AND (school_id IS NULL OR school_id = $2) AND active IS NOT FALSE AND status = 'approved'
+    `, [templateId, schoolId]);
+
+    if (!template) {
+      throw new Error('Template não encontrado ou não aprovado');
+    }
+  }
+
+  private async assertInstanceOfSchool(schoolId: number, instanceId: number | null): Promise<void> {
+    if (instanceId === null) return;
+
+    const [instance] = await db.execute(`
+      SELECT id FROM whatsapp_instances WHERE id = $1 AND school_id = $2
+    `, [instanceId, schoolId]);
+
+    if (!instance) {
+      throw new Error('Instância de WhatsApp não pertence à escola');
+    }
+  }
+
+  private campaignSelect(): string {
+    return `
+      SELECT c.*, t.name AS template_name,
+        COUNT(r.id)::int AS total,
+        (COUNT(r.id) FILTER (WHERE r.status IN ('pending', 'sending')))::int AS pending,
+        COUNT(r.sent_at)::int AS sent,
+        COUNT(r.delivered_at)::int AS delivered,
+        COUNT(r.read_at)::int AS read,
+        COUNT(r.replied_at)::int AS replied,
+        (COUNT(r.id) FILTER (WHERE r.status = 'failed'))::int AS failed,
+        (COUNT(r.id) FILTER (WHERE r.status = 'skipped'))::int AS skipped
+      FROM whatsapp_campaigns c
+      LEFT JOIN whatsapp_templates t ON t.id = c.template_id
+      LEFT JOIN whatsapp_campaign_recipients r ON r.campaign_id = c.id
+    `;
+  }
+
+  private mapCampaign(row: any): Campaign {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      templateId: row.template_id,
+      templateName: row.template_name ?? null,
+      instanceId: row.instance_id,
+      audience: row.audience,
+      status: row.status,
+      minDelaySeconds: row.min_delay_seconds,
+      maxDelaySeconds: row.max_delay_seconds,
+      scheduledAt: row.scheduled_at,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+      lastError: row.last_error,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      stats: {
+        total: row.total ?? 0,
+        pending: row.pending ?? 0,
+        sent: row.sent ?? 0,
+        delivered: row.delivered ?? 0,
+        read: row.read ?? 0,
+        replied: row.replied ?? 0,
+        failed: row.failed ?? 0,
+        skipped: row.skipped ?? 0,
+      },
+    };
+  }
+
+  private mapRecipient(row: any): CampaignRecipient {
+    return {
+      id: row.id,
+      name: row.name,
+      phone: row.phone,
+      referenceType: row.reference_type,
+      referenceId: row.reference_id,
+      status: row.status,
+      skipReason: row.skip_reason,
+      error: row.error,
+      sentAt: row.sent_at,
+      deliveredAt: row.delivered_at,
+      readAt: row.read_at,
+      repliedAt: row.replied_at,
+    };
+  }
+}
+
+export const whatsappCampaignService = new WhatsappCampaignService();
+export default whatsappCampaignService;
@@ -0,0 +1,345 @@
+/**
+ * Recebimento de documentos pelo WhatsApp
+ * Imagens e PDFs enviados por alunos, responsáveis ou leads com matrícula em
+ * andamento viram documentos da matrícula: o tipo é identificado pela legenda
+ * ou pelo texto do OCR, o arquivo ocupa a vaga do documento pendente e o
+ * contato recebe a resposta com o que foi reconhecido e o que ainda falta
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { sendSchoolNotification } from '../pusher';
+import { getEvolutionApiService } from './evolutionApi';
+import { advancedOcrService, DocumentType, ValidationResult, ValidationStatus } from './advancedOcr';
+import { mlService } from './mlService';
+import { phoneMatchKey, phoneMatchKeySql } from './consentService';
+
+const UPLOAD_DIR = path.join('uploads', 'whatsapp');
+
+// Mesmo limite do envio de documentos pelo formulário de matrícula
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const ACCEPTED_MIME_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'application/pdf': '.pdf',
+};
+
+// Matrículas nesses status não recebem mais documentos
+const FINAL_ENROLLMENT_STATUSES = ['rejected', 'canceled', 'completed'];
+
+// Tipos de documento da matrícula (documents.type)
+export type EnrollmentDocumentSlot = 'id' | 'address' | 'diploma' | 'transcripts' | 'photo' | 'other';
+
+// Documentos pedidos na etapa de documentos da matrícula
+export const REQUIRED_DOCUMENTS: EnrollmentDocumentSlot[] = ['id', 'address', 'transcripts', 'photo'];
+
+const SLOT_LABELS: Record<EnrollmentDocumentSlot, string> = {
+  id: 'documento de identidade',
+  address: 'comprovante de residência',
+  diploma: 'diploma',
+  transcripts: 'histórico escolar',
+  photo: 'foto',
+  other: 'documento',
+};
+
+// Tipo identificado pelo OCR → vaga do documento na matrícula
+const SLOT_BY_DOCUMENT_TYPE: Record<DocumentType, EnrollmentDocumentSlot> = {
+  rg: 'id',
+  cpf: 'id',
+  birth_certificate: 'id',
+  address_proof: 'address',
+  school_certificate: 'transcripts',
+  other: 'other',
+};
+
+// Campos extraídos mostrados ao contato na resposta
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  number: 'Número',
+  birthDate: 'Nascimento',
+  address: 'Endereço',
+  zipCode: 'CEP',
+  school: 'Escola',
+};
+
+export interface IncomingMedia {
+  schoolId: number;
+  instanceKey: string;
+  from: string;
+  externalId: string;
+  mimeType: string | null;
+  caption?: string | null;
+  fileName?: string | null;
+}
+
+export interface IntakeResult {
+  documentId: number;
+  enrollmentId: number;
+  slot: EnrollmentDocumentSlot;
+  status: ValidationStatus;
+  missing: EnrollmentDocumentSlot[];
+  reply: string;
+}
+
+/**
+ * Vaga do documento pela legenda ou nome do arquivo ("RG", "comprovante")
+ * @returns null quando o texto não indica o documento
+ */
+export async function slotFromCaption(text: string): Promise<EnrollmentDocumentSlot | null> {
+  const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (!normalized.trim()) return null;
+
+  // Foto não tem texto para o OCR; só a legenda identifica
+  if (/\b(foto|3x4|selfie)\b/.test(normalized)) return 'photo';
+
+  const classification = await mlService.classifyDocument(normalized);
+  const slot = SLOT_BY_DOCUMENT_TYPE[classification.prediction as DocumentType];
+  return slot && slot !== 'other' ? slot : null;
+}
+
+/**
+ * Texto de resposta ao contato
+ * @param slot Vaga ocupada pelo arquivo ('other' quando não identificado)
+ * @param extractedData Campos lidos pelo OCR
+ * @param needsReview Se a escola precisa conferir o documento
+ * @param missing Documentos que ainda faltam
+ */
+export function buildIntakeReply(
+  slot: EnrollmentDocumentSlot,
+  extractedData: Record<string, unknown>,
+  needsReview: boolean,
+  missing: EnrollmentDocumentSlot[]
+): string {
+  const lines: string[] = [];
+
+  if (slot === 'other') {
+    lines.push('Recebemos seu arquivo, mas não conseguimos identificar qual documento é. Envie de novo com uma legenda dizendo o que é (por exemplo: RG, comprovante de residência, histórico escolar).');
+  } else {
+    lines.push(`Recebemos seu ${SLOT_LABELS[slot]}.`);
+
+    const fields = Object.entries(FIELD_LABELS)
+      .filter(([field]) => typeof extractedData[field] === 'string' && (extractedData[field] as string).trim())
+      .map(([field, label]) => `${label}: ${extractedData[field]}`);
+    if (fields.length > 0) {
+      lines.push(`Identificamos: ${fields.join('; ')}.`);
+    }
+    if (needsReview) {
+      lines.push('A escola vai conferir o documento e avisa se for preciso reenviar.');
+    }
+  }
+
+  lines.push(missing.length > 0
+    ? `Ainda faltam: ${missing.map(item => SLOT_LABELS[item]).join(', ')}.`
+    : 'Todos os documentos da matrícula foram recebidos.');
+
+  return lines.join('\n');
+}
+
+class WhatsappDocumentIntakeService {
+  /**
+   * Garante o índice que impede registrar duas vezes a mesma mensagem
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_whatsapp_message
+        ON documents ((metadata->>'messageId')) WHERE metadata->>'source' = 'whatsapp';
+    `);
+  }
+
+  /**
+   * Transforma a mídia recebida em documento da matrícula em andamento do
+   * contato, processa com OCR e responde pelo WhatsApp
+   * @returns null quando o contato não tem matrícula em andamento, o
+   * arquivo não é imagem/PDF ou a mensagem já foi recebida
+   */
+  async handleIncomingMedia(media: IncomingMedia): Promise<IntakeResult | null> {
+    const key = phoneMatchKey(media.from.split('@')[0]);
+    if (!key) return null;
+
+    const enrollment = await this.findOpenEnrollment(media.schoolId, key);
+    if (!enrollment) return null;
+
+    // A Evolution API reenvia o webhook quando não recebe resposta a tempo
+    if (await this.isAlreadyReceived(media.externalId)) return null;
+
+    const evolutionApi = getEvolutionApiService();
+    const file = await evolutionApi.downloadMedia(media.instanceKey, media.externalId, MAX_FILE_SIZE);
+    const mimeType = (media.mimeType || file.mimeType || '').split(';')[0].trim();
+    const extension = ACCEPTED_MIME_TYPES[mimeType];
+    if (!extension) return null;
+
+    if (!fs.existsSync(UPLOAD_DIR)) {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    }
+    const fileName = `${uuidv4()}${extension}`;
+    const filePath = path.join(UPLOAD_DIR, fileName);
+    fs.writeFileSync(filePath, file.buffer);
+
+    const [document] = await db.execute(`
+      INSERT INTO documents (enrollment_id, student_id, type, title, file_url, mime_type, file_size, status, metadata)
+      VALUES ($1, $2, 'other', $3, $4, $5, $6, 'pending', $7)
+      ON CONFLICT ((metadata->>'messageId')) WHERE metadata->>'source' = 'whatsapp' DO NOTHING
+      RETURNING id
+    `, [
+      enrollment.id,
+      enrollment.student_id,
+      media.fileName || 'Documento enviado pelo WhatsApp',
+      `/uploads/whatsapp/${fileName}`,
+      mimeType,
+      file.buffer.length,
+      JSON.stringify({ source: 'whatsapp', phone: media.from, messageId: media.externalId, caption: media.caption || null }),
+    ]);
+    if (!document) {
+      // Outra entrega da mesma mensagem registrou o documento primeiro
+      fs.unlinkSync(filePath);
+      return null;
+    }
+
+    let slot = await slotFromCaption([media.caption, media.fileName].filter(Boolean).join(' '));
+    let validation: ValidationResult | null = null;
+
+    // PDFs e fotos ficam para conferência manual; imagens de documentos passam pelo OCR
+    if (mimeType.startsWith('image/') && slot !== 'photo') {
+      const documentType = (Object.keys(SLOT_BY_DOCUMENT_TYPE) as DocumentType[])
+        .find(type => slot && SLOT_BY_DOCUMENT_TYPE[type] === slot) || 'other';
+
+      validation = await advancedOcrService.processDocument(filePath, documentType, document.id, {
+        enrollmentId: enrollment.id,
+      }).catch(error => {
+        console.error(`Erro no OCR do documento ${document.id} recebido pelo WhatsApp:`, error);
+        return null;
+      });
+
+      if (!slot && validation) {
+        const recognized = SLOT_BY_DOCUMENT_TYPE[validation.documentType];
+        slot = recognized && recognized !== 'other' ? recognized : null;
+      }
+    }
+
+    const finalSlot: EnrollmentDocumentSlot = slot || 'other';
+    if (finalSlot !== 'other') {
+      await this.attachToSlot(enrollment.id, document.id, finalSlot, validation);
+    }
+
+    const missing = await this.getMissingDocuments(enrollment.id);
+    const reply = buildIntakeReply(
+      finalSlot,
+      validation?.extractedData || {},
+      validation ? validation.status !== 'valid' && validation.status !== 'pending' : false,
+      missing
+    );
+
+    await evolutionApi.sendTextMessage(media.instanceKey, media.from.split('@')[0], reply).catch(error => {
+      console.error('Erro ao responder documento recebido pelo WhatsApp:', error);
+    });
+
+    await sendSchoolNotification(media.schoolId, {
+      title: 'Documento recebido pelo WhatsApp',
+      message: finalSlot === 'other'
+        ? `${enrollment.student_name} enviou um arquivo não identificado para a matrícula #${enrollment.id}`
+        : `${enrollment.student_name} enviou ${SLOT_LABELS[finalSlot]} para a matrícula #${enrollment.id}`,
+      type: 'enrollment',
+      relatedId: enrollment.id,
+      relatedType: 'enrollment',
+    });
+
+    return {
+      documentId: document.id,
+      enrollmentId: enrollment.id,
+      slot: finalSlot,
+      status: validation?.status ?? 'pending',
+      missing,
+      reply,
+    };
+  }
+
+  /**
+   * Matrícula em andamento mais recente do aluno, de um responsável ou do
+   * lead convertido com o telefone
+   * @param key Chave do telefone (phoneMatchKey)
+   */
+  private async findOpenEnrollment(schoolId: number, key: string): Promise<any | null> {
+    const [enrollment] = await db.execute(`
+      SELECT e.id, e.student_id, u.full_name AS student_name
+      FROM enrollments e
+      JOIN students st ON st.id = e.student_id
+      JOIN users u ON u.id = st.user_id
+      LEFT JOIN leads l ON l.id = e.lead_id
+      WHERE e.school_id = $1
+        AND COALESCE(e.status, 'pending') <> ALL($3::text[])
+        AND (
+          ${phoneMatchKeySql('u.phone')} = $2
+          OR ${phoneMatchKeySql('l.phone')} = $2
+          OR EXISTS (
+            SELECT 1
+            FROM guardian_students gs
+            JOIN guardians gd ON gd.id = gs.guardian_id
+            JOIN users gu ON gu.id = gd.user_id
+            WHERE gs.student_id = e.student_id AND ${phoneMatchKeySql('gu.phone')} = $2
+          )
+        )
+      ORDER BY e.created_at DESC
+      LIMIT 1
+    `, [schoolId, key, FINAL_ENROLLMENT_STATUSES]);
+
+    return enrollment || null;
+  }
+
+  /**
+   * Se a mensagem já virou documento de alguma matrícula
+   */
+  private async isAlreadyReceived(externalId: string): Promise<boolean> {
+    const rows = await db.execute(`
+      SELECT 1 FROM documents
+      WHERE metadata->>'source' = 'whatsapp' AND metadata->>'messageId' = $1
+      LIMIT 1
+    `, [externalId]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Coloca o arquivo na vaga do documento; a versão anterior ainda não
+   * verificada fica expirada
+   */
+  private async attachToSlot(enrollmentId: number, documentId: number, slot: EnrollmentDocumentSlot, validation: ValidationResult | null): Promise<void> {
+    await db.execute(`
+      WITH replaced AS (
+        UPDATE documents SET status = 'expired', updated_at = NOW()
+        WHERE enrollment_id = $1 AND type = $2 AND id <> $3 AND status IN ('pending', 'rejected')
+        RETURNING id
+      )
+      UPDATE documents
+      SET type = $2, title = $4, metadata = COALESCE(metadata, '{}'::jsonb) || $5::jsonb, updated_at = NOW()
+      WHERE id = $3
+    `, [
+      enrollmentId,
+      slot,
+      documentId,
+      SLOT_LABELS[slot].charAt(0).toUpperCase() + SLOT_LABELS[slot].slice(1),
+      JSON.stringify({
+        ocr: validation
+          ? { validationId: validation.id, documentType: validation.documentType, status: validation.status, confidence: validation.confidence }
+          : null,
+      }),
+    ]);
+  }
+
+  /**
+   * Documentos obrigatórios sem arquivo pendente ou verificado
+   */
+  private async getMissingDocuments(enrollmentId: number): Promise<EnrollmentDocumentSlot[]> {
+    const rows = await db.execute(`
+      SELECT DISTINCT type FROM documents
+      WHERE enrollment_id = $1 AND status IN ('pending', 'verified')
+    `, [enrollmentId]);
+    const present = new Set(rows.map((row: any) => row.type));
+
+    return REQUIRED_DOCUMENTS.filter(slot => !present.has(slot));
+  }
+}
+
+export const whatsappDocumentIntakeService = new WhatsappDocumentIntakeService();
+export default whatsappDocumentIntakeService;
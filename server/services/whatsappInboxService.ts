@@ -0,0 +1,682 @@
+/**
+ * Caixa de entrada compartilhada do WhatsApp
+ * Organiza as mensagens de cada contato por instância em conversas com
+ * status (aberta, pendente, resolvida), atendente responsável, etiquetas e
+ * notas internas, mantém o controle de leitura por atendente e avisa a
+ * escola em tempo real pelo canal do Pusher a cada mudança
+ */
+
+import { db } from '../db';
+import { sendSchoolEvent, sendSchoolNotification, sendUserNotification } from '../pusher';
+import { logAction } from './securityService';
+import { getEvolutionApiService } from './evolutionApi';
+import { leadAutomationService } from './leadAutomationService';
+
+const LIST_LIMIT = 100;
+const MESSAGES_LIMIT = 200;
+const PREVIEW_LENGTH = 120;
+
+// Direções de mensagem gravadas; os webhooks legados usam nomes diferentes
+export const INCOMING_DIRECTIONS = ['incoming', 'received', 'inbound'];
+export const OUTGOING_DIRECTIONS = ['outgoing', 'sent', 'outbound'];
+
+// Evento do canal da escola que sinaliza mudanças na caixa de entrada
+const INBOX_EVENT = 'inbox-updated';
+
+export type ConversationStatus = 'open' | 'pending' | 'resolved';
+export type ConversationActivityKind = 'note' | 'assignment' | 'status';
+
+export interface InboxActor {
+  id: number;
+  role: string;
+  fullName?: string;
+}
+
+export interface Conversation {
+  id: number;
+  schoolId: number;
+  instanceId: number;
+  contactId: number;
+  contactName: string | null;
+  contactPhone: string | null;
+  leadId: number | null;
+  status: ConversationStatus;
+  assignedTo: number | null;
+  assignedName: string | null;
+  // Conversa conduzida pelo chatbot, ainda fora da fila dos atendentes
+  botActive: boolean;
+  tags: string[];
+  lastMessageAt: Date | null;
+  lastMessagePreview: string | null;
+  unreadCount: number;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ConversationActivity {
+  id: number;
+  kind: ConversationActivityKind;
+  content: string;
+  userId: number | null;
+  userName: string | null;
+  createdAt: Date;
+}
+
+export interface ConversationFilter {
+  status?: ConversationStatus;
+  // 'me', 'unassigned' (fila, sem as conduzidas pelo chatbot) ou o ID de um atendente
+  assigned?: string;
+  tag?: string;
+  search?: string;
+}
+
+class WhatsappInboxService {
+  /**
+   * Cria as tabelas de conversas, atividades e leitura e gera as conversas
+   * das mensagens já recebidas
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS whatsapp_conversations (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        instance_id INTEGER NOT NULL,
+        contact_id INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        assigned_to INTEGER,
+        tags JSONB NOT NULL DEFAULT '[]',
+        last_message_at TIMESTAMP,
+        last_message_preview TEXT,
+        resolved_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (instance_id, contact_id)
+      );
+
+      ALTER TABLE IF EXISTS whatsapp_conversations
+        ADD COLUMN IF NOT EXISTS bot_active BOOLEAN NOT NULL DEFAULT FALSE;
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_conversations_school
+        ON whatsapp_conversations(school_id, status, last_message_at DESC);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_conversation_activities (
+        id SERIAL PRIMARY KEY,
+        conversation_id INTEGER NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'note',
+        content TEXT NOT NULL,
+        user_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_conversation_activities_conversation
+        ON whatsapp_conversation_activities(conversation_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_conversation_reads (
+        conversation_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        last_read_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (conversation_id, user_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_conversation
+        ON whatsapp_messages(instance_id, contact_id, created_at);
+
+      INSERT INTO whatsapp_conversations (school_id, instance_id, contact_id, last_message_at)
+      SELECT i.school_id, m.instance_id, m.contact_id, MAX(m.created_at)
+      FROM whatsapp_messages m
+      JOIN whatsapp_instances i ON i.id = m.instance_id
+      WHERE i.school_id IS NOT NULL
+      GROUP BY i.school_id, m.instance_id, m.contact_id
+      ON CONFLICT (instance_id, contact_id) DO NOTHING;
+    `);
+  }
+
+  /**
+   * Registra uma mensagem recebida na conversa do contato, reabrindo-a se
+   * estiver pendente ou resolvida
+   * @returns Conversa atualizada com o atendente responsável
+   */
+  async handleIncomingMessage(schoolId: number, instanceId: number, contactId: number, content: string | null): Promise<{ id: number; assignedTo: number | null }> {
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_conversations (school_id, instance_id, contact_id, status, last_message_at, last_message_preview)
+      VALUES ($1, $2, $3, 'open', NOW(), $4)
+      ON CONFLICT (instance_id, contact_id) DO UPDATE
+      SET status = 'open',
+          resolved_at = NULL,
+          last_message_at = NOW(),
+          last_message_preview = EXCLUDED.last_message_preview,
+          updated_at = NOW()
+      RETURNING id, assigned_to
+    `, [schoolId, instanceId, contactId, this.preview(content)]);
+    if (!row) {
+      throw new Error('Erro ao registrar conversa');
+    }
+
+    await sendSchoolEvent(schoolId, INBOX_EVENT, { conversationId: row.id, reason: 'message' });
+
+    return { id: row.id, assignedTo: row.assigned_to };
+  }
+
+  /**
+   * Conversas da escola com o total de mensagens não lidas pelo usuário
+   * @param schoolId ID da escola
+   * @param userId Usuário que consulta
+   * @param filter Status, responsável, etiqueta e busca por nome ou telefone
+   */
+  async listConversations(schoolId: number, userId: number, filter: ConversationFilter = {}): Promise<Conversation[]> {
+    let assignedTo: number | null = null;
+    let unassigned = false;
+    if (filter.assigned === 'me') {
+      assignedTo = userId;
+    } else if (filter.assigned === 'unassigned') {
+      unassigned = true;
+    } else if (filter.assigned && /^\d+$/.test(filter.assigned)) {
+      assignedTo = parseInt(filter.assigned);
+    }
+
+    const rows = await db.execute(`
+      ${this.conversationSelect()}
+      WHERE c.school_id = $1
+        AND ($3::text IS NULL OR c.status = $3)
+        AND ($4::int IS NULL OR c.assigned_to = $4)
+        AND ($5::boolean IS NOT TRUE OR (c.assigned_to IS NULL AND c.bot_active IS NOT TRUE))
+        AND ($6::text IS NULL OR c.tags ? $6)
+        AND ($7::text IS NULL OR ct.name ILIKE '%' || $7 || '%' OR ct.phone_number LIKE '%' || $7 || '%')
+      ORDER BY c.last_message_at DESC NULLS LAST, c.id DESC
+      LIMIT ${LIST_LIMIT}
+    `, [
+      schoolId,
+      userId,
+      filter.status ?? null,
+      assignedTo,
+      unassigned,
+      filter.tag ?? null,
+      filter.search?.trim() || null,
+    ]);
+
+    return rows.map((row: any) => this.mapConversation(row));
+  }
+
+  /**
+   * Mensagens não lidas pelo usuário nas conversas em andamento que são dele
+   * e nas que aguardam atendente na fila
+   * @param schoolId ID da escola
+   * @param userId Usuário que consulta
+   */
+  async getUnreadCounts(schoolId: number, userId: number): Promise<{ mine: number; unassigned: number }> {
+    const [row] = await db.execute(`
+      SELECT
+        COALESCE(SUM(unread) FILTER (WHERE assigned_to = $2), 0)::int AS mine,
+        COALESCE(SUM(unread) FILTER (WHERE assigned_to IS NULL AND bot_active IS NOT TRUE), 0)::int AS unassigned
+      FROM (
+        SELECT c.assigned_to, c.bot_active, ${this.unreadCountSql()} AS unread
+        FROM whatsapp_conversations c
+        LEFT JOIN whatsapp_conversation_reads r ON r.conversation_id = c.id AND r.user_id = $2
+        WHERE c.school_id = $1 AND c.status <> 'resolved'
+      ) counts
+    `, [schoolId, userId]);
+
+    return { mine: row?.mine ?? 0, unassigned: row?.unassigned ?? 0 };
+  }
+
+  /**
+   * Conversa com o total de não lidas pelo usuário
+   * @param conversationId ID da conversa
+   * @param userId Usuário que consulta
+   */
+  async getConversation(conversationId: number, userId: number): Promise<Conversation | null> {
+    const [row] = await db.execute(`
+      ${this.conversationSelect()}
+      WHERE c.id = $1
+    `, [conversationId, userId]);
+    return row ? this.mapConversation(row) : null;
+  }
+
+  /**
+   * Mensagens da conversa, em ordem cronológica
+   * @param conversationId ID da conversa
+   */
+  async getMessages(conversationId: number): Promise<any[]> {
+    const rows = await db.execute(`
+      SELECT * FROM (
+        SELECT m.id, m.content, m.direction, m.status, m.media_type, m.media_url, m.metadata, m.created_at
+        FROM whatsapp_conversations c
+        JOIN whatsapp_messages m ON m.instance_id = c.instance_id AND m.contact_id = c.contact_id
+        WHERE c.id = $1
+        ORDER BY m.created_at DESC
+        LIMIT ${MESSAGES_LIMIT}
+      ) recent
+      ORDER BY created_at
+    `, [conversationId]);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      content: row.content,
+      direction: INCOMING_DIRECTIONS.includes(row.direction) ? 'incoming' : 'outgoing',
+      status: row.status,
+      mediaType: row.media_type,
+      mediaUrl: row.media_url,
+      sentBy: row.metadata?.sentByName ?? null,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Notas internas e histórico de atribuições e status da conversa
+   * @param conversationId ID da conversa
+   */
+  async getActivities(conversationId: number): Promise<ConversationActivity[]> {
+    const rows = await db.execute(`
+      SELECT a.*, u.full_name AS user_name
+      FROM whatsapp_conversation_activities a
+      LEFT JOIN users u ON u.id = a.user_id
+      WHERE a.conversation_id = $1
+      ORDER BY a.created_at
+    `, [conversationId]);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      content: row.content,
+      userId: row.user_id,
+      userName: row.user_name ?? null,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Envia uma mensagem ao contato pela instância da conversa; a conversa
+   * sem responsável passa a ser de quem respondeu
+   * @param conversationId ID da conversa
+   * @param content Texto da mensagem
+   * @param actor Usuário que envia
+   */
+  async sendMessage(conversationId: number, content: string, actor: InboxActor): Promise<any> {
+    const conversation = await this.getConversationRow(conversationId);
+    await this.claimForReply(conversation, actor);
+
+    // Resposta de uma pessoa encerra a condução pelo chatbot
+    const message = await this.deliver(conversation, content, {
+      sentByUserId: actor.id,
+      sentByName: actor.fullName ?? null,
+      conversationId,
+    }, true);
+
+    await this.markRead(conversationId, actor.id);
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'message' });
+
+    await leadAutomationService.recordFirstResponseByPhone(conversation.school_id, conversation.contact_phone || '').catch(error => {
+      console.error('Erro ao registrar primeira resposta ao lead:', error);
+    });
+
+    return message;
+  }
+
+  /**
+   * Envia uma mensagem automática (chatbot, campanhas) na conversa, sem
+   * alterar o responsável
+   * @param conversationId ID da conversa
+   * @param content Texto da mensagem
+   * @param metadata Origem da mensagem, gravada junto dela
+   */
+  async sendAutomatedMessage(conversationId: number, content: string, metadata: Record<string, any>): Promise<{ id: number | null; createdAt: Date }> {
+    const conversation = await this.getConversationRow(conversationId);
+    const message = await this.deliver(conversation, content, { ...metadata, conversationId }, false);
+
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'message' });
+
+    return message;
+  }
+
+  /**
+   * Marca se a conversa está sendo conduzida pelo chatbot
+   * @param conversationId ID da conversa
+   * @param active Verdadeiro enquanto o fluxo estiver em andamento
+   */
+  async setBotActive(conversationId: number, active: boolean): Promise<void> {
+    await db.execute(`
+      UPDATE whatsapp_conversations SET bot_active = $2, updated_at = NOW() WHERE id = $1
+    `, [conversationId, active]);
+  }
+
+  /**
+   * Passa a conversa do chatbot para a fila dos atendentes, com uma nota
+   * interna do que foi coletado e aviso para a escola
+   * @param conversationId ID da conversa
+   * @param summary Resumo registrado como nota interna
+   * @param tags Etiquetas acrescentadas à conversa
+   */
+  async handoffFromBot(conversationId: number, summary: string, tags: string[] = []): Promise<void> {
+    const conversation = await this.getConversationRow(conversationId);
+    const merged = Array.from(new Set([
+      ...(conversation.tags || []),
+      ...tags.map(tag => tag.trim().toLowerCase()).filter(Boolean),
+    ]));
+
+    await db.execute(`
+      UPDATE whatsapp_conversations
+      SET bot_active = FALSE, status = 'open', resolved_at = NULL, tags = $2, updated_at = NOW()
+      WHERE id = $1
+    `, [conversationId, JSON.stringify(merged)]);
+
+    await this.recordActivity(conversationId, 'note', summary, null);
+
+    await sendSchoolNotification(conversation.school_id, {
+      title: 'Conversa aguardando atendente',
+      message: `O chatbot transferiu ${conversation.contact_name || conversation.contact_phone} para a equipe.`,
+      type: 'message',
+      relatedId: conversationId,
+      relatedType: 'whatsapp_conversation',
+    });
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'handoff' });
+  }
+
+  /**
+   * Registra uma nota interna, visível só para a equipe
+   * @param conversationId ID da conversa
+   * @param content Texto da nota
+   * @param actor Autor da nota
+   */
+  async addNote(conversationId: number, content: string, actor: InboxActor): Promise<ConversationActivity> {
+    const conversation = await this.getConversationRow(conversationId);
+    const activity = await this.recordActivity(conversationId, 'note', content, actor.id);
+
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'note' });
+
+    return { ...activity, userName: actor.fullName ?? null };
+  }
+
+  /**
+   * Atribui ou transfere a conversa. Atendentes só assumem conversas sem
+   * responsável ou transferem as suas; a escola redistribui qualquer uma
+   * @param conversationId ID da conversa
+   * @param assigneeId Novo responsável ou null para devolver à fila
+   * @param actor Usuário que transfere
+   */
+  async assign(conversationId: number, assigneeId: number | null, actor: InboxActor): Promise<Conversation | null> {
+    const conversation = await this.getConversationRow(conversationId);
+
+    if (actor.role === 'attendant' && conversation.assigned_to !== null && conversation.assigned_to !== actor.id) {
+      throw new Error('Conversa atribuída a outro atendente');
+    }
+    if (actor.role === 'attendant' && conversation.assigned_to === null && assigneeId !== actor.id) {
+      throw new Error('Atendentes só podem assumir conversas sem responsável para si');
+    }
+
+    let assigneeName: string | null = null;
+    if (assigneeId !== null) {
+      const [assignee] = await db.execute(`
+        SELECT id, full_name FROM users
+        WHERE id = $1 AND school_id = $2 AND role IN ('attendant', 'school')
+      `, [assigneeId, conversation.school_id]);
+      if (!assignee) {
+        throw new Error('Atendente não encontrado nesta escola');
+      }
+      assigneeName = assignee.full_name;
+    }
+
+    // Só grava se ninguém mudou o responsável desde a leitura
+    const [updated] = await db.execute(`
+      UPDATE whatsapp_conversations
+      SET assigned_to = $2, updated_at = NOW()
+      WHERE id = $1 AND assigned_to IS NOT DISTINCT FROM $3
+      RETURNING id
+    `, [conversationId, assigneeId, conversation.assigned_to]);
+    if (!updated) {
+      throw new Error('A conversa foi atribuída por outro usuário; atualize e tente novamente');
+    }
+
+    const description = assigneeId === null
+      ? 'Conversa devolvida para a fila'
+      : conversation.assigned_name
+        ? `Conversa transferida de ${conversation.assigned_name} para ${assigneeName}`
+        : `Conversa atribuída a ${assigneeName}`;
+    await this.recordActivity(conversationId, 'assignment', description, actor.id);
+
+    if (assigneeId !== null && assigneeId !== actor.id) {
+      await sendUserNotification(assigneeId, {
+        title: 'Conversa de WhatsApp atribuída a você',
+        message: `${conversation.contact_name || conversation.contact_phone} foi atribuída por ${actor.fullName || 'um colega'}.`,
+        type: 'message',
+        relatedId: conversationId,
+        relatedType: 'whatsapp_conversation',
+      });
+    }
+
+    await logAction(actor.id, 'whatsapp_conversation_assigned', 'whatsapp_conversation', String(conversationId), {
+      from: conversation.assigned_to,
+      to: assigneeId,
+    });
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'assignment' });
+
+    return this.getConversation(conversationId, actor.id);
+  }
+
+  /**
+   * Altera o status da conversa
+   * @param conversationId ID da conversa
+   * @param status Novo status
+   * @param actor Usuário que altera
+   */
+  async setStatus(conversationId: number, status: ConversationStatus, actor: InboxActor): Promise<Conversation | null> {
+    const conversation = await this.getConversationRow(conversationId);
+    this.assertCanReply(conversation, actor);
+    if (conversation.status === status) {
+      return this.getConversation(conversationId, actor.id);
+    }
+
+    await db.execute(`
+      UPDATE whatsapp_conversations
+      SET status = $2,
+          resolved_at = CASE WHEN $2 = 'resolved' THEN NOW() ELSE NULL END,
+          updated_at = NOW()
+      WHERE id = $1
+    `, [conversationId, status]);
+
+    const labels: Record<ConversationStatus, string> = { open: 'aberta', pending: 'pendente', resolved: 'resolvida' };
+    await this.recordActivity(conversationId, 'status', `Conversa marcada como ${labels[status]}`, actor.id);
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'status' });
+
+    return this.getConversation(conversationId, actor.id);
+  }
+
+  /**
+   * Substitui as etiquetas da conversa
+   * @param conversationId ID da conversa
+   * @param tags Etiquetas, sem repetição
+   * @param actor Usuário que altera
+   */
+  async setTags(conversationId: number, tags: string[], actor: InboxActor): Promise<Conversation | null> {
+    const conversation = await this.getConversationRow(conversationId);
+    const normalized = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+    await db.execute(`
+      UPDATE whatsapp_conversations SET tags = $2, updated_at = NOW() WHERE id = $1
+    `, [conversationId, JSON.stringify(normalized)]);
+
+    await sendSchoolEvent(conversation.school_id, INBOX_EVENT, { conversationId, reason: 'tags' });
+
+    return this.getConversation(conversationId, actor.id);
+  }
+
+  /**
+   * Marca as mensagens da conversa como lidas pelo usuário
+   * @param conversationId ID da conversa
+   * @param userId Usuário que leu
+   */
+  async markRead(conversationId: number, userId: number): Promise<void> {
+    await db.execute(`
+      INSERT INTO whatsapp_conversation_reads (conversation_id, user_id, last_read_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (conversation_id, user_id) DO UPDATE SET last_read_at = NOW()
+    `, [conversationId, userId]);
+  }
+
+  /**
+   * Etiquetas já usadas nas conversas da escola
+   * @param schoolId ID da escola
+   */
+  async listTags(schoolId: number): Promise<string[]> {
+    const rows = await db.execute(`
+      SELECT DISTINCT jsonb_array_elements_text(tags) AS tag
+      FROM whatsapp_conversations
+      WHERE school_id = $1
+      ORDER BY tag
+    `, [schoolId]);
+    return rows.map((row: any) => row.tag);
+  }
+
+  /**
+   * Atendentes e gestores da escola que podem receber conversas
+   * @param schoolId ID da escola
+   */
+  async listAgents(schoolId: number): Promise<{ id: number; fullName: string; role: string }[]> {
+    const rows = await db.execute(`
+      SELECT id, full_name, role FROM users
+      WHERE school_id = $1 AND role IN ('attendant', 'school')
+      ORDER BY full_name
+    `, [schoolId]);
+    return rows.map((row: any) => ({ id: row.id, fullName: row.full_name, role: row.role }));
+  }
+
+  // Envia pela instância da conversa e grava a mensagem de saída
+  private async deliver(conversation: any, content: string, metadata: Record<string, any>, endBot: boolean): Promise<{ id: number | null; createdAt: Date }> {
+    const number = (conversation.contact_phone || '').replace(/\D/g, '');
+    if (!conversation.instance_key || !number) {
+      throw new Error('Conversa sem instância ou telefone para envio');
+    }
+
+    const response = await getEvolutionApiService().sendTextMessage(conversation.instance_key, number, content);
+
+    const [message] = await db.execute(`
+      INSERT INTO whatsapp_messages (instance_id, contact_id, message_id, status, direction, content, metadata)
+      VALUES ($1, $2, $3, 'sent', 'outgoing', $4, $5)
+      RETURNING id, created_at
+    `, [
+      conversation.instance_id,
+      conversation.contact_id,
+      response?.key?.id ?? null,
+      content,
+      JSON.stringify(metadata),
+    ]);
+
+    await db.execute(`
+      UPDATE whatsapp_conversations
+      SET last_message_at = NOW(), last_message_preview = $2,
+          bot_active = CASE WHEN $3 THEN FALSE ELSE bot_active END,
+          updated_at = NOW()
+      WHERE id = $1
+    `, [conversation.id, this.preview(content), endBot]);
+
+    return { id: message?.id ?? null, createdAt: message?.created_at ?? new Date() };
+  }
+
+  private async claimForReply(conversation: any, actor: InboxActor): Promise<void> {
+    if (conversation.assigned_to === null && actor.role === 'attendant') {
+      const [claimed] = await db.execute(`
+        UPDATE whatsapp_conversations SET assigned_to = $2, updated_at = NOW()
+        WHERE id = $1 AND assigned_to IS NULL
+        RETURNING id
+      `, [conversation.id, actor.id]);
+      if (!claimed) {
+        throw new Error('A conversa acabou de ser assumida por outro atendente');
+      }
+      conversation.assigned_to = actor.id;
+      await this.recordActivity(conversation.id, 'assignment', `Conversa assumida por ${actor.fullName || 'atendente'}`, actor.id);
+      return;
+    }
+
+    this.assertCanReply(conversation, actor);
+  }
+
+  private assertCanReply(conversation: any, actor: InboxActor): void {
+    if (actor.role === 'attendant' && conversation.assigned_to !== null && conversation.assigned_to !== actor.id) {
+      throw new Error('Conversa atribuída a outro atendente');
+    }
+  }
+
+  private async getConversationRow(conversationId: number): Promise<any> {
+    const [row] = await db.execute(`
+      SELECT c.*, ct.name AS contact_name, ct.phone_number AS contact_phone,
+        i.instance_key, u.full_name AS assigned_name
+      FROM whatsapp_conversations c
+      JOIN whatsapp_contacts ct ON ct.id = c.contact_id
+      JOIN whatsapp_instances i ON i.id = c.instance_id
+      LEFT JOIN users u ON u.id = c.assigned_to
+      WHERE c.id = $1
+    `, [conversationId]);
+    if (!row) {
+      throw new Error('Conversa não encontrada');
+    }
+    return row;
+  }
+
+  private async recordActivity(conversationId: number, kind: ConversationActivityKind, content: string, userId: number | null): Promise<ConversationActivity> {
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_conversation_activities (conversation_id, kind, content, user_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `, [conversationId, kind, content, userId]);
+
+    return {
+      id: row?.id,
+      kind,
+      content,
+      userId,
+      userName: null,
+      createdAt: row?.created_at ?? new Date(),
+    };
+  }
+
+  // Consulta base das conversas; espera o usuário que consulta em $2
+  private conversationSelect(): string {
+    return `
+      SELECT c.*, ct.name AS contact_name, ct.phone_number AS contact_phone, ct.lead_id,
+        u.full_name AS assigned_name, ${this.unreadCountSql()} AS unread_count
+      FROM whatsapp_conversations c
+      JOIN whatsapp_contacts ct ON ct.id = c.contact_id
+      LEFT JOIN users u ON u.id = c.assigned_to
+      LEFT JOIN whatsapp_conversation_reads r ON r.conversation_id = c.id AND r.user_id = $2
+    `;
+  }
+
+  // Mensagens recebidas depois da última leitura (alias c da conversa e r da leitura)
+  private unreadCountSql(): string {
+    return `(
+      SELECT COUNT(*)::int FROM whatsapp_messages m
+      WHERE m.instance_id = c.instance_id AND m.contact_id = c.contact_id
+        AND m.direction IN (${INCOMING_DIRECTIONS.map(direction => `'${direction}'`).join(', ')})
+        AND m.created_at > COALESCE(r.last_read_at, 'epoch'::timestamp)
+    )`;
+  }
+
+  private preview(content: string | null): string | null {
+    if (!content) return null;
+    return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}…` : content;
+  }
+
+  private mapConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      instanceId: row.instance_id,
+      contactId: row.contact_id,
+      contactName: row.contact_name ?? null,
+      contactPhone: row.contact_phone ?? null,
+      leadId: row.lead_id ?? null,
+      status: row.status,
+      assignedTo: row.assigned_to,
+      assignedName: row.assigned_name ?? null,
+      botActive: row.bot_active === true,
+      tags: row.tags || [],
+      lastMessageAt: row.last_message_at,
+      lastMessagePreview: row.last_message_preview,
+      unreadCount: row.unread_count || 0,
+      resolvedAt: row.resolved_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const whatsappInboxService = new WhatsappInboxService();
+export default whatsappInboxService;
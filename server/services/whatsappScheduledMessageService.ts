@@ -0,0 +1,949 @@
+/**
+ * Mensagens de WhatsApp agendadas e lembretes recorrentes
+ * Atendentes agendam uma mensagem ou template para um contato em data e hora
+ * definidas; a escola cadastra lembretes recorrentes (vencimento de
+ * mensalidade, início das aulas) que geram um envio por cobrança ou matrícula.
+ * Antes de cada envio a condição é conferida de novo, e pagamentos e
+ * matrículas encerradas cancelam os envios pendentes
+ */
+
+import { db } from '../db';
+import { logAction } from './securityService';
+import { DomainEvent, domainEventService } from './domainEventService';
+import { getEvolutionApiService } from './evolutionApi';
+import { whatsappInboxService } from './whatsappInboxService';
+import { whatsappTemplateService } from './whatsappTemplateService';
+import { normalizeWhatsappNumber } from './leadCaptureService';
+import { consentService } from './consentService';
+
+const PROCESS_INTERVAL = 30 * 1000;
+
+// Os lembretes recorrentes são gerados com folga; não precisam rodar a cada ciclo
+const REMINDER_GENERATION_INTERVAL = 10 * 60 * 1000;
+
+const BUSINESS_TIME_ZONE = process.env.BUSINESS_TIME_ZONE || 'America/Sao_Paulo';
+
+// Mensagens enviadas por ciclo do processamento
+const SEND_BATCH_SIZE = 20;
+
+// Ocorrências de lembrete geradas por regra e ciclo
+const GENERATION_BATCH_SIZE = 500;
+
+// Envios sem confirmação há mais que isso são dados como falha, sem reenvio
+const STALE_SEND_MINUTES = 10;
+
+const LIST_LIMIT = 200;
+
+// Matrículas nesses status não recebem mais lembretes
+const FINAL_ENROLLMENT_STATUSES = ['rejected', 'canceled', 'completed'];
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'canceled';
+export type ReminderTrigger = 'tuition_due' | 'class_start';
+
+export interface ScheduledMessageInput {
+  conversationId?: number | null;
+  phone?: string | null;
+  contactName?: string | null;
+  templateId?: number | null;
+  content?: string | null;
+  sendAt: Date;
+  instanceId?: number | null;
+  enrollmentId?: number | null;
+}
+
+export interface ScheduledMessage {
+  id: number;
+  schoolId: number;
+  conversationId: number | null;
+  phone: string;
+  contactName: string | null;
+  templateId: number | null;
+  templateName: string | null;
+  content: string | null;
+  referenceType: string;
+  referenceId: number | null;
+  enrollmentId: number | null;
+  invoiceId: number | null;
+  ruleId: number | null;
+  ruleName: string | null;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  sentAt: Date | null;
+  error: string | null;
+  cancelReason: string | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: Date;
+}
+
+export interface ScheduledMessageFilter {
+  status?: ScheduledMessageStatus;
+  conversationId?: number;
+  ruleId?: number;
+}
+
+export interface ReminderRuleInput {
+  name: string;
+  trigger: ReminderTrigger;
+  templateId: number;
+  daysBefore: number;
+  // Horário do envio no fuso da escola, "HH:MM"
+  sendTime: string;
+  courseId?: number | null;
+  instanceId?: number | null;
+  active?: boolean;
+}
+
+export interface ReminderRule {
+  id: number;
+  schoolId: number;
+  name: string;
+  trigger: ReminderTrigger;
+  templateId: number;
+  templateName: string | null;
+  daysBefore: number;
+  sendTime: string;
+  courseId: number | null;
+  courseName: string | null;
+  instanceId: number | null;
+  active: boolean;
+  pending: number;
+  sent: number;
+  canceled: number;
+  createdAt: Date;
+}
+
+interface ReminderOccurrence {
+  school_id: number;
+  instance_id: number | null;
+  phone: string;
+  contact_name: string | null;
+  template_id: number;
+  variables: Record<string, string | number>;
+  reference_type: 'invoice' | 'enrollment';
+  reference_id: number;
+  invoice_id: number | null;
+  enrollment_id: number;
+  rule_id: number;
+  send_at: Date;
+}
+
+function firstName(fullName: string | null | undefined): string {
+  return (fullName || '').trim().split(/\s+/)[0] || '';
+}
+
+function formatCurrency(value: unknown): string {
+  return Number(value || 0).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
+
+function formatDate(value: unknown): string {
+  return new Date(value as string).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+}
+
+/**
+ * Motivo do cancelamento de um envio quando a matrícula chega a um status final
+ */
+function enrollmentCancelReason(status: string): string {
+  return status === 'completed' ? 'Matrícula concluída' : 'Matrícula cancelada';
+}
+
+class WhatsappScheduledMessageService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private lastGenerationAt = 0;
+
+  /**
+   * Cria as tabelas de mensagens agendadas e regras de lembrete
+   */
+  async ensureTables(): Promise<void> {
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS whatsapp_reminder_rules (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        trigger_type TEXT NOT NULL,
+        template_id INTEGER NOT NULL,
+        days_before INTEGER NOT NULL DEFAULT 1,
+        send_time TEXT NOT NULL DEFAULT '09:00',
+        course_id INTEGER,
+        instance_id INTEGER,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_reminder_rules_school
+        ON whatsapp_reminder_rules(school_id);
+
+      CREATE TABLE IF NOT EXISTS whatsapp_scheduled_messages (
+        id SERIAL PRIMARY KEY,
+        school_id INTEGER NOT NULL,
+        instance_id INTEGER,
+        conversation_id INTEGER,
+        phone TEXT NOT NULL,
+        contact_name TEXT,
+        template_id INTEGER,
+        content TEXT,
+        variables JSONB NOT NULL DEFAULT '{}',
+        reference_type TEXT NOT NULL DEFAULT 'contact',
+        reference_id INTEGER,
+        enrollment_id INTEGER,
+        invoice_id INTEGER,
+        rule_id INTEGER,
+        send_at TIMESTAMP NOT NULL,
+        status TEXT NOT NULL DEFAULT 'scheduled',
+        message_id TEXT,
+        sent_at TIMESTAMP,
+        error TEXT,
+        cancel_reason TEXT,
+        locked_at TIMESTAMP,
+        created_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (rule_id, reference_type, reference_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_scheduled_messages_due
+        ON whatsapp_scheduled_messages(send_at) WHERE status = 'scheduled';
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_scheduled_messages_school
+        ON whatsapp_scheduled_messages(school_id, send_at DESC);
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_scheduled_messages_enrollment
+        ON whatsapp_scheduled_messages(enrollment_id) WHERE status = 'scheduled';
+
+      CREATE INDEX IF NOT EXISTS idx_whatsapp_scheduled_messages_invoice
+        ON whatsapp_scheduled_messages(invoice_id) WHERE status = 'scheduled';
+    `);
+  }
+
+  /**
+   * Assina os eventos de pagamento e de mudança de status da matrícula, que
+   * cancelam os envios pendentes; deve ser chamado antes de iniciar o despacho
+   */
+  registerEventSubscribers(): void {
+    domainEventService.subscribe('whatsapp-scheduled-messages', { eventTypes: ['payment.paid', 'enrollment.status_changed'] }, event => this.handleDomainEvent(event));
+  }
+
+  /**
+   * Inicia a geração dos lembretes e o envio periódico das mensagens agendadas
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        console.error('[WhatsappScheduled] Erro ao processar mensagens agendadas:', error);
+      });
+    }, PROCESS_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async handleDomainEvent(event: DomainEvent): Promise<void> {
+    if (event.type === 'payment.paid') {
+      const paymentId = parseInt(event.payload.paymentId ?? event.aggregateId);
+      await this.cancelPending(`
+        invoice_id IN (SELECT id FROM tuition_invoices WHERE payment_id = $1)
+      `, [paymentId], 'Mensalidade paga');
+    } else if (event.type === 'enrollment.status_changed') {
+      const status = event.payload.status;
+      if (!FINAL_ENROLLMENT_STATUSES.includes(status)) return;
+      await this.cancelPending('enrollment_id = $1', [parseInt(event.aggregateId)], enrollmentCancelReason(status));
+    }
+  }
+
+  /**
+   * Gera os lembretes do período e envia as mensagens cujo horário chegou
+   */
+  async processDue(): Promise<{ generated: number; sent: number; canceled: number; failed: number }> {
+    if (this.processing) return { generated: 0, sent: 0, canceled: 0, failed: 0 };
+    this.processing = true;
+
+    try {
+      let generated = 0;
+      if (Date.now() - this.lastGenerationAt >= REMINDER_GENERATION_INTERVAL) {
+        generated = await this.generateReminders();
+        this.lastGenerationAt = Date.now();
+      }
+
+      await db.execute(`
+        UPDATE whatsapp_scheduled_messages
+        SET status = 'failed', error = 'Envio sem confirmação', locked_at = NULL, updated_at = NOW()
+        WHERE status = 'sending' AND locked_at < NOW() - ($1 || ' minutes')::interval
+      `, [STALE_SEND_MINUTES]);
+
+      const due = await db.execute(`
+        UPDATE whatsapp_scheduled_messages
+        SET status = 'sending', locked_at = NOW(), updated_at = NOW()
+        WHERE id IN (
+          SELECT id FROM whatsapp_scheduled_messages
+          WHERE status = 'scheduled' AND send_at <= NOW()
+          ORDER BY send_at
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `, [SEND_BATCH_SIZE]);
+
+      const result = { generated, sent: 0, canceled: 0, failed: 0 };
+      for (const message of due) {
+        const outcome = await this.sendScheduled(message);
+        result[outcome]++;
+      }
+      return result;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Mensagens agendadas da escola, as próximas primeiro
+   */
+  async listMessages(schoolId: number, filter: ScheduledMessageFilter = {}): Promise<ScheduledMessage[]> {
+    const rows = await db.execute(`
+      ${this.messageSelect()}
+      WHERE m.school_id = $1
+        AND ($2::text IS NULL OR m.status = $2)
+        AND ($3::int IS NULL OR m.conversation_id = $3)
+        AND ($4::int IS NULL OR m.rule_id = $4)
+      ORDER BY (m.status = 'scheduled') DESC,
+        CASE WHEN m.status = 'scheduled' THEN m.send_at END ASC,
+        m.send_at DESC
+      LIMIT $5
+    `, [schoolId, filter.status ?? null, filter.conversationId ?? null, filter.ruleId ?? null, LIST_LIMIT]);
+
+    return rows.map((row: any) => this.mapMessage(row));
+  }
+
+  /**
+   * Agenda uma mensagem ou template para uma conversa da caixa de entrada ou
+   * para um telefone
+   * @param input.enrollmentId Matrícula a que o envio se refere; se ela for
+   * cancelada antes do horário, o envio também é
+   */
+  async scheduleMessage(schoolId: number, input: ScheduledMessageInput, userId: number): Promise<ScheduledMessage> {
+    if (!input.templateId && !input.content?.trim()) {
+      throw new Error('Informe o texto ou escolha um template');
+    }
+    if (input.sendAt.getTime() <= Date.now()) {
+      throw new Error('Escolha uma data e hora no futuro');
+    }
+
+    let phone: string | null;
+    let contactName = input.contactName?.trim() || null;
+    let instanceId = input.instanceId ?? null;
+    let referenceType = 'contact';
+
+    if (input.conversationId) {
+      const [conversation] = await db.execute(`
+        SELECT c.id, c.instance_id, ct.name, ct.phone_number
+        FROM whatsapp_conversations c
+        JOIN whatsapp_contacts ct ON ct.id = c.contact_id
+        WHERE c.id = $1 AND c.school_id = $2
+      `, [input.conversationId, schoolId]);
+      if (!conversation) {
+        throw new Error('Conversa não encontrada');
+      }
+      phone = normalizeWhatsappNumber(conversation.phone_number || '');
+      contactName = contactName || conversation.name || null;
+      instanceId = conversation.instance_id;
+      referenceType = 'conversation';
+    } else {
+      phone = normalizeWhatsappNumber(input.phone || '');
+    }
+
+    if (!phone) {
+      throw new Error('Telefone inválido para WhatsApp');
+    }
+    if (!(await consentService.canSend(schoolId, 'whatsapp', phone))) {
+      throw new Error('O contato pediu para não receber mensagens pelo WhatsApp');
+    }
+    if (input.templateId) {
+      await this.assertTemplateApproved(schoolId, input.templateId);
+    }
+    await this.assertInstanceOfSchool(schoolId, instanceId);
+    if (input.enrollmentId) {
+      const [enrollment] = await db.execute(`
+        SELECT id FROM enrollments WHERE id = $1 AND school_id = $2
+      `, [input.enrollmentId, schoolId]);
+      if (!enrollment) {
+        throw new Error('Matrícula não encontrada');
+      }
+    }
+
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_scheduled_messages (
+        school_id, instance_id, conversation_id, phone, contact_name, template_id, content, variables,
+        reference_type, reference_id, enrollment_id, send_at, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $3, $10, $11, $12)
+      RETURNING id
+    `, [
+      schoolId,
+      instanceId,
+      input.conversationId ?? null,
+      phone,
+      contactName,
+      input.templateId ?? null,
+      input.templateId ? null : input.content!.trim(),
+      JSON.stringify({ nome: firstName(contactName), nome_completo: contactName || '' }),
+      referenceType,
+      input.enrollmentId ?? null,
+      input.sendAt,
+      userId,
+    ]);
+
+    await logAction(userId, 'whatsapp_message_scheduled', 'whatsapp_scheduled_message', String(row.id), {
+      schoolId,
+      sendAt: input.sendAt,
+      conversationId: input.conversationId ?? null,
+    });
+
+    return this.getMessage(schoolId, row.id);
+  }
+
+  /**
+   * Cancela uma mensagem que ainda não foi enviada
+   */
+  async cancelMessage(schoolId: number, messageId: number, userId: number): Promise<ScheduledMessage> {
+    const [row] = await db.execute(`
+      UPDATE whatsapp_scheduled_messages
+      SET status = 'canceled', cancel_reason = 'Cancelada manualmente', updated_at = NOW()
+      WHERE school_id = $1 AND id = $2 AND status = 'scheduled'
+      RETURNING id
+    `, [schoolId, messageId]);
+
+    if (!row) {
+      await this.getMessage(schoolId, messageId);
+      throw new Error('Só é possível cancelar mensagens ainda não enviadas');
+    }
+
+    await logAction(userId, 'whatsapp_scheduled_message_canceled', 'whatsapp_scheduled_message', String(messageId), { schoolId });
+
+    return this.getMessage(schoolId, messageId);
+  }
+
+  async getMessage(schoolId: number, messageId: number): Promise<ScheduledMessage> {
+    const [row] = await db.execute(`
+      ${this.messageSelect()}
+      WHERE m.school_id = $1 AND m.id = $2
+    `, [schoolId, messageId]);
+
+    if (!row) {
+      throw new Error('Mensagem agendada não encontrada');
+    }
+
+    return this.mapMessage(row);
+  }
+
+  /**
+   * Regras de lembrete da escola com os números de envios de cada uma
+   */
+  async listRules(schoolId: number): Promise<ReminderRule[]> {
+    const rows = await db.execute(`
+      ${this.ruleSelect()}
+      WHERE r.school_id = $1
+      GROUP BY r.id, t.name, co.name
+      ORDER BY r.created_at DESC
+    `, [schoolId]);
+
+    return rows.map((row: any) => this.mapRule(row));
+  }
+
+  async createRule(schoolId: number, input: ReminderRuleInput, userId: number): Promise<ReminderRule> {
+    await this.validateRule(schoolId, input);
+
+    const [row] = await db.execute(`
+      INSERT INTO whatsapp_reminder_rules (school_id, name, trigger_type, template_id, days_before, send_time, course_id, instance_id, active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id
+    `, [
+      schoolId,
+      input.name,
+      input.trigger,
+      input.templateId,
+      input.daysBefore,
+      input.sendTime,
+      input.courseId ?? null,
+      input.instanceId ?? null,
+      input.active ?? true,
+      userId,
+    ]);
+
+    await logAction(userId, 'whatsapp_reminder_rule_created', 'whatsapp_reminder_rule', String(row.id), { schoolId, trigger: input.trigger });
+    this.lastGenerationAt = 0;
+
+    return this.getRule(schoolId, row.id);
+  }
+
+  /**
+   * Atualiza a regra. Os envios dela ainda não realizados são descartados e
+   * gerados de novo com a configuração atual (ou não, se a regra foi desativada)
+   */
+  async updateRule(schoolId: number, ruleId: number, input: ReminderRuleInput, userId: number): Promise<ReminderRule> {
+    await this.validateRule(schoolId, input);
+
+    const [row] = await db.execute(`
+      UPDATE whatsapp_reminder_rules
+      SET name = $3, trigger_type = $4, template_id = $5, days_before = $6, send_time = $7,
+          course_id = $8, instance_id = $9, active = $10, updated_at = NOW()
+      WHERE school_id = $1 AND id = $2
+      RETURNING id
+    `, [
+      schoolId,
+      ruleId,
+      input.name,
+      input.trigger,
+      input.templateId,
+      input.daysBefore,
+      input.sendTime,
+      input.courseId ?? null,
+      input.instanceId ?? null,
+      input.active ?? true,
+    ]);
+
+    if (!row) {
+      throw new Error('Lembrete não encontrado');
+    }
+
+    await db.execute(`
+      DELETE FROM whatsapp_scheduled_messages WHERE rule_id = $1 AND status = 'scheduled'
+    `, [ruleId]);
+
+    await logAction(userId, 'whatsapp_reminder_rule_updated', 'whatsapp_reminder_rule', String(ruleId), { schoolId, active: input.active ?? true });
+    this.lastGenerationAt = 0;
+
+    return this.getRule(schoolId, ruleId);
+  }
+
+  /**
+   * Exclui a regra e cancela os envios dela ainda não realizados
+   */
+  async deleteRule(schoolId: number, ruleId: number, userId: number): Promise<void> {
+    const [row] = await db.execute(`
+      DELETE FROM whatsapp_reminder_rules WHERE school_id = $1 AND id = $2 RETURNING id
+    `, [schoolId, ruleId]);
+
+    if (!row) {
+      throw new Error('Lembrete não encontrado');
+    }
+
+    await this.cancelPending('rule_id = $1', [ruleId], 'Lembrete excluído');
+    await logAction(userId, 'whatsapp_reminder_rule_deleted', 'whatsapp_reminder_rule', String(ruleId), { schoolId });
+  }
+
+  async getRule(schoolId: number, ruleId: number): Promise<ReminderRule> {
+    const [row] = await db.execute(`
+      ${this.ruleSelect()}
+      WHERE r.school_id = $1 AND r.id = $2
+      GROUP BY r.id, t.name, co.name
+    `, [schoolId, ruleId]);
+
+    if (!row) {
+      throw new Error('Lembrete não encontrado');
+    }
+
+    return this.mapRule(row);
+  }
+
+  /**
+   * Opções dos formulários: templates aprovados, instâncias e cursos da escola
+   */
+  async getOptions(schoolId: number): Promise<{ templates: any[]; instances: any[]; courses: any[] }> {
+    const templates = await db.execute(`
+      SELECT id, name, content FROM whatsapp_templates
+      WHERE (school_id IS NULL OR school_id = $1) AND active IS NOT FALSE AND status = 'approved'
+      ORDER BY name
+    `, [schoolId]);
+    const instances = await db.execute(`
+      SELECT id, name, status FROM whatsapp_instances
+      WHERE school_id = $1 AND active IS NOT FALSE
+      ORDER BY id
+    `, [schoolId]);
+    const courses = await db.execute(`
+      SELECT id, name, start_date FROM courses WHERE school_id = $1 ORDER BY name
+    `, [schoolId]);
+
+    return {
+      templates: templates.map((row: any) => ({ id: row.id, name: row.name, content: row.content })),
+      instances: instances.map((row: any) => ({ id: row.id, name: row.name, status: row.status })),
+      courses: courses.map((row: any) => ({ id: row.id, name: row.name, startDate: row.start_date })),
+    };
+  }
+
+  /**
+   * Gera um envio por cobrança ou matrícula que entrou na janela de cada regra
+   * ativa. Ocorrências já geradas (enviadas ou canceladas) não se repetem
+   * @returns Quantidade de envios agendados
+   */
+  async generateReminders(): Promise<number> {
+    const occurrences: ReminderOccurrence[] = [];
+
+    // Lembrete de mensalidade vai para o responsável financeiro quando houver; senão, para o aluno
+    const invoices = await db.execute(`
+      SELECT r.id AS rule_id, r.school_id, r.template_id, r.instance_id,
+        ti.id AS invoice_id, ti.enrollment_id, ti.due_date, ti.current_amount,
+        u.full_name AS student_name, co.name AS course_name, s.name AS school_name,
+        COALESCE(g.full_name, u.full_name) AS payer_name,
+        COALESCE(g.phone, u.phone) AS payer_phone,
+        ((ti.due_date - r.days_before) + r.send_time::time) AT TIME ZONE $1 AS send_at
+      FROM whatsapp_reminder_rules r
+      JOIN tuition_invoices ti ON ti.school_id = r.school_id
+      JOIN schools s ON s.id = ti.school_id
+      JOIN enrollments e ON e.id = ti.enrollment_id
+      LEFT JOIN courses co ON co.id = e.course_id
+      JOIN students st ON st.id = ti.student_id
+      JOIN users u ON u.id = st.user_id
+      LEFT JOIN LATERAL (
+        SELECT gu.full_name, gu.phone
+        FROM guardian_students gs
+        JOIN guardians gd ON gd.id = gs.guardian_id
+        JOIN users gu ON gu.id = gd.user_id
+        WHERE gs.student_id = ti.student_id AND gs.financial_responsible = TRUE AND gu.phone IS NOT NULL
+        LIMIT 1
+      ) g ON TRUE
+      WHERE r.trigger_type = 'tuition_due' AND r.active = TRUE
+        AND (r.course_id IS NULL OR r.course_id = e.course_id)
+        AND ti.kind = 'tuition' AND ti.status IN ('scheduled', 'open')
+        AND ti.due_date >= (NOW() AT TIME ZONE $1)::date
+        AND ti.due_date - r.days_before <= (NOW() AT TIME ZONE $1)::date
+        AND NOT EXISTS (
+          SELECT 1 FROM whatsapp_scheduled_messages m
+          WHERE m.rule_id = r.id AND m.reference_type = 'invoice' AND m.reference_id = ti.id
+        )
+      ORDER BY ti.due_date
+      LIMIT $2
+    `, [BUSINESS_TIME_ZONE, GENERATION_BATCH_SIZE]);
+
+    for (const row of invoices) {
+      const phone = normalizeWhatsappNumber(row.payer_phone || '');
+      if (!phone) continue;
+      occurrences.push({
+        school_id: row.school_id,
+        instance_id: row.instance_id,
+        phone,
+        contact_name: row.payer_name,
+        template_id: row.template_id,
+        variables: {
+          nome: firstName(row.payer_name),
+          aluno: row.student_name || '',
+          curso: row.course_name || '',
+          escola: row.school_name || '',
+          valor: formatCurrency(row.current_amount),
+          vencimento: formatDate(row.due_date),
+        },
+        reference_type: 'invoice',
+        reference_id: row.invoice_id,
+        invoice_id: row.invoice_id,
+        enrollment_id: row.enrollment_id,
+        rule_id: row.rule_id,
+        send_at: row.send_at,
+      });
+    }
+
+    const enrollments = await db.execute(`
+      SELECT r.id AS rule_id, r.school_id, r.template_id, r.instance_id,
+        e.id AS enrollment_id, co.name AS course_name, co.start_date::date AS start_date,
+        u.full_name, u.phone, s.name AS school_name,
+        ((co.start_date::date - r.days_before) + r.send_time::time) AT TIME ZONE $1 AS send_at
+      FROM whatsapp_reminder_rules r
+      JOIN enrollments e ON e.school_id = r.school_id
+      JOIN courses co ON co.id = e.course_id
+      JOIN schools s ON s.id = e.school_id
+      JOIN students st ON st.id = e.student_id
+      JOIN users u ON u.id = st.user_id
+      WHERE r.trigger_type = 'class_start' AND r.active = TRUE
+        AND (r.course_id IS NULL OR r.course_id = e.course_id)
+        AND e.status <> ALL($3::text[])
+        AND co.start_date IS NOT NULL
+        AND co.start_date::date >= (NOW() AT TIME ZONE $1)::date
+        AND co.start_date::date - r.days_before <= (NOW() AT TIME ZONE $1)::date
+        AND NOT EXISTS (
+          SELECT 1 FROM whatsapp_scheduled_messages m
+          WHERE m.rule_id = r.id AND m.reference_type = 'enrollment' AND m.reference_id = e.id
+        )
+      ORDER BY co.start_date
+      LIMIT $2
+    `, [BUSINESS_TIME_ZONE, GENERATION_BATCH_SIZE, FINAL_ENROLLMENT_STATUSES]);
+
+    for (const row of enrollments) {
+      const phone = normalizeWhatsappNumber(row.phone || '');
+      if (!phone) continue;
+      occurrences.push({
+        school_id: row.school_id,
+        instance_id: row.instance_id,
+        phone,
+        contact_name: row.full_name,
+        template_id: row.template_id,
+        variables: {
+          nome: firstName(row.full_name),
+          nome_completo: row.full_name || '',
+          curso: row.course_name || '',
+          escola: row.school_name || '',
+          data_inicio: formatDate(row.start_date),
+        },
+        reference_type: 'enrollment',
+        reference_id: row.enrollment_id,
+        invoice_id: null,
+        enrollment_id: row.enrollment_id,
+        rule_id: row.rule_id,
+        send_at: row.send_at,
+      });
+    }
+
+    if (occurrences.length === 0) return 0;
+
+    // Horários que já passaram no dia de hoje saem no próximo ciclo
+    const inserted = await db.execute(`
+      INSERT INTO whatsapp_scheduled_messages (
+        school_id, instance_id, phone, contact_name, template_id, variables,
+        reference_type, reference_id, invoice_id, enrollment_id, rule_id, send_at
+      )
+      SELECT o.school_id, o.instance_id, o.phone, o.contact_name, o.template_id, o.variables,
+        o.reference_type, o.reference_id, o.invoice_id, o.enrollment_id, o.rule_id, GREATEST(o.send_at, NOW())
+      FROM jsonb_to_recordset($1::jsonb) AS o(
+        school_id INTEGER, instance_id INTEGER, phone TEXT, contact_name TEXT, template_id INTEGER, variables JSONB,
+        reference_type TEXT, reference_id INTEGER, invoice_id INTEGER, enrollment_id INTEGER, rule_id INTEGER, send_at TIMESTAMPTZ
+      )
+      ON CONFLICT (rule_id, reference_type, reference_id) DO NOTHING
+      RETURNING id
+    `, [JSON.stringify(occurrences)]);
+
+    return inserted.length;
+  }
+
+  /**
+   * Confere de novo a condição do envio e entrega a mensagem já reservada
+   */
+  private async sendScheduled(message: any): Promise<'sent' | 'canceled' | 'failed'> {
+    const cancelReason = await this.findCancelReason(message);
+    if (cancelReason) {
+      await db.execute(`
+        UPDATE whatsapp_scheduled_messages
+        SET status = 'canceled', cancel_reason = $2, locked_at = NULL, updated_at = NOW()
+        WHERE id = $1
+      `, [message.id, cancelReason]);
+      return 'canceled';
+    }
+
+    try {
+      let text: string = message.content || '';
+      if (message.template_id) {
+        const [template] = await db.execute(`
+          SELECT content FROM whatsapp_templates
+          WHERE id = $1 AND active IS NOT FALSE AND status = 'approved'
+        `, [message.template_id]);
+        if (!template?.content) {
+          throw new Error('Template não encontrado ou não aprovado');
+        }
+        text = template.content;
+      }
+      const content = whatsappTemplateService.replaceVariables(text, message.variables || {});
+
+      let externalId: string | null = null;
+      if (message.conversation_id) {
+        await whatsappInboxService.sendAutomatedMessage(message.conversation_id, content, { scheduledMessageId: message.id });
+      } else {
+        const instance = await this.resolveInstance(message.school_id, message.instance_id);
+        const response = await getEvolutionApiService().sendTextMessage(instance.instance_key, message.phone, content);
+        externalId = response?.key?.id ?? null;
+      }
+
+      await db.execute(`
+        UPDATE whatsapp_scheduled_messages
+        SET status = 'sent', content = $2, message_id = $3, sent_at = NOW(), locked_at = NULL, error = NULL, updated_at = NOW()
+        WHERE id = $1
+      `, [message.id, content, externalId]);
+      return 'sent';
+    } catch (error) {
+      await db.execute(`
+        UPDATE whatsapp_scheduled_messages
+        SET status = 'failed', error = $2, locked_at = NULL, updated_at = NOW()
+        WHERE id = $1
+      `, [message.id, error instanceof Error ? error.message : 'Erro desconhecido']);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Motivo para não enviar: cobrança paga ou cancelada, matrícula encerrada
+   * ou contato descadastrado
+   * @returns O motivo, ou null se o envio continua valendo
+   */
+  private async findCancelReason(message: any): Promise<string | null> {
+    if (message.invoice_id) {
+      const [invoice] = await db.execute(`
+        SELECT ti.status, p.status AS payment_status
+        FROM tuition_invoices ti
+        LEFT JOIN payments p ON p.id = ti.payment_id
+        WHERE ti.id = $1
+      `, [message.invoice_id]);
+      if (!invoice || invoice.status === 'canceled') return 'Cobrança cancelada';
+      if (invoice.status === 'paid' || invoice.payment_status === 'paid') return 'Mensalidade paga';
+    }
+
+    if (message.enrollment_id) {
+      const [enrollment] = await db.execute(`
+        SELECT status FROM enrollments WHERE id = $1
+      `, [message.enrollment_id]);
+      if (!enrollment) return 'Matrícula cancelada';
+      if (FINAL_ENROLLMENT_STATUSES.includes(enrollment.status)) return enrollmentCancelReason(enrollment.status);
+    }
+
+    if (!(await consentService.canSend(message.school_id, 'whatsapp', message.phone))) {
+      return 'Contato descadastrado';
+    }
+
+    return null;
+  }
+
+  /**
+   * Cancela os envios ainda não realizados que atendem à condição
+   * @param condition Trecho WHERE; parâmetros começam em $1
+   */
+  private async cancelPending(condition: string, params: any[], reason: string): Promise<number> {
+    const canceled = await db.execute(`
+      UPDATE whatsapp_scheduled_messages
+      SET status = 'canceled', cancel_reason = $${params.length + 1}, updated_at = NOW()
+      WHERE status = 'scheduled' AND ${condition}
+      RETURNING id
+    `, [...params, reason]);
+
+    return canceled.length;
+  }
+
+  /**
+   * Instância de envio: a escolhida na mensagem ou a primeira conectada da escola
+   */
+  private async resolveInstance(schoolId: number, instanceId: number | null): Promise<{ id: number; instance_key: string }> {
+    const [instance] = await db.execute(`
+      SELECT id, instance_key FROM whatsapp_instances
+      WHERE school_id = $1 AND active IS NOT FALSE AND ($2::int IS NULL OR id = $2)
+      ORDER BY (status = 'connected') DESC, id
+      LIMIT 1
+    `, [schoolId, instanceId]);
+
+    if (!instance) {
+      throw new Error('Escola sem instância de WhatsApp');
+    }
+
+    return instance;
+  }
+
+  private async validateRule(schoolId: number, input: ReminderRuleInput): Promise<void> {
+    await this.assertTemplateApproved(schoolId, input.templateId);
+    await this.assertInstanceOfSchool(schoolId, input.instanceId ?? null);
+
+    if (input.courseId) {
+      const [course] = await db.execute(`
+        SELECT id FROM courses WHERE id = $1 AND school_id = $2
+      `, [input.courseId, schoolId]);
+      if (!course) {
+        throw new Error('Curso não encontrado');
+      }
+    }
+  }
+
+  private async assertTemplateApproved(schoolId: number, templateId: number): Promise<void> {
+    const [template] = await db.execute(`
+      SELECT id FROM whatsapp_templates
+      WHERE id = $1 AND (school_id IS NULL OR school_id = $2) AND active IS NOT FALSE AND status = 'approved'
+    `, [templateId, schoolId]);
+
+    if (!template) {
+      throw new Error('Template não encontrado ou não aprovado');
+    }
+  }
+
+  private async assertInstanceOfSchool(schoolId: number, instanceId: number | null): Promise<void> {
+    if (instanceId === null) return;
+
+    const [instance] = await db.execute(`
+      SELECT id FROM whatsapp_instances WHERE id = $1 AND school_id = $2
+    `, [instanceId, schoolId]);
+
+    if (!instance) {
+      throw new Error('Instância de WhatsApp não pertence à escola');
+    }
+  }
+
+  private messageSelect(): string {
+    return `
+      SELECT m.*, t.name AS template_name, r.name AS rule_name, u.full_name AS created_by_name
+      FROM whatsapp_scheduled_messages m
+      LEFT JOIN whatsapp_templates t ON t.id = m.template_id
+      LEFT JOIN whatsapp_reminder_rules r ON r.id = m.rule_id
+      LEFT JOIN users u ON u.id = m.created_by
+    `;
+  }
+
+  private ruleSelect(): string {
+    return `
+      SELECT r.*, t.name AS template_name, co.name AS course_name,
+        (COUNT(m.id) FILTER (WHERE m.status IN ('scheduled', 'sending')))::int AS pending,
+        (COUNT(m.id) FILTER (WHERE m.status = 'sent'))::int AS sent,
+        (COUNT(m.id) FILTER (WHERE m.status = 'canceled'))::int AS canceled
+      FROM whatsapp_reminder_rules r
+      LEFT JOIN whatsapp_templates t ON t.id = r.template_id
+      LEFT JOIN courses co ON co.id = r.course_id
+      LEFT JOIN whatsapp_scheduled_messages m ON m.rule_id = r.id
+    `;
+  }
+
+  private mapMessage(row: any): ScheduledMessage {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      conversationId: row.conversation_id,
+      phone: row.phone,
+      contactName: row.contact_name,
+      templateId: row.template_id,
+      templateName: row.template_name ?? null,
+      content: row.content,
+      referenceType: row.reference_type,
+      referenceId: row.reference_id,
+      enrollmentId: row.enrollment_id,
+      invoiceId: row.invoice_id,
+      ruleId: row.rule_id,
+      ruleName: row.rule_name ?? null,
+      sendAt: row.send_at,
+      status: row.status,
+      sentAt: row.sent_at,
+      error: row.error,
+      cancelReason: row.cancel_reason,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapRule(row: any): ReminderRule {
+    return {
+      id: row.id,
+      schoolId: row.school_id,
+      name: row.name,
+      trigger: row.trigger_type,
+      templateId: row.template_id,
+      templateName: row.template_name ?? null,
+      daysBefore: row.days_before,
+      sendTime: row.send_time,
+      courseId: row.course_id,
+      courseName: row.course_name ?? null,
+      instanceId: row.instance_id,
+      active: row.active,
+      pending: row.pending ?? 0,
+      sent: row.sent ?? 0,
+      canceled: row.canceled ?? 0,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const whatsappScheduledMessageService = new WhatsappScheduledMessageService();
+export default whatsappScheduledMessageService;
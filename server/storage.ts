@@ -1,5 +1,5 @@
 import {
-  users, schools, enrollments, courses,
+  users, schools, enrollments, courses, leads,
   notifications, messages, userSettings,
   type User, type InsertUser, type School, type InsertSchool,
   type Enrollment, type InsertEnrollment, type Course, type InsertCourse,
@@ -33,7 +33,38 @@ import {
 } from "../shared/whatsapp.schema";
 // Importação do db para operações no banco de dados
 import { db } from "./db";
-import { eq, and, or, gt, gte, lt, lte, desc, asc, sql } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, lte, desc, asc, sql, getTableColumns } from "drizzle-orm";
+import { domainEventService } from "./services/domainEventService";
+
+/**
+ * Converte dados de uma tabela em colunas e valores para SQL direto,
+ * ignorando propriedades que não são colunas
+ */
+function toColumnValues(table: any, data: Record<string, any>, omit: string[] = []): { columns: string[]; values: any[] } {
+  const tableColumns = getTableColumns(table) as Record<string, { name: string }>;
+  const columns: string[] = [];
+  const values: any[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || omit.includes(key) || !tableColumns[key]) continue;
+    columns.push(tableColumns[key].name);
+    values.push(value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value);
+  }
+
+  return { columns, values };
+}
+
+/**
+ * Converte um registro retornado por SQL direto nas propriedades da tabela
+ */
+function fromColumnValues<T>(table: any, row: Record<string, any> | undefined): T | undefined {
+  if (!row) return undefined;
+
+  const tableColumns = getTableColumns(table) as Record<string, { name: string }>;
+  return Object.fromEntries(
+    Object.entries(tableColumns).map(([key, column]) => [key, row[column.name]])
+  ) as T;
+}
 
 // Interface for the storage
 export interface IStorage {
@@ -121,7 +152,7 @@ export interface IStorage {
   getEnrollmentsByStudent(studentId: number): Promise<Enrollment[]>;
   getEnrollmentsByStudentId(userId: number): Promise<Enrollment[]>;
   createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
-  updateEnrollment(id: number, enrollment: Partial<Enrollment>): Promise<Enrollment | undefined>;
+  updateEnrollment(id: number, enrollment: Partial<Enrollment>, options?: { expectedStatus?: string | null }): Promise<Enrollment | undefined>;
   listEnrollments(limit?: number, offset?: number): Promise<Enrollment[]>;
   
   // WhatsApp management - Evolution API
@@ -956,9 +987,10 @@ export class MemStorage implements IStorage {
     return newEnrollment;
   }
 
-  async updateEnrollment(id: number, enrollmentData: Partial<Enrollment>): Promise<Enrollment | undefined> {
+  async updateEnrollment(id: number, enrollmentData: Partial<Enrollment>, options: { expectedStatus?: string | null } = {}): Promise<Enrollment | undefined> {
     const enrollment = this.enrollmentsMap.get(id);
     if (!enrollment) return undefined;
+    if (options.expectedStatus !== undefined && (enrollment.status ?? null) !== options.expectedStatus) return undefined;
     
     const updatedEnrollment = {
       ...enrollment,
@@ -1384,17 +1416,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createLead(lead: InsertLead): Promise<Lead> {
-    const [newLead] = await db.insert(leads).values(lead).returning();
-    return newLead;
+    const { columns, values } = toColumnValues(leads, lead, ['id', 'createdAt', 'updatedAt']);
+    const [newLead] = await domainEventService.writeWithEvents(`
+      INSERT INTO leads (${columns.join(', ')})
+      VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+      RETURNING *
+    `, values, [{ type: 'lead.created', aggregateType: 'lead' }]);
+    return fromColumnValues<Lead>(leads, newLead);
   }
 
   async updateLead(id: number, leadData: Partial<Lead>): Promise<Lead | undefined> {
-    const [updatedLead] = await db
-      .update(leads)
-      .set(leadData)
-      .where(eq(leads.id, id))
-      .returning();
-    return updatedLead;
+    const { columns, values } = toColumnValues(leads, leadData, ['id', 'createdAt', 'updatedAt']);
+    const [updatedLead] = await domainEventService.writeWithEvents(`
+      UPDATE leads l
+      SET ${columns.map((column, index) => `${column} = $${index + 2}, `).join('')}updated_at = NOW()
+      FROM (SELECT id, status FROM leads WHERE id = $1) previous
+      WHERE l.id = previous.id
+      RETURNING l.*, previous.status AS previous_status
+    `, [id, ...values], [{
+      type: 'lead.converted',
+      aggregateType: 'lead',
+      when: "changed.status = 'converted' AND changed.previous_status IS DISTINCT FROM 'converted'"
+    }]);
+    return fromColumnValues<Lead>(leads, updatedLead);
   }
 
   // Course management
@@ -1541,17 +1585,34 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
-    const [newEnrollment] = await db.insert(enrollments).values(enrollment).returning();
-    return newEnrollment;
-  }
-
-  async updateEnrollment(id: number, enrollmentData: Partial<Enrollment>): Promise<Enrollment | undefined> {
-    const [updatedEnrollment] = await db
-      .update(enrollments)
-      .set(enrollmentData)
-      .where(eq(enrollments.id, id))
-      .returning();
-    return updatedEnrollment;
+    const { columns, values } = toColumnValues(enrollments, enrollment, ['id', 'createdAt', 'updatedAt']);
+    const [newEnrollment] = await domainEventService.writeWithEvents(`
+      INSERT INTO enrollments (${columns.join(', ')})
+      VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+      RETURNING *
+    `, values, [{ type: 'enrollment.created', aggregateType: 'enrollment' }]);
+    return fromColumnValues<Enrollment>(enrollments, newEnrollment) as Enrollment;
+  }
+
+  /**
+   * @param options.expectedStatus Só atualiza se a matrícula ainda estiver neste
+   * status; sem linha atualizada, retorna undefined
+   */
+  async updateEnrollment(id: number, enrollmentData: Partial<Enrollment>, options: { expectedStatus?: string | null } = {}): Promise<Enrollment | undefined> {
+    const { columns, values } = toColumnValues(enrollments, enrollmentData, ['id', 'createdAt', 'updatedAt']);
+    const guarded = options.expectedStatus !== undefined;
+    const [updatedEnrollment] = await domainEventService.writeWithEvents(`
+      UPDATE enrollments e
+      SET ${columns.map((column, index) => `${column} = $${index + 2}, `).join('')}updated_at = NOW()
+      FROM (SELECT id, status FROM enrollments WHERE id = $1) previous
+      WHERE e.id = previous.id${guarded ? ` AND e.status IS NOT DISTINCT FROM $${values.length + 2}` : ''}
+      RETURNING e.*, previous.status AS previous_status
+    `, guarded ? [id, ...values, options.expectedStatus] : [id, ...values], [{
+      type: 'enrollment.status_changed',
+      aggregateType: 'enrollment',
+      when: 'changed.status IS DISTINCT FROM changed.previous_status'
+    }]);
+    return fromColumnValues<Enrollment>(enrollments, updatedEnrollment);
   }
   
   async listEnrollments(limit = 100, offset = 0): Promise<Enrollment[]> {
@@ -0,0 +1,36 @@
+declare module 'pdfkit' {
+  interface PDFDocumentOptions {
+    size?: string | [number, number];
+    margin?: number;
+    layout?: 'portrait' | 'landscape';
+  }
+
+  interface PDFTextOptions {
+    align?: 'left' | 'center' | 'right' | 'justify';
+    width?: number;
+    underline?: boolean;
+  }
+
+  interface PDFImageOptions {
+    width?: number;
+    height?: number;
+    fit?: [number, number];
+  }
+
+  class PDFDocument {
+    constructor(options?: PDFDocumentOptions);
+    on(event: 'data', listener: (chunk: Buffer) => void): this;
+    on(event: 'end', listener: () => void): this;
+    font(name: string): this;
+    fontSize(size: number): this;
+    text(text: string, options?: PDFTextOptions): this;
+    text(text: string, x?: number, y?: number, options?: PDFTextOptions): this;
+    image(src: string | Buffer, options?: PDFImageOptions): this;
+    image(src: string | Buffer, x?: number, y?: number, options?: PDFImageOptions): this;
+    moveDown(lines?: number): this;
+    addPage(options?: PDFDocumentOptions): this;
+    end(): void;
+  }
+
+  export = PDFDocument;
+}
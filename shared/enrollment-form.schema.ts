@@ -0,0 +1,125 @@
+/**
+ * Schema para o construtor de formulários de matrícula
+ * Define campos tipados, seções ordenadas e regras de visibilidade condicional
+ */
+import { z } from 'zod';
+
+// Tipos de campo suportados pelo construtor
+export const formFieldTypes = [
+  'text',
+  'textarea',
+  'email',
+  'cpf',
+  'rg',
+  'cep',
+  'phone',
+  'date',
+  'number',
+  'select',
+  'multiselect',
+  'checkbox',
+  'file',
+] as const;
+
+export type FormFieldType = typeof formFieldTypes[number];
+
+// Operadores disponíveis nas regras de visibilidade
+export const formRuleOperators = [
+  'equals',
+  'not_equals',
+  'in',
+  'greater_than',
+  'less_than',
+  'age_less_than',
+  'age_at_least',
+  'filled',
+  'empty',
+] as const;
+
+export type FormRuleOperator = typeof formRuleOperators[number];
+
+export type FormRule =
+  | { field: string; operator: FormRuleOperator; value?: any }
+  | { all: FormRule[] }
+  | { any: FormRule[] };
+
+// Schema recursivo para regras condicionais
+export const formRuleSchema: z.ZodType<FormRule> = z.lazy(() => z.union([
+  z.object({
+    field: z.string().min(1),
+    operator: z.enum(formRuleOperators),
+    value: z.any().optional(),
+  }),
+  z.object({ all: z.array(formRuleSchema).min(1) }),
+  z.object({ any: z.array(formRuleSchema).min(1) }),
+]));
+
+export const formFieldSchema = z.object({
+  key: z.string().min(1, 'Chave do campo é obrigatória').regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Chave do campo inválida'),
+  label: z.string().min(1, 'Rótulo do campo é obrigatório'),
+  type: z.enum(formFieldTypes),
+  required: z.boolean().default(false),
+  placeholder: z.string().optional(),
+  helpText: z.string().optional(),
+  options: z.array(z.string()).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  acceptedFileTypes: z.array(z.string()).optional(),
+  visibleWhen: formRuleSchema.optional(),
+});
+
+export const formSectionSchema = z.object({
+  key: z.string().min(1, 'Chave da seção é obrigatória'),
+  title: z.string().min(1, 'Título da seção é obrigatório'),
+  description: z.string().optional(),
+  order: z.number().int().default(0),
+  visibleWhen: formRuleSchema.optional(),
+  fields: z.array(formFieldSchema),
+});
+
+export const formDefinitionSchema = z.object({
+  sections: z.array(formSectionSchema).min(1, 'O formulário precisa de ao menos uma seção'),
+});
+
+// Schema para criação de formulários
+export const insertEnrollmentFormSchema = z.object({
+  name: z.string().min(1, 'Nome do formulário é obrigatório'),
+  courseId: z.number().int().nullable().optional(),
+});
+
+// Tipos TypeScript
+export type FormField = z.infer<typeof formFieldSchema>;
+export type FormSection = z.infer<typeof formSectionSchema>;
+export type FormDefinition = z.infer<typeof formDefinitionSchema>;
+export type InsertEnrollmentForm = z.infer<typeof insertEnrollmentFormSchema>;
+
+export interface EnrollmentForm {
+  id: number;
+  schoolId: number;
+  courseId: number | null;
+  name: string;
+  currentVersionId: number | null;
+  currentVersion: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EnrollmentFormVersion {
+  id: number;
+  formId: number;
+  version: number;
+  definition: FormDefinition;
+  createdById: number | null;
+  createdAt: Date;
+}
+
+export interface EnrollmentFormSubmission {
+  id: number;
+  enrollmentId: number;
+  formId: number;
+  formVersionId: number;
+  answers: Record<string, any>;
+  submittedAt: Date;
+  updatedAt: Date;
+}
@@ -84,6 +84,12 @@ export const legacyDataMappings = pgTable('legacy_data_mappings', {
   transformationRules: json('transformation_rules'), // Regras de transformação
   primaryKeyMapping: json('primary_key_mapping').notNull(), // Como identificar registros correspondentes
   active: boolean('active').default(true),
+  syncSchedule: text('sync_schedule'), // Expressão cron para sincronização agendada
+  lastSyncAt: timestamp('last_sync_at'),
+  nextSyncAt: timestamp('next_sync_at'), // Próxima execução calculada pelo agendador
+  realtime: boolean('realtime').default(false).notNull(), // Exporta a cada evento de domínio da entidade
+  conflictStrategy: text('conflict_strategy').default('last_write_wins').notNull(), // 'last_write_wins' ou 'legacy_wins'
+  legacyUpdatedAtField: text('legacy_updated_at_field'), // Campo de última alteração no registro legado
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -113,6 +119,7 @@ export const legacyIdMappings = pgTable('legacy_id_mappings', {
   legacyEntity: text('legacy_entity').notNull(), // Nome da entidade no sistema legado
   legacyId: text('legacy_id').notNull(), // ID no sistema legado
   lastSyncAt: timestamp('last_sync_at'),
+  lastHash: text('last_hash'), // Hash do último payload exportado
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -134,7 +141,9 @@ export const insertLegacyEndpointSchema = createInsertSchema(legacyEndpoints).om
 export const insertLegacyDataMappingSchema = createInsertSchema(legacyDataMappings).omit({
   id: true,
   createdAt: true,
-  updatedAt: true
+  updatedAt: true,
+  lastSyncAt: true,
+  nextSyncAt: true
 });
 
 export const insertLegacySyncHistorySchema = createInsertSchema(legacySyncHistory).omit({
@@ -128,7 +128,7 @@ export const users = pgTable('users', {
   email: text('email').notNull().unique(),
   password: text('password').notNull(),
   fullName: text('full_name').notNull(),
-  role: text('role', { enum: ['admin', 'school', 'attendant', 'student'] }).notNull(),
+  role: text('role', { enum: ['admin', 'school', 'attendant', 'student', 'guardian'] }).notNull(),
   phone: text('phone'),
   schoolId: integer('school_id'),
   profileImage: text('profile_image'),
@@ -143,7 +143,7 @@ export const userSchema = createInsertSchema(users, {
   email: z.string().email('Email inválido'),
   password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
   fullName: z.string().min(3, 'Nome completo deve ter pelo menos 3 caracteres'),
-  role: z.enum(['admin', 'school', 'attendant', 'student']),
+  role: z.enum(['admin', 'school', 'attendant', 'student', 'guardian']),
   phone: z.string().optional().nullable(),
   schoolId: z.number().optional().nullable(),
   profileImage: z.string().optional().nullable(),
@@ -205,9 +205,10 @@ export const enrollments = pgTable('enrollments', {
   studentId: integer('student_id').notNull(),
   schoolId: integer('school_id').notNull(),
   courseId: integer('course_id').notNull(),
-  status: text('status', { 
-    enum: ['pending', 'approved', 'rejected', 'canceled', 'completed'] 
-  }).default('pending'),
+  // Lead que originou a matrícula, quando convertida pelo funil comercial
+  leadId: integer('lead_id'),
+  // Estados definidos pelo fluxo de matrícula da escola (ver enrollmentWorkflowService)
+  status: text('status').default('pending'),
   semester: text('semester'),
   year: text('year'),
   paymentStatus: text('payment_status', {
@@ -226,7 +227,8 @@ export const enrollmentSchema = createInsertSchema(enrollments, {
   studentId: z.number(),
   schoolId: z.number(),
   courseId: z.number(),
-  status: z.enum(['pending', 'approved', 'rejected', 'canceled', 'completed']).optional(),
+  leadId: z.number().optional(),
+  status: z.string().optional(),
   semester: z.string().optional(),
   year: z.string().optional(),
   paymentStatus: z.enum(['pending', 'paid', 'partial', 'overdue', 'canceled', 'refunded']).optional(),
@@ -298,6 +300,10 @@ export const leads = pgTable('leads', {
   notes: text('notes'),
   assignedTo: integer('assigned_to'),
   metadata: jsonb('metadata'),
+  // Pontuação de engajamento (0 a 100), recalculada pelo leadConversionService
+  score: integer('score'),
+  scoreFactors: jsonb('score_factors'),
+  scoreUpdatedAt: timestamp('score_updated_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -314,7 +320,7 @@ export const leadSchema = createInsertSchema(leads, {
   notes: z.string().optional(),
   assignedTo: z.number().optional(),
   metadata: z.any().optional(),
-}).omit({ id: true, createdAt: true, updatedAt: true });
+}).omit({ id: true, score: true, scoreFactors: true, scoreUpdatedAt: true, createdAt: true, updatedAt: true });
 
 // Tipos TypeScript
 export type Lead = typeof leads.$inferSelect;
@@ -70,6 +70,7 @@ export const schoolSystemModules = pgTable('school_system_modules', {
   syncType: syncTypeEnum('sync_type').default('scheduled'),
   syncSchedule: text('sync_schedule'), // Expressão cron para agendamento
   lastSyncAt: timestamp('last_sync_at'),
+  nextSyncAt: timestamp('next_sync_at'), // Próxima execução calculada pelo agendador
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -128,10 +129,12 @@ export const schoolSystemSyncTasks = pgTable('school_system_sync_tasks', {
   dataId: text('data_id'), // ID do registro a sincronizar, se aplicável
   dataPayload: json('data_payload'), // Dados a sincronizar
   scheduledFor: timestamp('scheduled_for'),
+  triggeredBy: text('triggered_by').notNull().default('manual'), // 'manual', 'schedule'
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   attempts: integer('attempts').default(0),
   maxAttempts: integer('max_attempts').default(3),
+  nextAttemptAt: timestamp('next_attempt_at'), // Nova tentativa após falha (backoff exponencial)
   lastError: text('last_error'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -150,7 +153,8 @@ export const insertSchoolSystemModuleSchema = createInsertSchema(schoolSystemMod
   id: true,
   createdAt: true,
   updatedAt: true,
-  lastSyncAt: true
+  lastSyncAt: true,
+  nextSyncAt: true
 });
 
 export const insertSchoolSystemFieldMappingSchema = createInsertSchema(schoolSystemFieldMappings).omit({
@@ -0,0 +1,33 @@
+/**
+ * Apoio aos testes dos serviços que consultam o banco por db.execute
+ * Cada consulta é respondida pelo primeiro trecho de SQL que ela contém, e as
+ * chamadas feitas no teste são localizadas pelo mesmo trecho
+ */
+
+import { jest } from '@jest/globals';
+
+// Linhas devolvidas, ou função que as monta a partir dos parâmetros da consulta
+export type QueryResponse = any[] | ((params: any[], query: string) => any[] | Promise<any[]>);
+
+/**
+ * @param execute Mock de db.execute
+ */
+export function mockQueries(execute: jest.Mock<any>) {
+  /**
+   * Responde as consultas pelo trecho de SQL; as demais recebem fallback
+   */
+  const respond = (responses: Record<string, QueryResponse>, fallback: any[] = []) => {
+    execute.mockImplementation(async (query: string, params: any[] = []) => {
+      const match = Object.keys(responses).find(text => String(query).includes(text));
+      if (!match) return fallback;
+      const response = responses[match];
+      return typeof response === 'function' ? response(params, String(query)) : response;
+    });
+  };
+
+  const findCallIndex = (text: string) => execute.mock.calls.findIndex(([query]) => String(query).includes(text));
+  const findCall = (text: string) => execute.mock.calls[findCallIndex(text)];
+  const findCalls = (text: string) => execute.mock.calls.filter(([query]) => String(query).includes(text));
+
+  return { respond, findCall, findCallIndex, findCalls };
+}
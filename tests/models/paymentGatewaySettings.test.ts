@@ -12,7 +12,8 @@ import {
   updatePaymentGatewaySetting,
   deletePaymentGatewaySetting,
   getDefaultPaymentGatewaySetting,
-  getActivePaymentGatewaySettingsByType
+  getActivePaymentGatewaySettingsByType,
+  getPaymentGatewaySettingsForSchool
 } from '../../server/models/paymentGatewaySettings';
 
 // Mock do db.execute para evitar chamadas reais ao banco de dados
@@ -51,7 +52,7 @@ describe('PaymentGatewaySettings Model', () => {
       ];
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: mockRows });
+      (db.execute as jest.Mock).mockResolvedValue(mockRows);
 
       // Executar a função
       const result = await getAllPaymentGatewaySettings();
@@ -95,13 +96,13 @@ describe('PaymentGatewaySettings Model', () => {
       };
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [mockRow] });
+      (db.execute as jest.Mock).mockResolvedValue([mockRow]);
 
       // Executar a função
       const result = await getPaymentGatewaySettingsById(1);
 
       // Verificar se a query foi chamada corretamente
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = 1'));
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = $1'), [1]);
       
       // Verificar se os resultados foram mapeados corretamente
       expect(result).not.toBeNull();
@@ -112,13 +113,13 @@ describe('PaymentGatewaySettings Model', () => {
 
     it('deve retornar null quando o ID não existe', async () => {
       // Configurar o mock para retornar array vazio
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [] });
+      (db.execute as jest.Mock).mockResolvedValue([]);
 
       // Executar a função
       const result = await getPaymentGatewaySettingsById(999);
 
       // Verificar se a query foi chamada corretamente
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = 999'));
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = $1'), [999]);
       
       // Verificar se retorna null quando não encontra
       expect(result).toBeNull();
@@ -154,15 +155,17 @@ describe('PaymentGatewaySettings Model', () => {
       };
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [mockRow] });
+      (db.execute as jest.Mock).mockResolvedValue([mockRow]);
 
       // Executar a função
       const result = await createPaymentGatewaySetting(insertData);
 
-      // Verificar se a query foi chamada corretamente (duas vezes - uma para resetar defaults, outra para inserir)
-      expect(db.execute).toHaveBeenCalledTimes(2);
-      expect(db.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('UPDATE payment_gateway_settings'));
-      expect(db.execute).toHaveBeenNthCalledWith(2, expect.stringContaining('INSERT INTO payment_gateway_settings'));
+      // Verificar se a query foi chamada corretamente (uma vez - sem padrão, não há defaults a resetar)
+      expect(db.execute).toHaveBeenCalledTimes(1);
+      expect(db.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO payment_gateway_settings'),
+        ['mercadopago', 'Mercado Pago', null, true, false, 'mp_test_key', null, null, true, '{}']
+      );
       
       // Verificar se os resultados foram mapeados corretamente
       expect(result.id).toBe(2);
@@ -200,14 +203,16 @@ describe('PaymentGatewaySettings Model', () => {
       };
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [mockRow] });
+      (db.execute as jest.Mock).mockResolvedValue([mockRow]);
 
       // Executar a função
       const result = await updatePaymentGatewaySetting(1, updateData);
 
       // Verificar se a query foi chamada corretamente
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('UPDATE payment_gateway_settings'));
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = 1'));
+      expect(db.execute).toHaveBeenCalledWith(
+        expect.stringContaining('SET name = $2, is_active = $3, is_default = $4, sandbox_mode = $5'),
+        [1, 'Stripe Updated', true, true, false]
+      );
       
       // Verificar se os resultados foram mapeados corretamente
       expect(result).not.toBeNull();
@@ -241,13 +246,16 @@ describe('PaymentGatewaySettings Model', () => {
       };
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [mockRow] });
+      (db.execute as jest.Mock).mockResolvedValue([mockRow]);
 
       // Executar a função
       const result = await updatePaymentGatewaySetting(2, updateData);
 
       // Verificar se a query de reset foi chamada
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE is_default = TRUE AND id != 2'));
+      expect(db.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE is_default = TRUE AND id != $1 AND school_id IS NOT DISTINCT FROM $2'),
+        [2, null]
+      );
       
       // Verificar se os resultados foram mapeados corretamente
       expect(result?.id).toBe(2);
@@ -258,14 +266,13 @@ describe('PaymentGatewaySettings Model', () => {
   describe('deletePaymentGatewaySetting', () => {
     it('deve excluir um gateway existente', async () => {
       // Configurar o mock para retornar sucesso
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [{ id: 1 }] });
+      (db.execute as jest.Mock).mockResolvedValue([{ id: 1 }]);
 
       // Executar a função
       const result = await deletePaymentGatewaySetting(1);
 
       // Verificar se a query foi chamada corretamente
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM payment_gateway_settings'));
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE id = 1'));
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM payment_gateway_settings'), [1]);
       
       // Verificar se retorna true quando excluído com sucesso
       expect(result).toBe(true);
@@ -273,7 +280,7 @@ describe('PaymentGatewaySettings Model', () => {
 
     it('deve retornar false quando o ID não existe', async () => {
       // Configurar o mock para retornar array vazio
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [] });
+      (db.execute as jest.Mock).mockResolvedValue([]);
 
       // Executar a função
       const result = await deletePaymentGatewaySetting(999);
@@ -302,13 +309,13 @@ describe('PaymentGatewaySettings Model', () => {
       };
 
       // Configurar o mock para retornar os dados
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [mockRow] });
+      (db.execute as jest.Mock).mockResolvedValue([mockRow]);
 
       // Executar a função
       const result = await getDefaultPaymentGatewaySetting();
 
       // Verificar se a query foi chamada corretamente
-      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE is_default = TRUE AND is_active = TRUE'));
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE is_default = TRUE AND is_active = TRUE'), [null]);
       
       // Verificar se os resultados foram mapeados corretamente
       expect(result).not.toBeNull();
@@ -318,7 +325,7 @@ describe('PaymentGatewaySettings Model', () => {
 
     it('deve retornar null quando não há gateway padrão', async () => {
       // Configurar o mock para retornar array vazio
-      (db.execute as jest.Mock).mockResolvedValue({ rows: [] });
+      (db.execute as jest.Mock).mockResolvedValue([]);
 
       // Executar a função
       const result = await getDefaultPaymentGatewaySetting();
@@ -326,5 +333,84 @@ describe('PaymentGatewaySettings Model', () => {
       // Verificar se retorna null quando não encontra
       expect(result).toBeNull();
     });
+
+    it('deve buscar o padrão da escola antes do padrão global', async () => {
+      (db.execute as jest.Mock).mockResolvedValue([]);
+
+      await getDefaultPaymentGatewaySetting(7);
+
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('(school_id = $1 OR school_id IS NULL)'), [7]);
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('ORDER BY (school_id IS NULL)'), [7]);
+    });
+  });
+
+  describe('escopo por escola', () => {
+    // Conta própria da escola 7
+    const schoolRow = {
+      id: 3,
+      gateway: 'asaas',
+      name: 'Asaas Escola',
+      school_id: 7,
+      is_active: true,
+      is_default: true,
+      api_key: 'school_key',
+      api_secret: null,
+      api_endpoint: null,
+      sandbox_mode: false,
+      configuration: {},
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    it('deve buscar o gateway ativo da escola ou, na falta dele, o global', async () => {
+      (db.execute as jest.Mock).mockResolvedValue([schoolRow]);
+
+      const result = await getActivePaymentGatewaySettingsByType('asaas', 7);
+
+      expect(db.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE gateway = $1 AND is_active = TRUE AND (school_id = $2 OR school_id IS NULL)'),
+        ['asaas', 7]
+      );
+      expect(result?.schoolId).toBe(7);
+      expect(result?.apiKey).toBe('school_key');
+    });
+
+    it('deve considerar apenas contas globais quando não há escola', async () => {
+      (db.execute as jest.Mock).mockResolvedValue([]);
+
+      await getActivePaymentGatewaySettingsByType('asaas');
+
+      expect(db.execute).toHaveBeenCalledWith(expect.any(String), ['asaas', null]);
+    });
+
+    it('deve listar as contas que atendem a escola com as dela primeiro', async () => {
+      (db.execute as jest.Mock).mockResolvedValue([schoolRow, { ...schoolRow, id: 1, school_id: null }]);
+
+      const result = await getPaymentGatewaySettingsForSchool(7);
+
+      expect(db.execute).toHaveBeenCalledWith(expect.stringContaining('ORDER BY (school_id IS NULL)'), [7]);
+      expect(result.map(settings => settings.schoolId)).toEqual([7, null]);
+    });
+
+    it('deve redefinir o padrão apenas entre as contas da mesma escola', async () => {
+      (db.execute as jest.Mock).mockResolvedValue([schoolRow]);
+
+      await createPaymentGatewaySetting({
+        gateway: 'asaas',
+        name: 'Asaas Escola',
+        schoolId: 7,
+        isActive: true,
+        isDefault: true,
+        apiKey: 'school_key',
+        sandboxMode: false
+      });
+
+      expect(db.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('WHERE is_default = TRUE AND school_id IS NOT DISTINCT FROM $1'),
+        [7]
+      );
+      expect((db.execute as jest.Mock).mock.calls[1][1][2]).toBe(7);
+    });
   });
-});
\ No newline at end of file
+});
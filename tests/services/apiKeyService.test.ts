@@ -0,0 +1,78 @@
+/**
+ * Testes para as chaves de API das escolas
+ * Verifica que apenas o hash é persistido, a autenticação pelo hash, o limite
+ * de requisições por minuto e a rotação com período de carência
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/cacheService', () => ({ cacheService: { increment: jest.fn() } }));
+
+import { db } from '../../server/db';
+import { cacheService } from '../../server/services/cacheService';
+import { apiKeyService, hashApiKey } from '../../server/services/apiKeyService';
+
+const execute = db.execute as jest.Mock<any>;
+const increment = cacheService.increment as jest.Mock<any>;
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    increment.mockReset();
+  });
+
+  it('deve persistir apenas o prefixo e o hash da chave emitida', async () => {
+    execute.mockImplementation(async (query: any, params: any) => [{ id: 5, school_id: params[0], name: params[1], key_prefix: params[2], scopes: JSON.parse(params[4]), rate_limit_per_minute: params[5] }]);
+
+    const { key, apiKey } = await apiKeyService.createKey(3, { name: 'Site', scopes: ['leads:write'] }, 1);
+
+    const params = execute.mock.calls[0][1] as any[];
+    expect(key).toMatch(/^emk_[0-9a-f]{48}$/);
+    expect(params).not.toContain(key);
+    expect(params.slice(2, 4)).toEqual([key.slice(0, 12), hashApiKey(key)]);
+    expect(apiKey).toMatchObject({ id: 5, keyPrefix: key.slice(0, 12), scopes: ['leads:write'], rateLimitPerMinute: 60 });
+  });
+
+  it('deve autenticar pelo hash apenas chaves ativas', async () => {
+    execute.mockResolvedValueOnce([{ id: 5, school_id: 3, scopes: ['courses:read'], rate_limit_per_minute: 10 }]);
+
+    expect(await apiKeyService.authenticate('emk_abc')).toEqual({ keyId: 5, schoolId: 3, scopes: ['courses:read'], rateLimitPerMinute: 10 });
+    const [query, params] = execute.mock.calls[0] as [string, any[]];
+    expect(params).toEqual([hashApiKey('emk_abc')]);
+    expect(query).toContain('revoked_at IS NULL');
+    expect(query).toContain('expires_at > NOW()');
+
+    execute.mockResolvedValueOnce([]);
+    expect(await apiKeyService.authenticate('emk_revogada')).toBeNull();
+  });
+
+  it('deve bloquear requisições acima do limite da janela de um minuto', async () => {
+    const context = { keyId: 5, schoolId: 3, scopes: [], rateLimitPerMinute: 2 };
+    const now = new Date('2025-03-10T12:00:30Z');
+
+    increment.mockResolvedValueOnce(2);
+    expect(await apiKeyService.consumeRateLimit(context, now)).toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 0,
+      resetAt: new Date('2025-03-10T12:01:00Z'),
+    });
+
+    increment.mockResolvedValueOnce(3);
+    expect((await apiKeyService.consumeRateLimit(context, now)).allowed).toBe(false);
+    expect(increment.mock.calls[0]).toEqual([`5:${Math.floor(now.getTime() / 60000)}`, 1, { namespace: 'api-rate-limit', ttl: 60 }]);
+  });
+
+  it('deve emitir a nova chave e manter a anterior durante a carência', async () => {
+    execute.mockImplementation(async (query: any, params: any) => [{ id: 6, school_id: 3, key_prefix: params[3], scopes: ['leads:read'], rotated_from_id: params[0] }]);
+
+    const { key, apiKey } = await apiKeyService.rotateKey(3, 5, 1, 12);
+
+    const [query, params] = execute.mock.calls[0] as [string, any[]];
+    expect(query).toContain("NOW() + ($3 || ' hours')::interval");
+    expect(params).toEqual([5, 3, 12, key.slice(0, 12), hashApiKey(key), 1]);
+    expect(apiKey).toMatchObject({ id: 6, rotatedFromId: 5, scopes: ['leads:read'] });
+  });
+});
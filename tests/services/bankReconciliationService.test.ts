@@ -0,0 +1,248 @@
+/**
+ * Testes para a conciliação bancária
+ * Verifica a leitura dos retornos CNAB 240/400 e OFX, as regras de associação
+ * dos lançamentos aos pagamentos da escola e a resolução manual
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const settlePayment = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/paymentProcessor', () => ({ paymentProcessor: { settlePayment } }));
+jest.mock('../../server/services/tuitionBillingService', () => ({ tuitionBillingService: { recalculateOverdue: jest.fn() } }));
+
+import {
+  BankStatementEntry,
+  detectBankFileFormat,
+  parseCnab240,
+  parseCnab400,
+  parseOfx
+} from '../../server/services/bankStatementParser';
+import { db } from '../../server/db';
+import {
+  bankReconciliationService,
+  matchStatementEntry,
+  ReconciliationCandidate
+} from '../../server/services/bankReconciliationService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+/**
+ * Monta uma linha de layout fixo preenchendo os campos por posição (base 1)
+ */
+function fixedLine(length: number, fields: Record<number, string>): string {
+  let line = ' '.repeat(length);
+  for (const [start, value] of Object.entries(fields)) {
+    const index = parseInt(start) - 1;
+    line = line.substring(0, index) + value + line.substring(index + value.length);
+  }
+  return line;
+}
+
+const entry = (overrides: Partial<BankStatementEntry>): BankStatementEntry => ({
+  lineNumber: 1,
+  ourNumber: null,
+  documentNumber: null,
+  bankReference: null,
+  occurrenceCode: '06',
+  description: null,
+  faceAmount: 450,
+  paidAmount: 450,
+  feeAmount: 0,
+  dueDate: '2025-03-10',
+  settlementDate: '2025-03-09',
+  creditDate: '2025-03-10',
+  isSettlement: true,
+  transactionId: null,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<ReconciliationCandidate>): ReconciliationCandidate => ({
+  id: 1,
+  amount: 450,
+  status: 'pending',
+  dueDate: '2025-03-10',
+  ourNumber: null,
+  references: [],
+  ...overrides,
+});
+
+describe('BankReconciliation', () => {
+  describe('parseCnab240', () => {
+    it('deve combinar os segmentos T e U em um lançamento de liquidação', () => {
+      const content = [
+        fixedLine(240, { 1: '001', 8: '0' }),
+        fixedLine(240, { 1: '001', 8: '3', 14: 'T', 16: '06', 38: '00000000000000012345', 59: '87', 74: '10032025', 82: '000000000045000', 199: '000000000000250' }),
+        fixedLine(240, { 1: '001', 8: '3', 14: 'U', 78: '000000000045000', 138: '09032025', 146: '10032025' }),
+      ].join('\r\n');
+
+      expect(detectBankFileFormat(content)).toBe('cnab240');
+
+      const parsed = parseCnab240(content);
+      expect(parsed.bankCode).toBe('001');
+      expect(parsed.entries).toHaveLength(1);
+      expect(parsed.entries[0]).toMatchObject({
+        ourNumber: '00000000000000012345',
+        documentNumber: '87',
+        faceAmount: 450,
+        paidAmount: 450,
+        feeAmount: 2.5,
+        dueDate: '2025-03-10',
+        settlementDate: '2025-03-09',
+        creditDate: '2025-03-10',
+        isSettlement: true,
+      });
+    });
+  });
+
+  describe('parseCnab400', () => {
+    it('deve usar a posição do nosso número e as ocorrências do Itaú', () => {
+      const content = [
+        fixedLine(400, { 1: '0', 77: '341' }),
+        fixedLine(400, { 1: '1', 63: '00012345', 109: '06', 111: '090325', 147: '100325', 153: '0000000045000', 254: '0000000045000' }),
+        fixedLine(400, { 1: '1', 63: '00012346', 109: '02' }),
+      ].join('\n');
+
+      const parsed = parseCnab400(content);
+      expect(parsed.bankCode).toBe('341');
+      expect(parsed.entries).toHaveLength(2);
+      expect(parsed.entries[0]).toMatchObject({
+        ourNumber: '00012345',
+        paidAmount: 450,
+        dueDate: '2025-03-10',
+        settlementDate: '2025-03-09',
+        isSettlement: true,
+      });
+      expect(parsed.entries[1].isSettlement).toBe(false);
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('deve considerar apenas créditos como liquidações', () => {
+      const content = [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKACCTFROM><BANKID>237</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250310120000<TRNAMT>450.00<FITID>A1<CHECKNUM>87<MEMO>PIX RECEBIDO',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250311<TRNAMT>-12.90<FITID>A2<MEMO>TARIFA',
+        '</BANKTRANLIST>',
+      ].join('\n');
+
+      const parsed = parseOfx(content);
+      expect(parsed.bankCode).toBe('237');
+      expect(parsed.entries).toHaveLength(2);
+      expect(parsed.entries[0]).toMatchObject({
+        paidAmount: 450,
+        creditDate: '2025-03-10',
+        transactionId: 'A1',
+        documentNumber: null,
+        bankReference: '87',
+        isSettlement: true,
+      });
+      expect(parsed.entries[1]).toMatchObject({ paidAmount: 12.9, isSettlement: false });
+    });
+  });
+
+  describe('matchStatementEntry', () => {
+    it('deve associar pelo nosso número ignorando zeros à esquerda', () => {
+      const result = matchStatementEntry(
+        entry({ ourNumber: '000012345' }),
+        [candidate({ id: 1 }), candidate({ id: 2, ourNumber: '12345' })],
+        new Set()
+      );
+
+      expect(result).toMatchObject({ status: 'matched', paymentId: 2, rule: 'our_number' });
+    });
+
+    it('deve deixar para revisão o nosso número com valor divergente', () => {
+      const result = matchStatementEntry(
+        entry({ ourNumber: '12345', faceAmount: 900, paidAmount: 900 }),
+        [candidate({ id: 2, ourNumber: '12345' })],
+        new Set()
+      );
+
+      expect(result).toMatchObject({ status: 'review', paymentId: null, candidateIds: [2] });
+    });
+
+    it('deve associar o número do extrato OFX só pela referência gravada na emissão', () => {
+      const ofxEntry = entry({ faceAmount: null, dueDate: null, bankReference: '87' });
+
+      // Um pagamento com o mesmo ID interno não é associado pelo número do banco
+      expect(matchStatementEntry(ofxEntry, [candidate({ id: 87, dueDate: '2025-08-10' })], new Set()))
+        .toMatchObject({ status: 'unmatched', paymentId: null });
+
+      expect(matchStatementEntry(ofxEntry, [candidate({ id: 4, dueDate: '2025-08-10', references: ['87'] })], new Set()))
+        .toMatchObject({ status: 'matched', paymentId: 4, rule: 'gateway_reference' });
+    });
+
+    it('deve sinalizar pagamento já baixado', () => {
+      const result = matchStatementEntry(
+        entry({ documentNumber: '7' }),
+        [candidate({ id: 7, status: 'paid' })],
+        new Set()
+      );
+
+      expect(result).toMatchObject({ status: 'already_paid', paymentId: 7, rule: 'document_number' });
+    });
+
+    it('deve deixar pendente quando mais de um pagamento tem o mesmo valor', () => {
+      const result = matchStatementEntry(
+        entry({}),
+        [candidate({ id: 1 }), candidate({ id: 2, dueDate: '2025-03-05' }), candidate({ id: 3, dueDate: '2025-08-10' })],
+        new Set()
+      );
+
+      expect(result).toMatchObject({ status: 'ambiguous', paymentId: null, candidateIds: [1, 2] });
+    });
+
+    it('não deve reutilizar pagamento já associado a outra linha do arquivo', () => {
+      const result = matchStatementEntry(
+        entry({}),
+        [candidate({ id: 1 }), candidate({ id: 2 })],
+        new Set([1])
+      );
+
+      expect(result).toMatchObject({ status: 'matched', paymentId: 2, rule: 'amount_date' });
+    });
+  });
+
+  describe('resolveEntry', () => {
+    const entryRow = {
+      id: 11, import_id: 3, school_id: 5, line_number: 2, status: 'unmatched', paid_amount: '450.00', fee_amount: '0',
+      credit_date: '2025-03-10', candidate_payment_ids: [],
+    };
+
+    beforeEach(() => {
+      execute.mockReset();
+      settlePayment.mockReset();
+      execute.mockResolvedValue([]);
+    });
+
+    it('não deve baixar pagamento cancelado ou estornado', async () => {
+      respond({
+        'FROM bank_reconciliation_entries': [entryRow],
+        'FROM payments WHERE id = $1': [{ id: 7, school_id: 5, status: 'refunded' }],
+      });
+
+      await expect(bankReconciliationService.resolveEntry(11, { paymentId: 7 }, 1)).rejects.toThrow('cancelado ou estornado');
+      expect(settlePayment).not.toHaveBeenCalled();
+    });
+
+    it('deve reservar o lançamento antes de baixar o pagamento', async () => {
+      respond({
+        'FROM bank_reconciliation_entries': [entryRow],
+        'FROM payments WHERE id = $1': [{ id: 7, school_id: 5, status: 'pending' }],
+      });
+
+      // Outra resolução reservou o lançamento primeiro
+      await expect(bankReconciliationService.resolveEntry(11, { paymentId: 7 }, 1)).rejects.toThrow('já conciliado');
+      expect(findCall('UPDATE bank_reconciliation_entries')?.[0]).toContain('status = ANY($7)');
+      expect(settlePayment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Testes para os fluxos guiados do chatbot no WhatsApp
+ * Verifica o início do fluxo padrão, a leitura das opções do menu, a
+ * transferência para a caixa de entrada, a saída do chatbot quando um
+ * atendente assume a conversa e as chamadas de API com respostas do contato
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('axios', () => ({ __esModule: true, default: { request: jest.fn() } }));
+jest.mock('../../server/services/publicUrlGuard', () => ({ assertPublicUrl: jest.fn(), publicHttpAgents: {} }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/intelligentChatbot', () => ({ intelligentChatbot: { processMessage: jest.fn() } }));
+jest.mock('../../server/services/whatsappInboxService', () => ({
+  whatsappInboxService: {
+    sendAutomatedMessage: jest.fn(),
+    setBotActive: jest.fn(),
+    handoffFromBot: jest.fn(),
+  },
+}));
+
+import axios from 'axios';
+import { db } from '../../server/db';
+import { assertPublicUrl } from '../../server/services/publicUrlGuard';
+import { whatsappInboxService } from '../../server/services/whatsappInboxService';
+import { chatbotFlowService, findFlowProblems, FlowDefinition } from '../../server/services/chatbotFlowService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const sendAutomatedMessage = whatsappInboxService.sendAutomatedMessage as jest.Mock<any>;
+const setBotActive = whatsappInboxService.setBotActive as jest.Mock<any>;
+const handoffFromBot = whatsappInboxService.handoffFromBot as jest.Mock<any>;
+const request = axios.request as jest.Mock<any>;
+const assertPublic = assertPublicUrl as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const definition: FlowDefinition = {
+  startNodeId: 'menu',
+  nodes: [
+    {
+      id: 'menu',
+      type: 'buttons',
+      text: 'Olá, {{nome}}! Como podemos ajudar?',
+      variable: 'assunto',
+      options: [
+        { label: 'Cursos e valores', value: 'cursos', next: 'cursos' },
+        { label: 'Agendar visita', value: 'visita', next: 'visita_nome' },
+      ],
+    },
+    { id: 'cursos', type: 'message', text: 'Veja nossos cursos no site.' },
+    { id: 'visita_nome', type: 'question', text: 'Qual o seu nome completo?', variable: 'nome_completo', next: 'fim' },
+    { id: 'fim', type: 'handoff', text: 'Obrigado, {{nome_completo}}! Um atendente vai confirmar.', tags: ['Visita'] },
+  ],
+};
+
+const flowRow = {
+  id: 4,
+  school_id: 3,
+  name: 'Atendimento inicial',
+  trigger_keywords: ['menu'],
+  is_default: true,
+  ai_fallback: false,
+  active: true,
+  definition,
+};
+
+const conversationRow = {
+  id: 5,
+  school_id: 3,
+  assigned_to: null,
+  bot_active: false,
+  contact_name: 'Maria Souza',
+  contact_phone: '5511912345678',
+  school_name: 'Escola Alfa',
+};
+
+/**
+ * Respostas do banco por consulta: conversa, sessão ativa e fluxos da escola
+ */
+function mockDatabase(options: { conversation?: any; session?: any; recentSession?: boolean; flow?: any }) {
+  respond({
+    'FROM whatsapp_conversations c': [options.conversation ?? conversationRow],
+    "WHERE conversation_id = $1 AND status = 'active'": options.session ? [options.session] : [],
+    'INSERT INTO whatsapp_chatbot_sessions': [{ id: 90, flow_id: 4, current_node_id: 'menu', waiting: false, variables: {}, retries: 0 }],
+    'SELECT id FROM whatsapp_chatbot_sessions': options.recentSession ? [{ id: 1 }] : [],
+    'FROM whatsapp_chatbot_flows': [options.flow ?? flowRow],
+  });
+}
+
+const sessionUpdate = () => findCall('SET current_node_id')?.[1] as any[];
+
+describe('ChatbotFlowService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    sendAutomatedMessage.mockReset();
+    setBotActive.mockReset();
+    handoffFromBot.mockReset();
+    request.mockReset();
+    assertPublic.mockReset();
+  });
+
+  it('deve apontar ligações para nós inexistentes', () => {
+    expect(findFlowProblems(definition)).toEqual([]);
+    expect(findFlowProblems({
+      startNodeId: 'inicio',
+      nodes: [{ id: 'menu', type: 'message', text: 'Oi', next: 'fim' }],
+    })).toEqual([
+      'Nó inicial não encontrado: inicio',
+      'O nó menu aponta para um nó inexistente: fim',
+    ]);
+  });
+
+  it('deve iniciar o fluxo padrão enviando o menu numerado', async () => {
+    mockDatabase({});
+
+    const result = await chatbotFlowService.handleIncomingMessage(5, 'Boa tarde');
+
+    expect(result).toEqual({ handled: true, handoff: false });
+    expect(setBotActive).toHaveBeenCalledWith(5, true);
+    expect(sendAutomatedMessage).toHaveBeenCalledWith(
+      5,
+      'Olá, Maria! Como podemos ajudar?\n\n1. Cursos e valores\n2. Agendar visita',
+      { chatbotFlowId: 4, chatbotSessionId: 90 }
+    );
+    expect(sessionUpdate()).toEqual([90, 'menu', true, '{}', 0, 'active']);
+  });
+
+  it('deve seguir a opção escolhida e repetir o menu quando a resposta não corresponde', async () => {
+    const session = { id: 90, flow_id: 4, current_node_id: 'menu', waiting: true, variables: {}, retries: 0, expired: false };
+    mockDatabase({ conversation: { ...conversationRow, bot_active: true }, session });
+
+    await chatbotFlowService.handleIncomingMessage(5, 'agendar VISITA');
+
+    expect(sendAutomatedMessage).toHaveBeenCalledWith(5, 'Qual o seu nome completo?', expect.any(Object));
+    expect(sessionUpdate()).toEqual([90, 'visita_nome', true, JSON.stringify({ assunto: 'visita' }), 0, 'active']);
+
+    execute.mockClear();
+    sendAutomatedMessage.mockReset();
+    await chatbotFlowService.handleIncomingMessage(5, '7');
+
+    expect(sendAutomatedMessage.mock.calls.map(([, content]) => content)).toEqual([
+      'Não entendi sua resposta.',
+      'Olá, Maria! Como podemos ajudar?\n\n1. Cursos e valores\n2. Agendar visita',
+    ]);
+    expect(sessionUpdate()).toEqual([90, 'menu', true, '{}', 1, 'active']);
+  });
+
+  it('deve transferir para a caixa de entrada com o que foi coletado', async () => {
+    const session = {
+      id: 90, flow_id: 4, current_node_id: 'visita_nome', waiting: true, variables: { assunto: 'visita' }, retries: 0, expired: false,
+    };
+    mockDatabase({ conversation: { ...conversationRow, bot_active: true }, session });
+
+    const result = await chatbotFlowService.handleIncomingMessage(5, 'Maria Souza Lima');
+
+    expect(result).toEqual({ handled: true, handoff: true });
+    expect(sendAutomatedMessage).toHaveBeenCalledWith(5, 'Obrigado, Maria Souza Lima! Um atendente vai confirmar.', expect.any(Object));
+    expect(sessionUpdate()?.[5]).toBe('handoff');
+    expect(handoffFromBot).toHaveBeenCalledWith(
+      5,
+      'Transferida pelo chatbot (fluxo "Atendimento inicial").\nassunto: visita\nnome_completo: Maria Souza Lima',
+      ['Visita']
+    );
+  });
+
+  it('deve sair da conversa quando um atendente assume', async () => {
+    const session = { id: 90, flow_id: 4, current_node_id: 'menu', waiting: true, variables: {}, retries: 0, expired: false };
+    mockDatabase({ conversation: { ...conversationRow, assigned_to: 21, bot_active: false }, session });
+
+    const result = await chatbotFlowService.handleIncomingMessage(5, '1');
+
+    expect(result).toEqual({ handled: false, handoff: false });
+    const endCall = findCall('SET status = $2, waiting = FALSE');
+    expect(endCall?.[1]).toEqual([90, 'handoff']);
+    expect(sendAutomatedMessage).not.toHaveBeenCalled();
+  });
+
+  it('deve aguardar o fim da janela antes de repetir o fluxo padrão, exceto por palavra-chave', async () => {
+    mockDatabase({ recentSession: true });
+
+    expect(await chatbotFlowService.handleIncomingMessage(5, 'ok, obrigado pelo menuzinho')).toEqual({ handled: false, handoff: false });
+    expect(setBotActive).not.toHaveBeenCalled();
+
+    expect(await chatbotFlowService.handleIncomingMessage(5, 'Quero ver o MENU!')).toEqual({ handled: true, handoff: false });
+    expect(setBotActive).toHaveBeenCalledWith(5, true);
+  });
+
+  describe('chamada de API', () => {
+    const apiFlow = {
+      ...flowRow,
+      definition: {
+        startNodeId: 'cpf',
+        nodes: [
+          { id: 'cpf', type: 'question', text: 'Qual o seu CPF?', variable: 'cpf', next: 'consulta' },
+          {
+            id: 'consulta', type: 'api_call', method: 'GET', url: 'https://api.escola.com/alunos/{{cpf}}?origem=chatbot',
+            saveAs: 'aluno', next: 'ok', errorNext: 'erro',
+          },
+          { id: 'ok', type: 'message', text: 'Encontramos seu cadastro.' },
+          { id: 'erro', type: 'message', text: 'Não encontramos seu cadastro.' },
+        ],
+      },
+    };
+    const session = { id: 90, flow_id: 4, current_node_id: 'cpf', waiting: true, variables: {}, retries: 0, expired: false };
+
+    it('deve codificar a resposta do contato sem trocar o servidor configurado', async () => {
+      mockDatabase({ conversation: { ...conversationRow, bot_active: true }, session, flow: apiFlow });
+      request.mockResolvedValue({ data: { nome: 'Maria' } });
+
+      await chatbotFlowService.handleIncomingMessage(5, '@interno/admin#x');
+
+      const url = 'https://api.escola.com/alunos/%40interno%2Fadmin%23x?origem=chatbot';
+      expect(assertPublic).toHaveBeenCalledWith(url);
+      expect(request).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', url, maxRedirects: 0 }));
+      expect(sendAutomatedMessage).toHaveBeenCalledWith(5, 'Encontramos seu cadastro.', expect.any(Object));
+    });
+
+    it('deve seguir o caminho de erro sem chamar a API quando o endereço não é público', async () => {
+      mockDatabase({ conversation: { ...conversationRow, bot_active: true }, session, flow: apiFlow });
+      assertPublic.mockRejectedValue(new Error('A URL deve apontar para um endereço público'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await chatbotFlowService.handleIncomingMessage(5, '52998224725');
+
+      expect(request).not.toHaveBeenCalled();
+      expect(sendAutomatedMessage).toHaveBeenCalledWith(5, 'Não encontramos seu cadastro.', expect.any(Object));
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Testes para o registro de consentimento (LGPD)
+ * Verifica as palavras de descadastro, a chave do contato, o registro com
+ * histórico e o bloqueio de envios a quem recusou o canal
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+
+import { db } from '../../server/db';
+import { consentService, consentKey, detectConsentKeyword } from '../../server/services/consentService';
+
+const execute = db.execute as jest.Mock<any>;
+
+describe('ConsentService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+  });
+
+  it('deve reconhecer apenas as palavras-chave enviadas sozinhas', () => {
+    expect(detectConsentKeyword('SAIR')).toBe('revoked');
+    expect(detectConsentKeyword('  parar. ')).toBe('revoked');
+    expect(detectConsentKeyword('Voltar!')).toBe('granted');
+    expect(detectConsentKeyword('quero sair mais cedo hoje')).toBeNull();
+    expect(detectConsentKeyword('')).toBeNull();
+  });
+
+  it('deve usar a mesma chave para formatos diferentes do contato', () => {
+    expect(consentKey('whatsapp', '+55 (11) 91234-5678')).toBe(consentKey('sms', '1112345678'));
+    expect(consentKey('email', ' Maria@Escola.com ')).toBe('maria@escola.com');
+    expect(consentKey('email', 'maria')).toBeNull();
+    expect(consentKey('whatsapp', '123')).toBeNull();
+  });
+
+  it('deve registrar o consentimento e o histórico na mesma instrução', async () => {
+    execute.mockResolvedValue([{ id: 5, school_id: 3, channel: 'whatsapp', identifier: '5511912345678', status: 'revoked', source: 'whatsapp_keyword' }]);
+
+    const status = await consentService.handleIncomingKeyword(3, '5511912345678@s.whatsapp.net', 'SAIR', { messageId: 'ABC123' });
+
+    expect(status).toBe('revoked');
+    expect(execute).toHaveBeenCalledTimes(1);
+    const [query, params] = execute.mock.calls[0] as [string, any[]];
+    expect(query).toContain('INSERT INTO communication_consent_events');
+    expect(params.slice(0, 6)).toEqual([3, 'whatsapp', '5511912345678', '1112345678', 'revoked', 'whatsapp_keyword']);
+    expect(JSON.parse(params[6])).toEqual({ messageId: 'ABC123', message: 'SAIR' });
+  });
+
+  it('deve bloquear o envio a quem recusou o canal', async () => {
+    execute.mockResolvedValueOnce([{ status: 'revoked' }]);
+    await expect(consentService.assertCanSend(3, 'whatsapp', '5511912345678')).rejects.toThrow('VOLTAR');
+    expect(execute.mock.calls[0][1]).toEqual(['whatsapp', '1112345678', 3]);
+
+    execute.mockResolvedValueOnce([]);
+    expect(await consentService.canSend(null, 'email', 'maria@escola.com')).toBe(true);
+    expect(execute.mock.calls[1][1]).toEqual(['email', 'maria@escola.com', null]);
+  });
+
+  it('deve bloquear o número informado no formulário até o próprio contato confirmar', async () => {
+    execute.mockResolvedValueOnce([{ status: 'pending' }]);
+    expect(await consentService.requestConfirmation({ schoolId: 3, channel: 'whatsapp', identifier: '(11) 91234-5678', source: 'lead_form' })).toBe('pending');
+    expect(execute.mock.calls[0][0]).toContain("WHERE communication_consents.status = 'pending'");
+
+    execute.mockResolvedValueOnce([{ status: 'pending' }]);
+    await expect(consentService.assertCanSend(3, 'whatsapp', '5511912345678')).rejects.toThrow('ainda não confirmou');
+
+    execute.mockResolvedValueOnce([{ id: 5 }]);
+    expect(await consentService.confirmPending(3, 'whatsapp', '5511912345678@s.whatsapp.net', { messageId: 'ABC' })).toBe(true);
+    const [query, params] = execute.mock.calls[2] as [string, any[]];
+    expect(query).toContain("status = 'pending'");
+    expect(params.slice(0, 4)).toEqual([3, 'whatsapp', '1112345678', 'whatsapp_reply']);
+  });
+});
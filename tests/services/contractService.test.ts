@@ -0,0 +1,183 @@
+/**
+ * Testes para o serviço de contratos de matrícula
+ * Verifica o preenchimento dos modelos, o hash de integridade da assinatura,
+ * o limite de códigos e a reserva do contrato antes de gerar o PDF assinado
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendTextMessage = jest.fn<any>();
+const writeFileSync = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ sendTextMessage }) }));
+jest.mock('fs', () => ({ existsSync: jest.fn(() => true), mkdirSync: jest.fn(), writeFileSync }));
+jest.mock('../../server/services/guardianService', () => ({ guardianService: {} }));
+jest.mock('../../server/services/twoFactorAuth', () => ({ __esModule: true, default: {} }));
+
+import { db } from '../../server/db';
+import {
+  contractService,
+  renderContractTemplate,
+  computeSignatureHash,
+  sha256,
+  SignaturePayload
+} from '../../server/services/contractService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall, findCallIndex } = mockQueries(execute);
+
+const pendingContract = {
+  id: 9, enrollment_id: 21, status: 'pending', content: 'Texto do contrato', content_hash: sha256('Texto do contrato'),
+  signer_user_id: null, signer_document: '52998224725', signer_phone: '5511912345678',
+};
+
+describe('ContractService', () => {
+  describe('renderContractTemplate', () => {
+    it('deve preencher variáveis aninhadas', () => {
+      const { text, missing } = renderContractTemplate(
+        'Contratante: {{ contratante.nome }}, curso {{curso.nome}} por {{curso.preco}}.',
+        { contratante: { nome: 'Maria Souza' }, curso: { nome: 'Inglês', preco: 'R$ 350,00' } }
+      );
+
+      expect(text).toBe('Contratante: Maria Souza, curso Inglês por R$ 350,00.');
+      expect(missing).toEqual([]);
+    });
+
+    it('deve listar variáveis sem valor uma única vez', () => {
+      const { text, missing } = renderContractTemplate(
+        '{{responsavel.cpf}} / {{responsavel.cpf}} / {{aluno.nome}}',
+        { aluno: { nome: 'João' }, responsavel: { cpf: null } }
+      );
+
+      expect(text).toBe(' /  / João');
+      expect(missing).toEqual(['responsavel.cpf']);
+    });
+  });
+
+  describe('computeSignatureHash', () => {
+    const payload: SignaturePayload = {
+      contractId: 1,
+      contentHash: sha256('Texto do contrato'),
+      signedName: 'Maria Souza',
+      signatureImageHash: sha256('data:image/png;base64,AAAA'),
+      signerDocument: '529.982.247-25',
+      otpMethod: 'whatsapp',
+      signedAt: '2024-03-01T12:00:00.000Z',
+      ip: '127.0.0.1',
+      userAgent: 'jest',
+    };
+
+    it('deve ser determinístico', () => {
+      expect(computeSignatureHash(payload)).toBe(computeSignatureHash({ ...payload }));
+    });
+
+    it('deve mudar quando qualquer dado da assinatura é alterado', () => {
+      const original = computeSignatureHash(payload);
+
+      expect(computeSignatureHash({ ...payload, contentHash: sha256('Texto alterado') })).not.toBe(original);
+      expect(computeSignatureHash({ ...payload, signedAt: '2024-03-01T12:00:01.000Z' })).not.toBe(original);
+      expect(computeSignatureHash({ ...payload, ip: '10.0.0.1' })).not.toBe(original);
+    });
+  });
+
+  describe('requestOtp', () => {
+    beforeEach(() => {
+      execute.mockReset();
+      sendTextMessage.mockReset();
+    });
+
+    it('deve manter as tentativas e não enviar código quando o limite foi atingido', async () => {
+      respond({
+        'SELECT * FROM enrollment_contracts': [pendingContract],
+        'FROM enrollments': [{ school_id: 3 }],
+        'FROM whatsapp_instances': [{ instance_key: 'escola-3' }],
+      });
+
+      const result = await contractService.requestOtp(9);
+
+      expect(result.success).toBe(false);
+      expect(sendTextMessage).not.toHaveBeenCalled();
+      const [claim, params] = findCall("otp_method = $2");
+      expect(claim).toContain("otp_requested_at <= NOW() - INTERVAL '60 seconds'");
+      expect(claim).toContain('otp_request_count < $5 AND otp_attempts < $6');
+      expect(claim).not.toMatch(/otp_attempts = 0,/);
+      expect((params as any[]).slice(0, 2)).toEqual([9, 'whatsapp']);
+    });
+
+    it('deve enviar o código quando a solicitação é aceita', async () => {
+      respond({
+        'SELECT * FROM enrollment_contracts': [pendingContract],
+        'FROM enrollments': [{ school_id: 3 }],
+        'FROM whatsapp_instances': [{ instance_key: 'escola-3' }],
+        'otp_method = $2': [{ id: 9 }],
+      });
+
+      const result = await contractService.requestOtp(9);
+
+      expect(result).toMatchObject({ success: true, method: 'whatsapp', destination: '***5678' });
+      expect(sendTextMessage).toHaveBeenCalledWith('escola-3', '5511912345678', expect.stringMatching(/\d{6}/));
+    });
+  });
+
+  describe('signContract', () => {
+    const signature = { typedName: 'Maria Souza', signatureImage: 'data:image/png;base64,AAAA', otp: '123456' };
+
+    const withOtp = (contract: any) => {
+      const otpHash = sha256(`${contract.id}:${signature.otp}`);
+      return { ...contract, otp_method: 'whatsapp', otp_hash: otpHash, otp_expires_at: new Date(Date.now() + 60000), otp_attempts: 0 };
+    };
+
+    beforeEach(() => {
+      execute.mockReset();
+      writeFileSync.mockReset();
+      jest.spyOn(contractService as any, 'renderPdf').mockResolvedValue(Buffer.from('pdf'));
+    });
+
+    it('deve reservar o contrato antes de gravar o PDF e o documento', async () => {
+      respond({
+        'SELECT * FROM enrollment_contracts': [withOtp(pendingContract)],
+        'otp_attempts = otp_attempts + 1': [{ otp_attempts: 1 }],
+        "SET status = 'signing'": [{ id: 9 }],
+        'FROM enrollments': [{ id: 21, student_id: 40, school_id: 3 }],
+        'INSERT INTO documents': [{ id: 77 }],
+        "SET status = 'signed'": [{ ...pendingContract, status: 'signed', document_id: 77 }],
+      });
+
+      const result = await contractService.signContract(9, signature, { userId: 7 });
+
+      expect(result.success).toBe(true);
+      expect(findCallIndex("SET status = 'signing'")).toBeLessThan(findCallIndex('INSERT INTO documents'));
+      expect(findCall("SET status = 'signed'")?.[0]).toContain("status = 'signing'");
+      expect(writeFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('não deve gerar PDF nem documento quando outra assinatura reservou o contrato', async () => {
+      respond({
+        'SELECT * FROM enrollment_contracts': [withOtp(pendingContract)],
+        'otp_attempts = otp_attempts + 1': [{ otp_attempts: 1 }],
+      });
+
+      const result = await contractService.signContract(9, signature, { userId: 7 });
+
+      expect(result).toMatchObject({ success: false, message: 'Contrato já foi assinado ou cancelado' });
+      expect(writeFileSync).not.toHaveBeenCalled();
+      expect(findCall('INSERT INTO documents')).toBeUndefined();
+    });
+
+    it('deve recusar o código quando as tentativas se esgotaram', async () => {
+      respond({
+        'SELECT * FROM enrollment_contracts': [withOtp(pendingContract)],
+      });
+
+      const result = await contractService.signContract(9, signature, { userId: 7 });
+
+      expect(result.message).toContain('Muitas tentativas');
+      expect(findCall("SET status = 'signing'")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Testes para o serviço de vagas de cursos
+ * Verifica a reserva com bloqueio do curso, a entrada na lista de espera e a
+ * promoção quando uma vaga é liberada ou uma reserva expira
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendSchoolNotification = jest.fn<any>();
+const sendUserNotification = jest.fn<any>();
+
+jest.mock('../../server/db', () => {
+  const execute = jest.fn();
+  return {
+    db: {
+      execute,
+      transaction: jest.fn((work: any) => work({ execute })),
+    },
+  };
+});
+jest.mock('../../server/storage', () => ({ storage: { getCourse: jest.fn(async () => ({ id: 8, name: 'Inglês' })) } }));
+jest.mock('../../server/email', () => ({ emailService: { sendEmail: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolNotification, sendUserNotification }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: jest.fn() }));
+jest.mock('../../server/services/consentService', () => ({ consentService: { canSend: jest.fn(async () => false) } }));
+jest.mock('../../server/services/guardianService', () => ({
+  guardianService: {
+    getNotificationRecipients: jest.fn(async () => [{ userId: 40, fullName: 'Pedro Souza', phone: null, email: null }]),
+  },
+}));
+
+import { db } from '../../server/db';
+import { courseSeatService } from '../../server/services/courseSeatService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const transaction = (db as any).transaction as jest.Mock<any>;
+
+const { respond, findCall, findCallIndex, findCalls } = mockQueries(execute);
+
+const enrollment = { id: 21, courseId: 8, schoolId: 3, studentId: 40 };
+
+describe('CourseSeatService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    transaction.mockClear();
+    sendSchoolNotification.mockReset();
+    sendUserNotification.mockReset();
+    execute.mockResolvedValue([]);
+  });
+
+  it('deve bloquear o curso antes de contar as vagas e reservar', async () => {
+    respond({
+      'INSERT INTO course_seat_holds': [{ id: 1, course_id: 8, enrollment_id: 21, school_id: 3, student_id: 40, status: 'held' }],
+    });
+
+    const result = await courseSeatService.requestSeat(enrollment);
+
+    expect(result.status).toBe('held');
+    expect(transaction).toHaveBeenCalledTimes(1);
+    const lockIndex = findCallIndex('FROM courses WHERE id = $1 FOR UPDATE');
+    expect(lockIndex).toBeGreaterThanOrEqual(0);
+    expect(lockIndex).toBeLessThan(findCallIndex('INSERT INTO course_seat_holds'));
+    expect(findCall('INSERT INTO course_waitlist')).toBeUndefined();
+  });
+
+  it('deve colocar na lista de espera quando o curso está lotado', async () => {
+    respond({
+      'INSERT INTO course_waitlist': [{ id: 5, course_id: 8, enrollment_id: 21, school_id: 3, student_id: 40, position: 3, status: 'waiting' }],
+      'COUNT(*) AS ahead': [{ ahead: '2' }],
+    });
+
+    const result = await courseSeatService.requestSeat(enrollment);
+
+    expect(result).toMatchObject({ status: 'waitlisted', waitlistPosition: 3 });
+    expect(transaction).toHaveBeenCalledTimes(2);
+    const insertIndex = findCallIndex('INSERT INTO course_waitlist');
+    const lockCalls = execute.mock.calls
+      .map(([query], index) => String(query).includes('FOR UPDATE') ? index : -1)
+      .filter(index => index >= 0);
+    expect(lockCalls).toHaveLength(2);
+    expect(lockCalls[1]).toBeLessThan(insertIndex);
+    expect(sendSchoolNotification).toHaveBeenCalledWith(3, expect.objectContaining({ title: 'Curso lotado' }));
+  });
+
+  it('deve promover o próximo da lista de espera quando uma vaga é liberada', async () => {
+    let waiting = true;
+    respond({
+      "SET status = 'released'": [{ course_id: 8 }],
+      'SELECT * FROM course_waitlist': () => {
+        if (!waiting) return [];
+        waiting = false;
+        return [{ id: 6, course_id: 8, enrollment_id: 22, school_id: 3, student_id: 41, position: 1, status: 'waiting' }];
+      },
+      'INSERT INTO course_seat_holds': [{ id: 2, course_id: 8, enrollment_id: 22, school_id: 3, student_id: 41, status: 'held' }],
+    });
+
+    await courseSeatService.releaseSeat(21);
+
+    expect(findCall('INSERT INTO course_seat_holds')?.[1]).toEqual(expect.arrayContaining([8, 22, 3, 41, 'held']));
+    const promotedCalls = findCalls('UPDATE course_waitlist').filter(([, params]) => (params as any[])[1] === 'promoted');
+    expect(promotedCalls.map(([, params]) => (params as any[])[0])).toEqual([22]);
+    expect(sendUserNotification).toHaveBeenCalledWith(40, expect.objectContaining({ title: 'Vaga disponível' }));
+  });
+
+  it('deve parar a promoção quando não houver vaga livre', async () => {
+    respond({
+      "SET status = 'expired'": [{ course_id: 8, enrollment_id: 21 }, { course_id: 8, enrollment_id: 23 }],
+      'SELECT * FROM course_waitlist': [{ id: 6, course_id: 8, enrollment_id: 22, school_id: 3, student_id: 41, position: 1, status: 'waiting' }],
+    });
+
+    const expired = await courseSeatService.expireHolds();
+
+    expect(expired).toBe(2);
+    // Um único curso: uma tentativa de reserva, que falha por falta de vaga
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls.some(([query, params]) =>
+      String(query).includes('UPDATE course_waitlist') && (params as any[])[1] === 'promoted')).toBe(false);
+    expect(sendUserNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Testes para o serviço de descontos, bolsas e cupons
+ * Verifica a elegibilidade das regras, a combinação de descontos cumulativos e exclusivos
+ * e o limite de usos ao registrar o desconto na cobrança
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+
+import { db } from '../../server/db';
+import {
+  discountService,
+  applyDiscounts,
+  isRuleEligible,
+  parseCoursePrice,
+  EligibilityContext
+} from '../../server/services/discountService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const baseRule = {
+  kind: 'automatic' as const,
+  active: true,
+  appliesTo: 'all' as const,
+  courseIds: null,
+  validFrom: null,
+  validUntil: null,
+  maxUses: null,
+  usesCount: 0,
+};
+
+const context: EligibilityContext = {
+  courseId: 3,
+  target: 'tuition',
+  date: new Date('2025-03-15T12:00:00Z'),
+  linked: false,
+  used: false,
+  hasSibling: false,
+};
+
+describe('DiscountService', () => {
+  describe('parseCoursePrice', () => {
+    it('deve interpretar preços em formato brasileiro e numérico', () => {
+      expect(parseCoursePrice('R$ 1.234,56')).toBe(1234.56);
+      expect(parseCoursePrice('350.00')).toBe(350);
+      expect(parseCoursePrice('Sob consulta')).toBeNull();
+      expect(parseCoursePrice(null)).toBeNull();
+    });
+  });
+
+  describe('isRuleEligible', () => {
+    it('deve respeitar curso, alvo e vigência', () => {
+      expect(isRuleEligible({ ...baseRule, courseIds: [1, 2] }, context)).toBe(false);
+      expect(isRuleEligible({ ...baseRule, appliesTo: 'enrollment_fee' }, context)).toBe(false);
+      expect(isRuleEligible({ ...baseRule, validUntil: '2025-03-14' }, context)).toBe(false);
+      expect(isRuleEligible({ ...baseRule, validFrom: '2025-03-15', courseIds: [3] }, context)).toBe(true);
+    });
+
+    it('deve exigir irmão matriculado, concessão ou cupom conforme o tipo', () => {
+      expect(isRuleEligible({ ...baseRule, kind: 'sibling' }, context)).toBe(false);
+      expect(isRuleEligible({ ...baseRule, kind: 'sibling' }, { ...context, hasSibling: true })).toBe(true);
+      expect(isRuleEligible({ ...baseRule, kind: 'scholarship' }, context)).toBe(false);
+      expect(isRuleEligible({ ...baseRule, kind: 'coupon' }, { ...context, linked: true })).toBe(true);
+    });
+
+    it('deve bloquear regras esgotadas apenas para matrículas que ainda não as usaram', () => {
+      const exhausted = { ...baseRule, maxUses: 10, usesCount: 10 };
+
+      expect(isRuleEligible(exhausted, context)).toBe(false);
+      expect(isRuleEligible(exhausted, { ...context, used: true })).toBe(true);
+    });
+  });
+
+  describe('applyDiscounts', () => {
+    const sibling = { id: 1, name: 'Irmãos', kind: 'sibling' as const, valueType: 'percent' as const, value: 10, stackable: true, priority: 1 };
+    const coupon = { id: 2, name: 'VOLTAASAULAS', kind: 'coupon' as const, valueType: 'fixed' as const, value: 50, stackable: true, priority: 0 };
+    const scholarship = { id: 3, name: 'Bolsa 30%', kind: 'scholarship' as const, valueType: 'percent' as const, value: 30, stackable: false, priority: 0 };
+
+    it('deve aplicar regras cumulativas em sequência sobre o saldo', () => {
+      const quote = applyDiscounts(1000, [coupon, sibling]);
+
+      expect(quote.discounts.map(discount => discount.amount)).toEqual([100, 50]);
+      expect(quote.finalAmount).toBe(850);
+      expect(quote.totalDiscount).toBe(150);
+    });
+
+    it('deve usar a regra exclusiva quando ela for mais vantajosa', () => {
+      const quote = applyDiscounts(1000, [sibling, coupon, scholarship]);
+
+      expect(quote.discounts).toEqual([{ ruleId: 3, name: 'Bolsa 30%', kind: 'scholarship', amount: 300 }]);
+      expect(quote.finalAmount).toBe(700);
+    });
+
+    it('não deve deixar o valor negativo', () => {
+      const quote = applyDiscounts(40, [coupon]);
+
+      expect(quote.finalAmount).toBe(0);
+      expect(quote.totalDiscount).toBe(40);
+    });
+  });
+
+  describe('recordApplication', () => {
+    const discount = { ruleId: 3, name: 'Cupom VOLTA10', kind: 'coupon' as const, amount: 100 };
+
+    beforeEach(() => {
+      execute.mockReset();
+      execute.mockResolvedValue([]);
+    });
+
+    it('deve contar o uso com a condição do limite na mesma instrução', async () => {
+      respond({
+        'SET uses_count = uses_count + 1': [{ id: 3 }],
+      });
+
+      await discountService.recordApplication(55, 21, [discount]);
+
+      expect(findCall('SET uses_count = uses_count + 1')?.[0]).toContain('(max_uses IS NULL OR uses_count < max_uses)');
+      expect(findCall('INSERT INTO payment_discounts')?.[1]).toEqual([55, 21, 3, 'Cupom VOLTA10', 'coupon', 100]);
+    });
+
+    it('deve recusar o desconto esgotado sem registrá-lo no pagamento', async () => {
+      await expect(discountService.recordApplication(55, 21, [discount])).rejects.toThrow('atingiu o limite de usos');
+      expect(findCall('INSERT INTO payment_discounts')).toBeUndefined();
+    });
+
+    it('não deve contar novo uso para a matrícula que já usou a regra', async () => {
+      respond({
+        'FROM payment_discounts WHERE rule_id': [{ '?column?': 1 }],
+      });
+
+      await discountService.recordApplication(56, 21, [discount]);
+
+      expect(findCall('SET uses_count')).toBeUndefined();
+      expect(findCall('INSERT INTO payment_discounts')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Testes para o outbox de eventos de domínio
+ * Verifica a gravação dos eventos na mesma instrução da escrita, a entrega
+ * por assinante e as novas tentativas com backoff
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+
+import { db } from '../../server/db';
+import {
+  buildOutboxStatement,
+  domainEventService,
+  getDeliveryRetryDelay
+} from '../../server/services/domainEventService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall, findCalls } = mockQueries(execute);
+
+const enrollmentEvent = {
+  id: '41',
+  event_type: 'enrollment.status_changed',
+  aggregate_type: 'enrollment',
+  aggregate_id: '9',
+  school_id: 3,
+  payload: { id: 9, status: 'approved', previous_status: 'pending', school_id: 3 },
+  occurred_at: new Date('2025-03-10T12:00:00Z'),
+};
+
+function mockDatabase(deliveries: any[] = []) {
+  respond({
+    "SET status = 'processing'": [enrollmentEvent],
+    'FROM domain_event_deliveries WHERE event_id': deliveries,
+  });
+}
+
+const eventUpdate = () => findCall('SET status = $2')![1] as any[];
+const savedDeliveries = () => findCalls('INSERT INTO domain_event_deliveries')
+  .map(([, params]) => (params as any[]).slice(1, 4));
+
+describe('DomainEventService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+  });
+
+  it('deve gravar os eventos na mesma instrução da escrita', () => {
+    const statement = buildOutboxStatement('UPDATE enrollments SET status = $2 WHERE id = $1 RETURNING *', [
+      { type: 'enrollment.status_changed', aggregateType: 'enrollment', when: 'changed.status IS DISTINCT FROM changed.previous_status' },
+    ]);
+
+    expect(statement).toContain('WITH changed AS (UPDATE enrollments');
+    expect(statement).toContain("SELECT 'enrollment.status_changed', 'enrollment', changed.id::text, changed.school_id, to_jsonb(changed)");
+    expect(statement).toContain('WHERE changed.status IS DISTINCT FROM changed.previous_status');
+    expect(statement.trim().endsWith('SELECT * FROM changed')).toBe(true);
+  });
+
+  it('deve entregar aos assinantes do tipo e marcar o evento como despachado', async () => {
+    const received: any[] = [];
+    domainEventService.subscribe('test.enrollments', { eventTypes: ['enrollment.status_changed'] }, async event => {
+      received.push(event);
+    });
+    domainEventService.subscribe('test.payments', { eventTypes: ['payment.paid'] }, async () => {
+      throw new Error('não deveria receber');
+    });
+    mockDatabase();
+
+    expect(await domainEventService.dispatchPending()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ id: 41, type: 'enrollment.status_changed', schoolId: 3 });
+    expect(received[0].payload).toEqual({ id: 9, status: 'approved', previousStatus: 'pending', schoolId: 3 });
+    expect(savedDeliveries()).toEqual([['test.enrollments', 'delivered', 1]]);
+    expect(eventUpdate().slice(1)).toEqual(['dispatched', null]);
+  });
+
+  it('deve reagendar apenas o assinante que falhou', async () => {
+    domainEventService.subscribe('test.payments', { eventTypes: '*', maxAttempts: 3 }, async () => {
+      throw new Error('Timeout');
+    });
+    mockDatabase([{ subscriber: 'test.enrollments', status: 'delivered', attempts: 1 }]);
+
+    await domainEventService.dispatchPending();
+
+    const [, , status, attempts, lastError, nextAttemptAt] = execute.mock.calls
+      .find(([query]) => (query as string).includes('INSERT INTO domain_event_deliveries'))![1] as any[];
+    expect([status, attempts, lastError]).toEqual(['pending', 1, 'Timeout']);
+    expect(nextAttemptAt).toBeInstanceOf(Date);
+    expect(eventUpdate()[1]).toBe('pending');
+    expect(eventUpdate()[2]).toEqual(nextAttemptAt);
+  });
+
+  it('deve marcar falha quando o assinante esgota as tentativas', async () => {
+    mockDatabase([
+      { subscriber: 'test.enrollments', status: 'delivered', attempts: 1 },
+      { subscriber: 'test.payments', status: 'pending', attempts: 2 },
+    ]);
+
+    await domainEventService.dispatchPending();
+
+    expect(savedDeliveries()).toEqual([['test.payments', 'failed', 3]]);
+    expect(eventUpdate()[1]).toBe('failed');
+    expect([1, 2, 3, 20].map(getDeliveryRetryDelay)).toEqual([30000, 60000, 120000, 3600000]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Testes para o serviço de formulários de matrícula
+ * Verifica regras condicionais e validação tipada das respostas
+ */
+
+import { expect, describe, it, jest } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({ storage: {} }));
+jest.mock('../../server/services/securityService', () => ({
+  logAction: jest.fn(),
+  securityService: {
+    validateCpf: (cpf: string) => /^(\d)\1{10}$/.test(cpf.replace(/\D/g, ''))
+      ? { valid: false, message: 'CPF inválido' }
+      : { valid: true },
+    validateRg: () => ({ valid: true }),
+    validateEmail: () => ({ valid: true }),
+    validatePhone: () => ({ valid: true }),
+    validateDate: () => ({ valid: true }),
+  }
+}));
+
+import { evaluateRule, validateFormAnswers, calculateAge } from '../../server/services/enrollmentFormService';
+import { FormDefinition } from '../../shared/enrollment-form.schema';
+
+describe('EnrollmentFormService', () => {
+  const definition: FormDefinition = {
+    sections: [
+      {
+        key: 'aluno',
+        title: 'Dados do aluno',
+        order: 0,
+        fields: [
+          { key: 'nome', label: 'Nome', type: 'text', required: true },
+          { key: 'cpf', label: 'CPF', type: 'cpf', required: true },
+          { key: 'nascimento', label: 'Data de nascimento', type: 'date', required: true },
+          { key: 'turno', label: 'Turno', type: 'select', required: false, options: ['Manhã', 'Tarde'] },
+        ],
+      },
+      {
+        key: 'responsavel',
+        title: 'Responsável',
+        order: 1,
+        visibleWhen: { field: 'nascimento', operator: 'age_less_than', value: 18 },
+        fields: [
+          { key: 'nomeResponsavel', label: 'Nome do responsável', type: 'text', required: true },
+        ],
+      },
+    ],
+  };
+
+  const adultBirthDate = '01/01/1990';
+  const minorBirthDate = `01/01/${new Date().getFullYear() - 10}`;
+
+  describe('calculateAge', () => {
+    it('deve aceitar datas nos formatos brasileiro e ISO', () => {
+      const reference = new Date(2024, 5, 15);
+      expect(calculateAge('15/06/2000', reference)).toBe(24);
+      expect(calculateAge('2000-06-16', reference)).toBe(23);
+    });
+  });
+
+  describe('evaluateRule', () => {
+    it('deve combinar regras com all e any', () => {
+      const answers = { turno: 'Manhã', nome: '' };
+      expect(evaluateRule({ all: [
+        { field: 'turno', operator: 'equals', value: 'Manhã' },
+        { field: 'nome', operator: 'empty' },
+      ] }, answers)).toBe(true);
+      expect(evaluateRule({ any: [
+        { field: 'turno', operator: 'equals', value: 'Tarde' },
+        { field: 'nome', operator: 'filled' },
+      ] }, answers)).toBe(false);
+    });
+  });
+
+  describe('validateFormAnswers', () => {
+    it('deve exigir campos do responsável apenas para menores de idade', () => {
+      const adult = validateFormAnswers(definition, { nome: 'Ana', cpf: '529.982.247-25', nascimento: adultBirthDate });
+      expect(adult.valid).toBe(true);
+
+      const minor = validateFormAnswers(definition, { nome: 'Ana', cpf: '529.982.247-25', nascimento: minorBirthDate });
+      expect(minor.valid).toBe(false);
+      expect(minor.errors.nomeResponsavel).toBeDefined();
+    });
+
+    it('deve validar CPF e opções de seleção', () => {
+      const result = validateFormAnswers(definition, {
+        nome: 'Ana',
+        cpf: '111.111.111-11',
+        nascimento: adultBirthDate,
+        turno: 'Noite',
+      });
+
+      expect(result.errors.cpf).toBe('CPF inválido');
+      expect(result.errors.turno).toBe('Opção inválida');
+    });
+
+    it('deve validar somente as seções informadas', () => {
+      const result = validateFormAnswers(definition, { nascimento: minorBirthDate }, ['responsavel']);
+      expect(Object.keys(result.errors)).toEqual(['nomeResponsavel']);
+    });
+  });
+});
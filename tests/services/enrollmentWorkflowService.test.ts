@@ -0,0 +1,193 @@
+/**
+ * Testes para o serviço de fluxo de matrículas
+ * Verifica a validação das definições de fluxo, o cálculo de transições disponíveis
+ * e a execução de transições concorrentes
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({
+  storage: { getEnrollment: jest.fn(), updateEnrollment: jest.fn() }
+}));
+jest.mock('../../server/email', () => ({ emailService: {} }));
+jest.mock('../../server/pusher', () => ({
+  sendSchoolNotification: jest.fn(),
+  sendUserNotification: jest.fn()
+}));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/whatsappTemplateService', () => ({ whatsappTemplateService: {} }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: jest.fn() }));
+jest.mock('../../server/services/schoolIntegrationService', () => ({ schoolIntegrationService: {} }));
+jest.mock('../../server/services/contractService', () => ({ contractService: {} }));
+jest.mock('../../server/services/tuitionBillingService', () => ({ tuitionBillingService: { cancelBilling: jest.fn() } }));
+jest.mock('../../server/services/courseSeatService', () => ({
+  courseSeatService: { confirmSeat: jest.fn(), releaseSeat: jest.fn() }
+}));
+
+import { db } from '../../server/db';
+import { storage } from '../../server/storage';
+import { courseSeatService } from '../../server/services/courseSeatService';
+import { tuitionBillingService } from '../../server/services/tuitionBillingService';
+import {
+  DEFAULT_WORKFLOW,
+  WorkflowDefinition,
+  enrollmentWorkflowService,
+  getAvailableTransitions,
+  validateWorkflowDefinition
+} from '../../server/services/enrollmentWorkflowService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const getEnrollment = storage.getEnrollment as jest.Mock<any>;
+const updateEnrollment = storage.updateEnrollment as jest.Mock<any>;
+const confirmSeat = courseSeatService.confirmSeat as jest.Mock<any>;
+const releaseSeat = courseSeatService.releaseSeat as jest.Mock<any>;
+const cancelBilling = tuitionBillingService.cancelBilling as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+describe('EnrollmentWorkflowService', () => {
+  describe('validateWorkflowDefinition', () => {
+    it('deve aceitar o fluxo padrão', () => {
+      expect(validateWorkflowDefinition(DEFAULT_WORKFLOW)).toEqual([]);
+    });
+
+    it('deve rejeitar estado inicial inexistente', () => {
+      const definition: WorkflowDefinition = { ...DEFAULT_WORKFLOW, initialState: 'draft' };
+      expect(validateWorkflowDefinition(definition)).toContain('Estado inicial inexistente: draft');
+    });
+
+    it('deve rejeitar transições saindo de estados finais', () => {
+      const definition: WorkflowDefinition = {
+        ...DEFAULT_WORKFLOW,
+        transitions: [...DEFAULT_WORKFLOW.transitions, { from: 'completed', to: 'pending', label: 'Reabrir' }]
+      };
+      expect(validateWorkflowDefinition(definition)).toContain('O estado final completed não pode ter transições de saída');
+    });
+
+    it('deve rejeitar transições para estados inexistentes', () => {
+      const definition: WorkflowDefinition = {
+        ...DEFAULT_WORKFLOW,
+        transitions: [{ from: 'pending', to: 'interview', label: 'Agendar entrevista' }]
+      };
+      expect(validateWorkflowDefinition(definition)).toHaveLength(1);
+    });
+
+    it('deve exigir o resultado dos estados finais', () => {
+      const definition: WorkflowDefinition = {
+        ...DEFAULT_WORKFLOW,
+        states: [...DEFAULT_WORKFLOW.states, { key: 'matriculado', label: 'Matriculado', final: true }]
+      };
+      expect(validateWorkflowDefinition(definition)).toEqual([
+        'O estado final matriculado precisa informar se conclui ou encerra a matrícula'
+      ]);
+    });
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('deve listar apenas transições do estado atual', () => {
+      const transitions = getAvailableTransitions(DEFAULT_WORKFLOW, 'approved', 'school');
+      expect(transitions.map(t => t.to)).toEqual(['completed', 'canceled']);
+    });
+
+    it('não deve liberar transições sem papel', () => {
+      expect(getAvailableTransitions(DEFAULT_WORKFLOW, 'pending')).toEqual([]);
+    });
+
+    it('deve filtrar transições restritas por papel', () => {
+      const definition: WorkflowDefinition = {
+        ...DEFAULT_WORKFLOW,
+        transitions: [
+          { from: 'pending', to: 'approved', label: 'Aprovar', roles: ['school', 'admin'] },
+          { from: 'pending', to: 'canceled', label: 'Cancelar' }
+        ]
+      };
+
+      expect(getAvailableTransitions(definition, 'pending', 'student').map(t => t.to)).toEqual(['canceled']);
+      expect(getAvailableTransitions(definition, 'pending', 'school')).toHaveLength(2);
+    });
+  });
+
+  describe('transition', () => {
+    beforeEach(() => {
+      execute.mockReset();
+      getEnrollment.mockReset();
+      updateEnrollment.mockReset();
+      confirmSeat.mockReset();
+      releaseSeat.mockReset();
+      cancelBilling.mockReset();
+      execute.mockResolvedValue([]);
+      getEnrollment.mockResolvedValue({ id: 21, schoolId: 3, status: 'pending' });
+    });
+
+    it('deve mudar o status apenas se ele não mudou desde a leitura', async () => {
+      updateEnrollment.mockResolvedValue({ id: 21, schoolId: 3, status: 'approved' });
+
+      const result = await enrollmentWorkflowService.transition(21, 'approved', { userId: 5, role: 'school' });
+
+      expect(result.success).toBe(true);
+      expect(updateEnrollment).toHaveBeenCalledWith(21, expect.objectContaining({ status: 'approved' }), { expectedStatus: 'pending' });
+      expect(findCall('INSERT INTO enrollment_status_history')?.[1]).toEqual(
+        expect.arrayContaining([21, 'pending', 'approved', 'Aprovar', 5])
+      );
+    });
+
+    it('deve recusar a transição sem papel informado', async () => {
+      const result = await enrollmentWorkflowService.transition(21, 'approved', { userId: 5 });
+
+      expect(result.success).toBe(false);
+      expect(updateEnrollment).not.toHaveBeenCalled();
+    });
+
+    it('não deve registrar histórico quando outro usuário mudou o status antes', async () => {
+      updateEnrollment.mockResolvedValue(undefined);
+
+      const result = await enrollmentWorkflowService.transition(21, 'rejected', { userId: 5, role: 'school' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('alterado por outro usuário');
+      expect(findCall('INSERT INTO enrollment_status_history')).toBeUndefined();
+    });
+
+    it('deve confirmar a vaga ao chegar a um estado final de sucesso do fluxo da escola', async () => {
+      respond({
+        'FROM enrollment_workflows': [{
+          id: 9,
+          school_id: 3,
+          name: 'Fluxo da escola',
+          initial_state: 'pending',
+          states: [
+            { key: 'pending', label: 'Pendente' },
+            { key: 'matriculado', label: 'Matriculado', final: true, outcome: 'success' },
+            { key: 'desistente', label: 'Desistente', final: true, outcome: 'failure' }
+          ],
+          transitions: [
+            { from: 'pending', to: 'matriculado', label: 'Matricular' },
+            { from: 'pending', to: 'desistente', label: 'Desistir' }
+          ],
+          active: true
+        }]
+      });
+      updateEnrollment.mockResolvedValue({ id: 21, schoolId: 3, status: 'matriculado' });
+
+      const result = await enrollmentWorkflowService.transition(21, 'matriculado', { userId: 5, role: 'school' });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, outcome: 'success' }));
+      expect(confirmSeat).toHaveBeenCalledWith(expect.objectContaining({ id: 21 }));
+      expect(releaseSeat).not.toHaveBeenCalled();
+      expect(cancelBilling).not.toHaveBeenCalled();
+    });
+
+    it('deve liberar a vaga e cancelar as parcelas ao encerrar a matrícula sem sucesso', async () => {
+      updateEnrollment.mockResolvedValue({ id: 21, schoolId: 3, status: 'canceled' });
+
+      const result = await enrollmentWorkflowService.transition(21, 'canceled', { userId: 5, role: 'school' });
+
+      expect(result.outcome).toBe('failure');
+      expect(releaseSeat).toHaveBeenCalledWith(21);
+      expect(cancelBilling).toHaveBeenCalledWith(21);
+      expect(confirmSeat).not.toHaveBeenCalled();
+    });
+  });
+});
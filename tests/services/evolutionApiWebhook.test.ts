@@ -46,6 +46,13 @@ jest.mock('../../server/services/evolutionApi', () => ({
   }
 }));
 
+// A triagem de documentos carrega os modelos de OCR e ML
+jest.mock('../../server/services/whatsappDocumentIntakeService', () => ({
+  whatsappDocumentIntakeService: {
+    handleIncomingMedia: jest.fn()
+  }
+}));
+
 jest.mock('uuid', () => ({
   v4: jest.fn().mockReturnValue('mock-uuid-123')
 }));
@@ -0,0 +1,114 @@
+/**
+ * Testes para o serviço de responsáveis
+ * Verifica quem pode agir pelo aluno, a escolha do pagador das cobranças,
+ * o convite por email e o envio de documentos pelo responsável
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendEmail = jest.fn<any>();
+const logAction = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/email', () => ({ emailService: { sendEmail } }));
+jest.mock('../../server/services/securityService', () => ({ logAction }));
+jest.mock('fs', () => ({ existsSync: jest.fn(() => true), mkdirSync: jest.fn(), writeFileSync: jest.fn() }));
+
+import { db } from '../../server/db';
+import { guardianService } from '../../server/services/guardianService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+describe('GuardianService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    sendEmail.mockReset();
+    logAction.mockReset();
+    execute.mockResolvedValue([]);
+  });
+
+  it('deve permitir agir pelo aluno apenas ao próprio aluno ou a um responsável vinculado', async () => {
+    execute.mockResolvedValueOnce([{ '?column?': 1 }]);
+    await expect(guardianService.canActForStudent(7, 40)).resolves.toBe(true);
+    expect(execute.mock.calls[0][1]).toEqual([7, 40]);
+
+    await expect(guardianService.canActForStudent(8, 40)).resolves.toBe(false);
+  });
+
+  it('deve cobrar o responsável financeiro com CPF e, sem ele, o próprio aluno', async () => {
+    respond({
+      'financial_responsible = TRUE': [{ user_id: 7, full_name: 'Maria Souza', email: 'maria@example.com', phone: null, cpf: '52998224725', city: 'São Paulo', state: 'SP' }],
+    });
+    await expect(guardianService.getBillingCustomer(40)).resolves.toMatchObject({
+      customerName: 'Maria Souza',
+      customerDocument: '52998224725',
+      customerAddress: 'São Paulo, SP',
+      payerUserId: 7,
+    });
+
+    respond({
+      'financial_responsible = TRUE': [{ user_id: 7, full_name: 'Maria Souza', cpf: null }],
+      'FROM students s': [{ user_id: 9, full_name: 'Pedro Souza', cpf: '11144477735' }],
+    });
+    await expect(guardianService.getBillingCustomer(40)).resolves.toMatchObject({
+      customerName: 'Pedro Souza',
+      payerUserId: 9,
+    });
+  });
+
+  it('deve convidar o responsável por email substituindo convites pendentes', async () => {
+    respond({
+      'INSERT INTO guardian_invitations': [{ id: 3, student_id: 40, email: 'maria@example.com', status: 'pending', financial_responsible: true }],
+      'FROM students s': [{ student_name: 'Pedro Souza', school_name: 'Escola Alfa' }],
+    });
+
+    const invitation = await guardianService.createInvitation(40, { email: ' Maria@Example.com ', financialResponsible: true }, 2);
+
+    expect(invitation).toMatchObject({ studentId: 40, email: 'maria@example.com', studentName: 'Pedro Souza' });
+    expect(findCall("SET status = 'revoked'")?.[1]).toEqual([40, 'maria@example.com']);
+    const token = (findCall('INSERT INTO guardian_invitations')?.[1] as any[])[0];
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'maria@example.com',
+      html: expect.stringContaining(`/guardian-invite/${token}`),
+    }));
+  });
+
+  it('deve vincular o aluno só depois de reivindicar o convite', async () => {
+    respond({
+      "SET status = 'accepted'": [{ id: 3, student_id: 40, relationship: 'mãe', financial_responsible: true }],
+      'INSERT INTO guardians': [{ id: 12, user_id: 7 }],
+      'INSERT INTO guardian_students': [{ id: 1, guardian_id: 12, student_id: 40, relationship: 'mãe', financial_responsible: true }],
+    });
+
+    const link = await guardianService.acceptInvitation('abc', 7);
+
+    expect(link).toMatchObject({ guardianId: 12, studentId: 40, financialResponsible: true });
+    expect(findCall("SET status = 'accepted'")?.[0]).toContain("status = 'pending' AND expires_at > NOW()");
+  });
+
+  it('deve recusar convite já usado ou expirado sem criar vínculo', async () => {
+    await expect(guardianService.acceptInvitation('abc', 7)).rejects.toThrow('Convite inválido ou expirado');
+    expect(findCall('INSERT INTO guardian_students')).toBeUndefined();
+  });
+
+  it('deve registrar o documento enviado pelo responsável como pendente de conferência', async () => {
+    execute.mockResolvedValueOnce([{ id: 55, status: 'pending' }]);
+
+    const document = await guardianService.addEnrollmentDocument(7, { id: 21, studentId: 40 }, {
+      buffer: Buffer.from('pdf'),
+      originalName: 'RG.PDF',
+      mimeType: 'application/pdf',
+    }, { type: 'id' });
+
+    expect(document.id).toBe(55);
+    const params = findCall('INSERT INTO documents')?.[1] as any[];
+    expect(params.slice(0, 4)).toEqual([21, 40, 'id', 'RG.PDF']);
+    expect(params[4]).toMatch(/^\/uploads\/guardians\/.+\.pdf$/);
+    expect(JSON.parse(params[7])).toEqual({ source: 'guardian', uploadedBy: 7 });
+    expect(logAction).toHaveBeenCalledWith(7, 'guardian_document_uploaded', 'enrollment', '21', { documentId: 55, type: 'id' });
+  });
+});
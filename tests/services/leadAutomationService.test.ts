@@ -0,0 +1,179 @@
+/**
+ * Testes para a automação do funil de leads
+ * Verifica o rodízio e a menor carga na distribuição, o horário de
+ * atendimento e a fila fora dele, a primeira resposta, o escalonamento do SLA
+ * e a execução e interrupção das cadências
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendTextMessage = jest.fn<any>();
+
+jest.mock('../../server/db', () => {
+  const execute = jest.fn();
+  return {
+    db: {
+      execute,
+      transaction: jest.fn((work: any) => work({ execute })),
+    },
+  };
+});
+jest.mock('../../server/storage', () => ({ storage: {} }));
+jest.mock('../../server/email', () => ({ emailService: { sendEmail: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolNotification: jest.fn(), sendUserNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/cacheService', () => ({ cacheService: { increment: jest.fn() } }));
+jest.mock('../../server/services/domainEventService', () => ({ domainEventService: { subscribe: jest.fn() } }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ sendTextMessage }) }));
+jest.mock('../../server/services/whatsappTemplateService', () => ({
+  whatsappTemplateService: {
+    processTemplate: async (content: string, data: Record<string, string>) =>
+      content.replace(/\{\{(\w+)\}\}/g, (_match, key) => data[key] ?? ''),
+  },
+}));
+
+import { db } from '../../server/db';
+import { sendSchoolNotification, sendUserNotification } from '../../server/pusher';
+import {
+  leadAutomationService,
+  isWithinWorkingHours,
+  phoneMatchKey,
+  pickRoundRobin
+} from '../../server/services/leadAutomationService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const notifySchool = sendSchoolNotification as jest.Mock<any>;
+const notifyUser = sendUserNotification as jest.Mock<any>;
+
+const lead = { id: 10, school_id: 3, course_id: 7, full_name: 'Maria Souza', phone: '11912345678', assigned_to: null };
+
+const { respond, findCall, findCallIndex } = mockQueries(execute);
+
+describe('LeadAutomationService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    notifySchool.mockReset();
+    notifyUser.mockReset();
+    sendTextMessage.mockReset();
+  });
+
+  it('deve alternar os atendentes em rodízio e respeitar o horário de atendimento', () => {
+    expect(pickRoundRobin([8, 4, 6], null)).toBe(4);
+    expect(pickRoundRobin([8, 4, 6], 6)).toBe(8);
+    expect(pickRoundRobin([8, 4, 6], 8)).toBe(4);
+
+    const hours = { days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00' };
+    // Segunda-feira, 10h e 19h em São Paulo (UTC-3)
+    expect(isWithinWorkingHours(hours, new Date('2026-03-02T13:00:00Z'), 'America/Sao_Paulo')).toBe(true);
+    expect(isWithinWorkingHours(hours, new Date('2026-03-02T22:00:00Z'), 'America/Sao_Paulo')).toBe(false);
+    // Sábado
+    expect(isWithinWorkingHours(hours, new Date('2026-03-07T13:00:00Z'), 'America/Sao_Paulo')).toBe(false);
+
+    expect(phoneMatchKey('+55 (11) 91234-5678')).toBe(phoneMatchKey('1112345678'));
+  });
+
+  it('deve atribuir ao atendente com menos leads abertos e notificá-lo', async () => {
+    respond({
+      'FROM lead_assignment_rules': [{ id: 1, name: 'Comercial', strategy: 'least_loaded', attendant_ids: [4, 6, 8], working_hours: null, last_assigned_user_id: 4 }],
+      'FROM users u': [{ id: 4, open_leads: 2 }, { id: 6, open_leads: 5 }, { id: 8, open_leads: 2 }],
+      'UPDATE leads SET assigned_to': [{ id: 10 }],
+    });
+
+    const userId = await leadAutomationService.assignLead(lead);
+
+    expect(userId).toBe(8);
+    const assignCall = findCall('UPDATE leads SET assigned_to');
+    expect(assignCall?.[1]).toEqual([10, 8]);
+    expect(notifyUser).toHaveBeenCalledWith(8, expect.objectContaining({ type: 'lead', relatedId: 10 }));
+  });
+
+  it('deve ler o último atendente do rodízio com bloqueio antes de atribuir', async () => {
+    respond({
+      'SELECT * FROM lead_assignment_rules': [{ id: 1, name: 'Comercial', strategy: 'round_robin', attendant_ids: [4, 6, 8], working_hours: null, last_assigned_user_id: 4 }],
+      'FOR UPDATE': [{ last_assigned_user_id: 6 }],
+      'FROM users u': [{ id: 4, open_leads: 0 }, { id: 6, open_leads: 0 }, { id: 8, open_leads: 0 }],
+      'UPDATE leads SET assigned_to': [{ id: 10 }],
+    });
+
+    expect(await leadAutomationService.assignLead(lead)).toBe(8);
+    const lockIndex = findCallIndex('SELECT last_assigned_user_id FROM lead_assignment_rules WHERE id = $1 FOR UPDATE');
+    expect(lockIndex).toBeGreaterThanOrEqual(0);
+    expect(lockIndex).toBeLessThan(findCallIndex('UPDATE leads SET assigned_to'));
+    expect(findCall('SET last_assigned_user_id = $2')?.[1]).toEqual([1, 8]);
+  });
+
+  it('deve enfileirar o lead que chega fora do horário e atribuí-lo na abertura', async () => {
+    const rule = {
+      id: 1, name: 'Comercial', strategy: 'round_robin', attendant_ids: [4],
+      working_hours: { days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00' }, last_assigned_user_id: null,
+    };
+    respond({
+      'SELECT * FROM lead_assignment_rules': [rule],
+      'JOIN leads l ON l.id = q.lead_id': [lead],
+      'FROM users u': [{ id: 4, open_leads: 0 }],
+      'UPDATE leads SET assigned_to': [{ id: 10 }],
+    });
+
+    // Segunda-feira, 19h em São Paulo
+    expect(await leadAutomationService.assignLead(lead, new Date('2026-03-02T22:00:00Z'))).toBeNull();
+    expect(findCall('INSERT INTO lead_assignment_queue')?.[1]).toEqual([10, 3]);
+    expect(findCall('UPDATE leads SET assigned_to')).toBeUndefined();
+
+    execute.mockClear();
+    // Terça-feira, 8h30
+    expect(await leadAutomationService.processAssignmentQueue(new Date('2026-03-03T11:30:00Z'))).toBe(1);
+    expect(findCall('UPDATE leads SET assigned_to')?.[1]).toEqual([10, 4]);
+    expect(findCall('DELETE FROM lead_assignment_queue WHERE lead_id = $1')?.[1]).toEqual([10]);
+    expect(findCall('INSERT INTO lead_assignment_queue')).toBeUndefined();
+  });
+
+  it('deve registrar a primeira resposta pelo telefone do contato', async () => {
+    execute.mockResolvedValue([{ lead_id: 10 }]);
+
+    expect(await leadAutomationService.recordFirstResponseByPhone(3, '5511912345678@s.whatsapp.net')).toBe(1);
+    const [query, params] = execute.mock.calls[0] as [string, any[]];
+    expect(query).toContain('s.first_response_at IS NULL');
+    expect(params).toEqual([3, '1112345678']);
+  });
+
+  it('deve escalonar os SLAs vencidos para a escola e o atendente', async () => {
+    respond({
+      'SET breached_at = NOW()': [{ lead_id: 10, school_id: 3, due_at: new Date(), full_name: 'Maria Souza', assigned_to: 8 }],
+    });
+
+    expect(await leadAutomationService.processSlaBreaches()).toBe(1);
+    expect(notifySchool).toHaveBeenCalledWith(3, expect.objectContaining({ title: 'SLA de primeira resposta vencido', relatedId: 10 }));
+    expect(notifyUser).toHaveBeenCalledWith(8, expect.objectContaining({ relatedId: 10 }));
+  });
+
+  it('deve enviar o passo de WhatsApp e agendar o próximo passo da cadência', async () => {
+    const steps = [
+      { dayOffset: 1, channel: 'whatsapp', content: 'Olá, {{nome}}! Ainda pensa em {{curso}}?' },
+      { dayOffset: 3, channel: 'email', subject: 'Oi', content: 'E-mail' },
+    ];
+    respond({
+      'SET locked_at = NOW()': [{ id: 5, lead_id: 10, cadence_id: 2, current_step: 0 }],
+      'JOIN lead_cadences c': [{ ...lead, status: 'new', steps, school_name: 'Colégio Aurora', course_name: 'Inglês Kids' }],
+      'FROM whatsapp_instances': [{ instance_key: 'escola-3' }],
+    });
+
+    expect(await leadAutomationService.processCadenceSteps()).toBe(1);
+    expect(sendTextMessage).toHaveBeenCalledWith('escola-3', '5511912345678', 'Olá, Maria! Ainda pensa em Inglês Kids?');
+    const scheduleCall = findCall('SET current_step = $2');
+    expect(scheduleCall?.[1]).toEqual([5, 1, 3, null]);
+  });
+
+  it('deve interromper a cadência de lead convertido sem enviar mensagens', async () => {
+    respond({
+      'SET locked_at = NOW()': [{ id: 5, lead_id: 10, cadence_id: 2, current_step: 0 }],
+      'JOIN lead_cadences c': [{ ...lead, status: 'converted', steps: [] }],
+    });
+
+    await leadAutomationService.processCadenceSteps();
+
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    const finishCall = findCall('SET status = $2, stop_reason = $3');
+    expect(finishCall?.[1]).toEqual([5, 'stopped', 'converted', null]);
+  });
+});
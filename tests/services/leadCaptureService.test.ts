@@ -0,0 +1,174 @@
+/**
+ * Testes para a captação de leads pelo formulário público
+ * Verifica o descarte silencioso por honeypot, o limite de envios por IP, o
+ * registro de campanha e consentimento e a saudação pelo WhatsApp apenas a
+ * números confirmados pelo próprio contato
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendTextMessage = jest.fn<any>();
+const requestConfirmation = jest.fn<any>();
+const confirmPending = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({ storage: { createLead: jest.fn() } }));
+jest.mock('../../server/services/cacheService', () => ({ cacheService: { increment: jest.fn() } }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ sendTextMessage }) }));
+jest.mock('../../server/services/consentService', () => ({
+  ...(jest.requireActual('../../server/services/consentService') as object),
+  consentService: { requestConfirmation, confirmPending, recordConsent: jest.fn(async () => ({})) },
+}));
+jest.mock('../../server/services/whatsappTemplateService', () => ({
+  whatsappTemplateService: {
+    processTemplate: async (content: string, data: Record<string, string>) =>
+      content.replace(/\{\{(\w+)\}\}/g, (_match, key) => data[key] ?? ''),
+  },
+}));
+
+import { db } from '../../server/db';
+import { storage } from '../../server/storage';
+import { cacheService } from '../../server/services/cacheService';
+import { DEFAULT_SUCCESS_MESSAGE, leadCaptureService, normalizeWhatsappNumber } from '../../server/services/leadCaptureService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const createLead = storage.createLead as jest.Mock<any>;
+const increment = cacheService.increment as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const input = {
+  fullName: 'Maria Souza',
+  phone: '(11) 91234-5678',
+  courseId: 7,
+  consent: true as const,
+  channel: 'embed' as const,
+  utmSource: 'instagram',
+  utmCampaign: 'matriculas-2026',
+};
+
+const context = { ip: '200.1.2.3', userAgent: 'Mozilla/5.0' };
+
+function mockDatabase(instance: Record<string, any> | null = { instance_key: 'escola-3' }) {
+  respond({
+    'FROM schools': [{ id: 3, name: 'Colégio Aurora', logo: null }],
+    'FROM lead_capture_settings': [],
+    'FROM courses': [{ id: 7, name: 'Inglês Kids' }],
+    'FROM whatsapp_instances': instance ? [instance] : [],
+    "metadata::jsonb - 'pendingGreeting'": [
+      { id: 40, greeting: { nome: 'Maria', escola: 'Colégio Aurora', curso: 'Teatro' } },
+      { id: 42, greeting: { nome: 'Maria', escola: 'Colégio Aurora', curso: 'Inglês Kids' } },
+    ],
+  });
+}
+
+describe('LeadCaptureService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    createLead.mockReset();
+    increment.mockReset();
+    sendTextMessage.mockReset();
+    requestConfirmation.mockReset();
+    confirmPending.mockReset();
+    createLead.mockImplementation(async (lead: any) => ({ id: 42, ...lead }));
+    increment.mockResolvedValue(1);
+    requestConfirmation.mockResolvedValue('pending');
+  });
+
+  it('deve descartar sem gravar envios com o campo armadilha preenchido, com a mesma mensagem de sucesso', async () => {
+    mockDatabase();
+
+    const ignored = await leadCaptureService.captureLead(3, { ...input, website: 'http://spam.example' }, context);
+    const created = await leadCaptureService.captureLead(3, input, context);
+
+    expect(ignored).toEqual({ status: 'ignored', successMessage: DEFAULT_SUCCESS_MESSAGE });
+    expect(ignored.successMessage).toBe(created.successMessage);
+    expect(createLead).toHaveBeenCalledTimes(1);
+    expect(requestConfirmation).toHaveBeenCalledTimes(1);
+  });
+
+  it('deve bloquear o IP acima do limite de envios da janela', async () => {
+    increment.mockResolvedValueOnce(6);
+
+    const result = await leadCaptureService.captureLead(3, input, context);
+
+    expect(result).toEqual({ status: 'rate_limited' });
+    expect(increment).toHaveBeenCalledWith('3:200.1.2.3', 1, { namespace: 'lead-capture', ttl: 600 });
+    expect(createLead).not.toHaveBeenCalled();
+  });
+
+  it('deve continuar limitando os envios quando o cache está indisponível', async () => {
+    mockDatabase();
+    increment.mockResolvedValue(null);
+    const otherContext = { ...context, ip: '200.9.9.9' };
+
+    for (let i = 0; i < 5; i++) {
+      expect((await leadCaptureService.captureLead(3, input, otherContext)).status).not.toBe('rate_limited');
+    }
+    const result = await leadCaptureService.captureLead(3, input, otherContext);
+
+    expect(result).toEqual({ status: 'rate_limited' });
+    expect(createLead).toHaveBeenCalledTimes(5);
+  });
+
+  it('deve registrar origem, campanha e consentimento pendente sem saudar o número não confirmado', async () => {
+    mockDatabase();
+
+    const result = await leadCaptureService.captureLead(3, input, context);
+
+    expect(result).toMatchObject({ status: 'created', leadId: 42, greetingSent: false, greetingPending: true });
+    const lead = createLead.mock.calls[0][0] as any;
+    expect(lead).toMatchObject({ schoolId: 3, courseId: 7, source: 'site', status: 'new' });
+    expect(lead.metadata.campaign).toMatchObject({ utmSource: 'instagram', utmCampaign: 'matriculas-2026', utmMedium: null });
+    expect(lead.metadata.consent).toMatchObject({ accepted: true, ip: '200.1.2.3', userAgent: 'Mozilla/5.0' });
+    expect(requestConfirmation).toHaveBeenCalledWith(expect.objectContaining({ schoolId: 3, channel: 'whatsapp', source: 'lead_form' }));
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    const pending = findCall('UPDATE leads SET metadata');
+    expect(JSON.parse((pending?.[1] as any[])[1])).toEqual({
+      pendingGreeting: { nome: 'Maria', escola: 'Colégio Aurora', curso: 'Inglês Kids' },
+    });
+  });
+
+  it('deve saudar na hora o número que o contato já confirmou', async () => {
+    mockDatabase();
+    requestConfirmation.mockResolvedValue('granted');
+
+    const result = await leadCaptureService.captureLead(3, input, context);
+
+    expect(result).toMatchObject({ status: 'created', greetingSent: true, greetingPending: false });
+    expect(sendTextMessage).toHaveBeenCalledWith(
+      'escola-3',
+      '5511912345678',
+      expect.stringContaining('Olá, Maria! Aqui é da Colégio Aurora. Recebemos seu interesse em Inglês Kids')
+    );
+  });
+
+  it('deve confirmar o consentimento e enviar a saudação mais recente quando o contato responde', async () => {
+    mockDatabase();
+    confirmPending.mockResolvedValue(true);
+
+    expect(await leadCaptureService.handleContactReply(3, '5511912345678@s.whatsapp.net', { messageId: 'ABC' })).toBe(true);
+
+    expect(confirmPending).toHaveBeenCalledWith(3, 'whatsapp', '5511912345678@s.whatsapp.net', { messageId: 'ABC' });
+    expect(sendTextMessage).toHaveBeenCalledTimes(1);
+    expect(sendTextMessage).toHaveBeenCalledWith('escola-3', '5511912345678', expect.stringContaining('interesse em Inglês Kids'));
+
+    sendTextMessage.mockReset();
+    confirmPending.mockResolvedValue(false);
+    expect(await leadCaptureService.handleContactReply(3, '5511912345678@s.whatsapp.net')).toBe(false);
+    expect(sendTextMessage).not.toHaveBeenCalled();
+  });
+
+  it('deve manter o lead quando a saudação pelo WhatsApp falha', async () => {
+    mockDatabase();
+    requestConfirmation.mockResolvedValue('granted');
+    sendTextMessage.mockRejectedValueOnce(new Error('instância desconectada'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await leadCaptureService.captureLead(3, input, context);
+
+    expect(result).toMatchObject({ status: 'created', leadId: 42, greetingSent: false });
+    expect(normalizeWhatsappNumber('123')).toBeNull();
+  });
+});
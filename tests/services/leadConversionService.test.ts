@@ -0,0 +1,179 @@
+/**
+ * Testes para a pontuação e conversão de leads
+ * Verifica o cálculo da pontuação por engajamento, cadastro, origem e
+ * recência e a conversão do lead em aluno e matrícula vinculada
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({ storage: { createEnrollment: jest.fn(), updateLead: jest.fn() } }));
+jest.mock('../../server/email', () => ({ emailService: { sendEmail: jest.fn() } }));
+jest.mock('../../server/auth', () => ({ hashPassword: async (password: string) => `hash:${password}` }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/domainEventService', () => ({ domainEventService: { subscribe: jest.fn() } }));
+jest.mock('../../server/services/enrollmentWorkflowService', () => ({
+  enrollmentWorkflowService: { getInitialStatus: async () => 'pending', recordInitialStatus: jest.fn() },
+}));
+jest.mock('../../server/services/courseSeatService', () => ({ courseSeatService: { requestSeat: jest.fn() } }));
+jest.mock('../../server/services/leadAutomationService', () => ({ phoneMatchKeySql: (column: string) => column }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: jest.fn() }));
+jest.mock('../../server/pusher', () => ({ sendSchoolEvent: jest.fn(), sendSchoolNotification: jest.fn(), sendUserNotification: jest.fn() }));
+
+import { db } from '../../server/db';
+import { storage } from '../../server/storage';
+import { emailService } from '../../server/email';
+import { enrollmentWorkflowService } from '../../server/services/enrollmentWorkflowService';
+import { courseSeatService } from '../../server/services/courseSeatService';
+import { leadConversionService, calculateLeadScore } from '../../server/services/leadConversionService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const createEnrollment = storage.createEnrollment as jest.Mock<any>;
+const updateLead = storage.updateLead as jest.Mock<any>;
+const sendEmail = emailService.sendEmail as jest.Mock<any>;
+const recordInitialStatus = enrollmentWorkflowService.recordInitialStatus as jest.Mock<any>;
+const requestSeat = courseSeatService.requestSeat as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const lead = {
+  id: 10,
+  school_id: 3,
+  course_id: 7,
+  full_name: 'Maria Souza',
+  email: 'Maria@Email.com',
+  phone: '11912345678',
+  source: 'landing_page',
+  notes: 'Prefere período da tarde',
+  metadata: { campaign: { utmSource: 'instagram' } },
+  score: 62,
+  enrollment_id: null,
+};
+
+describe('LeadConversionService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    createEnrollment.mockReset();
+    updateLead.mockReset();
+    sendEmail.mockReset();
+    sendEmail.mockResolvedValue({ success: true });
+    recordInitialStatus.mockReset();
+    requestSeat.mockReset();
+    requestSeat.mockResolvedValue({ status: 'held' });
+  });
+
+  it('deve pontuar mais o lead engajado, completo e recente', () => {
+    const engaged = calculateLeadScore({
+      source: 'Indicação',
+      incomingMessages: 8,
+      outgoingMessages: 3,
+      hasEmail: true,
+      hasPhone: true,
+      hasCourse: true,
+      consentGiven: true,
+      lastActivityAt: new Date('2026-03-10T08:00:00Z'),
+    }, now);
+    expect(engaged).toEqual({ score: 100, factors: { engagement: 35, form: 25, source: 20, recency: 20 } });
+
+    const cold = calculateLeadScore({
+      source: null,
+      incomingMessages: 0,
+      outgoingMessages: 4,
+      hasEmail: false,
+      hasPhone: true,
+      hasCourse: false,
+      consentGiven: false,
+      lastActivityAt: new Date('2026-01-01T12:00:00Z'),
+    }, now);
+    expect(cold).toEqual({ score: 5, factors: { engagement: 0, form: 5, source: 0, recency: 0 } });
+  });
+
+  it('deve gravar as pontuações calculadas em lote', async () => {
+    respond({
+      'LEFT JOIN LATERAL': [{
+        id: 10, source: 'whatsapp', email: null, phone: '11912345678', course_id: 7, metadata: null,
+        created_at: new Date('2026-03-01T12:00:00Z'), updated_at: new Date('2026-03-01T12:00:00Z'),
+        incoming_messages: 2, outgoing_messages: 1, last_message_at: new Date('2026-03-08T12:00:00Z'),
+      }],
+    });
+
+    expect(await leadConversionService.refreshScores({ schoolId: 3 }, now)).toBe(1);
+
+    const updateCall = findCall('unnest(');
+    expect(updateCall?.[1]).toEqual([[10], [65], [JSON.stringify({ engagement: 20, form: 15, source: 15, recency: 15 })]]);
+  });
+
+  it('deve contar as mensagens pelas direções realmente gravadas pelos webhooks', async () => {
+    // Direções gravadas pelo webhook da Evolution API ('received') e pelas rotas legadas
+    const stored = ['received', 'inbound', 'received', 'outbound', 'outgoing'];
+    respond({
+      'LEFT JOIN LATERAL': params => {
+        const [incomingDirections, outgoingDirections] = params.slice(3);
+        return [{
+          id: 10, source: 'whatsapp', email: null, phone: '11912345678', course_id: 7, metadata: null,
+          created_at: new Date('2026-03-01T12:00:00Z'), updated_at: new Date('2026-03-01T12:00:00Z'),
+          incoming_messages: stored.filter(direction => incomingDirections.includes(direction)).length,
+          outgoing_messages: stored.filter(direction => outgoingDirections.includes(direction)).length,
+          last_message_at: new Date('2026-03-08T12:00:00Z'),
+        }];
+      },
+    });
+
+    await leadConversionService.refreshScores({ leadId: 10 }, now);
+
+    const selectCall = findCall('LEFT JOIN LATERAL');
+    expect(selectCall?.[0]).toContain('wm.direction = ANY($4::text[])');
+    const updateCall = findCall('unnest(');
+    expect(JSON.parse((updateCall?.[1] as any[])[2][0]).engagement).toBe(25);
+    const [incomingDirections, outgoingDirections] = (selectCall?.[1] as any[]).slice(3);
+    expect(stored.filter(direction => incomingDirections.includes(direction))).toHaveLength(3);
+    expect(stored.filter(direction => outgoingDirections.includes(direction))).toHaveLength(2);
+  });
+
+  it('deve criar aluno e matrícula vinculada ao lead e marcá-lo como convertido', async () => {
+    respond({
+      'FROM leads l': [lead],
+      'FROM courses': [{ id: 7, name: 'Inglês Kids' }],
+      'INSERT INTO users': [{ id: 50 }],
+      'INSERT INTO students': [{ id: 80 }],
+      'UPDATE whatsapp_contacts': [{ id: 4 }, { id: 5 }],
+    });
+    createEnrollment.mockImplementation(async (enrollment: any) => ({ id: 300, ...enrollment }));
+
+    const result = await leadConversionService.convertLead(10, {}, 1);
+
+    expect(result).toEqual({
+      leadId: 10, userId: 50, studentId: 80, enrollmentId: 300, userCreated: true, linkedContacts: 2, seatStatus: 'held',
+    });
+    expect(recordInitialStatus).toHaveBeenCalledWith(300, 'pending', 1);
+    expect(requestSeat).toHaveBeenCalledWith({ id: 300, courseId: 7, schoolId: 3, studentId: 80 });
+
+    const userCall = findCall('INSERT INTO users');
+    expect(userCall?.[1]).toEqual(['maria', 'maria@email.com', expect.stringMatching(/^hash:/), 'Maria Souza', '11912345678', 3]);
+
+    expect(createEnrollment).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: 80,
+      schoolId: 3,
+      courseId: 7,
+      leadId: 10,
+      status: 'pending',
+      metadata: { lead: expect.objectContaining({ id: 10, source: 'landing_page', notes: 'Prefere período da tarde' }) },
+    }));
+    expect(updateLead).toHaveBeenCalledWith(10, { status: 'converted', courseId: 7 });
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'maria@email.com' }));
+  });
+
+  it('deve recusar a conversão de lead que já tem matrícula', async () => {
+    respond({
+      'FROM leads l': [{ ...lead, enrollment_id: 300 }],
+    });
+
+    await expect(leadConversionService.convertLead(10, {}, 1)).rejects.toThrow('Lead já convertido em matrícula');
+    expect(createEnrollment).not.toHaveBeenCalled();
+    expect(requestSeat).not.toHaveBeenCalled();
+    expect(updateLead).not.toHaveBeenCalled();
+  });
+});
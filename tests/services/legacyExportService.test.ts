@@ -0,0 +1,126 @@
+/**
+ * Testes para a exportação do EduMatrik para sistemas legados
+ * Verifica o preenchimento dos templates de requisição, a escolha entre
+ * criação e atualização pelos IDs mapeados e a resolução de conflitos
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+
+import { db } from '../../server/db';
+import {
+  legacyExportService,
+  renderRequestTemplate,
+  resolveConflict
+} from '../../server/services/legacyExportService';
+import { rulesFromFieldMap } from '../../server/services/transformationEngine';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall, findCalls } = mockQueries(execute);
+
+const endpoints = [
+  { id: 1, name: 'alunos:create', endpoint: '/alunos', method: 'POST', request_template: null, response_template: { idPath: 'aluno.codigo' }, headers: null, rate_limit_per_minute: null },
+  { id: 2, name: 'alunos:update', endpoint: '/alunos/{{legacyId}}', method: 'PUT', request_template: { dados: '{{NOME}}', codigo: '{{legacyId}}' }, response_template: null, headers: null, rate_limit_per_minute: null },
+  { id: 3, name: 'alunos:get', endpoint: '/alunos/{{legacyId}}', method: 'GET', request_template: null, response_template: null, headers: null, rate_limit_per_minute: null },
+];
+
+const students = [
+  { id: 10, user_id: 1, full_name: 'Maria Silva', cpf: '52998224725', changed_at: new Date('2025-03-10T12:00:00Z') },
+  { id: 11, user_id: 2, full_name: 'João Souza', cpf: '11144477735', changed_at: new Date('2025-03-10T12:00:00Z') },
+];
+
+function mockDatabase(options: { idMappings?: Record<string, any>; settings?: any } = {}) {
+  respond({
+    'FROM legacy_endpoints': endpoints,
+    'FROM legacy_data_mappings': [options.settings || { conflict_strategy: 'last_write_wins', legacy_updated_at_field: null }],
+    'FROM students': students,
+    'SELECT legacy_id, last_sync_at, last_hash': params => {
+      const mapping = options.idMappings?.[params[2]];
+      return mapping ? [mapping] : [];
+    },
+  });
+}
+
+const exportOptions = (client: any, mappingDirection = 'export') => ({
+  syncId: 5,
+  systemId: 2,
+  schoolId: 3,
+  mapping: { id: 7, edumatrikEntity: 'students', legacyEntity: 'alunos', mappingDirection, primaryKeyMapping: {} },
+  rules: rulesFromFieldMap({ NOME: 'fullName', CPF: 'cpf' }),
+  client,
+});
+
+describe('LegacyExportService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+  });
+
+  it('deve preencher o template mantendo o tipo dos valores', () => {
+    const rendered = renderRequestTemplate(
+      { valor: '{{ amount }}', descricao: 'Parcela {{parcela}} de {{aluno.nome}}', itens: ['{{ativo}}'] },
+      { amount: 150.5, parcela: 2, aluno: { nome: 'Maria' }, ativo: true }
+    );
+
+    expect(rendered).toEqual({ valor: 150.5, descricao: 'Parcela 2 de Maria', itens: [true] });
+  });
+
+  it('deve criar registros sem ID mapeado e atualizar os já mapeados', async () => {
+    mockDatabase({ idMappings: { '11': { legacy_id: 'A-2', last_sync_at: new Date('2025-03-01T00:00:00Z'), last_hash: 'antigo' } } });
+    const client = { request: jest.fn(async (config: any) => ({ data: config.method === 'POST' ? { aluno: { codigo: 'A-1' } } : {} })) };
+
+    const result = await legacyExportService.exportEntity(exportOptions(client) as any);
+
+    expect(result).toMatchObject({ processed: 2, created: 1, updated: 1, failed: 0 });
+    expect(client.request.mock.calls.map(([config]: any[]) => [config.method, config.url])).toEqual([
+      ['POST', '/alunos'],
+      ['PUT', '/alunos/A-2'],
+    ]);
+    expect((client.request.mock.calls[0][0] as any).data).toEqual({ NOME: 'Maria Silva', CPF: '52998224725' });
+    expect((client.request.mock.calls[1][0] as any).data).toEqual({ dados: 'João Souza', codigo: 'A-2' });
+
+    const saved = findCalls('INSERT INTO legacy_id_mappings');
+    expect(saved.map(([, params]) => (params as any[]).slice(1, 5))).toEqual([
+      ['student', '10', 'alunos', 'A-1'],
+      ['student', '11', 'alunos', 'A-2'],
+    ]);
+  });
+
+  it('deve manter o registro legado quando ele é a fonte da verdade', async () => {
+    mockDatabase({
+      settings: { conflict_strategy: 'legacy_wins', legacy_updated_at_field: 'alteradoEm' },
+      idMappings: {
+        '10': { legacy_id: 'A-1', last_sync_at: new Date('2025-03-01T00:00:00Z'), last_hash: 'antigo' },
+        '11': { legacy_id: 'A-2', last_sync_at: new Date('2025-03-01T00:00:00Z'), last_hash: 'antigo' },
+      },
+    });
+    const client = {
+      request: jest.fn(async (config: any) => ({
+        data: config.method === 'GET'
+          ? { alteradoEm: config.url === '/alunos/A-1' ? '2025-03-05T00:00:00Z' : '2025-02-01T00:00:00Z' }
+          : {}
+      })),
+    };
+
+    const result = await legacyExportService.exportEntity(exportOptions(client, 'bidirectional') as any);
+
+    expect(result).toMatchObject({ conflicts: 1, skipped: 1, updated: 1 });
+    expect(client.request.mock.calls.map(([config]: any[]) => `${config.method} ${config.url}`)).toEqual([
+      'GET /alunos/A-1',
+      'GET /alunos/A-2',
+      'PUT /alunos/A-2',
+    ]);
+    const conflict = findCall('INSERT INTO legacy_sync_conflicts');
+    expect((conflict![1] as any[]).slice(2, 7)).toEqual(['student', '10', 'A-1', 'legacy_wins', 'kept_legacy']);
+  });
+
+  it('deve exportar pela última alteração quando os dois lados mudaram', () => {
+    const lastSync = new Date('2025-03-01T00:00:00Z');
+
+    expect(resolveConflict('last_write_wins', new Date('2025-03-06'), new Date('2025-03-05'), lastSync)).toEqual({ edumatrikWins: true });
+    expect(resolveConflict('last_write_wins', new Date('2025-03-04'), new Date('2025-03-05'), lastSync)).toEqual({ edumatrikWins: false });
+    expect(resolveConflict('legacy_wins', new Date('2025-03-06'), new Date('2025-02-20'), lastSync)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Testes para a geração da especificação OpenAPI da API pública
+ */
+
+import { expect, describe, it } from '@jest/globals';
+import { z } from 'zod';
+import { buildOpenApiDocument, zodToJsonSchema } from '../../server/services/openApiService';
+
+describe('OpenApiService', () => {
+  it('deve converter os esquemas zod das rotas para JSON Schema', () => {
+    const schema = z.object({
+      fullName: z.string().min(1),
+      email: z.string().email().optional(),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      status: z.enum(['new', 'lost']).optional(),
+      updatedSince: z.coerce.date().optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        fullName: { type: 'string', minLength: 1 },
+        email: { type: 'string', format: 'email' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+        status: { type: 'string', enum: ['new', 'lost'] },
+        updatedSince: { type: 'string', format: 'date-time' },
+      },
+      required: ['fullName'],
+    });
+  });
+
+  it('deve documentar parâmetros, corpo e escopo de cada rota', () => {
+    const document = buildOpenApiDocument([
+      {
+        method: 'get',
+        path: '/leads/:id',
+        summary: 'Obter lead',
+        tag: 'Leads',
+        scope: 'leads:read',
+        params: z.object({ id: z.coerce.number().int().positive() }),
+        response: { $ref: '#/components/schemas/Lead' },
+      },
+      {
+        method: 'post',
+        path: '/leads',
+        summary: 'Criar lead',
+        tag: 'Leads',
+        scope: 'leads:write',
+        body: z.object({ fullName: z.string() }),
+        successStatus: 201,
+        response: { $ref: '#/components/schemas/Lead' },
+      },
+    ], { title: 'API', version: '1.0.0', description: '', serverUrl: '/api/v1', scopes: ['leads:read', 'leads:write'], schemas: {} });
+
+    const getLead = document.paths['/leads/{id}'].get;
+    expect(getLead.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 0, exclusiveMinimum: true } }]);
+    expect(getLead['x-required-scope']).toBe('leads:read');
+    expect(Object.keys(getLead.responses)).toEqual(expect.arrayContaining(['200', '401', '403', '404', '429']));
+
+    const createLead = document.paths['/leads'].post;
+    expect(createLead.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { fullName: { type: 'string' } },
+      required: ['fullName'],
+    });
+    expect(createLead.responses['201']).toBeDefined();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Testes para o registro de gateways de pagamento
+ * Verifica a escolha do gateway por escola e método e a validação dos webhooks
+ */
+
+import crypto from 'crypto';
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/models/paymentGatewaySettings', () => ({
+  getActivePaymentGatewaySettingsByType: jest.fn(),
+  getPaymentGatewaySettingsById: jest.fn(),
+  getPaymentGatewaySettingsForSchool: jest.fn(),
+}));
+
+import * as gatewaySettings from '../../server/models/paymentGatewaySettings';
+import { paymentGatewayRegistry } from '../../server/services/paymentGateways';
+import { AsaasProcessor } from '../../server/services/paymentGateways/asaasProcessor';
+import { MercadoPagoProcessor } from '../../server/services/paymentGateways/mercadoPagoProcessor';
+
+const mockedSettings = gatewaySettings as jest.Mocked<typeof gatewaySettings>;
+
+function buildSettings(overrides: Partial<gatewaySettings.PaymentGatewaySettings>): gatewaySettings.PaymentGatewaySettings {
+  return {
+    id: 1,
+    gateway: 'asaas',
+    name: 'Conta',
+    schoolId: null,
+    isActive: true,
+    isDefault: false,
+    apiKey: 'chave_de_teste',
+    sandboxMode: true,
+    configuration: {},
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('PaymentGatewayRegistry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    paymentGatewayRegistry.invalidate();
+  });
+
+  describe('resolveForSchool', () => {
+    it('deve usar a primeira conta que suporta o método, ignorando gateways desconhecidos', async () => {
+      mockedSettings.getPaymentGatewaySettingsForSchool.mockResolvedValue([
+        buildSettings({ id: 1, gateway: 'paypal', schoolId: 7 }),
+        buildSettings({ id: 2, gateway: 'asaas', schoolId: 7 }),
+        buildSettings({ id: 3, gateway: 'stripe' }),
+      ]);
+
+      const { adapter, settings } = await paymentGatewayRegistry.resolveForSchool(7, { method: 'bank_slip' });
+
+      expect(mockedSettings.getPaymentGatewaySettingsForSchool).toHaveBeenCalledWith(7);
+      expect(adapter.gateway).toBe('asaas');
+      expect(settings?.id).toBe(2);
+    });
+
+    it('deve cair no processador interno quando a escola não tem gateway', async () => {
+      mockedSettings.getPaymentGatewaySettingsForSchool.mockResolvedValue([]);
+
+      const { adapter, settings } = await paymentGatewayRegistry.resolveForSchool(7, { method: 'pix' });
+
+      expect(adapter.gateway).toBe('internal');
+      expect(settings).toBeNull();
+      await expect(adapter.createCharge({ amount: 10, method: 'credit_card', description: 'Teste' }))
+        .rejects.toThrow('Gateway internal não suporta credit_card');
+    });
+  });
+
+  describe('getAdapter', () => {
+    it('deve reaproveitar o adaptador até a configuração mudar', () => {
+      const settings = buildSettings({ id: 5 });
+      const first = paymentGatewayRegistry.getAdapter('asaas', settings);
+
+      expect(paymentGatewayRegistry.getAdapter('asaas', settings)).toBe(first);
+      expect(paymentGatewayRegistry.getAdapter('asaas', { ...settings, updatedAt: new Date() })).not.toBe(first);
+
+      paymentGatewayRegistry.invalidate(5);
+      expect(paymentGatewayRegistry.getAdapter('asaas', settings)).not.toBe(first);
+    });
+
+    it('deve recusar configuração sem credenciais', () => {
+      expect(() => paymentGatewayRegistry.getAdapter('mercadopago', buildSettings({ gateway: 'mercadopago', apiKey: '' })))
+        .toThrow('Access Token do Mercado Pago não configurado');
+    });
+  });
+});
+
+describe('Webhooks dos gateways', () => {
+  it('deve validar o token do Asaas e converter o evento de pagamento', async () => {
+    const asaas = new AsaasProcessor();
+    asaas.configure(buildSettings({ configuration: { webhookToken: 'segredo' } }));
+
+    const request = {
+      body: {
+        id: 'evt_1',
+        event: 'PAYMENT_RECEIVED',
+        payment: { id: 'pay_123', status: 'RECEIVED', value: 150, externalReference: 'pay_ref' },
+      },
+      headers: { 'asaas-access-token': 'segredo' },
+      query: {},
+    };
+
+    expect(asaas.verifyWebhook(request)).toBe(true);
+    expect(asaas.verifyWebhook({ ...request, headers: { 'asaas-access-token': 'outro' } })).toBe(false);
+
+    const [event] = await asaas.parseWebhook(request);
+    expect(event).toMatchObject({
+      externalId: 'pay_123',
+      status: 'paid',
+      eventId: 'evt_1',
+      reference: 'pay_ref',
+      paidAmount: 150,
+    });
+  });
+
+  it('deve validar a assinatura x-signature do Mercado Pago', () => {
+    const mercadoPago = new MercadoPagoProcessor();
+    mercadoPago.configure(buildSettings({ gateway: 'mercadopago', configuration: { webhookSecret: 'segredo' } }));
+
+    const manifest = 'id:12345;request-id:req-1;ts:1700000000;';
+    const v1 = crypto.createHmac('sha256', 'segredo').update(manifest).digest('hex');
+    const request = {
+      body: { type: 'payment', data: { id: '12345' } },
+      headers: { 'x-signature': `ts=1700000000,v1=${v1}`, 'x-request-id': 'req-1' },
+      query: {},
+    };
+
+    expect(mercadoPago.verifyWebhook(request)).toBe(true);
+    expect(mercadoPago.verifyWebhook({ ...request, headers: { ...request.headers, 'x-request-id': 'req-2' } })).toBe(false);
+  });
+});
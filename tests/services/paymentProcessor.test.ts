@@ -0,0 +1,75 @@
+/**
+ * Testes para o processador de pagamentos
+ * Verifica os efeitos da baixa de um pagamento sobre a matrícula e a vaga
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendUserNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/guardianService', () => ({ guardianService: {} }));
+jest.mock('../../server/services/discountService', () => ({ discountService: {} }));
+jest.mock('../../server/services/domainEventService', () => ({ domainEventService: { writeWithEvents: jest.fn() } }));
+jest.mock('../../server/services/courseSeatService', () => ({ courseSeatService: { confirmSeat: jest.fn() } }));
+jest.mock('../../server/models/paymentGatewaySettings', () => ({ createPaymentGatewaySettingsTable: jest.fn() }));
+jest.mock('../../server/services/paymentGateways', () => ({ paymentGatewayRegistry: {} }));
+
+import { db } from '../../server/db';
+import { domainEventService } from '../../server/services/domainEventService';
+import { courseSeatService } from '../../server/services/courseSeatService';
+import { paymentProcessor } from '../../server/services/paymentProcessor';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const writeWithEvents = domainEventService.writeWithEvents as jest.Mock<any>;
+const confirmSeat = courseSeatService.confirmSeat as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const settlement = { settledAt: '2024-03-10', paidAmount: 350, source: 'cnab240' };
+
+describe('PaymentProcessorService', () => {
+  describe('settlePayment', () => {
+    beforeEach(() => {
+      execute.mockReset();
+      writeWithEvents.mockReset();
+      confirmSeat.mockReset();
+      writeWithEvents.mockResolvedValue([{ id: 12, status: 'paid' }]);
+    });
+
+    it('deve quitar a matrícula e confirmar a vaga quando o pagamento é da taxa de matrícula', async () => {
+      respond({
+        'FROM payments': [{ id: 12, amount: '350.00', user_id: null, enrollment_id: 21, metadata: { settlesEnrollment: true } }],
+        'UPDATE enrollments': [{ id: 21, student_id: 8, school_id: 3, course_id: 4 }]
+      });
+
+      const settled = await paymentProcessor.settlePayment(12, settlement);
+
+      expect(settled).toBe(true);
+      expect(findCall('UPDATE enrollments')?.[1]).toEqual([21]);
+      expect(confirmSeat).toHaveBeenCalledWith({ id: 21, courseId: 4, schoolId: 3, studentId: 8 });
+    });
+
+    it('não deve mexer na matrícula quando o pagamento não quita a matrícula', async () => {
+      respond({
+        'FROM payments': [{ id: 12, amount: '350.00', user_id: null, enrollment_id: 21, metadata: {} }]
+      });
+
+      await paymentProcessor.settlePayment(12, settlement);
+
+      expect(findCall('UPDATE enrollments')).toBeUndefined();
+      expect(confirmSeat).not.toHaveBeenCalled();
+    });
+
+    it('não deve repetir os efeitos quando o pagamento já estava pago', async () => {
+      writeWithEvents.mockResolvedValue([]);
+
+      const settled = await paymentProcessor.settlePayment(12, settlement);
+
+      expect(settled).toBe(false);
+      expect(execute).not.toHaveBeenCalled();
+      expect(confirmSeat).not.toHaveBeenCalled();
+    });
+  });
+});
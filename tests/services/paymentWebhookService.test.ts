@@ -0,0 +1,129 @@
+/**
+ * Testes para o registro de webhooks de pagamento
+ * Verifica a deduplicação por ID do evento, a recusa de assinaturas inválidas
+ * e o registro de falhas para reprocessamento
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/queueService', () => ({
+  __esModule: true,
+  QueueType: { PAYMENTS: 'payments' },
+  default: {
+    isQueueServiceReady: jest.fn(() => true),
+    addJob: jest.fn(),
+    registerProcessor: jest.fn(),
+  },
+}));
+jest.mock('../../server/services/paymentProcessor', () => ({
+  paymentProcessor: { applyWebhookEvents: jest.fn() },
+}));
+jest.mock('../../server/services/paymentGateways', () => ({
+  paymentGatewayRegistry: { resolveForWebhook: jest.fn() },
+}));
+
+import { db } from '../../server/db';
+import queueService from '../../server/services/queueService';
+import { paymentProcessor } from '../../server/services/paymentProcessor';
+import { paymentGatewayRegistry } from '../../server/services/paymentGateways';
+import { paymentWebhookService } from '../../server/services/paymentWebhookService';
+
+const mockedExecute = db.execute as jest.Mock<any>;
+const mockedAddJob = queueService.addJob as jest.Mock<any>;
+const mockedResolve = paymentGatewayRegistry.resolveForWebhook as jest.Mock<any>;
+const mockedApply = paymentProcessor.applyWebhookEvents as jest.Mock<any>;
+
+const adapter = {
+  gateway: 'asaas',
+  verifyWebhook: jest.fn<any>(() => true),
+  getWebhookEventId: jest.fn<any>(() => 'evt_1'),
+  parseWebhook: jest.fn<any>(),
+};
+
+const request = {
+  rawBody: Buffer.from('{"id":"evt_1"}'),
+  body: { id: 'evt_1' },
+  headers: { 'asaas-access-token': 'segredo', cookie: 'sessao', 'content-type': 'application/json' },
+  query: {},
+};
+
+describe('PaymentWebhookService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter.verifyWebhook.mockReturnValue(true);
+    mockedResolve.mockResolvedValue({ adapter, settings: { id: 3 } });
+  });
+
+  describe('ingest', () => {
+    it('deve gravar o evento sem cookies nem tokens e enviá-lo para a fila de pagamentos', async () => {
+      mockedExecute.mockResolvedValueOnce([{ id: 10 }]);
+
+      const result = await paymentWebhookService.ingest('asaas', request, 3);
+
+      expect(result).toEqual({ id: 10, verified: true, duplicate: false });
+      const params = mockedExecute.mock.calls[0][1] as any[];
+      expect(params.slice(0, 4)).toEqual(['asaas', 3, 'evt_1', '{"id":"evt_1"}']);
+      expect(JSON.parse(params[5])).toEqual({ 'content-type': 'application/json' });
+      expect(mockedAddJob).toHaveBeenCalledWith('payments', { type: 'payment-webhook', webhookEventId: 10 });
+    });
+
+    it('não deve gravar o segredo enviado na URL do webhook', async () => {
+      mockedExecute.mockResolvedValueOnce([{ id: 12 }]);
+
+      await paymentWebhookService.ingest('efi', { ...request, headers: {}, query: { hmac: 'segredo', token: 'abc', 'data.id': '99' } });
+
+      const params = mockedExecute.mock.calls[0][1] as any[];
+      expect(JSON.parse(params[6])).toEqual({ 'data.id': '99' });
+      expect(JSON.stringify(params)).not.toContain('segredo');
+    });
+
+    it('deve ignorar o reenvio de um evento já recebido', async () => {
+      mockedExecute
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 10 }]);
+
+      const result = await paymentWebhookService.ingest('asaas', request);
+
+      expect(result).toEqual({ id: 10, verified: true, duplicate: true });
+      expect(mockedAddJob).not.toHaveBeenCalled();
+    });
+
+    it('deve registrar como rejeitado o webhook com assinatura inválida, sem processar', async () => {
+      adapter.verifyWebhook.mockReturnValue(false);
+      mockedExecute.mockResolvedValueOnce([{ id: 11 }]);
+
+      const result = await paymentWebhookService.ingest('asaas', request);
+
+      expect(result).toEqual({ id: 11, verified: false, duplicate: false });
+      expect((mockedExecute.mock.calls[0][1] as any[])[8]).toBe('rejected');
+      expect(mockedAddJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processEvent', () => {
+    it('deve marcar o evento como falho e relançar o erro para nova tentativa', async () => {
+      mockedExecute.mockResolvedValueOnce([{
+        id: 10, gateway: 'asaas', settings_id: 3, raw_body: '{"id":"evt_1"}', body: { id: 'evt_1' }, headers: {}, query: {},
+      }]);
+      adapter.parseWebhook.mockResolvedValue([{ externalId: 'pay_1', status: 'paid', eventType: 'PAYMENT_RECEIVED' }]);
+      mockedApply.mockRejectedValue(new Error('Banco indisponível'));
+
+      await expect(paymentWebhookService.processEvent(10)).rejects.toThrow('Banco indisponível');
+
+      const [sql, params] = mockedExecute.mock.calls[1] as [string, any[]];
+      expect(sql).toContain("status = 'failed'");
+      expect(params).toEqual([10, 'Banco indisponível']);
+    });
+
+    it('não deve processar de novo um evento já processado', async () => {
+      mockedExecute.mockResolvedValueOnce([]);
+
+      await paymentWebhookService.processEvent(10);
+
+      expect(mockedResolve).not.toHaveBeenCalled();
+      expect(mockedApply).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Testes para a proteção de URLs informadas por escolas
+ * Verifica a recusa de loopback, redes privadas, link-local e IPv4 mapeado em
+ * IPv6, tanto em IPs literais quanto em hosts resolvidos pelo DNS
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('dns', () => ({ lookup: jest.fn(), promises: { lookup: jest.fn() } }));
+
+import { promises as dnsPromises } from 'dns';
+import { assertPublicUrl, isPrivateAddress } from '../../server/services/publicUrlGuard';
+
+const resolveHost = dnsPromises.lookup as unknown as jest.Mock<any>;
+
+describe('publicUrlGuard', () => {
+  beforeEach(() => {
+    resolveHost.mockReset();
+  });
+
+  it('deve classificar faixas internas e aceitar endereços públicos', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::6810:85e5', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('deve recusar IPs literais internos sem consultar o DNS', async () => {
+    await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow('A URL deve apontar para um endereço público');
+    await expect(assertPublicUrl('http://[::1]:8080/hook')).rejects.toThrow('A URL deve apontar para um endereço público');
+    await expect(assertPublicUrl('ftp://escola.test/hook')).rejects.toThrow('A URL deve usar http ou https');
+    expect(resolveHost).not.toHaveBeenCalled();
+  });
+
+  it('deve recusar hosts em que algum endereço resolvido é interno', async () => {
+    resolveHost.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+    await expect(assertPublicUrl('https://escola.test/hook')).rejects.toThrow('A URL deve apontar para um endereço público');
+
+    resolveHost.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    await expect(assertPublicUrl('https://escola.test/hook')).resolves.toBeUndefined();
+    expect(resolveHost).toHaveBeenCalledWith('escola.test', { all: true });
+  });
+});
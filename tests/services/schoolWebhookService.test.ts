@@ -0,0 +1,142 @@
+/**
+ * Testes para os webhooks de saída das escolas
+ * Verifica a assinatura HMAC, o enfileiramento de entregas apenas para
+ * eventos assinados, a recusa de destinos internos e as novas tentativas com backoff
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('axios', () => ({ __esModule: true, default: { post: jest.fn() } }));
+jest.mock('dns', () => ({ lookup: jest.fn(), promises: { lookup: jest.fn() } }));
+
+import axios from 'axios';
+import { promises as dnsPromises } from 'dns';
+import { db } from '../../server/db';
+import { buildSignatureHeader, schoolWebhookService } from '../../server/services/schoolWebhookService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const post = axios.post as jest.Mock<any>;
+const resolveHost = dnsPromises.lookup as unknown as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const event = {
+  id: 41,
+  type: 'payment.paid' as const,
+  aggregateType: 'payment',
+  aggregateId: '9',
+  schoolId: 3,
+  payload: { id: 9, amount: 150 },
+  occurredAt: new Date('2025-03-10T12:00:00Z'),
+};
+
+function mockDatabase(options: { events?: string[]; attempts?: number } = {}) {
+  let payload: any = null;
+  respond({
+    'JOIN school_webhook_settings': [{ webhook_url: 'https://escola.test/hook', events: options.events || ['payment.paid'] }],
+    'INSERT INTO school_webhook_deliveries': params => {
+      payload = JSON.parse(params[4]);
+      return [{ id: 7, school_id: 3, event_id: params[1], event_type: params[2], url: params[3], status: 'pending', attempts: 0 }];
+    },
+    "SET status = 'sending'": () => [{ id: 7, school_id: 3, event_id: 'evt_41', event_type: 'payment.paid', url: 'https://escola.test/hook', payload, attempts: options.attempts || 0, secret: 'whsec_teste' }],
+    'SET status = $2': params => [{ id: 7, status: params[1], attempts: params[2], response_status: params[3], next_attempt_at: params[6] }],
+  });
+}
+
+const deliveryUpdate = () => findCall('SET status = $2')![1] as any[];
+
+describe('SchoolWebhookService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    post.mockReset();
+    resolveHost.mockReset();
+    resolveHost.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('deve assinar o timestamp e o corpo com HMAC-SHA256', () => {
+    const body = '{"id":"evt_1"}';
+    const expected = crypto.createHmac('sha256', 'segredo').update(`1700000000.${body}`).digest('hex');
+
+    expect(buildSignatureHeader('segredo', 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it('deve enfileirar o evento assinado sem enviá-lo durante o despacho', async () => {
+    mockDatabase();
+
+    const delivery = await schoolWebhookService.handleDomainEvent(event);
+
+    expect(delivery).toMatchObject({ id: 7, eventId: 'evt_41', status: 'pending', attempts: 0 });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('deve entregar o evento assinado com os cabeçalhos de identificação', async () => {
+    mockDatabase();
+    post.mockResolvedValue({ status: 200, data: 'ok' });
+
+    await schoolWebhookService.handleDomainEvent(event);
+    const delivery = await schoolWebhookService.deliver(7);
+
+    expect(delivery).toMatchObject({ id: 7, status: 'delivered', attempts: 1, responseStatus: 200 });
+    expect(delivery).not.toHaveProperty('responseBody');
+    const [url, body, config] = post.mock.calls[0] as [string, string, any];
+    expect(url).toBe('https://escola.test/hook');
+    expect(JSON.parse(body)).toEqual({
+      id: 'evt_41',
+      type: 'payment.paid',
+      createdAt: '2025-03-10T12:00:00.000Z',
+      schoolId: 3,
+      data: { id: 9, amount: 150 },
+    });
+    const timestamp = Number(config.headers['X-EduMatrik-Timestamp']);
+    expect(config.headers).toMatchObject({
+      'X-EduMatrik-Event': 'payment.paid',
+      'X-EduMatrik-Event-Id': 'evt_41',
+      'X-EduMatrik-Delivery': '7',
+      'X-EduMatrik-Signature': buildSignatureHeader('whsec_teste', timestamp, body),
+    });
+  });
+
+  it('deve ignorar eventos não assinados pela escola', async () => {
+    mockDatabase({ events: ['lead.created'] });
+
+    expect(await schoolWebhookService.handleDomainEvent(event)).toBeNull();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('deve recusar o envio quando o host resolve para um endereço interno', async () => {
+    mockDatabase();
+    resolveHost.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+    await schoolWebhookService.handleDomainEvent(event);
+    await schoolWebhookService.deliver(7);
+
+    expect(post).not.toHaveBeenCalled();
+    expect(deliveryUpdate().slice(1, 5)).toEqual(['pending', 1, null, 'A URL deve apontar para um endereço público']);
+  });
+
+  it('deve reagendar respostas de erro e marcar falha ao esgotar as tentativas', async () => {
+    mockDatabase();
+    post.mockResolvedValue({ status: 500, data: 'erro' });
+
+    const before = Date.now();
+    await schoolWebhookService.handleDomainEvent(event);
+    await schoolWebhookService.deliver(7);
+
+    const [, status, attempts, responseStatus, error, , nextAttemptAt] = deliveryUpdate();
+    expect([status, attempts, responseStatus, error]).toEqual(['pending', 1, 500, 'Resposta HTTP 500']);
+    expect((nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(before + 30000);
+
+    execute.mockReset();
+    mockDatabase({ attempts: 7 });
+    post.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+    await schoolWebhookService.handleDomainEvent(event);
+    await schoolWebhookService.deliver(7);
+
+    expect(deliveryUpdate().slice(1, 3)).toEqual(['failed', 8]);
+    expect(deliveryUpdate()[6]).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Testes para o agendador de sincronizações de integrações
+ * Verifica as expressões cron, a criação de tarefas pelos agendamentos e o
+ * tratamento de tentativas com backoff exponencial
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/queueService', () => ({
+  __esModule: true,
+  QueueType: { INTEGRATIONS: 'integrations' },
+  default: { isQueueServiceReady: jest.fn(() => false), addJob: jest.fn(), registerProcessor: jest.fn() },
+}));
+jest.mock('../../server/services/schoolIntegrationService', () => ({
+  schoolIntegrationService: { runSyncOperation: jest.fn() },
+}));
+jest.mock('../../server/services/legacySystemService', () => ({
+  legacySystemService: { synchronize: jest.fn() },
+}));
+
+import { db } from '../../server/db';
+import { schoolIntegrationService } from '../../server/services/schoolIntegrationService';
+import { getNextRun, getNextRuns, parseCronExpression } from '../../server/services/cronExpression';
+import { syncSchedulerService, getRetryDelay, toQueuePriority } from '../../server/services/syncSchedulerService';
+
+const execute = db.execute as jest.Mock<any>;
+const runSyncOperation = schoolIntegrationService.runSyncOperation as jest.Mock<any>;
+
+describe('SyncScheduler', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    runSyncOperation.mockReset();
+  });
+
+  describe('cronExpression', () => {
+    it('deve calcular as próximas execuções no fuso da escola', () => {
+      // 10:30 em São Paulo (UTC-3)
+      const after = new Date('2025-03-10T13:30:00Z');
+
+      expect(getNextRun('0 2 * * *', after, 'America/Sao_Paulo')?.toISOString()).toBe('2025-03-11T05:00:00.000Z');
+      expect(getNextRuns('*/15 9-17 * * MON-FRI', 2, after, 'America/Sao_Paulo').map(date => date.toISOString())).toEqual([
+        '2025-03-10T13:45:00.000Z',
+        '2025-03-10T14:00:00.000Z',
+      ]);
+    });
+
+    it('deve combinar dia do mês e dia da semana como no cron tradicional', () => {
+      // Dia 15 ou qualquer domingo; 2025-03-10 é segunda-feira
+      const next = getNextRun('0 0 15 * 0', new Date('2025-03-10T12:00:00Z'), 'UTC');
+      expect(next?.toISOString()).toBe('2025-03-15T00:00:00.000Z');
+    });
+
+    it('deve recusar expressões inválidas', () => {
+      expect(() => parseCronExpression('0 25 * * *')).toThrow('fora do intervalo');
+      expect(() => parseCronExpression('* * *')).toThrow('cinco campos');
+      expect(getNextRun('0 0 30 2 *', new Date('2025-01-01T00:00:00Z'), 'UTC')).toBeNull();
+    });
+  });
+
+  it('deve mapear prioridade e backoff da tarefa para a fila', () => {
+    expect(toQueuePriority(10)).toBe(1);
+    expect(toQueuePriority(undefined)).toBe(6);
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([60000, 120000, 240000]);
+  });
+
+  it('deve apenas calcular o próximo horário na primeira leitura do agendamento', async () => {
+    execute.mockResolvedValueOnce([
+      { id: 1, school_system_id: 3, module_key: 'students', settings: null, sync_schedule: '0 * * * *', next_sync_at: null },
+    ]);
+    execute.mockResolvedValue([]);
+
+    const created = await syncSchedulerService.materializeModuleSchedules(new Date('2025-03-10T13:30:00Z'));
+
+    expect(created).toBe(0);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls[1][0]).toContain('UPDATE school_system_modules SET next_sync_at');
+  });
+
+  it('deve criar a tarefa do horário vencido e avançar o agendamento', async () => {
+    const due = new Date('2025-03-10T13:00:00Z');
+    execute.mockResolvedValueOnce([
+      { id: 1, school_system_id: 3, module_key: 'students', settings: { syncPriority: 8 }, sync_schedule: '0 * * * *', next_sync_at: due },
+    ]);
+    execute.mockResolvedValueOnce([{ id: 50 }]);
+    execute.mockResolvedValue([]);
+
+    const created = await syncSchedulerService.materializeModuleSchedules(new Date('2025-03-10T13:30:00Z'));
+
+    expect(created).toBe(1);
+    const insertParams = execute.mock.calls[1][1] as any[];
+    expect(insertParams.slice(0, 4)).toEqual([3, 'students', 'import', 8]);
+    expect(insertParams[5]).toBe(due);
+    expect((execute.mock.calls[2][1] as any[])[1].toISOString()).toBe('2025-03-10T14:00:00.000Z');
+  });
+
+  it('deve reagendar a tarefa com backoff quando ainda há tentativas', async () => {
+    execute.mockResolvedValueOnce([
+      { id: 7, school_system_id: 3, module_key: 'students', operation: 'import', attempts: 1, max_attempts: 3 },
+    ]);
+    execute.mockResolvedValue([]);
+    runSyncOperation.mockRejectedValue(new Error('Timeout'));
+
+    await syncSchedulerService.runTask(7);
+
+    const params = execute.mock.calls[1][1] as any[];
+    expect(params[1]).toBe('pending');
+    expect(params[2]).toBe('Timeout');
+    expect(params[3]).toBeInstanceOf(Date);
+  });
+
+  it('deve relançar o erro na fila e marcar falha após a última tentativa', async () => {
+    execute.mockResolvedValueOnce([
+      { id: 7, school_system_id: 3, module_key: 'students', operation: 'import', attempts: 2, max_attempts: 3 },
+    ]);
+    execute.mockResolvedValue([]);
+    runSyncOperation.mockRejectedValue(new Error('Timeout'));
+
+    await expect(syncSchedulerService.runTask(7, true)).rejects.toThrow('Timeout');
+    expect((execute.mock.calls[1][1] as any[])[1]).toBe('queued');
+
+    execute.mockReset();
+    execute.mockResolvedValueOnce([
+      { id: 7, school_system_id: 3, module_key: 'students', operation: 'import', attempts: 3, max_attempts: 3 },
+    ]);
+    execute.mockResolvedValue([]);
+
+    await syncSchedulerService.runTask(7, true);
+    expect((execute.mock.calls[1][1] as any[])[1]).toBe('failed');
+  });
+});
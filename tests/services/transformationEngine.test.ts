@@ -0,0 +1,105 @@
+/**
+ * Testes para o motor de regras de transformação
+ * Verifica os passos da linguagem de mapeamento, caminhos aninhados e a
+ * compatibilidade com as funções nomeadas dos sistemas escolares
+ */
+
+import { expect, describe, it, jest } from '@jest/globals';
+import {
+  parseRuleSet,
+  parseStepDefinition,
+  previewTransformation,
+  rulesFromFieldMap,
+  transformRecord
+} from '../../server/services/transformationEngine';
+
+const legacyStudent = {
+  NOME: 'maria',
+  SOBRENOME: ' da  silva ',
+  DT_NASC: '05/03/2010',
+  CPF_ALUNO: '529.982.247-25',
+  FONE: '(11) 98765-4321',
+  SITUACAO: 'A',
+  RESPONSAVEL: '{"nome":"Ana","contatos":[{"email":"ana@example.com"}]}',
+};
+
+describe('TransformationEngine', () => {
+  it('deve compor, normalizar e converter campos conforme as regras', () => {
+    const rules = parseRuleSet([
+      { target: 'fullName', sources: ['NOME', 'SOBRENOME'], steps: [{ op: 'concat' }, { op: 'trim' }, { op: 'upper' }] },
+      { target: 'birthDate', source: 'DT_NASC', steps: [{ op: 'date', from: 'DD/MM/YYYY', to: 'YYYY-MM-DD' }] },
+      { target: 'cpf', source: 'CPF_ALUNO', steps: [{ op: 'cpf' }] },
+      { target: 'contact.phone', source: 'FONE', steps: [{ op: 'phone' }] },
+      { target: 'status', source: 'SITUACAO', steps: [{ op: 'lookup', table: { a: 'active', i: 'inactive' }, default: 'pending' }] },
+      { target: 'guardian.email', source: 'RESPONSAVEL.contatos[0].email' },
+    ]);
+
+    const { output, errors } = transformRecord(legacyStudent, rules);
+
+    expect(errors).toEqual([]);
+    expect(output).toEqual({
+      fullName: 'MARIA DA SILVA',
+      birthDate: '2010-03-05',
+      cpf: '52998224725',
+      contact: { phone: '+5511987654321' },
+      status: 'active',
+      guardian: { email: 'ana@example.com' },
+    });
+  });
+
+  it('deve aplicar padrões condicionais com base em outros campos', () => {
+    const rules = parseRuleSet([
+      {
+        target: 'shift',
+        source: 'TURNO',
+        steps: [{
+          op: 'when',
+          cases: [{ if: { field: 'HORA_ENTRADA', operator: 'lt', value: 12 }, then: 'morning' }],
+          else: 'afternoon',
+        }],
+      },
+    ]);
+
+    expect(transformRecord({ HORA_ENTRADA: 7 }, rules).output.shift).toBe('morning');
+    expect(transformRecord({ HORA_ENTRADA: 13 }, rules).output.shift).toBe('afternoon');
+  });
+
+  it('deve registrar erros por campo sem interromper os demais', () => {
+    const rules = rulesFromFieldMap({
+      name: 'NOME',
+      cpf: { source: 'CPF', steps: [{ op: 'cpf' }] },
+      email: { source: 'EMAIL', required: true },
+    });
+
+    const [preview] = previewTransformation({ NOME: 'João', CPF: '111.111.111-11' }, rules);
+
+    expect(preview.output).toEqual({ name: 'João' });
+    expect(preview.errors.map(error => error.field)).toEqual(['cpf', 'email']);
+  });
+
+  it('deve recusar caminhos que alteram o protótipo', () => {
+    expect(() => parseRuleSet([{ target: '__proto__.admin', value: true }])).toThrow();
+    expect(() => parseRuleSet([{ target: 'name' }])).toThrow();
+  });
+
+  it('deve manter as funções nomeadas dos sistemas escolares', () => {
+    expect(parseStepDefinition('formatCpf')).toEqual([{ op: 'cpf', format: 'masked', validate: false }]);
+    expect(parseStepDefinition('[{"op":"split","separator":" ","index":0}]')).toEqual([{ op: 'split', separator: ' ', index: 0 }]);
+    expect(() => parseStepDefinition('eval', { strict: true })).toThrow('Função de transformação desconhecida: eval');
+  });
+
+  it('deve ignorar função desconhecida na sincronização mantendo o valor', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseStepDefinition('eval')).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('Função de transformação desconhecida: eval');
+    warn.mockRestore();
+  });
+
+  it('deve manter datas fora do padrão na função formatDate', () => {
+    const rules = parseRuleSet([{ target: 'birth', source: 'birth', steps: parseStepDefinition('formatDate') }]);
+
+    expect(transformRecord({ birth: '2010-05-03' }, rules).output).toEqual({ birth: '03/05/2010' });
+    expect(transformRecord({ birth: '03/05/2010' }, rules)).toEqual({ output: { birth: '03/05/2010' }, errors: [] });
+  });
+});
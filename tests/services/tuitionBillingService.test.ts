@@ -0,0 +1,156 @@
+/**
+ * Testes para o serviço de planos de mensalidade
+ * Verifica o cronograma de parcelas, o cálculo de multa e juros, a situação de pagamento
+ * e a reserva da parcela antes de gerar a cobrança
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const generateBankSlip = jest.fn<any>();
+const recordApplication = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendUserNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/paymentProcessor', () => ({
+  paymentProcessor: {
+    buildEnrollmentBillingOptions: jest.fn(async (_enrollment: any, options: any) => options),
+    generateBankSlip,
+  },
+}));
+jest.mock('../../server/services/courseSeatService', () => ({ courseSeatService: {} }));
+jest.mock('../../server/services/discountService', () => ({
+  discountService: {
+    quoteForEnrollment: jest.fn(async (_id: number, amount: number) => ({ finalAmount: amount, totalDiscount: 0, discounts: [] })),
+    recordApplication,
+  },
+}));
+
+import { db } from '../../server/db';
+import {
+  tuitionBillingService,
+  buildInstallmentSchedule,
+  calculateInvoiceCharges,
+  deriveEnrollmentPaymentStatus
+} from '../../server/services/tuitionBillingService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const scheduledInvoice = {
+  id: 90, plan_id: 2, enrollment_id: 21, student_id: 40, school_id: 3, kind: 'installment', installment_number: 1,
+  due_date: '2025-02-10', original_amount: '800.00', punctuality_discount: '0', punctuality_discount_type: 'fixed',
+  fine_percent: '2', daily_interest_percent: '0.0333', payment_method: 'bank_slip', plan_name: 'Inglês 2025',
+};
+
+const plan = {
+  enrollmentFee: 500,
+  installmentAmount: 800,
+  installments: 12,
+  firstDueMonth: '2025-02',
+  dueDay: 31,
+};
+
+const rules = {
+  punctualityDiscount: 10,
+  punctualityDiscountType: 'percent' as const,
+  finePercent: 2,
+  dailyInterestPercent: 0.0333,
+};
+
+describe('TuitionBillingService', () => {
+  describe('buildInstallmentSchedule', () => {
+    it('deve gerar taxa de matrícula e mensalidades com vencimento no fim de meses curtos', () => {
+      const schedule = buildInstallmentSchedule(plan, new Date('2025-01-10T12:00:00Z'));
+
+      expect(schedule).toHaveLength(13);
+      expect(schedule[0]).toEqual({ kind: 'enrollment_fee', installmentNumber: 0, dueDate: '2025-01-13', amount: 500 });
+      expect(schedule[1].dueDate).toBe('2025-02-28');
+      expect(schedule[2].dueDate).toBe('2025-03-31');
+      expect(schedule[12]).toEqual({ kind: 'tuition', installmentNumber: 12, dueDate: '2026-01-31', amount: 800 });
+    });
+
+    it('não deve gerar mensalidades vencidas antes da adesão', () => {
+      const schedule = buildInstallmentSchedule({ ...plan, enrollmentFee: 0 }, new Date('2025-06-15T12:00:00Z'));
+
+      expect(schedule[0].installmentNumber).toBe(5);
+      expect(schedule[0].dueDate).toBe('2025-06-30');
+      expect(schedule).toHaveLength(8);
+    });
+  });
+
+  describe('calculateInvoiceCharges', () => {
+    it('deve aplicar o desconto de pontualidade até o vencimento', () => {
+      const charges = calculateInvoiceCharges(800, '2025-03-10', rules, new Date('2025-03-10T20:00:00Z'));
+
+      expect(charges).toEqual({ daysOverdue: 0, discount: 80, fine: 0, interest: 0, total: 720 });
+    });
+
+    it('deve cobrar multa e juros diários após o vencimento', () => {
+      const charges = calculateInvoiceCharges(800, '2025-03-10', rules, new Date('2025-04-09T12:00:00Z'));
+
+      expect(charges.daysOverdue).toBe(30);
+      expect(charges.discount).toBe(0);
+      expect(charges.fine).toBe(16);
+      expect(charges.interest).toBe(7.99);
+      expect(charges.total).toBe(823.99);
+    });
+  });
+
+  describe('deriveEnrollmentPaymentStatus', () => {
+    it('deve priorizar parcelas vencidas sobre pagamentos parciais', () => {
+      expect(deriveEnrollmentPaymentStatus(['paid', 'overdue', 'scheduled'])).toBe('overdue');
+      expect(deriveEnrollmentPaymentStatus(['paid', 'open'])).toBe('partial');
+      expect(deriveEnrollmentPaymentStatus(['paid', 'paid'])).toBe('paid');
+      expect(deriveEnrollmentPaymentStatus(['scheduled'])).toBe('pending');
+    });
+  });
+
+  describe('generateUpcomingCharges', () => {
+    beforeEach(() => {
+      execute.mockReset();
+      generateBankSlip.mockReset();
+      recordApplication.mockReset();
+      execute.mockResolvedValue([]);
+    });
+
+    it('não deve chamar o gateway para parcela já reservada por outra rotina', async () => {
+      respond({
+        "WHERE ti.status = 'scheduled'": [scheduledInvoice],
+      });
+
+      await expect(tuitionBillingService.generateUpcomingCharges(new Date('2025-02-01T12:00:00Z'))).resolves.toBe(0);
+      expect(findCall("SET status = 'generating'")?.[0]).toContain("status = 'scheduled'");
+      expect(generateBankSlip).not.toHaveBeenCalled();
+    });
+
+    it('deve guardar a referência da cobrança mesmo quando não é um ID interno', async () => {
+      generateBankSlip.mockResolvedValue({ success: true, paymentId: 'inactive_boleto_1738400000000' });
+      respond({
+        "WHERE ti.status = 'scheduled'": [scheduledInvoice],
+        "SET status = 'generating'": [{ id: 90 }],
+        "SET status = 'open'": [{ id: 90 }],
+      });
+
+      await expect(tuitionBillingService.generateUpcomingCharges(new Date('2025-02-01T12:00:00Z'))).resolves.toBe(1);
+      const [query, params] = findCall("SET status = 'open'") as [string, any[]];
+      expect(query).toContain("status = 'generating'");
+      expect(params.slice(0, 3)).toEqual([90, null, 'inactive_boleto_1738400000000']);
+      expect(recordApplication).not.toHaveBeenCalled();
+    });
+
+    it('deve devolver a parcela para agendada quando o gateway falha', async () => {
+      generateBankSlip.mockRejectedValue(new Error('Erro ao gerar boleto: timeout'));
+      respond({
+        "WHERE ti.status = 'scheduled'": [scheduledInvoice],
+        "SET status = 'generating'": [{ id: 90 }],
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(tuitionBillingService.generateUpcomingCharges(new Date('2025-02-01T12:00:00Z'))).resolves.toBe(0);
+      expect(findCall("SET status = 'scheduled'")?.[1]).toEqual([90]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Testes para as campanhas de WhatsApp em massa
+ * Verifica a montagem do público com descadastros e duplicados, o envio no
+ * ritmo da instância, o bloqueio de quem se descadastrou e o registro das
+ * confirmações de entrega e leitura
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendTextMessage = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({ storage: {} }));
+jest.mock('../../server/email', () => ({ emailService: { sendEmail: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolNotification: jest.fn(), sendUserNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/cacheService', () => ({ cacheService: { increment: jest.fn() } }));
+jest.mock('../../server/services/domainEventService', () => ({ domainEventService: { subscribe: jest.fn() } }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ sendTextMessage }) }));
+jest.mock('../../server/services/whatsappTemplateService', () => ({
+  whatsappTemplateService: {
+    replaceVariables: (content: string, data: Record<string, string>) =>
+      content.replace(/\{\{(\w+)\}\}/g, (_match, key) => data[key] ?? ''),
+  },
+}));
+
+import { db } from '../../server/db';
+import { sendSchoolNotification } from '../../server/pusher';
+import { whatsappCampaignService, pickDelaySeconds } from '../../server/services/whatsappCampaignService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const notifySchool = sendSchoolNotification as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const recipient = { id: 40, campaign_id: 8, phone: '5511912345678', phone_key: '1112345678', variables: { nome: 'Maria' } };
+
+// Instância com a vez liberada e um destinatário pendente da campanha
+const sendingResponses = {
+  'SELECT DISTINCT i.id, i.instance_key': [{ id: 2, instance_key: 'escola-alfa' }],
+  'AS sent FROM whatsapp_campaign_recipients': [{ sent: 3 }],
+  'INSERT INTO whatsapp_campaign_pacing': [{ instance_id: 2 }],
+  "SET status = 'sending', instance_id = $1": [recipient],
+  'AS template_content': [{
+    id: 8, school_id: 3, template_content: 'Olá, {{nome}}!', template_status: 'approved', template_active: true,
+    min_delay_seconds: 20, max_delay_seconds: 60,
+  }],
+};
+
+describe('WhatsappCampaignService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    sendTextMessage.mockReset();
+    notifySchool.mockReset();
+  });
+
+  it('deve sortear o intervalo dentro dos limites, respeitando o mínimo permitido', () => {
+    expect(pickDelaySeconds(20, 60, () => 0)).toBe(20);
+    expect(pickDelaySeconds(20, 60, () => 0.9999)).toBe(60);
+    expect(pickDelaySeconds(1, 5, () => 0.5)).toBe(10);
+  });
+
+  it('deve montar o público ignorando descadastrados, telefones inválidos e duplicados', async () => {
+    const campaign = { id: 8, school_id: 3, name: 'Volta às aulas', instance_id: null, audience: { type: 'leads', statuses: ['new'] } };
+    respond({
+      "SET status = 'sending', started_at": [{ id: 8 }],
+      'audience_built_at IS NULL': [campaign],
+      'SELECT id FROM whatsapp_instances': [{ id: 2 }],
+      'FROM leads l': [
+        { id: 1, full_name: 'Maria Souza', phone: '(11) 91234-5678', course_name: 'Inglês', school_name: 'Escola Alfa' },
+        { id: 2, full_name: 'Maria S.', phone: '5511912345678', course_name: null, school_name: 'Escola Alfa' },
+        { id: 3, full_name: 'João Lima', phone: '11 98888-7777', course_name: null, school_name: 'Escola Alfa' },
+        { id: 4, full_name: 'Ana Costa', phone: '123', course_name: null, school_name: 'Escola Alfa' },
+      ],
+      'SELECT identifier_key FROM communication_consents': [{ identifier_key: '1188887777' }],
+    });
+
+    const result = await whatsappCampaignService.processDue();
+
+    expect(result.started).toBe(1);
+    const rows = JSON.parse((findCall('INSERT INTO whatsapp_campaign_recipients')?.[1] as any[])[1]);
+    expect(rows.map((row: any) => [row.reference_id, row.phone, row.status, row.skip_reason])).toEqual([
+      [1, '5511912345678', 'pending', null],
+      [3, '5511988887777', 'skipped', 'opt_out'],
+      [4, null, 'skipped', 'invalid_phone'],
+    ]);
+    expect(rows[0].variables).toEqual({ nome: 'Maria', nome_completo: 'Maria Souza', curso: 'Inglês', escola: 'Escola Alfa' });
+    expect(findCall('SET instance_id = $2, audience_built_at')?.[1]).toEqual([8, 2]);
+  });
+
+  it('deve enviar uma mensagem por instância e agendar a próxima com intervalo aleatório', async () => {
+    respond(sendingResponses);
+    sendTextMessage.mockResolvedValue({ key: { id: 'ABC123' } });
+
+    const result = await whatsappCampaignService.processDue();
+
+    expect(result.sent).toBe(1);
+    expect(sendTextMessage).toHaveBeenCalledWith('escola-alfa', '5511912345678', 'Olá, Maria!');
+    expect(findCall("SET status = 'sent'")?.[1]).toEqual([40, 'ABC123', 'Olá, Maria!']);
+    const delay = (findCall('UPDATE whatsapp_campaign_pacing SET next_send_at = NOW() +')?.[1] as any[])[1];
+    expect(delay).toBeGreaterThanOrEqual(20);
+    expect(delay).toBeLessThanOrEqual(60);
+  });
+
+  it('deve pular sem enviar quem se descadastrou depois da montagem do público', async () => {
+    respond({
+      ...sendingResponses,
+      'SELECT status FROM communication_consents': [{ status: 'revoked' }],
+    });
+
+    const result = await whatsappCampaignService.processDue();
+
+    expect(result.sent).toBe(0);
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    expect(findCall("skip_reason = 'opt_out'")?.[1]).toEqual([40]);
+    expect(findCall("SET status = 'sent'")).toBeUndefined();
+    expect(findCall('SET next_send_at = NOW() WHERE instance_id = $1')?.[1]).toEqual([2]);
+  });
+
+  it('deve reservar apenas destinatários pendentes de campanhas em envio', async () => {
+    respond({ ...sendingResponses, "SET status = 'sending', instance_id = $1": [] });
+
+    await whatsappCampaignService.processDue();
+
+    expect(findCall("SET status = 'sending', instance_id = $1")?.[0]).toEqual(
+      expect.stringContaining("c.status = 'sending' AND r.status = 'pending'")
+    );
+    expect(sendTextMessage).not.toHaveBeenCalled();
+  });
+
+  it('deve aguardar a vez da instância e o teto por hora antes de enviar', async () => {
+    respond({
+      'SELECT DISTINCT i.id, i.instance_key': [{ id: 2, instance_key: 'escola-alfa' }],
+      'AS sent FROM whatsapp_campaign_recipients': [{ sent: 0 }],
+    });
+
+    await whatsappCampaignService.processDue();
+    expect(findCall("SET status = 'sending', instance_id = $1")).toBeUndefined();
+
+    execute.mockReset();
+    respond({
+      'SELECT DISTINCT i.id, i.instance_key': [{ id: 2, instance_key: 'escola-alfa' }],
+      'AS sent FROM whatsapp_campaign_recipients': [{ sent: 150 }],
+    });
+
+    await whatsappCampaignService.processDue();
+    expect(findCall('INSERT INTO whatsapp_campaign_pacing')).toBeUndefined();
+    expect(sendTextMessage).not.toHaveBeenCalled();
+  });
+
+  it('deve registrar entrega e leitura apenas pelas confirmações correspondentes', async () => {
+    execute.mockResolvedValue([{ id: 40 }]);
+
+    expect(await whatsappCampaignService.handleMessageAck('ABC123', 'sent')).toBe(false);
+    expect(execute).not.toHaveBeenCalled();
+
+    expect(await whatsappCampaignService.handleMessageAck('ABC123', 'read')).toBe(true);
+    expect(execute.mock.calls[0][1]).toEqual(['ABC123', 'read']);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Testes para o recebimento de documentos pelo WhatsApp
+ * Verifica a identificação do documento pela legenda e pelo OCR, a ocupação
+ * da vaga na matrícula, a resposta com o que ainda falta e as entregas
+ * repetidas da mesma mensagem
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const downloadMedia = jest.fn<any>();
+const sendTextMessage = jest.fn<any>();
+const processDocument = jest.fn<any>();
+const unlinkSync = jest.fn();
+
+jest.mock('fs', () => {
+  const fs = { existsSync: () => true, mkdirSync: jest.fn(), writeFileSync: jest.fn(), unlinkSync };
+  return { __esModule: true, default: fs, ...fs };
+});
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolNotification: jest.fn() }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ downloadMedia, sendTextMessage }) }));
+jest.mock('../../server/services/advancedOcr', () => ({ advancedOcrService: { processDocument } }));
+jest.mock('../../server/services/mlService', () => ({
+  mlService: {
+    classifyDocument: async (text: string) => ({ prediction: /\brg\b/.test(text) ? 'rg' : 'other', confidence: 0.5 }),
+  },
+}));
+
+import { db } from '../../server/db';
+import { sendSchoolNotification } from '../../server/pusher';
+import { whatsappDocumentIntakeService, buildIntakeReply } from '../../server/services/whatsappDocumentIntakeService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const notifySchool = sendSchoolNotification as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+// Contato com matrícula em andamento que já enviou identidade e comprovante
+const enrollmentResponses = {
+  'FROM enrollments e': [{ id: 21, student_id: 9, student_name: 'Maria Souza' }],
+  'INSERT INTO documents': [{ id: 70 }],
+  'SELECT DISTINCT type FROM documents': [{ type: 'id' }, { type: 'address' }],
+};
+
+const media = {
+  schoolId: 3,
+  instanceKey: 'escola-alfa',
+  from: '5511912345678@s.whatsapp.net',
+  externalId: 'ABC123',
+  mimeType: 'image/jpeg',
+};
+
+describe('WhatsappDocumentIntakeService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    downloadMedia.mockReset();
+    sendTextMessage.mockReset();
+    processDocument.mockReset();
+    notifySchool.mockReset();
+    unlinkSync.mockReset();
+
+    downloadMedia.mockResolvedValue({ buffer: Buffer.from('imagem'), mimeType: 'image/jpeg' });
+    sendTextMessage.mockResolvedValue({ key: { id: 'REPLY1' } });
+    respond(enrollmentResponses);
+  });
+
+  it('deve montar a resposta com os dados reconhecidos e os documentos que faltam', () => {
+    expect(buildIntakeReply('id', { name: 'Maria Souza', number: '12.345.678-9', mother: 'Ana' }, true, ['transcripts', 'photo'])).toBe(
+      'Recebemos seu documento de identidade.\n' +
+      'Identificamos: Nome: Maria Souza; Número: 12.345.678-9.\n' +
+      'A escola vai conferir o documento e avisa se for preciso reenviar.\n' +
+      'Ainda faltam: histórico escolar, foto.'
+    );
+    expect(buildIntakeReply('other', {}, false, [])).toContain('não conseguimos identificar');
+  });
+
+  it('deve ignorar contatos sem matrícula em andamento', async () => {
+    respond({});
+
+    expect(await whatsappDocumentIntakeService.handleIncomingMedia(media)).toBeNull();
+    expect(downloadMedia).not.toHaveBeenCalled();
+    expect(findCall('INSERT INTO documents')).toBeUndefined();
+  });
+
+  it('deve identificar o documento pelo OCR e ocupar a vaga pendente da matrícula', async () => {
+    processDocument.mockResolvedValue({
+      id: 'val-1',
+      documentType: 'address_proof',
+      status: 'valid',
+      confidence: 80,
+      extractedData: { name: 'Maria Souza', zipCode: '01001-000' },
+    });
+
+    const result = await whatsappDocumentIntakeService.handleIncomingMedia(media);
+
+    expect(downloadMedia).toHaveBeenCalledWith('escola-alfa', 'ABC123', 5 * 1024 * 1024);
+    expect(processDocument.mock.calls[0].slice(1, 3)).toEqual(['other', 70]);
+    expect(result).toMatchObject({ documentId: 70, enrollmentId: 21, slot: 'address', status: 'valid', missing: ['transcripts', 'photo'] });
+    expect((findCall("SET status = 'expired'")?.[1] as any[]).slice(0, 3)).toEqual([21, 'address', 70]);
+    expect(sendTextMessage).toHaveBeenCalledWith('escola-alfa', '5511912345678', expect.stringContaining('Recebemos seu comprovante de residência.'));
+    expect(sendTextMessage.mock.calls[0][2]).toContain('Ainda faltam: histórico escolar, foto.');
+    expect(notifySchool).toHaveBeenCalledWith(3, expect.objectContaining({ relatedId: 21, type: 'enrollment' }));
+  });
+
+  it('deve usar a legenda para escolher o tipo enviado ao OCR e guardar PDFs sem OCR', async () => {
+    processDocument.mockResolvedValue({ id: 'val-2', documentType: 'rg', status: 'needs_review', confidence: 60, extractedData: {} });
+
+    const result = await whatsappDocumentIntakeService.handleIncomingMedia({ ...media, caption: 'Meu RG' });
+    expect(processDocument.mock.calls[0][1]).toBe('rg');
+    expect(result?.slot).toBe('id');
+
+    processDocument.mockReset();
+    const pdf = await whatsappDocumentIntakeService.handleIncomingMedia({ ...media, mimeType: 'application/pdf', caption: null });
+    expect(processDocument).not.toHaveBeenCalled();
+    expect(pdf?.slot).toBe('other');
+  });
+
+  it('deve ignorar a entrega repetida de uma mensagem já recebida', async () => {
+    respond({ ...enrollmentResponses, "metadata->>'messageId' = $1": [{ '?column?': 1 }] });
+
+    expect(await whatsappDocumentIntakeService.handleIncomingMedia(media)).toBeNull();
+    expect(findCall("metadata->>'messageId' = $1")?.[1]).toEqual(['ABC123']);
+    expect(downloadMedia).not.toHaveBeenCalled();
+    expect(sendTextMessage).not.toHaveBeenCalled();
+  });
+
+  it('deve descartar o arquivo quando outra entrega registrou a mensagem primeiro', async () => {
+    respond({ ...enrollmentResponses, 'INSERT INTO documents': [] });
+
+    expect(await whatsappDocumentIntakeService.handleIncomingMedia(media)).toBeNull();
+    expect(findCall('INSERT INTO documents')?.[0]).toContain('ON CONFLICT');
+    expect(unlinkSync).toHaveBeenCalledWith(expect.stringMatching(/uploads\/whatsapp\/.+\.jpg$/));
+    expect(processDocument).not.toHaveBeenCalled();
+    expect(sendTextMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Testes para a caixa de entrada compartilhada do WhatsApp
+ * Verifica a reabertura de conversas, a posse da conversa ao responder, a
+ * primeira resposta ao lead e as regras de atribuição e transferência entre atendentes
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/pusher', () => ({ sendSchoolEvent: jest.fn(), sendUserNotification: jest.fn() }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/leadAutomationService', () => ({
+  leadAutomationService: { recordFirstResponseByPhone: jest.fn(async () => 0) },
+}));
+jest.mock('../../server/services/evolutionApi', () => {
+  const sendTextMessage = jest.fn();
+  return { getEvolutionApiService: () => ({ sendTextMessage }) };
+});
+
+import { db } from '../../server/db';
+import { sendSchoolEvent, sendUserNotification } from '../../server/pusher';
+import { getEvolutionApiService } from '../../server/services/evolutionApi';
+import { leadAutomationService } from '../../server/services/leadAutomationService';
+import { whatsappInboxService } from '../../server/services/whatsappInboxService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+const schoolEvent = sendSchoolEvent as jest.Mock<any>;
+const userNotification = sendUserNotification as jest.Mock<any>;
+const sendTextMessage = getEvolutionApiService().sendTextMessage as jest.Mock<any>;
+const recordFirstResponseByPhone = leadAutomationService.recordFirstResponseByPhone as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const conversationRow = {
+  id: 5,
+  school_id: 3,
+  instance_id: 2,
+  contact_id: 9,
+  status: 'open',
+  assigned_to: null,
+  assigned_name: null,
+  tags: [],
+  contact_name: 'João',
+  contact_phone: '55 11 91234-5678',
+  instance_key: 'escola-3',
+};
+
+const attendant = { id: 20, role: 'attendant', fullName: 'Ana' };
+
+describe('WhatsappInboxService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    schoolEvent.mockReset();
+    userNotification.mockReset();
+    sendTextMessage.mockReset();
+    recordFirstResponseByPhone.mockClear();
+    sendTextMessage.mockResolvedValue({ key: { id: 'MSG1' } });
+  });
+
+  it('deve reabrir a conversa e avisar a escola ao receber mensagem', async () => {
+    execute.mockResolvedValue([{ id: 5, assigned_to: 21 }]);
+
+    const result = await whatsappInboxService.handleIncomingMessage(3, 2, 9, 'Olá, ainda tem vagas?');
+
+    expect(result).toEqual({ id: 5, assignedTo: 21 });
+    const [query, params] = execute.mock.calls[0];
+    expect(query).toContain('ON CONFLICT (instance_id, contact_id) DO UPDATE');
+    expect(query).toContain("SET status = 'open'");
+    expect(params).toEqual([3, 2, 9, 'Olá, ainda tem vagas?']);
+    expect(schoolEvent).toHaveBeenCalledWith(3, 'inbox-updated', { conversationId: 5, reason: 'message' });
+  });
+
+  it('deve atribuir a conversa sem responsável ao atendente que responde', async () => {
+    respond({
+      'JOIN whatsapp_instances i': [{ ...conversationRow }],
+      'assigned_to IS NULL': [{ id: 5 }],
+      'INSERT INTO whatsapp_messages': [{ id: 70, created_at: new Date() }],
+    });
+
+    const message = await whatsappInboxService.sendMessage(5, 'Temos sim!', attendant);
+
+    expect(message.id).toBe(70);
+    const claimCall = findCall('assigned_to IS NULL');
+    expect(claimCall?.[1]).toEqual([5, 20]);
+    expect(sendTextMessage).toHaveBeenCalledWith('escola-3', '5511912345678', 'Temos sim!');
+    const insertCall = findCall('INSERT INTO whatsapp_messages');
+    expect(JSON.parse((insertCall?.[1] as any[])[4])).toEqual({ sentByUserId: 20, sentByName: 'Ana', conversationId: 5 });
+    expect(recordFirstResponseByPhone).toHaveBeenCalledWith(3, '55 11 91234-5678');
+  });
+
+  it('deve impedir que o atendente responda conversa de outro', async () => {
+    respond({
+      'JOIN whatsapp_instances i': [{ ...conversationRow, assigned_to: 21, assigned_name: 'Bruno' }],
+    });
+
+    await expect(whatsappInboxService.sendMessage(5, 'Oi', attendant)).rejects.toThrow('Conversa atribuída a outro atendente');
+    await expect(whatsappInboxService.assign(5, 20, attendant)).rejects.toThrow('Conversa atribuída a outro atendente');
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    expect(recordFirstResponseByPhone).not.toHaveBeenCalled();
+  });
+
+  it('deve transferir só se o responsável não mudou desde a leitura', async () => {
+    const school = { id: 1, role: 'school', fullName: 'Secretaria' };
+    let updated = false;
+    respond({
+      'JOIN whatsapp_instances i': [{ ...conversationRow, assigned_to: 21, assigned_name: 'Bruno' }],
+      'FROM users': [{ id: 20, full_name: 'Ana' }],
+      'IS NOT DISTINCT FROM': () => (updated ? [{ id: 5 }] : []),
+    });
+
+    await expect(whatsappInboxService.assign(5, 20, school)).rejects.toThrow('atribuída por outro usuário');
+
+    updated = true;
+    await whatsappInboxService.assign(5, 20, school);
+
+    const updateCall = findCall('IS NOT DISTINCT FROM');
+    expect(updateCall?.[1]).toEqual([5, 20, 21]);
+    const activityCall = findCall('INSERT INTO whatsapp_conversation_activities');
+    expect(activityCall?.[1]).toEqual([5, 'assignment', 'Conversa transferida de Bruno para Ana', 1]);
+    expect(userNotification).toHaveBeenCalledWith(20, expect.objectContaining({ relatedId: 5, relatedType: 'whatsapp_conversation' }));
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Testes para as mensagens de WhatsApp agendadas e lembretes recorrentes
+ * Verifica a geração dos lembretes de mensalidade, a conferência da condição
+ * antes do envio e o cancelamento por pagamento ou matrícula encerrada
+ */
+
+import { expect, describe, it, jest, beforeEach } from '@jest/globals';
+
+const sendTextMessage = jest.fn<any>();
+const sendAutomatedMessage = jest.fn<any>();
+
+jest.mock('../../server/db', () => ({ db: { execute: jest.fn() } }));
+jest.mock('../../server/storage', () => ({ storage: {} }));
+jest.mock('../../server/services/securityService', () => ({ logAction: jest.fn() }));
+jest.mock('../../server/services/cacheService', () => ({ cacheService: { increment: jest.fn() } }));
+jest.mock('../../server/services/domainEventService', () => ({ domainEventService: { subscribe: jest.fn() } }));
+jest.mock('../../server/services/evolutionApi', () => ({ getEvolutionApiService: () => ({ sendTextMessage }) }));
+jest.mock('../../server/services/whatsappInboxService', () => ({ whatsappInboxService: { sendAutomatedMessage } }));
+jest.mock('../../server/services/whatsappTemplateService', () => ({
+  whatsappTemplateService: {
+    replaceVariables: (content: string, data: Record<string, string>) =>
+      content.replace(/\{\{(\w+)\}\}/g, (_match, key) => data[key] ?? ''),
+  },
+}));
+
+import { db } from '../../server/db';
+import { whatsappScheduledMessageService } from '../../server/services/whatsappScheduledMessageService';
+import { mockQueries } from '../helpers/mockDatabase';
+
+const execute = db.execute as jest.Mock<any>;
+
+const { respond, findCall } = mockQueries(execute);
+
+const reminder = { id: 30, school_id: 3, phone: '5511912345678', template_id: 12, invoice_id: 90, enrollment_id: 21, variables: {} };
+
+describe('WhatsappScheduledMessageService', () => {
+  beforeEach(() => {
+    execute.mockReset();
+    sendTextMessage.mockReset();
+    sendAutomatedMessage.mockReset();
+    execute.mockResolvedValue([]);
+  });
+
+  it('deve gerar o lembrete de mensalidade para o responsável financeiro', async () => {
+    const sendAt = new Date('2026-11-07T12:00:00Z');
+    respond({
+      "trigger_type = 'tuition_due'": [
+        {
+          rule_id: 4, school_id: 3, template_id: 12, instance_id: null, invoice_id: 90, enrollment_id: 21,
+          due_date: '2026-11-10', current_amount: '450.00', student_name: 'Pedro Souza', course_name: 'Inglês',
+          school_name: 'Escola Alfa', payer_name: 'Maria Souza', payer_phone: '(11) 91234-5678', send_at: sendAt,
+        },
+        {
+          rule_id: 4, school_id: 3, template_id: 12, instance_id: null, invoice_id: 91, enrollment_id: 22,
+          due_date: '2026-11-10', current_amount: '450.00', student_name: 'Ana Lima', course_name: 'Inglês',
+          school_name: 'Escola Alfa', payer_name: 'Ana Lima', payer_phone: '123', send_at: sendAt,
+        },
+      ],
+      'INSERT INTO whatsapp_scheduled_messages': [{ id: 1 }],
+    });
+
+    const result = await whatsappScheduledMessageService.processDue();
+
+    expect(result.generated).toBe(1);
+    const rows = JSON.parse((findCall('INSERT INTO whatsapp_scheduled_messages')?.[1] as any[])[0]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      phone: '5511912345678',
+      reference_type: 'invoice',
+      reference_id: 90,
+      invoice_id: 90,
+      enrollment_id: 21,
+      rule_id: 4,
+    });
+    expect(rows[0].variables).toMatchObject({ nome: 'Maria', aluno: 'Pedro Souza', vencimento: '10/11/2026' });
+    expect(findCall('ON CONFLICT (rule_id, reference_type, reference_id) DO NOTHING')).toBeDefined();
+  });
+
+  it('deve cancelar o lembrete na hora do envio se a mensalidade já foi paga', async () => {
+    respond({
+      "SET status = 'sending'": [reminder],
+      'FROM tuition_invoices ti': [{ status: 'open', payment_status: 'paid' }],
+    });
+
+    const result = await whatsappScheduledMessageService.processDue();
+
+    expect(result).toMatchObject({ sent: 0, canceled: 1 });
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    expect(findCall("cancel_reason = $2, locked_at = NULL")?.[1]).toEqual([30, 'Mensalidade paga']);
+  });
+
+  it('deve cancelar sem enviar quando a matrícula foi cancelada ou o contato se descadastrou', async () => {
+    respond({
+      "SET status = 'sending'": [reminder],
+      'FROM tuition_invoices ti': [{ status: 'open', payment_status: null }],
+      'SELECT status FROM enrollments': [{ status: 'canceled' }],
+    });
+
+    expect(await whatsappScheduledMessageService.processDue()).toMatchObject({ sent: 0, canceled: 1 });
+    expect(findCall("cancel_reason = $2, locked_at = NULL")?.[1]).toEqual([30, 'Matrícula cancelada']);
+
+    execute.mockClear();
+    respond({
+      "SET status = 'sending'": [reminder],
+      'FROM tuition_invoices ti': [{ status: 'open', payment_status: null }],
+      'SELECT status FROM enrollments': [{ status: 'approved' }],
+      'SELECT status FROM communication_consents': [{ status: 'revoked' }],
+    });
+
+    expect(await whatsappScheduledMessageService.processDue()).toMatchObject({ sent: 0, canceled: 1 });
+    expect(findCall("cancel_reason = $2, locked_at = NULL")?.[1]).toEqual([30, 'Contato descadastrado']);
+    expect(sendTextMessage).not.toHaveBeenCalled();
+    expect(sendAutomatedMessage).not.toHaveBeenCalled();
+    expect(findCall("SET status = 'sent'")).toBeUndefined();
+  });
+
+  it('deve enviar o template agendado pela conversa da caixa de entrada', async () => {
+    sendAutomatedMessage.mockResolvedValue({ id: 500, createdAt: new Date() });
+    respond({
+      "SET status = 'sending'": [{ id: 31, school_id: 3, conversation_id: 7, phone: '5511912345678', template_id: 12, variables: { nome: 'Maria' } }],
+      'SELECT content FROM whatsapp_templates': [{ content: 'Olá {{nome}}, sua entrevista é amanhã.' }],
+    });
+
+    const result = await whatsappScheduledMessageService.processDue();
+
+    expect(result.sent).toBe(1);
+    expect(sendAutomatedMessage).toHaveBeenCalledWith(7, 'Olá Maria, sua entrevista é amanhã.', { scheduledMessageId: 31 });
+    expect((findCall("SET status = 'sent'")?.[1] as any[]).slice(0, 2)).toEqual([31, 'Olá Maria, sua entrevista é amanhã.']);
+  });
+
+  it('deve cancelar os envios pendentes quando a matrícula é cancelada ou a cobrança é paga', async () => {
+    await whatsappScheduledMessageService.handleDomainEvent({
+      id: 1, type: 'enrollment.status_changed', aggregateType: 'enrollment', aggregateId: '21',
+      schoolId: 3, payload: { status: 'approved', previous_status: 'pending' }, occurredAt: new Date(),
+    });
+    expect(execute).not.toHaveBeenCalled();
+
+    await whatsappScheduledMessageService.handleDomainEvent({
+      id: 2, type: 'enrollment.status_changed', aggregateType: 'enrollment', aggregateId: '21',
+      schoolId: 3, payload: { status: 'canceled', previous_status: 'approved' }, occurredAt: new Date(),
+    });
+    expect(execute.mock.calls[0][0]).toContain('enrollment_id = $1');
+    expect(execute.mock.calls[0][1]).toEqual([21, 'Matrícula cancelada']);
+
+    await whatsappScheduledMessageService.handleDomainEvent({
+      id: 3, type: 'payment.paid', aggregateType: 'payment', aggregateId: '55',
+      schoolId: 3, payload: { paymentId: 55, enrollmentId: 21 }, occurredAt: new Date(),
+    });
+    expect(execute.mock.calls[1][0]).toContain('SELECT id FROM tuition_invoices WHERE payment_id = $1');
+    expect(execute.mock.calls[1][1]).toEqual([55, 'Mensalidade paga']);
+  });
+
+  it('deve recusar agendamentos no passado', async () => {
+    await expect(whatsappScheduledMessageService.scheduleMessage(3, {
+      phone: '11912345678',
+      content: 'Lembrete',
+      sendAt: new Date(Date.now() - 60 * 1000),
+    }, 1)).rejects.toThrow('futuro');
+    expect(execute).not.toHaveBeenCalled();
+  });
+});